@@ -18,6 +18,27 @@ interface SetupOptions {
   force?: boolean;
 }
 
+interface ReindexOptions {
+  project?: string;
+  dryRun?: boolean;
+  force?: boolean;
+}
+
+interface ExportOptions {
+  root?: string;
+  force?: boolean;
+}
+
+interface ImportOptions {
+  root?: string;
+  name?: string;
+  onConflict?: "rename" | "merge" | "skip";
+}
+
+interface MigrateCollectionsOptions {
+  reembed?: boolean;
+}
+
 interface MemoryBankConfig {
   rootPath: string;
   qdrantUrl: string;
@@ -237,6 +258,190 @@ This is your global memory space for cross-project knowledge.
     }
   }
 
+  async reindex(
+    memoryBankPath: string | undefined,
+    options: ReindexOptions = {},
+  ): Promise<void> {
+    if (memoryBankPath) {
+      process.env.MEMORY_BANK_ROOT = path.resolve(memoryBankPath);
+    }
+
+    console.log(
+      options.dryRun
+        ? "🔍 Checking search index for drift (dry run)..."
+        : "🔄 Reindexing memory bank...",
+    );
+
+    // Imported lazily so the server configuration picks up MEMORY_BANK_ROOT
+    const { makeReindexMemory } = await import(
+      "../src/main/factories/use-cases/reindex-memory-factory.js"
+    );
+
+    const result = await makeReindexMemory().reindex({
+      projectName: options.project,
+      dryRun: options.dryRun,
+      force: options.force,
+    });
+
+    const verb = result.dryRun ? "would be" : "were";
+    const report = (label: string, files: string[]) => {
+      console.log(`${label}: ${files.length} file(s) ${verb} ${label.toLowerCase()}`);
+      files.forEach((file) => console.log(`   ${file}`));
+    };
+
+    console.log(
+      `📁 Scanned ${result.filesScanned} file(s) in ${result.projectsScanned} project(s)`,
+    );
+    report("Added", result.added);
+    report("Updated", result.updated);
+    report("Removed", result.removed);
+    console.log(`Unchanged: ${result.unchanged} file(s)`);
+
+    if (result.errors.length > 0) {
+      console.log(`\n⚠️  ${result.errors.length} error(s):`);
+      result.errors.forEach((error) => console.log(`   ${error}`));
+      process.exitCode = 1;
+    } else {
+      console.log(`\n✅ Done in ${result.duration}ms`);
+    }
+  }
+
+  async exportProject(
+    projectName: string,
+    outputPath: string | undefined,
+    options: ExportOptions = {},
+  ): Promise<void> {
+    if (options.root) {
+      process.env.MEMORY_BANK_ROOT = path.resolve(options.root);
+    }
+    // Bundles are confined to the exports folder, so a named file's folder
+    // becomes it
+    if (outputPath) {
+      process.env.MEMORY_BANK_EXPORTS_PATH = path.dirname(path.resolve(outputPath));
+    }
+
+    // Imported lazily so the server configuration picks up MEMORY_BANK_ROOT
+    const { makeExportProject } = await import(
+      "../src/main/factories/use-cases/export-project-factory.js"
+    );
+
+    try {
+      const result = await makeExportProject().exportProject({
+        projectName,
+        outputPath: outputPath && path.basename(outputPath),
+        overwrite: options.force,
+      });
+      if (!result) {
+        console.log(`❌ Project ${projectName} not found`);
+        process.exitCode = 1;
+        return;
+      }
+
+      const { counts } = result.manifest;
+      console.log(`📦 Exported ${projectName} to ${result.path}`);
+      console.log(
+        `   ${counts.files} file(s), ${counts.versions} version(s), ${counts.summaries} summary(ies), ${counts.episodes} episode(s)`,
+      );
+    } catch (error) {
+      console.log(`❌ ${(error as Error).message}`);
+      process.exitCode = 1;
+    }
+  }
+
+  async importProject(
+    bundlePath: string,
+    options: ImportOptions = {},
+  ): Promise<void> {
+    if (options.onConflict && !["rename", "merge", "skip"].includes(options.onConflict)) {
+      console.log(`❌ --on-conflict must be rename, merge or skip`);
+      process.exitCode = 1;
+      return;
+    }
+    if (options.root) {
+      process.env.MEMORY_BANK_ROOT = path.resolve(options.root);
+    }
+    process.env.MEMORY_BANK_EXPORTS_PATH = path.dirname(path.resolve(bundlePath));
+
+    // Imported lazily so the server configuration picks up MEMORY_BANK_ROOT
+    const { makeImportProject } = await import(
+      "../src/main/factories/use-cases/import-project-factory.js"
+    );
+
+    try {
+      const result = await makeImportProject().importProject({
+        bundlePath: path.basename(bundlePath),
+        projectName: options.name,
+        onConflict: options.onConflict,
+      });
+
+      if (result.status === "skipped") {
+        console.log(`⏭️  Skipped: project ${result.projectName} already exists`);
+        return;
+      }
+
+      console.log(
+        `📥 Imported ${result.sourceProjectName} into ${result.projectName} (${result.status})`,
+      );
+      console.log(
+        `   Created: ${result.created.length}, updated: ${result.updated.length}, unchanged: ${result.unchanged.length}`,
+      );
+      console.log(
+        `   ${result.versions} version(s), ${result.summaries} summary(ies), ${result.episodes} episode(s)`,
+      );
+      result.warnings.forEach((warning) => console.log(`⚠️  ${warning}`));
+    } catch (error) {
+      console.log(`❌ ${(error as Error).message}`);
+      process.exitCode = 1;
+    }
+  }
+
+  async migrateCollections(options: MigrateCollectionsOptions = {}): Promise<void> {
+    // Imported lazily so the server configuration picks up the environment
+    const { env } = await import("../src/main/config/env.js");
+    if (env.vectorStore.provider !== "qdrant") {
+      console.log("ℹ️  The local vector store migrates itself when it is opened");
+      return;
+    }
+
+    const { makeEmbeddingProvider, makeQdrantSchemaMigrator } = await import(
+      "../src/main/factories/services/index.js"
+    );
+    const { QDRANT_COLLECTION_SCHEMAS } = await import(
+      "../src/infra/vector/index.js"
+    );
+
+    console.log("🔄 Migrating Qdrant collections...");
+    const migrator = makeQdrantSchemaMigrator(({ step, processed, total }) => {
+      console.log(`   ${step}: ${processed}/${total}`);
+    });
+
+    for (const schema of QDRANT_COLLECTION_SCHEMAS) {
+      console.log(`📦 ${schema.collectionName}`);
+      try {
+        const report = await migrator.migrate(schema, makeEmbeddingProvider(), {
+          reembed: options.reembed,
+        });
+
+        if (report.created) {
+          console.log(`   Created at schema version ${report.toVersion}`);
+        } else if (report.applied.length === 0 && report.reembedded === 0) {
+          console.log(`   Up to date (schema version ${report.toVersion})`);
+        } else {
+          report.applied.forEach((step) => console.log(`   ✅ ${step}`));
+          if (report.reembedded > 0) {
+            console.log(`   ✅ Re-embedded ${report.reembedded} point(s)`);
+          }
+          console.log(
+            `   Schema version ${report.fromVersion} → ${report.toVersion}`,
+          );
+        }
+      } catch (error) {
+        console.log(`   ❌ ${error}`);
+        process.exitCode = 1;
+      }
+    }
+  }
+
   private async runCommand(command: string, args: string[]): Promise<void> {
     return new Promise((resolve, reject) => {
       const child = spawn(command, args, { stdio: "inherit" });
@@ -311,6 +516,50 @@ program
     await setup.validateSetup(memoryBankPath);
   });
 
+program
+  .command("reindex [path]")
+  .description("Reconcile the search index with memory bank files")
+  .option("-p, --project <name>", "Only reindex a single project")
+  .option("-n, --dry-run", "Report differences without changing the index")
+  .option("-f, --force", "Re-embed unchanged files as well")
+  .action(async (memoryBankPath, options) => {
+    await setup.reindex(memoryBankPath, options);
+  });
+
+program
+  .command("export <project> [output]")
+  .description("Export a project to a bundle file")
+  .option("-r, --root <path>", "Memory bank to export from")
+  .option("-f, --force", "Replace the bundle file if it exists")
+  .action(async (projectName, outputPath, options) => {
+    await setup.exportProject(projectName, outputPath, options);
+  });
+
+program
+  .command("import <bundle>")
+  .description("Import a project from a bundle file")
+  .option("-r, --root <path>", "Memory bank to import into")
+  .option("-n, --name <name>", "Import under a different project name")
+  .option(
+    "-c, --on-conflict <mode>",
+    "When the project exists: rename, merge or skip",
+    "rename",
+  )
+  .action(async (bundlePath, options) => {
+    await setup.importProject(bundlePath, options);
+  });
+
+program
+  .command("migrate-collections")
+  .description("Upgrade Qdrant collections to the current schema")
+  .option(
+    "-r, --reembed",
+    "Rebuild vectors when the embedding model or dimension changed",
+  )
+  .action(async (options) => {
+    await setup.migrateCollections(options);
+  });
+
 program
   .command("doctor")
   .description("Diagnose and fix common setup issues")
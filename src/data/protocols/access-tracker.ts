@@ -0,0 +1,14 @@
+import { FileAccess } from "../../domain/entities/index.js";
+
+export interface AccessTracker {
+  /**
+   * Queue an access; the search index is updated later, in batches, so the
+   * caller never waits for it
+   */
+  recordAccess(access: FileAccess): void;
+
+  /**
+   * Write the queued accesses to the search index
+   */
+  flush(): Promise<void>;
+}
@@ -0,0 +1,7 @@
+/**
+ * Long-running service started and stopped together with the server
+ */
+export interface BackgroundService {
+  start(): Promise<void>;
+  stop(): Promise<void>;
+}
@@ -0,0 +1,12 @@
+export interface DiffGenerator {
+  /**
+   * Unified diff turning one content into the other; empty if they match.
+   * The labels name the two sides in the ---/+++ header lines.
+   */
+  unifiedDiff(
+    oldContent: string,
+    newContent: string,
+    oldLabel: string,
+    newLabel: string
+  ): string;
+}
@@ -0,0 +1,40 @@
+/**
+ * How many documents of a collection contain each term, for weighting terms
+ * by their rarity
+ */
+export interface DocumentFrequencies {
+  documentCount: number;
+  terms: Record<string, number>;
+}
+
+export interface EmbeddingProvider {
+  /**
+   * Name of the embedding model, recorded alongside every collection
+   */
+  readonly model: string;
+
+  /**
+   * Length of the vectors produced by this provider
+   */
+  readonly dimension: number;
+
+  /**
+   * Generate an embedding for a single text, weighting its terms by the
+   * collection's document frequencies when the provider uses them
+   */
+  embed(text: string, frequencies?: DocumentFrequencies): Promise<Float32Array>;
+
+  /**
+   * Generate embeddings for several texts, preserving input order
+   */
+  embedBatch(
+    texts: string[],
+    frequencies?: DocumentFrequencies
+  ): Promise<Float32Array[]>;
+
+  /**
+   * The distinct terms a document adds to the document frequencies. Only
+   * providers that weight terms by them implement it.
+   */
+  documentTerms?(text: string): string[];
+}
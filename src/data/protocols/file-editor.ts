@@ -0,0 +1,9 @@
+import { FileEdit } from "../../domain/entities/index.js";
+
+export interface FileEditor {
+  /**
+   * Apply an edit to a file's content, keeping its front matter intact.
+   * Throws a FileEditError when the edit's anchor is not in the file.
+   */
+  applyEdit(content: string, edit: FileEdit): string;
+}
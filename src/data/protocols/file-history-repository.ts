@@ -0,0 +1,33 @@
+import {
+  FileHistoryEntry,
+  FileHistoryVersion,
+} from "../../domain/entities/index.js";
+
+/**
+ * Earlier versions of files, saved whenever an update replaces them
+ */
+export interface FileHistoryRepository {
+  /**
+   * Newest first; empty if the file was never updated
+   */
+  listVersions(
+    projectName: string,
+    fileName: string
+  ): Promise<FileHistoryEntry[]>;
+
+  loadVersion(
+    projectName: string,
+    fileName: string,
+    versionId: string
+  ): Promise<FileHistoryVersion | null>;
+
+  /**
+   * Add a version saved elsewhere, such as one from an imported project,
+   * under its own id; a version the file already has is left as it is
+   */
+  saveVersion(
+    projectName: string,
+    fileName: string,
+    version: FileHistoryVersion
+  ): Promise<void>;
+}
@@ -0,0 +1,16 @@
+export interface FileIndexer {
+  /**
+   * Parse a memory bank file and upsert it into the search index
+   */
+  indexFile(projectName: string, fileName: string, content: string): Promise<void>;
+
+  /**
+   * Remove a file from the search index
+   */
+  removeFile(projectName: string, fileName: string): Promise<void>;
+
+  /**
+   * Hash identifying the indexed version of a file's raw content
+   */
+  contentHash(content: string): string;
+}
@@ -1,16 +1,51 @@
-import { File } from "../../domain/entities/index.js";
+import { File, FileStats, FileVersion } from "../../domain/entities/index.js";
 
 export interface FileRepository {
   listFiles(projectName: string): Promise<File[]>;
+
+  /**
+   * The files listFiles lists, with their size and modification time
+   */
+  listFileStats(projectName: string): Promise<FileStats[]>;
   loadFile(projectName: string, fileName: string): Promise<File | null>;
+
+  /**
+   * Load a file together with the hash identifying its current version
+   */
+  loadFileVersion(
+    projectName: string,
+    fileName: string
+  ): Promise<FileVersion | null>;
   writeFile(
     projectName: string,
     fileName: string,
     content: string
   ): Promise<File | null>;
+  /**
+   * Rejects with a FileConflictError when expectedHash is given and the file
+   * on disk no longer has that hash. The replaced version is kept in the
+   * file's history along with the change note.
+   */
   updateFile(
     projectName: string,
     fileName: string,
-    content: string
+    content: string,
+    expectedHash?: string,
+    changeNote?: string
   ): Promise<File | null>;
+
+  /**
+   * Move a file to the trash, where it stays recoverable for a while.
+   * Resolves to the file's path in the trash, or null if it doesn't exist.
+   */
+  deleteFile(projectName: string, fileName: string): Promise<string | null>;
+
+  /**
+   * Resolves to false if the file doesn't exist or the new name is taken
+   */
+  renameFile(
+    projectName: string,
+    fileName: string,
+    newFileName: string
+  ): Promise<boolean>;
 }
@@ -0,0 +1,14 @@
+import { FileMetadataUpdate } from "../../domain/entities/index.js";
+
+export interface FrontMatterEditor {
+  /**
+   * Merge metadata into the content's front matter and mark it updated now.
+   * The creation date is kept from the content or, failing that, from the
+   * version it replaces.
+   */
+  setMetadata(
+    content: string,
+    metadata: FileMetadataUpdate,
+    previousContent?: string
+  ): string;
+}
@@ -0,0 +1,9 @@
+import { FileMetadata } from "../../domain/entities/index.js";
+
+export interface FrontMatterReader {
+  /**
+   * The metadata a file's front matter declares; fields it doesn't set are
+   * left out rather than defaulted, and malformed front matter sets none
+   */
+  readMetadata(content: string): Partial<FileMetadata>;
+}
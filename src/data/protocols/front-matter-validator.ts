@@ -0,0 +1,12 @@
+export interface FrontMatterValidator {
+  /**
+   * Rejects with a FrontMatterValidationError when the content's front
+   * matter breaks its project's schema. Projects without a schema accept
+   * any front matter.
+   */
+  validate(
+    projectName: string,
+    fileName: string,
+    content: string
+  ): Promise<void>;
+}
@@ -1,8 +1,26 @@
 export * from "./file-repository.js";
+export * from "./file-history-repository.js";
 export * from "./project-repository.js";
+export * from "./project-bundle-store.js";
+export * from "./template-repository.js";
 export * from "./vector-repository.js";
 export * from "./llm-service.js";
 export * from "./summary-repository.js";
 export * from "./episodic-memory-repository.js";
 export * from "./query-expansion-service.js";
 export * from "./global-memory-repository.js";
+export * from "./embedding-provider.js";
+export * from "./file-indexer.js";
+export * from "./access-tracker.js";
+export * from "./write-journal.js";
+export * from "./file-editor.js";
+export * from "./front-matter-validator.js";
+export * from "./front-matter-editor.js";
+export * from "./front-matter-reader.js";
+export * from "./diff-generator.js";
+export * from "./background-service.js";
+export * from "./keyword-index.js";
+export * from "./link-graph.js";
+export * from "./link-parser.js";
+export * from "./path-matcher.js";
+export * from "./section-finder.js";
@@ -0,0 +1,41 @@
+import { IndexedFileRef } from "./vector-repository.js";
+
+export interface KeywordHit {
+  projectName: string;
+  fileName: string;
+  chunkIndex: number;
+  score: number;
+}
+
+export interface KeywordSearchOptions {
+  projectName?: string;
+  limit?: number;
+}
+
+export interface KeywordIndex {
+  /**
+   * Replace the indexed text of a file, one document per chunk, recording
+   * the hash of the content it was taken from
+   */
+  indexFile(
+    projectName: string,
+    fileName: string,
+    chunks: string[],
+    contentHash?: string
+  ): Promise<void>;
+
+  /**
+   * Remove every document of a file
+   */
+  removeFile(projectName: string, fileName: string): Promise<void>;
+
+  /**
+   * One entry per indexed file, optionally limited to a project
+   */
+  listIndexedFiles(projectName?: string): Promise<IndexedFileRef[]>;
+
+  /**
+   * Rank chunks by keyword relevance to the query, best first
+   */
+  search(query: string, options?: KeywordSearchOptions): Promise<KeywordHit[]>;
+}
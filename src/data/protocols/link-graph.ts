@@ -0,0 +1,23 @@
+import { FileLink } from "../../domain/entities/index.js";
+
+export interface LinkGraph {
+  /**
+   * Replace the links going out of a file
+   */
+  setLinks(projectName: string, fileName: string, links: FileLink[]): Promise<void>;
+
+  /**
+   * Forget the links going out of a file
+   */
+  removeFile(projectName: string, fileName: string): Promise<void>;
+
+  /**
+   * Links going out of a file, or out of every file of a project
+   */
+  linksFrom(projectName: string, fileName?: string): Promise<FileLink[]>;
+
+  /**
+   * Links pointing to a file, or to any file of a project
+   */
+  linksTo(projectName: string, fileName?: string): Promise<FileLink[]>;
+}
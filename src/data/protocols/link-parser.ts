@@ -0,0 +1,21 @@
+import { FileLink, FileLocation } from "../../domain/entities/index.js";
+
+export interface LinkParser {
+  /**
+   * Links in a file's content to other memory bank files, in order
+   */
+  parseLinks(projectName: string, fileName: string, content: string): FileLink[];
+
+  /**
+   * Content of a file moving from one location to another (or staying put),
+   * with each link re-written to still reach its target. The retarget
+   * callback gives the new location of targets that move too. Links that
+   * already point to the right file are left as written.
+   */
+  rewriteLinks(
+    content: string,
+    from: FileLocation,
+    to: FileLocation,
+    retarget?: (target: FileLocation) => FileLocation | null
+  ): string;
+}
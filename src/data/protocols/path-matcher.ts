@@ -0,0 +1,6 @@
+export interface PathMatcher {
+  /**
+   * Whether a "/"-separated path matches any of the glob patterns
+   */
+  matches(path: string, patterns: string[]): boolean;
+}
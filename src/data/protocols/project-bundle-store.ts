@@ -0,0 +1,27 @@
+import {
+  ProjectBundle,
+  ProjectBundleContents,
+  ProjectExportResult,
+} from "../../domain/entities/index.js";
+
+export interface ProjectBundleStore {
+  /**
+   * Write a project's contents as a bundle, with a manifest of checksums, to
+   * the given path or to a new file in the exports folder. Paths are inside
+   * the exports folder; rejects with a BundleExistsError if the file exists
+   * and overwrite is not set
+   */
+  save(
+    projectName: string,
+    contents: ProjectBundleContents,
+    path?: string,
+    overwrite?: boolean
+  ): Promise<ProjectExportResult>;
+
+  /**
+   * Read a bundle back from the exports folder; rejects with an
+   * InvalidBundleError if the file does not hold one, its content does not
+   * match the manifest or it names files that cannot be written
+   */
+  load(path: string): Promise<ProjectBundle>;
+}
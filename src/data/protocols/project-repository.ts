@@ -1,7 +1,16 @@
-import { Project } from "../../domain/entities/index.js";
+import { Project, ProjectManifest } from "../../domain/entities/index.js";
 
 export interface ProjectRepository {
+  /**
+   * Names of the projects
+   */
   listProjects(): Promise<Project[]>;
   projectExists(name: string): Promise<boolean>;
   ensureProject(name: string): Promise<void>;
+
+  /**
+   * The project's description, owners, tags and repository; null if it has
+   * no manifest
+   */
+  loadManifest(name: string): Promise<ProjectManifest | null>;
 }
@@ -1,4 +1,9 @@
-import { QueryExpansion, HyDEResult, RetrievalContext } from "../../domain/entities/index.js";
+import {
+  QueryExpansion,
+  QueryExpansionMethod,
+  HyDEResult,
+  RetrievalContext,
+} from "../../domain/entities/index.js";
 
 export interface QueryExpansionService {
   /**
@@ -21,7 +26,7 @@ export interface QueryExpansionService {
    */
   expandQuery(
     query: string, 
-    method?: 'hyde' | 'keyword' | 'semantic' | 'hybrid',
+    method?: QueryExpansionMethod,
     options?: {
       include_synonyms?: boolean;
       include_related_terms?: boolean;
@@ -0,0 +1,9 @@
+import { LineRange } from "../../domain/entities/index.js";
+
+export interface SectionFinder {
+  /**
+   * Lines of the section under a heading path, counted from the file's first
+   * line. Throws a FileReadError when no heading, or more than one, matches.
+   */
+  findSection(content: string, headingPath: string[]): LineRange;
+}
@@ -0,0 +1,14 @@
+import { ProjectTemplate } from "../../domain/entities/index.js";
+
+export interface TemplateRepository {
+  /**
+   * Names of the built-in and user-defined templates
+   */
+  listTemplates(): Promise<string[]>;
+
+  /**
+   * A template by name; user-defined templates take precedence over
+   * built-in ones of the same name
+   */
+  loadTemplate(name: string): Promise<ProjectTemplate | null>;
+}
@@ -1,4 +1,9 @@
-import { EnhancedFile, SearchQuery, SearchResult } from "../../domain/entities/index.js";
+import {
+  EnhancedFile,
+  FileAccessStats,
+  SearchQuery,
+  SearchResult,
+} from "../../domain/entities/index.js";
 
 export interface VectorRepository {
   /**
@@ -16,6 +21,11 @@ export interface VectorRepository {
    */
   deleteFile(projectName: string, fileName: string): Promise<void>;
 
+  /**
+   * List every indexed file with the content hash it was indexed from
+   */
+  listIndexedFiles(projectName?: string): Promise<IndexedFileRef[]>;
+
   /**
    * Search for similar files using hybrid search
    * Combines semantic similarity with metadata-based ranking
@@ -28,9 +38,20 @@ export interface VectorRepository {
   getEmbedding(text: string): Promise<Float32Array>;
 
   /**
-   * Update file access statistics (for frequency tracking)
+   * Add accesses to a file's statistics (for frequency tracking), the last of
+   * them at accessedAt. Only the payload changes; vectors are left alone.
    */
-  updateFileAccess(projectName: string, fileName: string): Promise<void>;
+  updateFileAccess(
+    projectName: string,
+    fileName: string,
+    count?: number,
+    accessedAt?: Date
+  ): Promise<void>;
+
+  /**
+   * Access statistics of every indexed file of a project
+   */
+  listFileAccessStats(projectName: string): Promise<FileAccessStats[]>;
 
   /**
    * Get file statistics for a project
@@ -40,4 +61,10 @@ export interface VectorRepository {
     totalEmbeddings: number;
     lastUpdated: Date;
   }>;
-}
\ No newline at end of file
+}
+
+export interface IndexedFileRef {
+  projectName: string;
+  fileName: string;
+  contentHash: string;
+}
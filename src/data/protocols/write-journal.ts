@@ -0,0 +1,19 @@
+import { JournalEntry } from "../../domain/entities/index.js";
+
+export interface WriteJournal {
+  /**
+   * Record a change before it is made
+   * @returns The id to clear the entry with
+   */
+  begin(entry: Omit<JournalEntry, "id" | "startedAt">): Promise<string>;
+
+  /**
+   * Clear an entry once the files and the index both reflect the change
+   */
+  commit(id: string): Promise<void>;
+
+  /**
+   * Entries begun but never cleared, oldest first
+   */
+  pending(): Promise<JournalEntry[]>;
+}
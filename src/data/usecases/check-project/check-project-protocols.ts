@@ -0,0 +1,25 @@
+import {
+  CheckProjectParams,
+  CheckProjectUseCase,
+} from "../../../domain/usecases/index.js";
+import {
+  DEFAULT_TEMPLATE,
+  ProjectCheckResult,
+  TemplateNotFoundError,
+} from "../../../domain/entities/index.js";
+import {
+  FileRepository,
+  ProjectRepository,
+  TemplateRepository,
+} from "../../protocols/index.js";
+
+export {
+  CheckProjectParams,
+  CheckProjectUseCase,
+  DEFAULT_TEMPLATE,
+  FileRepository,
+  ProjectCheckResult,
+  ProjectRepository,
+  TemplateNotFoundError,
+  TemplateRepository,
+};
@@ -0,0 +1,65 @@
+import {
+  CheckProjectParams,
+  CheckProjectUseCase,
+  DEFAULT_TEMPLATE,
+  FileRepository,
+  ProjectCheckResult,
+  ProjectRepository,
+  TemplateNotFoundError,
+  TemplateRepository,
+} from "./check-project-protocols.js";
+
+const FRONT_MATTER = /^---\r?\n[\s\S]*?\r?\n---(\r?\n|$)/;
+
+/**
+ * Reports the core files of a template a project is missing or has left
+ * empty, such as the standard memory bank files of the default template
+ */
+export class CheckProject implements CheckProjectUseCase {
+  constructor(
+    private readonly templateRepository: TemplateRepository,
+    private readonly projectRepository: ProjectRepository,
+    private readonly fileRepository: FileRepository
+  ) {}
+
+  async checkProject({
+    projectName,
+    template: templateName = DEFAULT_TEMPLATE,
+  }: CheckProjectParams): Promise<ProjectCheckResult | null> {
+    const projectExists = await this.projectRepository.projectExists(
+      projectName
+    );
+    if (!projectExists) {
+      return null;
+    }
+
+    const template = await this.templateRepository.loadTemplate(templateName);
+    if (!template) {
+      throw new TemplateNotFoundError(
+        templateName,
+        await this.templateRepository.listTemplates()
+      );
+    }
+
+    const missing: string[] = [];
+    const empty: string[] = [];
+
+    for (const fileName of template.coreFiles) {
+      const content = await this.fileRepository.loadFile(projectName, fileName);
+
+      if (content === null) {
+        missing.push(fileName);
+      } else if (content.replace(FRONT_MATTER, "").trim() === "") {
+        empty.push(fileName);
+      }
+    }
+
+    return {
+      projectName,
+      template: templateName,
+      missing,
+      empty,
+      complete: missing.length === 0 && empty.length === 0,
+    };
+  }
+}
@@ -7,18 +7,27 @@ import {
   ContextBudget,
   ContextItem,
   CompressionResult,
+  QueryExpansion,
 } from "../../../domain/entities/index.js";
 import {
+  AccessTracker,
   VectorRepository,
   SummaryRepository,
   LLMService,
+  QueryExpansionService,
 } from "../../protocols/index.js";
+import { searchWithExpansion } from "../search-memory/expanded-search.js";
+
+// Files above this share of the budget contribute only their matching chunks
+const SNIPPET_BUDGET_SHARE = 0.25;
 
 export class CompileContext implements CompileContextUseCase {
   constructor(
     private readonly vectorRepository: VectorRepository,
     private readonly summaryRepository: SummaryRepository,
-    private readonly llmService: LLMService
+    private readonly llmService: LLMService,
+    private readonly expansionService?: QueryExpansionService,
+    private readonly accessTracker?: AccessTracker
   ) {}
 
   async compileContext(
@@ -35,14 +44,17 @@ export class CompileContext implements CompileContextUseCase {
       compressionMethod = 'llmlingua',
       prioritizeRecent = true,
       maxRelevanceThreshold = 0.5,
+      expansion: expansionMethod = 'none',
     } = options;
 
     // Step 1: Gather candidate items
-    const candidates = await this.gatherCandidates(
+    const { candidates, expansion } = await this.gatherCandidates(
       query,
+      budget,
       projectName,
       includeFiles,
-      includeSummaries
+      includeSummaries,
+      expansionMethod
     );
 
     // Step 2: Score and filter by relevance
@@ -89,6 +101,8 @@ export class CompileContext implements CompileContextUseCase {
       compressionRatio = compressionResult.overallCompressionRatio;
     }
 
+    this.recordAccesses(selectedItems);
+
     const compilation: ContextCompilation = {
       id: this.generateCompilationId(query),
       query,
@@ -99,6 +113,7 @@ export class CompileContext implements CompileContextUseCase {
       compressionRatio,
       compilationTime: Date.now() - startTime,
       created: new Date(),
+      ...(expansion && { expansion }),
     };
 
     return compilation;
@@ -140,28 +155,66 @@ export class CompileContext implements CompileContextUseCase {
 
   private async gatherCandidates(
     query: string,
+    budget: ContextBudget,
     projectName?: string,
     includeFiles = true,
-    includeSummaries = true
-  ): Promise<ContextItem[]> {
+    includeSummaries = true,
+    expansionMethod: ContextCompilationOptions['expansion'] = 'none'
+  ): Promise<{ candidates: ContextItem[]; expansion?: QueryExpansion }> {
     const candidates: ContextItem[] = [];
+    let expansion: QueryExpansion | undefined;
 
     // Get relevant files through vector search
     if (includeFiles) {
-      const searchResults = await this.vectorRepository.search({
-        query,
-        projectName,
-        limit: 20,
-        semanticWeight: 0.8,
-        recencyWeight: 0.2,
-      });
+      const search = await searchWithExpansion(
+        this.vectorRepository,
+        this.expansionService,
+        {
+          query,
+          projectName,
+          limit: 20,
+          semanticWeight: 0.8,
+          recencyWeight: 0.2,
+          expansion: expansionMethod,
+        }
+      );
+      const searchResults = search.results;
+      expansion = search.expansion;
 
       for (const result of searchResults) {
+        const tokens = await this.llmService.countTokens(result.file.content);
+
+        if (
+          result.chunks?.length &&
+          tokens > budget.availableTokens * SNIPPET_BUDGET_SHARE
+        ) {
+          for (const chunk of result.chunks) {
+            candidates.push({
+              id: `${result.file.projectName}:${result.file.name}#L${chunk.startLine}-${chunk.endLine}`,
+              content: chunk.content,
+              tokens: await this.llmService.countTokens(chunk.content),
+              relevanceScore: chunk.score,
+              type: 'snippet',
+              metadata: {
+                projectName: result.file.projectName,
+                fileName: result.file.name,
+                sectionPath: chunk.sectionPath,
+                startLine: chunk.startLine,
+                endLine: chunk.endLine,
+                lastAccessed: result.file.metadata.lastAccessed,
+                importance: result.file.metadata.salience || 0.5,
+              },
+            });
+          }
+          continue;
+        }
+
         candidates.push({
           id: `${result.file.projectName}:${result.file.name}`,
           content: result.file.content,
-          tokens: await this.llmService.countTokens(result.file.content),
-          relevanceScore: result.scores.semantic,
+          tokens,
+          // Chunk scores include the keyword match when hybrid search is on
+          relevanceScore: result.chunks?.[0]?.score ?? result.scores.semantic,
           type: 'file',
           metadata: {
             projectName: result.file.projectName,
@@ -200,7 +253,7 @@ export class CompileContext implements CompileContextUseCase {
       }
     }
 
-    return candidates;
+    return { candidates, expansion };
   }
 
   private async selectItemsWithinBudget(
@@ -231,6 +284,21 @@ export class CompileContext implements CompileContextUseCase {
     return selected;
   }
 
+  // Files that made it into the context count as used, once per compilation
+  private recordAccesses(items: ContextItem[]): void {
+    if (!this.accessTracker) return;
+
+    const accessedAt = new Date();
+    const files = new Map<string, { projectName: string; fileName: string }>();
+    for (const { metadata: { projectName, fileName } } of items) {
+      if (fileName) files.set(`${projectName}:${fileName}`, { projectName, fileName });
+    }
+
+    for (const file of files.values()) {
+      this.accessTracker.recordAccess({ ...file, source: 'context', accessedAt });
+    }
+  }
+
   private async compressContent(
     items: ContextItem[],
     budget: ContextBudget,
@@ -278,15 +278,27 @@ export class CompileMemoryHierarchy implements CompileMemoryHierarchyUseCase {
   }
 
   private async storeHierarchy(hierarchy: SummaryHierarchy): Promise<void> {
-    // Store all summaries
-    await this.summaryRepository.upsertSummary(hierarchy.rootSummary);
-    
-    for (const section of hierarchy.sections) {
-      await this.summaryRepository.upsertSummary(section);
+    const summaries = [hierarchy.rootSummary, ...hierarchy.sections, ...hierarchy.nodes];
+
+    // Summary ids are stable, so upserting replaces the previous compilation;
+    // only summaries it had beyond this one (removed files, fewer sections) are left
+    const previous = (
+      await Promise.all(
+        [SummaryLevel.PROJECT, SummaryLevel.SECTION, SummaryLevel.NODE].map((level) =>
+          this.summaryRepository.getSummariesByLevel(hierarchy.projectName, level)
+        )
+      )
+    ).flat();
+
+    for (const summary of summaries) {
+      await this.summaryRepository.upsertSummary(summary);
     }
-    
-    for (const node of hierarchy.nodes) {
-      await this.summaryRepository.upsertSummary(node);
+
+    const current = new Set(summaries.map((summary) => summary.id));
+    for (const summary of previous) {
+      if (!current.has(summary.id)) {
+        await this.summaryRepository.deleteSummary(summary.id);
+      }
     }
   }
 
@@ -309,6 +321,6 @@ export class CompileMemoryHierarchy implements CompileMemoryHierarchyUseCase {
     identifier: string,
     level: SummaryLevel
   ): string {
-    return `${projectName}:${level}:${identifier}:${Date.now()}`;
+    return `${projectName}:${level}:${identifier}`;
   }
 }
\ No newline at end of file
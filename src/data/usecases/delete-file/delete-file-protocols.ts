@@ -0,0 +1,16 @@
+import {
+  DeleteFileParams,
+  DeleteFileUseCase,
+  SyncFileChangeUseCase,
+} from "../../../domain/usecases/index.js";
+import { FileDeleteResult } from "../../../domain/entities/index.js";
+import { FileRepository, WriteJournal } from "../../protocols/index.js";
+
+export {
+  DeleteFileParams,
+  DeleteFileUseCase,
+  FileDeleteResult,
+  FileRepository,
+  SyncFileChangeUseCase,
+  WriteJournal,
+};
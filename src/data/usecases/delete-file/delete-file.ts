@@ -0,0 +1,65 @@
+import {
+  DeleteFileParams,
+  DeleteFileUseCase,
+  FileDeleteResult,
+  FileRepository,
+  SyncFileChangeUseCase,
+  WriteJournal,
+} from "./delete-file-protocols.js";
+
+/**
+ * Moves a file to the trash, drops it from the search index and marks the
+ * summaries built from it stale.
+ */
+export class DeleteFile implements DeleteFileUseCase {
+  constructor(
+    private readonly fileRepository: FileRepository,
+    private readonly syncFileChange: SyncFileChangeUseCase,
+    private readonly writeJournal?: WriteJournal
+  ) {}
+
+  async deleteFile({
+    projectName,
+    fileName,
+  }: DeleteFileParams): Promise<FileDeleteResult | null> {
+    // Kept until the index has dropped the file, so a crash in between is replayed
+    const entryId = await this.writeJournal?.begin({
+      operation: "delete",
+      projectName,
+      fileNames: [fileName],
+    });
+    let trashPath: string | null;
+    try {
+      trashPath = await this.fileRepository.deleteFile(projectName, fileName);
+    } catch (error) {
+      await this.commit(entryId);
+      throw error;
+    }
+    if (trashPath === null) {
+      await this.commit(entryId);
+      return null;
+    }
+
+    // The file is already in the trash; an index failure must not undo that
+    try {
+      const { staleSummaries } = await this.syncFileChange.sync({
+        projectName,
+        fileName,
+      });
+      await this.commit(entryId);
+      return { trashPath, staleSummaries };
+    } catch (error) {
+      return {
+        trashPath,
+        staleSummaries: [],
+        indexError: (error as Error).message || String(error),
+      };
+    }
+  }
+
+  private async commit(entryId?: string): Promise<void> {
+    if (entryId) {
+      await this.writeJournal?.commit(entryId);
+    }
+  }
+}
@@ -0,0 +1,23 @@
+import {
+  DiffFileVersionsParams,
+  DiffFileVersionsUseCase,
+} from "../../../domain/usecases/index.js";
+import {
+  CURRENT_FILE_VERSION,
+  FileVersionDiff,
+} from "../../../domain/entities/index.js";
+import {
+  DiffGenerator,
+  FileHistoryRepository,
+  FileRepository,
+} from "../../protocols/index.js";
+
+export {
+  CURRENT_FILE_VERSION,
+  DiffFileVersionsParams,
+  DiffFileVersionsUseCase,
+  DiffGenerator,
+  FileHistoryRepository,
+  FileRepository,
+  FileVersionDiff,
+};
@@ -0,0 +1,58 @@
+import {
+  CURRENT_FILE_VERSION,
+  DiffFileVersionsParams,
+  DiffFileVersionsUseCase,
+  DiffGenerator,
+  FileHistoryRepository,
+  FileRepository,
+  FileVersionDiff,
+} from "./diff-file-versions-protocols.js";
+
+export class DiffFileVersions implements DiffFileVersionsUseCase {
+  constructor(
+    private readonly fileRepository: FileRepository,
+    private readonly fileHistoryRepository: FileHistoryRepository,
+    private readonly diffGenerator: DiffGenerator
+  ) {}
+
+  async diffVersions({
+    projectName,
+    fileName,
+    fromVersionId,
+    toVersionId = CURRENT_FILE_VERSION,
+  }: DiffFileVersionsParams): Promise<FileVersionDiff | null> {
+    const from = await this.loadContent(projectName, fileName, fromVersionId);
+    const to = await this.loadContent(projectName, fileName, toVersionId);
+    if (from === null || to === null) {
+      return null;
+    }
+
+    return {
+      fromVersionId,
+      toVersionId,
+      diff: this.diffGenerator.unifiedDiff(
+        from,
+        to,
+        `${fileName}@${fromVersionId}`,
+        `${fileName}@${toVersionId}`
+      ),
+    };
+  }
+
+  private async loadContent(
+    projectName: string,
+    fileName: string,
+    versionId: string
+  ): Promise<string | null> {
+    if (versionId === CURRENT_FILE_VERSION) {
+      return this.fileRepository.loadFile(projectName, fileName);
+    }
+
+    const version = await this.fileHistoryRepository.loadVersion(
+      projectName,
+      fileName,
+      versionId
+    );
+    return version?.content ?? null;
+  }
+}
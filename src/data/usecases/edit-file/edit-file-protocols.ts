@@ -0,0 +1,16 @@
+import {
+  EditFileParams,
+  EditFileUseCase,
+  UpdateFileUseCase,
+} from "../../../domain/usecases/index.js";
+import { FileWriteResult } from "../../../domain/entities/index.js";
+import { FileEditor, FileRepository } from "../../protocols/index.js";
+
+export {
+  EditFileParams,
+  EditFileUseCase,
+  FileEditor,
+  FileRepository,
+  FileWriteResult,
+  UpdateFileUseCase,
+};
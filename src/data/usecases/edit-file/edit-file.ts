@@ -0,0 +1,51 @@
+import {
+  EditFileParams,
+  EditFileUseCase,
+  FileEditor,
+  FileRepository,
+  FileWriteResult,
+  UpdateFileUseCase,
+} from "./edit-file-protocols.js";
+
+/**
+ * Changes part of a file instead of overwriting it. The edits are applied to
+ * the current content and the result is saved and re-indexed by UpdateFile.
+ */
+export class EditFile implements EditFileUseCase {
+  constructor(
+    private readonly fileRepository: FileRepository,
+    private readonly fileEditor: FileEditor,
+    private readonly updateFile: UpdateFileUseCase
+  ) {}
+
+  async editFile({
+    projectName,
+    fileName,
+    edits,
+    expectedHash,
+    changeNote,
+  }: EditFileParams): Promise<FileWriteResult | null> {
+    const current = await this.fileRepository.loadFileVersion(
+      projectName,
+      fileName
+    );
+    if (current === null) {
+      return null;
+    }
+
+    const edited = edits.reduce(
+      (content, edit) => this.fileEditor.applyEdit(content, edit),
+      current.content
+    );
+
+    // Without an expected hash the edits still must not overwrite a change
+    // made after the file was loaded
+    return this.updateFile.updateFile({
+      projectName,
+      fileName,
+      content: edited,
+      expectedHash: expectedHash ?? current.contentHash,
+      changeNote,
+    });
+  }
+}
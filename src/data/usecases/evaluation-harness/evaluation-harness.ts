@@ -72,7 +72,12 @@ export class EvaluationHarness implements EvaluationHarnessUseCase {
           completed_at: new Date(),
           duration_ms: duration,
           errors: [],
-          notes: [`Used features: ${Object.entries(featureFlags).filter(([_, v]) => v).map(([k, _]) => k).join(', ')}`],
+          notes: [
+            `Used features: ${Object.entries(featureFlags).filter(([_, v]) => v).map(([k, _]) => k).join(', ')}`,
+            ...(search_results.expansion
+              ? [`Expanded queries: ${search_results.expansion.expanded_queries.join(' | ')}`]
+              : []),
+          ],
         },
       };
 
@@ -262,17 +267,11 @@ export class EvaluationHarness implements EvaluationHarnessUseCase {
 
   private async executeSearchTask(task: BenchmarkTask, features: FeatureFlags) {
     // Execute search with query expansion if enabled
-    let query = task.query;
-    
-    if (features.hyde_expansion) {
-      // Apply HyDE expansion (simplified for testing)
-      query = `${task.query} ${task.context.domain}`;
-    }
-
     return this.searchMemory.search({
-      query,
+      query: task.query,
       projectName: task.context.projectName,
       limit: 10,
+      expansion: features.hyde_expansion ? 'hyde' : 'none',
     });
   }
 
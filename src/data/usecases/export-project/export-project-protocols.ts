@@ -0,0 +1,41 @@
+import {
+  ExportProjectParams,
+  ExportProjectUseCase,
+} from "../../../domain/usecases/index.js";
+import {
+  BundledFile,
+  BundledFileHistory,
+  EpisodicMemory,
+  EpisodicType,
+  PROJECT_MANIFEST_FILE,
+  ProjectExportResult,
+  Summary,
+  SummaryLevel,
+} from "../../../domain/entities/index.js";
+import {
+  EpisodicMemoryRepository,
+  FileHistoryRepository,
+  FileRepository,
+  ProjectBundleStore,
+  ProjectRepository,
+  SummaryRepository,
+} from "../../protocols/index.js";
+
+export {
+  BundledFile,
+  BundledFileHistory,
+  EpisodicMemory,
+  EpisodicMemoryRepository,
+  EpisodicType,
+  ExportProjectParams,
+  ExportProjectUseCase,
+  FileHistoryRepository,
+  FileRepository,
+  PROJECT_MANIFEST_FILE,
+  ProjectBundleStore,
+  ProjectExportResult,
+  ProjectRepository,
+  Summary,
+  SummaryLevel,
+  SummaryRepository,
+};
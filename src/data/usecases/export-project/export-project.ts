@@ -0,0 +1,128 @@
+import {
+  BundledFile,
+  BundledFileHistory,
+  EpisodicMemory,
+  EpisodicMemoryRepository,
+  EpisodicType,
+  ExportProjectParams,
+  ExportProjectUseCase,
+  FileHistoryRepository,
+  FileRepository,
+  PROJECT_MANIFEST_FILE,
+  ProjectBundleStore,
+  ProjectExportResult,
+  ProjectRepository,
+  Summary,
+  SummaryLevel,
+  SummaryRepository,
+} from "./export-project-protocols.js";
+
+export class ExportProject implements ExportProjectUseCase {
+  constructor(
+    private readonly projectRepository: ProjectRepository,
+    private readonly fileRepository: FileRepository,
+    private readonly fileHistoryRepository: FileHistoryRepository,
+    private readonly bundleStore: ProjectBundleStore,
+    private readonly summaryRepository?: SummaryRepository,
+    private readonly episodicRepository?: EpisodicMemoryRepository
+  ) {}
+
+  async exportProject({
+    projectName,
+    outputPath,
+    overwrite,
+  }: ExportProjectParams): Promise<ProjectExportResult | null> {
+    if (!(await this.projectRepository.projectExists(projectName))) {
+      return null;
+    }
+
+    const files: BundledFile[] = [];
+    const history: BundledFileHistory[] = [];
+
+    // The manifest is not one of the project's files but travels with them
+    const fileNames = [
+      ...(await this.fileRepository.listFiles(projectName)),
+      PROJECT_MANIFEST_FILE,
+    ];
+
+    for (const fileName of fileNames) {
+      const content = await this.fileRepository.loadFile(projectName, fileName);
+      if (content === null) continue;
+
+      files.push({ fileName, content });
+
+      const versions = await this.loadHistory(projectName, fileName);
+      if (versions.versions.length > 0) {
+        history.push(versions);
+      }
+    }
+
+    return this.bundleStore.save(
+      projectName,
+      {
+        files,
+        history,
+        summaries: await this.loadSummaries(projectName),
+        episodes: await this.loadEpisodes(projectName),
+      },
+      outputPath,
+      overwrite
+    );
+  }
+
+  private async loadHistory(
+    projectName: string,
+    fileName: string
+  ): Promise<BundledFileHistory> {
+    const bundled: BundledFileHistory = { fileName, versions: [] };
+
+    for (const entry of await this.fileHistoryRepository.listVersions(
+      projectName,
+      fileName
+    )) {
+      const version = await this.fileHistoryRepository.loadVersion(
+        projectName,
+        fileName,
+        entry.versionId
+      );
+      if (version) {
+        bundled.versions.push(version);
+      }
+    }
+
+    return bundled;
+  }
+
+  // Embeddings depend on the exporting bank's provider, so they are left out
+  private async loadSummaries(projectName: string): Promise<Summary[]> {
+    if (!this.summaryRepository) return [];
+
+    const summaries: Summary[] = [];
+    for (const level of Object.values(SummaryLevel)) {
+      for (const { embedding, ...summary } of await this.summaryRepository.getSummariesByLevel(
+        projectName,
+        level
+      )) {
+        summaries.push(summary);
+      }
+    }
+
+    return summaries;
+  }
+
+  private async loadEpisodes(projectName: string): Promise<EpisodicMemory[]> {
+    if (!this.episodicRepository) return [];
+
+    const episodes: EpisodicMemory[] = [];
+    for (const type of Object.values(EpisodicType)) {
+      for (const { embedding, ...episode } of await this.episodicRepository.getEpisodesByType(
+        projectName,
+        type
+      )) {
+        episodes.push(episode);
+      }
+    }
+
+    return episodes;
+  }
+}
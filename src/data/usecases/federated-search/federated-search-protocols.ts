@@ -0,0 +1,27 @@
+import {
+  FederatedSearchQuery,
+  FederatedSearchResponse,
+  FederatedSearchResult,
+  FederatedSourceStatus,
+  MemorySource,
+} from "../../../domain/entities/index.js";
+import { FederatedSearchUseCase } from "../../../domain/usecases/index.js";
+import {
+  EpisodicMemoryRepository,
+  GlobalMemoryRepository,
+  SummaryRepository,
+  VectorRepository,
+} from "../../protocols/index.js";
+
+export {
+  EpisodicMemoryRepository,
+  FederatedSearchQuery,
+  FederatedSearchResponse,
+  FederatedSearchResult,
+  FederatedSearchUseCase,
+  FederatedSourceStatus,
+  GlobalMemoryRepository,
+  MemorySource,
+  SummaryRepository,
+  VectorRepository,
+};
@@ -0,0 +1,265 @@
+import {
+  EpisodicMemoryRepository,
+  FederatedSearchQuery,
+  FederatedSearchResponse,
+  FederatedSearchResult,
+  FederatedSearchUseCase,
+  FederatedSourceStatus,
+  GlobalMemoryRepository,
+  MemorySource,
+  SummaryRepository,
+  VectorRepository,
+} from "./federated-search-protocols.js";
+
+// A hit before its score is normalized against the rest of its source
+type SourceHit = Omit<FederatedSearchResult, "score"> & { rawScore?: number };
+
+export const MEMORY_SOURCES: MemorySource[] = [
+  "file",
+  "summary",
+  "episode",
+  "skill",
+  "case",
+  "global",
+];
+
+const SNIPPET_LENGTH = 500;
+
+/**
+ * Answers one query from every store the memory bank keeps. Each source is
+ * searched on its own and its scores normalized so its best match scores 1;
+ * the merged list keeps a quota of results per source before the remaining
+ * slots go to the best hits overall.
+ */
+export class FederatedSearch implements FederatedSearchUseCase {
+  constructor(
+    private readonly vectorRepository: VectorRepository,
+    private readonly summaryRepository: SummaryRepository,
+    private readonly globalMemoryRepository: GlobalMemoryRepository,
+    private readonly episodicRepository?: EpisodicMemoryRepository
+  ) {}
+
+  async search(query: FederatedSearchQuery): Promise<FederatedSearchResponse> {
+    const startTime = Date.now();
+    const limit = query.limit ?? 20;
+    const sources = query.sources?.length ? query.sources : MEMORY_SOURCES;
+    const defaultQuota = Math.ceil(limit / sources.length);
+
+    const searched = await Promise.all(
+      sources.map(async (source) => {
+        try {
+          const hits = await this.searchSource(source, query, limit);
+          return { source, results: this.normalize(hits) };
+        } catch (error) {
+          return {
+            source,
+            results: [] as FederatedSearchResult[],
+            error: error instanceof Error ? error.message : String(error),
+          };
+        }
+      })
+    );
+
+    const guaranteed: FederatedSearchResult[] = [];
+    const overflow: FederatedSearchResult[] = [];
+    for (const { source, results } of searched) {
+      const quota = query.quotas?.[source] ?? defaultQuota;
+      guaranteed.push(...results.slice(0, quota));
+      overflow.push(...results.slice(quota));
+    }
+
+    const results = [
+      ...this.byScore(guaranteed),
+      ...this.byScore(overflow),
+    ].slice(0, limit);
+    const ranked = this.byScore(results);
+
+    const sourceStatus: FederatedSourceStatus[] = searched.map(
+      ({ source, results: found, error }) => ({
+        source,
+        found: found.length,
+        returned: ranked.filter((result) => result.source === source).length,
+        ...(error && { error }),
+      })
+    );
+
+    return {
+      results: ranked,
+      sources: sourceStatus,
+      totalFound: searched.reduce((sum, { results: found }) => sum + found.length, 0),
+      queryTime: Date.now() - startTime,
+    };
+  }
+
+  private async searchSource(
+    source: MemorySource,
+    { query, projectName }: FederatedSearchQuery,
+    limit: number
+  ): Promise<SourceHit[]> {
+    switch (source) {
+      case "file": {
+        const results = await this.vectorRepository.search({
+          query,
+          projectName,
+          limit,
+          semanticWeight: 0.4,
+          keywordWeight: 0.3,
+          recencyWeight: 0.2,
+          frequencyWeight: 0.2,
+          salienceWeight: 0.2,
+          timeDecayDays: 30,
+        });
+
+        return results.map((result) => ({
+          id: `${result.file.projectName}:${result.file.name}`,
+          source,
+          title: result.file.name,
+          content: result.snippet ?? this.snippet(result.file.content),
+          projectName: result.file.projectName,
+          rawScore: result.scores.combined,
+          metadata: {
+            fileName: result.file.name,
+            tags: result.file.metadata.tags,
+            ...(result.chunks?.[0] && {
+              sectionPath: result.chunks[0].sectionPath,
+              startLine: result.chunks[0].startLine,
+              endLine: result.chunks[0].endLine,
+            }),
+          },
+        }));
+      }
+
+      case "summary": {
+        if (!projectName) {
+          throw new Error("Summaries can only be searched within a project");
+        }
+        const summaries = await this.summaryRepository.searchSummaries(
+          projectName,
+          query,
+          limit
+        );
+
+        return summaries.map((summary) => ({
+          id: summary.id,
+          source,
+          title: `${summary.metadata.level} summary`,
+          content: summary.content,
+          projectName: summary.projectName,
+          metadata: {
+            level: summary.metadata.level,
+            sourceFiles: summary.metadata.sourceFiles,
+            ...(summary.metadata.stale && { stale: true }),
+          },
+        }));
+      }
+
+      case "episode": {
+        const episodes = await this.requireEpisodic().searchEpisodes(
+          query,
+          projectName,
+          limit
+        );
+
+        return episodes.map((episode) => ({
+          id: episode.id,
+          source,
+          title: episode.title,
+          content: episode.outcome.summary || episode.description,
+          projectName: episode.projectName,
+          metadata: {
+            type: episode.type,
+            success: episode.context.success,
+            tags: episode.metadata.tags,
+          },
+        }));
+      }
+
+      case "skill": {
+        const skills = await this.requireEpisodic().searchSkills(query, limit);
+
+        return skills.map((skill) => ({
+          id: skill.id,
+          source,
+          title: skill.name,
+          content: skill.content.principle || skill.description,
+          metadata: {
+            category: skill.category,
+            effectiveness: skill.usage_stats.effectiveness_score,
+            tags: skill.metadata.tags,
+          },
+        }));
+      }
+
+      case "case": {
+        const cases = await this.requireEpisodic().findSimilarCases(
+          query,
+          undefined,
+          limit
+        );
+
+        return cases.map((example) => ({
+          id: example.id,
+          source,
+          title: this.snippet(example.original_problem, 120),
+          content: example.solution_approach,
+          projectName: example.projectName,
+          metadata: {
+            domain: example.metadata.domain,
+            success: example.outcome.success,
+          },
+        }));
+      }
+
+      case "global": {
+        const memories = await this.globalMemoryRepository.searchGlobalMemories({
+          query,
+          limit,
+        });
+
+        return memories.map((memory) => ({
+          id: memory.id,
+          source,
+          title: memory.title,
+          content: memory.content,
+          metadata: {
+            type: memory.type,
+            tags: memory.metadata.tags,
+            sourceProjects: memory.metadata.source_projects,
+          },
+        }));
+      }
+    }
+  }
+
+  /**
+   * Scale scores so the best hit of the source scores 1. Sources that only
+   * return a ranking are scored by rank.
+   */
+  private normalize(hits: SourceHit[]): FederatedSearchResult[] {
+    const scored = hits.every((hit) => hit.rawScore !== undefined);
+    const maxScore = Math.max(0, ...hits.map((hit) => hit.rawScore ?? 0));
+
+    return hits.map(({ rawScore, ...hit }, rank) => ({
+      ...hit,
+      score:
+        scored && maxScore > 0
+          ? rawScore! / maxScore
+          : 1 - rank / hits.length,
+    }));
+  }
+
+  private byScore(results: FederatedSearchResult[]): FederatedSearchResult[] {
+    return [...results].sort((a, b) => b.score - a.score);
+  }
+
+  private requireEpisodic(): EpisodicMemoryRepository {
+    if (!this.episodicRepository) {
+      throw new Error("Episodic memory is not configured");
+    }
+    return this.episodicRepository;
+  }
+
+  private snippet(content: string, length = SNIPPET_LENGTH): string {
+    return content.length > length ? `${content.substring(0, length)}...` : content;
+  }
+}
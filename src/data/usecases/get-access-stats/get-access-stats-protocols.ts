@@ -0,0 +1,23 @@
+import {
+  GetAccessStatsParams,
+  GetAccessStatsUseCase,
+} from "../../../domain/usecases/index.js";
+import {
+  FileAccessReport,
+  FileAccessStats,
+} from "../../../domain/entities/index.js";
+import {
+  AccessTracker,
+  ProjectRepository,
+  VectorRepository,
+} from "../../protocols/index.js";
+
+export {
+  AccessTracker,
+  FileAccessReport,
+  FileAccessStats,
+  GetAccessStatsParams,
+  GetAccessStatsUseCase,
+  ProjectRepository,
+  VectorRepository,
+};
@@ -0,0 +1,55 @@
+import {
+  AccessTracker,
+  FileAccessReport,
+  FileAccessStats,
+  GetAccessStatsParams,
+  GetAccessStatsUseCase,
+  ProjectRepository,
+  VectorRepository,
+} from "./get-access-stats-protocols.js";
+
+const DEFAULT_LIMIT = 10;
+
+/**
+ * The most and least used files of a project, by how often they were read or
+ * included in compiled context and how recently
+ */
+export class GetAccessStats implements GetAccessStatsUseCase {
+  constructor(
+    private readonly projectRepository: ProjectRepository,
+    private readonly vectorRepository: VectorRepository,
+    private readonly accessTracker?: AccessTracker
+  ) {}
+
+  async getAccessStats({
+    projectName,
+    limit = DEFAULT_LIMIT,
+  }: GetAccessStatsParams): Promise<FileAccessReport | null> {
+    const projectExists = await this.projectRepository.projectExists(
+      projectName
+    );
+    if (!projectExists) {
+      return null;
+    }
+
+    // Accesses still queued belong in the report
+    await this.accessTracker?.flush();
+
+    const stats = await this.vectorRepository.listFileAccessStats(projectName);
+    const hottest = [...stats].sort(
+      (a, b) => b.frequency - a.frequency || this.accessedAt(b) - this.accessedAt(a)
+    );
+    const coldest = [...hottest].reverse();
+
+    return {
+      projectName,
+      totalFiles: stats.length,
+      hottest: hottest.slice(0, limit),
+      coldest: coldest.slice(0, limit),
+    };
+  }
+
+  private accessedAt(stats: FileAccessStats): number {
+    return stats.lastAccessed?.getTime() ?? 0;
+  }
+}
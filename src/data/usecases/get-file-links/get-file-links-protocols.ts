@@ -0,0 +1,20 @@
+import {
+  GetFileLinksParams,
+  GetFileLinksUseCase,
+} from "../../../domain/usecases/index.js";
+import { FileLink, FileLinkReport } from "../../../domain/entities/index.js";
+import {
+  FileRepository,
+  LinkGraph,
+  ProjectRepository,
+} from "../../protocols/index.js";
+
+export {
+  FileLink,
+  FileLinkReport,
+  FileRepository,
+  GetFileLinksParams,
+  GetFileLinksUseCase,
+  LinkGraph,
+  ProjectRepository,
+};
@@ -0,0 +1,79 @@
+import {
+  FileLink,
+  FileLinkReport,
+  FileRepository,
+  GetFileLinksParams,
+  GetFileLinksUseCase,
+  LinkGraph,
+  ProjectRepository,
+} from "./get-file-links-protocols.js";
+
+/**
+ * The links going out of a file or project, the links pointing to it and the
+ * outgoing links whose target no longer exists
+ */
+export class GetFileLinks implements GetFileLinksUseCase {
+  constructor(
+    private readonly linkGraph: LinkGraph,
+    private readonly projectRepository: ProjectRepository,
+    private readonly fileRepository: FileRepository
+  ) {}
+
+  async getFileLinks({
+    projectName,
+    fileName,
+  }: GetFileLinksParams): Promise<FileLinkReport | null> {
+    const projectExists = await this.projectRepository.projectExists(
+      projectName
+    );
+    if (!projectExists) {
+      return null;
+    }
+    if (
+      fileName !== undefined &&
+      (await this.fileRepository.loadFile(projectName, fileName)) === null
+    ) {
+      return null;
+    }
+
+    const outgoing = await this.linkGraph.linksFrom(projectName, fileName);
+
+    // Links within the file or project are outgoing links, not backlinks
+    const backlinks = (await this.linkGraph.linksTo(projectName, fileName)).filter(
+      (link) =>
+        link.projectName !== projectName ||
+        (fileName !== undefined && link.fileName !== fileName)
+    );
+
+    return {
+      projectName,
+      ...(fileName !== undefined && { fileName }),
+      outgoing,
+      backlinks,
+      broken: await this.brokenLinks(outgoing),
+    };
+  }
+
+  private async brokenLinks(links: FileLink[]): Promise<FileLink[]> {
+    const filesByProject = new Map<string, Set<string>>();
+    const broken: FileLink[] = [];
+
+    for (const link of links) {
+      let files = filesByProject.get(link.targetProject);
+      if (!files) {
+        // Targets may name projects that never existed
+        const names = await this.fileRepository
+          .listFiles(link.targetProject)
+          .catch(() => []);
+        files = new Set(names);
+        filesByProject.set(link.targetProject, files);
+      }
+
+      if (!files.has(link.targetFile)) {
+        broken.push(link);
+      }
+    }
+
+    return broken;
+  }
+}
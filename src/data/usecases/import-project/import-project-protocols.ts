@@ -0,0 +1,39 @@
+import {
+  ImportProjectParams,
+  ImportProjectUseCase,
+} from "../../../domain/usecases/index.js";
+import {
+  EpisodicMemory,
+  PROJECT_MANIFEST_FILE,
+  ProjectBundle,
+  ProjectImportResult,
+  Summary,
+} from "../../../domain/entities/index.js";
+import {
+  EpisodicMemoryRepository,
+  FileHistoryRepository,
+  FileIndexer,
+  FileRepository,
+  ProjectBundleStore,
+  ProjectRepository,
+  SummaryRepository,
+  WriteJournal,
+} from "../../protocols/index.js";
+
+export {
+  EpisodicMemory,
+  EpisodicMemoryRepository,
+  FileHistoryRepository,
+  FileIndexer,
+  FileRepository,
+  ImportProjectParams,
+  ImportProjectUseCase,
+  PROJECT_MANIFEST_FILE,
+  ProjectBundle,
+  ProjectBundleStore,
+  ProjectImportResult,
+  ProjectRepository,
+  Summary,
+  SummaryRepository,
+  WriteJournal,
+};
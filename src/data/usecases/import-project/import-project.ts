@@ -0,0 +1,233 @@
+import {
+  EpisodicMemory,
+  EpisodicMemoryRepository,
+  FileHistoryRepository,
+  FileIndexer,
+  FileRepository,
+  ImportProjectParams,
+  ImportProjectUseCase,
+  PROJECT_MANIFEST_FILE,
+  ProjectBundle,
+  ProjectBundleStore,
+  ProjectImportResult,
+  ProjectRepository,
+  Summary,
+  SummaryRepository,
+  WriteJournal,
+} from "./import-project-protocols.js";
+
+const IMPORT_NOTE = "Replaced by project import";
+
+export class ImportProject implements ImportProjectUseCase {
+  constructor(
+    private readonly bundleStore: ProjectBundleStore,
+    private readonly projectRepository: ProjectRepository,
+    private readonly fileRepository: FileRepository,
+    private readonly fileHistoryRepository: FileHistoryRepository,
+    private readonly fileIndexer?: FileIndexer,
+    private readonly summaryRepository?: SummaryRepository,
+    private readonly episodicRepository?: EpisodicMemoryRepository,
+    private readonly writeJournal?: WriteJournal
+  ) {}
+
+  async importProject({
+    bundlePath,
+    projectName,
+    onConflict = "rename",
+  }: ImportProjectParams): Promise<ProjectImportResult> {
+    const bundle = await this.bundleStore.load(bundlePath);
+    const sourceProjectName = bundle.manifest.projectName;
+    let targetProject = projectName ?? sourceProjectName;
+
+    const exists = await this.projectExists(targetProject);
+    if (exists && onConflict === "rename") {
+      targetProject = await this.freeName(targetProject);
+    }
+
+    const result: ProjectImportResult = {
+      projectName: targetProject,
+      sourceProjectName,
+      status: !exists || onConflict === "rename" ? "created" : "merged",
+      created: [],
+      updated: [],
+      unchanged: [],
+      versions: 0,
+      summaries: 0,
+      episodes: 0,
+      warnings: [],
+    };
+
+    if (exists && onConflict === "skip") {
+      return { ...result, status: "skipped" };
+    }
+
+    await this.projectRepository.ensureProject(targetProject);
+
+    // Kept until the index has every imported file, so a crash in between is
+    // replayed
+    const entryId = await this.writeJournal?.begin({
+      operation: "write",
+      projectName: targetProject,
+      fileNames: bundle.files
+        .map(({ fileName }) => fileName)
+        .filter((fileName) => fileName !== PROJECT_MANIFEST_FILE),
+    });
+    await this.importFiles(bundle, result);
+    await this.importHistory(bundle, result);
+    if ((await this.reindex(bundle, result)) && entryId) {
+      await this.writeJournal?.commit(entryId);
+    }
+    await this.importSummaries(bundle, result);
+    await this.importEpisodes(bundle, result);
+
+    return result;
+  }
+
+  // Merges write new files and update those whose content differs
+  private async importFiles(
+    bundle: ProjectBundle,
+    result: ProjectImportResult
+  ): Promise<void> {
+    for (const { fileName, content } of bundle.files) {
+      const existing = await this.fileRepository.loadFile(
+        result.projectName,
+        fileName
+      );
+
+      if (existing === null) {
+        await this.fileRepository.writeFile(result.projectName, fileName, content);
+        result.created.push(fileName);
+      } else if (existing === content) {
+        result.unchanged.push(fileName);
+      } else {
+        await this.fileRepository.updateFile(
+          result.projectName,
+          fileName,
+          content,
+          undefined,
+          IMPORT_NOTE
+        );
+        result.updated.push(fileName);
+      }
+    }
+  }
+
+  private async importHistory(
+    bundle: ProjectBundle,
+    result: ProjectImportResult
+  ): Promise<void> {
+    for (const { fileName, versions } of bundle.history) {
+      for (const version of versions) {
+        await this.fileHistoryRepository.saveVersion(
+          result.projectName,
+          fileName,
+          version
+        );
+        result.versions++;
+      }
+    }
+  }
+
+  // Whether every changed file was indexed
+  private async reindex(
+    bundle: ProjectBundle,
+    result: ProjectImportResult
+  ): Promise<boolean> {
+    if (!this.fileIndexer) return true;
+
+    let indexed = true;
+    // The manifest describes the project and is not searched
+    const changed = new Set([...result.created, ...result.updated]);
+    for (const { fileName, content } of bundle.files) {
+      if (!changed.has(fileName) || fileName === PROJECT_MANIFEST_FILE) continue;
+
+      try {
+        await this.fileIndexer.indexFile(result.projectName, fileName, content);
+      } catch (error) {
+        indexed = false;
+        result.warnings.push(
+          `Failed to index ${fileName}: ${(error as Error).message}`
+        );
+      }
+    }
+
+    return indexed;
+  }
+
+  private async importSummaries(
+    bundle: ProjectBundle,
+    result: ProjectImportResult
+  ): Promise<void> {
+    if (bundle.summaries.length === 0) return;
+    if (!this.summaryRepository) {
+      result.warnings.push(
+        `${bundle.summaries.length} summaries were not imported; no summary store is configured`
+      );
+      return;
+    }
+
+    const rename = this.renameId(bundle.manifest.projectName, result.projectName);
+    for (const summary of bundle.summaries) {
+      const imported: Summary = {
+        ...summary,
+        id: rename(summary.id),
+        projectName: result.projectName,
+        metadata: {
+          ...summary.metadata,
+          ...(summary.metadata.parentSummaryId && {
+            parentSummaryId: rename(summary.metadata.parentSummaryId),
+          }),
+          childSummaryIds: summary.metadata.childSummaryIds.map(rename),
+        },
+      };
+
+      await this.summaryRepository.upsertSummary(imported);
+      result.summaries++;
+    }
+  }
+
+  private async importEpisodes(
+    bundle: ProjectBundle,
+    result: ProjectImportResult
+  ): Promise<void> {
+    if (bundle.episodes.length === 0) return;
+    if (!this.episodicRepository) {
+      result.warnings.push(
+        `${bundle.episodes.length} episodes were not imported; no episodic memory store is configured`
+      );
+      return;
+    }
+
+    const rename = this.renameId(bundle.manifest.projectName, result.projectName);
+    for (const episode of bundle.episodes) {
+      const imported: EpisodicMemory = {
+        ...episode,
+        id: rename(episode.id),
+        projectName: result.projectName,
+      };
+
+      await this.episodicRepository.storeEpisode(imported);
+      result.episodes++;
+    }
+  }
+
+  // Ids built from the project name follow the project to its new name
+  private renameId(from: string, to: string): (id: string) => string {
+    return (id) =>
+      from !== to && id.startsWith(`${from}:`) ? `${to}${id.slice(from.length)}` : id;
+  }
+
+  // Repositories may reject for a project that isn't there rather than say so
+  private async projectExists(projectName: string): Promise<boolean> {
+    return this.projectRepository.projectExists(projectName).catch(() => false);
+  }
+
+  private async freeName(projectName: string): Promise<string> {
+    let suffix = 2;
+    while (await this.projectExists(`${projectName}-${suffix}`)) {
+      suffix++;
+    }
+
+    return `${projectName}-${suffix}`;
+  }
+}
@@ -0,0 +1,25 @@
+import {
+  InitProjectParams,
+  InitProjectUseCase,
+  WriteFileUseCase,
+} from "../../../domain/usecases/index.js";
+import {
+  DEFAULT_TEMPLATE,
+  ProjectInitResult,
+  TemplateNotFoundError,
+} from "../../../domain/entities/index.js";
+import {
+  ProjectRepository,
+  TemplateRepository,
+} from "../../protocols/index.js";
+
+export {
+  DEFAULT_TEMPLATE,
+  InitProjectParams,
+  InitProjectUseCase,
+  ProjectInitResult,
+  ProjectRepository,
+  TemplateNotFoundError,
+  TemplateRepository,
+  WriteFileUseCase,
+};
@@ -0,0 +1,73 @@
+import {
+  DEFAULT_TEMPLATE,
+  InitProjectParams,
+  InitProjectUseCase,
+  ProjectInitResult,
+  ProjectRepository,
+  TemplateNotFoundError,
+  TemplateRepository,
+  WriteFileUseCase,
+} from "./init-project-protocols.js";
+
+const PLACEHOLDER = /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+/**
+ * Creates a project from a template. Files the project already has are left
+ * alone, so running it on an existing project adds just the missing ones.
+ * Files are saved through WriteFile and so indexed like any other write.
+ */
+export class InitProject implements InitProjectUseCase {
+  constructor(
+    private readonly templateRepository: TemplateRepository,
+    private readonly projectRepository: ProjectRepository,
+    private readonly writeFile: WriteFileUseCase
+  ) {}
+
+  async initProject({
+    projectName,
+    template: templateName = DEFAULT_TEMPLATE,
+    variables = {},
+  }: InitProjectParams): Promise<ProjectInitResult> {
+    const template = await this.templateRepository.loadTemplate(templateName);
+    if (!template) {
+      throw new TemplateNotFoundError(
+        templateName,
+        await this.templateRepository.listTemplates()
+      );
+    }
+
+    await this.projectRepository.ensureProject(projectName);
+
+    const values: Record<string, string> = {
+      date: new Date().toISOString().slice(0, 10),
+      ...variables,
+      projectName,
+    };
+
+    const result: ProjectInitResult = {
+      projectName,
+      template: templateName,
+      created: [],
+      skipped: [],
+    };
+
+    for (const { fileName, content } of template.files) {
+      const written = await this.writeFile.writeFile({
+        projectName,
+        fileName,
+        content: this.render(content, values),
+      });
+
+      (written === null ? result.skipped : result.created).push(fileName);
+    }
+
+    return result;
+  }
+
+  // Placeholders without a value are left for the author to fill in
+  private render(content: string, values: Record<string, string>): string {
+    return content.replace(PLACEHOLDER, (placeholder, name: string) =>
+      name in values ? values[name] : placeholder
+    );
+  }
+}
@@ -0,0 +1,17 @@
+import {
+  ListFileVersionsParams,
+  ListFileVersionsUseCase,
+} from "../../../domain/usecases/index.js";
+import { FileHistoryEntry } from "../../../domain/entities/index.js";
+import {
+  FileHistoryRepository,
+  FileRepository,
+} from "../../protocols/index.js";
+
+export {
+  FileHistoryEntry,
+  FileHistoryRepository,
+  FileRepository,
+  ListFileVersionsParams,
+  ListFileVersionsUseCase,
+};
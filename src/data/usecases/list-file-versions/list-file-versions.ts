@@ -0,0 +1,34 @@
+import {
+  FileHistoryEntry,
+  FileHistoryRepository,
+  FileRepository,
+  ListFileVersionsParams,
+  ListFileVersionsUseCase,
+} from "./list-file-versions-protocols.js";
+
+export class ListFileVersions implements ListFileVersionsUseCase {
+  constructor(
+    private readonly fileRepository: FileRepository,
+    private readonly fileHistoryRepository: FileHistoryRepository
+  ) {}
+
+  async listVersions({
+    projectName,
+    fileName,
+  }: ListFileVersionsParams): Promise<FileHistoryEntry[] | null> {
+    const versions = await this.fileHistoryRepository.listVersions(
+      projectName,
+      fileName
+    );
+
+    // A deleted file's history stays listable, so it can still be recovered
+    if (
+      versions.length === 0 &&
+      (await this.fileRepository.loadFile(projectName, fileName)) === null
+    ) {
+      return null;
+    }
+
+    return versions;
+  }
+}
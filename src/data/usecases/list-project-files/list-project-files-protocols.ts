@@ -2,11 +2,28 @@ import {
   ListProjectFilesParams,
   ListProjectFilesUseCase,
 } from "../../../domain/usecases/index.js";
-import { FileRepository, ProjectRepository } from "../../protocols/index.js";
+import {
+  FileStats,
+  FileTreeNode,
+  ProjectFileInfo,
+} from "../../../domain/entities/index.js";
+import {
+  FileRepository,
+  FrontMatterReader,
+  LLMService,
+  PathMatcher,
+  ProjectRepository,
+} from "../../protocols/index.js";
 
 export {
   FileRepository,
+  FileStats,
+  FileTreeNode,
+  FrontMatterReader,
   ListProjectFilesParams,
   ListProjectFilesUseCase,
+  LLMService,
+  PathMatcher,
+  ProjectFileInfo,
   ProjectRepository,
 };
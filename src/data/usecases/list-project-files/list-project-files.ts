@@ -1,18 +1,35 @@
 import {
   FileRepository,
+  FileStats,
+  FileTreeNode,
+  FrontMatterReader,
   ListProjectFilesParams,
   ListProjectFilesUseCase,
+  LLMService,
+  PathMatcher,
+  ProjectFileInfo,
   ProjectRepository,
 } from "./list-project-files-protocols.js";
 
 export class ListProjectFiles implements ListProjectFilesUseCase {
   constructor(
     private readonly fileRepository: FileRepository,
-    private readonly projectRepository: ProjectRepository
+    private readonly projectRepository: ProjectRepository,
+    private readonly frontMatterReader: FrontMatterReader,
+    private readonly pathMatcher: PathMatcher,
+    private readonly llmService: LLMService
   ) {}
 
-  async listProjectFiles(params: ListProjectFilesParams): Promise<string[]> {
-    const { projectName } = params;
+  async listProjectFiles(
+    params: ListProjectFilesParams
+  ): Promise<ProjectFileInfo[]> {
+    const {
+      projectName,
+      tags,
+      updatedSince,
+      sortBy = "name",
+      order = sortBy === "name" ? "asc" : "desc",
+    } = params;
     const projectExists = await this.projectRepository.projectExists(
       projectName
     );
@@ -21,6 +38,141 @@ export class ListProjectFiles implements ListProjectFilesUseCase {
       return [];
     }
 
-    return this.fileRepository.listFiles(projectName);
+    const files: ProjectFileInfo[] = [];
+    for (const stats of await this.fileRepository.listFileStats(projectName)) {
+      // Globs only need the name, so they run before any file is read
+      if (!this.selected(stats.fileName, params)) continue;
+
+      const file = await this.describe(projectName, stats);
+      if (!file) continue;
+      if (tags?.length && !tags.every((tag) => file.tags.includes(tag))) continue;
+      if (updatedSince && file.updated < updatedSince) continue;
+
+      files.push(file);
+    }
+
+    const direction = order === "asc" ? 1 : -1;
+    return files.sort(
+      (a, b) =>
+        direction * this.compare(a, b, sortBy) ||
+        a.fileName.localeCompare(b.fileName)
+    );
+  }
+
+  async listProjectFileTree(
+    params: ListProjectFilesParams
+  ): Promise<FileTreeNode[]> {
+    const files = await this.fileNames(params);
+    const root: FileTreeNode[] = [];
+
+    for (const filePath of files) {
+      const segments = filePath.split("/");
+      let level = root;
+
+      segments.forEach((name, i) => {
+        const isFile = i === segments.length - 1;
+        let node = level.find(
+          (child) => child.name === name && (child.type === "file") === isFile
+        );
+
+        if (!node) {
+          node = {
+            name,
+            path: segments.slice(0, i + 1).join("/"),
+            type: isFile ? "file" : "directory",
+            ...(!isFile && { children: [] }),
+          };
+          level.push(node);
+        }
+        level = node.children ?? [];
+      });
+    }
+
+    return this.sortTree(root);
+  }
+
+  // Files are only read when a filter needs their metadata
+  private async fileNames(params: ListProjectFilesParams): Promise<string[]> {
+    if (params.tags?.length || params.updatedSince) {
+      return (await this.listProjectFiles(params)).map((file) => file.fileName);
+    }
+
+    const projectExists = await this.projectRepository.projectExists(
+      params.projectName
+    );
+    if (!projectExists) {
+      return [];
+    }
+
+    return (await this.fileRepository.listFiles(params.projectName)).filter(
+      (fileName) => this.selected(fileName, params)
+    );
+  }
+
+  private selected(
+    fileName: string,
+    { include, exclude }: ListProjectFilesParams
+  ): boolean {
+    return (
+      (!include?.length || this.pathMatcher.matches(fileName, include)) &&
+      !(exclude?.length && this.pathMatcher.matches(fileName, exclude))
+    );
+  }
+
+  private async describe(
+    projectName: string,
+    { fileName, size, modifiedAt }: FileStats
+  ): Promise<ProjectFileInfo | null> {
+    const version = await this.fileRepository.loadFileVersion(
+      projectName,
+      fileName
+    );
+    if (!version) {
+      return null;
+    }
+
+    const metadata = this.frontMatterReader.readMetadata(version.content);
+    return {
+      fileName,
+      size,
+      tokens: await this.llmService.countTokens(version.content),
+      created: metadata.created ?? modifiedAt,
+      updated: metadata.updated ?? modifiedAt,
+      tags: metadata.tags ?? [],
+      ...(metadata.salience !== undefined && { salience: metadata.salience }),
+      ...(metadata.task && { task: metadata.task }),
+      contentHash: version.contentHash,
+    };
+  }
+
+  private compare(
+    a: ProjectFileInfo,
+    b: ProjectFileInfo,
+    sortBy: ListProjectFilesParams["sortBy"]
+  ): number {
+    switch (sortBy) {
+      case "updated":
+        return a.updated.getTime() - b.updated.getTime();
+      case "created":
+        return a.created.getTime() - b.created.getTime();
+      case "size":
+        return a.size - b.size;
+      case "salience":
+        return (a.salience ?? -1) - (b.salience ?? -1);
+      default:
+        return a.fileName.localeCompare(b.fileName);
+    }
+  }
+
+  private sortTree(nodes: FileTreeNode[]): FileTreeNode[] {
+    return nodes
+      .map((node) =>
+        node.children ? { ...node, children: this.sortTree(node.children) } : node
+      )
+      .sort(
+        (a, b) =>
+          (a.type === b.type ? 0 : a.type === "directory" ? -1 : 1) ||
+          a.name.localeCompare(b.name)
+      );
   }
 }
@@ -1,5 +1,27 @@
-import { Project } from "../../../domain/entities/index.js";
-import { ListProjectsUseCase } from "../../../domain/usecases/index.js";
-import { ProjectRepository } from "../../protocols/index.js";
+import {
+  Project,
+  ProjectIndexStatus,
+  ProjectInfo,
+  ProjectList,
+} from "../../../domain/entities/index.js";
+import {
+  ListProjectsParams,
+  ListProjectsUseCase,
+} from "../../../domain/usecases/index.js";
+import {
+  FileRepository,
+  ProjectRepository,
+  VectorRepository,
+} from "../../protocols/index.js";
 
-export { ListProjectsUseCase, Project, ProjectRepository };
+export {
+  FileRepository,
+  ListProjectsParams,
+  ListProjectsUseCase,
+  Project,
+  ProjectIndexStatus,
+  ProjectInfo,
+  ProjectList,
+  ProjectRepository,
+  VectorRepository,
+};
@@ -1,13 +1,121 @@
 import {
+  FileRepository,
+  ListProjectsParams,
   ListProjectsUseCase,
-  Project,
+  ProjectIndexStatus,
+  ProjectInfo,
+  ProjectList,
   ProjectRepository,
+  VectorRepository,
 } from "./list-projects-protocols.js";
 
+export const DEFAULT_PROJECT_PAGE_SIZE = 50;
+export const MAX_PROJECT_PAGE_SIZE = 200;
+
 export class ListProjects implements ListProjectsUseCase {
-  constructor(private readonly projectRepository: ProjectRepository) {}
+  constructor(
+    private readonly projectRepository: ProjectRepository,
+    private readonly fileRepository: FileRepository,
+    private readonly vectorRepository?: VectorRepository
+  ) {}
+
+  async listProjects({
+    sortBy = "name",
+    order = sortBy === "name" ? "asc" : "desc",
+    tag,
+    cursor,
+    limit = DEFAULT_PROJECT_PAGE_SIZE,
+  }: ListProjectsParams = {}): Promise<ProjectList> {
+    const indexedFiles = await this.indexedFiles();
+    const projects: ProjectInfo[] = [];
+
+    for (const name of await this.projectRepository.listProjects()) {
+      const manifest = await this.projectRepository.loadManifest(name);
+      if (tag && !manifest?.tags?.includes(tag)) continue;
+
+      const files = await this.fileRepository.listFileStats(name);
+      const lastUpdated = files.reduce<Date | null>(
+        (latest, file) =>
+          latest && latest >= file.modifiedAt ? latest : file.modifiedAt,
+        null
+      );
+
+      projects.push({
+        name,
+        ...manifest,
+        fileCount: files.length,
+        totalSize: files.reduce((total, file) => total + file.size, 0),
+        lastUpdated,
+        indexStatus: indexedFiles
+          ? this.indexStatus(
+              files.map((file) => file.fileName),
+              indexedFiles.get(name) ?? new Set()
+            )
+          : "unknown",
+      });
+    }
+
+    const direction = order === "asc" ? 1 : -1;
+    projects.sort(
+      (a, b) =>
+        direction * this.compare(a, b, sortBy) || a.name.localeCompare(b.name)
+    );
+
+    // Cursors are offsets into the sorted list; a bad one starts over
+    const offset = Math.max(0, Number.parseInt(cursor ?? "0", 10) || 0);
+    const pageSize = Math.min(Math.max(1, limit), MAX_PROJECT_PAGE_SIZE);
+    const next = offset + pageSize;
+
+    return {
+      projects: projects.slice(offset, next),
+      total: projects.length,
+      ...(next < projects.length && { nextCursor: String(next) }),
+    };
+  }
+
+  private compare(
+    a: ProjectInfo,
+    b: ProjectInfo,
+    sortBy: ListProjectsParams["sortBy"]
+  ): number {
+    switch (sortBy) {
+      case "updated":
+        return (a.lastUpdated?.getTime() ?? 0) - (b.lastUpdated?.getTime() ?? 0);
+      case "size":
+        return a.totalSize - b.totalSize;
+      case "files":
+        return a.fileCount - b.fileCount;
+      default:
+        return a.name.localeCompare(b.name);
+    }
+  }
+
+  // Indexed file names by project; null if the index can't be read
+  private async indexedFiles(): Promise<Map<string, Set<string>> | null> {
+    if (!this.vectorRepository) return null;
+
+    try {
+      const byProject = new Map<string, Set<string>>();
+      for (const { projectName, fileName } of await this.vectorRepository.listIndexedFiles()) {
+        if (!byProject.has(projectName)) {
+          byProject.set(projectName, new Set());
+        }
+        byProject.get(projectName)!.add(fileName);
+      }
+      return byProject;
+    } catch {
+      return null;
+    }
+  }
 
-  async listProjects(): Promise<Project[]> {
-    return this.projectRepository.listProjects();
+  private indexStatus(
+    fileNames: string[],
+    indexed: Set<string>
+  ): ProjectIndexStatus {
+    const covered = fileNames.filter((fileName) => indexed.has(fileName)).length;
+    if (covered === 0) {
+      return fileNames.length === 0 ? "indexed" : "not_indexed";
+    }
+    return covered === fileNames.length ? "indexed" : "partial";
   }
 }
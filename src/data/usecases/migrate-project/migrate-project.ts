@@ -1,4 +1,18 @@
-import { FileRepository, ProjectRepository } from "../../protocols/index.js";
+import {
+  FileLocation,
+  JournalEntry,
+  PROJECT_MANIFEST_FILE,
+} from "../../../domain/entities/index.js";
+import {
+  FileIndexer,
+  FileRepository,
+  LinkGraph,
+  LinkParser,
+  ProjectRepository,
+  WriteJournal,
+} from "../../protocols/index.js";
+
+const LINKS_UPDATED_NOTE = "Links updated after project migration";
 
 export interface ProjectMigrationOptions {
   copyFiles?: boolean; // Copy files instead of moving (default: false)
@@ -15,12 +29,20 @@ export interface MigrationResult {
   errorMessages: string[];
   warnings: string[];
   duration: number;
+  /**
+   * Files of other projects whose links were re-written to the new project
+   */
+  updatedFiles: FileLocation[];
 }
 
 export class MigrateProject {
   constructor(
     private readonly fileRepository: FileRepository,
     private readonly projectRepository: ProjectRepository,
+    private readonly fileIndexer?: FileIndexer,
+    private readonly linkGraph?: LinkGraph,
+    private readonly linkParser?: LinkParser,
+    private readonly writeJournal?: WriteJournal,
   ) {}
 
   async migrateProject(
@@ -37,6 +59,7 @@ export class MigrateProject {
       errorMessages: [],
       warnings: [],
       duration: 0,
+      updatedFiles: [],
     };
 
     try {
@@ -87,12 +110,21 @@ export class MigrateProject {
           const updatedContent =
             options.updateReferences !== false
               ? this.updateProjectReferences(
+                  fileName,
                   content,
                   oldProjectName,
                   newProjectName,
                 )
               : content;
 
+          const moving = !options.copyFiles && !options.preserveOriginal;
+          const entryIds = await this.beginMove(
+            oldProjectName,
+            newProjectName,
+            fileName,
+            moving,
+          );
+
           // Write to new project
           const writeResult = await this.fileRepository.writeFile(
             newProjectName,
@@ -104,18 +136,28 @@ export class MigrateProject {
             result.errorMessages.push(
               `Failed to write file to target: ${fileName}`,
             );
+            await this.commit(entryIds);
             continue;
           }
 
           result.filesProcessed++;
 
-          // Remove from original project if moving (not copying)
-          if (!options.copyFiles && !options.preserveOriginal) {
-            // Note: Current FileRepository doesn't have delete method
-            // In production, would implement file deletion
-            result.warnings.push(
-              `Original file not deleted (delete not implemented): ${fileName}`,
-            );
+          const indexed = await this.reindexMigratedFile(
+            oldProjectName,
+            newProjectName,
+            fileName,
+            updatedContent,
+            moving,
+            result,
+          );
+
+          // Remove from original project if moving (not copying); the
+          // original stays recoverable in the trash
+          if (moving) {
+            await this.fileRepository.deleteFile(oldProjectName, fileName);
+          }
+          if (indexed) {
+            await this.commit(entryIds);
           }
         } catch (error) {
           result.errorMessages.push(
@@ -124,6 +166,22 @@ export class MigrateProject {
         }
       }
 
+      await this.migrateManifest(
+        oldProjectName,
+        newProjectName,
+        options,
+        result,
+      );
+
+      // Links from other projects follow the files when they move
+      if (
+        options.updateReferences !== false &&
+        !options.copyFiles &&
+        !options.preserveOriginal
+      ) {
+        await this.updateBacklinks(oldProjectName, newProjectName, result);
+      }
+
       // Remove original project if moving and not preserving
       if (!options.copyFiles && !options.preserveOriginal) {
         // Note: Current ProjectRepository doesn't have delete method
@@ -226,48 +284,185 @@ export class MigrateProject {
     };
   }
 
+  // The manifest is not one of the project's files, so it is neither listed
+  // nor indexed, but it still describes the project under its new name
+  private async migrateManifest(
+    oldProjectName: string,
+    newProjectName: string,
+    options: ProjectMigrationOptions,
+    result: MigrationResult,
+  ): Promise<void> {
+    const manifest = await this.fileRepository.loadFile(
+      oldProjectName,
+      PROJECT_MANIFEST_FILE,
+    );
+    if (manifest === null) return;
+
+    const written = await this.fileRepository.writeFile(
+      newProjectName,
+      PROJECT_MANIFEST_FILE,
+      manifest,
+    );
+    if (written === null) {
+      result.errorMessages.push(
+        `Failed to write file to target: ${PROJECT_MANIFEST_FILE}`,
+      );
+      return;
+    }
+
+    if (!options.copyFiles && !options.preserveOriginal) {
+      await this.fileRepository.deleteFile(oldProjectName, PROJECT_MANIFEST_FILE);
+    }
+  }
+
+  // Kept until the index follows the file, so a crash in between is replayed
+  private async beginMove(
+    oldProjectName: string,
+    newProjectName: string,
+    fileName: string,
+    moving: boolean,
+  ): Promise<string[]> {
+    return [
+      ...(await this.begin("write", { projectName: newProjectName, fileName })),
+      ...(moving
+        ? await this.begin("delete", { projectName: oldProjectName, fileName })
+        : []),
+    ];
+  }
+
+  private async begin(
+    operation: JournalEntry["operation"],
+    { projectName, fileName }: FileLocation,
+  ): Promise<string[]> {
+    const entryId = await this.writeJournal?.begin({
+      operation,
+      projectName,
+      fileNames: [fileName],
+    });
+    return entryId ? [entryId] : [];
+  }
+
+  private async commit(entryIds: string[]): Promise<void> {
+    for (const entryId of entryIds) {
+      await this.writeJournal?.commit(entryId);
+    }
+  }
+
+  // Whether the index now follows the file
+  private async reindexMigratedFile(
+    oldProjectName: string,
+    newProjectName: string,
+    fileName: string,
+    content: string,
+    moving: boolean,
+    result: MigrationResult,
+  ): Promise<boolean> {
+    if (!this.fileIndexer) return true;
+
+    // Index problems never fail the migration itself, they are only reported
+    try {
+      await this.fileIndexer.indexFile(newProjectName, fileName, content);
+      if (moving) {
+        await this.fileIndexer.removeFile(oldProjectName, fileName);
+      }
+      return true;
+    } catch (error) {
+      result.warnings.push(`Search index not updated for ${fileName}: ${error}`);
+      return false;
+    }
+  }
+
   private updateProjectReferences(
+    fileName: string,
     content: string,
     oldProjectName: string,
     newProjectName: string,
   ): string {
-    // Update project name references in content
-    let updatedContent = content;
-
     // Update YAML front-matter project references
     const yamlProjectPattern = new RegExp(
       `project:\\s*["']?${this.escapeRegExp(oldProjectName)}["']?`,
       "gi",
     );
-    updatedContent = updatedContent.replace(
+    const updatedContent = content.replace(
       yamlProjectPattern,
       `project: "${newProjectName}"`,
     );
 
-    // Update markdown links to project
-    const markdownLinkPattern = new RegExp(
-      `\\[([^\\]]+)\\]\\(([^\\)]*${this.escapeRegExp(oldProjectName)}[^\\)]*)\\)`,
-      "gi",
-    );
-    updatedContent = updatedContent.replace(
-      markdownLinkPattern,
-      (match, linkText, linkUrl) => {
-        const updatedUrl = linkUrl.replace(oldProjectName, newProjectName);
-        return `[${linkText}](${updatedUrl})`;
-      },
-    );
+    // Links are re-written only where they point into the migrated project;
+    // other mentions of its name are left as written
+    if (!this.linkParser) return updatedContent;
 
-    // Update file path references
-    const pathReferencePattern = new RegExp(
-      `${this.escapeRegExp(oldProjectName)}/`,
-      "gi",
-    );
-    updatedContent = updatedContent.replace(
-      pathReferencePattern,
-      `${newProjectName}/`,
+    return this.linkParser.rewriteLinks(
+      updatedContent,
+      { projectName: oldProjectName, fileName },
+      { projectName: newProjectName, fileName },
+      this.retargetProject(oldProjectName, newProjectName),
     );
+  }
 
-    return updatedContent;
+  private async updateBacklinks(
+    oldProjectName: string,
+    newProjectName: string,
+    result: MigrationResult,
+  ): Promise<void> {
+    if (!this.linkGraph || !this.linkParser) return;
+
+    const backlinks = await this.linkGraph.linksTo(oldProjectName);
+    const sources = new Map<string, FileLocation>();
+    for (const { projectName, fileName } of backlinks) {
+      if (projectName === oldProjectName || projectName === newProjectName) {
+        continue;
+      }
+      sources.set(`${projectName}/${fileName}`, { projectName, fileName });
+    }
+
+    for (const source of sources.values()) {
+      try {
+        const content = await this.fileRepository.loadFile(
+          source.projectName,
+          source.fileName,
+        );
+        if (content === null) continue;
+
+        const rewritten = this.linkParser.rewriteLinks(
+          content,
+          source,
+          source,
+          this.retargetProject(oldProjectName, newProjectName),
+        );
+        if (rewritten === content) continue;
+
+        const entryIds = await this.begin("update", source);
+        await this.fileRepository.updateFile(
+          source.projectName,
+          source.fileName,
+          rewritten,
+          undefined,
+          LINKS_UPDATED_NOTE,
+        );
+        await this.fileIndexer?.indexFile(
+          source.projectName,
+          source.fileName,
+          rewritten,
+        );
+        await this.commit(entryIds);
+        result.updatedFiles.push(source);
+      } catch (error) {
+        result.warnings.push(
+          `Links not updated in ${source.projectName}/${source.fileName}: ${error}`,
+        );
+      }
+    }
+  }
+
+  private retargetProject(
+    oldProjectName: string,
+    newProjectName: string,
+  ): (target: FileLocation) => FileLocation | null {
+    return (target) =>
+      target.projectName === oldProjectName
+        ? { projectName: newProjectName, fileName: target.fileName }
+        : null;
   }
 
   private isSubPath(parentPath: string, childPath: string): boolean {
@@ -2,6 +2,30 @@ import {
   ReadFileParams,
   ReadFileUseCase,
 } from "../../../domain/usecases/index.js";
-import { FileRepository, ProjectRepository } from "../../protocols/index.js";
+import {
+  FileExcerpt,
+  FileReadError,
+  FileVersion,
+  LineRange,
+} from "../../../domain/entities/index.js";
+import {
+  AccessTracker,
+  FileRepository,
+  LLMService,
+  ProjectRepository,
+  SectionFinder,
+} from "../../protocols/index.js";
 
-export { FileRepository, ProjectRepository, ReadFileParams, ReadFileUseCase };
+export {
+  AccessTracker,
+  FileExcerpt,
+  FileReadError,
+  FileRepository,
+  FileVersion,
+  LineRange,
+  LLMService,
+  ProjectRepository,
+  ReadFileParams,
+  ReadFileUseCase,
+  SectionFinder,
+};
@@ -1,17 +1,27 @@
 import {
+  AccessTracker,
+  FileExcerpt,
+  FileReadError,
   FileRepository,
+  FileVersion,
+  LineRange,
+  LLMService,
   ProjectRepository,
   ReadFileParams,
   ReadFileUseCase,
+  SectionFinder,
 } from "./read-file-protocols.js";
 
 export class ReadFile implements ReadFileUseCase {
   constructor(
     private readonly fileRepository: FileRepository,
-    private readonly projectRepository: ProjectRepository
+    private readonly projectRepository: ProjectRepository,
+    private readonly sectionFinder: SectionFinder,
+    private readonly llmService: LLMService,
+    private readonly accessTracker?: AccessTracker
   ) {}
 
-  async readFile(params: ReadFileParams): Promise<string | null> {
+  async readFile(params: ReadFileParams): Promise<FileExcerpt | null> {
     const { projectName, fileName } = params;
 
     const projectExists = await this.projectRepository.projectExists(
@@ -21,6 +31,133 @@ export class ReadFile implements ReadFileUseCase {
       return null;
     }
 
-    return this.fileRepository.loadFile(projectName, fileName);
+    const file = await this.fileRepository.loadFileVersion(
+      projectName,
+      fileName
+    );
+    if (file === null) {
+      return null;
+    }
+
+    const excerpt = await this.excerpt(file, params);
+    this.accessTracker?.recordAccess({
+      projectName,
+      fileName,
+      source: "read",
+      accessedAt: new Date(),
+    });
+
+    return excerpt;
+  }
+
+  private async excerpt(
+    file: FileVersion,
+    { fileName, startLine, endLine, headingPath, maxTokens }: ReadFileParams
+  ): Promise<FileExcerpt> {
+    const partial =
+      startLine !== undefined || endLine !== undefined || headingPath !== undefined;
+    if (!partial && (maxTokens === undefined || (await this.fits(file.content, maxTokens)))) {
+      return file;
+    }
+    if (headingPath !== undefined && (startLine !== undefined || endLine !== undefined)) {
+      throw new FileReadError("Read either a line range or a heading, not both");
+    }
+
+    const lines = file.content.split("\n");
+    // A final newline ends the last line rather than starting another
+    if (lines.length > 1 && lines[lines.length - 1] === "") {
+      lines.pop();
+    }
+
+    const range = headingPath
+      ? this.sectionFinder.findSection(file.content, headingPath)
+      : this.lineRange(fileName, lines.length, startLine, endLine);
+    const excerpt: FileExcerpt = {
+      ...file,
+      content: lines.slice(range.start - 1, range.end).join("\n"),
+      startLine: range.start,
+      endLine: range.end,
+      totalLines: lines.length,
+    };
+
+    if (maxTokens === undefined || (await this.fits(excerpt.content, maxTokens))) {
+      return excerpt;
+    }
+    return this.truncate(excerpt, range, maxTokens);
+  }
+
+  private lineRange(
+    fileName: string,
+    totalLines: number,
+    startLine = 1,
+    endLine = totalLines
+  ): LineRange {
+    if (startLine > totalLines) {
+      throw new FileReadError(
+        `startLine ${startLine} is past the end of ${fileName}, which has ${totalLines} lines`
+      );
+    }
+    if (endLine < startLine) {
+      throw new FileReadError(`endLine ${endLine} is before startLine ${startLine}`);
+    }
+
+    return { start: startLine, end: Math.min(endLine, totalLines) };
+  }
+
+  // Keeps whole lines where it can, so the marker can say where to read on
+  private async truncate(
+    excerpt: FileExcerpt,
+    range: LineRange,
+    maxTokens: number
+  ): Promise<FileExcerpt> {
+    const lines = excerpt.content.split("\n");
+    const kept = await this.longestFit(lines.length, maxTokens, (count) =>
+      lines.slice(0, count).join("\n")
+    );
+
+    if (kept === 0) {
+      const [line] = lines;
+      const chars = await this.longestFit(line.length, maxTokens, (count) =>
+        line.slice(0, count)
+      );
+      return {
+        ...excerpt,
+        content: `${line.slice(0, chars)}\n\n[Truncated to ${maxTokens} tokens: showing the start of line ${range.start} of ${excerpt.totalLines}]`,
+        endLine: range.start,
+        truncated: true,
+      };
+    }
+
+    const end = range.start + kept - 1;
+    return {
+      ...excerpt,
+      content: `${lines.slice(0, kept).join("\n")}\n\n[Truncated to ${maxTokens} tokens: showing lines ${range.start}-${end} of ${excerpt.totalLines}; continue with startLine ${end + 1}]`,
+      endLine: end,
+      truncated: true,
+    };
+  }
+
+  // Binary search for the largest count whose text stays within the budget
+  private async longestFit(
+    total: number,
+    maxTokens: number,
+    text: (count: number) => string
+  ): Promise<number> {
+    let low = 0;
+    let high = total;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (await this.fits(text(mid), maxTokens)) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+
+    return low;
+  }
+
+  private async fits(content: string, maxTokens: number): Promise<boolean> {
+    return (await this.llmService.countTokens(content)) <= maxTokens;
   }
 }
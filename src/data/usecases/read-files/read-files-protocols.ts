@@ -0,0 +1,16 @@
+import {
+  ReadFileUseCase,
+  ReadFilesParams,
+  ReadFilesUseCase,
+} from "../../../domain/usecases/index.js";
+import { FileReadResult } from "../../../domain/entities/index.js";
+import { FileRepository, ProjectRepository } from "../../protocols/index.js";
+
+export {
+  FileReadResult,
+  FileRepository,
+  ProjectRepository,
+  ReadFileUseCase,
+  ReadFilesParams,
+  ReadFilesUseCase,
+};
@@ -0,0 +1,56 @@
+import {
+  FileReadResult,
+  FileRepository,
+  ProjectRepository,
+  ReadFileUseCase,
+  ReadFilesParams,
+  ReadFilesUseCase,
+} from "./read-files-protocols.js";
+
+export class ReadFiles implements ReadFilesUseCase {
+  constructor(
+    private readonly readFileUseCase: ReadFileUseCase,
+    private readonly fileRepository: FileRepository,
+    private readonly projectRepository: ProjectRepository
+  ) {}
+
+  async readFiles({
+    projectName,
+    fileNames,
+    maxTokens,
+  }: ReadFilesParams): Promise<FileReadResult[] | null> {
+    // Repositories may reject for a project that isn't there rather than say so
+    const projectExists = await this.projectRepository
+      .projectExists(projectName)
+      .catch(() => false);
+    if (!projectExists) {
+      return null;
+    }
+
+    const files = fileNames ?? (await this.fileRepository.listFiles(projectName));
+    const results: FileReadResult[] = [];
+    for (const fileName of [...new Set(files)]) {
+      results.push(await this.read(projectName, fileName, maxTokens));
+    }
+
+    return results;
+  }
+
+  private async read(
+    projectName: string,
+    fileName: string,
+    maxTokens?: number
+  ): Promise<FileReadResult> {
+    try {
+      const file = await this.readFileUseCase.readFile({
+        projectName,
+        fileName,
+        maxTokens,
+      });
+
+      return file ? { fileName, ...file } : { fileName, error: "File not found" };
+    } catch (error) {
+      return { fileName, error: (error as Error).message };
+    }
+  }
+}
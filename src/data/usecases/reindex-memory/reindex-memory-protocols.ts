@@ -0,0 +1,31 @@
+import {
+  ReindexMemoryUseCase,
+  ReindexParams,
+  ReindexResult,
+} from "../../../domain/usecases/index.js";
+import { FileLink } from "../../../domain/entities/index.js";
+import {
+  FileIndexer,
+  FileRepository,
+  IndexedFileRef,
+  KeywordIndex,
+  LinkGraph,
+  LinkParser,
+  ProjectRepository,
+  VectorRepository,
+} from "../../protocols/index.js";
+
+export {
+  FileIndexer,
+  FileLink,
+  FileRepository,
+  IndexedFileRef,
+  KeywordIndex,
+  LinkGraph,
+  LinkParser,
+  ProjectRepository,
+  ReindexMemoryUseCase,
+  ReindexParams,
+  ReindexResult,
+  VectorRepository,
+};
@@ -0,0 +1,201 @@
+import {
+  FileIndexer,
+  FileLink,
+  FileRepository,
+  IndexedFileRef,
+  KeywordIndex,
+  LinkGraph,
+  LinkParser,
+  ProjectRepository,
+  ReindexMemoryUseCase,
+  ReindexParams,
+  ReindexResult,
+  VectorRepository,
+} from "./reindex-memory-protocols.js";
+
+/**
+ * Reconciles the search index with the files on disk: new and changed files
+ * are (re-)indexed, index entries without a backing file are removed. Given
+ * the keyword index and the link graph, a file is also re-indexed when
+ * either of them is missing it or lags behind its content.
+ */
+export class ReindexMemory implements ReindexMemoryUseCase {
+  constructor(
+    private readonly fileRepository: FileRepository,
+    private readonly projectRepository: ProjectRepository,
+    private readonly vectorRepository: VectorRepository,
+    private readonly fileIndexer: FileIndexer,
+    private readonly keywordIndex?: KeywordIndex,
+    private readonly linkGraph?: LinkGraph,
+    private readonly linkParser?: LinkParser
+  ) {}
+
+  async reindex(params: ReindexParams = {}): Promise<ReindexResult> {
+    const startTime = Date.now();
+    const dryRun = params.dryRun ?? false;
+    const result: ReindexResult = {
+      dryRun,
+      projectsScanned: 0,
+      filesScanned: 0,
+      added: [],
+      updated: [],
+      removed: [],
+      unchanged: 0,
+      errors: [],
+      duration: 0,
+    };
+
+    const projects = params.projectName
+      ? [params.projectName]
+      : (await this.projectRepository.listProjects()).map((project) =>
+          this.toProjectName(project)
+        );
+
+    const indexed = await this.vectorRepository.listIndexedFiles(
+      params.projectName
+    );
+    const indexedByKey = new Map<string, IndexedFileRef>(
+      indexed.map((ref) => [this.key(ref.projectName, ref.fileName), ref])
+    );
+    const keywordIndexed =
+      (await this.keywordIndex?.listIndexedFiles(params.projectName)) ?? [];
+    const keywordHashes = new Map<string, string>(
+      keywordIndexed.map((ref) => [
+        this.key(ref.projectName, ref.fileName),
+        ref.contentHash,
+      ])
+    );
+
+    // Entries only the keyword index or the link graph still has are orphans too
+    const orphans = new Map<string, IndexedFileRef>(indexedByKey);
+    for (const ref of keywordIndexed) {
+      const key = this.key(ref.projectName, ref.fileName);
+      if (!orphans.has(key)) orphans.set(key, ref);
+    }
+
+    const unreadableProjects = new Set<string>();
+
+    for (const projectName of projects) {
+      result.projectsScanned++;
+
+      let files: string[];
+      try {
+        files = await this.fileRepository.listFiles(projectName);
+      } catch (error) {
+        result.errors.push(`Could not list files of ${projectName}: ${error}`);
+        unreadableProjects.add(projectName);
+        continue;
+      }
+
+      const linksBySource = await this.linksBySource(projectName);
+      for (const [key, [link]] of linksBySource) {
+        if (!orphans.has(key)) {
+          orphans.set(key, {
+            projectName: link.projectName,
+            fileName: link.fileName,
+            contentHash: "",
+          });
+        }
+      }
+
+      for (const fileName of files) {
+        const key = this.key(projectName, fileName);
+        const existing = indexedByKey.get(key);
+        // Whatever remains in the map afterwards has no backing file
+        orphans.delete(key);
+        result.filesScanned++;
+
+        try {
+          const content = await this.fileRepository.loadFile(
+            projectName,
+            fileName
+          );
+          if (content === null) {
+            result.errors.push(`Could not load file: ${key}`);
+            continue;
+          }
+
+          const contentHash = this.fileIndexer.contentHash(content);
+          const changed =
+            !existing ||
+            params.force ||
+            existing.contentHash !== contentHash ||
+            (this.keywordIndex !== undefined &&
+              keywordHashes.get(key) !== contentHash) ||
+            !this.linksMatch(
+              linksBySource.get(key) || [],
+              projectName,
+              fileName,
+              content
+            );
+          if (!changed) {
+            result.unchanged++;
+            continue;
+          }
+
+          if (!dryRun) {
+            await this.fileIndexer.indexFile(projectName, fileName, content);
+          }
+          (existing ? result.updated : result.added).push(key);
+        } catch (error) {
+          result.errors.push(`Error indexing ${key}: ${error}`);
+        }
+      }
+    }
+
+    for (const [key, orphan] of orphans) {
+      // Never drop entries of a project that could not be read
+      if (unreadableProjects.has(orphan.projectName)) continue;
+
+      try {
+        if (!dryRun) {
+          await this.fileIndexer.removeFile(
+            orphan.projectName,
+            orphan.fileName
+          );
+        }
+        result.removed.push(key);
+      } catch (error) {
+        result.errors.push(`Error removing ${key}: ${error}`);
+      }
+    }
+
+    result.duration = Date.now() - startTime;
+    return result;
+  }
+
+  private async linksBySource(
+    projectName: string
+  ): Promise<Map<string, FileLink[]>> {
+    const bySource = new Map<string, FileLink[]>();
+    if (!this.linkGraph || !this.linkParser) return bySource;
+
+    for (const link of await this.linkGraph.linksFrom(projectName)) {
+      const key = this.key(link.projectName, link.fileName);
+      bySource.set(key, [...(bySource.get(key) || []), link]);
+    }
+
+    return bySource;
+  }
+
+  private linksMatch(
+    recorded: FileLink[],
+    projectName: string,
+    fileName: string,
+    content: string
+  ): boolean {
+    if (!this.linkGraph || !this.linkParser) return true;
+
+    const parsed = this.linkParser.parseLinks(projectName, fileName, content);
+    return JSON.stringify(parsed) === JSON.stringify(recorded);
+  }
+
+  private key(projectName: string, fileName: string): string {
+    return `${projectName}/${fileName}`;
+  }
+
+  // Project repositories may return fully qualified project paths
+  private toProjectName(project: string): string {
+    return project.split(/[\\/]/).filter(Boolean).pop() || project;
+  }
+}
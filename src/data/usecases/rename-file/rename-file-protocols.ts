@@ -0,0 +1,27 @@
+import {
+  RenameFileParams,
+  RenameFileUseCase,
+  SyncFileChangeUseCase,
+} from "../../../domain/usecases/index.js";
+import {
+  FileLocation,
+  FileRenameResult,
+} from "../../../domain/entities/index.js";
+import {
+  FileRepository,
+  LinkGraph,
+  LinkParser,
+  WriteJournal,
+} from "../../protocols/index.js";
+
+export {
+  FileLocation,
+  FileRenameResult,
+  FileRepository,
+  LinkGraph,
+  LinkParser,
+  RenameFileParams,
+  RenameFileUseCase,
+  SyncFileChangeUseCase,
+  WriteJournal,
+};
@@ -0,0 +1,164 @@
+import {
+  FileLocation,
+  FileRenameResult,
+  FileRepository,
+  LinkGraph,
+  LinkParser,
+  RenameFileParams,
+  RenameFileUseCase,
+  SyncFileChangeUseCase,
+  WriteJournal,
+} from "./rename-file-protocols.js";
+
+const LINKS_UPDATED_NOTE = "Links updated after rename";
+
+/**
+ * Renames a file and moves its index entries to the new name. Summaries built
+ * from the file are marked stale since they cite the old name. With a link
+ * parser, the file's own relative links are kept pointing at their targets,
+ * and with the link graph too, links from other files follow the rename.
+ */
+export class RenameFile implements RenameFileUseCase {
+  constructor(
+    private readonly fileRepository: FileRepository,
+    private readonly syncFileChange: SyncFileChangeUseCase,
+    private readonly linkGraph?: LinkGraph,
+    private readonly linkParser?: LinkParser,
+    private readonly writeJournal?: WriteJournal
+  ) {}
+
+  async renameFile({
+    projectName,
+    fileName,
+    newFileName,
+  }: RenameFileParams): Promise<FileRenameResult | null> {
+    if ((await this.fileRepository.loadFile(projectName, fileName)) === null) {
+      return null;
+    }
+    if ((await this.fileRepository.loadFile(projectName, newFileName)) !== null) {
+      throw new Error(
+        `File ${newFileName} already exists in project ${projectName}`
+      );
+    }
+
+    // Kept until the index follows the rename, so a crash in between is replayed
+    const entryId = await this.writeJournal?.begin({
+      operation: "rename",
+      projectName,
+      fileNames: [fileName, newFileName],
+    });
+    let renamed: boolean;
+    try {
+      renamed = await this.fileRepository.renameFile(
+        projectName,
+        fileName,
+        newFileName
+      );
+    } catch (error) {
+      await this.commit(entryId);
+      throw error;
+    }
+    if (!renamed) {
+      await this.commit(entryId);
+      return null;
+    }
+
+    // The file is already renamed; an index failure must not undo that
+    try {
+      const updatedFiles = await this.updateLinks(
+        { projectName, fileName },
+        { projectName, fileName: newFileName }
+      );
+
+      const removed = await this.syncFileChange.sync({ projectName, fileName });
+      const indexed = await this.syncFileChange.sync({
+        projectName,
+        fileName: newFileName,
+      });
+      await this.commit(entryId);
+
+      return {
+        staleSummaries: [
+          ...new Set([...removed.staleSummaries, ...indexed.staleSummaries]),
+        ],
+        ...(updatedFiles.length > 0 && { updatedFiles }),
+      };
+    } catch (error) {
+      return {
+        staleSummaries: [],
+        indexError: (error as Error).message || String(error),
+      };
+    }
+  }
+
+  private async commit(entryId?: string): Promise<void> {
+    if (entryId) {
+      await this.writeJournal?.commit(entryId);
+    }
+  }
+
+  // Re-write the links of the renamed file and of the files linking to it
+  private async updateLinks(
+    from: FileLocation,
+    to: FileLocation
+  ): Promise<FileLocation[]> {
+    const { linkParser } = this;
+    if (!linkParser) return [];
+
+    const retarget = (target: FileLocation) =>
+      target.projectName === from.projectName && target.fileName === from.fileName
+        ? to
+        : null;
+    const updatedFiles: FileLocation[] = [];
+
+    if (await this.rewriteFile(linkParser, from, to, retarget)) {
+      updatedFiles.push(to);
+    }
+
+    const backlinks = (await this.linkGraph?.linksTo(from.projectName, from.fileName)) ?? [];
+    const sources = new Map<string, FileLocation>();
+    for (const { projectName, fileName } of backlinks) {
+      if (projectName === from.projectName && fileName === from.fileName) continue;
+      sources.set(`${projectName}/${fileName}`, { projectName, fileName });
+    }
+
+    // Each re-written file is journaled until the index follows it too
+    for (const source of sources.values()) {
+      const entryId = await this.writeJournal?.begin({
+        operation: "update",
+        projectName: source.projectName,
+        fileNames: [source.fileName],
+      });
+      if (await this.rewriteFile(linkParser, source, source, retarget)) {
+        await this.syncFileChange.sync(source);
+        updatedFiles.push(source);
+      }
+      await this.commit(entryId);
+    }
+
+    return updatedFiles;
+  }
+
+  // Whether the file at the new location had links to re-write
+  private async rewriteFile(
+    linkParser: LinkParser,
+    from: FileLocation,
+    to: FileLocation,
+    retarget: (target: FileLocation) => FileLocation | null
+  ): Promise<boolean> {
+    const content = await this.fileRepository.loadFile(to.projectName, to.fileName);
+    if (content === null) return false;
+
+    const rewritten = linkParser.rewriteLinks(content, from, to, retarget);
+    if (rewritten === content) return false;
+
+    await this.fileRepository.updateFile(
+      to.projectName,
+      to.fileName,
+      rewritten,
+      undefined,
+      LINKS_UPDATED_NOTE
+    );
+    return true;
+  }
+}
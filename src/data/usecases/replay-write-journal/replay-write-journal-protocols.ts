@@ -0,0 +1,17 @@
+import {
+  ReplayWriteJournalUseCase,
+  SyncFileChangeUseCase,
+} from "../../../domain/usecases/index.js";
+import {
+  JournalEntry,
+  JournalReplayResult,
+} from "../../../domain/entities/index.js";
+import { WriteJournal } from "../../protocols/index.js";
+
+export {
+  JournalEntry,
+  JournalReplayResult,
+  ReplayWriteJournalUseCase,
+  SyncFileChangeUseCase,
+  WriteJournal,
+};
@@ -0,0 +1,55 @@
+import {
+  JournalReplayResult,
+  ReplayWriteJournalUseCase,
+  SyncFileChangeUseCase,
+  WriteJournal,
+} from "./replay-write-journal-protocols.js";
+
+/**
+ * Re-syncs the files of unfinished changes with the index. Writes are atomic,
+ * so each file holds either its old or its new content, and syncing indexes
+ * whichever it is, or drops the file if it is gone. Entries whose files could
+ * not be synced stay in the journal for the next start.
+ */
+export class ReplayWriteJournal implements ReplayWriteJournalUseCase {
+  constructor(
+    private readonly writeJournal: WriteJournal,
+    private readonly syncFileChange: SyncFileChangeUseCase
+  ) {}
+
+  async replay(): Promise<JournalReplayResult> {
+    const result: JournalReplayResult = { replayed: [], failed: [] };
+    // A file changed many times while the index was down is synced once
+    const synced = new Map<string, string | null>();
+
+    for (const entry of await this.writeJournal.pending()) {
+      let error: string | null = null;
+      for (const fileName of entry.fileNames) {
+        const key = `${entry.projectName}/${fileName}`;
+        if (!synced.has(key)) {
+          synced.set(key, await this.sync(entry.projectName, fileName));
+        }
+        error = error ?? synced.get(key) ?? null;
+      }
+
+      if (error) {
+        result.failed.push({ ...entry, error });
+      } else {
+        await this.writeJournal.commit(entry.id);
+        result.replayed.push(entry);
+      }
+    }
+
+    return result;
+  }
+
+  // The error message, or null once the file is in line with the index
+  private async sync(projectName: string, fileName: string): Promise<string | null> {
+    try {
+      await this.syncFileChange.sync({ projectName, fileName });
+      return null;
+    } catch (error) {
+      return (error as Error).message || String(error);
+    }
+  }
+}
@@ -0,0 +1,15 @@
+import {
+  RestoreFileVersionParams,
+  RestoreFileVersionUseCase,
+  UpdateFileUseCase,
+} from "../../../domain/usecases/index.js";
+import { FileWriteResult } from "../../../domain/entities/index.js";
+import { FileHistoryRepository } from "../../protocols/index.js";
+
+export {
+  FileHistoryRepository,
+  FileWriteResult,
+  RestoreFileVersionParams,
+  RestoreFileVersionUseCase,
+  UpdateFileUseCase,
+};
@@ -0,0 +1,43 @@
+import {
+  FileHistoryRepository,
+  FileWriteResult,
+  RestoreFileVersionParams,
+  RestoreFileVersionUseCase,
+  UpdateFileUseCase,
+} from "./restore-file-version-protocols.js";
+
+/**
+ * Puts an earlier version of a file back. The restore is saved through
+ * UpdateFile, so the content it replaces goes to the history in turn and the
+ * restore itself can be undone.
+ */
+export class RestoreFileVersion implements RestoreFileVersionUseCase {
+  constructor(
+    private readonly fileHistoryRepository: FileHistoryRepository,
+    private readonly updateFile: UpdateFileUseCase
+  ) {}
+
+  async restoreVersion({
+    projectName,
+    fileName,
+    versionId,
+    expectedHash,
+  }: RestoreFileVersionParams): Promise<FileWriteResult | null> {
+    const version = await this.fileHistoryRepository.loadVersion(
+      projectName,
+      fileName,
+      versionId
+    );
+    if (version === null) {
+      return null;
+    }
+
+    return this.updateFile.updateFile({
+      projectName,
+      fileName,
+      content: version.content,
+      expectedHash,
+      changeNote: `Restored version ${versionId}`,
+    });
+  }
+}
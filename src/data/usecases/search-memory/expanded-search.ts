@@ -0,0 +1,73 @@
+import {
+  QueryExpansion,
+  SearchQuery,
+  SearchResult,
+} from "../../../domain/entities/index.js";
+import {
+  QueryExpansionService,
+  VectorRepository,
+} from "../../protocols/index.js";
+
+// Expanded queries searched besides the original one
+const MAX_EXPANDED_QUERIES = 5;
+
+// Expanded queries can drift from the intent, so their hits count slightly less
+const EXPANDED_QUERY_WEIGHT = 0.8;
+
+export interface ExpandedSearchResult {
+  results: SearchResult[];
+  expansion?: QueryExpansion;
+}
+
+/**
+ * Search with the original query and, when an expansion is requested, with
+ * each expanded query too (the HyDE document, variations or keywords). The
+ * result lists are merged per file, keeping each file's best weighted score.
+ */
+export const searchWithExpansion = async (
+  vectorRepository: VectorRepository,
+  expansionService: QueryExpansionService | undefined,
+  { expansion: method = "none", ...query }: SearchQuery
+): Promise<ExpandedSearchResult> => {
+  if (method === "none") {
+    return { results: await vectorRepository.search(query) };
+  }
+  if (!expansionService) {
+    throw new Error("Query expansion is not configured");
+  }
+
+  const expansion = await expansionService.expandQuery(query.query, method, {
+    max_expansions: MAX_EXPANDED_QUERIES,
+  });
+  const expandedQueries = expansion.expanded_queries
+    .filter((expanded) => expanded && expanded !== query.query)
+    .slice(0, MAX_EXPANDED_QUERIES);
+
+  const resultLists = await Promise.all([
+    vectorRepository.search(query),
+    ...expandedQueries.map((expanded) =>
+      vectorRepository.search({ ...query, query: expanded })
+    ),
+  ]);
+
+  const merged = new Map<string, SearchResult>();
+  resultLists.forEach((results, i) => {
+    const weight = i === 0 ? 1 : EXPANDED_QUERY_WEIGHT;
+
+    for (const result of results) {
+      const key = `${result.file.projectName}:${result.file.name}`;
+      const combined = result.scores.combined * weight;
+      const best = merged.get(key);
+
+      if (!best || combined > best.scores.combined) {
+        merged.set(key, { ...result, scores: { ...result.scores, combined } });
+      }
+    }
+  });
+
+  const results = Array.from(merged.values())
+    .sort((a, b) => b.scores.combined - a.scores.combined)
+    .slice(0, query.limit ?? merged.size);
+
+  return { results, expansion };
+};
@@ -1,10 +1,15 @@
-import { VectorRepository } from "../../protocols/index.js";
+import {
+  QueryExpansionService,
+  VectorRepository,
+} from "../../protocols/index.js";
 import { SearchMemoryUseCase } from "../../../domain/usecases/index.js";
 import { SearchQuery, SearchResponse } from "../../../domain/entities/index.js";
+import { searchWithExpansion } from "./expanded-search.js";
 
 export class SearchMemory implements SearchMemoryUseCase {
   constructor(
-    private readonly vectorRepository: VectorRepository
+    private readonly vectorRepository: VectorRepository,
+    private readonly expansionService?: QueryExpansionService
   ) {}
 
   async search(query: SearchQuery): Promise<SearchResponse> {
@@ -14,6 +19,7 @@ export class SearchMemory implements SearchMemoryUseCase {
     const searchQuery = {
       ...query,
       semanticWeight: query.semanticWeight ?? 0.4,
+      keywordWeight: query.keywordWeight ?? 0.3,
       recencyWeight: query.recencyWeight ?? 0.2,
       frequencyWeight: query.frequencyWeight ?? 0.2,
       salienceWeight: query.salienceWeight ?? 0.2,
@@ -21,7 +27,11 @@ export class SearchMemory implements SearchMemoryUseCase {
       limit: query.limit ?? 20,
     };
 
-    const results = await this.vectorRepository.search(searchQuery);
+    const { results, expansion } = await searchWithExpansion(
+      this.vectorRepository,
+      this.expansionService,
+      searchQuery
+    );
     
     const queryTime = Date.now() - startTime;
     
@@ -29,6 +39,7 @@ export class SearchMemory implements SearchMemoryUseCase {
       results,
       totalFound: results.length,
       queryTime,
+      ...(expansion && { expansion }),
     };
   }
 }
\ No newline at end of file
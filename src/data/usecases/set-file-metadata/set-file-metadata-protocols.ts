@@ -0,0 +1,15 @@
+import {
+  SetFileMetadataParams,
+  SetFileMetadataUseCase,
+  UpdateFileUseCase,
+} from "../../../domain/usecases/index.js";
+import { FileWriteResult } from "../../../domain/entities/index.js";
+import { FileRepository } from "../../protocols/index.js";
+
+export {
+  FileRepository,
+  FileWriteResult,
+  SetFileMetadataParams,
+  SetFileMetadataUseCase,
+  UpdateFileUseCase,
+};
@@ -0,0 +1,42 @@
+import {
+  FileRepository,
+  FileWriteResult,
+  SetFileMetadataParams,
+  SetFileMetadataUseCase,
+  UpdateFileUseCase,
+} from "./set-file-metadata-protocols.js";
+
+/**
+ * Changes a file's front matter and leaves its body as it is. The file is
+ * saved and re-indexed by UpdateFile, so search sees the new metadata at once.
+ */
+export class SetFileMetadata implements SetFileMetadataUseCase {
+  constructor(
+    private readonly fileRepository: FileRepository,
+    private readonly updateFile: UpdateFileUseCase
+  ) {}
+
+  async setFileMetadata({
+    projectName,
+    fileName,
+    metadata,
+    expectedHash,
+  }: SetFileMetadataParams): Promise<FileWriteResult | null> {
+    const current = await this.fileRepository.loadFileVersion(
+      projectName,
+      fileName
+    );
+    if (current === null) {
+      return null;
+    }
+
+    return this.updateFile.updateFile({
+      projectName,
+      fileName,
+      content: current.content,
+      metadata,
+      expectedHash: expectedHash ?? current.contentHash,
+      changeNote: "Metadata updated",
+    });
+  }
+}
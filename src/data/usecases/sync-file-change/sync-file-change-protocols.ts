@@ -0,0 +1,21 @@
+import {
+  FileChange,
+  SyncFileChangeResult,
+  SyncFileChangeUseCase,
+} from "../../../domain/usecases/index.js";
+import { PROJECT_MANIFEST_FILE } from "../../../domain/entities/index.js";
+import {
+  FileIndexer,
+  FileRepository,
+  SummaryRepository,
+} from "../../protocols/index.js";
+
+export {
+  FileChange,
+  FileIndexer,
+  FileRepository,
+  PROJECT_MANIFEST_FILE,
+  SummaryRepository,
+  SyncFileChangeResult,
+  SyncFileChangeUseCase,
+};
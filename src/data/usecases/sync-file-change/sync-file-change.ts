@@ -0,0 +1,65 @@
+import {
+  FileChange,
+  FileIndexer,
+  FileRepository,
+  PROJECT_MANIFEST_FILE,
+  SummaryRepository,
+  SyncFileChangeResult,
+  SyncFileChangeUseCase,
+} from "./sync-file-change-protocols.js";
+
+/**
+ * Brings the search index in line with a single file that changed on disk
+ * and flags the summaries built from it for regeneration.
+ */
+export class SyncFileChange implements SyncFileChangeUseCase {
+  constructor(
+    private readonly fileRepository: FileRepository,
+    private readonly fileIndexer: FileIndexer,
+    private readonly summaryRepository: SummaryRepository
+  ) {}
+
+  async sync({ projectName, fileName }: FileChange): Promise<SyncFileChangeResult> {
+    // The manifest describes the project and never belongs in the index
+    const content =
+      fileName === PROJECT_MANIFEST_FILE
+        ? null
+        : await this.fileRepository.loadFile(projectName, fileName);
+
+    let action: SyncFileChangeResult["action"];
+    if (content === null) {
+      await this.fileIndexer.removeFile(projectName, fileName);
+      action = "removed";
+    } else {
+      await this.fileIndexer.indexFile(projectName, fileName, content);
+      action = "indexed";
+    }
+
+    const staleSummaries = await this.markSummariesStale(projectName, fileName);
+
+    return { projectName, fileName, action, staleSummaries };
+  }
+
+  private async markSummariesStale(
+    projectName: string,
+    fileName: string
+  ): Promise<string[]> {
+    const summaries = await this.summaryRepository.findStalesSummaries(
+      projectName,
+      [fileName]
+    );
+
+    const marked: string[] = [];
+    for (const summary of summaries) {
+      if (!summary.metadata.stale) {
+        await this.summaryRepository.upsertSummary({
+          ...summary,
+          metadata: { ...summary.metadata, stale: true },
+        });
+      }
+      marked.push(summary.id);
+    }
+
+    return marked;
+  }
+}
@@ -2,11 +2,32 @@ import {
   UpdateFileParams,
   UpdateFileUseCase,
 } from "../../../domain/usecases/index.js";
-import { FileRepository, ProjectRepository } from "../../protocols/index.js";
+import {
+  FileMetadataUpdate,
+  FileVersion,
+  FileWriteResult,
+  PROJECT_MANIFEST_FILE,
+} from "../../../domain/entities/index.js";
+import {
+  FileIndexer,
+  FileRepository,
+  FrontMatterEditor,
+  FrontMatterValidator,
+  ProjectRepository,
+  WriteJournal,
+} from "../../protocols/index.js";
 
 export {
+  FileIndexer,
   FileRepository,
+  FileMetadataUpdate,
+  FileVersion,
+  FileWriteResult,
+  FrontMatterEditor,
+  FrontMatterValidator,
+  PROJECT_MANIFEST_FILE,
   ProjectRepository,
   UpdateFileParams,
   UpdateFileUseCase,
+  WriteJournal,
 };
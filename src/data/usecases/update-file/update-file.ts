@@ -1,18 +1,31 @@
 import {
+  FileIndexer,
   FileRepository,
+  FileMetadataUpdate,
+  FileVersion,
+  FileWriteResult,
+  FrontMatterEditor,
+  FrontMatterValidator,
+  PROJECT_MANIFEST_FILE,
   ProjectRepository,
   UpdateFileParams,
   UpdateFileUseCase,
+  WriteJournal,
 } from "./update-file-protocols.js";
 
 export class UpdateFile implements UpdateFileUseCase {
   constructor(
     private readonly fileRepository: FileRepository,
-    private readonly projectRepository: ProjectRepository
+    private readonly projectRepository: ProjectRepository,
+    private readonly fileIndexer?: FileIndexer,
+    private readonly frontMatterValidator?: FrontMatterValidator,
+    private readonly frontMatterEditor?: FrontMatterEditor,
+    private readonly writeJournal?: WriteJournal
   ) {}
 
-  async updateFile(params: UpdateFileParams): Promise<string | null> {
-    const { projectName, fileName, content } = params;
+  async updateFile(params: UpdateFileParams): Promise<FileWriteResult | null> {
+    const { projectName, fileName, expectedHash, changeNote, metadata } =
+      params;
 
     const projectExists = await this.projectRepository.projectExists(
       projectName
@@ -29,7 +42,92 @@ export class UpdateFile implements UpdateFileUseCase {
       return null;
     }
 
-    await this.fileRepository.updateFile(projectName, fileName, content);
-    return await this.fileRepository.loadFile(projectName, fileName);
+    const content = this.withMetadata(params.content, metadata, existingFile);
+    // The manifest describes the project; it is neither validated nor indexed
+    const manifest = fileName === PROJECT_MANIFEST_FILE;
+    if (!manifest) {
+      await this.frontMatterValidator?.validate(projectName, fileName, content);
+    }
+
+    // Kept until the index has the new content, so a crash in between is replayed
+    const entryId = manifest
+      ? undefined
+      : await this.writeJournal?.begin({
+          operation: "update",
+          projectName,
+          fileNames: [fileName],
+        });
+    let saved: FileVersion | null;
+    try {
+      await this.fileRepository.updateFile(
+        projectName,
+        fileName,
+        content,
+        expectedHash,
+        changeNote
+      );
+      saved = await this.fileRepository.loadFileVersion(projectName, fileName);
+    } catch (error) {
+      await this.commit(entryId);
+      throw error;
+    }
+    if (saved === null) {
+      await this.commit(entryId);
+      return null;
+    }
+
+    if (manifest) {
+      return { content: saved.content, contentHash: saved.contentHash };
+    }
+
+    const result = await this.index(projectName, fileName, saved.content);
+    if (!result.indexError) {
+      await this.commit(entryId);
+    }
+
+    return { ...result, contentHash: saved.contentHash };
+  }
+
+  private async commit(entryId?: string): Promise<void> {
+    if (entryId) {
+      await this.writeJournal?.commit(entryId);
+    }
+  }
+
+  private withMetadata(
+    content: string,
+    metadata?: FileMetadataUpdate,
+    previousContent?: string
+  ): string {
+    if (!metadata) {
+      return content;
+    }
+    if (!this.frontMatterEditor) {
+      throw new Error("Front matter editing is not configured");
+    }
+
+    return this.frontMatterEditor.setMetadata(
+      content,
+      metadata,
+      previousContent
+    );
+  }
+
+  private async index(
+    projectName: string,
+    fileName: string,
+    content: string
+  ): Promise<FileWriteResult> {
+    if (!this.fileIndexer) {
+      return { content };
+    }
+
+    // The file is already saved; an indexing failure must not undo the update
+    try {
+      await this.fileIndexer.indexFile(projectName, fileName, content);
+      return { content };
+    } catch (error) {
+      return { content, indexError: (error as Error).message || String(error) };
+    }
   }
 }
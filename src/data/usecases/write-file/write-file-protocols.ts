@@ -2,6 +2,32 @@ import {
   WriteFileParams,
   WriteFileUseCase,
 } from "../../../domain/usecases/index.js";
-import { FileRepository, ProjectRepository } from "../../protocols/index.js";
+import {
+  FileExistsError,
+  FileMetadataUpdate,
+  FileWriteResult,
+  PROJECT_MANIFEST_FILE,
+} from "../../../domain/entities/index.js";
+import {
+  FileIndexer,
+  FileRepository,
+  FrontMatterEditor,
+  FrontMatterValidator,
+  ProjectRepository,
+  WriteJournal,
+} from "../../protocols/index.js";
 
-export { FileRepository, ProjectRepository, WriteFileParams, WriteFileUseCase };
+export {
+  FileExistsError,
+  FileIndexer,
+  FileRepository,
+  FileMetadataUpdate,
+  FileWriteResult,
+  FrontMatterEditor,
+  FrontMatterValidator,
+  PROJECT_MANIFEST_FILE,
+  ProjectRepository,
+  WriteFileParams,
+  WriteFileUseCase,
+  WriteJournal,
+};
@@ -1,18 +1,30 @@
 import {
+  FileExistsError,
+  FileIndexer,
   FileRepository,
+  FileMetadataUpdate,
+  FileWriteResult,
+  FrontMatterEditor,
+  FrontMatterValidator,
+  PROJECT_MANIFEST_FILE,
   ProjectRepository,
   WriteFileParams,
   WriteFileUseCase,
+  WriteJournal,
 } from "./write-file-protocols.js";
 
 export class WriteFile implements WriteFileUseCase {
   constructor(
     private readonly fileRepository: FileRepository,
-    private readonly projectRepository: ProjectRepository
+    private readonly projectRepository: ProjectRepository,
+    private readonly fileIndexer?: FileIndexer,
+    private readonly frontMatterValidator?: FrontMatterValidator,
+    private readonly frontMatterEditor?: FrontMatterEditor,
+    private readonly writeJournal?: WriteJournal
   ) {}
 
-  async writeFile(params: WriteFileParams): Promise<string | null> {
-    const { projectName, fileName, content } = params;
+  async writeFile(params: WriteFileParams): Promise<FileWriteResult | null> {
+    const { projectName, fileName, metadata } = params;
 
     await this.projectRepository.ensureProject(projectName);
 
@@ -24,7 +36,85 @@ export class WriteFile implements WriteFileUseCase {
       return null;
     }
 
-    await this.fileRepository.writeFile(projectName, fileName, content);
-    return await this.fileRepository.loadFile(projectName, fileName);
+    const content = this.withMetadata(params.content, metadata);
+    // The manifest describes the project; it is neither validated nor indexed
+    const manifest = fileName === PROJECT_MANIFEST_FILE;
+    if (!manifest) {
+      await this.frontMatterValidator?.validate(projectName, fileName, content);
+    }
+
+    // Kept until the index has the file, so a crash in between is replayed
+    const entryId = manifest
+      ? undefined
+      : await this.writeJournal?.begin({
+          operation: "write",
+          projectName,
+          fileNames: [fileName],
+        });
+    let savedContent: string | null;
+    try {
+      savedContent = await this.fileRepository.writeFile(
+        projectName,
+        fileName,
+        content
+      );
+    } catch (error) {
+      await this.commit(entryId);
+      throw error;
+    }
+    // Created by someone else since the check; their content is not ours
+    if (savedContent === null) {
+      await this.commit(entryId);
+      throw new FileExistsError(projectName, fileName);
+    }
+
+    if (manifest) {
+      return { content: savedContent };
+    }
+
+    const result = await this.index(projectName, fileName, savedContent);
+    if (!result.indexError) {
+      await this.commit(entryId);
+    }
+
+    return result;
+  }
+
+  private async commit(entryId?: string): Promise<void> {
+    if (entryId) {
+      await this.writeJournal?.commit(entryId);
+    }
+  }
+
+  private withMetadata(
+    content: string,
+    metadata?: FileMetadataUpdate
+  ): string {
+    if (!metadata) {
+      return content;
+    }
+    if (!this.frontMatterEditor) {
+      throw new Error("Front matter editing is not configured");
+    }
+
+    return this.frontMatterEditor.setMetadata(content, metadata);
+  }
+
+  private async index(
+    projectName: string,
+    fileName: string,
+    content: string
+  ): Promise<FileWriteResult> {
+    if (!this.fileIndexer) {
+      return { content };
+    }
+
+    // The file is already saved; an indexing failure must not undo the write
+    try {
+      await this.fileIndexer.indexFile(projectName, fileName, content);
+      return { content };
+    } catch (error) {
+      return { content, indexError: (error as Error).message || String(error) };
+    }
   }
 }
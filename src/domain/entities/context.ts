@@ -1,3 +1,5 @@
+import { QueryExpansion } from "./query-expansion.js";
+
 export interface ContextBudget {
   maxTokens: number;
   reservedTokens: number;      // For system prompts, etc.
@@ -15,6 +17,9 @@ export interface ContextItem {
   metadata: {
     projectName: string;
     fileName?: string;
+    sectionPath?: string[];    // Set for snippets
+    startLine?: number;
+    endLine?: number;
     summaryLevel?: string;
     lastAccessed?: Date;
     importance: number;        // 0-1, higher = more important
@@ -31,6 +36,7 @@ export interface ContextCompilation {
   compressionRatio?: number;
   compilationTime: number;
   created: Date;
+  expansion?: QueryExpansion;
 }
 
 export interface CompressionResult {
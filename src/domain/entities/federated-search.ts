@@ -0,0 +1,42 @@
+/**
+ * Stores a federated search draws from
+ */
+export type MemorySource =
+  | "file"
+  | "summary"
+  | "episode"
+  | "skill"
+  | "case"
+  | "global";
+
+export interface FederatedSearchQuery {
+  query: string;
+  projectName?: string;
+  sources?: MemorySource[]; // Defaults to every source
+  limit?: number;
+  quotas?: Partial<Record<MemorySource, number>>; // Results each source is guaranteed
+}
+
+export interface FederatedSearchResult {
+  id: string;
+  source: MemorySource;
+  title: string;
+  content: string;
+  score: number; // Normalized within its source, 1 for the source's best match
+  projectName?: string;
+  metadata: Record<string, any>;
+}
+
+export interface FederatedSourceStatus {
+  source: MemorySource;
+  found: number;
+  returned: number;
+  error?: string; // Why the source could not be searched
+}
+
+export interface FederatedSearchResponse {
+  results: FederatedSearchResult[];
+  sources: FederatedSourceStatus[];
+  totalFound: number;
+  queryTime: number;
+}
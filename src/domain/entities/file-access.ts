@@ -0,0 +1,34 @@
+/**
+ * One use of a file: opened with a read or included in compiled context
+ */
+export interface FileAccess {
+  projectName: string;
+  fileName: string;
+  source: "read" | "context";
+  accessedAt: Date;
+}
+
+/**
+ * How often and how recently a file was used, as ranked by search
+ */
+export interface FileAccessStats {
+  projectName: string;
+  fileName: string;
+  frequency: number;
+  lastAccessed?: Date;
+}
+
+export interface FileAccessReport {
+  projectName: string;
+  totalFiles: number;
+
+  /**
+   * Most used first
+   */
+  hottest: FileAccessStats[];
+
+  /**
+   * Least used first; files never accessed lead
+   */
+  coldest: FileAccessStats[];
+}
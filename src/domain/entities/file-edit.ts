@@ -0,0 +1,23 @@
+/**
+ * A change to part of a memory bank file. Heading paths name a section by
+ * its heading and, optionally, the headings enclosing it, outermost first.
+ */
+export type FileEdit =
+  | { operation: "append"; content: string }
+  | { operation: "prepend"; content: string }
+  | { operation: "replace_section"; headingPath: string[]; content: string }
+  | { operation: "insert_after_heading"; headingPath: string[]; content: string }
+  | { operation: "apply_patch"; patch: string };
+
+export type FileEditOperation = FileEdit["operation"];
+
+/**
+ * Raised when an edit cannot be applied, e.g. its heading or patch context
+ * is not in the file
+ */
+export class FileEditError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FileEditError";
+  }
+}
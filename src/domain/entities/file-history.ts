@@ -0,0 +1,41 @@
+import { File } from "./file.js";
+
+/**
+ * Version id that refers to a file's current content rather than a snapshot
+ */
+export const CURRENT_FILE_VERSION = "current";
+
+/**
+ * An earlier version of a file, saved when an update replaced it
+ */
+export interface FileHistoryEntry {
+  /**
+   * Sorts by age; newer versions have greater ids
+   */
+  versionId: string;
+  contentHash: string;
+
+  /**
+   * When the update that replaced this version was made
+   */
+  replacedAt: string;
+
+  /**
+   * Note given with the update that replaced this version
+   */
+  changeNote?: string;
+}
+
+export interface FileHistoryVersion extends FileHistoryEntry {
+  content: File;
+}
+
+export interface FileVersionDiff {
+  fromVersionId: string;
+  toVersionId: string;
+
+  /**
+   * Unified diff from the first version to the second; empty if they match
+   */
+  diff: string;
+}
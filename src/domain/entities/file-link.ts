@@ -0,0 +1,54 @@
+/**
+ * A file in the memory bank, as a link points to it
+ */
+export interface FileLocation {
+  projectName: string;
+  fileName: string;
+}
+
+/**
+ * A reference from one memory bank file to another: a wiki link such as
+ * `[[file]]` or `[[project:folder/file#heading]]`, or a relative markdown link
+ */
+export interface FileLink {
+  projectName: string;
+  fileName: string;
+  targetProject: string;
+  targetFile: string;
+  heading?: string;
+  kind: "wiki" | "markdown";
+
+  /**
+   * The link as written
+   */
+  text: string;
+
+  /**
+   * 1-based line of the source file the link is on
+   */
+  line: number;
+}
+
+export interface FileLinkReport {
+  projectName: string;
+
+  /**
+   * Set when the report covers a single file rather than the whole project
+   */
+  fileName?: string;
+
+  /**
+   * Links from the file or project to any file
+   */
+  outgoing: FileLink[];
+
+  /**
+   * Links from other files to the file, or from other projects to the project
+   */
+  backlinks: FileLink[];
+
+  /**
+   * Outgoing links whose target file does not exist
+   */
+  broken: FileLink[];
+}
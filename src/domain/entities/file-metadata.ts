@@ -6,6 +6,18 @@ export interface FileMetadata {
   salience?: number;
   frequency?: number;
   lastAccessed?: Date;
+  extra?: Record<string, unknown>; // Any other front matter fields, kept as written
+}
+
+/**
+ * Metadata given alongside a file's content instead of in its front matter.
+ * Fields left out keep the value the front matter already has.
+ */
+export interface FileMetadataUpdate {
+  tags?: string[];
+  salience?: number;
+  task?: string;
+  extra?: Record<string, unknown>;
 }
 
 export interface FileContent {
@@ -13,6 +25,15 @@ export interface FileContent {
   content: string;
 }
 
+export interface FileChunk {
+  index: number;
+  content: string;
+  sectionPath: string[];   // Headings enclosing the chunk, outermost first
+  startLine: number;       // 1-based, inclusive, relative to the file on disk
+  endLine: number;
+  tokens: number;
+}
+
 export interface EnhancedFile {
   name: string;
   projectName: string;
@@ -20,4 +41,5 @@ export interface EnhancedFile {
   metadata: FileMetadata;
   embedding?: Float32Array;
   contentHash?: string;
+  chunks?: FileChunk[];    // Indexed as one point each; whole content if omitted
 }
\ No newline at end of file
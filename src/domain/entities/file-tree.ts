@@ -0,0 +1,17 @@
+/**
+ * A file or folder of a project, as listed in a directory tree
+ */
+export interface FileTreeNode {
+  name: string;
+
+  /**
+   * Relative to the project, with "/" between folders
+   */
+  path: string;
+  type: "directory" | "file";
+
+  /**
+   * Folders first, then files, each sorted by name
+   */
+  children?: FileTreeNode[];
+}
@@ -1 +1,180 @@
+import { FileLocation } from "./file-link.js";
+
 export type File = string;
+
+export interface FileVersion {
+  content: File;
+  /**
+   * Hash of the content, passed back as expectedHash to detect concurrent changes
+   */
+  contentHash: string;
+}
+
+/**
+ * Raised when a file changed since the version an update was based on
+ */
+export class FileConflictError extends Error {
+  readonly code = "CONFLICT";
+
+  constructor(
+    fileName: string,
+    readonly currentHash: string,
+    readonly expectedHash: string
+  ) {
+    super(
+      `File ${fileName} was changed by someone else; read it again and retry with its current hash`
+    );
+    this.name = "FileConflictError";
+  }
+
+  get details(): Record<string, string> {
+    return { currentHash: this.currentHash, expectedHash: this.expectedHash };
+  }
+}
+
+/**
+ * Raised when a new file was created by someone else between the check that
+ * it was missing and the write
+ */
+export class FileExistsError extends Error {
+  readonly code = "FILE_EXISTS";
+
+  constructor(projectName: string, fileName: string) {
+    super(`File ${fileName} already exists in project ${projectName}`);
+    this.name = "FileExistsError";
+  }
+}
+
+/**
+ * Lines of a file, counted from 1 and inclusive
+ */
+export interface LineRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * The part of a file a read asked for. The hash is always that of the whole
+ * file, so an excerpt can still be passed back as expectedHash.
+ */
+export interface FileExcerpt extends FileVersion {
+  /**
+   * Set when the content is only part of the file
+   */
+  startLine?: number;
+  endLine?: number;
+  totalLines?: number;
+
+  /**
+   * Set when the content was cut short to fit the token budget
+   */
+  truncated?: boolean;
+}
+
+/**
+ * One file of a batched read: its content, or why it could not be read
+ */
+export interface FileReadResult extends Partial<FileExcerpt> {
+  fileName: string;
+  error?: string;
+}
+
+/**
+ * Raised when a read asks for lines or a section the file doesn't have
+ */
+export class FileReadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FileReadError";
+  }
+}
+
+/**
+ * Size and modification time of a file, as stored
+ */
+export interface FileStats {
+  fileName: string;
+
+  /**
+   * Bytes
+   */
+  size: number;
+  modifiedAt: Date;
+}
+
+/**
+ * What a file holds, from its front matter and the filesystem, so callers can
+ * choose what to read without opening it
+ */
+export interface ProjectFileInfo {
+  fileName: string;
+
+  /**
+   * Bytes
+   */
+  size: number;
+
+  /**
+   * Estimated tokens of the whole file, front matter included
+   */
+  tokens: number;
+
+  /**
+   * From the front matter, or the file's modification time if it has none
+   */
+  created: Date;
+  updated: Date;
+  tags: string[];
+  salience?: number;
+  task?: string;
+  contentHash: string;
+}
+
+export type FileSortField = "name" | "updated" | "created" | "size" | "salience";
+
+export interface FileWriteResult {
+  content: File;
+  /**
+   * Set when the file was saved but could not be added to the search index
+   */
+  indexError?: string;
+
+  /**
+   * Hash of the content as saved
+   */
+  contentHash?: string;
+}
+
+export interface FileDeleteResult {
+  /**
+   * Where the file was moved to, relative to the memory bank root
+   */
+  trashPath: string;
+
+  /**
+   * IDs of the summaries built from the file, now marked stale
+   */
+  staleSummaries: string[];
+
+  /**
+   * Set when the file was deleted but its index entries could not be removed
+   */
+  indexError?: string;
+}
+
+export interface FileRenameResult {
+  /**
+   * IDs of the summaries built from the file, now marked stale
+   */
+  staleSummaries: string[];
+
+  /**
+   * Files whose links were re-written to reach the file under its new name
+   */
+  updatedFiles?: FileLocation[];
+
+  /**
+   * Set when the file was renamed but could not be re-indexed under its new name
+   */
+  indexError?: string;
+}
@@ -0,0 +1,47 @@
+export type FrontMatterFieldType =
+  | "string"
+  | "number"
+  | "boolean"
+  | "date"
+  | "list";
+
+export interface FrontMatterFieldSchema {
+  type?: FrontMatterFieldType;
+  required?: boolean;
+
+  /**
+   * Allowed values; for lists, every item must be one of them
+   */
+  enum?: (string | number | boolean)[];
+}
+
+/**
+ * Rules a project sets for the front matter of its files
+ */
+export interface FrontMatterSchema {
+  fields: Record<string, FrontMatterFieldSchema>;
+
+  /**
+   * Whether fields the schema doesn't name are accepted; defaults to true
+   */
+  allowUnknownFields?: boolean;
+}
+
+/**
+ * Raised when a file's front matter breaks its project's schema
+ */
+export class FrontMatterValidationError extends Error {
+  readonly code = "INVALID_FRONT_MATTER";
+
+  constructor(
+    fileName: string,
+    readonly issues: string[]
+  ) {
+    super(`Front matter of ${fileName} is invalid: ${issues.join("; ")}`);
+    this.name = "FrontMatterValidationError";
+  }
+
+  get details(): Record<string, string[]> {
+    return { issues: this.issues };
+  }
+}
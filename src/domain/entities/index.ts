@@ -1,7 +1,17 @@
 export * from "./file.js";
+export * from "./file-history.js";
+export * from "./file-access.js";
+export * from "./file-link.js";
+export * from "./file-tree.js";
+export * from "./write-journal.js";
 export * from "./project.js";
+export * from "./project-template.js";
+export * from "./project-bundle.js";
 export * from "./file-metadata.js";
+export * from "./front-matter-schema.js";
+export * from "./file-edit.js";
 export * from "./search.js";
+export * from "./federated-search.js";
 export * from "./summary.js";
 export * from "./context.js";
 export * from "./episodic-memory.js";
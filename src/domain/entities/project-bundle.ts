@@ -0,0 +1,130 @@
+import { EpisodicMemory } from "./episodic-memory.js";
+import { FileHistoryVersion } from "./file-history.js";
+import { Summary } from "./summary.js";
+
+export const PROJECT_BUNDLE_FORMAT = "memory-bank-project";
+export const PROJECT_BUNDLE_VERSION = 1;
+
+/**
+ * What an import does when a project of the same name already exists
+ */
+export type ProjectImportConflict = "rename" | "merge" | "skip";
+
+export interface BundledFile {
+  fileName: string;
+
+  /**
+   * Raw content, front matter included
+   */
+  content: string;
+}
+
+export interface BundledFileHistory {
+  fileName: string;
+
+  /**
+   * Newest first
+   */
+  versions: FileHistoryVersion[];
+}
+
+export interface ProjectBundleManifest {
+  format: typeof PROJECT_BUNDLE_FORMAT;
+  version: number;
+  projectName: string;
+  exportedAt: string;
+  counts: {
+    files: number;
+    versions: number;
+    summaries: number;
+    episodes: number;
+  };
+
+  /**
+   * SHA-256 of each file's content, by file name
+   */
+  files: Record<string, string>;
+
+  /**
+   * SHA-256 of the JSON of the history, summaries and episodes
+   */
+  sections: {
+    history: string;
+    summaries: string;
+    episodes: string;
+  };
+}
+
+/**
+ * Everything a project holds, in a form that can be moved to another
+ * memory bank. Embeddings are left out; imports index the content again.
+ */
+export interface ProjectBundleContents {
+  files: BundledFile[];
+  history: BundledFileHistory[];
+  summaries: Summary[];
+  episodes: EpisodicMemory[];
+}
+
+export interface ProjectBundle extends ProjectBundleContents {
+  manifest: ProjectBundleManifest;
+}
+
+export interface ProjectExportResult {
+  projectName: string;
+
+  /**
+   * Where the bundle was written
+   */
+  path: string;
+  manifest: ProjectBundleManifest;
+}
+
+export interface ProjectImportResult {
+  /**
+   * The project the bundle was imported into
+   */
+  projectName: string;
+
+  /**
+   * The project the bundle was exported from
+   */
+  sourceProjectName: string;
+  status: "created" | "merged" | "skipped";
+  created: string[];
+  updated: string[];
+  unchanged: string[];
+  versions: number;
+  summaries: number;
+  episodes: number;
+  warnings: string[];
+}
+
+/**
+ * A bundle whose manifest does not match its content, or that is not a
+ * project bundle at all
+ */
+export class InvalidBundleError extends Error {
+  readonly code = "INVALID_BUNDLE";
+
+  constructor(readonly problems: string[]) {
+    super(`Invalid project bundle: ${problems.join("; ")}`);
+    this.name = "InvalidBundleError";
+  }
+
+  get details(): Record<string, string[]> {
+    return { problems: this.problems };
+  }
+}
+
+/**
+ * An export to a bundle file that already exists, without asking to replace it
+ */
+export class BundleExistsError extends Error {
+  readonly code = "BUNDLE_EXISTS";
+
+  constructor(readonly bundlePath: string) {
+    super(`Bundle ${bundlePath} already exists`);
+    this.name = "BundleExistsError";
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * Template with the core memory bank files, used when none is named
+ */
+export const DEFAULT_TEMPLATE = "default";
+
+/**
+ * Files a new project starts with. `{{projectName}}`, `{{date}}` and custom
+ * variables in their content are filled in when a project is created.
+ */
+export interface ProjectTemplate {
+  name: string;
+  description?: string;
+  files: TemplateFile[];
+
+  /**
+   * Files every project made from the template must keep filled in
+   */
+  coreFiles: string[];
+}
+
+export interface TemplateFile {
+  fileName: string;
+  content: string;
+}
+
+export interface ProjectInitResult {
+  projectName: string;
+  template: string;
+  created: string[];
+
+  /**
+   * Files the project already had, left as they were
+   */
+  skipped: string[];
+}
+
+export interface ProjectCheckResult {
+  projectName: string;
+  template: string;
+  missing: string[];
+
+  /**
+   * Core files with nothing besides front matter
+   */
+  empty: string[];
+  complete: boolean;
+}
+
+export class TemplateNotFoundError extends Error {
+  readonly code = "TEMPLATE_NOT_FOUND";
+
+  constructor(
+    readonly template: string,
+    readonly availableTemplates: string[]
+  ) {
+    super(
+      `Template ${template} does not exist; available templates: ${availableTemplates.join(", ")}`
+    );
+    this.name = "TemplateNotFoundError";
+  }
+
+  get details(): Record<string, string[]> {
+    return { availableTemplates: this.availableTemplates };
+  }
+}
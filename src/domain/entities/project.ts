@@ -1 +1,59 @@
 export type Project = string;
+
+/**
+ * File inside a project describing it: description, owners, tags and the
+ * code repository it is about. It is not one of the project's files
+ */
+export const PROJECT_MANIFEST_FILE = "project.yaml";
+
+/**
+ * What a project's `project.yaml` says about it
+ */
+export interface ProjectManifest {
+  description?: string;
+  owners?: string[];
+  tags?: string[];
+
+  /**
+   * Path of the code repository the project is about
+   */
+  repository?: string;
+}
+
+/**
+ * How much of a project the search index covers, by file name: "partial"
+ * when some files are missing from it, "unknown" when it could not be read
+ */
+export type ProjectIndexStatus = "indexed" | "partial" | "not_indexed" | "unknown";
+
+export interface ProjectInfo extends ProjectManifest {
+  name: string;
+  fileCount: number;
+
+  /**
+   * Bytes, over all files
+   */
+  totalSize: number;
+
+  /**
+   * When a file of the project last changed; null for an empty project
+   */
+  lastUpdated: Date | null;
+  indexStatus: ProjectIndexStatus;
+}
+
+export type ProjectSortField = "name" | "updated" | "size" | "files";
+
+export interface ProjectList {
+  projects: ProjectInfo[];
+
+  /**
+   * Projects matching the filter, over all pages
+   */
+  total: number;
+
+  /**
+   * Pass back as cursor for the next page; absent on the last page
+   */
+  nextCursor?: string;
+}
@@ -1,10 +1,14 @@
+import { MemorySource } from "./federated-search.js";
+
+export type QueryExpansionMethod = 'hyde' | 'keyword' | 'semantic' | 'hybrid';
+
 export interface QueryExpansion {
   original_query: string;
   expanded_queries: string[];
   hypothetical_answer: string;  // HyDE-style expansion
   generated_keywords: string[];
   semantic_variations: string[];
-  expansion_method: 'hyde' | 'keyword' | 'semantic' | 'hybrid';
+  expansion_method: QueryExpansionMethod;
   confidence: number;           // 0-1, confidence in expansion quality
   created: Date;
 }
@@ -25,7 +29,7 @@ export interface RetrievalContext {
     id: string;
     content: string;
     score: number;
-    source: 'file' | 'summary' | 'episode' | 'skill' | 'case';
+    source: MemorySource;
     metadata: Record<string, any>;
   }>;
   total_results: number;
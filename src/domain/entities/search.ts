@@ -1,13 +1,17 @@
+import { QueryExpansion, QueryExpansionMethod } from "./query-expansion.js";
+
 export interface SearchQuery {
   query: string;
   projectName?: string;
   tags?: string[];
   limit?: number;
   semanticWeight?: number;
+  keywordWeight?: number; // Share of the BM25 keyword score in the relevance of a chunk
   recencyWeight?: number;
   frequencyWeight?: number;
   salienceWeight?: number;
   timeDecayDays?: number;
+  expansion?: 'none' | QueryExpansionMethod; // Also search with expanded queries and merge the results
 }
 
 export interface SearchResult {
@@ -27,6 +31,7 @@ export interface SearchResult {
   };
   scores: {
     semantic: number;
+    keyword?: number;
     recency: number;
     frequency: number;
     salience: number;
@@ -34,10 +39,20 @@ export interface SearchResult {
     combined: number;
   };
   snippet?: string;
+  chunks?: SearchResultChunk[]; // Best-matching chunks of the file, best first
+}
+
+export interface SearchResultChunk {
+  content: string;
+  sectionPath: string[];
+  startLine: number;
+  endLine: number;
+  score: number;
 }
 
 export interface SearchResponse {
   results: SearchResult[];
   totalFound: number;
   queryTime: number;
+  expansion?: QueryExpansion; // The queries searched besides the original one
 }
\ No newline at end of file
@@ -20,6 +20,7 @@ export interface SummaryMetadata {
   updated: Date;
   parentSummaryId?: string;
   childSummaryIds: string[];
+  stale?: boolean;      // A source file changed since the summary was built
 }
 
 export interface Summary {
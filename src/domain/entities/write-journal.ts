@@ -0,0 +1,27 @@
+/**
+ * A change to files that the search index must follow, recorded before the
+ * files are touched and cleared once the index has caught up
+ */
+export interface JournalEntry {
+  id: string;
+  operation: "write" | "update" | "delete" | "rename";
+  projectName: string;
+
+  /**
+   * Every file the change touches, e.g. both names of a rename
+   */
+  fileNames: string[];
+  startedAt: Date;
+}
+
+export interface JournalReplayResult {
+  /**
+   * Entries whose files were brought back in line with the index
+   */
+  replayed: JournalEntry[];
+
+  /**
+   * Entries left in the journal to try again on the next start
+   */
+  failed: Array<JournalEntry & { error: string }>;
+}
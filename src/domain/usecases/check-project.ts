@@ -0,0 +1,13 @@
+import { ProjectCheckResult } from "../entities/index.js";
+
+export interface CheckProjectParams {
+  projectName: string;
+  /**
+   * Template whose core files the project must have; "default" if omitted
+   */
+  template?: string;
+}
+
+export interface CheckProjectUseCase {
+  checkProject(params: CheckProjectParams): Promise<ProjectCheckResult | null>;
+}
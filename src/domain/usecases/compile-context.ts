@@ -1,4 +1,8 @@
-import { ContextCompilation, ContextBudget } from "../entities/index.js";
+import {
+  ContextCompilation,
+  ContextBudget,
+  QueryExpansionMethod,
+} from "../entities/index.js";
 
 export interface CompileContextUseCase {
   /**
@@ -23,4 +27,5 @@ export interface ContextCompilationOptions {
   compressionMethod?: 'llmlingua' | 'summarization' | 'extraction';
   prioritizeRecent?: boolean;
   maxRelevanceThreshold?: number;
+  expansion?: 'none' | QueryExpansionMethod;
 }
\ No newline at end of file
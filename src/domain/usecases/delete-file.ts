@@ -0,0 +1,10 @@
+import { FileDeleteResult } from "../entities/index.js";
+
+export interface DeleteFileParams {
+  projectName: string;
+  fileName: string;
+}
+
+export interface DeleteFileUseCase {
+  deleteFile(params: DeleteFileParams): Promise<FileDeleteResult | null>;
+}
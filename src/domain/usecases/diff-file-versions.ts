@@ -0,0 +1,21 @@
+import { FileVersionDiff } from "../entities/index.js";
+
+export interface DiffFileVersionsParams {
+  projectName: string;
+  fileName: string;
+  /**
+   * A version id from the file's history, or "current"
+   */
+  fromVersionId: string;
+  /**
+   * Defaults to the current content
+   */
+  toVersionId?: string;
+}
+
+export interface DiffFileVersionsUseCase {
+  /**
+   * Null if either version doesn't exist
+   */
+  diffVersions(params: DiffFileVersionsParams): Promise<FileVersionDiff | null>;
+}
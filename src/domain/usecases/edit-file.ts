@@ -0,0 +1,20 @@
+import { FileEdit, FileWriteResult } from "../entities/index.js";
+
+export interface EditFileParams {
+  projectName: string;
+  fileName: string;
+  /**
+   * Applied in order; the file is saved only if all of them apply
+   */
+  edits: FileEdit[];
+  /**
+   * Hash of the version the edits are based on; the edit is rejected if
+   * the file changed since
+   */
+  expectedHash?: string;
+  changeNote?: string;
+}
+
+export interface EditFileUseCase {
+  editFile(params: EditFileParams): Promise<FileWriteResult | null>;
+}
@@ -0,0 +1,19 @@
+import { ProjectExportResult } from "../entities/index.js";
+
+export interface ExportProjectParams {
+  projectName: string;
+  /**
+   * File in the exports folder to write the bundle to; a new name if
+   * omitted. Bundles ending in ".gz" are compressed.
+   */
+  outputPath?: string;
+
+  /**
+   * Replace the bundle at outputPath if it exists; refused if omitted
+   */
+  overwrite?: boolean;
+}
+
+export interface ExportProjectUseCase {
+  exportProject(params: ExportProjectParams): Promise<ProjectExportResult | null>;
+}
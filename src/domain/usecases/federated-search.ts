@@ -0,0 +1,8 @@
+import {
+  FederatedSearchQuery,
+  FederatedSearchResponse,
+} from "../entities/index.js";
+
+export interface FederatedSearchUseCase {
+  search(query: FederatedSearchQuery): Promise<FederatedSearchResponse>;
+}
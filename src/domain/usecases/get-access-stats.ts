@@ -0,0 +1,13 @@
+import { FileAccessReport } from "../entities/index.js";
+
+export interface GetAccessStatsParams {
+  projectName: string;
+  /**
+   * Files listed as hottest and as coldest
+   */
+  limit?: number;
+}
+
+export interface GetAccessStatsUseCase {
+  getAccessStats(params: GetAccessStatsParams): Promise<FileAccessReport | null>;
+}
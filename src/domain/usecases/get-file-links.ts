@@ -0,0 +1,13 @@
+import { FileLinkReport } from "../entities/index.js";
+
+export interface GetFileLinksParams {
+  projectName: string;
+  /**
+   * File to report on; the whole project if omitted
+   */
+  fileName?: string;
+}
+
+export interface GetFileLinksUseCase {
+  getFileLinks(params: GetFileLinksParams): Promise<FileLinkReport | null>;
+}
@@ -0,0 +1,23 @@
+import {
+  ProjectImportConflict,
+  ProjectImportResult,
+} from "../entities/index.js";
+
+export interface ImportProjectParams {
+  /**
+   * Bundle file in the exports folder
+   */
+  bundlePath: string;
+  /**
+   * Project to import into; the exported project's name if omitted
+   */
+  projectName?: string;
+  /**
+   * What to do when the project already exists; "rename" if omitted
+   */
+  onConflict?: ProjectImportConflict;
+}
+
+export interface ImportProjectUseCase {
+  importProject(params: ImportProjectParams): Promise<ProjectImportResult>;
+}
@@ -1,12 +1,30 @@
 export * from "./list-project-files.js";
 export * from "./list-projects.js";
+export * from "./init-project.js";
+export * from "./check-project.js";
+export * from "./export-project.js";
+export * from "./import-project.js";
 export * from "./read-file.js";
+export * from "./read-files.js";
 export * from "./search-memory.js";
+export * from "./federated-search.js";
 export * from "./update-file.js";
+export * from "./edit-file.js";
+export * from "./set-file-metadata.js";
 export * from "./write-file.js";
+export * from "./delete-file.js";
+export * from "./rename-file.js";
+export * from "./list-file-versions.js";
+export * from "./diff-file-versions.js";
+export * from "./restore-file-version.js";
+export * from "./get-access-stats.js";
+export * from "./get-file-links.js";
 export * from "./compile-memory-hierarchy.js";
 export * from "./compile-context.js";
 export * from "./reflexive-learning.js";
 export * from "./generate-or-retrieve.js";
 export * from "./evaluation-harness.js";
 export * from "./migrate-project.js";
+export * from "./reindex-memory.js";
+export * from "./sync-file-change.js";
+export * from "./replay-write-journal.js";
@@ -0,0 +1,17 @@
+import { ProjectInitResult } from "../entities/index.js";
+
+export interface InitProjectParams {
+  projectName: string;
+  /**
+   * Built-in or user-defined template; "default" creates the core files
+   */
+  template?: string;
+  /**
+   * Values for the template's custom placeholders
+   */
+  variables?: Record<string, string>;
+}
+
+export interface InitProjectUseCase {
+  initProject(params: InitProjectParams): Promise<ProjectInitResult>;
+}
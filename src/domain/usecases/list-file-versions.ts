@@ -0,0 +1,15 @@
+import { FileHistoryEntry } from "../entities/index.js";
+
+export interface ListFileVersionsParams {
+  projectName: string;
+  fileName: string;
+}
+
+export interface ListFileVersionsUseCase {
+  /**
+   * Newest first; null if the file neither exists nor has any history
+   */
+  listVersions(
+    params: ListFileVersionsParams
+  ): Promise<FileHistoryEntry[] | null>;
+}
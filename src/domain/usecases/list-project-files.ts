@@ -1,8 +1,48 @@
-import { File } from "../entities/index.js";
+import {
+  FileSortField,
+  FileTreeNode,
+  ProjectFileInfo,
+} from "../entities/index.js";
+
 export interface ListProjectFilesParams {
   projectName: string;
+
+  /**
+   * Glob patterns of the files to list, such as "decisions/**"; all if omitted
+   */
+  include?: string[];
+
+  /**
+   * Glob patterns of files to leave out
+   */
+  exclude?: string[];
+
+  /**
+   * Only files with every one of these tags
+   */
+  tags?: string[];
+
+  /**
+   * Only files updated at or after this time
+   */
+  updatedSince?: Date;
+
+  /**
+   * "name" if omitted
+   */
+  sortBy?: FileSortField;
+
+  /**
+   * Ascending by name, otherwise newest, largest or most salient first, if omitted
+   */
+  order?: "asc" | "desc";
 }
 
 export interface ListProjectFilesUseCase {
-  listProjectFiles(params: ListProjectFilesParams): Promise<File[]>;
+  listProjectFiles(params: ListProjectFilesParams): Promise<ProjectFileInfo[]>;
+
+  /**
+   * The same files nested by folder
+   */
+  listProjectFileTree(params: ListProjectFilesParams): Promise<FileTreeNode[]>;
 }
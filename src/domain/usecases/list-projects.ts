@@ -1,5 +1,28 @@
-import { Project } from "../entities/index.js";
+import { ProjectList, ProjectSortField } from "../entities/index.js";
+
+export interface ListProjectsParams {
+  /**
+   * "name" if omitted
+   */
+  sortBy?: ProjectSortField;
+
+  /**
+   * Ascending by name, otherwise newest, largest or most files first, if omitted
+   */
+  order?: "asc" | "desc";
+
+  /**
+   * Only projects whose manifest has this tag
+   */
+  tag?: string;
+
+  /**
+   * The nextCursor of the previous page
+   */
+  cursor?: string;
+  limit?: number;
+}
 
 export interface ListProjectsUseCase {
-  listProjects(): Promise<Project[]>;
+  listProjects(params?: ListProjectsParams): Promise<ProjectList>;
 }
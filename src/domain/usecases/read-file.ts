@@ -1,9 +1,28 @@
-import { File } from "../entities/index.js";
+import { FileExcerpt } from "../entities/index.js";
 export interface ReadFileParams {
   projectName: string;
   fileName: string;
+
+  /**
+   * Lines to read, counted from 1 and inclusive; the rest of the file if
+   * endLine is omitted
+   */
+  startLine?: number;
+  endLine?: number;
+
+  /**
+   * Read only the section under this heading, e.g. ["Decisions", "Auth"];
+   * not combined with a line range
+   */
+  headingPath?: string[];
+
+  /**
+   * Cut the content to about this many tokens, ending with a marker that says
+   * where to continue
+   */
+  maxTokens?: number;
 }
 
 export interface ReadFileUseCase {
-  readFile(params: ReadFileParams): Promise<File | null>;
+  readFile(params: ReadFileParams): Promise<FileExcerpt | null>;
 }
@@ -0,0 +1,23 @@
+import { FileReadResult } from "../entities/index.js";
+
+export interface ReadFilesParams {
+  projectName: string;
+
+  /**
+   * Every file in the project if omitted
+   */
+  fileNames?: string[];
+
+  /**
+   * Token budget for each file
+   */
+  maxTokens?: number;
+}
+
+export interface ReadFilesUseCase {
+  /**
+   * Null if the project doesn't exist; a file that can't be read gets an
+   * error in its result instead of failing the batch
+   */
+  readFiles(params: ReadFilesParams): Promise<FileReadResult[] | null>;
+}
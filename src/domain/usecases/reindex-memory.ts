@@ -0,0 +1,33 @@
+export interface ReindexParams {
+  /**
+   * Restrict the reconciliation to a single project
+   */
+  projectName?: string;
+
+  /**
+   * Report what would change without touching the index
+   */
+  dryRun?: boolean;
+
+  /**
+   * Re-embed every file even if its content hash is unchanged,
+   * e.g. after switching embedding models
+   */
+  force?: boolean;
+}
+
+export interface ReindexResult {
+  dryRun: boolean;
+  projectsScanned: number;
+  filesScanned: number;
+  added: string[];
+  updated: string[];
+  removed: string[];
+  unchanged: number;
+  errors: string[];
+  duration: number;
+}
+
+export interface ReindexMemoryUseCase {
+  reindex(params?: ReindexParams): Promise<ReindexResult>;
+}
@@ -0,0 +1,11 @@
+import { FileRenameResult } from "../entities/index.js";
+
+export interface RenameFileParams {
+  projectName: string;
+  fileName: string;
+  newFileName: string;
+}
+
+export interface RenameFileUseCase {
+  renameFile(params: RenameFileParams): Promise<FileRenameResult | null>;
+}
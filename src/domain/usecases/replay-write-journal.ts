@@ -0,0 +1,9 @@
+import { JournalReplayResult } from "../entities/index.js";
+
+export interface ReplayWriteJournalUseCase {
+  /**
+   * Bring the index in line with the files of every change left unfinished,
+   * e.g. by a crash between writing a file and indexing it
+   */
+  replay(): Promise<JournalReplayResult>;
+}
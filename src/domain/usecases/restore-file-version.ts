@@ -0,0 +1,21 @@
+import { FileWriteResult } from "../entities/index.js";
+
+export interface RestoreFileVersionParams {
+  projectName: string;
+  fileName: string;
+  versionId: string;
+  /**
+   * Hash of the current content; the restore is rejected if the file
+   * changed since
+   */
+  expectedHash?: string;
+}
+
+export interface RestoreFileVersionUseCase {
+  /**
+   * Null if the file or the version doesn't exist
+   */
+  restoreVersion(
+    params: RestoreFileVersionParams
+  ): Promise<FileWriteResult | null>;
+}
@@ -0,0 +1,18 @@
+import { FileMetadataUpdate, FileWriteResult } from "../entities/index.js";
+
+export interface SetFileMetadataParams {
+  projectName: string;
+  fileName: string;
+  metadata: FileMetadataUpdate;
+  /**
+   * Hash of the version the change is based on; it is rejected if the file
+   * changed since
+   */
+  expectedHash?: string;
+}
+
+export interface SetFileMetadataUseCase {
+  setFileMetadata(
+    params: SetFileMetadataParams
+  ): Promise<FileWriteResult | null>;
+}
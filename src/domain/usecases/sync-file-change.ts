@@ -0,0 +1,20 @@
+export interface FileChange {
+  projectName: string;
+  fileName: string;
+}
+
+export interface SyncFileChangeResult extends FileChange {
+  /**
+   * Whether the file was (re-)indexed or dropped from the index
+   */
+  action: "indexed" | "removed";
+
+  /**
+   * IDs of the summaries marked stale by the change
+   */
+  staleSummaries: string[];
+}
+
+export interface SyncFileChangeUseCase {
+  sync(change: FileChange): Promise<SyncFileChangeResult>;
+}
@@ -1,11 +1,24 @@
-import { File } from "../entities/index.js";
+import { FileMetadataUpdate, FileWriteResult } from "../entities/index.js";
 
 export interface UpdateFileParams {
   projectName: string;
   fileName: string;
   content: string;
+  /**
+   * Hash of the version the content is based on, as returned by a read;
+   * the update is rejected if the file changed since
+   */
+  expectedHash?: string;
+  /**
+   * Why the file changed, kept in its history with the replaced version
+   */
+  changeNote?: string;
+  /**
+   * Merged into the content's front matter before it is saved
+   */
+  metadata?: FileMetadataUpdate;
 }
 
 export interface UpdateFileUseCase {
-  updateFile(params: UpdateFileParams): Promise<File | null>;
+  updateFile(params: UpdateFileParams): Promise<FileWriteResult | null>;
 }
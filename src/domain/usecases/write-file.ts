@@ -1,10 +1,15 @@
-import { File } from "../entities/index.js";
+import { FileMetadataUpdate, FileWriteResult } from "../entities/index.js";
+
 export interface WriteFileParams {
   projectName: string;
   fileName: string;
   content: string;
+  /**
+   * Merged into the content's front matter before it is saved
+   */
+  metadata?: FileMetadataUpdate;
 }
 
 export interface WriteFileUseCase {
-  writeFile(params: WriteFileParams): Promise<File | null>;
+  writeFile(params: WriteFileParams): Promise<FileWriteResult | null>;
 }
@@ -0,0 +1,2 @@
+export * from "./lexical-embedding-provider.js";
+export * from "./openai-embedding-provider.js";
@@ -0,0 +1,125 @@
+import {
+  DocumentFrequencies,
+  EmbeddingProvider,
+} from "../../data/protocols/embedding-provider.js";
+import { STOPWORDS } from "../keyword/text-analyzer.js";
+
+interface LexicalEmbeddingConfig {
+  model?: string;
+  dimension?: number;
+}
+
+// Bigrams are weaker evidence than single terms
+const BIGRAM_WEIGHT = 0.5;
+
+/**
+ * Fully local TF-IDF embedder using the hashing trick: unigram and bigram
+ * terms are hashed into a fixed number of signed buckets, weighted by
+ * sublinear term frequency times the inverse document frequency of their
+ * bucket in the collection. Stopwords are dropped outright. Without
+ * document frequencies, as for an empty collection, every bucket weighs the
+ * same.
+ */
+export class LexicalEmbeddingProvider implements EmbeddingProvider {
+  readonly model: string;
+  readonly dimension: number;
+
+  constructor(config: LexicalEmbeddingConfig = {}) {
+    this.model = config.model || "lexical-hash-v1";
+    this.dimension = config.dimension || 384;
+
+    if (!Number.isInteger(this.dimension) || this.dimension <= 0) {
+      throw new Error(`Invalid embedding dimension: ${config.dimension}`);
+    }
+  }
+
+  async embed(
+    text: string,
+    frequencies?: DocumentFrequencies
+  ): Promise<Float32Array> {
+    const terms = this.extractTerms(text);
+    const embedding = new Float32Array(this.dimension);
+
+    for (const [term, weight] of terms) {
+      const bucket = this.bucket(term);
+      // A second hash decides the sign so collisions tend to cancel out
+      const sign = this.hash(`#${term}`) & 1 ? 1 : -1;
+      embedding[bucket] +=
+        sign * (1 + Math.log(weight)) * this.inverseDocumentFrequency(bucket, frequencies);
+    }
+
+    const magnitude = Math.sqrt(
+      embedding.reduce((sum, val) => sum + val * val, 0)
+    );
+    if (magnitude > 0) {
+      for (let i = 0; i < embedding.length; i++) {
+        embedding[i] /= magnitude;
+      }
+    }
+
+    return embedding;
+  }
+
+  async embedBatch(
+    texts: string[],
+    frequencies?: DocumentFrequencies
+  ): Promise<Float32Array[]> {
+    return Promise.all(texts.map((text) => this.embed(text, frequencies)));
+  }
+
+  // Document frequencies are counted per bucket, the unit a vector weights
+  documentTerms(text: string): string[] {
+    const buckets = new Set(
+      Array.from(this.extractTerms(text).keys()).map((term) => this.bucket(term))
+    );
+    return Array.from(buckets, String);
+  }
+
+  // Smoothed log(N / df): never zero or negative, and 1 for a bucket found
+  // in every document
+  private inverseDocumentFrequency(
+    bucket: number,
+    frequencies?: DocumentFrequencies
+  ): number {
+    if (!frequencies || frequencies.documentCount === 0) return 1;
+
+    const documentFrequency = frequencies.terms[String(bucket)] || 0;
+    return (
+      1 + Math.log((1 + frequencies.documentCount) / (1 + documentFrequency))
+    );
+  }
+
+  private bucket(term: string): number {
+    return this.hash(term) % this.dimension;
+  }
+
+  private extractTerms(text: string): Map<string, number> {
+    const tokens = text
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter((token) => token.length > 1 && !STOPWORDS.has(token));
+
+    const terms = new Map<string, number>();
+    const add = (term: string, weight: number) =>
+      terms.set(term, (terms.get(term) || 0) + weight);
+
+    for (let i = 0; i < tokens.length; i++) {
+      add(tokens[i], 1);
+      if (i > 0) {
+        add(`${tokens[i - 1]} ${tokens[i]}`, BIGRAM_WEIGHT);
+      }
+    }
+
+    return terms;
+  }
+
+  // 32-bit FNV-1a
+  private hash(term: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < term.length; i++) {
+      hash ^= term.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+}
@@ -0,0 +1,93 @@
+import axios, { AxiosInstance } from "axios";
+import { EmbeddingProvider } from "../../data/protocols/embedding-provider.js";
+
+interface OpenAIEmbeddingConfig {
+  apiUrl?: string;
+  apiKey?: string;
+  model?: string;
+  dimension?: number;
+  batchSize?: number;
+  timeoutMs?: number;
+}
+
+interface EmbeddingResponse {
+  data: Array<{ index: number; embedding: number[] }>;
+}
+
+/**
+ * Embedder for any OpenAI-compatible `/embeddings` endpoint
+ * (OpenAI, Azure gateways, Ollama, LM Studio, vLLM, ...)
+ */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly model: string;
+  readonly dimension: number;
+  private readonly client: AxiosInstance;
+  private readonly batchSize: number;
+  private readonly requestedDimension?: number;
+
+  constructor(config: OpenAIEmbeddingConfig = {}) {
+    this.model = config.model || "text-embedding-3-small";
+    this.dimension = config.dimension || 1536;
+    this.requestedDimension = config.dimension;
+    this.batchSize = config.batchSize || 64;
+
+    this.client = axios.create({
+      baseURL: (config.apiUrl || "https://api.openai.com/v1").replace(/\/+$/, ""),
+      timeout: config.timeoutMs || 30000,
+      headers: {
+        "Content-Type": "application/json",
+        ...(config.apiKey && { Authorization: `Bearer ${config.apiKey}` }),
+      },
+    });
+  }
+
+  async embed(text: string): Promise<Float32Array> {
+    const [embedding] = await this.embedBatch([text]);
+    return embedding;
+  }
+
+  async embedBatch(texts: string[]): Promise<Float32Array[]> {
+    const embeddings: Float32Array[] = [];
+
+    for (let i = 0; i < texts.length; i += this.batchSize) {
+      const batch = texts.slice(i, i + this.batchSize);
+      embeddings.push(...(await this.requestEmbeddings(batch)));
+    }
+
+    return embeddings;
+  }
+
+  private async requestEmbeddings(input: string[]): Promise<Float32Array[]> {
+    let response;
+    try {
+      response = await this.client.post<EmbeddingResponse>("/embeddings", {
+        model: this.model,
+        // Empty strings are rejected by most endpoints
+        input: input.map((text) => text || " "),
+        // Only models that support shortening accept an explicit size
+        ...(this.requestedDimension && { dimensions: this.requestedDimension }),
+      });
+    } catch (error) {
+      const message = axios.isAxiosError(error)
+        ? error.response?.data?.error?.message || error.message
+        : String(error);
+      throw new Error(`Embedding request to model ${this.model} failed: ${message}`);
+    }
+
+    const data = [...(response.data?.data || [])].sort((a, b) => a.index - b.index);
+    if (data.length !== input.length) {
+      throw new Error(
+        `Embedding endpoint returned ${data.length} vectors for ${input.length} inputs`
+      );
+    }
+
+    return data.map(({ embedding }) => {
+      if (embedding.length !== this.dimension) {
+        throw new Error(
+          `Model ${this.model} returned ${embedding.length}-dimensional vectors, expected ${this.dimension}`
+        );
+      }
+      return new Float32Array(embedding);
+    });
+  }
+}
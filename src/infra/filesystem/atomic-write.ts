@@ -0,0 +1,51 @@
+import crypto from "crypto";
+import fs from "fs-extra";
+import path from "path";
+
+/**
+ * Writes a file so that readers, and the file after a crash, only ever see
+ * the old or the new content. The content goes to a hidden temporary file
+ * beside it, is flushed to disk and then renamed over the file; the rename
+ * is flushed too by syncing the directory.
+ * @param filePath The file to write; its directory must exist
+ * @param content The new content
+ */
+export const writeFileAtomic = async (
+  filePath: string,
+  content: string
+): Promise<void> => {
+  const directory = path.dirname(filePath);
+  const tempPath = path.join(
+    directory,
+    `.${path.basename(filePath)}.${crypto.randomBytes(6).toString("hex")}.tmp`
+  );
+
+  try {
+    const handle = await fs.promises.open(tempPath, "w");
+    try {
+      await handle.writeFile(content, "utf-8");
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.remove(tempPath);
+    throw error;
+  }
+
+  await syncDirectory(directory);
+};
+
+const syncDirectory = async (directory: string): Promise<void> => {
+  let handle: fs.promises.FileHandle | undefined;
+  try {
+    handle = await fs.promises.open(directory, "r");
+    await handle.sync();
+  } catch {
+    // Some platforms, Windows among them, can't open or sync a directory
+  } finally {
+    await handle?.close();
+  }
+};
@@ -0,0 +1,63 @@
+import { ProjectTemplate } from "../../domain/entities/index.js";
+
+const coreFile = (fileName: string, title: string, sections: string[][]) => ({
+  fileName,
+  content: [
+    `# ${title}`,
+    "",
+    ...sections.flatMap(([heading, prompt]) => [`## ${heading}`, "", prompt, ""]),
+  ].join("\n"),
+});
+
+/**
+ * The core files custom-instructions.md expects in every project, in the
+ * order they are read
+ */
+const DEFAULT_PROJECT_TEMPLATE: ProjectTemplate = {
+  name: "default",
+  description: "The core memory bank files every project needs",
+  files: [
+    coreFile("projectbrief.md", "{{projectName}} Project Brief", [
+      ["Overview", "_Created {{date}}. What is being built, and for whom?_"],
+      ["Core Requirements", "_The requirements every other file builds on._"],
+      ["Goals", "_What success looks like._"],
+      ["Scope", "_What is in and out of scope._"],
+    ]),
+    coreFile("productContext.md", "Product Context", [
+      ["Why This Project Exists", "_The problem it solves._"],
+      ["How It Should Work", "_The intended experience._"],
+      ["User Experience Goals", "_What users should be able to do._"],
+    ]),
+    coreFile("activeContext.md", "Active Context", [
+      ["Current Focus", "_What is being worked on now._"],
+      ["Recent Changes", "_What changed lately, and why._"],
+      ["Next Steps", "_What comes next._"],
+      ["Active Decisions", "_Open questions and decisions in progress._"],
+    ]),
+    coreFile("systemPatterns.md", "System Patterns", [
+      ["Architecture", "_How the system is put together._"],
+      ["Key Technical Decisions", "_Decisions and their reasons._"],
+      ["Design Patterns", "_Patterns in use and where._"],
+    ]),
+    coreFile("techContext.md", "Tech Context", [
+      ["Technologies", "_Languages, frameworks and services used._"],
+      ["Development Setup", "_How to build, run and test._"],
+      ["Constraints", "_Technical constraints and dependencies._"],
+    ]),
+    coreFile("progress.md", "Progress", [
+      ["What Works", "_Finished and working._"],
+      ["What's Left", "_Still to build._"],
+      ["Known Issues", "_Bugs and limitations._"],
+    ]),
+  ],
+  coreFiles: [
+    "projectbrief.md",
+    "productContext.md",
+    "activeContext.md",
+    "systemPatterns.md",
+    "techContext.md",
+    "progress.md",
+  ],
+};
+
+export const BUILT_IN_TEMPLATES: ProjectTemplate[] = [DEFAULT_PROJECT_TEMPLATE];
@@ -0,0 +1,92 @@
+/**
+ * Directory inside the memory bank root used by the embedded vector store
+ */
+export const LOCAL_VECTOR_STORE_DIRECTORY = ".vector_store";
+
+/**
+ * Directory inside the memory bank root holding the BM25 keyword index
+ */
+export const KEYWORD_INDEX_DIRECTORY = ".keyword_index";
+
+/**
+ * Directory inside the memory bank root holding the graph of links between
+ * files
+ */
+export const LINK_GRAPH_DIRECTORY = ".link_graph";
+
+/**
+ * Directory inside the memory bank root that deleted files are moved to
+ */
+export const TRASH_DIRECTORY = ".trash";
+
+/**
+ * Directory inside the memory bank root holding the locks that serialize
+ * writes across processes
+ */
+export const LOCK_DIRECTORY = ".locks";
+
+/**
+ * Directory inside the memory bank root holding the write-ahead journal of
+ * changes the search index has yet to follow
+ */
+export const JOURNAL_DIRECTORY = ".journal";
+
+/**
+ * Directory inside the memory bank root holding user-defined project
+ * templates, one folder per template
+ */
+export const TEMPLATES_DIRECTORY = ".templates";
+
+/**
+ * Optional file in a template folder with its description and core files
+ */
+export const TEMPLATE_MANIFEST_FILE = "template.json";
+
+/**
+ * Directory inside the memory bank root that project bundles are exported to
+ * when no path is given
+ */
+export const EXPORTS_DIRECTORY = ".exports";
+
+/**
+ * Days a deleted file stays recoverable before it is purged from the trash
+ */
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+/**
+ * Directory inside each project holding earlier versions of its files
+ */
+export const HISTORY_DIRECTORY = ".history";
+
+// Defined with the manifest itself, so use cases can carry it between projects
+export { PROJECT_MANIFEST_FILE } from "../../domain/entities/project.js";
+
+/**
+ * File inside a project with the schema its files' front matter must follow
+ */
+export const FRONT_MATTER_SCHEMA_FILE = ".frontmatter-schema.json";
+
+/**
+ * Earlier versions kept per file; the oldest are pruned first
+ */
+export const DEFAULT_HISTORY_MAX_VERSIONS = 50;
+
+/**
+ * Days an earlier version of a file is kept
+ */
+export const DEFAULT_HISTORY_RETENTION_DAYS = 90;
+
+/**
+ * Directories inside the memory bank root that hold internal data
+ * and must never be listed as projects
+ */
+export const RESERVED_DIRECTORIES = [
+  LOCAL_VECTOR_STORE_DIRECTORY,
+  KEYWORD_INDEX_DIRECTORY,
+  LINK_GRAPH_DIRECTORY,
+  TRASH_DIRECTORY,
+  LOCK_DIRECTORY,
+  JOURNAL_DIRECTORY,
+  TEMPLATES_DIRECTORY,
+  EXPORTS_DIRECTORY,
+];
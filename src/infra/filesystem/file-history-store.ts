@@ -0,0 +1,196 @@
+import fs from "fs-extra";
+import path from "path";
+import {
+  FileHistoryEntry,
+  FileHistoryVersion,
+} from "../../domain/entities/index.js";
+import {
+  DEFAULT_HISTORY_MAX_VERSIONS,
+  DEFAULT_HISTORY_RETENTION_DAYS,
+  HISTORY_DIRECTORY,
+} from "./constants.js";
+
+export interface FileHistoryOptions {
+  /**
+   * Earlier versions kept per file
+   */
+  maxVersions?: number;
+
+  /**
+   * Days an earlier version is kept
+   */
+  retentionDays?: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Fixed width so version ids sort by age as plain strings
+const TIMESTAMP_WIDTH = 15;
+
+/**
+ * Snapshots of earlier file versions, one JSON document per version in
+ * `<project>/.history/<file>/`. Callers hold the file's lock while
+ * snapshotting, so versions of one file are never written concurrently.
+ */
+export class FileHistoryStore {
+  private readonly maxVersions: number;
+  private readonly retentionDays: number;
+
+  constructor(options: FileHistoryOptions = {}) {
+    this.maxVersions = options.maxVersions ?? DEFAULT_HISTORY_MAX_VERSIONS;
+    this.retentionDays =
+      options.retentionDays ?? DEFAULT_HISTORY_RETENTION_DAYS;
+  }
+
+  /**
+   * Save the version of a file an update is about to replace, then prune
+   * versions past the retention limits
+   */
+  async snapshot(
+    projectPath: string,
+    fileName: string,
+    content: string,
+    contentHash: string,
+    changeNote?: string
+  ): Promise<void> {
+    // Versions saved within the same millisecond must still sort by age
+    const [latest] = await this.versionIds(projectPath, fileName);
+    const now = Math.max(Date.now(), latest ? this.savedAt(latest) + 1 : 0);
+    const versionId = `${String(now).padStart(TIMESTAMP_WIDTH, "0")}-${contentHash.slice(0, 8)}`;
+    const version: FileHistoryVersion = {
+      versionId,
+      contentHash,
+      replacedAt: new Date(now).toISOString(),
+      ...(changeNote && { changeNote }),
+      content,
+    };
+
+    await fs.outputJson(
+      path.join(this.historyDir(projectPath, fileName), `${versionId}.json`),
+      version,
+      { spaces: 2 }
+    );
+    await this.prune(projectPath, fileName);
+  }
+
+  /**
+   * Save a version under its own id, as kept by another memory bank, then
+   * prune versions past the retention limits. A version already saved is
+   * left as it is.
+   */
+  async save(
+    projectPath: string,
+    fileName: string,
+    version: FileHistoryVersion
+  ): Promise<void> {
+    const versionPath = this.versionPath(projectPath, fileName, version.versionId);
+    if (!versionPath) {
+      throw new Error(`Invalid version id ${version.versionId}`);
+    }
+    if (await fs.pathExists(versionPath)) {
+      return;
+    }
+
+    await fs.outputJson(versionPath, version, { spaces: 2 });
+    await this.prune(projectPath, fileName);
+  }
+
+  /**
+   * Versions of a file, newest first
+   */
+  async list(
+    projectPath: string,
+    fileName: string
+  ): Promise<FileHistoryEntry[]> {
+    const entries: FileHistoryEntry[] = [];
+
+    for (const versionId of await this.versionIds(projectPath, fileName)) {
+      const version = await this.load(projectPath, fileName, versionId);
+      if (version) {
+        const { content, ...entry } = version;
+        entries.push(entry);
+      }
+    }
+
+    return entries;
+  }
+
+  async load(
+    projectPath: string,
+    fileName: string,
+    versionId: string
+  ): Promise<FileHistoryVersion | null> {
+    const versionPath = this.versionPath(projectPath, fileName, versionId);
+    if (!versionPath || !(await fs.pathExists(versionPath))) {
+      return null;
+    }
+
+    return fs.readJson(versionPath);
+  }
+
+  /**
+   * Keep a file's history when it is renamed
+   */
+  async move(
+    projectPath: string,
+    fileName: string,
+    newFileName: string
+  ): Promise<void> {
+    const historyDir = this.historyDir(projectPath, fileName);
+    if (await fs.pathExists(historyDir)) {
+      await fs.move(historyDir, this.historyDir(projectPath, newFileName), {
+        overwrite: true,
+      });
+    }
+  }
+
+  private async prune(projectPath: string, fileName: string): Promise<void> {
+    const historyDir = this.historyDir(projectPath, fileName);
+    const cutoff = Date.now() - this.retentionDays * DAY_MS;
+    const versionIds = await this.versionIds(projectPath, fileName);
+
+    for (const [i, versionId] of versionIds.entries()) {
+      if (i >= this.maxVersions || this.savedAt(versionId) < cutoff) {
+        await fs.remove(path.join(historyDir, `${versionId}.json`));
+      }
+    }
+  }
+
+  // Newest first
+  private async versionIds(
+    projectPath: string,
+    fileName: string
+  ): Promise<string[]> {
+    const historyDir = this.historyDir(projectPath, fileName);
+    if (!(await fs.pathExists(historyDir))) {
+      return [];
+    }
+
+    return (await fs.readdir(historyDir))
+      .filter((name) => name.endsWith(".json"))
+      .map((name) => name.slice(0, -".json".length))
+      .sort()
+      .reverse();
+  }
+
+  private savedAt(versionId: string): number {
+    return Number(versionId.split("-")[0]);
+  }
+
+  private versionPath(
+    projectPath: string,
+    fileName: string,
+    versionId: string
+  ): string | null {
+    // Version ids come from callers; never let one point outside the history
+    if (!versionId || path.basename(versionId) !== versionId) {
+      return null;
+    }
+
+    return path.join(this.historyDir(projectPath, fileName), `${versionId}.json`);
+  }
+
+  private historyDir(projectPath: string, fileName: string): string {
+    return path.join(projectPath, HISTORY_DIRECTORY, fileName);
+  }
+}
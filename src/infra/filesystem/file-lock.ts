@@ -0,0 +1,145 @@
+import crypto from "crypto";
+import fs from "fs-extra";
+import path from "path";
+
+interface FileLockOptions {
+  /**
+   * How long to wait for a lock held by someone else
+   */
+  timeoutMs?: number;
+
+  /**
+   * Age after which a lock is assumed to belong to a crashed process
+   */
+  staleMs?: number;
+}
+
+const RETRY_DELAY_MS = 25;
+
+/**
+ * Advisory locks shared by every process using the same lock directory.
+ * A lock is a file created exclusively, so only one holder can exist at a
+ * time even across MCP server processes sharing one memory bank root. Its
+ * modification time is refreshed while it is held, so only the locks of
+ * crashed processes ever become stale.
+ */
+export class FileLock {
+  private readonly timeoutMs: number;
+  private readonly staleMs: number;
+
+  constructor(
+    private readonly lockDir: string,
+    options: FileLockOptions = {}
+  ) {
+    this.timeoutMs = options.timeoutMs ?? 5000;
+    this.staleMs = options.staleMs ?? 30000;
+  }
+
+  /**
+   * Run an operation while holding the lock for a file
+   * @param filePath The file to lock
+   * @param operation The operation to run
+   */
+  async withLock<T>(filePath: string, operation: () => Promise<T>): Promise<T> {
+    const lockPath = this.lockPathFor(filePath);
+    const token = `${process.pid}:${crypto.randomBytes(8).toString("hex")}`;
+    await this.acquire(lockPath, filePath, token);
+
+    const refresh = setInterval(() => {
+      const now = new Date();
+      fs.utimes(lockPath, now, now).catch(() => {});
+    }, this.staleMs / 2);
+    refresh.unref();
+
+    try {
+      return await operation();
+    } finally {
+      clearInterval(refresh);
+      // A lock taken over by someone else is theirs to release
+      if ((await this.readToken(lockPath)) === token) {
+        await fs.remove(lockPath);
+      }
+    }
+  }
+
+  private async acquire(
+    lockPath: string,
+    filePath: string,
+    token: string
+  ): Promise<void> {
+    await fs.ensureDir(this.lockDir);
+    const deadline = Date.now() + this.timeoutMs;
+
+    for (;;) {
+      try {
+        await fs.writeFile(lockPath, token, { flag: "wx" });
+        return;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error;
+      }
+
+      const staleToken = await this.staleToken(lockPath);
+      if (staleToken !== null) {
+        await this.takeOver(lockPath, staleToken);
+        continue;
+      }
+      if (Date.now() >= deadline) {
+        throw new Error(`Timed out waiting for the lock on ${filePath}`);
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, RETRY_DELAY_MS));
+    }
+  }
+
+  /**
+   * Removes a stale lock. Waiters that all saw it stale race to rename it
+   * away, and only the one that moved the very lock it judged stale, still
+   * stale, removes it. A lock that was taken again or refreshed by its
+   * holder in between is put back, unless the name has been taken again,
+   * and the waiter retries.
+   */
+  private async takeOver(lockPath: string, staleToken: string): Promise<void> {
+    const movedPath = `${lockPath}.${crypto.randomBytes(8).toString("hex")}.stale`;
+
+    try {
+      await fs.rename(lockPath, movedPath);
+    } catch {
+      // Another waiter moved it first
+      return;
+    }
+
+    // The rename keeps the modification time, so a refresh shows up here
+    if ((await this.staleToken(movedPath)) !== staleToken) {
+      await fs.link(movedPath, lockPath).catch(() => {});
+    }
+    await fs.remove(movedPath);
+  }
+
+  /**
+   * The holder's token if the lock is older than the stale age, else null
+   */
+  private async staleToken(lockPath: string): Promise<string | null> {
+    try {
+      const { mtimeMs } = await fs.stat(lockPath);
+      if (Date.now() - mtimeMs <= this.staleMs) return null;
+
+      return await this.readToken(lockPath);
+    } catch {
+      // Released in the meantime
+      return null;
+    }
+  }
+
+  private async readToken(lockPath: string): Promise<string | null> {
+    return fs.readFile(lockPath, "utf-8").catch(() => null);
+  }
+
+  // One flat directory; the name only has to be unique per locked file
+  private lockPathFor(filePath: string): string {
+    const key = crypto
+      .createHash("sha1")
+      .update(path.resolve(filePath))
+      .digest("hex");
+    return path.join(this.lockDir, `${key}.lock`);
+  }
+}
@@ -0,0 +1,236 @@
+import crypto from "crypto";
+import fs from "fs-extra";
+import path from "path";
+import { promisify } from "util";
+import zlib from "zlib";
+import { ProjectBundleStore } from "../../data/protocols/project-bundle-store.js";
+import {
+  BundleExistsError,
+  InvalidBundleError,
+  PROJECT_BUNDLE_FORMAT,
+  PROJECT_BUNDLE_VERSION,
+  ProjectBundle,
+  ProjectBundleContents,
+  ProjectBundleManifest,
+  ProjectExportResult,
+} from "../../domain/entities/index.js";
+import { RESERVED_DIRECTORIES } from "./constants.js";
+
+const gzip = promisify(zlib.gzip);
+const gunzip = promisify(zlib.gunzip);
+
+const COMPRESSED_EXTENSION = ".gz";
+
+/**
+ * Project bundles as single JSON files, gzip-compressed when the name ends
+ * in ".gz". Bundles are only read from and written to the exports folder;
+ * those without a path are named after the project and the time of the
+ * export. The manifest holds a SHA-256 checksum of every file and section,
+ * checked again when a bundle is loaded.
+ */
+export class FsProjectBundleStore implements ProjectBundleStore {
+  /**
+   * Creates a new FsProjectBundleStore
+   * @param exportsDir The directory bundles are written to and read from;
+   * relative bundle paths are resolved against it
+   */
+  constructor(private readonly exportsDir: string) {}
+
+  async save(
+    projectName: string,
+    contents: ProjectBundleContents,
+    bundlePath?: string,
+    overwrite = false
+  ): Promise<ProjectExportResult> {
+    const manifest = this.manifest(projectName, contents);
+    const target = this.resolve(bundlePath ?? this.defaultPath(manifest));
+    const bundle: ProjectBundle = { manifest, ...contents };
+    const json = Buffer.from(JSON.stringify(bundle), "utf-8");
+
+    await fs.ensureDir(path.dirname(target));
+    try {
+      await fs.writeFile(
+        target,
+        target.endsWith(COMPRESSED_EXTENSION) ? await gzip(json) : json,
+        { flag: overwrite ? "w" : "wx" }
+      );
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "EEXIST") {
+        throw new BundleExistsError(bundlePath ?? target);
+      }
+      throw error;
+    }
+
+    return { projectName, path: target, manifest };
+  }
+
+  async load(requestedPath: string): Promise<ProjectBundle> {
+    const bundlePath = this.resolve(requestedPath);
+    if (!(await fs.pathExists(bundlePath))) {
+      throw new InvalidBundleError([`${bundlePath} does not exist`]);
+    }
+
+    let bundle: ProjectBundle;
+    try {
+      const data = await fs.readFile(bundlePath);
+      const json = bundlePath.endsWith(COMPRESSED_EXTENSION) ? await gunzip(data) : data;
+      bundle = JSON.parse(json.toString("utf-8"));
+    } catch (error) {
+      throw new InvalidBundleError([
+        `${bundlePath} could not be read: ${(error as Error).message}`,
+      ]);
+    }
+
+    if (bundle?.manifest?.format !== PROJECT_BUNDLE_FORMAT) {
+      throw new InvalidBundleError([`${bundlePath} is not a project bundle`]);
+    }
+
+    const problems = this.verify(bundle);
+    if (problems.length > 0) {
+      throw new InvalidBundleError(problems);
+    }
+
+    return this.withDates(bundle);
+  }
+
+  private manifest(
+    projectName: string,
+    contents: ProjectBundleContents
+  ): ProjectBundleManifest {
+    return {
+      format: PROJECT_BUNDLE_FORMAT,
+      version: PROJECT_BUNDLE_VERSION,
+      projectName,
+      exportedAt: new Date().toISOString(),
+      counts: {
+        files: contents.files.length,
+        versions: contents.history.reduce(
+          (total, file) => total + file.versions.length,
+          0
+        ),
+        summaries: contents.summaries.length,
+        episodes: contents.episodes.length,
+      },
+      files: Object.fromEntries(
+        contents.files.map((file) => [file.fileName, this.checksum(file.content)])
+      ),
+      sections: {
+        history: this.checksum(JSON.stringify(contents.history)),
+        summaries: this.checksum(JSON.stringify(contents.summaries)),
+        episodes: this.checksum(JSON.stringify(contents.episodes)),
+      },
+    };
+  }
+
+  private verify(bundle: ProjectBundle): string[] {
+    const { manifest } = bundle;
+    const problems: string[] = [];
+
+    if (manifest.version > PROJECT_BUNDLE_VERSION) {
+      problems.push(
+        `Bundle version ${manifest.version} is newer than the supported version ${PROJECT_BUNDLE_VERSION}`
+      );
+      return problems;
+    }
+    if (!this.isProjectName(manifest.projectName)) {
+      problems.push(`${manifest.projectName} is not a valid project name`);
+    }
+
+    // Every name is checked before the import writes its first file
+    const files = bundle.files || [];
+    for (const { fileName } of [...files, ...(bundle.history || [])]) {
+      if (!this.isFileName(fileName)) {
+        problems.push(`${fileName} is not a valid file name`);
+      }
+    }
+
+    const expected = new Set(Object.keys(manifest.files || {}));
+    for (const file of files) {
+      if (!expected.delete(file.fileName)) {
+        problems.push(`${file.fileName} is not in the manifest`);
+      } else if (manifest.files[file.fileName] !== this.checksum(file.content)) {
+        problems.push(`Checksum of ${file.fileName} does not match`);
+      }
+    }
+    for (const fileName of expected) {
+      problems.push(`${fileName} is missing from the bundle`);
+    }
+
+    for (const section of ["history", "summaries", "episodes"] as const) {
+      if (manifest.sections?.[section] !== this.checksum(JSON.stringify(bundle[section] || []))) {
+        problems.push(`Checksum of the ${section} does not match`);
+      }
+    }
+
+    return problems;
+  }
+
+  // JSON keeps the dates of summaries and episodes as strings
+  private withDates(bundle: ProjectBundle): ProjectBundle {
+    return {
+      ...bundle,
+      summaries: bundle.summaries.map((summary) => ({
+        ...summary,
+        metadata: {
+          ...summary.metadata,
+          created: new Date(summary.metadata.created),
+          updated: new Date(summary.metadata.updated),
+        },
+      })),
+      episodes: bundle.episodes.map((episode) => ({
+        ...episode,
+        metadata: { ...episode.metadata, created: new Date(episode.metadata.created) },
+      })),
+    };
+  }
+
+  // Bundle paths never lead out of the exports folder
+  private resolve(bundlePath: string): string {
+    const exportsDir = path.resolve(this.exportsDir);
+    const target = path.resolve(exportsDir, bundlePath);
+    const relative = path.relative(exportsDir, target);
+
+    if (!relative || relative.startsWith("..") || path.isAbsolute(relative)) {
+      throw new InvalidBundleError([
+        `${bundlePath} is outside the exports folder`,
+      ]);
+    }
+
+    return target;
+  }
+
+  // Hidden names such as .history hold internal data, as do the reserved
+  // directories of the root
+  private isFileName(name: string): boolean {
+    return (
+      typeof name === "string" &&
+      !name.includes("\\") &&
+      name
+        .split("/")
+        .every((segment) => segment.length > 0 && !segment.startsWith("."))
+    );
+  }
+
+  private isProjectName(name: string): boolean {
+    return (
+      typeof name === "string" &&
+      name.length > 0 &&
+      path.basename(name) === name &&
+      !name.startsWith(".") &&
+      !RESERVED_DIRECTORIES.includes(name)
+    );
+  }
+
+  private checksum(content: string): string {
+    return crypto.createHash("sha256").update(content).digest("hex");
+  }
+
+  private defaultPath(manifest: ProjectBundleManifest): string {
+    const timestamp = manifest.exportedAt.replace(/[-:]/g, "").replace(/\.\d+Z$/, "Z");
+
+    return path.join(
+      this.exportsDir,
+      `${manifest.projectName}-${timestamp}.json${COMPRESSED_EXTENSION}`
+    );
+  }
+}
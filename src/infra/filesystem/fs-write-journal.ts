@@ -0,0 +1,62 @@
+import crypto from "crypto";
+import fs from "fs-extra";
+import path from "path";
+import { WriteJournal } from "../../data/protocols/write-journal.js";
+import { JournalEntry } from "../../domain/entities/index.js";
+import { writeFileAtomic } from "./atomic-write.js";
+import { JOURNAL_DIRECTORY } from "./constants.js";
+
+// Fixed width so entry ids sort by age as plain strings
+const TIMESTAMP_WIDTH = 15;
+
+/**
+ * Write-ahead journal kept as one JSON document per pending change in
+ * `<root>/.journal/`. Each entry is written atomically and removed on
+ * commit, so processes sharing the root never contend for one file.
+ */
+export class FsWriteJournal implements WriteJournal {
+  private readonly journalDir: string;
+
+  constructor(rootDir: string) {
+    this.journalDir = path.join(rootDir, JOURNAL_DIRECTORY);
+  }
+
+  async begin(entry: Omit<JournalEntry, "id" | "startedAt">): Promise<string> {
+    const startedAt = new Date();
+    const id = `${String(startedAt.getTime()).padStart(TIMESTAMP_WIDTH, "0")}-${crypto
+      .randomBytes(4)
+      .toString("hex")}`;
+
+    await fs.ensureDir(this.journalDir);
+    await writeFileAtomic(
+      this.entryPath(id),
+      JSON.stringify({ ...entry, id, startedAt }, null, 2)
+    );
+
+    return id;
+  }
+
+  async commit(id: string): Promise<void> {
+    await fs.remove(this.entryPath(id));
+  }
+
+  async pending(): Promise<JournalEntry[]> {
+    if (!(await fs.pathExists(this.journalDir))) {
+      return [];
+    }
+
+    const entries: JournalEntry[] = [];
+    for (const name of (await fs.readdir(this.journalDir)).sort()) {
+      if (!name.endsWith(".json")) continue;
+
+      const entry = await fs.readJson(path.join(this.journalDir, name));
+      entries.push({ ...entry, startedAt: new Date(entry.startedAt) });
+    }
+
+    return entries;
+  }
+
+  private entryPath(id: string): string {
+    return path.join(this.journalDir, `${id}.json`);
+  }
+}
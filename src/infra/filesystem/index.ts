@@ -1,2 +1,11 @@
+export * from "./atomic-write.js";
+export * from "./built-in-templates.js";
+export * from "./constants.js";
+export * from "./file-history-store.js";
+export * from "./file-lock.js";
+export * from "./fs-project-bundle-store.js";
+export * from "./fs-write-journal.js";
 export * from "./repositories/fs-file-repository.js";
 export * from "./repositories/fs-project-repository.js";
+export * from "./repositories/fs-template-repository.js";
+export * from "./watchers/fs-memory-bank-watcher.js";
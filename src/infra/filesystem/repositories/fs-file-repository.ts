@@ -1,20 +1,54 @@
+import crypto from "crypto";
 import fs from "fs-extra";
 import path from "path";
+import { FileHistoryRepository } from "../../../data/protocols/file-history-repository.js";
 import { FileRepository } from "../../../data/protocols/file-repository.js";
-import { File } from "../../../domain/entities/index.js";
+import {
+  File,
+  FileConflictError,
+  FileHistoryEntry,
+  FileHistoryVersion,
+  FileStats,
+  FileVersion,
+} from "../../../domain/entities/index.js";
 import { GitIgnoreProtectionService } from "../../services/gitignore-protection-service.js";
+import {
+  DEFAULT_TRASH_RETENTION_DAYS,
+  LOCK_DIRECTORY,
+  PROJECT_MANIFEST_FILE,
+  TRASH_DIRECTORY,
+} from "../constants.js";
+import { writeFileAtomic } from "../atomic-write.js";
+import { FileHistoryOptions, FileHistoryStore } from "../file-history-store.js";
+import { FileLock } from "../file-lock.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
 /**
- * Filesystem implementation of the FileRepository protocol
+ * Filesystem implementation of the FileRepository protocol. Every mutation
+ * holds a lock on the file, so writes from processes sharing the root never
+ * interleave, and content is written atomically, so a crash never leaves a
+ * truncated file. Updates keep the version they replace in the file's history.
  */
-export class FsFileRepository implements FileRepository {
+export class FsFileRepository implements FileRepository, FileHistoryRepository {
   private gitIgnoreService: GitIgnoreProtectionService;
+  private fileLock: FileLock;
+  private history: FileHistoryStore;
 
   /**
    * Creates a new FsFileRepository
    * @param rootDir The root directory where all projects are stored
+   * @param trashRetentionDays Days deleted files are kept in the trash
+   * @param historyOptions Limits on the earlier versions kept per file
    */
-  constructor(private readonly rootDir: string) {
+  constructor(
+    private readonly rootDir: string,
+    private readonly trashRetentionDays: number = DEFAULT_TRASH_RETENTION_DAYS,
+    historyOptions: FileHistoryOptions = {}
+  ) {
     this.gitIgnoreService = new GitIgnoreProtectionService();
+    this.fileLock = new FileLock(path.join(rootDir, LOCK_DIRECTORY));
+    this.history = new FileHistoryStore(historyOptions);
   }
 
   /**
@@ -33,9 +67,53 @@ export class FsFileRepository implements FileRepository {
   }
 
   /**
-   * Lists all files in a project
+   * Builds the path to a file, which may be nested in folders of the project
+   * @param projectName The name of the project or fully qualified path
+   * @param fileName The path of the file relative to the project
+   * @returns The full path to the file
+   * @throws Error if the path leads outside the project, directly or through
+   * a symbolic link
+   * @private
+   */
+  private async buildFilePath(
+    projectName: string,
+    fileName: string,
+  ): Promise<string> {
+    const projectPath = path.resolve(this.buildProjectPath(projectName));
+    const filePath = path.resolve(projectPath, fileName);
+
+    const escapes = (from: string, to: string) => {
+      const relative = path.relative(from, to);
+      return relative.startsWith("..") || path.isAbsolute(relative);
+    };
+
+    if (escapes(projectPath, filePath)) {
+      throw new Error(
+        `File path ${fileName} is outside project ${projectName}`,
+      );
+    }
+
+    // Resolve links on the part of the path that exists so far
+    let existing = filePath;
+    while (existing !== projectPath && !(await fs.pathExists(existing))) {
+      existing = path.dirname(existing);
+    }
+    if (
+      (await fs.pathExists(projectPath)) &&
+      escapes(await fs.realpath(projectPath), await fs.realpath(existing))
+    ) {
+      throw new Error(
+        `File path ${fileName} links outside project ${projectName}`,
+      );
+    }
+
+    return filePath;
+  }
+
+  /**
+   * Lists all files in a project, including those in subfolders
    * @param projectName The name of the project or fully qualified path
-   * @returns An array of file names
+   * @returns An array of file paths relative to the project, using "/"
    */
   async listFiles(projectName: string): Promise<File[]> {
     const projectPath = this.buildProjectPath(projectName);
@@ -45,18 +123,64 @@ export class FsFileRepository implements FileRepository {
       return [];
     }
 
-    const entries = await fs.readdir(projectPath, { withFileTypes: true });
+    return this.listFilesIn(projectPath, "");
+  }
+
+  /**
+   * Lists all files in a project with their size and modification time
+   * @param projectName The name of the project or fully qualified path
+   * @returns The files in the order listFiles returns them
+   */
+  async listFileStats(projectName: string): Promise<FileStats[]> {
+    const projectPath = this.buildProjectPath(projectName);
+    const stats: FileStats[] = [];
+
+    for (const fileName of await this.listFiles(projectName)) {
+      // Files deleted since they were listed are left out
+      const stat = await fs.stat(path.join(projectPath, fileName)).catch(() => null);
+      if (stat) {
+        stats.push({ fileName, size: stat.size, modifiedAt: stat.mtime });
+      }
+    }
+
+    return stats;
+  }
+
+  /**
+   * Walks a project folder. Hidden files and folders hold internal data, the
+   * manifest describes the project rather than being one of its files, and
+   * symbolic links are never followed, so nothing outside the project is
+   * listed.
+   * @private
+   */
+  private async listFilesIn(
+    projectPath: string,
+    relativeDir: string,
+  ): Promise<File[]> {
+    const entries = await fs.readdir(path.join(projectPath, relativeDir), {
+      withFileTypes: true,
+    });
     const files: File[] = [];
 
     for (const entry of entries) {
-      if (entry.isFile()) {
-        const filePath = path.join(projectPath, entry.name);
+      const relativePath = relativeDir
+        ? `${relativeDir}/${entry.name}`
+        : entry.name;
+
+      if (entry.name.startsWith(".") || relativePath === PROJECT_MANIFEST_FILE) {
+        continue;
+      }
+
+      if (entry.isDirectory()) {
+        files.push(...(await this.listFilesIn(projectPath, relativePath)));
+      } else if (entry.isFile()) {
+        const filePath = path.join(projectPath, relativePath);
 
         // Check if file should be ignored
         const shouldIgnore =
           await this.gitIgnoreService.shouldIgnoreFile(filePath);
         if (!shouldIgnore) {
-          files.push(entry.name);
+          files.push(relativePath);
         }
       }
     }
@@ -74,7 +198,7 @@ export class FsFileRepository implements FileRepository {
     projectName: string,
     fileName: string,
   ): Promise<string | null> {
-    const filePath = path.join(this.buildProjectPath(projectName), fileName);
+    const filePath = await this.buildFilePath(projectName, fileName);
 
     const fileExists = await fs.pathExists(filePath);
     if (!fileExists) {
@@ -85,6 +209,24 @@ export class FsFileRepository implements FileRepository {
     return content;
   }
 
+  /**
+   * Loads the content of a file with the hash of that version
+   * @param projectName The name of the project
+   * @param fileName The name of the file
+   * @returns The content and its hash, or null if the file doesn't exist
+   */
+  async loadFileVersion(
+    projectName: string,
+    fileName: string,
+  ): Promise<FileVersion | null> {
+    const content = await this.loadFile(projectName, fileName);
+    if (content === null) {
+      return null;
+    }
+
+    return { content, contentHash: this.contentHash(content) };
+  }
+
   /**
    * Writes a new file
    * @param projectName The name of the project
@@ -97,18 +239,22 @@ export class FsFileRepository implements FileRepository {
     fileName: string,
     content: string,
   ): Promise<File | null> {
-    const projectPath = this.buildProjectPath(projectName);
-    await fs.ensureDir(projectPath);
+    const filePath = await this.buildFilePath(projectName, fileName);
+    await fs.ensureDir(path.dirname(filePath));
 
-    const filePath = path.join(projectPath, fileName);
+    const written = await this.fileLock.withLock(filePath, async () => {
+      const fileExists = await fs.pathExists(filePath);
+      if (fileExists) {
+        return false;
+      }
 
-    const fileExists = await fs.pathExists(filePath);
-    if (fileExists) {
+      await writeFileAtomic(filePath, content);
+      return true;
+    });
+    if (!written) {
       return null;
     }
 
-    await fs.writeFile(filePath, content, "utf-8");
-
     return await this.loadFile(projectName, fileName);
   }
 
@@ -117,22 +263,216 @@ export class FsFileRepository implements FileRepository {
    * @param projectName The name of the project
    * @param fileName The name of the file
    * @param content The new content
+   * @param expectedHash Hash of the version the new content is based on
+   * @param changeNote Why the file changed, kept with the replaced version
    * @returns The content of the file after updating, or null if the file doesn't exist
+   * @throws FileConflictError if the file no longer has the expected hash
    */
   async updateFile(
     projectName: string,
     fileName: string,
     content: string,
+    expectedHash?: string,
+    changeNote?: string,
   ): Promise<File | null> {
-    const filePath = path.join(this.buildProjectPath(projectName), fileName);
+    const projectPath = this.buildProjectPath(projectName);
+    const filePath = await this.buildFilePath(projectName, fileName);
 
-    const fileExists = await fs.pathExists(filePath);
-    if (!fileExists) {
+    const updated = await this.fileLock.withLock(filePath, async () => {
+      const fileExists = await fs.pathExists(filePath);
+      if (!fileExists) {
+        return false;
+      }
+
+      const previous = await fs.readFile(filePath, "utf-8");
+      const currentHash = this.contentHash(previous);
+      if (expectedHash !== undefined && currentHash !== expectedHash) {
+        throw new FileConflictError(fileName, currentHash, expectedHash);
+      }
+
+      // Rewriting identical content would only fill the history with copies
+      if (previous !== content) {
+        await this.history.snapshot(
+          projectPath,
+          fileName,
+          previous,
+          currentHash,
+          changeNote,
+        );
+      }
+
+      await writeFileAtomic(filePath, content);
+      return true;
+    });
+    if (!updated) {
       return null;
     }
 
-    await fs.writeFile(filePath, content, "utf-8");
-
     return await this.loadFile(projectName, fileName);
   }
+
+  /**
+   * Moves a file to the trash and purges trash entries past their retention
+   * @param projectName The name of the project
+   * @param fileName The name of the file
+   * @returns The path of the file in the trash, relative to the root directory,
+   * or null if the file doesn't exist
+   */
+  async deleteFile(
+    projectName: string,
+    fileName: string,
+  ): Promise<string | null> {
+    const filePath = await this.buildFilePath(projectName, fileName);
+
+    // Entries are grouped by deletion time so they can be purged by age
+    const trashPath = path.join(
+      TRASH_DIRECTORY,
+      path.basename(projectName),
+      String(Date.now()),
+      fileName,
+    );
+
+    const deleted = await this.fileLock.withLock(filePath, async () => {
+      const fileExists = await fs.pathExists(filePath);
+      if (!fileExists) {
+        return false;
+      }
+
+      await fs.move(filePath, path.join(this.rootDir, trashPath), {
+        overwrite: true,
+      });
+      return true;
+    });
+    if (!deleted) {
+      return null;
+    }
+
+    await this.purgeTrash();
+
+    return trashPath;
+  }
+
+  /**
+   * Renames a file within its project
+   * @param projectName The name of the project
+   * @param fileName The current name of the file
+   * @param newFileName The new name of the file
+   * @returns False if the file doesn't exist or the new name is already taken
+   */
+  async renameFile(
+    projectName: string,
+    fileName: string,
+    newFileName: string,
+  ): Promise<boolean> {
+    const projectPath = this.buildProjectPath(projectName);
+    const filePath = await this.buildFilePath(projectName, fileName);
+    const newFilePath = await this.buildFilePath(projectName, newFileName);
+
+    // The new name is the file's own, so it is already taken; the same lock
+    // must not be taken twice either
+    if (filePath === newFilePath) {
+      return false;
+    }
+
+    // Locks are taken in a fixed order so opposite renames cannot deadlock
+    const [first, second] = [filePath, newFilePath].sort();
+
+    return this.fileLock.withLock(first, () =>
+      this.fileLock.withLock(second, async () => {
+        if (
+          !(await fs.pathExists(filePath)) ||
+          (await fs.pathExists(newFilePath))
+        ) {
+          return false;
+        }
+
+        await fs.move(filePath, newFilePath);
+        await this.history.move(projectPath, fileName, newFileName);
+        return true;
+      }),
+    );
+  }
+
+  /**
+   * Lists the earlier versions of a file
+   * @param projectName The name of the project
+   * @param fileName The name of the file
+   * @returns The versions, newest first
+   */
+  async listVersions(
+    projectName: string,
+    fileName: string,
+  ): Promise<FileHistoryEntry[]> {
+    return this.history.list(this.buildProjectPath(projectName), fileName);
+  }
+
+  /**
+   * Loads an earlier version of a file
+   * @param projectName The name of the project
+   * @param fileName The name of the file
+   * @param versionId The id listVersions gave the version
+   * @returns The version, or null if the file has no such version
+   */
+  async loadVersion(
+    projectName: string,
+    fileName: string,
+    versionId: string,
+  ): Promise<FileHistoryVersion | null> {
+    return this.history.load(
+      this.buildProjectPath(projectName),
+      fileName,
+      versionId,
+    );
+  }
+
+  /**
+   * Adds an earlier version of a file under its own id
+   * @param projectName The name of the project
+   * @param fileName The name of the file
+   * @param version The version, as another memory bank kept it
+   */
+  async saveVersion(
+    projectName: string,
+    fileName: string,
+    version: FileHistoryVersion,
+  ): Promise<void> {
+    const filePath = await this.buildFilePath(projectName, fileName);
+
+    await this.fileLock.withLock(filePath, () =>
+      this.history.save(this.buildProjectPath(projectName), fileName, version),
+    );
+  }
+
+  /**
+   * Hash identifying a version of a file's content; the same hash the search
+   * index records for the file
+   * @private
+   */
+  private contentHash(content: string): string {
+    return crypto.createHash("sha256").update(content).digest("hex");
+  }
+
+  /**
+   * Removes trash entries deleted longer ago than the retention window
+   * @private
+   */
+  private async purgeTrash(): Promise<void> {
+    const trashDir = path.join(this.rootDir, TRASH_DIRECTORY);
+    const cutoff = Date.now() - this.trashRetentionDays * DAY_MS;
+
+    for (const project of await fs.readdir(trashDir)) {
+      const projectTrashDir = path.join(trashDir, project);
+      const deletions = await fs.readdir(projectTrashDir);
+
+      for (const deletedAt of deletions) {
+        if (Number(deletedAt) < cutoff) {
+          await fs.remove(path.join(projectTrashDir, deletedAt));
+        }
+      }
+
+      if ((await fs.readdir(projectTrashDir)).length === 0) {
+        await fs.remove(projectTrashDir);
+      }
+    }
+  }
 }
@@ -1,7 +1,9 @@
 import fs from "fs-extra";
+import matter from "gray-matter";
 import path from "path";
 import { ProjectRepository } from "../../../data/protocols/project-repository.js";
-import { Project } from "../../../domain/entities/index.js";
+import { Project, ProjectManifest } from "../../../domain/entities/index.js";
+import { PROJECT_MANIFEST_FILE, RESERVED_DIRECTORIES } from "../constants.js";
 
 /**
  * Filesystem implementation of the ProjectRepository protocol
@@ -30,13 +32,16 @@ export class FsProjectRepository implements ProjectRepository {
 
   /**
    * Lists all available projects
-   * @returns An array of Project objects (fully qualified paths)
+   * @returns The names of the project directories, never their paths
    */
   async listProjects(): Promise<Project[]> {
     const entries = await fs.readdir(this.rootDir, { withFileTypes: true });
     const projects: Project[] = entries
-      .filter((entry) => entry.isDirectory())
-      .map((entry) => path.join(this.rootDir, entry.name));
+      .filter(
+        (entry) =>
+          entry.isDirectory() && !RESERVED_DIRECTORIES.includes(entry.name),
+      )
+      .map((entry) => entry.name);
 
     return projects;
   }
@@ -53,6 +58,50 @@ export class FsProjectRepository implements ProjectRepository {
     return stat.isDirectory();
   }
 
+  /**
+   * Reads the project's project.yaml. Fields of the wrong type are left out,
+   * so a hand-edited manifest never breaks a listing.
+   * @param name The name of the project
+   * @returns The manifest, or null if the project has none or it isn't YAML
+   */
+  async loadManifest(name: string): Promise<ProjectManifest | null> {
+    const manifestPath = path.join(
+      this.buildProjectPath(name),
+      PROJECT_MANIFEST_FILE,
+    );
+    if (!(await fs.pathExists(manifestPath))) {
+      return null;
+    }
+
+    let data: Record<string, unknown>;
+    try {
+      const yaml = await fs.readFile(manifestPath, "utf-8");
+      data = matter(`---\n${yaml}\n---\n`).data;
+    } catch {
+      return null;
+    }
+
+    const text = (value: unknown) =>
+      typeof value === "string" && value.trim() ? value.trim() : undefined;
+    const list = (value: unknown) => {
+      const items = (Array.isArray(value) ? value : [value])
+        .map(text)
+        .filter((item): item is string => item !== undefined);
+      return items.length > 0 ? items : undefined;
+    };
+
+    const manifest: ProjectManifest = {
+      description: text(data.description),
+      owners: list(data.owners),
+      tags: list(data.tags),
+      repository: text(data.repository),
+    };
+
+    return Object.fromEntries(
+      Object.entries(manifest).filter(([, value]) => value !== undefined),
+    );
+  }
+
   /**
    * Ensures a project directory exists, creating it if necessary
    * @param name The name of the project
@@ -0,0 +1,104 @@
+import fs from "fs-extra";
+import path from "path";
+import { TemplateRepository } from "../../../data/protocols/template-repository.js";
+import {
+  ProjectTemplate,
+  TemplateFile,
+} from "../../../domain/entities/index.js";
+import { BUILT_IN_TEMPLATES } from "../built-in-templates.js";
+import { TEMPLATE_MANIFEST_FILE } from "../constants.js";
+
+interface TemplateManifest {
+  description?: string;
+  coreFiles?: string[];
+}
+
+/**
+ * Built-in templates plus user-defined ones, each a folder of files in the
+ * templates directory. A folder may hold a `template.json` with its
+ * description and core files; without one, every file is a core file.
+ */
+export class FsTemplateRepository implements TemplateRepository {
+  /**
+   * Creates a new FsTemplateRepository
+   * @param templatesDir The directory holding user-defined templates
+   */
+  constructor(
+    private readonly templatesDir: string,
+    private readonly builtInTemplates: ProjectTemplate[] = BUILT_IN_TEMPLATES
+  ) {}
+
+  async listTemplates(): Promise<string[]> {
+    const names = new Set(this.builtInTemplates.map((template) => template.name));
+    for (const name of await this.userTemplateNames()) {
+      names.add(name);
+    }
+
+    return Array.from(names).sort();
+  }
+
+  async loadTemplate(name: string): Promise<ProjectTemplate | null> {
+    if ((await this.userTemplateNames()).includes(name)) {
+      return this.loadUserTemplate(name);
+    }
+
+    return this.builtInTemplates.find((template) => template.name === name) ?? null;
+  }
+
+  private async userTemplateNames(): Promise<string[]> {
+    if (!(await fs.pathExists(this.templatesDir))) {
+      return [];
+    }
+
+    const entries = await fs.readdir(this.templatesDir, { withFileTypes: true });
+    return entries
+      .filter((entry) => entry.isDirectory() && !entry.name.startsWith("."))
+      .map((entry) => entry.name);
+  }
+
+  private async loadUserTemplate(name: string): Promise<ProjectTemplate> {
+    const templateDir = path.join(this.templatesDir, name);
+    const manifestPath = path.join(templateDir, TEMPLATE_MANIFEST_FILE);
+
+    let manifest: TemplateManifest = {};
+    if (await fs.pathExists(manifestPath)) {
+      try {
+        manifest = await fs.readJson(manifestPath);
+      } catch (error) {
+        throw new Error(
+          `Invalid ${TEMPLATE_MANIFEST_FILE} in template ${name}: ${(error as Error).message}`
+        );
+      }
+    }
+
+    const files = await this.readFiles(templateDir, "");
+    return {
+      name,
+      ...(manifest.description && { description: manifest.description }),
+      files,
+      coreFiles: manifest.coreFiles ?? files.map((file) => file.fileName),
+    };
+  }
+
+  // Template files with "/"-joined paths relative to the template folder
+  private async readFiles(dir: string, prefix: string): Promise<TemplateFile[]> {
+    const files: TemplateFile[] = [];
+    const entries = await fs.readdir(dir, { withFileTypes: true });
+
+    for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+      if (entry.name.startsWith(".")) continue;
+
+      const fileName = prefix ? `${prefix}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        files.push(...(await this.readFiles(path.join(dir, entry.name), fileName)));
+      } else if (entry.isFile() && fileName !== TEMPLATE_MANIFEST_FILE) {
+        files.push({
+          fileName,
+          content: await fs.readFile(path.join(dir, entry.name), "utf-8"),
+        });
+      }
+    }
+
+    return files;
+  }
+}
@@ -0,0 +1,177 @@
+import fs from "fs-extra";
+import path from "path";
+import { BackgroundService } from "../../../data/protocols/background-service.js";
+import { FileIndexer } from "../../../data/protocols/file-indexer.js";
+import { VectorRepository } from "../../../data/protocols/vector-repository.js";
+import {
+  FileChange,
+  SyncFileChangeUseCase,
+} from "../../../domain/usecases/index.js";
+import { GitIgnoreProtectionService } from "../../services/gitignore-protection-service.js";
+import { PROJECT_MANIFEST_FILE, RESERVED_DIRECTORIES } from "../constants.js";
+
+interface FsMemoryBankWatcherOptions {
+  /**
+   * Quiet period before a burst of events on one file is synced
+   */
+  debounceMs?: number;
+}
+
+// Editor swap, backup and temporary files never belong in the index
+const TEMPORARY_FILE_PATTERN = /(~|\.swp|\.swx|\.tmp|\.temp)$/i;
+
+/**
+ * Watches the memory bank root and keeps the search index in sync with
+ * files created, edited or deleted outside of the MCP tools. A deleted
+ * folder, or project, is reported once for itself, so every indexed file
+ * under it is synced away. Files whose content the index already has, such
+ * as those just written through the tools, are not indexed again.
+ */
+export class FsMemoryBankWatcher implements BackgroundService {
+  private watcher: fs.FSWatcher | null = null;
+  private gitIgnoreService: GitIgnoreProtectionService;
+  private pending = new Map<string, NodeJS.Timeout>();
+  private queue: Promise<void> = Promise.resolve();
+  private readonly debounceMs: number;
+
+  /**
+   * Creates a new FsMemoryBankWatcher
+   * @param rootDir The root directory where all projects are stored
+   * @param syncFileChange Use case applied to every settled file change
+   * @param options Watcher tuning
+   * @param vectorRepository Index listing the files of a deleted folder
+   * and the content hash each file was indexed with
+   * @param fileIndexer Hashes content the way the index records it
+   */
+  constructor(
+    private readonly rootDir: string,
+    private readonly syncFileChange: SyncFileChangeUseCase,
+    options: FsMemoryBankWatcherOptions = {},
+    private readonly vectorRepository?: VectorRepository,
+    private readonly fileIndexer?: FileIndexer
+  ) {
+    this.gitIgnoreService = new GitIgnoreProtectionService();
+    this.debounceMs = options.debounceMs ?? 500;
+  }
+
+  async start(): Promise<void> {
+    if (this.watcher) return;
+
+    await fs.ensureDir(this.rootDir);
+
+    this.watcher = fs.watch(
+      this.rootDir,
+      { recursive: true },
+      (_event, fileName) => {
+        if (fileName) this.schedule(fileName.toString());
+      }
+    );
+    this.watcher.on("error", (error) => {
+      console.error("Memory bank watcher error:", error);
+    });
+  }
+
+  async stop(): Promise<void> {
+    this.watcher?.close();
+    this.watcher = null;
+
+    for (const timer of this.pending.values()) {
+      clearTimeout(timer);
+    }
+    this.pending.clear();
+
+    // Let a sync that already started finish before returning
+    await this.queue;
+  }
+
+  private schedule(relativePath: string): void {
+    const change = this.toFileChange(relativePath);
+    if (!change) return;
+
+    const key = `${change.projectName}/${change.fileName}`;
+    clearTimeout(this.pending.get(key));
+
+    this.pending.set(
+      key,
+      setTimeout(() => {
+        this.pending.delete(key);
+        // Syncs run one at a time so index writes never interleave
+        this.queue = this.queue.then(() => this.sync(change));
+      }, this.debounceMs)
+    );
+  }
+
+  private async sync(change: FileChange): Promise<void> {
+    const filePath = path.join(this.rootDir, change.projectName, change.fileName);
+
+    try {
+      if (await this.gitIgnoreService.shouldIgnoreFile(filePath)) return;
+      // Folders inside projects are reported too; only their files are synced
+      const stats = await fs.stat(filePath).catch(() => null);
+      if (stats?.isDirectory()) return;
+
+      if (!stats) await this.syncRemovedFolder(change);
+      // An empty file name stands for the project folder itself
+      if (!change.fileName) return;
+      if (stats && (await this.isIndexed(change, filePath))) return;
+
+      await this.syncFileChange.sync(change);
+    } catch (error) {
+      console.error(
+        `Failed to sync ${change.projectName}/${change.fileName}:`,
+        error
+      );
+    }
+  }
+
+  // Removes the indexed files under a path that no longer exists; nothing
+  // is indexed under the path of a deleted file
+  private async syncRemovedFolder({ projectName, fileName }: FileChange): Promise<void> {
+    if (!this.vectorRepository) return;
+
+    const prefix = fileName ? `${fileName}/` : "";
+    for (const ref of await this.vectorRepository.listIndexedFiles(projectName)) {
+      if (ref.fileName.startsWith(prefix)) {
+        await this.syncFileChange.sync({ projectName, fileName: ref.fileName });
+      }
+    }
+  }
+
+  // Whether the index already has the file's current content
+  private async isIndexed(
+    { projectName, fileName }: FileChange,
+    filePath: string
+  ): Promise<boolean> {
+    if (!this.vectorRepository || !this.fileIndexer) return false;
+
+    const indexed = (await this.vectorRepository.listIndexedFiles(projectName)).find(
+      (ref) => ref.fileName === fileName
+    );
+    if (!indexed) return false;
+
+    const content = await fs.readFile(filePath, "utf-8");
+    return indexed.contentHash === this.fileIndexer.contentHash(content);
+  }
+
+  /**
+   * Maps a path relative to the root onto a project file or folder, or null
+   * when the path is not part of a project. The project folder itself maps
+   * to an empty file name.
+   */
+  private toFileChange(relativePath: string): FileChange | null {
+    const segments = relativePath.split(/[\\/]/).filter(Boolean);
+    if (segments.length === 0) return null;
+
+    const [projectName, ...filePath] = segments;
+    if (RESERVED_DIRECTORIES.includes(projectName)) return null;
+    // Hidden folders such as a project's .history hold internal data
+    if (segments.some((segment) => segment.startsWith("."))) return null;
+    if (TEMPORARY_FILE_PATTERN.test(segments[segments.length - 1])) return null;
+
+    // The manifest describes the project and is not one of its files
+    const fileName = filePath.join("/");
+    if (fileName === PROJECT_MANIFEST_FILE) return null;
+
+    return { projectName, fileName };
+  }
+}
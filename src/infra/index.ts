@@ -1,5 +1,8 @@
 export * from "./filesystem/index.js";
 export * from "./vector/index.js";
+export * from "./embeddings/index.js";
+export * from "./keyword/index.js";
+export * from "./links/index.js";
 export * from "./parsers/index.js";
 export * from "./llm/index.js";
 export * from "./services/index.js";
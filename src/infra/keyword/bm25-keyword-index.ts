@@ -0,0 +1,273 @@
+import fs from "fs-extra";
+import path from "path";
+import {
+  KeywordHit,
+  KeywordIndex,
+  KeywordSearchOptions,
+} from "../../data/protocols/keyword-index.js";
+import { IndexedFileRef } from "../../data/protocols/vector-repository.js";
+import { writeFileAtomic } from "../filesystem/atomic-write.js";
+import { LOCK_DIRECTORY } from "../filesystem/constants.js";
+import { FileLock } from "../filesystem/file-lock.js";
+import { TextAnalyzer } from "./text-analyzer.js";
+
+interface KeywordDocument {
+  projectName: string;
+  fileName: string;
+  chunkIndex: number;
+  contentHash?: string;
+  length: number;
+  terms: Record<string, number>;
+}
+
+interface KeywordIndexFile {
+  version: number;
+  documents: KeywordDocument[];
+}
+
+const FILE_FORMAT_VERSION = 1;
+
+// Standard BM25 parameters: term frequency saturation and length normalization
+const K1 = 1.2;
+const B = 0.75;
+
+/**
+ * File-backed inverted index ranking chunks with BM25. Postings are kept in
+ * memory and the documents are persisted as a single JSON file after every
+ * mutation. Several processes may share the file: each save merges the
+ * files this instance changed into what is on disk, under a lock.
+ */
+export class Bm25KeywordIndex implements KeywordIndex {
+  private documents = new Map<string, KeywordDocument>();
+  private postings = new Map<string, Map<string, number>>();
+  private fileDocuments = new Map<string, string[]>();
+  private totalLength = 0;
+  private changedFiles = new Set<string>();
+  private loading: Promise<void> | null = null;
+  private pendingSave: Promise<void> = Promise.resolve();
+
+  /**
+   * Creates a new Bm25KeywordIndex
+   * @param filePath The JSON file the index is persisted to
+   * @param analyzer Tokenizer shared by documents and queries
+   * @param fileLock Lock serializing saves across processes
+   */
+  constructor(
+    private readonly filePath: string,
+    private readonly analyzer: TextAnalyzer = new TextAnalyzer(),
+    private readonly fileLock: FileLock = new FileLock(
+      path.join(path.dirname(filePath), LOCK_DIRECTORY)
+    )
+  ) {}
+
+  async load(): Promise<void> {
+    // Concurrent callers share one read so documents are never added twice
+    if (!this.loading) {
+      this.loading = this.readFromDisk().catch((error) => {
+        this.loading = null;
+        throw error;
+      });
+    }
+
+    return this.loading;
+  }
+
+  async indexFile(
+    projectName: string,
+    fileName: string,
+    chunks: string[],
+    contentHash?: string
+  ): Promise<void> {
+    await this.load();
+
+    this.removeDocuments(projectName, fileName);
+    this.changedFiles.add(this.fileKey(projectName, fileName));
+    chunks.forEach((text, chunkIndex) => {
+      const terms: Record<string, number> = {};
+      const tokens = this.analyzer.analyze(text);
+      for (const token of tokens) {
+        terms[token] = (terms[token] || 0) + 1;
+      }
+
+      this.addDocument({
+        projectName,
+        fileName,
+        chunkIndex,
+        contentHash,
+        length: tokens.length,
+        terms,
+      });
+    });
+
+    await this.save();
+  }
+
+  async removeFile(projectName: string, fileName: string): Promise<void> {
+    await this.load();
+
+    if (this.removeDocuments(projectName, fileName)) {
+      this.changedFiles.add(this.fileKey(projectName, fileName));
+      await this.save();
+    }
+  }
+
+  async listIndexedFiles(projectName?: string): Promise<IndexedFileRef[]> {
+    await this.load();
+
+    return Array.from(this.fileDocuments.values())
+      .map((keys) => this.documents.get(keys[0])!)
+      .filter((document) => !projectName || document.projectName === projectName)
+      .map((document) => ({
+        projectName: document.projectName,
+        fileName: document.fileName,
+        contentHash: document.contentHash ?? "",
+      }));
+  }
+
+  async search(
+    query: string,
+    options: KeywordSearchOptions = {}
+  ): Promise<KeywordHit[]> {
+    await this.load();
+
+    const { projectName, limit = 20 } = options;
+    const documentCount = this.documents.size;
+    if (documentCount === 0) return [];
+
+    const averageLength = this.totalLength / documentCount || 1;
+    const scores = new Map<string, number>();
+
+    for (const term of new Set(this.analyzer.analyze(query))) {
+      const posting = this.postings.get(term);
+      if (!posting) continue;
+
+      const idf = Math.log(
+        1 + (documentCount - posting.size + 0.5) / (posting.size + 0.5)
+      );
+
+      for (const [key, frequency] of posting) {
+        const document = this.documents.get(key)!;
+        if (projectName && document.projectName !== projectName) continue;
+
+        const normalization = K1 * (1 - B + (B * document.length) / averageLength);
+        const score = (idf * frequency * (K1 + 1)) / (frequency + normalization);
+        scores.set(key, (scores.get(key) || 0) + score);
+      }
+    }
+
+    return Array.from(scores.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, limit)
+      .map(([key, score]) => {
+        const { projectName, fileName, chunkIndex } = this.documents.get(key)!;
+        return { projectName, fileName, chunkIndex, score };
+      });
+  }
+
+  private addDocument(document: KeywordDocument): void {
+    const key = this.documentKey(document.projectName, document.fileName, document.chunkIndex);
+    const fileKey = this.fileKey(document.projectName, document.fileName);
+
+    this.documents.set(key, document);
+    this.fileDocuments.set(fileKey, [...(this.fileDocuments.get(fileKey) || []), key]);
+    this.totalLength += document.length;
+
+    for (const [term, frequency] of Object.entries(document.terms)) {
+      let posting = this.postings.get(term);
+      if (!posting) {
+        posting = new Map();
+        this.postings.set(term, posting);
+      }
+      posting.set(key, frequency);
+    }
+  }
+
+  private removeDocuments(projectName: string, fileName: string): boolean {
+    const fileKey = this.fileKey(projectName, fileName);
+    const keys = this.fileDocuments.get(fileKey);
+    if (!keys) return false;
+
+    for (const key of keys) {
+      const document = this.documents.get(key)!;
+      this.documents.delete(key);
+      this.totalLength -= document.length;
+
+      for (const term of Object.keys(document.terms)) {
+        const posting = this.postings.get(term)!;
+        posting.delete(key);
+        if (posting.size === 0) this.postings.delete(term);
+      }
+    }
+    this.fileDocuments.delete(fileKey);
+
+    return true;
+  }
+
+  private documentKey(projectName: string, fileName: string, chunkIndex: number): string {
+    return `${projectName}\u0000${fileName}\u0000${chunkIndex}`;
+  }
+
+  private fileKey(projectName: string, fileName: string): string {
+    return `${projectName}\u0000${fileName}`;
+  }
+
+  private async readFromDisk(): Promise<void> {
+    for (const document of await this.readDocuments()) {
+      this.addDocument(document);
+    }
+  }
+
+  private async readDocuments(): Promise<KeywordDocument[]> {
+    if (!(await fs.pathExists(this.filePath))) return [];
+
+    const data: KeywordIndexFile = await fs.readJson(this.filePath);
+    return data.documents || [];
+  }
+
+  private async save(): Promise<void> {
+    // Serialize writes so concurrent mutations never interleave on disk
+    this.pendingSave = this.pendingSave
+      .catch(() => undefined)
+      .then(() => this.writeToDisk());
+
+    return this.pendingSave;
+  }
+
+  private async writeToDisk(): Promise<void> {
+    await fs.ensureDir(path.dirname(this.filePath));
+
+    await this.fileLock.withLock(this.filePath, async () => {
+      this.merge(await this.readDocuments());
+
+      const data: KeywordIndexFile = {
+        version: FILE_FORMAT_VERSION,
+        documents: Array.from(this.documents.values()),
+      };
+      await writeFileAtomic(this.filePath, JSON.stringify(data));
+    });
+  }
+
+  /**
+   * Adopts what other processes saved, except for the files changed here
+   * since the last save, which keep their documents from memory
+   */
+  private merge(stored: KeywordDocument[]): void {
+    const changed = Array.from(this.changedFiles).flatMap((fileKey) =>
+      (this.fileDocuments.get(fileKey) || []).map((key) => this.documents.get(key)!)
+    );
+    const kept = stored.filter(
+      (document) =>
+        !this.changedFiles.has(this.fileKey(document.projectName, document.fileName))
+    );
+
+    this.documents.clear();
+    this.postings.clear();
+    this.fileDocuments.clear();
+    this.totalLength = 0;
+    this.changedFiles.clear();
+
+    for (const document of [...kept, ...changed]) {
+      this.addDocument(document);
+    }
+  }
+}
@@ -0,0 +1,2 @@
+export * from "./text-analyzer.js";
+export * from "./bm25-keyword-index.js";
@@ -0,0 +1,90 @@
+export const STOPWORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "but", "by", "for", "from",
+  "has", "have", "how", "i", "if", "in", "into", "is", "it", "its", "of",
+  "on", "or", "so", "that", "the", "their", "then", "there", "these",
+  "this", "to", "was", "we", "were", "what", "when", "where", "which",
+  "while", "who", "why", "will", "with", "you", "your",
+]);
+
+// Words joined by these characters are also indexed as one identifier
+const IDENTIFIER_PATTERN = /[\p{L}\p{N}_]+(?:[-.:/][\p{L}\p{N}_]+)*/gu;
+const PART_SEPARATOR = /[-.:/_]+/;
+const CAMEL_CASE_BOUNDARY = /(?<=\p{Ll})(?=\p{Lu})|(?<=\p{L})(?=\p{N})|(?<=\p{N})(?=\p{L})/u;
+
+// Checked in order; the first matching suffix is stripped
+const SUFFIXES: Array<[string, string]> = [
+  ["ational", "ate"],
+  ["ization", "ize"],
+  ["fulness", "ful"],
+  ["iveness", "ive"],
+  ["ations", "ate"],
+  ["ation", "ate"],
+  ["ments", "ment"],
+  ["ingly", ""],
+  ["ies", "y"],
+  ["sses", "ss"],
+  ["ing", ""],
+  ["edly", ""],
+  ["ed", ""],
+  ["ly", ""],
+  ["s", ""],
+];
+
+/**
+ * Turns text into search terms: identifiers such as `ERR_CONN_RESET`,
+ * `getUserById` or `JIRA-1234` are kept whole and also split into their
+ * parts, which are lowercased, stopword-filtered and stemmed
+ */
+export class TextAnalyzer {
+  analyze(text: string): string[] {
+    const terms: string[] = [];
+
+    for (const raw of text.match(IDENTIFIER_PATTERN) || []) {
+      const pieces = raw
+        .split(PART_SEPARATOR)
+        .flatMap((part) => part.split(CAMEL_CASE_BOUNDARY))
+        .filter(Boolean);
+      const parts = pieces
+        .map((part) => part.toLowerCase())
+        .filter((part) => !STOPWORDS.has(part) && (part.length > 1 || /\d/.test(part)));
+
+      // Compound identifiers are only findable reliably as a whole
+      if (pieces.length > 1) {
+        terms.push(raw.toLowerCase());
+      }
+      for (const part of parts) {
+        terms.push(this.stem(part));
+      }
+    }
+
+    return terms;
+  }
+
+  /**
+   * Light suffix-stripping stemmer in the spirit of Porter's algorithm
+   */
+  stem(word: string): string {
+    if (word.length <= 3 || /\d/.test(word)) return word;
+
+    let stemmed = word;
+    for (const [suffix, replacement] of SUFFIXES) {
+      if (suffix === "s" && /(ss|us|is)$/.test(word)) break;
+      if (word.endsWith(suffix) && word.length - suffix.length >= 3) {
+        stemmed = word.slice(0, -suffix.length) + replacement;
+        break;
+      }
+    }
+
+    // "running" -> "runn" -> "run"
+    if (stemmed !== word && /([^aeiouls])\1$/.test(stemmed)) {
+      stemmed = stemmed.slice(0, -1);
+    }
+
+    // "cache" and "caching" share "cach"
+    if (stemmed.length > 4 && stemmed.endsWith("e")) {
+      stemmed = stemmed.slice(0, -1);
+    }
+
+    return stemmed;
+  }
+}
@@ -0,0 +1 @@
+export * from "./json-link-graph.js";
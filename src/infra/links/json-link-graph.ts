@@ -0,0 +1,211 @@
+import fs from "fs-extra";
+import path from "path";
+import { LinkGraph } from "../../data/protocols/link-graph.js";
+import { FileLink } from "../../domain/entities/index.js";
+import { writeFileAtomic } from "../filesystem/atomic-write.js";
+import { LOCK_DIRECTORY } from "../filesystem/constants.js";
+import { FileLock } from "../filesystem/file-lock.js";
+
+interface LinkGraphFile {
+  version: number;
+  links: FileLink[];
+}
+
+const FILE_FORMAT_VERSION = 1;
+
+/**
+ * File-backed graph of the links between memory bank files. Links are kept
+ * in memory by source and by target file and persisted as a single JSON file
+ * after every mutation. Several processes may share the file: each save
+ * merges the sources this instance changed into what is on disk, under a
+ * lock.
+ */
+export class JsonLinkGraph implements LinkGraph {
+  private linksBySource = new Map<string, FileLink[]>();
+  private sourcesByTarget = new Map<string, Set<string>>();
+  private changedSources = new Set<string>();
+  private loading: Promise<void> | null = null;
+  private pendingSave: Promise<void> = Promise.resolve();
+
+  /**
+   * Creates a new JsonLinkGraph
+   * @param filePath The JSON file the graph is persisted to
+   * @param fileLock Lock serializing saves across processes
+   */
+  constructor(
+    private readonly filePath: string,
+    private readonly fileLock: FileLock = new FileLock(
+      path.join(path.dirname(filePath), LOCK_DIRECTORY)
+    )
+  ) {}
+
+  async load(): Promise<void> {
+    // Concurrent callers share one read so links are never added twice
+    if (!this.loading) {
+      this.loading = this.readFromDisk().catch((error) => {
+        this.loading = null;
+        throw error;
+      });
+    }
+
+    return this.loading;
+  }
+
+  async setLinks(
+    projectName: string,
+    fileName: string,
+    links: FileLink[]
+  ): Promise<void> {
+    await this.load();
+
+    const removed = this.removeLinks(projectName, fileName);
+    if (!removed && links.length === 0) return;
+
+    this.changedSources.add(this.fileKey(projectName, fileName));
+    this.addLinks(projectName, fileName, links);
+    await this.save();
+  }
+
+  async removeFile(projectName: string, fileName: string): Promise<void> {
+    await this.load();
+
+    if (this.removeLinks(projectName, fileName)) {
+      this.changedSources.add(this.fileKey(projectName, fileName));
+      await this.save();
+    }
+  }
+
+  async linksFrom(projectName: string, fileName?: string): Promise<FileLink[]> {
+    await this.load();
+
+    if (fileName !== undefined) {
+      return [...(this.linksBySource.get(this.fileKey(projectName, fileName)) || [])];
+    }
+
+    return Array.from(this.linksBySource.values())
+      .flat()
+      .filter((link) => link.projectName === projectName);
+  }
+
+  async linksTo(projectName: string, fileName?: string): Promise<FileLink[]> {
+    await this.load();
+
+    const targets =
+      fileName !== undefined
+        ? [this.fileKey(projectName, fileName)]
+        : Array.from(this.sourcesByTarget.keys()).filter((key) =>
+            key.startsWith(this.fileKey(projectName, ""))
+          );
+
+    const sources = new Set(targets.flatMap((key) => [...(this.sourcesByTarget.get(key) || [])]));
+    return Array.from(sources)
+      .flatMap((source) => this.linksBySource.get(source) || [])
+      .filter(
+        (link) =>
+          link.targetProject === projectName &&
+          (fileName === undefined || link.targetFile === fileName)
+      );
+  }
+
+  private addLinks(projectName: string, fileName: string, links: FileLink[]): void {
+    if (links.length === 0) return;
+
+    const source = this.fileKey(projectName, fileName);
+    this.linksBySource.set(source, links);
+
+    for (const link of links) {
+      const target = this.fileKey(link.targetProject, link.targetFile);
+      let sources = this.sourcesByTarget.get(target);
+      if (!sources) {
+        sources = new Set();
+        this.sourcesByTarget.set(target, sources);
+      }
+      sources.add(source);
+    }
+  }
+
+  private removeLinks(projectName: string, fileName: string): boolean {
+    const source = this.fileKey(projectName, fileName);
+    const links = this.linksBySource.get(source);
+    if (!links) return false;
+
+    for (const link of links) {
+      const target = this.fileKey(link.targetProject, link.targetFile);
+      const sources = this.sourcesByTarget.get(target);
+      sources?.delete(source);
+      if (sources?.size === 0) this.sourcesByTarget.delete(target);
+    }
+    this.linksBySource.delete(source);
+
+    return true;
+  }
+
+  private fileKey(projectName: string, fileName: string): string {
+    return `${projectName}\u0000${fileName}`;
+  }
+
+  private async readFromDisk(): Promise<void> {
+    this.addAll(await this.readLinks());
+  }
+
+  private async readLinks(): Promise<FileLink[]> {
+    if (!(await fs.pathExists(this.filePath))) return [];
+
+    const data: LinkGraphFile = await fs.readJson(this.filePath);
+    return data.links || [];
+  }
+
+  private addAll(links: FileLink[]): void {
+    const bySource = new Map<string, FileLink[]>();
+    for (const link of links) {
+      const source = this.fileKey(link.projectName, link.fileName);
+      bySource.set(source, [...(bySource.get(source) || []), link]);
+    }
+
+    for (const links of bySource.values()) {
+      this.addLinks(links[0].projectName, links[0].fileName, links);
+    }
+  }
+
+  private async save(): Promise<void> {
+    // Serialize writes so concurrent mutations never interleave on disk
+    this.pendingSave = this.pendingSave
+      .catch(() => undefined)
+      .then(() => this.writeToDisk());
+
+    return this.pendingSave;
+  }
+
+  private async writeToDisk(): Promise<void> {
+    await fs.ensureDir(path.dirname(this.filePath));
+
+    await this.fileLock.withLock(this.filePath, async () => {
+      this.merge(await this.readLinks());
+
+      const data: LinkGraphFile = {
+        version: FILE_FORMAT_VERSION,
+        links: Array.from(this.linksBySource.values()).flat(),
+      };
+      await writeFileAtomic(this.filePath, JSON.stringify(data));
+    });
+  }
+
+  /**
+   * Adopts what other processes saved, except for the sources changed here
+   * since the last save, which keep their links from memory
+   */
+  private merge(stored: FileLink[]): void {
+    const changed = Array.from(this.changedSources).flatMap(
+      (source) => this.linksBySource.get(source) || []
+    );
+    const kept = stored.filter(
+      (link) => !this.changedSources.has(this.fileKey(link.projectName, link.fileName))
+    );
+
+    this.linksBySource.clear();
+    this.sourcesByTarget.clear();
+    this.changedSources.clear();
+
+    this.addAll([...kept, ...changed]);
+  }
+}
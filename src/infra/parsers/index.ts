@@ -1 +1,7 @@
-export * from "./yaml-front-matter-parser.js";
\ No newline at end of file
+export * from "./yaml-front-matter-parser.js";
+export * from "./yaml-front-matter-editor.js";
+export * from "./yaml-front-matter-reader.js";
+export * from "./markdown-chunker.js";
+export * from "./markdown-file-editor.js";
+export * from "./unified-diff-generator.js";
+export * from "./markdown-link-parser.js";
@@ -0,0 +1,245 @@
+import { FileChunk } from "../../domain/entities/index.js";
+
+interface MarkdownChunkerOptions {
+  /**
+   * Upper bound for the estimated tokens of a chunk
+   */
+  maxTokens?: number;
+
+  /**
+   * Estimated tokens repeated from the end of the previous chunk of a section
+   */
+  overlapTokens?: number;
+}
+
+interface Line {
+  text: string;
+  number: number;
+  tokens: number;
+}
+
+interface Section {
+  sectionPath: string[];
+  lines: Line[];
+}
+
+// Inclusive range of line indexes within a section
+interface LineRange {
+  start: number;
+  end: number;
+}
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+const TOKENS_PER_WORD = 4 / 3;
+
+/**
+ * Splits markdown into heading-aware chunks for indexing. Every chunk stays
+ * within one section, prefers paragraph boundaries and records the heading
+ * path and line range it was taken from.
+ */
+export class MarkdownChunker {
+  private readonly maxTokens: number;
+  private readonly overlapTokens: number;
+
+  constructor(options: MarkdownChunkerOptions = {}) {
+    this.maxTokens = options.maxTokens ?? 256;
+    if (!Number.isInteger(this.maxTokens) || this.maxTokens <= 0) {
+      throw new Error(`Invalid chunk size: ${options.maxTokens}`);
+    }
+
+    // Overlap beyond half a chunk would make every chunk mostly repetition
+    this.overlapTokens = Math.max(
+      0,
+      Math.min(options.overlapTokens ?? 32, Math.floor(this.maxTokens / 2))
+    );
+  }
+
+  /**
+   * Splits markdown content into chunks
+   * @param content The markdown body
+   * @param lineOffset Lines preceding the body in the file, e.g. front matter
+   */
+  chunk(content: string, lineOffset = 0): FileChunk[] {
+    const chunks: FileChunk[] = [];
+
+    for (const section of this.splitSections(content, lineOffset)) {
+      for (const range of this.packSection(section.lines)) {
+        const lines = section.lines.slice(range.start, range.end + 1);
+        chunks.push({
+          index: chunks.length,
+          content: lines.map((line) => line.text).join("\n"),
+          sectionPath: section.sectionPath,
+          startLine: lines[0].number,
+          endLine: lines[lines.length - 1].number,
+          tokens: lines.reduce((sum, line) => sum + line.tokens, 0),
+        });
+      }
+    }
+
+    return chunks;
+  }
+
+  static estimateTokens(text: string): number {
+    const words = text.split(/\s+/).filter(Boolean).length;
+    return Math.ceil(words * TOKENS_PER_WORD);
+  }
+
+  private splitSections(content: string, lineOffset: number): Section[] {
+    const sections: Section[] = [];
+    const headings: string[] = [];
+    let current: Section = { sectionPath: [], lines: [] };
+    let fence: string | null = null;
+
+    content.split(/\r?\n/).forEach((text, i) => {
+      const line: Line = {
+        text,
+        number: lineOffset + i + 1,
+        tokens: MarkdownChunker.estimateTokens(text),
+      };
+
+      const fenceMatch = text.match(FENCE_PATTERN);
+      if (fenceMatch) {
+        if (!fence) fence = fenceMatch[1];
+        else if (fenceMatch[1] === fence) fence = null;
+      }
+
+      const heading = !fence && !fenceMatch ? text.match(HEADING_PATTERN) : null;
+      if (!heading) {
+        current.lines.push(line);
+        return;
+      }
+
+      const level = heading[1].length;
+      headings.length = level - 1;
+      headings[level - 1] = heading[2];
+
+      // Headings without a body of their own are folded into the next section
+      if (this.hasBody(current)) {
+        sections.push(current);
+        current = { sectionPath: [], lines: [] };
+      }
+      current = {
+        sectionPath: headings.filter(Boolean),
+        lines: [...current.lines, line],
+      };
+    });
+
+    if (current.lines.some((line) => line.text.trim())) {
+      sections.push(current);
+    }
+
+    return sections;
+  }
+
+  private hasBody(section: Section): boolean {
+    return section.lines.some(
+      (line) => line.text.trim() && !HEADING_PATTERN.test(line.text)
+    );
+  }
+
+  private packSection(lines: Line[]): LineRange[] {
+    const chunks: LineRange[] = [];
+    let current: LineRange | null = null;
+
+    for (const piece of this.splitPieces(lines)) {
+      if (
+        current &&
+        this.tokensOf(lines, current) + this.tokensOf(lines, piece) > this.maxTokens
+      ) {
+        chunks.push(current);
+        const overlap = Math.min(
+          this.overlapTokens,
+          this.maxTokens - this.tokensOf(lines, piece)
+        );
+        current = {
+          start: this.overlapStart(lines, current, overlap) ?? piece.start,
+          end: piece.end,
+        };
+      } else {
+        current = current ? { start: current.start, end: piece.end } : piece;
+      }
+    }
+    if (current) chunks.push(current);
+
+    return chunks
+      .map((range) => this.trimBlankLines(lines, range))
+      .filter((range): range is LineRange => range !== null);
+  }
+
+  /**
+   * Paragraph-sized line ranges; paragraphs above the cap are split by line,
+   * leaving room for the overlap. A single line longer than the cap is kept whole.
+   */
+  private splitPieces(lines: Line[]): LineRange[] {
+    const pieces: LineRange[] = [];
+    let start = 0;
+    let fenced = false;
+
+    for (let i = 0; i < lines.length; i++) {
+      if (FENCE_PATTERN.test(lines[i].text)) fenced = !fenced;
+
+      const endOfParagraph =
+        i === lines.length - 1 ||
+        (!fenced && !lines[i].text.trim() && lines[i + 1].text.trim() !== "");
+      if (!endOfParagraph) continue;
+
+      pieces.push(...this.splitOversized(lines, { start, end: i }));
+      start = i + 1;
+    }
+
+    return pieces;
+  }
+
+  private splitOversized(lines: Line[], range: LineRange): LineRange[] {
+    if (this.tokensOf(lines, range) <= this.maxTokens) return [range];
+
+    const cap = this.maxTokens - this.overlapTokens;
+    const pieces: LineRange[] = [];
+    let start = range.start;
+    let tokens = 0;
+
+    for (let i = range.start; i <= range.end; i++) {
+      if (i > start && tokens + lines[i].tokens > cap) {
+        pieces.push({ start, end: i - 1 });
+        start = i;
+        tokens = 0;
+      }
+      tokens += lines[i].tokens;
+    }
+    pieces.push({ start, end: range.end });
+
+    return pieces;
+  }
+
+  // First line of the trailing lines of a chunk repeated in the next one
+  private overlapStart(
+    lines: Line[],
+    range: LineRange,
+    maxTokens: number
+  ): number | null {
+    let start: number | null = null;
+    let tokens = 0;
+    for (let i = range.end; i > range.start; i--) {
+      tokens += lines[i].tokens;
+      if (tokens > maxTokens) break;
+      start = i;
+    }
+
+    return start;
+  }
+
+  private trimBlankLines(lines: Line[], range: LineRange): LineRange | null {
+    let { start, end } = range;
+    while (start <= end && !lines[start].text.trim()) start++;
+    while (end >= start && !lines[end].text.trim()) end--;
+
+    return start <= end ? { start, end } : null;
+  }
+
+  private tokensOf(lines: Line[], range: LineRange): number {
+    let tokens = 0;
+    for (let i = range.start; i <= range.end; i++) tokens += lines[i].tokens;
+    return tokens;
+  }
+}
@@ -0,0 +1,270 @@
+import { FileEditor } from "../../data/protocols/file-editor.js";
+import { SectionFinder } from "../../data/protocols/section-finder.js";
+import {
+  FileEdit,
+  FileEditError,
+  FileReadError,
+  LineRange,
+} from "../../domain/entities/index.js";
+import { YamlFrontMatterParser } from "./yaml-front-matter-parser.js";
+
+interface Heading {
+  line: number;
+  level: number;
+  path: string[];
+}
+
+interface Hunk {
+  oldStart: number;
+  oldLines: string[];
+  newLines: string[];
+}
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+const HUNK_HEADER_PATTERN = /^@@ -(\d+)(?:,\d+)? \+\d+(?:,\d+)? @@/;
+const SECTION_OPERATIONS = ["append", "prepend", "replace_section", "insert_after_heading"];
+
+/**
+ * Applies section-level and patch edits to markdown files. Section edits only
+ * touch the body, so the front matter is kept byte for byte; patches apply to
+ * the file as stored, with line numbers counted from its first line.
+ */
+export class MarkdownFileEditor implements FileEditor, SectionFinder {
+  applyEdit(content: string, edit: FileEdit): string {
+    // Edits arrive from tool calls, so their shape is checked here
+    if (edit.operation === "apply_patch") {
+      if (typeof edit.patch !== "string") {
+        throw new FileEditError("The apply_patch edit requires a patch");
+      }
+      return this.applyPatch(content, edit.patch);
+    }
+    if (!SECTION_OPERATIONS.includes(edit.operation)) {
+      throw new FileEditError(`Unknown edit operation: ${edit.operation}`);
+    }
+    if (typeof edit.content !== "string") {
+      throw new FileEditError(`The ${edit.operation} edit requires content`);
+    }
+
+    const { frontMatter, body } = this.splitFrontMatter(content);
+    return frontMatter + this.editBody(body, edit);
+  }
+
+  findSection(content: string, headingPath: string[]): LineRange {
+    const { frontMatter, body } = this.splitFrontMatter(content);
+    const lines = body.split("\n");
+
+    let heading: Heading;
+    try {
+      heading = this.findHeading(lines, headingPath);
+    } catch (error) {
+      throw new FileReadError((error as Error).message);
+    }
+
+    // Blank lines before the next heading aren't part of the section
+    let end = this.sectionEnd(lines, heading);
+    while (end - 1 > heading.line && lines[end - 1].trim() === "") {
+      end--;
+    }
+
+    const offset = frontMatter.split("\n").length - 1;
+    return { start: offset + heading.line + 1, end: offset + end };
+  }
+
+  private editBody(
+    body: string,
+    edit: Exclude<FileEdit, { operation: "apply_patch" }>
+  ): string {
+    switch (edit.operation) {
+      case "append": {
+        const separator = body && !body.endsWith("\n") ? "\n" : "";
+        return `${body}${separator}${this.block(edit.content)}\n`;
+      }
+
+      case "prepend":
+        return `${this.block(edit.content)}\n${body}`;
+
+      case "replace_section": {
+        const lines = body.split("\n");
+        const heading = this.findHeading(lines, edit.headingPath);
+        const end = this.sectionEnd(lines, heading);
+        const replacement = this.block(edit.content).split("\n");
+
+        // Keep the blank line after the heading, the one before the next
+        // heading and the final newline
+        const spacing =
+          heading.line + 1 < end && lines[heading.line + 1] === "" ? [""] : [];
+        const rest =
+          end < lines.length
+            ? ["", ...lines.slice(end)]
+            : body.endsWith("\n")
+              ? [""]
+              : [];
+        return [
+          ...lines.slice(0, heading.line + 1),
+          ...spacing,
+          ...replacement,
+          ...rest,
+        ].join("\n");
+      }
+
+      case "insert_after_heading": {
+        const lines = body.split("\n");
+        const heading = this.findHeading(lines, edit.headingPath);
+        const inserted = this.block(edit.content).split("\n");
+
+        return [
+          ...lines.slice(0, heading.line + 1),
+          ...inserted,
+          ...lines.slice(heading.line + 1),
+        ].join("\n");
+      }
+    }
+  }
+
+  private splitFrontMatter(content: string): { frontMatter: string; body: string } {
+    if (!YamlFrontMatterParser.hasFrontMatter(content)) {
+      return { frontMatter: "", body: content };
+    }
+
+    const { content: body } = YamlFrontMatterParser.parse(content);
+    if (body.length === content.length || !content.endsWith(body)) {
+      return { frontMatter: "", body: content };
+    }
+
+    return { frontMatter: content.slice(0, content.length - body.length), body };
+  }
+
+  private findHeading(lines: string[], headingPath: string[]): Heading {
+    const wanted = (headingPath ?? []).map((title) => String(title).trim());
+    if (wanted.length === 0 || wanted.some((title) => !title)) {
+      throw new FileEditError("A heading path must name at least one heading");
+    }
+
+    // A heading matches when its path ends with the requested one
+    const matches = this.headings(lines).filter(
+      ({ path }) =>
+        path.length >= wanted.length &&
+        wanted.every((title, i) => path[path.length - wanted.length + i] === title)
+    );
+
+    if (matches.length === 0) {
+      throw new FileEditError(`Heading not found: ${wanted.join(" > ")}`);
+    }
+    if (matches.length > 1) {
+      throw new FileEditError(
+        `Heading is ambiguous: ${wanted.join(" > ")} matches ${matches.length} sections; include its parent headings`
+      );
+    }
+
+    return matches[0];
+  }
+
+  private headings(lines: string[]): Heading[] {
+    const headings: Heading[] = [];
+    const stack: Array<{ level: number; title: string }> = [];
+    let inFence = false;
+
+    lines.forEach((text, line) => {
+      if (FENCE_PATTERN.test(text)) {
+        inFence = !inFence;
+        return;
+      }
+      const match = !inFence && text.match(HEADING_PATTERN);
+      if (!match) return;
+
+      const level = match[1].length;
+      while (stack.length > 0 && stack[stack.length - 1].level >= level) {
+        stack.pop();
+      }
+      stack.push({ level, title: match[2].trim() });
+
+      headings.push({ line, level, path: stack.map(({ title }) => title) });
+    });
+
+    return headings;
+  }
+
+  // Index of the line ending the section: the next heading at the same or a higher level
+  private sectionEnd(lines: string[], heading: Heading): number {
+    const next = this.headings(lines).find(
+      ({ line, level }) => line > heading.line && level <= heading.level
+    );
+    return next ? next.line : lines.length;
+  }
+
+  private applyPatch(content: string, patch: string): string {
+    const hunks = this.parseHunks(patch);
+    if (hunks.length === 0) {
+      throw new FileEditError("The patch contains no hunks");
+    }
+
+    const lines = content.split("\n");
+    let offset = 0;
+
+    hunks.forEach((hunk, i) => {
+      // A hunk without old lines inserts after its start line
+      const start = hunk.oldLines.length > 0 ? hunk.oldStart - 1 : hunk.oldStart;
+      const at = this.locate(lines, hunk.oldLines, Math.max(0, start + offset));
+      if (at === -1) {
+        throw new FileEditError(
+          `Patch hunk ${i + 1} (@@ -${hunk.oldStart}) does not apply: its context is not in the file`
+        );
+      }
+
+      lines.splice(at, hunk.oldLines.length, ...hunk.newLines);
+      offset = at - start + hunk.newLines.length - hunk.oldLines.length;
+    });
+
+    return lines.join("\n");
+  }
+
+  private parseHunks(patch: string): Hunk[] {
+    const hunks: Hunk[] = [];
+    let hunk: Hunk | null = null;
+
+    for (const line of patch.replace(/\n+$/, "").split("\n")) {
+      const header = line.match(HUNK_HEADER_PATTERN);
+      if (header) {
+        hunk = { oldStart: parseInt(header[1]), oldLines: [], newLines: [] };
+        hunks.push(hunk);
+        continue;
+      }
+      // File headers and anything before the first hunk
+      if (!hunk || line.startsWith("\\")) continue;
+
+      const text = line.slice(1);
+      if (line.startsWith("-")) {
+        hunk.oldLines.push(text);
+      } else if (line.startsWith("+")) {
+        hunk.newLines.push(text);
+      } else {
+        // Context; editors often strip the space from blank context lines
+        hunk.oldLines.push(text);
+        hunk.newLines.push(text);
+      }
+    }
+
+    return hunks;
+  }
+
+  // Position of the old lines closest to where the hunk expects them, or -1
+  private locate(lines: string[], oldLines: string[], expected: number): number {
+    const matchesAt = (at: number) =>
+      at >= 0 &&
+      at + oldLines.length <= lines.length &&
+      oldLines.every((text, i) => lines[at + i] === text);
+
+    for (let distance = 0; distance <= lines.length; distance++) {
+      if (matchesAt(expected - distance)) return expected - distance;
+      if (matchesAt(expected + distance)) return expected + distance;
+    }
+
+    return -1;
+  }
+
+  // Edit content as lines, without the trailing newline
+  private block(content: string): string {
+    return content.replace(/\n+$/, "");
+  }
+}
@@ -0,0 +1,287 @@
+import path from "path";
+import { LinkParser } from "../../data/protocols/link-parser.js";
+import { FileLink, FileLocation } from "../../domain/entities/index.js";
+
+// A link as found in the content; offsets are into the whole content
+interface LinkMatch {
+  kind: FileLink["kind"];
+  start: number;
+  end: number;
+  line: number;
+
+  /**
+   * The part naming the file, before any #heading; rewrites replace just this
+   */
+  target: string;
+  targetStart: number;
+  heading?: string;
+}
+
+// [[target#heading|alias]]
+const WIKI_LINK = /\[\[([^[\]|#\n]*)(?:#([^[\]|\n]*))?(?:\|[^[\]\n]*)?\]\]/g;
+
+// [label](destination "title"), but not ![image](destination)
+const MARKDOWN_LINK = /(!?)\[[^\]\n]*\]\(([^()\s]+)(?:\s+"[^"\n]*")?\)/g;
+
+const URL_SCHEME = /^[a-z][a-z0-9+.-]*:/i;
+const FENCE = /^\s*(```|~~~)/;
+const INLINE_CODE = /`[^`\n]*`/g;
+const MARKDOWN_EXTENSION = ".md";
+const PROJECT_SEPARATOR = ":";
+
+/**
+ * Finds links between memory bank files and re-writes them when files move.
+ *
+ * `[[file]]` and `[[folder/file]]` point to a file of the same project and
+ * `[[project:file]]` to a file of any project; ".md" may be left out. Only
+ * the explicit prefix names a project, so a link into a subfolder always
+ * stays in the project it is written in. Markdown links are relative
+ * to the linking file, so `../other-project/file.md` reaches another project.
+ * Links in front matter and code are ignored, as are URLs and images.
+ */
+export class MarkdownLinkParser implements LinkParser {
+  parseLinks(projectName: string, fileName: string, content: string): FileLink[] {
+    const links: FileLink[] = [];
+
+    for (const match of this.matches(content)) {
+      const target = this.resolve(match, { projectName, fileName });
+      if (!target) continue;
+
+      links.push({
+        projectName,
+        fileName,
+        targetProject: target.projectName,
+        targetFile: target.fileName,
+        ...(match.heading && { heading: match.heading }),
+        kind: match.kind,
+        text: content.slice(match.start, match.end),
+        line: match.line,
+      });
+    }
+
+    return links;
+  }
+
+  rewriteLinks(
+    content: string,
+    from: FileLocation,
+    to: FileLocation,
+    retarget: (target: FileLocation) => FileLocation | null = () => null
+  ): string {
+    let rewritten = content;
+
+    // Last link first so earlier offsets stay valid
+    for (const match of this.matches(content).reverse()) {
+      const target = this.resolve(match, from);
+      if (!target) continue;
+
+      const newTarget = retarget(target) ?? target;
+      const resolvedAtNewLocation = this.resolve(match, to);
+      if (resolvedAtNewLocation && this.sameFile(resolvedAtNewLocation, newTarget)) {
+        continue;
+      }
+
+      const targetEnd = match.targetStart + match.target.length;
+      rewritten =
+        rewritten.slice(0, match.targetStart) +
+        this.render(match, from, to, newTarget) +
+        rewritten.slice(targetEnd);
+    }
+
+    return rewritten;
+  }
+
+  private matches(content: string): LinkMatch[] {
+    const matches: LinkMatch[] = [];
+    const lines = content.split("\n");
+    const frontMatterLines = this.frontMatterLines(lines);
+
+    let offset = 0;
+    let fence: string | null = null;
+
+    lines.forEach((line, i) => {
+      const lineOffset = offset;
+      offset += line.length + 1;
+      if (i < frontMatterLines) return;
+
+      const fenceMarker = FENCE.exec(line)?.[1];
+      if (fenceMarker && (fence === null || fence === fenceMarker)) {
+        fence = fence === null ? fenceMarker : null;
+        return;
+      }
+      if (fence !== null) return;
+
+      // Same length as the line, so offsets still match the content
+      const text = line.replace(INLINE_CODE, (code) => " ".repeat(code.length));
+
+      for (const wiki of text.matchAll(WIKI_LINK)) {
+        matches.push({
+          kind: "wiki",
+          start: lineOffset + wiki.index!,
+          end: lineOffset + wiki.index! + wiki[0].length,
+          line: i + 1,
+          target: wiki[1],
+          targetStart: lineOffset + wiki.index! + 2,
+          ...(wiki[2]?.trim() && { heading: wiki[2].trim() }),
+        });
+      }
+
+      for (const link of text.matchAll(MARKDOWN_LINK)) {
+        const [whole, image, destination] = link;
+        if (image) continue;
+
+        const [target, heading] = this.splitHeading(destination);
+        matches.push({
+          kind: "markdown",
+          start: lineOffset + link.index!,
+          end: lineOffset + link.index! + whole.length,
+          line: i + 1,
+          target,
+          targetStart: lineOffset + link.index! + whole.indexOf("](") + 2,
+          ...(heading && { heading }),
+        });
+      }
+    });
+
+    return matches.sort((a, b) => a.start - b.start);
+  }
+
+  // The file a link reaches when written in the given file
+  private resolve(match: LinkMatch, from: FileLocation): FileLocation | null {
+    return match.kind === "wiki"
+      ? this.resolveWiki(match.target.trim(), from)
+      : this.resolveMarkdown(match.target, from);
+  }
+
+  private resolveWiki(target: string, from: FileLocation): FileLocation | null {
+    if (!target) return null;
+
+    const separator = this.projectSeparator(target);
+    const projectName = separator === -1 ? from.projectName : target.slice(0, separator);
+    const fileName = this.withExtension(
+      separator === -1 ? target : target.slice(separator + 1)
+    );
+
+    return this.location(projectName, fileName);
+  }
+
+  // Position of the colon ending a project prefix, or -1; colons after a
+  // folder belong to the file name
+  private projectSeparator(target: string): number {
+    const separator = target.indexOf(PROJECT_SEPARATOR);
+    return separator > 0 && !target.slice(0, separator).includes("/") ? separator : -1;
+  }
+
+  private resolveMarkdown(target: string, from: FileLocation): FileLocation | null {
+    if (!target || target.startsWith("/") || URL_SCHEME.test(target)) {
+      return null;
+    }
+
+    // Paths are relative to the linking file, inside the memory bank root
+    const resolved = path.posix.join(
+      from.projectName,
+      path.posix.dirname(from.fileName),
+      this.decode(target)
+    );
+    const separator = resolved.indexOf("/");
+    if (separator === -1) return null;
+
+    return this.location(resolved.slice(0, separator), resolved.slice(separator + 1));
+  }
+
+  private location(projectName: string, fileName: string): FileLocation | null {
+    const normalized = path.posix.normalize(fileName);
+    if (
+      !projectName ||
+      projectName === "." ||
+      projectName === ".." ||
+      projectName.includes("/") ||
+      !normalized ||
+      normalized === "." ||
+      normalized.startsWith("..") ||
+      normalized.startsWith("/")
+    ) {
+      return null;
+    }
+
+    return { projectName, fileName: normalized };
+  }
+
+  // The file part of a link to the target from its new location, in the
+  // style the link was written in at its old one
+  private render(
+    match: LinkMatch,
+    writtenAt: FileLocation,
+    location: FileLocation,
+    target: FileLocation
+  ): string {
+    if (match.kind === "wiki") {
+      const written = match.target.trim();
+      const fileName =
+        path.posix.extname(written) === "" && target.fileName.endsWith(MARKDOWN_EXTENSION)
+          ? target.fileName.slice(0, -MARKDOWN_EXTENSION.length)
+          : target.fileName;
+      const qualified =
+        this.projectSeparator(written) !== -1 || target.projectName !== location.projectName;
+
+      return qualified ? `${target.projectName}${PROJECT_SEPARATOR}${fileName}` : fileName;
+    }
+
+    const dir = path.posix.dirname(`${location.projectName}/${location.fileName}`);
+    let relative = path.posix.relative(dir, `${target.projectName}/${target.fileName}`);
+
+    // Links written through the memory bank root, naming the project, stay so
+    if (this.leavesProject(match.target, writtenAt) && !relative.startsWith("../")) {
+      relative = `${"../".repeat(dir.split("/").length)}${target.projectName}/${target.fileName}`;
+    }
+    if (match.target.startsWith("./") && !relative.startsWith("../")) {
+      relative = `./${relative}`;
+    }
+
+    // Markdown link targets cannot hold spaces
+    return this.decode(match.target) === match.target && !/\s/.test(relative)
+      ? relative
+      : encodeURI(relative);
+  }
+
+  // Whether a markdown link climbs above the project of the file it is in
+  private leavesProject(target: string, location: FileLocation): boolean {
+    const depth = path.posix.dirname(location.fileName).split("/").filter((dir) => dir !== ".").length;
+    const climbed = path.posix.normalize(this.decode(target)).match(/^(\.\.\/)*/)![0];
+
+    return climbed.length / "../".length > depth;
+  }
+
+  private splitHeading(destination: string): [string, string | undefined] {
+    const separator = destination.indexOf("#");
+    if (separator === -1) return [destination, undefined];
+
+    return [
+      destination.slice(0, separator),
+      this.decode(destination.slice(separator + 1)) || undefined,
+    ];
+  }
+
+  private withExtension(fileName: string): string {
+    return path.posix.extname(fileName) === "" ? `${fileName}${MARKDOWN_EXTENSION}` : fileName;
+  }
+
+  private decode(target: string): string {
+    try {
+      return decodeURIComponent(target);
+    } catch {
+      return target;
+    }
+  }
+
+  private frontMatterLines(lines: string[]): number {
+    if (lines[0]?.trimEnd() !== "---") return 0;
+
+    const closing = lines.findIndex((line, i) => i > 0 && line.trimEnd() === "---");
+    return closing === -1 ? 0 : closing + 1;
+  }
+
+  private sameFile(a: FileLocation, b: FileLocation): boolean {
+    return a.projectName === b.projectName && a.fileName === b.fileName;
+  }
+}
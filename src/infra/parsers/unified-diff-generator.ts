@@ -0,0 +1,174 @@
+import { DiffGenerator } from "../../data/protocols/diff-generator.js";
+
+type DiffLine = { kind: " " | "-" | "+"; text: string };
+
+// Lines as printed, and as compared
+type Lines = { texts: string[]; keys: string[] };
+
+// Unchanged lines shown around each change
+const CONTEXT_LINES = 3;
+
+const NO_NEWLINE_MARKER = "\\ No newline at end of file";
+
+/**
+ * Line-based unified diffs, in the format the apply_patch edit accepts.
+ * Lines are matched by their longest common subsequence after trimming the
+ * common prefix and suffix, which is plenty for memory bank files.
+ */
+export class UnifiedDiffGenerator implements DiffGenerator {
+  unifiedDiff(
+    oldContent: string,
+    newContent: string,
+    oldLabel: string,
+    newLabel: string
+  ): string {
+    if (oldContent === newContent) {
+      return "";
+    }
+
+    const diff = this.diffLines(this.lines(oldContent), this.lines(newContent));
+
+    const output = [`--- ${oldLabel}`, `+++ ${newLabel}`];
+    for (const hunk of this.hunks(diff)) {
+      output.push(this.hunkHeader(diff, hunk));
+
+      for (let i = hunk.start; i < hunk.end; i++) {
+        const { kind, text } = diff[i];
+        output.push(`${kind}${text}`);
+
+        // Either side's last line may lack a newline; say so after it
+        if (
+          (kind !== "+" && this.isLastLine(diff, i, "-") && !oldContent.endsWith("\n")) ||
+          (kind !== "-" && this.isLastLine(diff, i, "+") && !newContent.endsWith("\n"))
+        ) {
+          output.push(NO_NEWLINE_MARKER);
+        }
+      }
+    }
+
+    return `${output.join("\n")}\n`;
+  }
+
+  private lines(content: string): Lines {
+    if (content === "") {
+      return { texts: [], keys: [] };
+    }
+
+    const texts = content.replace(/\n$/, "").split("\n");
+    // A last line without a newline differs from the same line with one
+    const keys = content.endsWith("\n")
+      ? texts
+      : [...texts.slice(0, -1), `${texts[texts.length - 1]}\n${NO_NEWLINE_MARKER}`];
+
+    return { texts, keys };
+  }
+
+  private diffLines(
+    { texts: oldTexts, keys: oldLines }: Lines,
+    { texts: newTexts, keys: newLines }: Lines
+  ): DiffLine[] {
+    let prefix = 0;
+    while (
+      prefix < oldLines.length &&
+      prefix < newLines.length &&
+      oldLines[prefix] === newLines[prefix]
+    ) {
+      prefix++;
+    }
+
+    let suffix = 0;
+    while (
+      suffix < oldLines.length - prefix &&
+      suffix < newLines.length - prefix &&
+      oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+    ) {
+      suffix++;
+    }
+
+    const a = oldLines.slice(prefix, oldLines.length - suffix);
+    const b = newLines.slice(prefix, newLines.length - suffix);
+    const oldText = (i: number) => oldTexts[prefix + i];
+    const newText = (j: number) => newTexts[prefix + j];
+
+    // lcs[i][j]: length of the common subsequence of a[i..] and b[j..]
+    const width = b.length + 1;
+    const lcs = new Uint32Array((a.length + 1) * width);
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        lcs[i * width + j] =
+          a[i] === b[j]
+            ? lcs[(i + 1) * width + j + 1] + 1
+            : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+      }
+    }
+
+    const middle: DiffLine[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length || j < b.length) {
+      if (i < a.length && j < b.length && a[i] === b[j]) {
+        middle.push({ kind: " ", text: oldText(i++) });
+        j++;
+      } else if (
+        j >= b.length ||
+        (i < a.length && lcs[(i + 1) * width + j] >= lcs[i * width + j + 1])
+      ) {
+        middle.push({ kind: "-", text: oldText(i++) });
+      } else {
+        middle.push({ kind: "+", text: newText(j++) });
+      }
+    }
+
+    return [
+      ...oldTexts.slice(0, prefix).map((text) => ({ kind: " " as const, text })),
+      ...middle,
+      ...oldTexts
+        .slice(oldTexts.length - suffix)
+        .map((text) => ({ kind: " " as const, text })),
+    ];
+  }
+
+  // Ranges of the diff to print: each change with its context, merged when
+  // the contexts of neighbouring changes overlap
+  private hunks(diff: DiffLine[]): { start: number; end: number }[] {
+    const hunks: { start: number; end: number }[] = [];
+
+    diff.forEach((line, i) => {
+      if (line.kind === " ") return;
+
+      const start = Math.max(0, i - CONTEXT_LINES);
+      const end = Math.min(diff.length, i + 1 + CONTEXT_LINES);
+      const last = hunks[hunks.length - 1];
+
+      if (last && start <= last.end) {
+        last.end = end;
+      } else {
+        hunks.push({ start, end });
+      }
+    });
+
+    return hunks;
+  }
+
+  private hunkHeader(diff: DiffLine[], { start, end }: { start: number; end: number }): string {
+    const before = diff.slice(0, start);
+    const lines = diff.slice(start, end);
+
+    const oldStart = before.filter((line) => line.kind !== "+").length;
+    const newStart = before.filter((line) => line.kind !== "-").length;
+    const oldCount = lines.filter((line) => line.kind !== "+").length;
+    const newCount = lines.filter((line) => line.kind !== "-").length;
+
+    // An empty side is numbered by the line it follows
+    const range = (from: number, count: number) =>
+      `${count === 0 ? from : from + 1},${count}`;
+
+    return `@@ -${range(oldStart, oldCount)} +${range(newStart, newCount)} @@`;
+  }
+
+  // Whether diff[i] is the last line of the old ("-") or new ("+") side
+  private isLastLine(diff: DiffLine[], i: number, side: "-" | "+"): boolean {
+    const other = side === "-" ? "+" : "-";
+    return diff.slice(i + 1).every((line) => line.kind === other);
+  }
+}
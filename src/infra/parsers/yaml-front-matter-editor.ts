@@ -0,0 +1,43 @@
+import { FrontMatterEditor } from "../../data/protocols/front-matter-editor.js";
+import {
+  FileMetadata,
+  FileMetadataUpdate,
+} from "../../domain/entities/index.js";
+import { YamlFrontMatterParser } from "./yaml-front-matter-parser.js";
+
+export class YamlFrontMatterEditor implements FrontMatterEditor {
+  setMetadata(
+    content: string,
+    { tags, salience, task, extra }: FileMetadataUpdate,
+    previousContent?: string
+  ): string {
+    const created =
+      this.createdAt(content) ??
+      (previousContent !== undefined
+        ? this.createdAt(previousContent)
+        : undefined) ??
+      new Date();
+
+    // Fields left out must not clear what the front matter already says
+    const metadata: Partial<FileMetadata> = {
+      ...(tags !== undefined && { tags }),
+      ...(salience !== undefined && { salience }),
+      ...(task !== undefined && { task }),
+      ...(extra !== undefined && { extra }),
+      created,
+      updated: new Date(),
+    };
+
+    return YamlFrontMatterParser.updateMetadata(content, metadata);
+  }
+
+  private createdAt(content: string): Date | undefined {
+    try {
+      const { created } = YamlFrontMatterParser.parseFields(content);
+      const date = created ? new Date(created as string | Date) : undefined;
+      return date && !isNaN(date.getTime()) ? date : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+}
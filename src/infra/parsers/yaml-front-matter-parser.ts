@@ -1,6 +1,17 @@
 import matter from "gray-matter";
 import { FileContent, FileMetadata } from "../../domain/entities/index.js";
 
+// Fields with a meaning of their own; everything else is kept in `extra`
+export const KNOWN_FRONT_MATTER_FIELDS = [
+  "tags",
+  "updated",
+  "created",
+  "task",
+  "salience",
+  "frequency",
+  "lastAccessed",
+];
+
 export class YamlFrontMatterParser {
   /**
    * Parses a file's content and extracts YAML front-matter metadata
@@ -54,6 +65,15 @@ export class YamlFrontMatterParser {
         frontMatter.lastAccessed = new Date(parsed.data.lastAccessed);
       }
 
+      const extra = Object.fromEntries(
+        Object.entries(parsed.data).filter(
+          ([key]) => !KNOWN_FRONT_MATTER_FIELDS.includes(key)
+        )
+      );
+      if (Object.keys(extra).length > 0) {
+        frontMatter.extra = extra;
+      }
+
       return {
         frontMatter: frontMatter as FileMetadata,
         content: parsed.content,
@@ -113,6 +133,12 @@ export class YamlFrontMatterParser {
       data.lastAccessed = frontMatter.lastAccessed.toISOString();
     }
 
+    for (const [key, value] of Object.entries(frontMatter.extra ?? {})) {
+      if (!KNOWN_FRONT_MATTER_FIELDS.includes(key) && value !== undefined) {
+        data[key] = value;
+      }
+    }
+
     try {
       return matter.stringify(content, data);
     } catch (error) {
@@ -121,6 +147,14 @@ export class YamlFrontMatterParser {
     }
   }
 
+  /**
+   * Returns the front-matter fields exactly as written, without the defaults
+   * and coercions parse applies. Throws if the YAML is malformed.
+   */
+  static parseFields(content: string): Record<string, unknown> {
+    return { ...matter(content).data };
+  }
+
   /**
    * Checks if content has YAML front-matter
    */
@@ -142,6 +176,14 @@ export class YamlFrontMatterParser {
       ...newMetadata,
     };
 
+    // New extra fields are merged in; set one to undefined to drop it
+    if (parsed.frontMatter?.extra || newMetadata.extra) {
+      updatedMetadata.extra = {
+        ...parsed.frontMatter?.extra,
+        ...newMetadata.extra,
+      };
+    }
+
     return this.serialize({
       content: parsed.content,
       frontMatter: updatedMetadata,
@@ -0,0 +1,24 @@
+import { FrontMatterReader } from "../../data/protocols/front-matter-reader.js";
+import { FileMetadata } from "../../domain/entities/index.js";
+import { YamlFrontMatterParser } from "./yaml-front-matter-parser.js";
+
+export class YamlFrontMatterReader implements FrontMatterReader {
+  readMetadata(content: string): Partial<FileMetadata> {
+    let fields: Record<string, unknown>;
+    try {
+      fields = YamlFrontMatterParser.parseFields(content);
+    } catch {
+      return {};
+    }
+
+    // parse fills in defaults for missing fields; keep only those written
+    const { frontMatter = {} } = YamlFrontMatterParser.parse(content);
+    return Object.fromEntries(
+      Object.entries(frontMatter).filter(
+        ([key, value]) =>
+          (key === "extra" || key in fields) &&
+          !(value instanceof Date && isNaN(value.getTime()))
+      )
+    );
+  }
+}
@@ -0,0 +1,101 @@
+import { AccessTracker } from "../../data/protocols/access-tracker.js";
+import { BackgroundService } from "../../data/protocols/background-service.js";
+import { VectorRepository } from "../../data/protocols/vector-repository.js";
+import { FileAccess } from "../../domain/entities/index.js";
+
+interface BatchedAccessTrackerOptions {
+  /**
+   * How long accesses are collected before they are written
+   */
+  flushIntervalMs?: number;
+
+  /**
+   * Files with queued accesses that trigger a write right away
+   */
+  maxPendingFiles?: number;
+}
+
+interface PendingAccess {
+  projectName: string;
+  fileName: string;
+  count: number;
+  lastAccessed: Date;
+}
+
+/**
+ * Collects file accesses and writes them to the search index in batches,
+ * one payload update per file however often it was used in between
+ */
+export class BatchedAccessTracker implements AccessTracker, BackgroundService {
+  private pending = new Map<string, PendingAccess>();
+  private timer: NodeJS.Timeout | null = null;
+  private writing: Promise<void> = Promise.resolve();
+  private readonly flushIntervalMs: number;
+  private readonly maxPendingFiles: number;
+
+  constructor(
+    private readonly vectorRepository: VectorRepository,
+    options: BatchedAccessTrackerOptions = {}
+  ) {
+    this.flushIntervalMs = options.flushIntervalMs ?? 5000;
+    this.maxPendingFiles = options.maxPendingFiles ?? 100;
+  }
+
+  recordAccess({ projectName, fileName, accessedAt }: FileAccess): void {
+    const key = `${projectName}:${fileName}`;
+    const pending = this.pending.get(key);
+
+    if (pending) {
+      pending.count++;
+      if (accessedAt > pending.lastAccessed) pending.lastAccessed = accessedAt;
+    } else {
+      this.pending.set(key, { projectName, fileName, count: 1, lastAccessed: accessedAt });
+    }
+
+    if (this.pending.size >= this.maxPendingFiles) {
+      void this.flush();
+    } else if (!this.timer) {
+      this.timer = setTimeout(() => void this.flush(), this.flushIntervalMs);
+      // Queued accesses alone must not keep the process alive; stop() writes
+      // them when the server shuts down
+      this.timer.unref();
+    }
+  }
+
+  async flush(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    const batch = Array.from(this.pending.values());
+    this.pending.clear();
+
+    // Batches are written one after the other so counts are never lost to
+    // two updates of the same file racing
+    this.writing = this.writing.then(() => this.write(batch));
+    return this.writing;
+  }
+
+  async start(): Promise<void> {}
+
+  async stop(): Promise<void> {
+    await this.flush();
+  }
+
+  private async write(batch: PendingAccess[]): Promise<void> {
+    for (const { projectName, fileName, count, lastAccessed } of batch) {
+      try {
+        await this.vectorRepository.updateFileAccess(
+          projectName,
+          fileName,
+          count,
+          lastAccessed
+        );
+      } catch (error) {
+        // Access statistics only tune ranking; never fail over them
+        console.warn(`Failed to record access to ${projectName}:${fileName}:`, error);
+      }
+    }
+  }
+}
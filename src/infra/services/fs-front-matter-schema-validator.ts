@@ -0,0 +1,136 @@
+import fs from "fs-extra";
+import path from "path";
+import { FrontMatterValidator } from "../../data/protocols/front-matter-validator.js";
+import {
+  FrontMatterFieldSchema,
+  FrontMatterSchema,
+  FrontMatterValidationError,
+} from "../../domain/entities/index.js";
+import { FRONT_MATTER_SCHEMA_FILE } from "../filesystem/constants.js";
+import {
+  KNOWN_FRONT_MATTER_FIELDS,
+  YamlFrontMatterParser,
+} from "../parsers/yaml-front-matter-parser.js";
+
+/**
+ * Validates front matter against the schema a project keeps in
+ * `.frontmatter-schema.json`, for example:
+ *
+ *   { "fields": { "status": { "type": "string", "required": true,
+ *                             "enum": ["draft", "accepted"] } } }
+ */
+export class FsFrontMatterSchemaValidator implements FrontMatterValidator {
+  constructor(private readonly rootDir: string) {}
+
+  async validate(
+    projectName: string,
+    fileName: string,
+    content: string
+  ): Promise<void> {
+    const schema = await this.loadSchema(projectName);
+    if (!schema) {
+      return;
+    }
+
+    let fields: Record<string, unknown>;
+    try {
+      fields = YamlFrontMatterParser.parseFields(content);
+    } catch (error) {
+      throw new FrontMatterValidationError(fileName, [
+        `the YAML is malformed: ${(error as Error).message}`,
+      ]);
+    }
+
+    const issues = this.check(schema, fields);
+    if (issues.length > 0) {
+      throw new FrontMatterValidationError(fileName, issues);
+    }
+  }
+
+  private async loadSchema(
+    projectName: string
+  ): Promise<FrontMatterSchema | null> {
+    const schemaPath = path.join(
+      this.rootDir,
+      projectName,
+      FRONT_MATTER_SCHEMA_FILE
+    );
+    if (!(await fs.pathExists(schemaPath))) {
+      return null;
+    }
+
+    try {
+      const schema = await fs.readJson(schemaPath);
+      return { ...schema, fields: schema.fields ?? {} };
+    } catch (error) {
+      throw new Error(
+        `Invalid ${FRONT_MATTER_SCHEMA_FILE} in project ${projectName}: ${(error as Error).message}`
+      );
+    }
+  }
+
+  private check(
+    schema: FrontMatterSchema,
+    fields: Record<string, unknown>
+  ): string[] {
+    const issues: string[] = [];
+
+    for (const [name, field] of Object.entries(schema.fields)) {
+      const value = fields[name];
+      if (value === undefined || value === null) {
+        if (field.required) issues.push(`${name} is required`);
+        continue;
+      }
+
+      const issue = this.checkValue(name, field, value);
+      if (issue) issues.push(issue);
+    }
+
+    if (schema.allowUnknownFields === false) {
+      for (const name of Object.keys(fields)) {
+        if (!(name in schema.fields) && !KNOWN_FRONT_MATTER_FIELDS.includes(name)) {
+          issues.push(`${name} is not a field of this project`);
+        }
+      }
+    }
+
+    return issues;
+  }
+
+  private checkValue(
+    name: string,
+    field: FrontMatterFieldSchema,
+    value: unknown
+  ): string | null {
+    if (field.type && !this.hasType(value, field.type)) {
+      return `${name} must be a ${field.type}`;
+    }
+
+    if (field.enum) {
+      const values = Array.isArray(value) ? value : [value];
+      const invalid = values.filter(
+        (item) => !field.enum!.includes(item as string | number | boolean)
+      );
+      if (invalid.length > 0) {
+        return `${name} must be one of ${field.enum.join(", ")} (got ${invalid.join(", ")})`;
+      }
+    }
+
+    return null;
+  }
+
+  private hasType(value: unknown, type: FrontMatterFieldSchema["type"]): boolean {
+    switch (type) {
+      case "list":
+        return Array.isArray(value);
+      case "date":
+        // YAML dates are parsed already; quoted ones must still be dates
+        return (
+          value instanceof Date ||
+          (typeof value === "string" && !isNaN(Date.parse(value)))
+        );
+      default:
+        return typeof value === type;
+    }
+  }
+}
@@ -1,2 +1,5 @@
 export * from "./hyde-query-expansion-service.js";
-export * from "./adaptive-policy-service.js";
\ No newline at end of file
+export * from "./adaptive-policy-service.js";
+export * from "./vector-file-indexer.js";export * from "./fs-front-matter-schema-validator.js";
+export * from "./batched-access-tracker.js";
+export * from "./minimatch-path-matcher.js";
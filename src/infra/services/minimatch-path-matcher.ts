@@ -0,0 +1,14 @@
+import { minimatch } from "minimatch";
+import { PathMatcher } from "../../data/protocols/path-matcher.js";
+
+/**
+ * Glob matching with minimatch. Patterns without a "/" match the file name
+ * in any folder, so "*.md" finds notes at every depth.
+ */
+export class MinimatchPathMatcher implements PathMatcher {
+  matches(path: string, patterns: string[]): boolean {
+    return patterns.some((pattern) =>
+      minimatch(path, pattern, { dot: true, matchBase: !pattern.includes("/") })
+    );
+  }
+}
@@ -0,0 +1,79 @@
+import crypto from "crypto";
+import { FileIndexer } from "../../data/protocols/file-indexer.js";
+import { LinkGraph } from "../../data/protocols/link-graph.js";
+import { LinkParser } from "../../data/protocols/link-parser.js";
+import { VectorRepository } from "../../data/protocols/vector-repository.js";
+import { EnhancedFile } from "../../domain/entities/index.js";
+import { MarkdownChunker } from "../parsers/markdown-chunker.js";
+import { MarkdownLinkParser } from "../parsers/markdown-link-parser.js";
+import { YamlFrontMatterParser } from "../parsers/yaml-front-matter-parser.js";
+
+/**
+ * Keeps the vector index in sync with memory bank files.
+ * Front matter becomes searchable metadata; only the body is embedded,
+ * split into heading-aware chunks. With a link graph, the links the file
+ * makes to other files are recorded too.
+ */
+export class VectorFileIndexer implements FileIndexer {
+  constructor(
+    private readonly vectorRepository: VectorRepository,
+    private readonly chunker: MarkdownChunker = new MarkdownChunker(),
+    private readonly linkGraph?: LinkGraph,
+    private readonly linkParser: LinkParser = new MarkdownLinkParser()
+  ) {}
+
+  async indexFile(
+    projectName: string,
+    fileName: string,
+    content: string
+  ): Promise<void> {
+    await this.vectorRepository.upsertFile(
+      this.buildEnhancedFile(projectName, fileName, content)
+    );
+    await this.linkGraph?.setLinks(
+      projectName,
+      fileName,
+      this.linkParser.parseLinks(projectName, fileName, content)
+    );
+  }
+
+  async removeFile(projectName: string, fileName: string): Promise<void> {
+    await this.vectorRepository.deleteFile(projectName, fileName);
+    await this.linkGraph?.removeFile(projectName, fileName);
+  }
+
+  buildEnhancedFile(
+    projectName: string,
+    fileName: string,
+    content: string
+  ): EnhancedFile {
+    const parsed = YamlFrontMatterParser.parse(content);
+
+    return {
+      name: fileName,
+      projectName,
+      content: parsed.content,
+      metadata: parsed.frontMatter ?? {
+        tags: [],
+        updated: new Date(),
+        created: new Date(),
+      },
+      contentHash: this.contentHash(content),
+      chunks: this.chunker.chunk(
+        parsed.content,
+        this.frontMatterLines(content, parsed.content)
+      ),
+    };
+  }
+
+  // Chunk line numbers refer to the file on disk, front matter included
+  private frontMatterLines(content: string, body: string): number {
+    if (body.length === content.length || !content.endsWith(body)) return 0;
+
+    return content.slice(0, content.length - body.length).split("\n").length - 1;
+  }
+
+  contentHash(content: string): string {
+    return crypto.createHash("sha256").update(content).digest("hex");
+  }
+}
@@ -0,0 +1,83 @@
+import {
+  DocumentFrequencies,
+  EmbeddingProvider,
+} from "../../data/protocols/embedding-provider.js";
+
+/**
+ * Embedding model and vector size a collection was built with, and the
+ * document frequencies of its terms for providers weighting by them
+ */
+export interface CollectionEmbeddingInfo {
+  model: string;
+  dimension: number;
+  documentFrequencies?: DocumentFrequencies;
+}
+
+export const embeddingInfoOf = (
+  provider: EmbeddingProvider
+): CollectionEmbeddingInfo => ({
+  model: provider.model,
+  dimension: provider.dimension,
+});
+
+/**
+ * Ensure the configured provider can read and write an existing collection.
+ * A different dimension cannot be queried at all; a different model of the
+ * same size still works but ranks poorly until the collection is re-indexed.
+ */
+export const assertCompatibleEmbedding = (
+  collectionName: string,
+  recorded: Partial<CollectionEmbeddingInfo> | undefined,
+  provider: EmbeddingProvider
+): void => {
+  if (!recorded) return;
+
+  if (recorded.dimension !== undefined && recorded.dimension !== provider.dimension) {
+    throw new Error(
+      `Collection ${collectionName} stores ${recorded.dimension}-dimensional vectors ` +
+        `but embedding model ${provider.model} produces ${provider.dimension}. ` +
+        `Set EMBEDDING_DIMENSION=${recorded.dimension} or rebuild the collection.`
+    );
+  }
+
+  if (recorded.model && recorded.model !== provider.model) {
+    console.warn(
+      `Collection ${collectionName} was embedded with ${recorded.model} ` +
+        `but the configured model is ${provider.model}; re-index for accurate search`
+    );
+  }
+};
+
+/**
+ * Document frequencies after some documents of a collection were replaced
+ * by others, or undefined for providers that do not weight terms by them
+ */
+export const updateDocumentFrequencies = (
+  provider: EmbeddingProvider,
+  current: DocumentFrequencies | undefined,
+  removed: string[],
+  added: string[]
+): DocumentFrequencies | undefined => {
+  if (!provider.documentTerms) return undefined;
+
+  const terms = { ...current?.terms };
+  for (const text of removed) {
+    for (const term of provider.documentTerms(text)) {
+      if ((terms[term] || 0) > 1) terms[term]--;
+      else delete terms[term];
+    }
+  }
+  for (const text of added) {
+    for (const term of provider.documentTerms(text)) {
+      terms[term] = (terms[term] || 0) + 1;
+    }
+  }
+
+  return {
+    documentCount: Math.max(
+      0,
+      (current?.documentCount ?? 0) - removed.length + added.length
+    ),
+    terms,
+  };
+};
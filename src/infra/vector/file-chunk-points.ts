@@ -0,0 +1,384 @@
+import {
+  DocumentFrequencies,
+  EmbeddingProvider,
+} from "../../data/protocols/embedding-provider.js";
+import { KeywordHit } from "../../data/protocols/keyword-index.js";
+import {
+  EnhancedFile,
+  FileAccessStats,
+  FileChunk,
+  SearchQuery,
+  SearchResult,
+} from "../../domain/entities/index.js";
+import { MarkdownChunker } from "../parsers/markdown-chunker.js";
+import { uuidV5 } from "./point-ids.js";
+
+/**
+ * Payload of one indexed chunk. Points written before chunking was
+ * introduced carry the whole file and no chunk fields.
+ */
+export interface FileChunkPayload {
+  projectName: string;
+  fileName: string;
+  content: string;
+  fileContent?: string; // Whole body, stored on the first chunk only
+  contentHash: string;
+  chunkIndex?: number;
+  chunkCount?: number;
+  sectionPath?: string[];
+  startLine?: number;
+  endLine?: number;
+  tags: string[];
+  created: string;
+  updated: string;
+  lastAccessed?: string;
+  task?: string;
+  salience?: number;
+  frequency?: number;
+  extra?: Record<string, unknown>; // Other front matter fields, filterable as extra.<field>
+}
+
+export interface ScoredChunkPoint {
+  score: number;
+  semantic?: number; // Vector similarity, when fused with a keyword score
+  keyword?: number; // Normalized BM25 score, when fused
+  payload: FileChunkPayload;
+}
+
+// Several chunks of one file may outrank every chunk of the next file
+export const CHUNK_SEARCH_OVERSAMPLING = 4;
+export const MAX_CHUNKS_PER_RESULT = 3;
+export const DEFAULT_KEYWORD_WEIGHT = 0.3;
+
+// Re-indexing a file overwrites its points instead of adding new ones
+export const chunkPointId = (
+  projectName: string,
+  fileName: string,
+  chunkIndex: number
+): string => uuidV5(`file:${projectName}:${fileName}#${chunkIndex}`);
+
+const chunkKeyOf = (payload: FileChunkPayload): string =>
+  chunkPointId(payload.projectName, payload.fileName, payload.chunkIndex ?? 0);
+
+export const fileKeyOf = (payload: FileChunkPayload): string =>
+  `${payload.projectName}/${payload.fileName}`;
+
+export const chunksOf = (file: EnhancedFile): FileChunk[] => {
+  if (file.chunks && file.chunks.length > 0) return file.chunks;
+
+  return [
+    {
+      index: 0,
+      content: file.content,
+      sectionPath: [],
+      startLine: 1,
+      endLine: file.content.split(/\r?\n/).length,
+      tokens: MarkdownChunker.estimateTokens(file.content),
+    },
+  ];
+};
+
+// The heading path gives short chunks the context of their section
+export const chunkEmbeddingText = (
+  chunk: Pick<FileChunk, "sectionPath" | "content">
+): string =>
+  chunk.sectionPath.length > 0
+    ? `${chunk.sectionPath.join(" > ")}\n\n${chunk.content}`
+    : chunk.content;
+
+// The text a stored chunk was embedded from
+export const payloadEmbeddingText = (payload: FileChunkPayload): string =>
+  chunkEmbeddingText({
+    sectionPath: payload.sectionPath ?? [],
+    content: payload.content,
+  });
+
+// YAML dates become Date objects; payloads store them as ISO strings
+const extraPayload = (extra: Record<string, unknown>): Record<string, unknown> =>
+  Object.fromEntries(
+    Object.entries(extra).map(([key, value]) => [
+      key,
+      value instanceof Date ? value.toISOString() : value,
+    ])
+  );
+
+export const buildChunkPayloads = (
+  file: EnhancedFile,
+  chunks: FileChunk[]
+): FileChunkPayload[] =>
+  chunks.map((chunk, i) => ({
+    projectName: file.projectName,
+    fileName: file.name,
+    content: chunk.content,
+    ...(i === 0 && { fileContent: file.content }),
+    contentHash: file.contentHash || "",
+    chunkIndex: i,
+    chunkCount: chunks.length,
+    sectionPath: chunk.sectionPath,
+    startLine: chunk.startLine,
+    endLine: chunk.endLine,
+    tags: file.metadata.tags,
+    created: file.metadata.created.toISOString(),
+    updated: file.metadata.updated.toISOString(),
+    lastAccessed: file.metadata.lastAccessed?.toISOString(),
+    task: file.metadata.task,
+    salience: file.metadata.salience,
+    frequency: file.metadata.frequency,
+    ...(file.metadata.extra && { extra: extraPayload(file.metadata.extra) }),
+  }));
+
+export type AccessStatsPayload = Pick<
+  FileChunkPayload,
+  "frequency" | "lastAccessed"
+>;
+
+/**
+ * Access statistics live in the index, not in the file; keep them when a
+ * file is re-indexed
+ */
+export const keepAccessStats = (
+  payloads: FileChunkPayload[],
+  previous?: AccessStatsPayload | null
+): FileChunkPayload[] => {
+  if (!previous?.frequency && !previous?.lastAccessed) {
+    return payloads;
+  }
+
+  return payloads.map((payload) => ({
+    ...payload,
+    frequency: Math.max(payload.frequency ?? 0, previous.frequency ?? 0),
+    lastAccessed: latestDate(payload.lastAccessed, previous.lastAccessed),
+  }));
+};
+
+// ISO dates in UTC sort as strings
+export const latestDate = (
+  a: string | undefined,
+  b: string | undefined
+): string | undefined => (!a || (b && b > a) ? b : a);
+
+export const accessStatsOf = (
+  payload: Pick<FileChunkPayload, "projectName" | "fileName" | "frequency" | "lastAccessed">
+): FileAccessStats => ({
+  projectName: payload.projectName,
+  fileName: payload.fileName,
+  frequency: payload.frequency ?? 0,
+  ...(payload.lastAccessed && { lastAccessed: new Date(payload.lastAccessed) }),
+});
+
+/**
+ * Groups chunk hits (best first) per file, keeping the best chunks of the
+ * first `limit` files in the order their best chunk ranked
+ */
+export const groupChunksByFile = (
+  points: ScoredChunkPoint[],
+  limit: number
+): ScoredChunkPoint[][] => {
+  const groups = new Map<string, ScoredChunkPoint[]>();
+
+  for (const point of points) {
+    const key = fileKeyOf(point.payload);
+    let group = groups.get(key);
+    if (!group) {
+      if (groups.size >= limit) continue;
+      group = [];
+      groups.set(key, group);
+    }
+    if (group.length < MAX_CHUNKS_PER_RESULT) group.push(point);
+  }
+
+  return Array.from(groups.values());
+};
+
+/**
+ * Chunks the keyword index ranked that the vector search did not return.
+ * Their payloads are loaded through `retrieve` and must still match the tags.
+ */
+export const keywordOnlyPoints = async (
+  keywordHits: KeywordHit[],
+  vectorPoints: ScoredChunkPoint[],
+  query: SearchQuery,
+  retrieve: (ids: string[]) => Promise<FileChunkPayload[]>
+): Promise<ScoredChunkPoint[]> => {
+  const known = new Set(vectorPoints.map((point) => chunkKeyOf(point.payload)));
+  const scores = new Map<string, number>();
+  for (const hit of keywordHits) {
+    const id = chunkPointId(hit.projectName, hit.fileName, hit.chunkIndex);
+    if (!known.has(id)) scores.set(id, hit.score);
+  }
+  if (scores.size === 0) return [];
+
+  const payloads = await retrieve(Array.from(scores.keys()));
+
+  return payloads
+    .filter(
+      (payload) =>
+        !query.tags?.length ||
+        query.tags.some((tag) => (payload.tags || []).includes(tag))
+    )
+    .map((payload) => ({ score: scores.get(chunkKeyOf(payload)) ?? 0, payload }));
+};
+
+/**
+ * Blends vector and BM25 scores of chunks, best first. BM25 scores are
+ * normalized by the best keyword hit so both signals range over 0..1; a chunk
+ * found by one side only scores 0 on the other. Weighted fusion, unlike rank
+ * fusion, keeps scores comparable against fixed relevance thresholds.
+ */
+export const fuseChunkScores = (
+  vectorPoints: ScoredChunkPoint[],
+  keywordHits: KeywordHit[],
+  keywordOnly: ScoredChunkPoint[],
+  keywordWeight: number
+): ScoredChunkPoint[] => {
+  if (keywordHits.length === 0 || keywordWeight <= 0) return vectorPoints;
+
+  const maxKeyword = Math.max(...keywordHits.map((hit) => hit.score)) || 1;
+  const keywordScores = new Map(
+    keywordHits.map((hit) => [
+      chunkPointId(hit.projectName, hit.fileName, hit.chunkIndex),
+      hit.score / maxKeyword,
+    ])
+  );
+
+  return [
+    ...vectorPoints.map((point) => ({ ...point, semantic: point.score })),
+    ...keywordOnly.map((point) => ({ ...point, semantic: 0 })),
+  ]
+    .map((point) => {
+      const keyword = keywordScores.get(chunkKeyOf(point.payload)) ?? 0;
+      return {
+        ...point,
+        keyword,
+        score: (1 - keywordWeight) * point.semantic + keywordWeight * keyword,
+      };
+    })
+    .sort((a, b) => b.score - a.score);
+};
+
+/**
+ * The whole file body if any hit carries it
+ */
+export const fileContentOf = (hits: ScoredChunkPoint[]): string | undefined => {
+  for (const { payload } of hits) {
+    if (payload.fileContent !== undefined) return payload.fileContent;
+    if (payload.chunkIndex === undefined) return payload.content;
+  }
+  return undefined;
+};
+
+export const joinChunks = (hits: ScoredChunkPoint[]): string =>
+  [...hits]
+    .sort((a, b) => (a.payload.chunkIndex ?? 0) - (b.payload.chunkIndex ?? 0))
+    .map((hit) => hit.payload.content)
+    .join("\n\n");
+
+export const toSearchResult = (
+  hits: ScoredChunkPoint[],
+  fileContent: string,
+  query: SearchQuery
+): SearchResult => {
+  const [best] = hits;
+  const payload = best.payload;
+  const now = new Date();
+
+  const updatedAt = new Date(payload.updated);
+  const createdAt = new Date(payload.created);
+  const lastAccessedAt = payload.lastAccessed ? new Date(payload.lastAccessed) : undefined;
+
+  // Calculate time-based scores
+  const daysSinceUpdate = Math.max(1, (now.getTime() - updatedAt.getTime()) / (1000 * 60 * 60 * 24));
+  const recencyScore = 1 / Math.log(daysSinceUpdate + 1);
+
+  const frequencyScore = Math.log((payload.frequency || 0) + 1) / 10;
+  const salienceScore = payload.salience || 0.5;
+
+  const timeDecayDays = query.timeDecayDays || 30;
+  const timeDecayScore = Math.exp(-daysSinceUpdate / timeDecayDays);
+
+  // A file is as relevant as its best-matching chunk
+  const semanticScore = best.semantic ?? best.score;
+
+  const combinedScore =
+    (query.semanticWeight || 0.4) * best.score +
+    (query.recencyWeight || 0.2) * recencyScore +
+    (query.frequencyWeight || 0.2) * frequencyScore +
+    (query.salienceWeight || 0.2) * salienceScore * timeDecayScore;
+
+  const chunked = payload.chunkIndex !== undefined;
+
+  return {
+    file: {
+      name: payload.fileName,
+      projectName: payload.projectName,
+      content: fileContent,
+      metadata: {
+        tags: payload.tags || [],
+        updated: updatedAt,
+        created: createdAt,
+        lastAccessed: lastAccessedAt,
+        task: payload.task,
+        salience: payload.salience,
+        frequency: payload.frequency,
+        ...(payload.extra && { extra: payload.extra }),
+      },
+    },
+    scores: {
+      semantic: semanticScore,
+      ...(best.keyword !== undefined && { keyword: best.keyword }),
+      recency: recencyScore,
+      frequency: frequencyScore,
+      salience: salienceScore,
+      timeDecay: timeDecayScore,
+      combined: combinedScore,
+    },
+    snippet: chunked ? payload.content : extractSnippet(payload.content, query.query),
+    ...(chunked && {
+      chunks: hits.map((hit) => ({
+        content: hit.payload.content,
+        sectionPath: hit.payload.sectionPath || [],
+        startLine: hit.payload.startLine ?? 1,
+        endLine: hit.payload.endLine ?? 1,
+        score: hit.score,
+      })),
+    }),
+  };
+};
+
+// Snippet for points that hold a whole file
+const extractSnippet = (content: string, query: string): string => {
+  const queryLower = query.toLowerCase();
+  const contentLower = content.toLowerCase();
+  const index = contentLower.indexOf(queryLower);
+
+  if (index === -1) {
+    return content.substring(0, 200) + "...";
+  }
+
+  const start = Math.max(0, index - 100);
+  const end = Math.min(content.length, index + queryLower.length + 100);
+
+  return (start > 0 ? "..." : "") +
+         content.substring(start, end) +
+         (end < content.length ? "..." : "");
+};
+
+/**
+ * One vector per chunk; a single-chunk file may come with its embedding
+ */
+export const embedChunks = async (
+  embeddingProvider: EmbeddingProvider,
+  file: EnhancedFile,
+  chunks: FileChunk[],
+  frequencies?: DocumentFrequencies
+): Promise<number[][]> => {
+  if (chunks.length === 1 && file.embedding) {
+    return [Array.from(file.embedding)];
+  }
+
+  const embeddings = await embeddingProvider.embedBatch(
+    chunks.map(chunkEmbeddingText),
+    frequencies
+  );
+  return embeddings.map((embedding) => Array.from(embedding));
+};
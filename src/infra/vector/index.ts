@@ -1,2 +1,9 @@
 export * from "./qdrant-vector-repository.js";
-export * from "./qdrant-summary-repository.js";
\ No newline at end of file
+export * from "./qdrant-summary-repository.js";
+export * from "./qdrant-global-memory-repository.js";
+export * from "./qdrant-collection-schemas.js";
+export * from "./qdrant-schema-migrator.js";
+export * from "./local-collection.js";
+export * from "./local-vector-repository.js";
+export * from "./local-summary-repository.js";
+export * from "./local-global-memory-repository.js";
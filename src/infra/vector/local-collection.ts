@@ -0,0 +1,368 @@
+import fs from "fs-extra";
+import path from "path";
+import { writeFileAtomic } from "../filesystem/atomic-write.js";
+import { LOCK_DIRECTORY } from "../filesystem/constants.js";
+import { FileLock } from "../filesystem/file-lock.js";
+
+export interface LocalPoint<P extends Record<string, any>> {
+  id: string;
+  vector: number[];
+  payload: P;
+}
+
+export interface LocalScoredPoint<P extends Record<string, any>>
+  extends LocalPoint<P> {
+  score: number;
+}
+
+export interface LocalCondition {
+  key: string;
+  match?: {
+    value?: string | number | boolean;
+    any?: Array<string | number>;
+  };
+  range?: {
+    gt?: number | string;
+    gte?: number | string;
+    lt?: number | string;
+    lte?: number | string;
+  };
+}
+
+/**
+ * Subset of the Qdrant filter language supported by the embedded store
+ */
+export interface LocalFilter {
+  must?: LocalCondition[];
+  must_not?: LocalCondition[];
+  should?: LocalCondition[];
+}
+
+interface LocalCollectionFile<P extends Record<string, any>> {
+  version: number;
+  info?: Record<string, any>;
+  points: LocalPoint<P>[];
+}
+
+const FILE_FORMAT_VERSION = 1;
+
+/**
+ * File-backed point collection with payload filtering and cosine search.
+ * Points are kept in memory and the whole collection is persisted as a
+ * single JSON document after every mutation. Several processes may share
+ * the file: each save merges the points this instance changed into what is
+ * on disk, under a lock.
+ */
+export class LocalCollection<P extends Record<string, any>> {
+  private points = new Map<string, LocalPoint<P>>();
+  private info: Record<string, any> | undefined;
+  private changedIds = new Set<string>();
+  private changedInfo: Record<string, any> = {};
+  private loaded = false;
+  private pendingSave: Promise<void> = Promise.resolve();
+
+  /**
+   * Creates a new LocalCollection
+   * @param filePath The JSON file the collection is persisted to
+   * @param fileLock Lock serializing saves across processes
+   */
+  constructor(
+    private readonly filePath: string,
+    private readonly fileLock: FileLock = new FileLock(
+      path.join(path.dirname(filePath), LOCK_DIRECTORY),
+    ),
+  ) {}
+
+  async load(): Promise<void> {
+    if (this.loaded) return;
+
+    const data = await this.readFile();
+    this.info = data.info;
+    for (const point of data.points) {
+      this.points.set(String(point.id), point);
+    }
+
+    this.loaded = true;
+  }
+
+  /**
+   * Collection-level metadata, e.g. the embedding model used for its vectors
+   */
+  async getInfo<I extends Record<string, any>>(): Promise<I | undefined> {
+    await this.load();
+    return this.info as I | undefined;
+  }
+
+  async setInfo(info: Record<string, any>): Promise<void> {
+    await this.load();
+    this.info = { ...this.info, ...info };
+    this.changedInfo = { ...this.changedInfo, ...info };
+    await this.save();
+  }
+
+  async upsert(points: LocalPoint<P>[]): Promise<void> {
+    await this.load();
+
+    for (const point of points) {
+      this.changedIds.add(String(point.id));
+      this.points.set(String(point.id), {
+        id: String(point.id),
+        vector: Array.from(point.vector),
+        payload: point.payload,
+      });
+    }
+
+    await this.save();
+  }
+
+  async setPayload(ids: string[], payload: Partial<P>): Promise<void> {
+    await this.load();
+
+    for (const id of ids) {
+      const point = this.points.get(id);
+      if (point) {
+        point.payload = { ...point.payload, ...payload };
+        this.changedIds.add(id);
+      }
+    }
+
+    await this.save();
+  }
+
+  async delete(ids: string[]): Promise<void> {
+    await this.load();
+
+    for (const id of ids) {
+      this.points.delete(id);
+      this.changedIds.add(id);
+    }
+
+    await this.save();
+  }
+
+  async deleteByFilter(filter: LocalFilter): Promise<number> {
+    await this.load();
+
+    const matching = this.filterPoints(filter);
+    for (const point of matching) {
+      this.points.delete(point.id);
+      this.changedIds.add(point.id);
+    }
+
+    if (matching.length > 0) {
+      await this.save();
+    }
+
+    return matching.length;
+  }
+
+  async retrieve(ids: string[]): Promise<LocalPoint<P>[]> {
+    await this.load();
+
+    return ids
+      .map((id) => this.points.get(id))
+      .filter((point): point is LocalPoint<P> => point !== undefined);
+  }
+
+  async scroll(filter?: LocalFilter, limit?: number): Promise<LocalPoint<P>[]> {
+    await this.load();
+
+    const matching = this.filterPoints(filter);
+    return limit !== undefined ? matching.slice(0, limit) : matching;
+  }
+
+  async count(filter?: LocalFilter): Promise<number> {
+    await this.load();
+    return this.filterPoints(filter).length;
+  }
+
+  async search(
+    vector: ArrayLike<number>,
+    options: { filter?: LocalFilter; limit?: number } = {},
+  ): Promise<LocalScoredPoint<P>[]> {
+    await this.load();
+
+    const { filter, limit = 20 } = options;
+
+    return this.filterPoints(filter)
+      .map((point) => ({
+        ...point,
+        score: this.cosineSimilarity(vector, point.vector),
+      }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  private filterPoints(filter?: LocalFilter): LocalPoint<P>[] {
+    const points = Array.from(this.points.values());
+    if (!filter) return points;
+
+    return points.filter((point) => this.matchesFilter(point.payload, filter));
+  }
+
+  private matchesFilter(payload: P, filter: LocalFilter): boolean {
+    if (
+      filter.must &&
+      !filter.must.every((condition) =>
+        this.matchesCondition(payload, condition),
+      )
+    ) {
+      return false;
+    }
+
+    if (
+      filter.must_not &&
+      filter.must_not.some((condition) =>
+        this.matchesCondition(payload, condition),
+      )
+    ) {
+      return false;
+    }
+
+    if (
+      filter.should &&
+      filter.should.length > 0 &&
+      !filter.should.some((condition) =>
+        this.matchesCondition(payload, condition),
+      )
+    ) {
+      return false;
+    }
+
+    return true;
+  }
+
+  private matchesCondition(payload: P, condition: LocalCondition): boolean {
+    const value = payload[condition.key];
+    // Array payload values match when any element matches (Qdrant semantics)
+    const values: any[] = Array.isArray(value) ? value : [value];
+
+    if (condition.match) {
+      const { value: expected, any } = condition.match;
+
+      if (expected !== undefined && !values.includes(expected)) {
+        return false;
+      }
+
+      if (any !== undefined && !values.some((v) => any.includes(v))) {
+        return false;
+      }
+    }
+
+    if (condition.range) {
+      return values.some((v) => this.inRange(v, condition.range!));
+    }
+
+    return true;
+  }
+
+  private inRange(
+    value: unknown,
+    range: NonNullable<LocalCondition["range"]>,
+  ): boolean {
+    const numeric = this.toComparable(value);
+    if (numeric === null) return false;
+
+    const bound = (b?: number | string) =>
+      b === undefined ? null : this.toComparable(b);
+
+    const gt = bound(range.gt);
+    const gte = bound(range.gte);
+    const lt = bound(range.lt);
+    const lte = bound(range.lte);
+
+    if (gt !== null && !(numeric > gt)) return false;
+    if (gte !== null && !(numeric >= gte)) return false;
+    if (lt !== null && !(numeric < lt)) return false;
+    if (lte !== null && !(numeric <= lte)) return false;
+
+    return true;
+  }
+
+  private toComparable(value: unknown): number | null {
+    if (typeof value === "number") return value;
+
+    // Datetime payloads are stored as ISO strings
+    if (typeof value === "string") {
+      const time = Date.parse(value);
+      return isNaN(time) ? null : time;
+    }
+
+    return null;
+  }
+
+  private cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
+    const length = Math.min(a.length, b.length);
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+
+    for (let i = 0; i < length; i++) {
+      dot += a[i] * b[i];
+      normA += a[i] * a[i];
+      normB += b[i] * b[i];
+    }
+
+    if (normA === 0 || normB === 0) return 0;
+
+    return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+  }
+
+  private async readFile(): Promise<LocalCollectionFile<P>> {
+    if (!(await fs.pathExists(this.filePath))) {
+      return { version: FILE_FORMAT_VERSION, points: [] };
+    }
+
+    const data: LocalCollectionFile<P> = await fs.readJson(this.filePath);
+    return { ...data, points: data.points || [] };
+  }
+
+  private async save(): Promise<void> {
+    // Serialize writes so concurrent mutations never interleave on disk
+    this.pendingSave = this.pendingSave
+      .catch(() => undefined)
+      .then(() => this.writeToDisk());
+
+    return this.pendingSave;
+  }
+
+  private async writeToDisk(): Promise<void> {
+    await fs.ensureDir(path.dirname(this.filePath));
+
+    await this.fileLock.withLock(this.filePath, async () => {
+      this.merge(await this.readFile());
+
+      const data: LocalCollectionFile<P> = {
+        version: FILE_FORMAT_VERSION,
+        info: this.info,
+        points: Array.from(this.points.values()),
+      };
+      await writeFileAtomic(this.filePath, JSON.stringify(data));
+    });
+  }
+
+  /**
+   * Adopts what other processes saved, except for the points and info keys
+   * changed here since the last save, which keep their values from memory
+   */
+  private merge(stored: LocalCollectionFile<P>): void {
+    const points = new Map<string, LocalPoint<P>>();
+    for (const point of stored.points) {
+      const id = String(point.id);
+      if (!this.changedIds.has(id)) points.set(id, point);
+    }
+    for (const id of this.changedIds) {
+      const point = this.points.get(id);
+      if (point) points.set(id, point);
+    }
+
+    const changedInfo = Object.keys(this.changedInfo).length > 0;
+    this.info =
+      stored.info || changedInfo
+        ? { ...stored.info, ...this.changedInfo }
+        : undefined;
+    this.points = points;
+    this.changedIds.clear();
+    this.changedInfo = {};
+  }
+}
@@ -0,0 +1,370 @@
+import path from "path";
+import { GlobalMemoryRepository } from "../../data/protocols/global-memory-repository.js";
+import {
+  GlobalMemory,
+  GlobalMemoryType,
+  GlobalMemoryQuery,
+  GlobalMemoryInsight,
+} from "../../domain/entities/global-memory.js";
+import { EmbeddingProvider } from "../../data/protocols/embedding-provider.js";
+import {
+  assertCompatibleEmbedding,
+  CollectionEmbeddingInfo,
+  embeddingInfoOf,
+} from "./collection-embedding-info.js";
+import { LocalCollection, LocalFilter, LocalPoint } from "./local-collection.js";
+
+interface LocalStoreConfig {
+  storagePath: string;
+}
+
+interface GlobalMemoryPayload {
+  type: string;
+  title: string;
+  content: string;
+  tags: string[];
+  created: string;
+  updated: string;
+  salience: number;
+  complexity: number;
+  reusability: number;
+  source_projects: string[];
+  usage_count: number;
+  last_accessed: string;
+  related_memories: string[];
+  derived_from: string[];
+  applied_to_projects: string[];
+}
+
+/**
+ * Embedded, file-backed implementation of the GlobalMemoryRepository protocol
+ */
+export class LocalGlobalMemoryRepository implements GlobalMemoryRepository {
+  private collection: LocalCollection<GlobalMemoryPayload>;
+  private collectionName = "memory_bank_global";
+  private initialized = false;
+
+  constructor(
+    private readonly config: LocalStoreConfig,
+    private readonly embeddingProvider: EmbeddingProvider,
+  ) {
+    this.collection = new LocalCollection<GlobalMemoryPayload>(
+      path.join(config.storagePath, `${this.collectionName}.json`),
+    );
+  }
+
+  async initialize(): Promise<void> {
+    if (this.initialized) return;
+
+    try {
+      await this.collection.load();
+
+      const info = await this.collection.getInfo<CollectionEmbeddingInfo>();
+      assertCompatibleEmbedding(this.collectionName, info, this.embeddingProvider);
+      if (!info) {
+        await this.collection.setInfo(embeddingInfoOf(this.embeddingProvider));
+      }
+
+      this.initialized = true;
+    } catch (error) {
+      console.error("Failed to load local global memory collection:", error);
+      throw new Error(`Failed to initialize global memory database: ${error}`);
+    }
+  }
+
+  async storeGlobalMemory(memory: GlobalMemory): Promise<void> {
+    await this.initialize();
+
+    if (!memory.embedding) {
+      memory.embedding = await this.embeddingProvider.embed(
+        `${memory.title} ${memory.content}`,
+      );
+    }
+
+    await this.collection.upsert([
+      {
+        id: memory.id,
+        vector: Array.from(memory.embedding),
+        payload: {
+          type: memory.type,
+          title: memory.title,
+          content: memory.content,
+          tags: memory.metadata.tags,
+          created: memory.metadata.created.toISOString(),
+          updated: memory.metadata.updated.toISOString(),
+          salience: memory.metadata.salience,
+          complexity: memory.metadata.complexity,
+          reusability: memory.metadata.reusability,
+          source_projects: memory.metadata.source_projects,
+          usage_count: memory.metadata.usage_count,
+          last_accessed: memory.metadata.last_accessed.toISOString(),
+          related_memories: memory.relationships.related_memories,
+          derived_from: memory.relationships.derived_from,
+          applied_to_projects: memory.relationships.applied_to_projects,
+        },
+      },
+    ]);
+  }
+
+  async searchGlobalMemories(
+    query: GlobalMemoryQuery,
+  ): Promise<GlobalMemory[]> {
+    await this.initialize();
+
+    const filter: LocalFilter = {
+      must: [],
+    };
+
+    if (query.type) {
+      filter.must!.push({ key: "type", match: { value: query.type } });
+    }
+
+    if (query.tags && query.tags.length > 0) {
+      filter.must!.push({ key: "tags", match: { any: query.tags } });
+    }
+
+    if (query.min_salience !== undefined) {
+      filter.must!.push({ key: "salience", range: { gte: query.min_salience } });
+    }
+
+    if (query.min_reusability !== undefined) {
+      filter.must!.push({
+        key: "reusability",
+        range: { gte: query.min_reusability },
+      });
+    }
+
+    if (query.source_projects && query.source_projects.length > 0) {
+      filter.must!.push({
+        key: "source_projects",
+        match: { any: query.source_projects },
+      });
+    }
+
+    if (query.exclude_projects && query.exclude_projects.length > 0) {
+      filter.must_not = [
+        { key: "source_projects", match: { any: query.exclude_projects } },
+      ];
+    }
+
+    const limit = query.limit || 20;
+    const points = query.query.trim()
+      ? await this.collection.search(
+          await this.embeddingProvider.embed(query.query),
+          { filter, limit },
+        )
+      : await this.collection.scroll(filter, limit);
+
+    return points.map((point) => this.mapPointToGlobalMemory(point));
+  }
+
+  async getGlobalMemory(id: string): Promise<GlobalMemory | null> {
+    await this.initialize();
+
+    const [point] = await this.collection.retrieve([id]);
+    return point ? this.mapPointToGlobalMemory(point) : null;
+  }
+
+  async getGlobalMemoriesByType(
+    type: GlobalMemoryType,
+    limit = 20,
+  ): Promise<GlobalMemory[]> {
+    return this.searchGlobalMemories({ query: "", type, limit });
+  }
+
+  async updateGlobalMemoryAccess(
+    id: string,
+    project_context?: string,
+  ): Promise<void> {
+    await this.initialize();
+
+    const [point] = await this.collection.retrieve([id]);
+    if (!point) return;
+
+    const applied_to_projects = [...(point.payload.applied_to_projects || [])];
+    if (project_context && !applied_to_projects.includes(project_context)) {
+      applied_to_projects.push(project_context);
+    }
+
+    await this.collection.setPayload([id], {
+      last_accessed: new Date().toISOString(),
+      usage_count: (point.payload.usage_count || 0) + 1,
+      applied_to_projects,
+    });
+  }
+
+  async findRelatedGlobalMemories(
+    memory_id: string,
+    limit = 5,
+  ): Promise<GlobalMemory[]> {
+    await this.initialize();
+
+    const memory = await this.getGlobalMemory(memory_id);
+    if (!memory || !memory.embedding) return [];
+
+    const points = await this.collection.search(memory.embedding, {
+      limit: limit + 1, // +1 to exclude the original
+    });
+
+    return points
+      .filter((point) => point.id !== memory_id)
+      .slice(0, limit)
+      .map((point) => this.mapPointToGlobalMemory(point));
+  }
+
+  async getGlobalMemoryInsights(
+    project_context?: string,
+  ): Promise<GlobalMemoryInsight[]> {
+    await this.initialize();
+
+    const memories = await this.searchGlobalMemories({
+      query: project_context || "",
+      source_projects: project_context ? [project_context] : undefined,
+      min_salience: 0.7,
+      limit: 10,
+    });
+
+    return memories.map((memory) => ({
+      memory_id: memory.id,
+      insight_type: "application" as const,
+      description: `"${memory.title}" could be applied to improve ${project_context || "current project"}`,
+      confidence: memory.metadata.reusability,
+      evidence: [
+        `Reusability score: ${memory.metadata.reusability}`,
+        `Applied to ${memory.relationships.applied_to_projects.length} projects`,
+        `Complexity: ${memory.metadata.complexity}/10`,
+      ],
+      suggested_actions: this.generateSuggestedActions(memory),
+    }));
+  }
+
+  async getMostValuableMemories(limit = 20): Promise<GlobalMemory[]> {
+    await this.initialize();
+
+    const points = await this.collection.scroll();
+
+    return points
+      .map((point) => this.mapPointToGlobalMemory(point))
+      .sort(
+        (a, b) => this.calculateMemoryValue(b) - this.calculateMemoryValue(a),
+      )
+      .slice(0, limit);
+  }
+
+  async archiveGlobalMemory(id: string): Promise<void> {
+    await this.initialize();
+
+    await this.collection.delete([id]);
+  }
+
+  async getGlobalMemoryStats(): Promise<{
+    total_memories: number;
+    memories_by_type: Record<GlobalMemoryType, number>;
+    avg_salience: number;
+    avg_reusability: number;
+    most_accessed: GlobalMemory[];
+    recent_additions: GlobalMemory[];
+  }> {
+    await this.initialize();
+
+    const points = await this.collection.scroll();
+    const memories = points.map((point) => this.mapPointToGlobalMemory(point));
+
+    const memories_by_type = {} as Record<GlobalMemoryType, number>;
+    Object.values(GlobalMemoryType).forEach((type) => {
+      memories_by_type[type] = 0;
+    });
+    memories.forEach((memory) => {
+      memories_by_type[memory.type] = (memories_by_type[memory.type] || 0) + 1;
+    });
+
+    return {
+      total_memories: memories.length,
+      memories_by_type,
+      avg_salience:
+        memories.reduce((sum, m) => sum + m.metadata.salience, 0) /
+        memories.length,
+      avg_reusability:
+        memories.reduce((sum, m) => sum + m.metadata.reusability, 0) /
+        memories.length,
+      most_accessed: [...memories]
+        .sort((a, b) => b.metadata.usage_count - a.metadata.usage_count)
+        .slice(0, 5),
+      recent_additions: [...memories]
+        .sort(
+          (a, b) => b.metadata.created.getTime() - a.metadata.created.getTime(),
+        )
+        .slice(0, 5),
+    };
+  }
+
+  private mapPointToGlobalMemory(
+    point: LocalPoint<GlobalMemoryPayload>,
+  ): GlobalMemory {
+    const payload = point.payload;
+
+    return {
+      id: point.id,
+      type: payload.type as GlobalMemoryType,
+      title: payload.title,
+      content: payload.content,
+      metadata: {
+        tags: payload.tags || [],
+        created: new Date(payload.created),
+        updated: new Date(payload.updated),
+        salience: payload.salience,
+        complexity: payload.complexity,
+        reusability: payload.reusability,
+        source_projects: payload.source_projects || [],
+        usage_count: payload.usage_count || 0,
+        last_accessed: new Date(payload.last_accessed),
+      },
+      relationships: {
+        related_memories: payload.related_memories || [],
+        derived_from: payload.derived_from || [],
+        applied_to_projects: payload.applied_to_projects || [],
+      },
+      embedding:
+        point.vector.length > 0 ? new Float32Array(point.vector) : undefined,
+    };
+  }
+
+  private calculateMemoryValue(memory: GlobalMemory): number {
+    return (
+      memory.metadata.reusability * 0.4 +
+      memory.metadata.salience * 0.3 +
+      Math.min(1, memory.metadata.usage_count / 10) * 0.3
+    );
+  }
+
+  private generateSuggestedActions(memory: GlobalMemory): string[] {
+    const actions: string[] = [];
+
+    switch (memory.type) {
+      case GlobalMemoryType.LESSON:
+        actions.push("Review lesson before starting similar tasks");
+        actions.push("Apply lesson to current implementation approach");
+        break;
+      case GlobalMemoryType.PATTERN:
+        actions.push("Consider implementing this pattern");
+        actions.push("Evaluate pattern fit for current architecture");
+        break;
+      case GlobalMemoryType.BEST_PRACTICE:
+        actions.push("Adopt this best practice");
+        actions.push("Review current code against this practice");
+        break;
+      case GlobalMemoryType.ANTIPATTERN:
+        actions.push("Avoid this antipattern");
+        actions.push("Review current implementation for this issue");
+        break;
+      default:
+        actions.push("Review and consider application");
+    }
+
+    if (memory.metadata.reusability > 0.8) {
+      actions.push("High reusability - strongly consider adoption");
+    }
+
+    return actions;
+  }
+}
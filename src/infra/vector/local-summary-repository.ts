@@ -0,0 +1,259 @@
+import path from "path";
+import { SummaryRepository } from "../../data/protocols/summary-repository.js";
+import { Summary, SummaryHierarchy, SummaryLevel } from "../../domain/entities/index.js";
+import { EmbeddingProvider } from "../../data/protocols/embedding-provider.js";
+import {
+  assertCompatibleEmbedding,
+  CollectionEmbeddingInfo,
+  embeddingInfoOf,
+} from "./collection-embedding-info.js";
+import { LocalCollection, LocalPoint } from "./local-collection.js";
+
+interface LocalStoreConfig {
+  storagePath: string;
+}
+
+interface SummaryPayload {
+  projectName: string;
+  content: string;
+  level: SummaryLevel;
+  type: string;
+  sourceFiles: string[];
+  tokens: number;
+  compressionRatio: number;
+  created: string;
+  updated: string;
+  parentSummaryId?: string;
+  childSummaryIds: string[];
+  stale?: boolean;
+}
+
+/**
+ * Embedded, file-backed implementation of the SummaryRepository protocol
+ */
+export class LocalSummaryRepository implements SummaryRepository {
+  private collection: LocalCollection<SummaryPayload>;
+  private collectionName = "memory_bank_summaries";
+  private initialized = false;
+
+  constructor(
+    private readonly config: LocalStoreConfig,
+    private readonly embeddingProvider: EmbeddingProvider
+  ) {
+    this.collection = new LocalCollection<SummaryPayload>(
+      path.join(config.storagePath, `${this.collectionName}.json`)
+    );
+  }
+
+  async initialize(): Promise<void> {
+    if (this.initialized) return;
+
+    try {
+      await this.collection.load();
+
+      const info = await this.collection.getInfo<CollectionEmbeddingInfo>();
+      assertCompatibleEmbedding(this.collectionName, info, this.embeddingProvider);
+      if (!info) {
+        await this.collection.setInfo(embeddingInfoOf(this.embeddingProvider));
+      }
+
+      this.initialized = true;
+    } catch (error) {
+      console.error("Failed to load local summary collection:", error);
+      throw new Error(`Failed to initialize summary database: ${error}`);
+    }
+  }
+
+  async upsertSummary(summary: Summary): Promise<void> {
+    await this.initialize();
+
+    if (!summary.embedding) {
+      summary.embedding = await this.embeddingProvider.embed(summary.content);
+    }
+
+    await this.collection.upsert([
+      {
+        id: summary.id,
+        vector: Array.from(summary.embedding),
+        payload: {
+          projectName: summary.projectName,
+          content: summary.content,
+          level: summary.metadata.level,
+          type: summary.metadata.type,
+          sourceFiles: summary.metadata.sourceFiles,
+          tokens: summary.metadata.tokens,
+          compressionRatio: summary.metadata.compressionRatio,
+          created: summary.metadata.created.toISOString(),
+          updated: summary.metadata.updated.toISOString(),
+          parentSummaryId: summary.metadata.parentSummaryId,
+          childSummaryIds: summary.metadata.childSummaryIds,
+          stale: summary.metadata.stale,
+        },
+      },
+    ]);
+  }
+
+  async getSummary(id: string): Promise<Summary | null> {
+    await this.initialize();
+
+    const [point] = await this.collection.retrieve([id]);
+    return point ? this.mapPointToSummary(point) : null;
+  }
+
+  async getSummariesByLevel(
+    projectName: string,
+    level: SummaryLevel
+  ): Promise<Summary[]> {
+    await this.initialize();
+
+    const points = await this.collection.scroll({
+      must: [
+        { key: "projectName", match: { value: projectName } },
+        { key: "level", match: { value: level } },
+      ],
+    });
+
+    return points.map(point => this.mapPointToSummary(point));
+  }
+
+  async getProjectHierarchy(projectName: string): Promise<SummaryHierarchy | null> {
+    await this.initialize();
+
+    const allSummaries = await this.getAllProjectSummaries(projectName);
+
+    if (allSummaries.length === 0) return null;
+
+    const projectSummaries = allSummaries.filter(s => s.metadata.level === SummaryLevel.PROJECT);
+    const sectionSummaries = allSummaries.filter(s => s.metadata.level === SummaryLevel.SECTION);
+    const nodeSummaries = allSummaries.filter(s => s.metadata.level === SummaryLevel.NODE);
+
+    if (projectSummaries.length === 0) return null;
+
+    const totalTokens = allSummaries.reduce((sum, s) => sum + s.metadata.tokens, 0);
+    const avgCompressionRatio =
+      allSummaries.reduce((sum, s) => sum + s.metadata.compressionRatio, 0) / allSummaries.length;
+
+    const lastUpdated = allSummaries.reduce((latest, s) =>
+      s.metadata.updated > latest ? s.metadata.updated : latest,
+      new Date(0)
+    );
+
+    return {
+      projectName,
+      rootSummary: projectSummaries[0],
+      sections: sectionSummaries,
+      nodes: nodeSummaries,
+      totalTokens,
+      compressionRatio: avgCompressionRatio,
+      lastUpdated,
+    };
+  }
+
+  async deleteSummary(id: string): Promise<void> {
+    await this.initialize();
+
+    await this.collection.delete([id]);
+  }
+
+  async findStalesSummaries(
+    projectName: string,
+    changedFiles: string[]
+  ): Promise<Summary[]> {
+    await this.initialize();
+
+    const points = await this.collection.scroll({
+      must: [
+        { key: "projectName", match: { value: projectName } },
+        { key: "sourceFiles", match: { any: changedFiles } },
+      ],
+    });
+
+    return points.map(point => this.mapPointToSummary(point));
+  }
+
+  async searchSummaries(
+    projectName: string,
+    query: string,
+    maxResults = 10
+  ): Promise<Summary[]> {
+    await this.initialize();
+
+    const queryEmbedding = await this.embeddingProvider.embed(query);
+
+    const points = await this.collection.search(queryEmbedding, {
+      filter: { must: [{ key: "projectName", match: { value: projectName } }] },
+      limit: maxResults,
+    });
+
+    return points
+      .filter(point => point.score > 0)
+      .map(point => this.mapPointToSummary(point));
+  }
+
+  async getProjectSummaryStats(projectName: string): Promise<{
+    totalSummaries: number;
+    totalTokens: number;
+    averageCompressionRatio: number;
+    lastUpdated: Date;
+  }> {
+    await this.initialize();
+
+    const summaries = await this.getAllProjectSummaries(projectName);
+
+    if (summaries.length === 0) {
+      return {
+        totalSummaries: 0,
+        totalTokens: 0,
+        averageCompressionRatio: 0,
+        lastUpdated: new Date(),
+      };
+    }
+
+    const totalTokens = summaries.reduce((sum, s) => sum + s.metadata.tokens, 0);
+    const averageCompressionRatio =
+      summaries.reduce((sum, s) => sum + s.metadata.compressionRatio, 0) / summaries.length;
+
+    const lastUpdated = summaries.reduce((latest, s) =>
+      s.metadata.updated > latest ? s.metadata.updated : latest,
+      new Date(0)
+    );
+
+    return {
+      totalSummaries: summaries.length,
+      totalTokens,
+      averageCompressionRatio,
+      lastUpdated,
+    };
+  }
+
+  private async getAllProjectSummaries(projectName: string): Promise<Summary[]> {
+    const points = await this.collection.scroll({
+      must: [{ key: "projectName", match: { value: projectName } }],
+    });
+
+    return points.map(point => this.mapPointToSummary(point));
+  }
+
+  private mapPointToSummary(point: LocalPoint<SummaryPayload>): Summary {
+    const payload = point.payload;
+
+    return {
+      id: point.id,
+      projectName: payload.projectName,
+      content: payload.content,
+      metadata: {
+        level: payload.level,
+        type: payload.type as Summary["metadata"]["type"],
+        sourceFiles: payload.sourceFiles,
+        tokens: payload.tokens,
+        compressionRatio: payload.compressionRatio,
+        created: new Date(payload.created),
+        updated: new Date(payload.updated),
+        parentSummaryId: payload.parentSummaryId,
+        childSummaryIds: payload.childSummaryIds,
+        stale: payload.stale,
+      },
+      embedding: point.vector.length > 0 ? new Float32Array(point.vector) : undefined,
+    };
+  }
+}
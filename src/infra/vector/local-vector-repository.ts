@@ -0,0 +1,380 @@
+import path from "path";
+import {
+  IndexedFileRef,
+  VectorRepository,
+} from "../../data/protocols/vector-repository.js";
+import {
+  EnhancedFile,
+  FileAccessStats,
+  SearchQuery,
+  SearchResult,
+} from "../../domain/entities/index.js";
+import {
+  DocumentFrequencies,
+  EmbeddingProvider,
+} from "../../data/protocols/embedding-provider.js";
+import { KeywordIndex } from "../../data/protocols/keyword-index.js";
+import {
+  assertCompatibleEmbedding,
+  CollectionEmbeddingInfo,
+  embeddingInfoOf,
+  updateDocumentFrequencies,
+} from "./collection-embedding-info.js";
+import {
+  accessStatsOf,
+  buildChunkPayloads,
+  CHUNK_SEARCH_OVERSAMPLING,
+  chunkEmbeddingText,
+  chunkPointId,
+  chunksOf,
+  DEFAULT_KEYWORD_WEIGHT,
+  embedChunks,
+  FileChunkPayload,
+  fileContentOf,
+  fileKeyOf,
+  fuseChunkScores,
+  groupChunksByFile,
+  joinChunks,
+  keepAccessStats,
+  keywordOnlyPoints,
+  latestDate,
+  payloadEmbeddingText,
+  ScoredChunkPoint,
+  toSearchResult,
+} from "./file-chunk-points.js";
+import { LocalCollection, LocalFilter } from "./local-collection.js";
+
+interface LocalStoreConfig {
+  storagePath: string;
+}
+
+interface LocalCollectionInfo extends CollectionEmbeddingInfo {
+  schemaVersion?: number;
+}
+
+// Version 2 keys points by deterministic UUIDs
+const SCHEMA_VERSION = 2;
+
+/**
+ * Embedded, file-backed implementation of the VectorRepository protocol.
+ * Mirrors QdrantVectorRepository without requiring a running Qdrant server.
+ */
+export class LocalVectorRepository implements VectorRepository {
+  private collection: LocalCollection<FileChunkPayload>;
+  private collectionName = "memory_bank_files";
+  private initialized = false;
+
+  constructor(
+    private readonly config: LocalStoreConfig,
+    private readonly embeddingProvider: EmbeddingProvider,
+    private readonly keywordIndex?: KeywordIndex
+  ) {
+    this.collection = new LocalCollection<FileChunkPayload>(
+      path.join(config.storagePath, `${this.collectionName}.json`)
+    );
+  }
+
+  async initialize(): Promise<void> {
+    if (this.initialized) return;
+
+    try {
+      await this.collection.load();
+
+      const info = await this.collection.getInfo<LocalCollectionInfo>();
+      assertCompatibleEmbedding(this.collectionName, info, this.embeddingProvider);
+      if ((info?.schemaVersion ?? 1) < SCHEMA_VERSION) {
+        await this.rekeyPoints();
+        await this.collection.setInfo({
+          ...(!info && embeddingInfoOf(this.embeddingProvider)),
+          schemaVersion: SCHEMA_VERSION,
+        });
+      }
+      if (this.embeddingProvider.documentTerms && !info?.documentFrequencies) {
+        await this.countDocumentFrequencies();
+      }
+
+      this.initialized = true;
+    } catch (error) {
+      console.error("Failed to load local vector collection:", error);
+      throw new Error(`Failed to initialize vector database: ${error}`);
+    }
+  }
+
+  // Points written before version 2 were keyed by readable strings
+  private async rekeyPoints(): Promise<void> {
+    const points = await this.collection.scroll();
+    const moved = points
+      .map((point) => ({
+        ...point,
+        id: chunkPointId(
+          point.payload.projectName,
+          point.payload.fileName,
+          point.payload.chunkIndex ?? 0
+        ),
+        previousId: point.id,
+      }))
+      .filter((point) => point.id !== point.previousId);
+    if (moved.length === 0) return;
+
+    await this.collection.delete(moved.map((point) => point.previousId));
+    await this.collection.upsert(
+      moved.map(({ id, vector, payload }) => ({ id, vector, payload }))
+    );
+  }
+
+  // Collections built before document frequencies were kept count them once
+  private async countDocumentFrequencies(): Promise<void> {
+    const points = await this.collection.scroll();
+    const documentFrequencies = updateDocumentFrequencies(
+      this.embeddingProvider,
+      undefined,
+      [],
+      points.map((point) => payloadEmbeddingText(point.payload))
+    );
+
+    if (documentFrequencies) {
+      await this.collection.setInfo({ documentFrequencies });
+    }
+  }
+
+  private async documentFrequencies(): Promise<DocumentFrequencies | undefined> {
+    const info = await this.collection.getInfo<LocalCollectionInfo>();
+    return info?.documentFrequencies;
+  }
+
+  private fileFilter(projectName: string, fileName: string): LocalFilter {
+    return {
+      must: [
+        { key: "projectName", match: { value: projectName } },
+        { key: "fileName", match: { value: fileName } },
+      ],
+    };
+  }
+
+  async upsertFile(file: EnhancedFile): Promise<void> {
+    await this.initialize();
+
+    const chunks = chunksOf(file);
+    const previousPoints = await this.collection.scroll(
+      this.fileFilter(file.projectName, file.name)
+    );
+    // The file's own chunks count towards the frequencies it is weighted by
+    const documentFrequencies = updateDocumentFrequencies(
+      this.embeddingProvider,
+      await this.documentFrequencies(),
+      previousPoints.map((point) => payloadEmbeddingText(point.payload)),
+      chunks.map(chunkEmbeddingText)
+    );
+    const vectors = await embedChunks(
+      this.embeddingProvider,
+      file,
+      chunks,
+      documentFrequencies
+    );
+    const [previous] = await this.collection.retrieve([
+      chunkPointId(file.projectName, file.name, 0),
+    ]);
+    const payloads = keepAccessStats(
+      buildChunkPayloads(file, chunks),
+      previous?.payload
+    );
+
+    // The previous version of the file may have had more chunks
+    await this.collection.deleteByFilter(this.fileFilter(file.projectName, file.name));
+    await this.collection.upsert(
+      payloads.map((payload, i) => ({
+        id: chunkPointId(file.projectName, file.name, i),
+        vector: vectors[i],
+        payload,
+      }))
+    );
+    if (documentFrequencies) {
+      await this.collection.setInfo({ documentFrequencies });
+    }
+    await this.keywordIndex?.indexFile(
+      file.projectName,
+      file.name,
+      chunks.map(chunkEmbeddingText),
+      file.contentHash
+    );
+  }
+
+  async deleteFile(projectName: string, fileName: string): Promise<void> {
+    await this.initialize();
+
+    const points = await this.collection.scroll(this.fileFilter(projectName, fileName));
+    await this.collection.deleteByFilter(this.fileFilter(projectName, fileName));
+    const documentFrequencies = updateDocumentFrequencies(
+      this.embeddingProvider,
+      await this.documentFrequencies(),
+      points.map((point) => payloadEmbeddingText(point.payload)),
+      []
+    );
+    if (documentFrequencies && points.length > 0) {
+      await this.collection.setInfo({ documentFrequencies });
+    }
+    await this.keywordIndex?.removeFile(projectName, fileName);
+  }
+
+  async listIndexedFiles(projectName?: string): Promise<IndexedFileRef[]> {
+    await this.initialize();
+
+    // One entry per file; points from before chunking are left for reindex to replace
+    const filter: LocalFilter = {
+      must: [{ key: "chunkIndex", match: { value: 0 } }],
+    };
+    if (projectName) {
+      filter.must!.push({ key: "projectName", match: { value: projectName } });
+    }
+
+    const points = await this.collection.scroll(filter);
+
+    return points.map((point) => ({
+      projectName: point.payload.projectName,
+      fileName: point.payload.fileName,
+      contentHash: point.payload.contentHash,
+    }));
+  }
+
+  async search(query: SearchQuery): Promise<SearchResult[]> {
+    await this.initialize();
+
+    const queryEmbedding = await this.getEmbedding(query.query);
+    const limit = query.limit || 20;
+
+    const filter: LocalFilter = {
+      must: [],
+    };
+
+    if (query.projectName) {
+      filter.must!.push({
+        key: "projectName",
+        match: { value: query.projectName },
+      });
+    }
+
+    if (query.tags && query.tags.length > 0) {
+      filter.must!.push({
+        key: "tags",
+        match: { any: query.tags },
+      });
+    }
+
+    const vectorPoints = await this.collection.search(queryEmbedding, {
+      filter,
+      limit: limit * CHUNK_SEARCH_OVERSAMPLING,
+    });
+    const points = await this.fuseKeywordHits(query, vectorPoints);
+
+    return Promise.all(
+      groupChunksByFile(points, limit).map(async (hits) =>
+        toSearchResult(hits, await this.loadFileContent(hits), query)
+      )
+    );
+  }
+
+  // Exact terms such as identifiers and error codes rarely embed well
+  private async fuseKeywordHits(
+    query: SearchQuery,
+    vectorPoints: ScoredChunkPoint[]
+  ): Promise<ScoredChunkPoint[]> {
+    if (!this.keywordIndex) return vectorPoints;
+
+    const keywordHits = await this.keywordIndex.search(query.query, {
+      projectName: query.projectName,
+      limit: (query.limit || 20) * CHUNK_SEARCH_OVERSAMPLING,
+    });
+    const keywordOnly = await keywordOnlyPoints(
+      keywordHits,
+      vectorPoints,
+      query,
+      async (ids) => (await this.collection.retrieve(ids)).map((point) => point.payload)
+    );
+
+    return fuseChunkScores(
+      vectorPoints,
+      keywordHits,
+      keywordOnly,
+      query.keywordWeight ?? DEFAULT_KEYWORD_WEIGHT
+    );
+  }
+
+  // The whole body lives on the first chunk, which may not be among the hits
+  private async loadFileContent(hits: ScoredChunkPoint[]): Promise<string> {
+    const content = fileContentOf(hits);
+    if (content !== undefined) return content;
+
+    const { projectName, fileName } = hits[0].payload;
+    const [first] = await this.collection.retrieve([
+      chunkPointId(projectName, fileName, 0),
+    ]);
+
+    return first?.payload.fileContent ?? joinChunks(hits);
+  }
+
+  async getEmbedding(text: string): Promise<Float32Array> {
+    return this.embeddingProvider.embed(text, await this.documentFrequencies());
+  }
+
+  async updateFileAccess(
+    projectName: string,
+    fileName: string,
+    count = 1,
+    accessedAt = new Date()
+  ): Promise<void> {
+    await this.initialize();
+
+    const points = await this.collection.scroll(this.fileFilter(projectName, fileName));
+
+    if (points.length === 0) {
+      // Removed or renamed since the access was queued; nothing to record
+      return;
+    }
+
+    // Every chunk carries the file's access statistics
+    const { frequency, lastAccessed } = points[0].payload;
+    await this.collection.setPayload(
+      points.map((point) => point.id),
+      {
+        lastAccessed: latestDate(lastAccessed, accessedAt.toISOString()),
+        frequency: (frequency || 0) + count,
+      }
+    );
+  }
+
+  async listFileAccessStats(projectName: string): Promise<FileAccessStats[]> {
+    await this.initialize();
+
+    const points = await this.collection.scroll({
+      must: [
+        { key: "chunkIndex", match: { value: 0 } },
+        { key: "projectName", match: { value: projectName } },
+      ],
+    });
+
+    return points.map((point) => accessStatsOf(point.payload));
+  }
+
+  async getProjectStats(projectName: string): Promise<{
+    totalFiles: number;
+    totalEmbeddings: number;
+    lastUpdated: Date;
+  }> {
+    await this.initialize();
+
+    const points = await this.collection.scroll({
+      must: [{ key: "projectName", match: { value: projectName } }],
+    });
+
+    const lastUpdated = points.reduce<Date | null>((latest, point) => {
+      const updated = new Date(point.payload.updated);
+      return !latest || updated > latest ? updated : latest;
+    }, null);
+
+    return {
+      totalFiles: new Set(points.map((point) => fileKeyOf(point.payload))).size,
+      totalEmbeddings: points.length,
+      lastUpdated: lastUpdated || new Date(),
+    };
+  }
+}
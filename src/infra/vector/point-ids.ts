@@ -0,0 +1,32 @@
+import crypto from "crypto";
+
+/**
+ * Namespace of every point id derived by the memory bank. Changing it would
+ * orphan all existing points.
+ */
+export const POINT_ID_NAMESPACE = "8c1f6f0a-5b1e-4d7a-9f0e-3a2b6c4d5e7f";
+
+/**
+ * Name-based UUID (RFC 4122 version 5). Qdrant only accepts unsigned integers
+ * and UUIDs as point ids, so readable keys are hashed into a stable UUID and
+ * writing the same key twice replaces the point instead of duplicating it.
+ */
+export const uuidV5 = (name: string, namespace = POINT_ID_NAMESPACE): string => {
+  const hash = crypto
+    .createHash("sha1")
+    .update(Buffer.from(namespace.replace(/-/g, ""), "hex"))
+    .update(name, "utf8")
+    .digest();
+
+  hash[6] = (hash[6] & 0x0f) | 0x50; // Version 5
+  hash[8] = (hash[8] & 0x3f) | 0x80; // RFC 4122 variant
+
+  const hex = hash.subarray(0, 16).toString("hex");
+  return [
+    hex.substring(0, 8),
+    hex.substring(8, 12),
+    hex.substring(12, 16),
+    hex.substring(16, 20),
+    hex.substring(20, 32),
+  ].join("-");
+};
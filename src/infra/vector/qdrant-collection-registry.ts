@@ -0,0 +1,171 @@
+import crypto from "crypto";
+import { QdrantClient } from "@qdrant/js-client-rest";
+import { EmbeddingProvider } from "../../data/protocols/embedding-provider.js";
+import {
+  assertCompatibleEmbedding,
+  CollectionEmbeddingInfo,
+  embeddingInfoOf,
+} from "./collection-embedding-info.js";
+
+/**
+ * What is known about how a collection was built. Collections created before
+ * schema versioning have no `schemaVersion` and count as version 1.
+ */
+export interface CollectionSchemaRecord extends Partial<CollectionEmbeddingInfo> {
+  schemaVersion?: number;
+}
+
+/**
+ * Records which embedding model, dimension and schema version every memory
+ * bank collection was built with, and its document frequencies. Qdrant has no collection-level metadata, so
+ * the records live as payload-only points in a small side collection.
+ */
+export class QdrantCollectionRegistry {
+  static readonly collectionName = "memory_bank_collections";
+
+  constructor(private readonly client: QdrantClient) {}
+
+  /**
+   * Record the provider for a collection that was just created
+   */
+  async register(
+    collectionName: string,
+    provider: EmbeddingProvider,
+    existingCollections: string[],
+    schemaVersion: number
+  ): Promise<void> {
+    await this.ensureCollection(existingCollections);
+    await this.record(collectionName, { ...embeddingInfoOf(provider), schemaVersion });
+  }
+
+  /**
+   * Check an existing collection against the configured provider
+   */
+  async verify(
+    collectionName: string,
+    provider: EmbeddingProvider,
+    existingCollections: string[]
+  ): Promise<CollectionSchemaRecord> {
+    const recorded = await this.inspect(collectionName, provider, existingCollections);
+    assertCompatibleEmbedding(collectionName, recorded, provider);
+
+    return recorded;
+  }
+
+  /**
+   * The record of an existing collection without judging it. Collections
+   * created before model tracking only carry their vector size; when it fits
+   * the configured provider, the provider's model is assumed and recorded.
+   */
+  async inspect(
+    collectionName: string,
+    provider: EmbeddingProvider,
+    existingCollections: string[]
+  ): Promise<CollectionSchemaRecord> {
+    await this.ensureCollection(existingCollections);
+
+    const recorded = await this.get(collectionName);
+    if (recorded) return recorded;
+
+    const info = await this.client.getCollection(collectionName);
+    const vectors = info.config?.params?.vectors as { size?: number } | undefined;
+    if (vectors?.size !== provider.dimension) {
+      return { dimension: vectors?.size };
+    }
+
+    console.warn(
+      `Collection ${collectionName} has no recorded embedding model; ` +
+        `assuming ${provider.model}. Re-index if it was built with another model.`
+    );
+    const record = embeddingInfoOf(provider);
+    await this.record(collectionName, record);
+
+    return record;
+  }
+
+  async get(collectionName: string): Promise<CollectionSchemaRecord | undefined> {
+    const points = await this.client.retrieve(QdrantCollectionRegistry.collectionName, {
+      ids: [this.pointId(collectionName)],
+      with_payload: true,
+    });
+
+    const payload = points[0]?.payload as CollectionSchemaRecord | undefined;
+    return payload
+      ? {
+          model: payload.model,
+          dimension: payload.dimension,
+          schemaVersion: payload.schemaVersion,
+          documentFrequencies: payload.documentFrequencies,
+        }
+      : undefined;
+  }
+
+  /**
+   * Merge changes into the record of a collection, e.g. after a migration
+   */
+  async update(
+    collectionName: string,
+    changes: CollectionSchemaRecord
+  ): Promise<void> {
+    const recorded = await this.get(collectionName);
+    await this.record(collectionName, { ...recorded, ...changes });
+  }
+
+  async remove(collectionName: string): Promise<void> {
+    await this.client.delete(QdrantCollectionRegistry.collectionName, {
+      wait: true,
+      points: [this.pointId(collectionName)],
+    });
+  }
+
+  private async record(
+    collectionName: string,
+    info: CollectionSchemaRecord
+  ): Promise<void> {
+    await this.client.upsert(QdrantCollectionRegistry.collectionName, {
+      wait: true,
+      points: [
+        {
+          id: this.pointId(collectionName),
+          vector: [1],
+          payload: {
+            collection: collectionName,
+            ...info,
+            recorded: new Date().toISOString(),
+          },
+        },
+      ],
+    });
+  }
+
+  private async ensureCollection(existingCollections: string[]): Promise<void> {
+    if (existingCollections.includes(QdrantCollectionRegistry.collectionName)) {
+      return;
+    }
+
+    try {
+      await this.client.createCollection(QdrantCollectionRegistry.collectionName, {
+        vectors: { size: 1, distance: "Dot" },
+      });
+    } catch (error) {
+      // Another repository may have created it concurrently
+      const { exists } = await this.client.collectionExists(
+        QdrantCollectionRegistry.collectionName
+      );
+      if (!exists) throw error;
+    }
+    existingCollections.push(QdrantCollectionRegistry.collectionName);
+  }
+
+  // Qdrant point ids must be unsigned integers or UUIDs
+  private pointId(collectionName: string): string {
+    const hex = crypto.createHash("sha1").update(collectionName).digest("hex");
+    return [
+      hex.substring(0, 8),
+      hex.substring(8, 12),
+      hex.substring(12, 16),
+      hex.substring(16, 20),
+      hex.substring(20, 32),
+    ].join("-");
+  }
+}
@@ -0,0 +1,127 @@
+import { QdrantClient } from "@qdrant/js-client-rest";
+
+export interface PayloadIndex {
+  field_name: string;
+  field_schema: "keyword" | "integer" | "float" | "datetime";
+}
+
+export interface ScrolledPoint {
+  id: string | number;
+  vector?: number[];
+  payload: Record<string, any>;
+}
+
+export interface QdrantMigrationContext {
+  client: QdrantClient;
+  collectionName: string;
+
+  /**
+   * Visit every point of the collection a page at a time
+   */
+  forEachPage(
+    visit: (points: ScrolledPoint[]) => Promise<void>,
+    options?: { withVector?: boolean }
+  ): Promise<void>;
+
+  /**
+   * Report how many of the collection's points were handled so far
+   */
+  progress(processed: number, total: number): void;
+}
+
+/**
+ * One step of a collection's schema history. Migrations must be idempotent:
+ * an interrupted run is simply repeated on the next start.
+ */
+export interface QdrantCollectionMigration {
+  /**
+   * Schema version the collection has once this migration is applied
+   */
+  version: number;
+  description: string;
+  migrate(context: QdrantMigrationContext): Promise<void>;
+}
+
+export interface QdrantCollectionSchema {
+  collectionName: string;
+  payloadIndexes: PayloadIndex[];
+
+  /**
+   * Ascending by version; the last version is the one new collections get
+   */
+  migrations: QdrantCollectionMigration[];
+
+  /**
+   * Text a point's vector is computed from, used to re-embed the collection
+   */
+  embeddingText(payload: Record<string, any>): string;
+}
+
+export const currentSchemaVersion = (schema: QdrantCollectionSchema): number =>
+  schema.migrations.length > 0
+    ? schema.migrations[schema.migrations.length - 1].version
+    : 1;
+
+/**
+ * Create payload indexes that collections of older versions were built without
+ */
+export const addPayloadIndexes = (
+  version: number,
+  description: string,
+  indexes: PayloadIndex[]
+): QdrantCollectionMigration => ({
+  version,
+  description,
+  async migrate({ client, collectionName, progress }) {
+    for (const [i, index] of indexes.entries()) {
+      // Creating an index that already exists is a no-op in Qdrant
+      await client.createPayloadIndex(collectionName, { wait: true, ...index });
+      progress(i + 1, indexes.length);
+    }
+  },
+});
+
+/**
+ * Move points whose id differs from the one derived from their payload. The
+ * new point is written before the old one is deleted, so an interruption
+ * leaves at worst a duplicate that the next run removes.
+ */
+export const rekeyPoints = (
+  version: number,
+  description: string,
+  keyOf: (point: ScrolledPoint) => { id: string; payload?: Record<string, any> }
+): QdrantCollectionMigration => ({
+  version,
+  description,
+  async migrate({ client, collectionName, forEachPage, progress }) {
+    const { count: total } = await client.count(collectionName, { exact: true });
+    let processed = 0;
+
+    await forEachPage(
+      async (points) => {
+        const moved = points
+          .map((point) => ({ point, key: keyOf(point) }))
+          .filter(({ point, key }) => String(point.id) !== key.id);
+
+        if (moved.length > 0) {
+          await client.upsert(collectionName, {
+            wait: true,
+            points: moved.map(({ point, key }) => ({
+              id: key.id,
+              vector: point.vector ?? [],
+              payload: { ...point.payload, ...key.payload },
+            })),
+          });
+          await client.delete(collectionName, {
+            wait: true,
+            points: moved.map(({ point }) => point.id),
+          });
+        }
+
+        processed += points.length;
+        progress(Math.min(processed, total), total);
+      },
+      { withVector: true }
+    );
+  },
+});
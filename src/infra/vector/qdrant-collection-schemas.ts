@@ -0,0 +1,79 @@
+import { chunkEmbeddingText, chunkPointId } from "./file-chunk-points.js";
+import { uuidV5 } from "./point-ids.js";
+import {
+  addPayloadIndexes,
+  QdrantCollectionSchema,
+  rekeyPoints,
+} from "./qdrant-collection-schema.js";
+
+export const summaryPointId = (summaryId: string): string =>
+  uuidV5(`summary:${summaryId}`);
+
+export const globalMemoryPointId = (memoryId: string): string =>
+  uuidV5(`global-memory:${memoryId}`);
+
+export const FILES_COLLECTION_SCHEMA: QdrantCollectionSchema = {
+  collectionName: "memory_bank_files",
+  payloadIndexes: [
+    { field_name: "projectName", field_schema: "keyword" },
+    { field_name: "fileName", field_schema: "keyword" },
+    { field_name: "chunkIndex", field_schema: "integer" },
+    { field_name: "tags", field_schema: "keyword" },
+    { field_name: "updated", field_schema: "datetime" },
+  ],
+  migrations: [
+    addPayloadIndexes(2, "Index file names and chunk positions", [
+      { field_name: "fileName", field_schema: "keyword" },
+      { field_name: "chunkIndex", field_schema: "integer" },
+    ]),
+    // Whole-file points from before chunking become the file's first chunk
+    rekeyPoints(3, "Re-key file chunks with deterministic UUIDs", ({ payload }) => ({
+      id: chunkPointId(payload.projectName, payload.fileName, payload.chunkIndex ?? 0),
+    })),
+  ],
+  embeddingText: (payload) =>
+    chunkEmbeddingText({
+      sectionPath: payload.sectionPath || [],
+      content: payload.content,
+    }),
+};
+
+export const SUMMARIES_COLLECTION_SCHEMA: QdrantCollectionSchema = {
+  collectionName: "memory_bank_summaries",
+  payloadIndexes: [
+    { field_name: "projectName", field_schema: "keyword" },
+    { field_name: "level", field_schema: "keyword" },
+    { field_name: "updated", field_schema: "datetime" },
+  ],
+  migrations: [
+    rekeyPoints(2, "Re-key summaries with deterministic UUIDs", ({ id, payload }) => {
+      const summaryId = payload.summaryId ?? String(id);
+      return { id: summaryPointId(summaryId), payload: { summaryId } };
+    }),
+  ],
+  embeddingText: (payload) => payload.content,
+};
+
+export const GLOBAL_MEMORY_COLLECTION_SCHEMA: QdrantCollectionSchema = {
+  collectionName: "memory_bank_global",
+  payloadIndexes: [
+    { field_name: "type", field_schema: "keyword" },
+    { field_name: "tags", field_schema: "keyword" },
+    { field_name: "salience", field_schema: "float" },
+    { field_name: "reusability", field_schema: "float" },
+    { field_name: "source_projects", field_schema: "keyword" },
+  ],
+  migrations: [
+    rekeyPoints(2, "Re-key global memories with deterministic UUIDs", ({ id, payload }) => {
+      const memoryId = payload.memoryId ?? String(id);
+      return { id: globalMemoryPointId(memoryId), payload: { memoryId } };
+    }),
+  ],
+  embeddingText: (payload) => `${payload.title} ${payload.content}`,
+};
+
+export const QDRANT_COLLECTION_SCHEMAS = [
+  FILES_COLLECTION_SCHEMA,
+  SUMMARIES_COLLECTION_SCHEMA,
+  GLOBAL_MEMORY_COLLECTION_SCHEMA,
+];
@@ -1,4 +1,5 @@
 import { QdrantClient } from "@qdrant/js-client-rest";
+import { EmbeddingProvider } from "../../data/protocols/embedding-provider.js";
 import { GlobalMemoryRepository } from "../../data/protocols/global-memory-repository.js";
 import {
   GlobalMemory,
@@ -6,6 +7,11 @@ import {
   GlobalMemoryQuery,
   GlobalMemoryInsight,
 } from "../../domain/entities/global-memory.js";
+import {
+  GLOBAL_MEMORY_COLLECTION_SCHEMA,
+  globalMemoryPointId,
+} from "./qdrant-collection-schemas.js";
+import { QdrantSchemaMigrator } from "./qdrant-schema-migrator.js";
 
 interface QdrantConfig {
   url?: string;
@@ -18,6 +24,7 @@ interface GlobalMemoryPoint {
   id: string;
   vector: number[];
   payload: {
+    memoryId: string;
     type: string;
     title: string;
     content: string;
@@ -38,10 +45,14 @@ interface GlobalMemoryPoint {
 
 export class QdrantGlobalMemoryRepository implements GlobalMemoryRepository {
   private client: QdrantClient;
-  private collectionName = "memory_bank_global";
+  private migrator: QdrantSchemaMigrator;
+  private collectionName = GLOBAL_MEMORY_COLLECTION_SCHEMA.collectionName;
   private initialized = false;
 
-  constructor(private readonly config: QdrantConfig = {}) {
+  constructor(
+    private readonly config: QdrantConfig,
+    private readonly embeddingProvider: EmbeddingProvider,
+  ) {
     const clientConfig = {
       url:
         config.url ||
@@ -50,56 +61,18 @@ export class QdrantGlobalMemoryRepository implements GlobalMemoryRepository {
     };
 
     this.client = new QdrantClient(clientConfig);
+    this.migrator = new QdrantSchemaMigrator(this.client);
   }
 
   async initialize(): Promise<void> {
     if (this.initialized) return;
 
     try {
-      const collections = await this.client.getCollections();
-      const collectionExists = collections.collections?.some(
-        (collection) => collection.name === this.collectionName,
+      await this.migrator.ensure(
+        GLOBAL_MEMORY_COLLECTION_SCHEMA,
+        this.embeddingProvider,
       );
 
-      if (!collectionExists) {
-        await this.client.createCollection(this.collectionName, {
-          vectors: {
-            size: 384,
-            distance: "Cosine",
-          },
-          optimizers_config: {
-            default_segment_number: 2,
-          },
-          replication_factor: 1,
-        });
-
-        // Create indices for efficient global memory queries
-        await this.client.createPayloadIndex(this.collectionName, {
-          field_name: "type",
-          field_schema: "keyword",
-        });
-
-        await this.client.createPayloadIndex(this.collectionName, {
-          field_name: "tags",
-          field_schema: "keyword",
-        });
-
-        await this.client.createPayloadIndex(this.collectionName, {
-          field_name: "salience",
-          field_schema: "float",
-        });
-
-        await this.client.createPayloadIndex(this.collectionName, {
-          field_name: "reusability",
-          field_schema: "float",
-        });
-
-        await this.client.createPayloadIndex(this.collectionName, {
-          field_name: "source_projects",
-          field_schema: "keyword",
-        });
-      }
-
       this.initialized = true;
     } catch (error) {
       console.error("Failed to initialize global memory collection:", error);
@@ -110,12 +83,17 @@ export class QdrantGlobalMemoryRepository implements GlobalMemoryRepository {
   async storeGlobalMemory(memory: GlobalMemory): Promise<void> {
     await this.initialize();
 
+    if (!memory.embedding) {
+      memory.embedding = await this.embeddingProvider.embed(
+        `${memory.title} ${memory.content}`,
+      );
+    }
+
     const point: GlobalMemoryPoint = {
-      id: memory.id,
-      vector: memory.embedding
-        ? Array.from(memory.embedding)
-        : new Array(384).fill(0),
+      id: globalMemoryPointId(memory.id),
+      vector: Array.from(memory.embedding),
       payload: {
+        memoryId: memory.id,
         type: memory.type,
         title: memory.title,
         content: memory.content,
@@ -195,7 +173,9 @@ export class QdrantGlobalMemoryRepository implements GlobalMemoryRepository {
     }
 
     // Generate query embedding for semantic search
-    const queryEmbedding = new Array(384).fill(0); // Mock embedding - replace with actual
+    const queryEmbedding = query.query.trim()
+      ? Array.from(await this.embeddingProvider.embed(query.query))
+      : new Array(this.embeddingProvider.dimension).fill(0);
 
     const searchResult = await this.client.search(this.collectionName, {
       vector: queryEmbedding,
@@ -211,7 +191,7 @@ export class QdrantGlobalMemoryRepository implements GlobalMemoryRepository {
     await this.initialize();
 
     const points = await this.client.retrieve(this.collectionName, {
-      ids: [id],
+      ids: [globalMemoryPointId(id)],
       with_payload: true,
       with_vector: true,
     });
@@ -241,7 +221,7 @@ export class QdrantGlobalMemoryRepository implements GlobalMemoryRepository {
     await this.initialize();
 
     const points = await this.client.retrieve(this.collectionName, {
-      ids: [id],
+      ids: [globalMemoryPointId(id)],
       with_payload: true,
       with_vector: true,
     });
@@ -268,7 +248,7 @@ export class QdrantGlobalMemoryRepository implements GlobalMemoryRepository {
       wait: true,
       points: [
         {
-          id,
+          id: globalMemoryPointId(id),
           vector: vectorData,
           payload,
         },
@@ -293,7 +273,7 @@ export class QdrantGlobalMemoryRepository implements GlobalMemoryRepository {
     });
 
     return searchResult
-      .filter((point) => point.id !== memory_id)
+      .filter((point) => point.id !== globalMemoryPointId(memory_id))
       .slice(0, limit)
       .map((point) => this.mapPointToGlobalMemory(point));
   }
@@ -340,7 +320,7 @@ export class QdrantGlobalMemoryRepository implements GlobalMemoryRepository {
     await this.initialize();
 
     const searchResult = await this.client.search(this.collectionName, {
-      vector: new Array(384).fill(0), // Dummy vector for sorting by payload
+      vector: new Array(this.embeddingProvider.dimension).fill(0), // Dummy vector for sorting by payload
       limit: 100, // Get larger set to sort by value
       with_payload: true,
     });
@@ -362,7 +342,7 @@ export class QdrantGlobalMemoryRepository implements GlobalMemoryRepository {
 
     await this.client.delete(this.collectionName, {
       wait: true,
-      points: [id],
+      points: [globalMemoryPointId(id)],
     });
   }
 
@@ -378,7 +358,7 @@ export class QdrantGlobalMemoryRepository implements GlobalMemoryRepository {
 
     // Get all global memories
     const searchResult = await this.client.search(this.collectionName, {
-      vector: new Array(384).fill(0),
+      vector: new Array(this.embeddingProvider.dimension).fill(0),
       limit: 1000,
       with_payload: true,
     });
@@ -416,7 +396,7 @@ export class QdrantGlobalMemoryRepository implements GlobalMemoryRepository {
       : undefined;
 
     return {
-      id: point.id,
+      id: payload.memoryId ?? point.id,
       type: payload.type as GlobalMemoryType,
       title: payload.title,
       content: payload.content,
@@ -0,0 +1,339 @@
+import { QdrantClient } from "@qdrant/js-client-rest";
+import { EmbeddingProvider } from "../../data/protocols/embedding-provider.js";
+import {
+  embeddingInfoOf,
+  updateDocumentFrequencies,
+} from "./collection-embedding-info.js";
+import { QdrantCollectionRegistry } from "./qdrant-collection-registry.js";
+import {
+  currentSchemaVersion,
+  QdrantCollectionSchema,
+  QdrantMigrationContext,
+  ScrolledPoint,
+} from "./qdrant-collection-schema.js";
+
+interface QdrantConfig {
+  url?: string;
+  host?: string;
+  port?: number;
+  apiKey?: string;
+}
+
+export interface MigrationProgress {
+  collectionName: string;
+  step: string;
+  processed: number;
+  total: number;
+}
+
+export type MigrationProgressListener = (progress: MigrationProgress) => void;
+
+export interface CollectionMigrationReport {
+  collectionName: string;
+  created: boolean;
+  fromVersion: number;
+  toVersion: number;
+  applied: string[];
+  reembedded: number;
+}
+
+export interface MigrateOptions {
+  /**
+   * Rebuild the vectors when the configured embedding model or size differs
+   * from the one the collection was built with
+   */
+  reembed?: boolean;
+}
+
+// Collection the vectors are rebuilt in before they replace the original
+const REEMBED_SUFFIX = "__reembed";
+const PAGE_SIZE = 256;
+
+const logProgress: MigrationProgressListener = ({
+  collectionName,
+  step,
+  processed,
+  total,
+}) => console.warn(`Migrating ${collectionName}: ${step} (${processed}/${total})`);
+
+/**
+ * Creates memory bank collections and upgrades existing ones to the current
+ * version of their schema. The version each collection is at is kept in the
+ * collection registry and advanced after every applied migration.
+ */
+export class QdrantSchemaMigrator {
+  private registry: QdrantCollectionRegistry;
+
+  constructor(
+    private readonly client: QdrantClient,
+    private readonly onProgress: MigrationProgressListener = logProgress
+  ) {
+    this.registry = new QdrantCollectionRegistry(client);
+  }
+
+  /**
+   * A migrator with its own client, for running migrations outside a repository
+   */
+  static connect(
+    config: QdrantConfig,
+    onProgress?: MigrationProgressListener
+  ): QdrantSchemaMigrator {
+    const client = new QdrantClient({
+      url: config.url || `http://${config.host || "localhost"}:${config.port || 6333}`,
+      ...(config.apiKey && { apiKey: config.apiKey }),
+    });
+
+    return new QdrantSchemaMigrator(client, onProgress);
+  }
+
+  /**
+   * Create the collection, or check it against the provider and apply
+   * pending migrations. Used by repositories when they initialize.
+   */
+  async ensure(
+    schema: QdrantCollectionSchema,
+    provider: EmbeddingProvider
+  ): Promise<void> {
+    await this.migrate(schema, provider);
+  }
+
+  async migrate(
+    schema: QdrantCollectionSchema,
+    provider: EmbeddingProvider,
+    options: MigrateOptions = {}
+  ): Promise<CollectionMigrationReport> {
+    const { collectionName } = schema;
+    const toVersion = currentSchemaVersion(schema);
+    const collectionNames = await this.collectionNames();
+
+    // A re-embed was interrupted after all vectors were rebuilt
+    if (
+      collectionNames.includes(this.reembedName(schema)) &&
+      (await this.registry.get(this.reembedName(schema)))
+    ) {
+      const reembedded = await this.restoreReembedded(schema);
+      return this.report(schema, toVersion, toVersion, [], reembedded);
+    }
+
+    if (!collectionNames.includes(collectionName)) {
+      await this.createCollection(collectionName, schema, provider.dimension);
+      await this.registry.register(collectionName, provider, collectionNames, toVersion);
+      return { ...this.report(schema, toVersion, toVersion, [], 0), created: true };
+    }
+
+    const record = options.reembed
+      ? await this.registry.inspect(collectionName, provider, collectionNames)
+      : await this.registry.verify(collectionName, provider, collectionNames);
+    const fromVersion = record.schemaVersion ?? 1;
+
+    const applied: string[] = [];
+    for (const migration of schema.migrations) {
+      if (migration.version <= fromVersion) continue;
+
+      await migration.migrate(this.contextFor(collectionName, migration.description));
+      await this.registry.update(collectionName, { schemaVersion: migration.version });
+      applied.push(migration.description);
+    }
+
+    const outdated =
+      record.dimension !== provider.dimension || record.model !== provider.model;
+    const reembedded =
+      options.reembed && outdated
+        ? await this.reembed(schema, provider, collectionNames)
+        : 0;
+
+    return this.report(schema, fromVersion, toVersion, applied, reembedded);
+  }
+
+  /**
+   * Rebuild every vector with the configured provider. The new vectors are
+   * written to a side collection first and only recorded as complete once all
+   * of them exist; from then on the original can be replaced at any time.
+   */
+  private async reembed(
+    schema: QdrantCollectionSchema,
+    provider: EmbeddingProvider,
+    collectionNames: string[]
+  ): Promise<number> {
+    const { collectionName } = schema;
+    const reembedName = this.reembedName(schema);
+
+    // Left over from a run interrupted before all vectors were rebuilt
+    if (collectionNames.includes(reembedName)) {
+      await this.client.deleteCollection(reembedName);
+    }
+    await this.createCollection(reembedName, schema, provider.dimension);
+
+    // Frequencies counted for another model do not carry over
+    let documentFrequencies = updateDocumentFrequencies(provider, undefined, [], []);
+    if (documentFrequencies) {
+      await this.scrollPages(collectionName, false, async (points) => {
+        documentFrequencies = updateDocumentFrequencies(
+          provider,
+          documentFrequencies,
+          [],
+          points.map((point) => schema.embeddingText(point.payload))
+        );
+      });
+    }
+
+    const step = `Re-embed vectors with ${provider.model}`;
+    const { count: total } = await this.client.count(collectionName, { exact: true });
+    let processed = 0;
+
+    await this.scrollPages(collectionName, false, async (points) => {
+      const vectors = await provider.embedBatch(
+        points.map((point) => schema.embeddingText(point.payload)),
+        documentFrequencies
+      );
+      await this.client.upsert(reembedName, {
+        wait: true,
+        points: points.map((point, i) => ({
+          id: point.id,
+          vector: Array.from(vectors[i]),
+          payload: point.payload,
+        })),
+      });
+
+      processed += points.length;
+      this.onProgress({ collectionName, step, processed, total });
+    });
+
+    await this.registry.update(reembedName, {
+      ...embeddingInfoOf(provider),
+      documentFrequencies,
+      schemaVersion: currentSchemaVersion(schema),
+    });
+    return this.restoreReembedded(schema);
+  }
+
+  // Replace the original with the re-embedded points; safe to repeat
+  private async restoreReembedded(schema: QdrantCollectionSchema): Promise<number> {
+    const { collectionName } = schema;
+    const reembedName = this.reembedName(schema);
+    const record = await this.registry.get(reembedName);
+    if (!record?.dimension) {
+      throw new Error(`Cannot restore ${collectionName}: ${reembedName} is incomplete`);
+    }
+
+    const { exists } = await this.client.collectionExists(collectionName);
+    if (exists) {
+      await this.client.deleteCollection(collectionName);
+    }
+    await this.createCollection(collectionName, schema, record.dimension);
+
+    const step = "Restore re-embedded points";
+    const { count: total } = await this.client.count(reembedName, { exact: true });
+    let processed = 0;
+
+    await this.scrollPages(reembedName, true, async (points) => {
+      await this.client.upsert(collectionName, {
+        wait: true,
+        points: points.map((point) => ({
+          id: point.id,
+          vector: point.vector ?? [],
+          payload: point.payload,
+        })),
+      });
+
+      processed += points.length;
+      this.onProgress({ collectionName, step, processed, total });
+    });
+
+    await this.registry.update(collectionName, record);
+    await this.client.deleteCollection(reembedName);
+    await this.registry.remove(reembedName);
+
+    return processed;
+  }
+
+  private async createCollection(
+    name: string,
+    schema: QdrantCollectionSchema,
+    dimension: number
+  ): Promise<void> {
+    await this.client.createCollection(name, {
+      vectors: {
+        size: dimension,
+        distance: "Cosine", // Cosine similarity for semantic search
+      },
+      optimizers_config: {
+        default_segment_number: 2,
+      },
+      replication_factor: 1,
+    });
+
+    // Create payload indexes for fast filtering
+    for (const index of schema.payloadIndexes) {
+      await this.client.createPayloadIndex(name, index);
+    }
+  }
+
+  private contextFor(collectionName: string, step: string): QdrantMigrationContext {
+    return {
+      client: this.client,
+      collectionName,
+      forEachPage: (visit, options = {}) =>
+        this.scrollPages(collectionName, options.withVector ?? false, visit),
+      progress: (processed, total) =>
+        this.onProgress({ collectionName, step, processed, total }),
+    };
+  }
+
+  // Page through a collection; Qdrant caps each scroll response
+  private async scrollPages(
+    collectionName: string,
+    withVector: boolean,
+    visit: (points: ScrolledPoint[]) => Promise<void>
+  ): Promise<void> {
+    let offset: string | number | undefined = undefined;
+
+    do {
+      const page: Awaited<ReturnType<QdrantClient["scroll"]>> =
+        await this.client.scroll(collectionName, {
+          with_payload: true,
+          with_vector: withVector,
+          limit: PAGE_SIZE,
+          offset,
+        });
+
+      if (page.points.length > 0) {
+        await visit(
+          page.points.map((point) => ({
+            id: point.id,
+            vector: Array.isArray(point.vector) ? (point.vector as number[]) : undefined,
+            payload: (point.payload || {}) as Record<string, any>,
+          }))
+        );
+      }
+
+      offset = (page.next_page_offset ?? undefined) as string | number | undefined;
+    } while (offset !== undefined);
+  }
+
+  private async collectionNames(): Promise<string[]> {
+    const collections = await this.client.getCollections();
+    return collections.collections?.map((collection) => collection.name) || [];
+  }
+
+  private reembedName(schema: QdrantCollectionSchema): string {
+    return `${schema.collectionName}${REEMBED_SUFFIX}`;
+  }
+
+  private report(
+    schema: QdrantCollectionSchema,
+    fromVersion: number,
+    toVersion: number,
+    applied: string[],
+    reembedded: number
+  ): CollectionMigrationReport {
+    return {
+      collectionName: schema.collectionName,
+      created: false,
+      fromVersion,
+      toVersion,
+      applied,
+      reembedded,
+    };
+  }
+}
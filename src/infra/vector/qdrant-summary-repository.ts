@@ -1,6 +1,12 @@
 import { QdrantClient } from "@qdrant/js-client-rest";
+import { EmbeddingProvider } from "../../data/protocols/embedding-provider.js";
 import { SummaryRepository } from "../../data/protocols/summary-repository.js";
 import { Summary, SummaryHierarchy, SummaryLevel } from "../../domain/entities/index.js";
+import {
+  SUMMARIES_COLLECTION_SCHEMA,
+  summaryPointId,
+} from "./qdrant-collection-schemas.js";
+import { QdrantSchemaMigrator } from "./qdrant-schema-migrator.js";
 
 interface QdrantConfig {
   url?: string;
@@ -13,6 +19,7 @@ interface SummaryPoint {
   id: string;
   vector: number[];
   payload: {
+    summaryId: string;
     projectName: string;
     content: string;
     level: SummaryLevel;
@@ -24,61 +31,34 @@ interface SummaryPoint {
     updated: string;
     parentSummaryId?: string;
     childSummaryIds: string[];
+    stale?: boolean;
   };
 }
 
 export class QdrantSummaryRepository implements SummaryRepository {
   private client: QdrantClient;
-  private collectionName = "memory_bank_summaries";
+  private migrator: QdrantSchemaMigrator;
+  private collectionName = SUMMARIES_COLLECTION_SCHEMA.collectionName;
   private initialized = false;
 
-  constructor(private readonly config: QdrantConfig = {}) {
+  constructor(
+    private readonly config: QdrantConfig,
+    private readonly embeddingProvider: EmbeddingProvider
+  ) {
     const clientConfig = {
       url: config.url || `http://${config.host || "localhost"}:${config.port || 6333}`,
       ...(config.apiKey && { apiKey: config.apiKey }),
     };
 
     this.client = new QdrantClient(clientConfig);
+    this.migrator = new QdrantSchemaMigrator(this.client);
   }
 
   async initialize(): Promise<void> {
     if (this.initialized) return;
 
     try {
-      const collections = await this.client.getCollections();
-      const collectionExists = collections.collections?.some(
-        (collection) => collection.name === this.collectionName
-      );
-
-      if (!collectionExists) {
-        await this.client.createCollection(this.collectionName, {
-          vectors: {
-            size: 384,
-            distance: "Cosine",
-          },
-          optimizers_config: {
-            default_segment_number: 2,
-          },
-          replication_factor: 1,
-        });
-
-        // Create indices for efficient filtering
-        await this.client.createPayloadIndex(this.collectionName, {
-          field_name: "projectName",
-          field_schema: "keyword",
-        });
-
-        await this.client.createPayloadIndex(this.collectionName, {
-          field_name: "level",
-          field_schema: "keyword",
-        });
-
-        await this.client.createPayloadIndex(this.collectionName, {
-          field_name: "updated",
-          field_schema: "datetime",
-        });
-      }
-
+      await this.migrator.ensure(SUMMARIES_COLLECTION_SCHEMA, this.embeddingProvider);
       this.initialized = true;
     } catch (error) {
       console.error("Failed to initialize summary collection:", error);
@@ -89,10 +69,15 @@ export class QdrantSummaryRepository implements SummaryRepository {
   async upsertSummary(summary: Summary): Promise<void> {
     await this.initialize();
 
+    if (!summary.embedding) {
+      summary.embedding = await this.embeddingProvider.embed(summary.content);
+    }
+
     const point: SummaryPoint = {
-      id: summary.id,
-      vector: summary.embedding ? Array.from(summary.embedding) : new Array(384).fill(0),
+      id: summaryPointId(summary.id),
+      vector: Array.from(summary.embedding),
       payload: {
+        summaryId: summary.id,
         projectName: summary.projectName,
         content: summary.content,
         level: summary.metadata.level,
@@ -104,6 +89,7 @@ export class QdrantSummaryRepository implements SummaryRepository {
         updated: summary.metadata.updated.toISOString(),
         parentSummaryId: summary.metadata.parentSummaryId,
         childSummaryIds: summary.metadata.childSummaryIds,
+        stale: summary.metadata.stale,
       },
     };
 
@@ -117,7 +103,7 @@ export class QdrantSummaryRepository implements SummaryRepository {
     await this.initialize();
 
     const points = await this.client.retrieve(this.collectionName, {
-      ids: [id],
+      ids: [summaryPointId(id)],
       with_payload: true,
       with_vector: true,
     });
@@ -195,7 +181,7 @@ export class QdrantSummaryRepository implements SummaryRepository {
 
     await this.client.delete(this.collectionName, {
       wait: true,
-      points: [id],
+      points: [summaryPointId(id)],
     });
   }
 
@@ -220,26 +206,25 @@ export class QdrantSummaryRepository implements SummaryRepository {
   ): Promise<Summary[]> {
     await this.initialize();
 
-    // For now, use simple text matching
-    // TODO: Implement proper semantic search with embeddings
-    const allSummaries = await this.getAllProjectSummaries(projectName);
-    
-    const queryLower = query.toLowerCase();
-    const matchingSummaries = allSummaries
-      .filter(summary => 
-        summary.content.toLowerCase().includes(queryLower) ||
-        summary.metadata.sourceFiles.some(file => 
-          file.toLowerCase().includes(queryLower)
-        )
-      )
-      .sort((a, b) => {
-        // Simple relevance scoring
-        const aScore = this.calculateSimpleRelevance(a.content, query);
-        const bScore = this.calculateSimpleRelevance(b.content, query);
-        return bScore - aScore;
-      });
-
-    return matchingSummaries.slice(0, maxResults);
+    const queryEmbedding = await this.embeddingProvider.embed(query);
+
+    const searchResult = await this.client.search(this.collectionName, {
+      vector: Array.from(queryEmbedding),
+      limit: maxResults,
+      filter: {
+        must: [
+          {
+            key: "projectName",
+            match: { value: projectName },
+          },
+        ],
+      },
+      with_payload: true,
+      with_vector: true,
+      score_threshold: 0,
+    });
+
+    return searchResult.map(point => this.mapPointToSummary(point));
   }
 
   async getProjectSummaryStats(projectName: string): Promise<{
@@ -301,7 +286,7 @@ export class QdrantSummaryRepository implements SummaryRepository {
     const vector = Array.isArray(point.vector) ? new Float32Array(point.vector) : undefined;
 
     return {
-      id: point.id,
+      id: payload.summaryId ?? point.id,
       projectName: payload.projectName,
       content: payload.content,
       metadata: {
@@ -314,19 +299,9 @@ export class QdrantSummaryRepository implements SummaryRepository {
         updated: new Date(payload.updated),
         parentSummaryId: payload.parentSummaryId,
         childSummaryIds: payload.childSummaryIds,
+        stale: payload.stale,
       },
       embedding: vector,
     };
   }
-
-  private calculateSimpleRelevance(content: string, query: string): number {
-    const queryWords = query.toLowerCase().split(/\s+/);
-    const contentWords = content.toLowerCase().split(/\s+/);
-    
-    const matches = queryWords.filter(word =>
-      contentWords.some(contentWord => contentWord.includes(word))
-    );
-    
-    return matches.length / queryWords.length;
-  }
 }
\ No newline at end of file
@@ -1,6 +1,45 @@
 import { QdrantClient } from "@qdrant/js-client-rest";
-import { VectorRepository } from "../../data/protocols/vector-repository.js";
-import { EnhancedFile, SearchQuery, SearchResult } from "../../domain/entities/index.js";
+import {
+  DocumentFrequencies,
+  EmbeddingProvider,
+} from "../../data/protocols/embedding-provider.js";
+import { KeywordIndex } from "../../data/protocols/keyword-index.js";
+import {
+  IndexedFileRef,
+  VectorRepository,
+} from "../../data/protocols/vector-repository.js";
+import {
+  EnhancedFile,
+  FileAccessStats,
+  SearchQuery,
+  SearchResult,
+} from "../../domain/entities/index.js";
+import { updateDocumentFrequencies } from "./collection-embedding-info.js";
+import {
+  AccessStatsPayload,
+  accessStatsOf,
+  buildChunkPayloads,
+  CHUNK_SEARCH_OVERSAMPLING,
+  chunkEmbeddingText,
+  chunkPointId,
+  chunksOf,
+  DEFAULT_KEYWORD_WEIGHT,
+  embedChunks,
+  FileChunkPayload,
+  fileContentOf,
+  fuseChunkScores,
+  groupChunksByFile,
+  joinChunks,
+  keepAccessStats,
+  keywordOnlyPoints,
+  latestDate,
+  payloadEmbeddingText,
+  ScoredChunkPoint,
+  toSearchResult,
+} from "./file-chunk-points.js";
+import { QdrantCollectionRegistry } from "./qdrant-collection-registry.js";
+import { FILES_COLLECTION_SCHEMA } from "./qdrant-collection-schemas.js";
+import { QdrantSchemaMigrator } from "./qdrant-schema-migrator.js";
 
 interface QdrantConfig {
   url?: string;
@@ -9,30 +48,18 @@ interface QdrantConfig {
   apiKey?: string;
 }
 
-interface FilePoint {
-  id: string;
-  vector: number[];
-  payload: {
-    projectName: string;
-    fileName: string;
-    content: string;
-    contentHash: string;
-    tags: string[];
-    created: string;
-    updated: string;
-    lastAccessed?: string;
-    task?: string;
-    salience?: number;
-    frequency?: number;
-  };
-}
-
 export class QdrantVectorRepository implements VectorRepository {
   private client: QdrantClient;
-  private collectionName = "memory_bank_files";
+  private migrator: QdrantSchemaMigrator;
+  private registry: QdrantCollectionRegistry;
+  private collectionName = FILES_COLLECTION_SCHEMA.collectionName;
   private initialized = false;
 
-  constructor(private readonly config: QdrantConfig = {}) {
+  constructor(
+    private readonly config: QdrantConfig,
+    private readonly embeddingProvider: EmbeddingProvider,
+    private readonly keywordIndex?: KeywordIndex
+  ) {
     // Default to local Qdrant instance
     const clientConfig = {
       url: config.url || `http://${config.host || "localhost"}:${config.port || 6333}`,
@@ -40,48 +67,18 @@ export class QdrantVectorRepository implements VectorRepository {
     };
 
     this.client = new QdrantClient(clientConfig);
+    this.migrator = new QdrantSchemaMigrator(this.client);
+    this.registry = new QdrantCollectionRegistry(this.client);
   }
 
   async initialize(): Promise<void> {
     if (this.initialized) return;
 
     try {
-      // Check if collection exists
-      const collections = await this.client.getCollections();
-      const collectionExists = collections.collections?.some(
-        (collection) => collection.name === this.collectionName
-      );
-
-      if (!collectionExists) {
-        // Create collection with 384-dimensional vectors (common for sentence transformers)
-        await this.client.createCollection(this.collectionName, {
-          vectors: {
-            size: 384,
-            distance: "Cosine", // Cosine similarity for semantic search
-          },
-          optimizers_config: {
-            default_segment_number: 2,
-          },
-          replication_factor: 1,
-        });
-
-        // Create payload index for fast filtering
-        await this.client.createPayloadIndex(this.collectionName, {
-          field_name: "projectName",
-          field_schema: "keyword",
-        });
-
-        await this.client.createPayloadIndex(this.collectionName, {
-          field_name: "tags",
-          field_schema: "keyword",
-        });
-
-        await this.client.createPayloadIndex(this.collectionName, {
-          field_name: "updated",
-          field_schema: "datetime",
-        });
+      await this.migrator.ensure(FILES_COLLECTION_SCHEMA, this.embeddingProvider);
+      if (this.embeddingProvider.documentTerms && !(await this.documentFrequencies())) {
+        await this.countDocumentFrequencies();
       }
-
       this.initialized = true;
     } catch (error) {
       console.error("Failed to initialize Qdrant collection:", error);
@@ -89,53 +86,164 @@ export class QdrantVectorRepository implements VectorRepository {
     }
   }
 
-  private generatePointId(projectName: string, fileName: string): string {
-    return `${projectName}:${fileName}`;
+  // Collections built before document frequencies were kept count them once
+  private async countDocumentFrequencies(): Promise<void> {
+    const documentFrequencies = updateDocumentFrequencies(
+      this.embeddingProvider,
+      undefined,
+      [],
+      await this.embeddingTexts()
+    );
+
+    if (documentFrequencies) {
+      await this.registry.update(this.collectionName, { documentFrequencies });
+    }
   }
 
-  async upsertFile(file: EnhancedFile): Promise<void> {
-    await this.initialize();
+  private async documentFrequencies(): Promise<DocumentFrequencies | undefined> {
+    const record = await this.registry.get(this.collectionName);
+    return record?.documentFrequencies;
+  }
 
-    if (!file.embedding) {
-      console.warn("No embedding provided for file, generating mock embedding");
-      file.embedding = await this.getEmbedding(file.content);
-    }
+  // The texts the matching chunks were embedded from
+  private async embeddingTexts(filter?: object): Promise<string[]> {
+    const texts: string[] = [];
+    let offset: string | number | undefined = undefined;
+
+    do {
+      const page: Awaited<ReturnType<QdrantClient["scroll"]>> =
+        await this.client.scroll(this.collectionName, {
+          filter,
+          with_payload: ["content", "sectionPath"],
+          with_vector: false,
+          limit: 256,
+          offset,
+        });
 
-    const pointId = this.generatePointId(file.projectName, file.name);
-    
-    const point: FilePoint = {
-      id: pointId,
-      vector: Array.from(file.embedding),
-      payload: {
-        projectName: file.projectName,
-        fileName: file.name,
-        content: file.content,
-        contentHash: file.contentHash || "",
-        tags: file.metadata.tags,
-        created: file.metadata.created.toISOString(),
-        updated: file.metadata.updated.toISOString(),
-        lastAccessed: file.metadata.lastAccessed?.toISOString(),
-        task: file.metadata.task,
-        salience: file.metadata.salience,
-        frequency: file.metadata.frequency,
-      },
+      for (const point of page.points) {
+        texts.push(payloadEmbeddingText(point.payload as unknown as FileChunkPayload));
+      }
+
+      offset = (page.next_page_offset ?? undefined) as string | number | undefined;
+    } while (offset !== undefined);
+
+    return texts;
+  }
+
+  private fileFilter(projectName: string, fileName: string) {
+    return {
+      must: [
+        { key: "projectName", match: { value: projectName } },
+        { key: "fileName", match: { value: fileName } },
+      ],
     };
+  }
+
+  async upsertFile(file: EnhancedFile): Promise<void> {
+    await this.initialize();
+
+    const chunks = chunksOf(file);
+    // The file's own chunks count towards the frequencies it is weighted by
+    const documentFrequencies = updateDocumentFrequencies(
+      this.embeddingProvider,
+      await this.documentFrequencies(),
+      await this.embeddingTexts(this.fileFilter(file.projectName, file.name)),
+      chunks.map(chunkEmbeddingText)
+    );
+    const vectors = await embedChunks(
+      this.embeddingProvider,
+      file,
+      chunks,
+      documentFrequencies
+    );
+    const payloads = keepAccessStats(
+      buildChunkPayloads(file, chunks),
+      await this.accessStatsPayload(file.projectName, file.name)
+    );
+
+    // The previous version of the file may have had more chunks
+    await this.client.delete(this.collectionName, {
+      wait: true,
+      filter: this.fileFilter(file.projectName, file.name),
+    });
 
     await this.client.upsert(this.collectionName, {
       wait: true,
-      points: [point],
+      points: payloads.map((payload, i) => ({
+        id: chunkPointId(file.projectName, file.name, i),
+        vector: vectors[i],
+        payload: { ...payload },
+      })),
     });
+    if (documentFrequencies) {
+      await this.registry.update(this.collectionName, { documentFrequencies });
+    }
+    await this.keywordIndex?.indexFile(
+      file.projectName,
+      file.name,
+      chunks.map(chunkEmbeddingText),
+      file.contentHash
+    );
   }
 
   async deleteFile(projectName: string, fileName: string): Promise<void> {
     await this.initialize();
 
-    const pointId = this.generatePointId(projectName, fileName);
-    
+    const texts = await this.embeddingTexts(this.fileFilter(projectName, fileName));
     await this.client.delete(this.collectionName, {
       wait: true,
-      points: [pointId],
+      filter: this.fileFilter(projectName, fileName),
     });
+    const documentFrequencies = updateDocumentFrequencies(
+      this.embeddingProvider,
+      await this.documentFrequencies(),
+      texts,
+      []
+    );
+    if (documentFrequencies && texts.length > 0) {
+      await this.registry.update(this.collectionName, { documentFrequencies });
+    }
+    await this.keywordIndex?.removeFile(projectName, fileName);
+  }
+
+  async listIndexedFiles(projectName?: string): Promise<IndexedFileRef[]> {
+    await this.initialize();
+
+    const files: IndexedFileRef[] = [];
+    let offset: string | number | undefined = undefined;
+
+    // Page through the collection; Qdrant caps each scroll response
+    do {
+      const page: Awaited<ReturnType<QdrantClient["scroll"]>> =
+        await this.client.scroll(this.collectionName, {
+          // One entry per file; points from before chunking are left for reindex to replace
+          filter: {
+            must: [
+              { key: "chunkIndex", match: { value: 0 } },
+              ...(projectName
+                ? [{ key: "projectName", match: { value: projectName } }]
+                : []),
+            ],
+          },
+          with_payload: ["projectName", "fileName", "contentHash"],
+          with_vector: false,
+          limit: 256,
+          offset,
+        });
+
+      for (const point of page.points) {
+        const payload = point.payload as any;
+        files.push({
+          projectName: payload.projectName,
+          fileName: payload.fileName,
+          contentHash: payload.contentHash || "",
+        });
+      }
+
+      offset = (page.next_page_offset ?? undefined) as string | number | undefined;
+    } while (offset !== undefined);
+
+    return files;
   }
 
   async search(query: SearchQuery): Promise<SearchResult[]> {
@@ -143,6 +251,7 @@ export class QdrantVectorRepository implements VectorRepository {
 
     // Generate query embedding
     const queryEmbedding = await this.getEmbedding(query.query);
+    const limit = query.limit || 20;
 
     // Build filter conditions
     const filter: any = {
@@ -167,152 +276,149 @@ export class QdrantVectorRepository implements VectorRepository {
       });
     }
 
-    // Perform semantic search
+    // Perform semantic search over chunks
     const searchResult = await this.client.search(this.collectionName, {
       vector: Array.from(queryEmbedding),
-      limit: query.limit || 20,
+      limit: limit * CHUNK_SEARCH_OVERSAMPLING,
       filter: filter.must.length > 0 ? filter : undefined,
       with_payload: true,
     });
 
-    // Process and rank results
-    return searchResult.map((point) => this.mapQdrantPointToSearchResult(point, query));
+    const vectorPoints: ScoredChunkPoint[] = searchResult.map((point) => ({
+      score: point.score,
+      payload: point.payload as unknown as FileChunkPayload,
+    }));
+    const points = await this.fuseKeywordHits(query, vectorPoints);
+
+    // Group chunks back per file and rank
+    return Promise.all(
+      groupChunksByFile(points, limit).map(async (hits) =>
+        toSearchResult(hits, await this.loadFileContent(hits), query)
+      )
+    );
   }
 
-  private mapQdrantPointToSearchResult(point: any, query: SearchQuery): SearchResult {
-    const payload = point.payload;
-    const now = new Date();
-    
-    const updatedAt = new Date(payload.updated);
-    const createdAt = new Date(payload.created);
-    const lastAccessedAt = payload.lastAccessed ? new Date(payload.lastAccessed) : undefined;
-
-    // Calculate time-based scores
-    const daysSinceUpdate = Math.max(1, (now.getTime() - updatedAt.getTime()) / (1000 * 60 * 60 * 24));
-    const recencyScore = 1 / Math.log(daysSinceUpdate + 1);
-    
-    const frequencyScore = Math.log((payload.frequency || 0) + 1) / 10;
-    const salienceScore = payload.salience || 0.5;
-    
-    const timeDecayDays = query.timeDecayDays || 30;
-    const timeDecayScore = Math.exp(-daysSinceUpdate / timeDecayDays);
-    
-    // Semantic score from Qdrant (already normalized 0-1)
-    const semanticScore = point.score;
-
-    // Combine scores with weights
-    const combinedScore = 
-      (query.semanticWeight || 0.4) * semanticScore +
-      (query.recencyWeight || 0.2) * recencyScore +
-      (query.frequencyWeight || 0.2) * frequencyScore +
-      (query.salienceWeight || 0.2) * salienceScore * timeDecayScore;
+  // Exact terms such as identifiers and error codes rarely embed well
+  private async fuseKeywordHits(
+    query: SearchQuery,
+    vectorPoints: ScoredChunkPoint[]
+  ): Promise<ScoredChunkPoint[]> {
+    if (!this.keywordIndex) return vectorPoints;
 
-    return {
-      file: {
-        name: payload.fileName,
-        projectName: payload.projectName,
-        content: payload.content,
-        metadata: {
-          tags: payload.tags || [],
-          updated: updatedAt,
-          created: createdAt,
-          lastAccessed: lastAccessedAt,
-          task: payload.task,
-          salience: payload.salience,
-          frequency: payload.frequency,
-        },
-      },
-      scores: {
-        semantic: semanticScore,
-        recency: recencyScore,
-        frequency: frequencyScore,
-        salience: salienceScore,
-        timeDecay: timeDecayScore,
-        combined: combinedScore,
-      },
-      snippet: this.extractSnippet(payload.content, query.query),
-    };
+    const keywordHits = await this.keywordIndex.search(query.query, {
+      projectName: query.projectName,
+      limit: (query.limit || 20) * CHUNK_SEARCH_OVERSAMPLING,
+    });
+    const keywordOnly = await keywordOnlyPoints(
+      keywordHits,
+      vectorPoints,
+      query,
+      async (ids) => {
+        const points = await this.client.retrieve(this.collectionName, {
+          ids,
+          with_payload: true,
+        });
+        return points.map((point) => point.payload as unknown as FileChunkPayload);
+      }
+    );
+
+    return fuseChunkScores(
+      vectorPoints,
+      keywordHits,
+      keywordOnly,
+      query.keywordWeight ?? DEFAULT_KEYWORD_WEIGHT
+    );
   }
 
-  private extractSnippet(content: string, query: string): string {
-    const queryLower = query.toLowerCase();
-    const contentLower = content.toLowerCase();
-    const index = contentLower.indexOf(queryLower);
-    
-    if (index === -1) {
-      return content.substring(0, 200) + "...";
-    }
-    
-    const start = Math.max(0, index - 100);
-    const end = Math.min(content.length, index + queryLower.length + 100);
-    
-    return (start > 0 ? "..." : "") + 
-           content.substring(start, end) + 
-           (end < content.length ? "..." : "");
+  // The whole body lives on the first chunk, which may not be among the hits
+  private async loadFileContent(hits: ScoredChunkPoint[]): Promise<string> {
+    const content = fileContentOf(hits);
+    if (content !== undefined) return content;
+
+    const { projectName, fileName } = hits[0].payload;
+    const [first] = await this.client.retrieve(this.collectionName, {
+      ids: [chunkPointId(projectName, fileName, 0)],
+      with_payload: ["fileContent"],
+    });
+
+    return (first?.payload?.fileContent as string | undefined) ?? joinChunks(hits);
   }
 
   async getEmbedding(text: string): Promise<Float32Array> {
-    // TODO: Integrate with actual embedding service (OpenAI, Hugging Face, etc.)
-    console.warn("Mock embedding generation - implement with actual embedding model");
-    
-    // For now, generate a simple hash-based embedding for consistency
-    const embedding = new Float32Array(384);
-    const textBytes = new TextEncoder().encode(text);
-    
-    for (let i = 0; i < embedding.length; i++) {
-      // Simple hash function for consistent "embeddings"
-      let hash = 0;
-      for (let j = 0; j < textBytes.length; j++) {
-        hash = ((hash << 5) - hash + textBytes[j]) & 0xffffffff;
-      }
-      embedding[i] = (hash % 1000) / 1000 - 0.5; // Normalize to [-0.5, 0.5]
-      hash = hash * 31 + i; // Add position information
-    }
-    
-    // Normalize the vector
-    const magnitude = Math.sqrt(embedding.reduce((sum, val) => sum + val * val, 0));
-    for (let i = 0; i < embedding.length; i++) {
-      embedding[i] /= magnitude;
-    }
-    
-    return embedding;
+    return this.embeddingProvider.embed(text, await this.documentFrequencies());
   }
 
-  async updateFileAccess(projectName: string, fileName: string): Promise<void> {
+  async updateFileAccess(
+    projectName: string,
+    fileName: string,
+    count = 1,
+    accessedAt = new Date()
+  ): Promise<void> {
     await this.initialize();
 
-    const pointId = this.generatePointId(projectName, fileName);
-    
-    // Get current point
-    const points = await this.client.retrieve(this.collectionName, {
-      ids: [pointId],
-      with_payload: true,
-    });
-
-    if (points.length === 0) {
-      console.warn(`File not found for access update: ${pointId}`);
+    const current = await this.accessStatsPayload(projectName, fileName);
+    if (!current) {
+      // Removed or renamed since the access was queued; nothing to record
       return;
     }
 
-    const point = points[0];
-    const payload = point.payload as any;
-    
-    // Update access information
-    payload.lastAccessed = new Date().toISOString();
-    payload.frequency = (payload.frequency || 0) + 1;
-
-    // Update the point with new payload
-    const vectorData = Array.isArray(point.vector) ? point.vector : [];
-    await this.client.upsert(this.collectionName, {
+    // Every chunk carries the file's access statistics; only the payload is
+    // rewritten, so the vectors are neither read nor sent
+    await this.client.setPayload(this.collectionName, {
       wait: true,
-      points: [{
-        id: pointId,
-        vector: vectorData,
-        payload,
-      }],
+      filter: this.fileFilter(projectName, fileName),
+      payload: {
+        lastAccessed: latestDate(current.lastAccessed, accessedAt.toISOString()),
+        frequency: (current.frequency || 0) + count,
+      },
     });
   }
 
+  async listFileAccessStats(projectName: string): Promise<FileAccessStats[]> {
+    await this.initialize();
+
+    const stats: FileAccessStats[] = [];
+    let offset: string | number | undefined = undefined;
+
+    do {
+      const page: Awaited<ReturnType<QdrantClient["scroll"]>> =
+        await this.client.scroll(this.collectionName, {
+          filter: {
+            must: [
+              { key: "chunkIndex", match: { value: 0 } },
+              { key: "projectName", match: { value: projectName } },
+            ],
+          },
+          with_payload: ["projectName", "fileName", "frequency", "lastAccessed"],
+          with_vector: false,
+          limit: 256,
+          offset,
+        });
+
+      for (const point of page.points) {
+        stats.push(accessStatsOf(point.payload as unknown as FileChunkPayload));
+      }
+
+      offset = (page.next_page_offset ?? undefined) as string | number | undefined;
+    } while (offset !== undefined);
+
+    return stats;
+  }
+
+  // The access statistics on the file's first chunk, or null if it is not indexed
+  private async accessStatsPayload(
+    projectName: string,
+    fileName: string
+  ): Promise<AccessStatsPayload | null> {
+    const [first] = await this.client.retrieve(this.collectionName, {
+      ids: [chunkPointId(projectName, fileName, 0)],
+      with_payload: ["frequency", "lastAccessed"],
+      with_vector: false,
+    });
+
+    return first ? ((first.payload || {}) as AccessStatsPayload) : null;
+  }
+
   async getProjectStats(projectName: string): Promise<{
     totalFiles: number;
     totalEmbeddings: number;
@@ -320,7 +426,7 @@ export class QdrantVectorRepository implements VectorRepository {
   }> {
     await this.initialize();
 
-    // Count points for the project
+    // Count points and files (first chunks) for the project
     const countResult = await this.client.count(this.collectionName, {
       filter: {
         must: [{
@@ -330,9 +436,21 @@ export class QdrantVectorRepository implements VectorRepository {
       },
     });
 
+    const fileCountResult =
+      countResult.count === 0
+        ? countResult
+        : await this.client.count(this.collectionName, {
+            filter: {
+              must: [
+                { key: "projectName", match: { value: projectName } },
+                { key: "chunkIndex", match: { value: 0 } },
+              ],
+            },
+          });
+
     // Get the most recent update
     const searchResult = await this.client.search(this.collectionName, {
-      vector: new Array(384).fill(0), // Dummy vector
+      vector: new Array(this.embeddingProvider.dimension).fill(0), // Dummy vector
       limit: 1,
       filter: {
         must: [{
@@ -348,8 +466,8 @@ export class QdrantVectorRepository implements VectorRepository {
       : new Date();
 
     return {
-      totalFiles: countResult.count,
-      totalEmbeddings: countResult.count, // Same as files in this implementation
+      totalFiles: fileCountResult.count,
+      totalEmbeddings: countResult.count, // One per chunk
       lastUpdated,
     };
   }
@@ -1,5 +1,15 @@
 import path from "path";
 import fs from "fs-extra";
+import {
+  DEFAULT_HISTORY_MAX_VERSIONS,
+  DEFAULT_HISTORY_RETENTION_DAYS,
+  DEFAULT_TRASH_RETENTION_DAYS,
+  EXPORTS_DIRECTORY,
+  KEYWORD_INDEX_DIRECTORY,
+  LINK_GRAPH_DIRECTORY,
+  LOCAL_VECTOR_STORE_DIRECTORY,
+  TEMPLATES_DIRECTORY,
+} from "../../infra/filesystem/constants.js";
 
 /**
  * Resolve memory bank root path with backward compatibility
@@ -25,8 +35,10 @@ const resolveMemoryBankRoot = (): string => {
   return "./.memory_bank";
 };
 
+const rootPath = resolveMemoryBankRoot();
+
 export const env = {
-  rootPath: resolveMemoryBankRoot(),
+  rootPath,
 
   // Global memory configuration
   globalProjectName: "__GLOBAL__",
@@ -39,4 +51,94 @@ export const env = {
     port: parseInt(process.env.QDRANT_PORT || "6333"),
     apiKey: process.env.QDRANT_API_KEY,
   },
+
+  // Vector store selection: "qdrant" (default) or the embedded "local" store
+  vectorStore: {
+    provider: (process.env.VECTOR_STORE === "local" ? "local" : "qdrant") as
+      | "local"
+      | "qdrant",
+    storagePath:
+      process.env.LOCAL_VECTOR_STORE_PATH ||
+      path.join(rootPath, LOCAL_VECTOR_STORE_DIRECTORY),
+  },
+
+  // Embedding provider: fully local "lexical" (default) or any OpenAI-compatible API
+  embeddings: {
+    provider: (process.env.EMBEDDING_PROVIDER === "openai"
+      ? "openai"
+      : "lexical") as "lexical" | "openai",
+    model: process.env.EMBEDDING_MODEL,
+    dimension: process.env.EMBEDDING_DIMENSION
+      ? parseInt(process.env.EMBEDDING_DIMENSION)
+      : undefined,
+    apiUrl: process.env.EMBEDDING_API_URL,
+    apiKey: process.env.EMBEDDING_API_KEY || process.env.OPENAI_API_KEY,
+  },
+
+  // BM25 keyword index fused with vector search results
+  keywordIndex: {
+    storagePath:
+      process.env.KEYWORD_INDEX_PATH ||
+      path.join(rootPath, KEYWORD_INDEX_DIRECTORY),
+  },
+
+  // Links between files, kept up to date as files are indexed
+  linkGraph: {
+    storagePath:
+      process.env.LINK_GRAPH_PATH ||
+      path.join(rootPath, LINK_GRAPH_DIRECTORY),
+  },
+
+  // Size of the heading-aware chunks files are indexed in, in estimated tokens
+  chunking: {
+    maxTokens: parseInt(process.env.CHUNK_MAX_TOKENS || "256"),
+    overlapTokens: parseInt(process.env.CHUNK_OVERLAP_TOKENS || "32"),
+  },
+
+  // Optional filesystem watcher that re-indexes files edited outside the tools
+  watcher: {
+    enabled: process.env.MEMORY_BANK_WATCH === "true",
+    debounceMs: parseInt(process.env.MEMORY_BANK_WATCH_DEBOUNCE_MS || "500"),
+  },
+
+  // User-defined project templates, one folder per template
+  templates: {
+    path:
+      process.env.MEMORY_BANK_TEMPLATES_PATH ||
+      path.join(rootPath, TEMPLATES_DIRECTORY),
+  },
+
+  // Project bundles written by exports that name no file
+  exports: {
+    path:
+      process.env.MEMORY_BANK_EXPORTS_PATH ||
+      path.join(rootPath, EXPORTS_DIRECTORY),
+  },
+
+  // Reads and context inclusions are written to the search index in batches
+  accessTracking: {
+    flushIntervalMs: parseInt(
+      process.env.MEMORY_BANK_ACCESS_FLUSH_MS || "5000"
+    ),
+  },
+
+  // Deleted files are kept in the trash this long before they are purged
+  trash: {
+    retentionDays: parseInt(
+      process.env.MEMORY_BANK_TRASH_RETENTION_DAYS ||
+        String(DEFAULT_TRASH_RETENTION_DAYS)
+    ),
+  },
+
+  // Earlier versions of updated files, kept in each project's .history folder
+  history: {
+    maxVersions: parseInt(
+      process.env.MEMORY_BANK_HISTORY_MAX_VERSIONS ||
+        String(DEFAULT_HISTORY_MAX_VERSIONS)
+    ),
+    retentionDays: parseInt(
+      process.env.MEMORY_BANK_HISTORY_RETENTION_DAYS ||
+        String(DEFAULT_HISTORY_RETENTION_DAYS)
+    ),
+  },
 };
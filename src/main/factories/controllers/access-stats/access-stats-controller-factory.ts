@@ -0,0 +1,10 @@
+import { AccessStatsController } from "../../../../presentation/controllers/access-stats/access-stats-controller.js";
+import { makeGetAccessStats } from "../../use-cases/get-access-stats-factory.js";
+import { makeAccessStatsValidation } from "./access-stats-validation-factory.js";
+
+export const makeAccessStatsController = () => {
+  const validator = makeAccessStatsValidation();
+  const getAccessStatsUseCase = makeGetAccessStats();
+
+  return new AccessStatsController(getAccessStatsUseCase, validator);
+};
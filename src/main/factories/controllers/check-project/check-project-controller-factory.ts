@@ -0,0 +1,10 @@
+import { CheckProjectController } from "../../../../presentation/controllers/check-project/check-project-controller.js";
+import { makeCheckProject } from "../../use-cases/check-project-factory.js";
+import { makeCheckProjectValidation } from "./check-project-validation-factory.js";
+
+export const makeCheckProjectController = () => {
+  const validator = makeCheckProjectValidation();
+  const checkProjectUseCase = makeCheckProject();
+
+  return new CheckProjectController(checkProjectUseCase, validator);
+};
@@ -0,0 +1,10 @@
+import { DeleteController } from "../../../../presentation/controllers/delete/delete-controller.js";
+import { makeDeleteFile } from "../../use-cases/delete-file-factory.js";
+import { makeDeleteValidation } from "./delete-validation-factory.js";
+
+export const makeDeleteController = () => {
+  const validator = makeDeleteValidation();
+  const deleteFileUseCase = makeDeleteFile();
+
+  return new DeleteController(deleteFileUseCase, validator);
+};
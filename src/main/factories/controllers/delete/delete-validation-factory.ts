@@ -0,0 +1,24 @@
+import { Validator } from "../../../../presentation/protocols/validator.js";
+import {
+  ParamNameValidator,
+  RequiredFieldValidator,
+  ValidatorComposite,
+} from "../../../../validators/index.js";
+import { PATH_REGEX } from "../../../../validators/constants.js";
+import { PathSecurityValidator } from "../../../../validators/path-security-validator.js";
+
+const makeValidations = (): Validator[] => {
+  return [
+    new RequiredFieldValidator("projectName"),
+    new RequiredFieldValidator("fileName"),
+    new ParamNameValidator("projectName"),
+    new ParamNameValidator("fileName", PATH_REGEX),
+    new PathSecurityValidator("projectName"),
+    new PathSecurityValidator("fileName", { allowSubdirectories: true }),
+  ];
+};
+
+export const makeDeleteValidation = (): Validator => {
+  const validations = makeValidations();
+  return new ValidatorComposite(validations);
+};
@@ -0,0 +1,10 @@
+import { DiffController } from "../../../../presentation/controllers/diff/diff-controller.js";
+import { makeDiffFileVersions } from "../../use-cases/diff-file-versions-factory.js";
+import { makeDiffValidation } from "./diff-validation-factory.js";
+
+export const makeDiffController = () => {
+  const validator = makeDiffValidation();
+  const diffFileVersionsUseCase = makeDiffFileVersions();
+
+  return new DiffController(diffFileVersionsUseCase, validator);
+};
@@ -0,0 +1,10 @@
+import { EditController } from "../../../../presentation/controllers/edit/edit-controller.js";
+import { makeEditFile } from "../../use-cases/edit-file-factory.js";
+import { makeEditValidation } from "./edit-validation-factory.js";
+
+export const makeEditController = () => {
+  const validator = makeEditValidation();
+  const editFileUseCase = makeEditFile();
+
+  return new EditController(editFileUseCase, validator);
+};
@@ -0,0 +1,10 @@
+import { ExportProjectController } from "../../../../presentation/controllers/export-project/export-project-controller.js";
+import { makeExportProject } from "../../use-cases/export-project-factory.js";
+import { makeExportProjectValidation } from "./export-project-validation-factory.js";
+
+export const makeExportProjectController = () => {
+  const validator = makeExportProjectValidation();
+  const exportProjectUseCase = makeExportProject();
+
+  return new ExportProjectController(exportProjectUseCase, validator);
+};
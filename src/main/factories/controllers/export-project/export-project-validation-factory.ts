@@ -0,0 +1,21 @@
+import { Validator } from "../../../../presentation/protocols/validator.js";
+import {
+  ParamNameValidator,
+  RequiredFieldValidator,
+  ValidatorComposite,
+} from "../../../../validators/index.js";
+import { PathSecurityValidator } from "../../../../validators/path-security-validator.js";
+
+const makeValidations = (): Validator[] => {
+  return [
+    new RequiredFieldValidator("projectName"),
+    new ParamNameValidator("projectName"),
+    new PathSecurityValidator("projectName"),
+    new PathSecurityValidator("outputPath", { allowSubdirectories: true }),
+  ];
+};
+
+export const makeExportProjectValidation = (): Validator => {
+  const validations = makeValidations();
+  return new ValidatorComposite(validations);
+};
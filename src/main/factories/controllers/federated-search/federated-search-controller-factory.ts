@@ -0,0 +1,10 @@
+import { FederatedSearchController } from "../../../../presentation/controllers/federated-search/federated-search-controller.js";
+import { makeFederatedSearch } from "../../use-cases/federated-search-factory.js";
+import { makeFederatedSearchValidation } from "./federated-search-validation-factory.js";
+
+export const makeFederatedSearchController = () => {
+  const validator = makeFederatedSearchValidation();
+  const federatedSearchUseCase = makeFederatedSearch();
+
+  return new FederatedSearchController(federatedSearchUseCase, validator);
+};
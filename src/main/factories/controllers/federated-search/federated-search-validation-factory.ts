@@ -0,0 +1,20 @@
+import { Validator } from "../../../../presentation/protocols/validator.js";
+import {
+  ParamNameValidator,
+  PathSecurityValidator,
+  RequiredFieldValidator,
+  ValidatorComposite,
+} from "../../../../validators/index.js";
+
+const makeValidations = (): Validator[] => {
+  return [
+    new RequiredFieldValidator("query"),
+    new ParamNameValidator("projectName"),
+    new PathSecurityValidator("projectName"),
+  ];
+};
+
+export const makeFederatedSearchValidation = (): Validator => {
+  const validations = makeValidations();
+  return new ValidatorComposite(validations);
+};
@@ -0,0 +1,10 @@
+import { HistoryController } from "../../../../presentation/controllers/history/history-controller.js";
+import { makeListFileVersions } from "../../use-cases/list-file-versions-factory.js";
+import { makeHistoryValidation } from "./history-validation-factory.js";
+
+export const makeHistoryController = () => {
+  const validator = makeHistoryValidation();
+  const listFileVersionsUseCase = makeListFileVersions();
+
+  return new HistoryController(listFileVersionsUseCase, validator);
+};
@@ -0,0 +1,10 @@
+import { ImportProjectController } from "../../../../presentation/controllers/import-project/import-project-controller.js";
+import { makeImportProject } from "../../use-cases/import-project-factory.js";
+import { makeImportProjectValidation } from "./import-project-validation-factory.js";
+
+export const makeImportProjectController = () => {
+  const validator = makeImportProjectValidation();
+  const importProjectUseCase = makeImportProject();
+
+  return new ImportProjectController(importProjectUseCase, validator);
+};
@@ -0,0 +1,23 @@
+import { Validator } from "../../../../presentation/protocols/validator.js";
+import {
+  OneOfValidator,
+  ParamNameValidator,
+  RequiredFieldValidator,
+  ValidatorComposite,
+} from "../../../../validators/index.js";
+import { PathSecurityValidator } from "../../../../validators/path-security-validator.js";
+
+const makeValidations = (): Validator[] => {
+  return [
+    new RequiredFieldValidator("bundlePath"),
+    new ParamNameValidator("projectName"),
+    new PathSecurityValidator("projectName"),
+    new PathSecurityValidator("bundlePath", { allowSubdirectories: true }),
+    new OneOfValidator("onConflict", ["rename", "merge", "skip"]),
+  ];
+};
+
+export const makeImportProjectValidation = (): Validator => {
+  const validations = makeValidations();
+  return new ValidatorComposite(validations);
+};
@@ -1,8 +1,24 @@
+export * from "./access-stats/access-stats-controller-factory.js";
+export * from "./check-project/check-project-controller-factory.js";
 export * from "./compile-context/compile-context-controller-factory.js";
+export * from "./delete/delete-controller-factory.js";
+export * from "./diff/diff-controller-factory.js";
+export * from "./edit/edit-controller-factory.js";
+export * from "./export-project/export-project-controller-factory.js";
+export * from "./federated-search/federated-search-controller-factory.js";
+export * from "./history/history-controller-factory.js";
+export * from "./import-project/import-project-controller-factory.js";
+export * from "./init-project/init-project-controller-factory.js";
+export * from "./links/links-controller-factory.js";
 export * from "./list-project-files/list-project-files-controller-factory.js";
 export * from "./list-projects/list-projects-controller-factory.js";
 export * from "./migrate/migrate-controller-factory.js";
 export * from "./read/read-controller-factory.js";
+export * from "./read-many/read-many-controller-factory.js";
+export * from "./reindex/reindex-controller-factory.js";
+export * from "./rename/rename-controller-factory.js";
+export * from "./restore/restore-controller-factory.js";
 export * from "./search/search-controller-factory.js";
+export * from "./set-metadata/set-metadata-controller-factory.js";
 export * from "./update/update-controller-factory.js";
 export * from "./write/write-controller-factory.js";
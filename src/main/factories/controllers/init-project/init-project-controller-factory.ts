@@ -0,0 +1,10 @@
+import { InitProjectController } from "../../../../presentation/controllers/init-project/init-project-controller.js";
+import { makeInitProject } from "../../use-cases/init-project-factory.js";
+import { makeInitProjectValidation } from "./init-project-validation-factory.js";
+
+export const makeInitProjectController = () => {
+  const validator = makeInitProjectValidation();
+  const initProjectUseCase = makeInitProject();
+
+  return new InitProjectController(initProjectUseCase, validator);
+};
@@ -0,0 +1,10 @@
+import { LinksController } from "../../../../presentation/controllers/links/links-controller.js";
+import { makeGetFileLinks } from "../../use-cases/get-file-links-factory.js";
+import { makeLinksValidation } from "./links-validation-factory.js";
+
+export const makeLinksController = () => {
+  const validator = makeLinksValidation();
+  const getFileLinksUseCase = makeGetFileLinks();
+
+  return new LinksController(getFileLinksUseCase, validator);
+};
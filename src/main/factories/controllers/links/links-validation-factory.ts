@@ -0,0 +1,21 @@
+import { Validator } from "../../../../presentation/protocols/validator.js";
+import {
+  ParamNameValidator,
+  RequiredFieldValidator,
+  ValidatorComposite,
+} from "../../../../validators/index.js";
+import { PathSecurityValidator } from "../../../../validators/path-security-validator.js";
+
+const makeValidations = (): Validator[] => {
+  return [
+    new RequiredFieldValidator("projectName"),
+    new ParamNameValidator("projectName"),
+    new PathSecurityValidator("projectName"),
+    new PathSecurityValidator("fileName", { allowSubdirectories: true }),
+  ];
+};
+
+export const makeLinksValidation = (): Validator => {
+  const validations = makeValidations();
+  return new ValidatorComposite(validations);
+};
@@ -2,13 +2,22 @@ import { Validator } from "../../../../presentation/protocols/validator.js";
 import { 
   ValidatorComposite, 
   RequiredFieldValidator,
-  PathSecurityValidator 
+  PathSecurityValidator,
+  DateValidator,
+  OneOfValidator,
+  StringListValidator,
 } from "../../../../validators/index.js";
 
 const makeValidations = (): Validator[] => {
   return [
     new RequiredFieldValidator("projectName"),
     new PathSecurityValidator("projectName"),
+    new StringListValidator("include"),
+    new StringListValidator("exclude"),
+    new StringListValidator("tags"),
+    new DateValidator("updatedSince"),
+    new OneOfValidator("sortBy", ["name", "updated", "created", "size", "salience"]),
+    new OneOfValidator("order", ["asc", "desc"]),
   ];
 };
 
@@ -1,7 +1,10 @@
 import { ListProjectsController } from "../../../../presentation/controllers/list-projects/list-projects-controller.js";
 import { makeListProjects } from "../../use-cases/list-projects-factory.js";
+import { makeListProjectsValidation } from "./list-projects-validation-factory.js";
 
 export const makeListProjectsController = () => {
+  const validator = makeListProjectsValidation();
   const listProjectsUseCase = makeListProjects();
-  return new ListProjectsController(listProjectsUseCase);
+
+  return new ListProjectsController(listProjectsUseCase, validator);
 };
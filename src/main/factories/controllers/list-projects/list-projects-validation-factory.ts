@@ -0,0 +1,22 @@
+import { Validator } from "../../../../presentation/protocols/validator.js";
+import {
+  IntegerValidator,
+  OneOfValidator,
+  ParamNameValidator,
+  ValidatorComposite,
+} from "../../../../validators/index.js";
+import { MAX_PROJECT_PAGE_SIZE } from "../../../../data/usecases/list-projects/list-projects.js";
+
+const makeValidations = (): Validator[] => {
+  return [
+    new OneOfValidator("sortBy", ["name", "updated", "size", "files"]),
+    new OneOfValidator("order", ["asc", "desc"]),
+    new ParamNameValidator("cursor", /^\d+$/),
+    new IntegerValidator("limit", 1, MAX_PROJECT_PAGE_SIZE),
+  ];
+};
+
+export const makeListProjectsValidation = (): Validator => {
+  const validations = makeValidations();
+  return new ValidatorComposite(validations);
+};
@@ -0,0 +1,10 @@
+import { ReadManyController } from "../../../../presentation/controllers/read-many/read-many-controller.js";
+import { makeReadFiles } from "../../use-cases/read-files-factory.js";
+import { makeReadManyValidation } from "./read-many-validation-factory.js";
+
+export const makeReadManyController = () => {
+  const validator = makeReadManyValidation();
+  const readFilesUseCase = makeReadFiles();
+
+  return new ReadManyController(readFilesUseCase, validator);
+};
@@ -0,0 +1,23 @@
+import { Validator } from "../../../../presentation/protocols/validator.js";
+import {
+  IntegerValidator,
+  PathSecurityValidator,
+  RequiredFieldValidator,
+  StringListValidator,
+  ValidatorComposite,
+} from "../../../../validators/index.js";
+
+const makeValidations = (): Validator[] => {
+  return [
+    new RequiredFieldValidator("projectName"),
+    new PathSecurityValidator("projectName"),
+    new StringListValidator("fileNames"),
+    new PathSecurityValidator("fileNames", { allowSubdirectories: true }),
+    new IntegerValidator("maxTokens", 1),
+  ];
+};
+
+export const makeReadManyValidation = (): Validator => {
+  const validations = makeValidations();
+  return new ValidatorComposite(validations);
+};
@@ -1,6 +1,8 @@
 import { Validator } from "../../../../presentation/protocols/validator.js";
 import {
+  IntegerValidator,
   RequiredFieldValidator,
+  StringListValidator,
   ValidatorComposite,
 } from "../../../../validators/index.js";
 import { PathSecurityValidator } from "../../../../validators/path-security-validator.js";
@@ -10,7 +12,11 @@ const makeValidations = (): Validator[] => {
     new RequiredFieldValidator("projectName"),
     new RequiredFieldValidator("fileName"),
     new PathSecurityValidator("projectName"),
-    new PathSecurityValidator("fileName"),
+    new PathSecurityValidator("fileName", { allowSubdirectories: true }),
+    new IntegerValidator("startLine", 1),
+    new IntegerValidator("endLine", 1),
+    new StringListValidator("headingPath"),
+    new IntegerValidator("maxTokens", 1),
   ];
 };
 
@@ -0,0 +1,10 @@
+import { ReindexController } from "../../../../presentation/controllers/reindex/reindex-controller.js";
+import { makeReindexMemory } from "../../use-cases/reindex-memory-factory.js";
+import { makeReindexValidation } from "./reindex-validation-factory.js";
+
+export const makeReindexController = () => {
+  const validator = makeReindexValidation();
+  const reindexMemoryUseCase = makeReindexMemory();
+
+  return new ReindexController(reindexMemoryUseCase, validator);
+};
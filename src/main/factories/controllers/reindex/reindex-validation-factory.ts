@@ -0,0 +1,18 @@
+import { Validator } from "../../../../presentation/protocols/validator.js";
+import {
+  ParamNameValidator,
+  PathSecurityValidator,
+  ValidatorComposite,
+} from "../../../../validators/index.js";
+
+const makeValidations = (): Validator[] => {
+  return [
+    new ParamNameValidator("projectName"),
+    new PathSecurityValidator("projectName"),
+  ];
+};
+
+export const makeReindexValidation = (): Validator => {
+  const validations = makeValidations();
+  return new ValidatorComposite(validations);
+};
@@ -0,0 +1,10 @@
+import { RenameController } from "../../../../presentation/controllers/rename/rename-controller.js";
+import { makeRenameFile } from "../../use-cases/rename-file-factory.js";
+import { makeRenameValidation } from "./rename-validation-factory.js";
+
+export const makeRenameController = () => {
+  const validator = makeRenameValidation();
+  const renameFileUseCase = makeRenameFile();
+
+  return new RenameController(renameFileUseCase, validator);
+};
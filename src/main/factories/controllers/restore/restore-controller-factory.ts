@@ -0,0 +1,10 @@
+import { RestoreController } from "../../../../presentation/controllers/restore/restore-controller.js";
+import { makeRestoreFileVersion } from "../../use-cases/restore-file-version-factory.js";
+import { makeRestoreValidation } from "./restore-validation-factory.js";
+
+export const makeRestoreController = () => {
+  const validator = makeRestoreValidation();
+  const restoreFileVersionUseCase = makeRestoreFileVersion();
+
+  return new RestoreController(restoreFileVersionUseCase, validator);
+};
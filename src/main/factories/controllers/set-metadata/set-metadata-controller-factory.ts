@@ -0,0 +1,10 @@
+import { SetMetadataController } from "../../../../presentation/controllers/set-metadata/set-metadata-controller.js";
+import { makeSetFileMetadata } from "../../use-cases/set-file-metadata-factory.js";
+import { makeSetMetadataValidation } from "./set-metadata-validation-factory.js";
+
+export const makeSetMetadataController = () => {
+  const validator = makeSetMetadataValidation();
+  const setFileMetadataUseCase = makeSetFileMetadata();
+
+  return new SetMetadataController(setFileMetadataUseCase, validator);
+};
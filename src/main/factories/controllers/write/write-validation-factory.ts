@@ -1,9 +1,11 @@
 import { Validator } from "../../../../presentation/protocols/validator.js";
 import {
+  MetadataParamsValidator,
   ParamNameValidator,
   RequiredFieldValidator,
   ValidatorComposite,
 } from "../../../../validators/index.js";
+import { PATH_REGEX } from "../../../../validators/constants.js";
 import { PathSecurityValidator } from "../../../../validators/path-security-validator.js";
 
 const makeValidations = (): Validator[] => {
@@ -12,9 +14,10 @@ const makeValidations = (): Validator[] => {
     new RequiredFieldValidator("fileName"),
     new RequiredFieldValidator("content"),
     new ParamNameValidator("projectName"),
-    new ParamNameValidator("fileName"),
+    new ParamNameValidator("fileName", PATH_REGEX),
     new PathSecurityValidator("projectName"),
-    new PathSecurityValidator("fileName"),
+    new PathSecurityValidator("fileName", { allowSubdirectories: true }),
+    new MetadataParamsValidator(),
   ];
 };
 
@@ -0,0 +1,12 @@
+import { FsFileRepository } from "../../../infra/filesystem/index.js";
+import { env } from "../../config/env.js";
+
+// History and trash are pruned by whichever repository writes, so every one
+// must be built with the configured retention
+export const makeFileRepository = (): FsFileRepository => {
+  return new FsFileRepository(
+    env.rootPath,
+    env.trash.retentionDays,
+    env.history
+  );
+};
@@ -0,0 +1,20 @@
+import { GlobalMemoryRepository } from "../../../data/protocols/index.js";
+import {
+  LocalGlobalMemoryRepository,
+  QdrantGlobalMemoryRepository,
+} from "../../../infra/vector/index.js";
+import { env } from "../../config/env.js";
+import { makeEmbeddingProvider } from "../services/embedding-provider-factory.js";
+
+let globalMemoryRepository: GlobalMemoryRepository | null = null;
+
+export const makeGlobalMemoryRepository = (): GlobalMemoryRepository => {
+  if (!globalMemoryRepository) {
+    globalMemoryRepository =
+      env.vectorStore.provider === "local"
+        ? new LocalGlobalMemoryRepository(env.vectorStore, makeEmbeddingProvider())
+        : new QdrantGlobalMemoryRepository(env.qdrant, makeEmbeddingProvider());
+  }
+
+  return globalMemoryRepository;
+};
@@ -0,0 +1,6 @@
+export * from "./file-repository-factory.js";
+export * from "./global-memory-repository-factory.js";
+export * from "./keyword-index-factory.js";
+export * from "./link-graph-factory.js";
+export * from "./summary-repository-factory.js";
+export * from "./vector-repository-factory.js";
@@ -0,0 +1,17 @@
+import path from "path";
+import { KeywordIndex } from "../../../data/protocols/index.js";
+import { Bm25KeywordIndex } from "../../../infra/keyword/index.js";
+import { env } from "../../config/env.js";
+
+let keywordIndex: KeywordIndex | null = null;
+
+// Shared so indexing and search see the same in-memory postings
+export const makeKeywordIndex = (): KeywordIndex => {
+  if (!keywordIndex) {
+    keywordIndex = new Bm25KeywordIndex(
+      path.join(env.keywordIndex.storagePath, "memory_bank_files.json")
+    );
+  }
+
+  return keywordIndex;
+};
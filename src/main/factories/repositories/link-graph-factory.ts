@@ -0,0 +1,17 @@
+import path from "path";
+import { LinkGraph } from "../../../data/protocols/index.js";
+import { JsonLinkGraph } from "../../../infra/links/index.js";
+import { env } from "../../config/env.js";
+
+let linkGraph: LinkGraph | null = null;
+
+// Shared so indexing and link queries see the same in-memory graph
+export const makeLinkGraph = (): LinkGraph => {
+  if (!linkGraph) {
+    linkGraph = new JsonLinkGraph(
+      path.join(env.linkGraph.storagePath, "links.json")
+    );
+  }
+
+  return linkGraph;
+};
@@ -0,0 +1,20 @@
+import { SummaryRepository } from "../../../data/protocols/index.js";
+import {
+  LocalSummaryRepository,
+  QdrantSummaryRepository,
+} from "../../../infra/vector/index.js";
+import { env } from "../../config/env.js";
+import { makeEmbeddingProvider } from "../services/embedding-provider-factory.js";
+
+let summaryRepository: SummaryRepository | null = null;
+
+export const makeSummaryRepository = (): SummaryRepository => {
+  if (!summaryRepository) {
+    summaryRepository =
+      env.vectorStore.provider === "local"
+        ? new LocalSummaryRepository(env.vectorStore, makeEmbeddingProvider())
+        : new QdrantSummaryRepository(env.qdrant, makeEmbeddingProvider());
+  }
+
+  return summaryRepository;
+};
@@ -0,0 +1,30 @@
+import { VectorRepository } from "../../../data/protocols/index.js";
+import {
+  LocalVectorRepository,
+  QdrantVectorRepository,
+} from "../../../infra/vector/index.js";
+import { env } from "../../config/env.js";
+import { makeEmbeddingProvider } from "../services/embedding-provider-factory.js";
+import { makeKeywordIndex } from "./keyword-index-factory.js";
+
+let vectorRepository: VectorRepository | null = null;
+
+// Shared so every use case sees the same embedded store state
+export const makeVectorRepository = (): VectorRepository => {
+  if (!vectorRepository) {
+    vectorRepository =
+      env.vectorStore.provider === "local"
+        ? new LocalVectorRepository(
+            env.vectorStore,
+            makeEmbeddingProvider(),
+            makeKeywordIndex()
+          )
+        : new QdrantVectorRepository(
+            env.qdrant,
+            makeEmbeddingProvider(),
+            makeKeywordIndex()
+          );
+  }
+
+  return vectorRepository;
+};
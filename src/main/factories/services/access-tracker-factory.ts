@@ -0,0 +1,16 @@
+import { BatchedAccessTracker } from "../../../infra/services/index.js";
+import { env } from "../../config/env.js";
+import { makeVectorRepository } from "../repositories/index.js";
+
+let accessTracker: BatchedAccessTracker | null = null;
+
+// Shared so every use case feeds the same batches
+export const makeAccessTracker = (): BatchedAccessTracker => {
+  if (!accessTracker) {
+    accessTracker = new BatchedAccessTracker(makeVectorRepository(), {
+      flushIntervalMs: env.accessTracking.flushIntervalMs,
+    });
+  }
+
+  return accessTracker;
+};
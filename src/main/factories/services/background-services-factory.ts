@@ -0,0 +1,27 @@
+import { BackgroundService } from "../../../data/protocols/index.js";
+import { FsMemoryBankWatcher } from "../../../infra/filesystem/index.js";
+import { env } from "../../config/env.js";
+import { makeVectorRepository } from "../repositories/index.js";
+import { makeSyncFileChange } from "../use-cases/index.js";
+import { makeAccessTracker } from "./access-tracker-factory.js";
+import { makeFileIndexer } from "./file-indexer-factory.js";
+
+export const makeBackgroundServices = (): BackgroundService[] => {
+  // Stopped when the process is interrupted or the client disconnects,
+  // writing the accesses still queued
+  const services: BackgroundService[] = [makeAccessTracker()];
+
+  if (env.watcher.enabled) {
+    services.push(
+      new FsMemoryBankWatcher(
+        env.rootPath,
+        makeSyncFileChange(),
+        { debounceMs: env.watcher.debounceMs },
+        makeVectorRepository(),
+        makeFileIndexer()
+      )
+    );
+  }
+
+  return services;
+};
@@ -0,0 +1,20 @@
+import { EmbeddingProvider } from "../../../data/protocols/index.js";
+import {
+  LexicalEmbeddingProvider,
+  OpenAIEmbeddingProvider,
+} from "../../../infra/embeddings/index.js";
+import { env } from "../../config/env.js";
+
+let embeddingProvider: EmbeddingProvider | null = null;
+
+// Shared so every collection is written and queried with the same model
+export const makeEmbeddingProvider = (): EmbeddingProvider => {
+  if (!embeddingProvider) {
+    embeddingProvider =
+      env.embeddings.provider === "openai"
+        ? new OpenAIEmbeddingProvider(env.embeddings)
+        : new LexicalEmbeddingProvider(env.embeddings);
+  }
+
+  return embeddingProvider;
+};
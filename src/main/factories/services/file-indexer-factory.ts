@@ -0,0 +1,13 @@
+import { FileIndexer } from "../../../data/protocols/index.js";
+import { MarkdownChunker } from "../../../infra/parsers/index.js";
+import { VectorFileIndexer } from "../../../infra/services/index.js";
+import { env } from "../../config/env.js";
+import { makeLinkGraph, makeVectorRepository } from "../repositories/index.js";
+
+export const makeFileIndexer = (): FileIndexer => {
+  return new VectorFileIndexer(
+    makeVectorRepository(),
+    new MarkdownChunker(env.chunking),
+    makeLinkGraph()
+  );
+};
@@ -0,0 +1,7 @@
+import { FrontMatterValidator } from "../../../data/protocols/index.js";
+import { FsFrontMatterSchemaValidator } from "../../../infra/services/index.js";
+import { env } from "../../config/env.js";
+
+export const makeFrontMatterValidator = (): FrontMatterValidator => {
+  return new FsFrontMatterSchemaValidator(env.rootPath);
+};
@@ -0,0 +1,8 @@
+export * from "./access-tracker-factory.js";
+export * from "./embedding-provider-factory.js";
+export * from "./file-indexer-factory.js";
+export * from "./background-services-factory.js";
+export * from "./qdrant-schema-migrator-factory.js";
+export * from "./query-expansion-service-factory.js";
+export * from "./front-matter-validator-factory.js";
+export * from "./write-journal-factory.js";
@@ -0,0 +1,9 @@
+import {
+  MigrationProgressListener,
+  QdrantSchemaMigrator,
+} from "../../../infra/vector/index.js";
+import { env } from "../../config/env.js";
+
+export const makeQdrantSchemaMigrator = (
+  onProgress?: MigrationProgressListener
+): QdrantSchemaMigrator => QdrantSchemaMigrator.connect(env.qdrant, onProgress);
@@ -0,0 +1,7 @@
+import { QueryExpansionService } from "../../../data/protocols/index.js";
+import { MockLLMService } from "../../../infra/llm/index.js";
+import { HyDEQueryExpansionService } from "../../../infra/services/index.js";
+
+export const makeQueryExpansionService = (): QueryExpansionService => {
+  return new HyDEQueryExpansionService(new MockLLMService());
+};
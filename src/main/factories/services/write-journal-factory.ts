@@ -0,0 +1,7 @@
+import { WriteJournal } from "../../../data/protocols/index.js";
+import { FsWriteJournal } from "../../../infra/filesystem/index.js";
+import { env } from "../../config/env.js";
+
+export const makeWriteJournal = (): WriteJournal => {
+  return new FsWriteJournal(env.rootPath);
+};
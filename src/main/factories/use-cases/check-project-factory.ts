@@ -0,0 +1,13 @@
+import { CheckProject } from "../../../data/usecases/check-project/check-project.js";
+import { FsTemplateRepository } from "../../../infra/filesystem/index.js";
+import { FsProjectRepository } from "../../../infra/filesystem/repositories/fs-project-repository.js";
+import { env } from "../../config/env.js";
+import { makeFileRepository } from "../repositories/index.js";
+
+export const makeCheckProject = () => {
+  const templateRepository = new FsTemplateRepository(env.templates.path);
+  const projectRepository = new FsProjectRepository(env.rootPath);
+  const fileRepository = makeFileRepository();
+
+  return new CheckProject(templateRepository, projectRepository, fileRepository);
+};
@@ -1,12 +1,25 @@
 import { CompileContext } from "../../../data/usecases/compile-context/compile-context.js";
-import { QdrantVectorRepository, QdrantSummaryRepository } from "../../../infra/vector/index.js";
 import { MockLLMService } from "../../../infra/llm/index.js";
-import { env } from "../../config/env.js";
+import {
+  makeSummaryRepository,
+  makeVectorRepository,
+} from "../repositories/index.js";
+import {
+  makeAccessTracker,
+  makeQueryExpansionService,
+} from "../services/index.js";
 
 export const makeCompileContext = () => {
-  const vectorRepository = new QdrantVectorRepository(env.qdrant);
-  const summaryRepository = new QdrantSummaryRepository(env.qdrant);
+  const vectorRepository = makeVectorRepository();
+  const summaryRepository = makeSummaryRepository();
   const llmService = new MockLLMService();
+  const expansionService = makeQueryExpansionService();
 
-  return new CompileContext(vectorRepository, summaryRepository, llmService);
-};
\ No newline at end of file
+  return new CompileContext(
+    vectorRepository,
+    summaryRepository,
+    llmService,
+    expansionService,
+    makeAccessTracker()
+  );
+};
@@ -0,0 +1,10 @@
+import { DeleteFile } from "../../../data/usecases/delete-file/delete-file.js";
+import { makeFileRepository } from "../repositories/index.js";
+import { makeWriteJournal } from "../services/index.js";
+import { makeSyncFileChange } from "./sync-file-change-factory.js";
+
+export const makeDeleteFile = () => {
+  const fileRepository = makeFileRepository();
+
+  return new DeleteFile(fileRepository, makeSyncFileChange(), makeWriteJournal());
+};
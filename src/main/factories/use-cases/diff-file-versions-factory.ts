@@ -0,0 +1,13 @@
+import { DiffFileVersions } from "../../../data/usecases/diff-file-versions/diff-file-versions.js";
+import { UnifiedDiffGenerator } from "../../../infra/parsers/index.js";
+import { makeFileRepository } from "../repositories/index.js";
+
+export const makeDiffFileVersions = () => {
+  const fileRepository = makeFileRepository();
+
+  return new DiffFileVersions(
+    fileRepository,
+    fileRepository,
+    new UnifiedDiffGenerator()
+  );
+};
@@ -0,0 +1,10 @@
+import { EditFile } from "../../../data/usecases/edit-file/edit-file.js";
+import { MarkdownFileEditor } from "../../../infra/parsers/index.js";
+import { makeFileRepository } from "../repositories/index.js";
+import { makeUpdateFile } from "./update-file-factory.js";
+
+export const makeEditFile = () => {
+  const fileRepository = makeFileRepository();
+
+  return new EditFile(fileRepository, new MarkdownFileEditor(), makeUpdateFile());
+};
@@ -0,0 +1,25 @@
+import { ExportProject } from "../../../data/usecases/export-project/export-project.js";
+import {
+  FsProjectBundleStore,
+  FsProjectRepository,
+} from "../../../infra/filesystem/index.js";
+import { env } from "../../config/env.js";
+import {
+  makeFileRepository,
+  makeSummaryRepository,
+} from "../repositories/index.js";
+
+// No episodic memory store exists yet; bundles are exported without episodes
+export const makeExportProject = () => {
+  const projectRepository = new FsProjectRepository(env.rootPath);
+  const fileRepository = makeFileRepository();
+  const bundleStore = new FsProjectBundleStore(env.exports.path);
+
+  return new ExportProject(
+    projectRepository,
+    fileRepository,
+    fileRepository,
+    bundleStore,
+    makeSummaryRepository()
+  );
+};
@@ -0,0 +1,15 @@
+import { FederatedSearch } from "../../../data/usecases/federated-search/federated-search.js";
+import {
+  makeGlobalMemoryRepository,
+  makeSummaryRepository,
+  makeVectorRepository,
+} from "../repositories/index.js";
+
+// No episodic memory store exists yet; episodes, skills and cases report as unavailable
+export const makeFederatedSearch = () => {
+  return new FederatedSearch(
+    makeVectorRepository(),
+    makeSummaryRepository(),
+    makeGlobalMemoryRepository()
+  );
+};
@@ -0,0 +1,15 @@
+import { GetAccessStats } from "../../../data/usecases/get-access-stats/get-access-stats.js";
+import { FsProjectRepository } from "../../../infra/filesystem/repositories/fs-project-repository.js";
+import { env } from "../../config/env.js";
+import { makeVectorRepository } from "../repositories/index.js";
+import { makeAccessTracker } from "../services/index.js";
+
+export const makeGetAccessStats = () => {
+  const projectRepository = new FsProjectRepository(env.rootPath);
+
+  return new GetAccessStats(
+    projectRepository,
+    makeVectorRepository(),
+    makeAccessTracker()
+  );
+};
@@ -0,0 +1,11 @@
+import { GetFileLinks } from "../../../data/usecases/get-file-links/get-file-links.js";
+import { FsProjectRepository } from "../../../infra/filesystem/index.js";
+import { env } from "../../config/env.js";
+import { makeFileRepository, makeLinkGraph } from "../repositories/index.js";
+
+export const makeGetFileLinks = () => {
+  const projectRepository = new FsProjectRepository(env.rootPath);
+  const fileRepository = makeFileRepository();
+
+  return new GetFileLinks(makeLinkGraph(), projectRepository, fileRepository);
+};
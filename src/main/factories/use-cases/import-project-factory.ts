@@ -0,0 +1,29 @@
+import { ImportProject } from "../../../data/usecases/import-project/import-project.js";
+import {
+  FsProjectBundleStore,
+  FsProjectRepository,
+} from "../../../infra/filesystem/index.js";
+import { env } from "../../config/env.js";
+import {
+  makeFileRepository,
+  makeSummaryRepository,
+} from "../repositories/index.js";
+import { makeFileIndexer, makeWriteJournal } from "../services/index.js";
+
+// No episodic memory store exists yet; imports report bundled episodes as skipped
+export const makeImportProject = () => {
+  const projectRepository = new FsProjectRepository(env.rootPath);
+  const fileRepository = makeFileRepository();
+  const bundleStore = new FsProjectBundleStore(env.exports.path);
+
+  return new ImportProject(
+    bundleStore,
+    projectRepository,
+    fileRepository,
+    fileRepository,
+    makeFileIndexer(),
+    makeSummaryRepository(),
+    undefined,
+    makeWriteJournal()
+  );
+};
@@ -1,8 +1,26 @@
+export * from "./check-project-factory.js";
 export * from "./compile-context-factory.js";
+export * from "./delete-file-factory.js";
+export * from "./diff-file-versions-factory.js";
+export * from "./edit-file-factory.js";
+export * from "./export-project-factory.js";
+export * from "./federated-search-factory.js";
+export * from "./get-access-stats-factory.js";
+export * from "./get-file-links-factory.js";
+export * from "./import-project-factory.js";
+export * from "./init-project-factory.js";
+export * from "./list-file-versions-factory.js";
 export * from "./list-project-files-factory.js";
 export * from "./list-projects-factory.js";
 export * from "./migrate-project-factory.js";
 export * from "./read-file-factory.js";
+export * from "./read-files-factory.js";
+export * from "./reindex-memory-factory.js";
+export * from "./rename-file-factory.js";
+export * from "./replay-write-journal-factory.js";
+export * from "./restore-file-version-factory.js";
 export * from "./search-memory-factory.js";
+export * from "./set-file-metadata-factory.js";
+export * from "./sync-file-change-factory.js";
 export * from "./update-file-factory.js";
 export * from "./write-file-factory.js";
@@ -0,0 +1,12 @@
+import { InitProject } from "../../../data/usecases/init-project/init-project.js";
+import { FsTemplateRepository } from "../../../infra/filesystem/index.js";
+import { FsProjectRepository } from "../../../infra/filesystem/repositories/fs-project-repository.js";
+import { env } from "../../config/env.js";
+import { makeWriteFile } from "./write-file-factory.js";
+
+export const makeInitProject = () => {
+  const templateRepository = new FsTemplateRepository(env.templates.path);
+  const projectRepository = new FsProjectRepository(env.rootPath);
+
+  return new InitProject(templateRepository, projectRepository, makeWriteFile());
+};
@@ -0,0 +1,8 @@
+import { ListFileVersions } from "../../../data/usecases/list-file-versions/list-file-versions.js";
+import { makeFileRepository } from "../repositories/index.js";
+
+export const makeListFileVersions = () => {
+  const fileRepository = makeFileRepository();
+
+  return new ListFileVersions(fileRepository, fileRepository);
+};
@@ -1,11 +1,20 @@
 import { ListProjectFiles } from "../../../data/usecases/list-project-files/list-project-files.js";
-import { FsFileRepository } from "../../../infra/filesystem/index.js";
 import { FsProjectRepository } from "../../../infra/filesystem/repositories/fs-project-repository.js";
+import { MockLLMService } from "../../../infra/llm/index.js";
+import { YamlFrontMatterReader } from "../../../infra/parsers/index.js";
+import { MinimatchPathMatcher } from "../../../infra/services/index.js";
 import { env } from "../../config/env.js";
+import { makeFileRepository } from "../repositories/index.js";
 
 export const makeListProjectFiles = () => {
   const projectRepository = new FsProjectRepository(env.rootPath);
-  const fileRepository = new FsFileRepository(env.rootPath);
+  const fileRepository = makeFileRepository();
 
-  return new ListProjectFiles(fileRepository, projectRepository);
+  return new ListProjectFiles(
+    fileRepository,
+    projectRepository,
+    new YamlFrontMatterReader(),
+    new MinimatchPathMatcher(),
+    new MockLLMService()
+  );
 };
@@ -1,13 +1,20 @@
 import { MigrateProject } from "../../../data/usecases/migrate-project/migrate-project.js";
-import {
-  FsFileRepository,
-  FsProjectRepository,
-} from "../../../infra/filesystem/index.js";
+import { FsProjectRepository } from "../../../infra/filesystem/index.js";
+import { MarkdownLinkParser } from "../../../infra/parsers/index.js";
 import { env } from "../../config/env.js";
+import { makeFileRepository, makeLinkGraph } from "../repositories/index.js";
+import { makeFileIndexer, makeWriteJournal } from "../services/index.js";
 
 export const makeMigrateProject = () => {
-  const fileRepository = new FsFileRepository(env.rootPath);
+  const fileRepository = makeFileRepository();
   const projectRepository = new FsProjectRepository(env.rootPath);
 
-  return new MigrateProject(fileRepository, projectRepository);
+  return new MigrateProject(
+    fileRepository,
+    projectRepository,
+    makeFileIndexer(),
+    makeLinkGraph(),
+    new MarkdownLinkParser(),
+    makeWriteJournal(),
+  );
 };
@@ -1,11 +1,20 @@
 import { ReadFile } from "../../../data/usecases/read-file/read-file.js";
-import { FsFileRepository } from "../../../infra/filesystem/index.js";
 import { FsProjectRepository } from "../../../infra/filesystem/repositories/fs-project-repository.js";
+import { MockLLMService } from "../../../infra/llm/index.js";
+import { MarkdownFileEditor } from "../../../infra/parsers/index.js";
 import { env } from "../../config/env.js";
+import { makeFileRepository } from "../repositories/index.js";
+import { makeAccessTracker } from "../services/index.js";
 
 export const makeReadFile = () => {
   const projectRepository = new FsProjectRepository(env.rootPath);
-  const fileRepository = new FsFileRepository(env.rootPath);
+  const fileRepository = makeFileRepository();
 
-  return new ReadFile(fileRepository, projectRepository);
+  return new ReadFile(
+    fileRepository,
+    projectRepository,
+    new MarkdownFileEditor(),
+    new MockLLMService(),
+    makeAccessTracker()
+  );
 };
@@ -0,0 +1,12 @@
+import { ReadFiles } from "../../../data/usecases/read-files/read-files.js";
+import { FsProjectRepository } from "../../../infra/filesystem/repositories/fs-project-repository.js";
+import { env } from "../../config/env.js";
+import { makeFileRepository } from "../repositories/index.js";
+import { makeReadFile } from "./read-file-factory.js";
+
+export const makeReadFiles = () => {
+  const projectRepository = new FsProjectRepository(env.rootPath);
+  const fileRepository = makeFileRepository();
+
+  return new ReadFiles(makeReadFile(), fileRepository, projectRepository);
+};
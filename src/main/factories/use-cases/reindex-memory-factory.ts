@@ -0,0 +1,26 @@
+import { ReindexMemory } from "../../../data/usecases/reindex-memory/reindex-memory.js";
+import { FsProjectRepository } from "../../../infra/filesystem/index.js";
+import { MarkdownLinkParser } from "../../../infra/parsers/index.js";
+import { env } from "../../config/env.js";
+import {
+  makeFileRepository,
+  makeKeywordIndex,
+  makeLinkGraph,
+  makeVectorRepository,
+} from "../repositories/index.js";
+import { makeFileIndexer } from "../services/index.js";
+
+export const makeReindexMemory = () => {
+  const fileRepository = makeFileRepository();
+  const projectRepository = new FsProjectRepository(env.rootPath);
+
+  return new ReindexMemory(
+    fileRepository,
+    projectRepository,
+    makeVectorRepository(),
+    makeFileIndexer(),
+    makeKeywordIndex(),
+    makeLinkGraph(),
+    new MarkdownLinkParser()
+  );
+};
@@ -0,0 +1,17 @@
+import { RenameFile } from "../../../data/usecases/rename-file/rename-file.js";
+import { MarkdownLinkParser } from "../../../infra/parsers/index.js";
+import { makeFileRepository, makeLinkGraph } from "../repositories/index.js";
+import { makeWriteJournal } from "../services/index.js";
+import { makeSyncFileChange } from "./sync-file-change-factory.js";
+
+export const makeRenameFile = () => {
+  const fileRepository = makeFileRepository();
+
+  return new RenameFile(
+    fileRepository,
+    makeSyncFileChange(),
+    makeLinkGraph(),
+    new MarkdownLinkParser(),
+    makeWriteJournal()
+  );
+};
@@ -0,0 +1,7 @@
+import { ReplayWriteJournal } from "../../../data/usecases/replay-write-journal/replay-write-journal.js";
+import { makeWriteJournal } from "../services/index.js";
+import { makeSyncFileChange } from "./sync-file-change-factory.js";
+
+export const makeReplayWriteJournal = () => {
+  return new ReplayWriteJournal(makeWriteJournal(), makeSyncFileChange());
+};
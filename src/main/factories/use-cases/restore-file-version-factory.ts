@@ -0,0 +1,9 @@
+import { RestoreFileVersion } from "../../../data/usecases/restore-file-version/restore-file-version.js";
+import { makeFileRepository } from "../repositories/index.js";
+import { makeUpdateFile } from "./update-file-factory.js";
+
+export const makeRestoreFileVersion = () => {
+  const fileRepository = makeFileRepository();
+
+  return new RestoreFileVersion(fileRepository, makeUpdateFile());
+};
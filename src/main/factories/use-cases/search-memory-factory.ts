@@ -1,9 +1,10 @@
 import { SearchMemory } from "../../../data/usecases/search-memory/search-memory.js";
-import { QdrantVectorRepository } from "../../../infra/vector/qdrant-vector-repository.js";
-import { env } from "../../config/env.js";
+import { makeVectorRepository } from "../repositories/index.js";
+import { makeQueryExpansionService } from "../services/index.js";
 
 export const makeSearchMemory = () => {
-  const vectorRepository = new QdrantVectorRepository(env.qdrant);
+  const vectorRepository = makeVectorRepository();
+  const expansionService = makeQueryExpansionService();
 
-  return new SearchMemory(vectorRepository);
-};
\ No newline at end of file
+  return new SearchMemory(vectorRepository, expansionService);
+};
@@ -0,0 +1,9 @@
+import { SetFileMetadata } from "../../../data/usecases/set-file-metadata/set-file-metadata.js";
+import { makeFileRepository } from "../repositories/index.js";
+import { makeUpdateFile } from "./update-file-factory.js";
+
+export const makeSetFileMetadata = () => {
+  const fileRepository = makeFileRepository();
+
+  return new SetFileMetadata(fileRepository, makeUpdateFile());
+};
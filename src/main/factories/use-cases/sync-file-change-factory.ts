@@ -0,0 +1,16 @@
+import { SyncFileChange } from "../../../data/usecases/sync-file-change/sync-file-change.js";
+import {
+  makeFileRepository,
+  makeSummaryRepository,
+} from "../repositories/index.js";
+import { makeFileIndexer } from "../services/index.js";
+
+export const makeSyncFileChange = () => {
+  const fileRepository = makeFileRepository();
+
+  return new SyncFileChange(
+    fileRepository,
+    makeFileIndexer(),
+    makeSummaryRepository()
+  );
+};
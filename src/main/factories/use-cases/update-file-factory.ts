@@ -1,11 +1,24 @@
 import { UpdateFile } from "../../../data/usecases/update-file/update-file.js";
-import { FsFileRepository } from "../../../infra/filesystem/index.js";
+import { YamlFrontMatterEditor } from "../../../infra/parsers/index.js";
 import { FsProjectRepository } from "../../../infra/filesystem/repositories/fs-project-repository.js";
 import { env } from "../../config/env.js";
+import { makeFileRepository } from "../repositories/index.js";
+import {
+  makeFileIndexer,
+  makeFrontMatterValidator,
+  makeWriteJournal,
+} from "../services/index.js";
 
 export const makeUpdateFile = () => {
   const projectRepository = new FsProjectRepository(env.rootPath);
-  const fileRepository = new FsFileRepository(env.rootPath);
+  const fileRepository = makeFileRepository();
 
-  return new UpdateFile(fileRepository, projectRepository);
+  return new UpdateFile(
+    fileRepository,
+    projectRepository,
+    makeFileIndexer(),
+    makeFrontMatterValidator(),
+    new YamlFrontMatterEditor(),
+    makeWriteJournal()
+  );
 };
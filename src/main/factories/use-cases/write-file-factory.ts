@@ -1,11 +1,24 @@
 import { WriteFile } from "../../../data/usecases/write-file/write-file.js";
-import { FsFileRepository } from "../../../infra/filesystem/index.js";
+import { YamlFrontMatterEditor } from "../../../infra/parsers/index.js";
 import { FsProjectRepository } from "../../../infra/filesystem/repositories/fs-project-repository.js";
 import { env } from "../../config/env.js";
+import { makeFileRepository } from "../repositories/index.js";
+import {
+  makeFileIndexer,
+  makeFrontMatterValidator,
+  makeWriteJournal,
+} from "../services/index.js";
 
 export const makeWriteFile = () => {
   const projectRepository = new FsProjectRepository(env.rootPath);
-  const fileRepository = new FsFileRepository(env.rootPath);
+  const fileRepository = makeFileRepository();
 
-  return new WriteFile(fileRepository, projectRepository);
+  return new WriteFile(
+    fileRepository,
+    projectRepository,
+    makeFileIndexer(),
+    makeFrontMatterValidator(),
+    new YamlFrontMatterEditor(),
+    makeWriteJournal()
+  );
 };
@@ -2,6 +2,7 @@
 
 import app from "./protocols/mcp/app.js";
 
+app.stopOnExit();
 app.start().catch((error) => {
   console.error(error);
   process.exit(1);
@@ -6,6 +6,14 @@ import { Controller } from "../../../../presentation/protocols/controller.js";
 import { serializeError } from "../helpers/serialize-error.js";
 import { MCPRequestHandler } from "./mcp-router-adapter.js";
 
+// Structured results are returned as JSON; strings and lists of strings keep their text form
+const formatBody = (body: unknown): string | undefined =>
+  body !== null &&
+  typeof body === "object" &&
+  !(Array.isArray(body) && body.every((item) => typeof item === "string"))
+    ? JSON.stringify(body, null, 2)
+    : body?.toString();
+
 export const adaptMcpRequestHandler = async <
   T extends any,
   R extends Error | any
@@ -29,8 +37,12 @@ export const adaptMcpRequestHandler = async <
           type: "text",
           text: isError
             ? JSON.stringify(serializeError(response.body))
-            : response.body?.toString(),
+            : formatBody(response.body),
         },
+        // Kept separate so the body, e.g. a file's content, stays verbatim
+        ...(response.metadata
+          ? [{ type: "text", text: JSON.stringify(response.metadata) }]
+          : []),
       ],
     };
   };
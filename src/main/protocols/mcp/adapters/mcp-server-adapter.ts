@@ -7,12 +7,18 @@ import {
   McpError,
   ServerResult as MCPResponse,
 } from "@modelcontextprotocol/sdk/types.js";
+import { BackgroundService } from "../../../../data/protocols/background-service.js";
+import { ReplayWriteJournalUseCase } from "../../../../domain/usecases/replay-write-journal.js";
 import { McpRouterAdapter } from "./mcp-router-adapter.js";
 
 export class McpServerAdapter {
   private server: Server | null = null;
 
-  constructor(private readonly mcpRouter: McpRouterAdapter) {}
+  constructor(
+    private readonly mcpRouter: McpRouterAdapter,
+    private readonly backgroundServices: BackgroundService[] = [],
+    private readonly replayWriteJournal?: ReplayWriteJournalUseCase
+  ) {}
 
   public register({ name, version }: { name: string; version: string }) {
     this.server = new Server(
@@ -52,6 +58,9 @@ export class McpServerAdapter {
       throw new Error("Server not initialized");
     }
 
+    // Changes a crash left unfinished are synced before any request is served
+    await this.replayJournal();
+
     const transport = new StdioServerTransport();
     try {
       await this.server.connect(transport);
@@ -59,5 +68,69 @@ export class McpServerAdapter {
     } catch (error) {
       console.error(error);
     }
+
+    // Optional services must never keep the server from answering requests
+    for (const service of this.backgroundServices) {
+      try {
+        await service.start();
+      } catch (error) {
+        console.error("Failed to start background service:", error);
+      }
+    }
+  }
+
+  private async replayJournal(): Promise<void> {
+    if (!this.replayWriteJournal) return;
+
+    try {
+      const { replayed, failed } = await this.replayWriteJournal.replay();
+      if (replayed.length > 0) {
+        console.error(`Replayed ${replayed.length} unfinished changes from the write journal`);
+      }
+      for (const { operation, projectName, fileNames, error } of failed) {
+        console.error(
+          `Failed to replay ${operation} of ${projectName}/${fileNames.join(", ")}: ${error}`
+        );
+      }
+    } catch (error) {
+      console.error("Failed to replay the write journal:", error);
+    }
+  }
+
+  /**
+   * Stops the server when the process is interrupted or terminated, or the
+   * client closes stdin, so background services write what they still hold
+   * before the process exits
+   */
+  stopOnExit(): void {
+    const onExit = () => {
+      process.off("SIGINT", onExit);
+      process.off("SIGTERM", onExit);
+      process.stdin.off("close", onExit);
+
+      this.stop().then(
+        () => process.exit(0),
+        (error) => {
+          console.error("Failed to stop the server:", error);
+          process.exit(1);
+        }
+      );
+    };
+
+    process.on("SIGINT", onExit);
+    process.on("SIGTERM", onExit);
+    process.stdin.on("close", onExit);
+  }
+
+  async stop(): Promise<void> {
+    // One failing service must not keep the others from finishing their work
+    for (const service of this.backgroundServices) {
+      try {
+        await service.stop();
+      } catch (error) {
+        console.error("Failed to stop background service:", error);
+      }
+    }
+    await this.server?.close();
   }
 }
@@ -1,8 +1,14 @@
 import { McpServerAdapter } from "./adapters/mcp-server-adapter.js";
+import { makeBackgroundServices } from "../../factories/services/index.js";
+import { makeReplayWriteJournal } from "../../factories/use-cases/index.js";
 import routes from "./routes.js";
 
 const router = routes();
-const app = new McpServerAdapter(router);
+const app = new McpServerAdapter(
+  router,
+  makeBackgroundServices(),
+  makeReplayWriteJournal()
+);
 
 app.register({
   name: "memory-bank",
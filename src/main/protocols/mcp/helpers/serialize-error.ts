@@ -4,6 +4,7 @@ interface SerializedError {
   stack?: string;
   cause?: string | SerializedError;
   code?: string | number;
+  details?: Record<string, unknown>;
 }
 
 export const serializeError = (
@@ -34,6 +35,14 @@ export const serializeError = (
       serialized.code = error.code;
     }
 
+    if (
+      "details" in error &&
+      error.details !== null &&
+      typeof error.details === "object"
+    ) {
+      serialized.details = error.details as Record<string, unknown>;
+    }
+
     return serialized;
   }
 
@@ -1,26 +1,93 @@
 import {
+  makeAccessStatsController,
+  makeCheckProjectController,
   makeCompileContextController,
+  makeDeleteController,
+  makeDiffController,
+  makeEditController,
+  makeExportProjectController,
+  makeFederatedSearchController,
+  makeHistoryController,
+  makeImportProjectController,
+  makeInitProjectController,
+  makeLinksController,
   makeListProjectFilesController,
   makeListProjectsController,
   makeMigrateController,
   makeReadController,
+  makeReadManyController,
+  makeReindexController,
+  makeRenameController,
+  makeRestoreController,
   makeSearchController,
+  makeSetMetadataController,
   makeUpdateController,
   makeWriteController,
 } from "../../factories/controllers/index.js";
 import { adaptMcpRequestHandler } from "./adapters/mcp-request-adapter.js";
 import { McpRouterAdapter } from "./adapters/mcp-router-adapter.js";
 
+// Front matter the write tools set for the caller; see MetadataRequest
+const metadataProperties = {
+  tags: {
+    type: "array",
+    items: { type: "string" },
+    description: "Tags for the file's front matter, replacing any it has",
+  },
+  salience: {
+    type: "number",
+    minimum: 0,
+    maximum: 1,
+    description: "How important the file is for search ranking, from 0 to 1",
+  },
+  task: {
+    type: "string",
+    description: "The task the file belongs to",
+  },
+  metadata: {
+    type: "object",
+    description:
+      "Custom front matter fields, merged with the ones the file has; created and updated are set automatically",
+  },
+};
+
 export default () => {
   const router = new McpRouterAdapter();
 
   router.setTool({
     schema: {
       name: "list_projects",
-      description: "List all projects in the memory bank",
+      description:
+        "List the projects in the memory bank with the description, owners, tags and repository from their project.yaml, file count, total size, last update and how much of each is in the search index",
       inputSchema: {
         type: "object",
-        properties: {},
+        properties: {
+          sortBy: {
+            type: "string",
+            enum: ["name", "updated", "size", "files"],
+            description: "Field to sort by (default: \"name\")",
+          },
+          order: {
+            type: "string",
+            enum: ["asc", "desc"],
+            description:
+              "Sort order (default: ascending by name, otherwise newest, largest or most files first)",
+          },
+          tag: {
+            type: "string",
+            description: "Only projects whose project.yaml has this tag",
+          },
+          cursor: {
+            type: "string",
+            description: "The nextCursor of the previous page",
+          },
+          limit: {
+            type: "number",
+            minimum: 1,
+            maximum: 200,
+            description: "Projects per page (default: 50)",
+          },
+        },
         required: [],
       },
     },
@@ -30,7 +97,8 @@ export default () => {
   router.setTool({
     schema: {
       name: "list_project_files",
-      description: "List all files within a specific project",
+      description:
+        "List the files within a specific project, including those in subfolders (as paths such as decisions/adr-001.md), with their size, token count, created/updated times, tags, salience, task and content hash",
       inputSchema: {
         type: "object",
         properties: {
@@ -38,6 +106,43 @@ export default () => {
             type: "string",
             description: "The name of the project",
           },
+          include: {
+            type: "array",
+            items: { type: "string" },
+            description:
+              "Glob patterns of the files to list, such as \"decisions/**\" or \"*.md\"; all files if omitted",
+          },
+          exclude: {
+            type: "array",
+            items: { type: "string" },
+            description: "Glob patterns of files to leave out",
+          },
+          tags: {
+            type: "array",
+            items: { type: "string" },
+            description: "Only list files tagged with every one of these tags",
+          },
+          updatedSince: {
+            type: "string",
+            description:
+              "ISO date; only list files updated at or after it",
+          },
+          sortBy: {
+            type: "string",
+            enum: ["name", "updated", "created", "size", "salience"],
+            description: "Field to sort by (default: name)",
+          },
+          order: {
+            type: "string",
+            enum: ["asc", "desc"],
+            description:
+              "Sort order (default: asc for name, desc for the others)",
+          },
+          tree: {
+            type: "boolean",
+            description:
+              "Return the files as a directory tree instead of a flat list of paths",
+          },
         },
         required: ["projectName"],
       },
@@ -45,10 +150,123 @@ export default () => {
     handler: adaptMcpRequestHandler(makeListProjectFilesController()),
   });
 
+  router.setTool({
+    schema: {
+      name: "memory_bank_init_project",
+      description:
+        "Create a project from a template. The built-in \"default\" template creates the core files (projectbrief, productContext, activeContext, systemPatterns, techContext, progress); files the project already has are kept, so this also adds missing core files to an existing project",
+      inputSchema: {
+        type: "object",
+        properties: {
+          projectName: {
+            type: "string",
+            description: "The name of the project",
+          },
+          template: {
+            type: "string",
+            description:
+              "A built-in template or a folder in the templates directory (default: \"default\")",
+          },
+          variables: {
+            type: "object",
+            additionalProperties: { type: "string" },
+            description:
+              "Values for the template's {{placeholders}}; {{projectName}} and {{date}} are filled in automatically",
+          },
+        },
+        required: ["projectName"],
+      },
+    },
+    handler: adaptMcpRequestHandler(makeInitProjectController()),
+  });
+
+  router.setTool({
+    schema: {
+      name: "memory_bank_check_project",
+      description:
+        "Report which core files of a template a project is missing or has left empty",
+      inputSchema: {
+        type: "object",
+        properties: {
+          projectName: {
+            type: "string",
+            description: "The name of the project",
+          },
+          template: {
+            type: "string",
+            description: "The template to check against (default: \"default\")",
+          },
+        },
+        required: ["projectName"],
+      },
+    },
+    handler: adaptMcpRequestHandler(makeCheckProjectController()),
+  });
+
+  router.setTool({
+    schema: {
+      name: "memory_bank_export_project",
+      description:
+        "Export a project to a single bundle file: its files with their front matter, version history, summaries and a manifest of checksums. The bundle can be imported into another memory bank",
+      inputSchema: {
+        type: "object",
+        properties: {
+          projectName: {
+            type: "string",
+            description: "The name of the project",
+          },
+          outputPath: {
+            type: "string",
+            description:
+              "File in the exports folder to write the bundle to, compressed if it ends in .gz (default: a new .json.gz file)",
+          },
+          overwrite: {
+            type: "boolean",
+            description:
+              "Replace the bundle at outputPath if it already exists (default: false)",
+          },
+        },
+        required: ["projectName"],
+      },
+    },
+    handler: adaptMcpRequestHandler(makeExportProjectController()),
+  });
+
+  router.setTool({
+    schema: {
+      name: "memory_bank_import_project",
+      description:
+        "Import a project from a bundle written by memory_bank_export_project. The bundle's checksums are verified first, and imported files are indexed for search",
+      inputSchema: {
+        type: "object",
+        properties: {
+          bundlePath: {
+            type: "string",
+            description: "The bundle file to import, in the exports folder",
+          },
+          projectName: {
+            type: "string",
+            description:
+              "Project to import into (default: the name the project was exported under)",
+          },
+          onConflict: {
+            type: "string",
+            enum: ["rename", "merge", "skip"],
+            description:
+              "If the project exists: import under the next free name (name-2, name-3, ...), merge the bundle's files into it, or skip the import (default: \"rename\")",
+          },
+        },
+        required: ["bundlePath"],
+      },
+    },
+    handler: adaptMcpRequestHandler(makeImportProjectController()),
+  });
+
   router.setTool({
     schema: {
       name: "memory_bank_read",
-      description: "Read a memory bank file for a specific project",
+      description:
+        "Read a memory bank file for a specific project, or part of it by line range or heading. The file's contentHash is returned after the content, with the lines read when it is only part of the file; pass the hash as expectedHash when updating or editing the file",
       inputSchema: {
         type: "object",
         properties: {
@@ -58,7 +276,31 @@ export default () => {
           },
           fileName: {
             type: "string",
-            description: "The name of the file",
+            description:
+              "The name of the file, which may be in a subfolder (e.g. decisions/adr-001.md)",
+          },
+          startLine: {
+            type: "number",
+            minimum: 1,
+            description:
+              "First line to read, counted from 1 including the front matter",
+          },
+          endLine: {
+            type: "number",
+            minimum: 1,
+            description: "Last line to read (default: the end of the file)",
+          },
+          headingPath: {
+            type: "array",
+            items: { type: "string" },
+            description:
+              "Read only the section under this heading, given with as many parent headings as needed to tell it apart, e.g. [\"Decisions\", \"Auth\"]",
+          },
+          maxTokens: {
+            type: "number",
+            minimum: 1,
+            description:
+              "Cut the content to about this many tokens; a marker at the end says which line to continue from",
           },
         },
         required: ["projectName", "fileName"],
@@ -67,6 +309,36 @@ export default () => {
     handler: adaptMcpRequestHandler(makeReadController()),
   });
 
+  router.setTool({
+    schema: {
+      name: "memory_bank_read_many",
+      description:
+        "Read several files of a project, or all of them, in one call. Each file comes back with its content and contentHash, or with an error if it couldn't be read",
+      inputSchema: {
+        type: "object",
+        properties: {
+          projectName: {
+            type: "string",
+            description: "The name of the project",
+          },
+          fileNames: {
+            type: "array",
+            items: { type: "string" },
+            description:
+              "The files to read, which may be in subfolders; every file in the project if omitted",
+          },
+          maxTokens: {
+            type: "number",
+            minimum: 1,
+            description: "Cut each file to about this many tokens",
+          },
+        },
+        required: ["projectName"],
+      },
+    },
+    handler: adaptMcpRequestHandler(makeReadManyController()),
+  });
+
   router.setTool({
     schema: {
       name: "memory_bank_write",
@@ -80,12 +352,14 @@ export default () => {
           },
           fileName: {
             type: "string",
-            description: "The name of the file",
+            description:
+              "The name of the file; a path such as decisions/adr-001.md creates it in a subfolder",
           },
           content: {
             type: "string",
             description: "The content of the file",
           },
+          ...metadataProperties,
         },
         required: ["projectName", "fileName", "content"],
       },
@@ -112,6 +386,17 @@ export default () => {
             type: "string",
             description: "The content of the file",
           },
+          expectedHash: {
+            type: "string",
+            description:
+              "contentHash from memory_bank_read; the update is rejected with a conflict carrying the current hash if the file changed since",
+          },
+          changeNote: {
+            type: "string",
+            description:
+              "Optional note on why the file changed, kept in its version history",
+          },
+          ...metadataProperties,
         },
         required: ["projectName", "fileName", "content"],
       },
@@ -119,6 +404,270 @@ export default () => {
     handler: adaptMcpRequestHandler(makeUpdateController()),
   });
 
+  router.setTool({
+    schema: {
+      name: "memory_bank_edit",
+      description:
+        "Edit part of a memory bank file without resending it: append, prepend, replace or insert under a markdown heading, or apply a unified diff. Front matter is preserved; nothing is saved if any edit does not apply",
+      inputSchema: {
+        type: "object",
+        properties: {
+          projectName: {
+            type: "string",
+            description: "The name of the project",
+          },
+          fileName: {
+            type: "string",
+            description: "The name of the file",
+          },
+          edits: {
+            type: "array",
+            description: "Edits applied in order",
+            minItems: 1,
+            items: {
+              type: "object",
+              properties: {
+                operation: {
+                  type: "string",
+                  enum: [
+                    "append",
+                    "prepend",
+                    "replace_section",
+                    "insert_after_heading",
+                    "apply_patch",
+                  ],
+                  description: "The kind of edit",
+                },
+                content: {
+                  type: "string",
+                  description:
+                    "Text to add, or the new body of the section (all but apply_patch)",
+                },
+                headingPath: {
+                  type: "array",
+                  items: {
+                    type: "string",
+                  },
+                  description:
+                    "Heading of the section, optionally preceded by its parent headings, e.g. [\"Progress\", \"Next\"] (replace_section, insert_after_heading)",
+                },
+                patch: {
+                  type: "string",
+                  description:
+                    "Unified diff against the file as read, front matter included (apply_patch)",
+                },
+              },
+              required: ["operation"],
+            },
+          },
+          expectedHash: {
+            type: "string",
+            description:
+              "contentHash from memory_bank_read; the edit is rejected with a conflict if the file changed since",
+          },
+          changeNote: {
+            type: "string",
+            description:
+              "Optional note on why the file changed, kept in its version history",
+          },
+        },
+        required: ["projectName", "fileName", "edits"],
+      },
+    },
+    handler: adaptMcpRequestHandler(makeEditController()),
+  });
+
+  router.setTool({
+    schema: {
+      name: "memory_bank_set_metadata",
+      description:
+        "Change the tags, salience, task or custom front matter of a memory bank file without touching its body. The file is re-indexed so search uses the new metadata at once",
+      inputSchema: {
+        type: "object",
+        properties: {
+          projectName: {
+            type: "string",
+            description: "The name of the project",
+          },
+          fileName: {
+            type: "string",
+            description: "The name of the file",
+          },
+          ...metadataProperties,
+          expectedHash: {
+            type: "string",
+            description:
+              "contentHash from memory_bank_read; the change is rejected with a conflict if the file changed since",
+          },
+        },
+        required: ["projectName", "fileName"],
+      },
+    },
+    handler: adaptMcpRequestHandler(makeSetMetadataController()),
+  });
+
+  router.setTool({
+    schema: {
+      name: "memory_bank_delete",
+      description:
+        "Delete a memory bank file. The file is moved to the trash, where it stays recoverable until the retention window passes",
+      inputSchema: {
+        type: "object",
+        properties: {
+          projectName: {
+            type: "string",
+            description: "The name of the project",
+          },
+          fileName: {
+            type: "string",
+            description: "The name of the file to delete",
+          },
+        },
+        required: ["projectName", "fileName"],
+      },
+    },
+    handler: adaptMcpRequestHandler(makeDeleteController()),
+  });
+
+  router.setTool({
+    schema: {
+      name: "memory_bank_rename",
+      description:
+        "Rename a memory bank file; its search index entries move to the new name and links to it from other files are updated",
+      inputSchema: {
+        type: "object",
+        properties: {
+          projectName: {
+            type: "string",
+            description: "The name of the project",
+          },
+          fileName: {
+            type: "string",
+            description: "The current name of the file",
+          },
+          newFileName: {
+            type: "string",
+            description:
+              "The new name of the file; a path with folders moves it to another subfolder",
+          },
+        },
+        required: ["projectName", "fileName", "newFileName"],
+      },
+    },
+    handler: adaptMcpRequestHandler(makeRenameController()),
+  });
+
+  router.setTool({
+    schema: {
+      name: "memory_bank_links",
+      description:
+        "Show the links of a memory bank file or project: outgoing links, backlinks from other files and broken links. Both [[folder/file]] / [[project:file#heading]] wiki links and relative markdown links count",
+      inputSchema: {
+        type: "object",
+        properties: {
+          projectName: {
+            type: "string",
+            description: "The name of the project",
+          },
+          fileName: {
+            type: "string",
+            description: "The file to report on; the whole project if omitted",
+          },
+        },
+        required: ["projectName"],
+      },
+    },
+    handler: adaptMcpRequestHandler(makeLinksController()),
+  });
+
+  router.setTool({
+    schema: {
+      name: "memory_bank_history",
+      description:
+        "List the earlier versions of a memory bank file, newest first. A version is saved each time an update or edit replaces the file's content",
+      inputSchema: {
+        type: "object",
+        properties: {
+          projectName: {
+            type: "string",
+            description: "The name of the project",
+          },
+          fileName: {
+            type: "string",
+            description: "The name of the file",
+          },
+        },
+        required: ["projectName", "fileName"],
+      },
+    },
+    handler: adaptMcpRequestHandler(makeHistoryController()),
+  });
+
+  router.setTool({
+    schema: {
+      name: "memory_bank_diff",
+      description:
+        "Show a unified diff between two versions of a memory bank file",
+      inputSchema: {
+        type: "object",
+        properties: {
+          projectName: {
+            type: "string",
+            description: "The name of the project",
+          },
+          fileName: {
+            type: "string",
+            description: "The name of the file",
+          },
+          fromVersionId: {
+            type: "string",
+            description:
+              'A version id from memory_bank_history, or "current" for the current content',
+          },
+          toVersionId: {
+            type: "string",
+            description:
+              'A version id from memory_bank_history, or "current" (default)',
+          },
+        },
+        required: ["projectName", "fileName", "fromVersionId"],
+      },
+    },
+    handler: adaptMcpRequestHandler(makeDiffController()),
+  });
+
+  router.setTool({
+    schema: {
+      name: "memory_bank_restore",
+      description:
+        "Restore an earlier version of a memory bank file. The content it replaces is saved to the history, so a restore can be undone too",
+      inputSchema: {
+        type: "object",
+        properties: {
+          projectName: {
+            type: "string",
+            description: "The name of the project",
+          },
+          fileName: {
+            type: "string",
+            description: "The name of the file",
+          },
+          versionId: {
+            type: "string",
+            description: "A version id from memory_bank_history",
+          },
+          expectedHash: {
+            type: "string",
+            description:
+              "contentHash from memory_bank_read; the restore is rejected with a conflict if the file changed since",
+          },
+        },
+        required: ["projectName", "fileName", "versionId"],
+      },
+    },
+    handler: adaptMcpRequestHandler(makeRestoreController()),
+  });
+
   router.setTool({
     schema: {
       name: "memory_search",
@@ -154,6 +703,13 @@ export default () => {
             minimum: 0,
             maximum: 1,
           },
+          keywordWeight: {
+            type: "number",
+            description:
+              "Share of the BM25 keyword match in chunk relevance, used to find exact identifiers (default: 0.3)",
+            minimum: 0,
+            maximum: 1,
+          },
           recencyWeight: {
             type: "number",
             description: "Weight for recency score (default: 0.2)",
@@ -177,6 +733,12 @@ export default () => {
             description: "Days for time decay calculation (default: 30)",
             minimum: 1,
           },
+          expansion: {
+            type: "string",
+            enum: ["none", "hyde", "keyword", "semantic", "hybrid"],
+            description:
+              "Also search with expanded queries (HyDE document, keywords or variations) and merge the results; the expansion used is returned (default: none)",
+          },
         },
         required: ["query"],
       },
@@ -244,6 +806,12 @@ export default () => {
             minimum: 0,
             maximum: 1,
           },
+          expansion: {
+            type: "string",
+            enum: ["none", "hyde", "keyword", "semantic", "hybrid"],
+            description:
+              "Query expansion used to find files; the expansion used is returned (default: none)",
+          },
         },
         required: ["query"],
       },
@@ -298,5 +866,104 @@ export default () => {
     handler: adaptMcpRequestHandler(makeMigrateController()),
   });
 
+  router.setTool({
+    schema: {
+      name: "memory_reindex",
+      description:
+        "Reconcile the search index with the memory bank files: index new and changed files and remove entries for deleted files",
+      inputSchema: {
+        type: "object",
+        properties: {
+          projectName: {
+            type: "string",
+            description: "Optional project to reindex (default: all projects)",
+          },
+          dryRun: {
+            type: "boolean",
+            description:
+              "Report added/updated/removed files without changing the index (default: false)",
+          },
+          force: {
+            type: "boolean",
+            description:
+              "Re-embed unchanged files too, e.g. after changing the embedding model (default: false)",
+          },
+        },
+        required: [],
+      },
+    },
+    handler: adaptMcpRequestHandler(makeReindexController()),
+  });
+
+  router.setTool({
+    schema: {
+      name: "memory_bank_access_stats",
+      description:
+        "Show the hottest and coldest files of a project: how often each was read or included in compiled context, and when last. Search ranks by these through frequency and recency",
+      inputSchema: {
+        type: "object",
+        properties: {
+          projectName: {
+            type: "string",
+            description: "The name of the project",
+          },
+          limit: {
+            type: "number",
+            description: "Files listed as hottest and as coldest (default 10)",
+          },
+        },
+        required: ["projectName"],
+      },
+    },
+    handler: adaptMcpRequestHandler(makeAccessStatsController()),
+  });
+
+  router.setTool({
+    schema: {
+      name: "memory_federated_search",
+      description:
+        "Search files, summaries, episodes, skills, cases and global memories at once; each result is tagged with its source",
+      inputSchema: {
+        type: "object",
+        properties: {
+          query: {
+            type: "string",
+            description: "The search query text",
+          },
+          projectName: {
+            type: "string",
+            description:
+              "Optional project to scope files, summaries and episodes to (summaries require it)",
+          },
+          sources: {
+            type: "array",
+            items: {
+              type: "string",
+              enum: ["file", "summary", "episode", "skill", "case", "global"],
+            },
+            description: "Sources to search (default: all)",
+          },
+          limit: {
+            type: "number",
+            description: "Maximum number of results across all sources (default: 20)",
+            minimum: 1,
+            maximum: 100,
+          },
+          quotas: {
+            type: "object",
+            additionalProperties: {
+              type: "number",
+              minimum: 0,
+            },
+            description:
+              "Results reserved per source, e.g. { \"file\": 5 } (default: an equal share of the limit)",
+          },
+        },
+        required: ["query"],
+      },
+    },
+    handler: adaptMcpRequestHandler(makeFederatedSearchController()),
+  });
+
   return router;
 };
@@ -0,0 +1,50 @@
+import {
+  badRequest,
+  notFound,
+  ok,
+  serverError,
+} from "../../helpers/index.js";
+import {
+  AccessStatsRequest,
+  AccessStatsResponse,
+  Controller,
+  GetAccessStatsUseCase,
+  Request,
+  Response,
+  Validator,
+} from "./protocols.js";
+
+export class AccessStatsController
+  implements Controller<AccessStatsRequest, AccessStatsResponse>
+{
+  constructor(
+    private readonly getAccessStatsUseCase: GetAccessStatsUseCase,
+    private readonly validator: Validator
+  ) {}
+
+  async handle(
+    request: Request<AccessStatsRequest>
+  ): Promise<Response<AccessStatsResponse>> {
+    try {
+      const validationError = this.validator.validate(request.body);
+      if (validationError) {
+        return badRequest(validationError);
+      }
+
+      const { projectName, limit } = request.body!;
+
+      const report = await this.getAccessStatsUseCase.getAccessStats({
+        projectName,
+        limit,
+      });
+
+      if (report === null) {
+        return notFound(projectName);
+      }
+
+      return ok(report);
+    } catch (error) {
+      return serverError(error as Error);
+    }
+  }
+}
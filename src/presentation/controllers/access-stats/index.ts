@@ -0,0 +1,2 @@
+export * from "./protocols.js";
+export * from "./access-stats-controller.js";
@@ -0,0 +1,29 @@
+import { GetAccessStatsUseCase } from "../../../domain/usecases/get-access-stats.js";
+import { FileAccessReport } from "../../../domain/entities/index.js";
+import { NotFoundError } from "../../errors/index.js";
+import {
+  Controller,
+  Request,
+  Response,
+  Validator,
+} from "../../protocols/index.js";
+
+export interface AccessStatsRequest {
+  projectName: string;
+
+  /**
+   * Files listed as hottest and as coldest, 10 by default
+   */
+  limit?: number;
+}
+
+export type AccessStatsResponse = FileAccessReport;
+
+export {
+  Controller,
+  GetAccessStatsUseCase,
+  NotFoundError,
+  Request,
+  Response,
+  Validator,
+};
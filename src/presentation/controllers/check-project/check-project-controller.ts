@@ -0,0 +1,54 @@
+import {
+  badRequest,
+  notFound,
+  ok,
+  serverError,
+} from "../../helpers/index.js";
+import {
+  CheckProjectRequest,
+  CheckProjectResponse,
+  CheckProjectUseCase,
+  Controller,
+  Request,
+  Response,
+  TemplateNotFoundError,
+  Validator,
+} from "./protocols.js";
+
+export class CheckProjectController
+  implements Controller<CheckProjectRequest, CheckProjectResponse>
+{
+  constructor(
+    private readonly checkProjectUseCase: CheckProjectUseCase,
+    private readonly validator: Validator
+  ) {}
+
+  async handle(
+    request: Request<CheckProjectRequest>
+  ): Promise<Response<CheckProjectResponse>> {
+    try {
+      const validationError = this.validator.validate(request.body);
+      if (validationError) {
+        return badRequest(validationError);
+      }
+
+      const { projectName, template } = request.body!;
+
+      const result = await this.checkProjectUseCase.checkProject({
+        projectName,
+        template,
+      });
+
+      if (result === null) {
+        return notFound(projectName);
+      }
+
+      return ok(result);
+    } catch (error) {
+      if (error instanceof TemplateNotFoundError) {
+        return badRequest(error);
+      }
+      return serverError(error as Error);
+    }
+  }
+}
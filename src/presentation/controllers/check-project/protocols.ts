@@ -0,0 +1,33 @@
+import { CheckProjectUseCase } from "../../../domain/usecases/check-project.js";
+import {
+  ProjectCheckResult,
+  TemplateNotFoundError,
+} from "../../../domain/entities/index.js";
+import { NotFoundError } from "../../errors/index.js";
+import {
+  Controller,
+  Request,
+  Response,
+  Validator,
+} from "../../protocols/index.js";
+
+export interface CheckProjectRequest {
+  projectName: string;
+
+  /**
+   * Template whose core files the project must have, "default" if omitted
+   */
+  template?: string;
+}
+
+export type CheckProjectResponse = ProjectCheckResult;
+
+export {
+  CheckProjectUseCase,
+  Controller,
+  NotFoundError,
+  Request,
+  Response,
+  TemplateNotFoundError,
+  Validator,
+};
@@ -34,6 +34,7 @@ export class CompileContextController implements Controller<CompileContextReques
         compressionMethod = 'llmlingua',
         prioritizeRecent = true,
         maxRelevanceThreshold = 0.5,
+        expansion = 'none',
       } = request.body!;
 
       // Calculate budget
@@ -57,6 +58,7 @@ export class CompileContextController implements Controller<CompileContextReques
           compressionMethod,
           prioritizeRecent,
           maxRelevanceThreshold,
+          expansion,
         }
       );
 
@@ -1,5 +1,9 @@
 import { CompileContextUseCase } from "../../../domain/usecases/compile-context.js";
-import { ContextCompilation, ContextBudget } from "../../../domain/entities/index.js";
+import {
+  ContextCompilation,
+  ContextBudget,
+  QueryExpansionMethod,
+} from "../../../domain/entities/index.js";
 import {
   Controller,
   Request,
@@ -57,6 +61,11 @@ export interface CompileContextRequest {
    * Minimum relevance threshold (0-1)
    */
   maxRelevanceThreshold?: number;
+
+  /**
+   * Query expansion used to find files (default: none)
+   */
+  expansion?: 'none' | QueryExpansionMethod;
 }
 
 export type CompileContextResponse = ContextCompilation;
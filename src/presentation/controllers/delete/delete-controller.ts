@@ -0,0 +1,53 @@
+import { badRequest, notFound, ok, serverError } from "../../helpers/index.js";
+import {
+  Controller,
+  DeleteFileUseCase,
+  DeleteRequest,
+  DeleteResponse,
+  Request,
+  Response,
+  Validator,
+} from "./protocols.js";
+
+export class DeleteController
+  implements Controller<DeleteRequest, DeleteResponse>
+{
+  constructor(
+    private readonly deleteFileUseCase: DeleteFileUseCase,
+    private readonly validator: Validator
+  ) {}
+
+  async handle(
+    request: Request<DeleteRequest>
+  ): Promise<Response<DeleteResponse>> {
+    try {
+      const validationError = this.validator.validate(request.body);
+      if (validationError) {
+        return badRequest(validationError);
+      }
+
+      const { projectName, fileName } = request.body!;
+
+      const result = await this.deleteFileUseCase.deleteFile({
+        projectName,
+        fileName,
+      });
+
+      if (result === null) {
+        return notFound(fileName);
+      }
+
+      let message = `File ${fileName} deleted from project ${projectName}; it can be recovered from ${result.trashPath}`;
+      if (result.staleSummaries.length > 0) {
+        message += `\n${result.staleSummaries.length} summaries built from it were marked stale`;
+      }
+      if (result.indexError) {
+        message += `\nWarning: the file could not be removed from the search index: ${result.indexError}`;
+      }
+
+      return ok(message);
+    } catch (error) {
+      return serverError(error as Error);
+    }
+  }
+}
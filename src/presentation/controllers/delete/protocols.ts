@@ -0,0 +1,24 @@
+import { DeleteFileUseCase } from "../../../domain/usecases/delete-file.js";
+import { NotFoundError } from "../../errors/index.js";
+import {
+  Controller,
+  Request,
+  Response,
+  Validator,
+} from "../../protocols/index.js";
+
+export interface DeleteRequest {
+  projectName: string;
+  fileName: string;
+}
+
+export type DeleteResponse = string;
+
+export {
+  Controller,
+  DeleteFileUseCase,
+  NotFoundError,
+  Request,
+  Response,
+  Validator,
+};
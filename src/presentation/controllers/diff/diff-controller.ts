@@ -0,0 +1,55 @@
+import { badRequest, notFound, ok, serverError } from "../../helpers/index.js";
+import {
+  Controller,
+  CURRENT_FILE_VERSION,
+  DiffFileVersionsUseCase,
+  DiffRequest,
+  DiffResponse,
+  Request,
+  Response,
+  Validator,
+} from "./protocols.js";
+
+export class DiffController implements Controller<DiffRequest, DiffResponse> {
+  constructor(
+    private readonly diffFileVersionsUseCase: DiffFileVersionsUseCase,
+    private readonly validator: Validator
+  ) {}
+
+  async handle(request: Request<DiffRequest>): Promise<Response<DiffResponse>> {
+    try {
+      const validationError = this.validator.validate(request.body);
+      if (validationError) {
+        return badRequest(validationError);
+      }
+
+      const {
+        projectName,
+        fileName,
+        fromVersionId,
+        toVersionId = CURRENT_FILE_VERSION,
+      } = request.body!;
+
+      const result = await this.diffFileVersionsUseCase.diffVersions({
+        projectName,
+        fileName,
+        fromVersionId,
+        toVersionId,
+      });
+
+      if (result === null) {
+        return notFound(`${fileName}@${fromVersionId} or @${toVersionId}`);
+      }
+
+      if (result.diff === "") {
+        return ok(
+          `Versions ${result.fromVersionId} and ${result.toVersionId} of ${fileName} are identical`
+        );
+      }
+
+      return ok(result.diff);
+    } catch (error) {
+      return serverError(error as Error);
+    }
+  }
+}
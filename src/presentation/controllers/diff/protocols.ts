@@ -0,0 +1,36 @@
+import { DiffFileVersionsUseCase } from "../../../domain/usecases/diff-file-versions.js";
+import { CURRENT_FILE_VERSION } from "../../../domain/entities/index.js";
+import { NotFoundError } from "../../errors/index.js";
+import {
+  Controller,
+  Request,
+  Response,
+  Validator,
+} from "../../protocols/index.js";
+
+export interface DiffRequest {
+  projectName: string;
+  fileName: string;
+
+  /**
+   * A version id from memory_bank_history, or "current"
+   */
+  fromVersionId: string;
+
+  /**
+   * Defaults to "current"
+   */
+  toVersionId?: string;
+}
+
+export type DiffResponse = string;
+
+export {
+  Controller,
+  CURRENT_FILE_VERSION,
+  DiffFileVersionsUseCase,
+  NotFoundError,
+  Request,
+  Response,
+  Validator,
+};
@@ -0,0 +1,72 @@
+import {
+  badRequest,
+  conflict,
+  notFound,
+  ok,
+  serverError,
+} from "../../helpers/index.js";
+import {
+  Controller,
+  EditFileUseCase,
+  EditRequest,
+  EditResponse,
+  FileConflictError,
+  FileEditError,
+  FrontMatterValidationError,
+  Request,
+  Response,
+  Validator,
+} from "./protocols.js";
+
+export class EditController implements Controller<EditRequest, EditResponse> {
+  constructor(
+    private readonly editFileUseCase: EditFileUseCase,
+    private readonly validator: Validator
+  ) {}
+
+  async handle(request: Request<EditRequest>): Promise<Response<EditResponse>> {
+    try {
+      const validationError = this.validator.validate(request.body);
+      if (validationError) {
+        return badRequest(validationError);
+      }
+
+      const { projectName, fileName, edits, expectedHash, changeNote } =
+        request.body!;
+
+      const result = await this.editFileUseCase.editFile({
+        projectName,
+        fileName,
+        edits,
+        expectedHash,
+        changeNote,
+      });
+
+      if (result === null) {
+        return notFound(fileName);
+      }
+
+      let message = `File ${fileName} edited successfully in project ${projectName} (${edits.length} edits applied)`;
+      if (result.indexError) {
+        message += `\nWarning: the file could not be indexed for search: ${result.indexError}`;
+      }
+
+      return ok(
+        message,
+        result.contentHash ? { contentHash: result.contentHash } : undefined
+      );
+    } catch (error) {
+      // The file is left unchanged when an edit does not apply
+      if (
+        error instanceof FileEditError ||
+        error instanceof FrontMatterValidationError
+      ) {
+        return badRequest(error);
+      }
+      if (error instanceof FileConflictError) {
+        return conflict(error);
+      }
+      return serverError(error as Error);
+    }
+  }
+}
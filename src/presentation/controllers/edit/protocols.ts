@@ -0,0 +1,50 @@
+import { EditFileUseCase } from "../../../domain/usecases/edit-file.js";
+import {
+  FileConflictError,
+  FileEdit,
+  FileEditError,
+  FrontMatterValidationError,
+} from "../../../domain/entities/index.js";
+import { NotFoundError } from "../../errors/index.js";
+import {
+  Controller,
+  Request,
+  Response,
+  Validator,
+} from "../../protocols/index.js";
+
+export interface EditRequest {
+  projectName: string;
+  fileName: string;
+
+  /**
+   * Edits applied in order: append, prepend, replace_section,
+   * insert_after_heading or apply_patch
+   */
+  edits: FileEdit[];
+
+  /**
+   * Hash returned by memory_bank_read; the edit is rejected with a conflict
+   * if the file changed since
+   */
+  expectedHash?: string;
+
+  /**
+   * Why the file changed, shown in its version history
+   */
+  changeNote?: string;
+}
+
+export type EditResponse = string;
+
+export {
+  Controller,
+  EditFileUseCase,
+  FileConflictError,
+  FileEditError,
+  FrontMatterValidationError,
+  NotFoundError,
+  Request,
+  Response,
+  Validator,
+};
@@ -0,0 +1,60 @@
+import {
+  badRequest,
+  conflict,
+  notFound,
+  ok,
+  serverError,
+} from "../../helpers/index.js";
+import {
+  BundleExistsError,
+  Controller,
+  ExportProjectRequest,
+  ExportProjectResponse,
+  ExportProjectUseCase,
+  InvalidBundleError,
+  Request,
+  Response,
+  Validator,
+} from "./protocols.js";
+
+export class ExportProjectController
+  implements Controller<ExportProjectRequest, ExportProjectResponse>
+{
+  constructor(
+    private readonly exportProjectUseCase: ExportProjectUseCase,
+    private readonly validator: Validator
+  ) {}
+
+  async handle(
+    request: Request<ExportProjectRequest>
+  ): Promise<Response<ExportProjectResponse>> {
+    try {
+      const validationError = this.validator.validate(request.body);
+      if (validationError) {
+        return badRequest(validationError);
+      }
+
+      const { projectName, outputPath, overwrite } = request.body!;
+
+      const result = await this.exportProjectUseCase.exportProject({
+        projectName,
+        outputPath,
+        overwrite,
+      });
+
+      if (result === null) {
+        return notFound(projectName);
+      }
+
+      return ok(result);
+    } catch (error) {
+      if (error instanceof BundleExistsError) {
+        return conflict(error);
+      }
+      if (error instanceof InvalidBundleError) {
+        return badRequest(error);
+      }
+      return serverError(error as Error);
+    }
+  }
+}
@@ -0,0 +1,38 @@
+import { ExportProjectUseCase } from "../../../domain/usecases/export-project.js";
+import {
+  BundleExistsError,
+  InvalidBundleError,
+  ProjectExportResult,
+} from "../../../domain/entities/index.js";
+import {
+  Controller,
+  Request,
+  Response,
+  Validator,
+} from "../../protocols/index.js";
+
+export interface ExportProjectRequest {
+  projectName: string;
+
+  /**
+   * File in the exports folder to write the bundle to; a new name if omitted
+   */
+  outputPath?: string;
+
+  /**
+   * Replace the bundle at outputPath if it exists
+   */
+  overwrite?: boolean;
+}
+
+export type ExportProjectResponse = ProjectExportResult;
+
+export {
+  BundleExistsError,
+  Controller,
+  ExportProjectUseCase,
+  InvalidBundleError,
+  Request,
+  Response,
+  Validator,
+};
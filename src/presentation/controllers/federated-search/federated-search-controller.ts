@@ -0,0 +1,44 @@
+import { badRequest, ok, serverError } from "../../helpers/index.js";
+import {
+  Controller,
+  FederatedSearchControllerResponse,
+  FederatedSearchRequest,
+  FederatedSearchUseCase,
+  Request,
+  Response,
+  Validator,
+} from "./protocols.js";
+
+export class FederatedSearchController
+  implements Controller<FederatedSearchRequest, FederatedSearchControllerResponse>
+{
+  constructor(
+    private readonly federatedSearchUseCase: FederatedSearchUseCase,
+    private readonly validator: Validator
+  ) {}
+
+  async handle(
+    request: Request<FederatedSearchRequest>
+  ): Promise<Response<FederatedSearchControllerResponse>> {
+    try {
+      const validationError = this.validator.validate(request.body);
+      if (validationError) {
+        return badRequest(validationError);
+      }
+
+      const { query, projectName, sources, limit, quotas } = request.body!;
+
+      const response = await this.federatedSearchUseCase.search({
+        query,
+        projectName,
+        sources,
+        limit,
+        quotas,
+      });
+
+      return ok(response);
+    } catch (error) {
+      return serverError(error as Error);
+    }
+  }
+}
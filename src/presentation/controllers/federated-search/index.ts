@@ -0,0 +1,2 @@
+export * from "./protocols.js";
+export * from "./federated-search-controller.js";
@@ -0,0 +1,50 @@
+import {
+  FederatedSearchResponse,
+  MemorySource,
+} from "../../../domain/entities/index.js";
+import { FederatedSearchUseCase } from "../../../domain/usecases/federated-search.js";
+import {
+  Controller,
+  Request,
+  Response,
+  Validator,
+} from "../../protocols/index.js";
+
+export interface FederatedSearchRequest {
+  /**
+   * The question to answer from every memory source
+   */
+  query: string;
+
+  /**
+   * Optional project to scope files, summaries and episodes to
+   */
+  projectName?: string;
+
+  /**
+   * Sources to search (default: all)
+   */
+  sources?: MemorySource[];
+
+  /**
+   * Maximum number of results across all sources (default: 20)
+   */
+  limit?: number;
+
+  /**
+   * Results kept per source before the best remaining hits fill the limit
+   * (default: an equal share of the limit)
+   */
+  quotas?: Partial<Record<MemorySource, number>>;
+}
+
+export type FederatedSearchControllerResponse = FederatedSearchResponse;
+
+export {
+  Controller,
+  FederatedSearchUseCase,
+  MemorySource,
+  Request,
+  Response,
+  Validator,
+};
@@ -0,0 +1,45 @@
+import { badRequest, notFound, ok, serverError } from "../../helpers/index.js";
+import {
+  Controller,
+  HistoryRequest,
+  HistoryResponse,
+  ListFileVersionsUseCase,
+  Request,
+  Response,
+  Validator,
+} from "./protocols.js";
+
+export class HistoryController
+  implements Controller<HistoryRequest, HistoryResponse>
+{
+  constructor(
+    private readonly listFileVersionsUseCase: ListFileVersionsUseCase,
+    private readonly validator: Validator
+  ) {}
+
+  async handle(
+    request: Request<HistoryRequest>
+  ): Promise<Response<HistoryResponse>> {
+    try {
+      const validationError = this.validator.validate(request.body);
+      if (validationError) {
+        return badRequest(validationError);
+      }
+
+      const { projectName, fileName } = request.body!;
+
+      const versions = await this.listFileVersionsUseCase.listVersions({
+        projectName,
+        fileName,
+      });
+
+      if (versions === null) {
+        return notFound(fileName);
+      }
+
+      return ok(versions);
+    } catch (error) {
+      return serverError(error as Error);
+    }
+  }
+}
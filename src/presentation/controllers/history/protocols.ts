@@ -0,0 +1,25 @@
+import { ListFileVersionsUseCase } from "../../../domain/usecases/list-file-versions.js";
+import { FileHistoryEntry } from "../../../domain/entities/index.js";
+import { NotFoundError } from "../../errors/index.js";
+import {
+  Controller,
+  Request,
+  Response,
+  Validator,
+} from "../../protocols/index.js";
+
+export interface HistoryRequest {
+  projectName: string;
+  fileName: string;
+}
+
+export type HistoryResponse = FileHistoryEntry[];
+
+export {
+  Controller,
+  ListFileVersionsUseCase,
+  NotFoundError,
+  Request,
+  Response,
+  Validator,
+};
@@ -0,0 +1,46 @@
+import { badRequest, ok, serverError } from "../../helpers/index.js";
+import {
+  Controller,
+  ImportProjectRequest,
+  ImportProjectResponse,
+  ImportProjectUseCase,
+  InvalidBundleError,
+  Request,
+  Response,
+  Validator,
+} from "./protocols.js";
+
+export class ImportProjectController
+  implements Controller<ImportProjectRequest, ImportProjectResponse>
+{
+  constructor(
+    private readonly importProjectUseCase: ImportProjectUseCase,
+    private readonly validator: Validator
+  ) {}
+
+  async handle(
+    request: Request<ImportProjectRequest>
+  ): Promise<Response<ImportProjectResponse>> {
+    try {
+      const validationError = this.validator.validate(request.body);
+      if (validationError) {
+        return badRequest(validationError);
+      }
+
+      const { bundlePath, projectName, onConflict } = request.body!;
+
+      const result = await this.importProjectUseCase.importProject({
+        bundlePath,
+        projectName,
+        onConflict,
+      });
+
+      return ok(result);
+    } catch (error) {
+      if (error instanceof InvalidBundleError) {
+        return badRequest(error);
+      }
+      return serverError(error as Error);
+    }
+  }
+}
@@ -0,0 +1,40 @@
+import { ImportProjectUseCase } from "../../../domain/usecases/import-project.js";
+import {
+  InvalidBundleError,
+  ProjectImportConflict,
+  ProjectImportResult,
+} from "../../../domain/entities/index.js";
+import {
+  Controller,
+  Request,
+  Response,
+  Validator,
+} from "../../protocols/index.js";
+
+export interface ImportProjectRequest {
+  /**
+   * Bundle file in the exports folder
+   */
+  bundlePath: string;
+
+  /**
+   * Project to import into; the exported project's name if omitted
+   */
+  projectName?: string;
+
+  /**
+   * What to do when the project already exists, "rename" if omitted
+   */
+  onConflict?: ProjectImportConflict;
+}
+
+export type ImportProjectResponse = ProjectImportResult;
+
+export {
+  Controller,
+  ImportProjectUseCase,
+  InvalidBundleError,
+  Request,
+  Response,
+  Validator,
+};
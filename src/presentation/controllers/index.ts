@@ -1,9 +1,25 @@
 // Export all controller modules
+export * from "./access-stats/index.js";
+export * from "./check-project/index.js";
 export * from "./compile-context/index.js";
+export * from "./delete/index.js";
+export * from "./diff/index.js";
+export * from "./edit/index.js";
+export * from "./export-project/index.js";
+export * from "./federated-search/index.js";
+export * from "./history/index.js";
+export * from "./import-project/index.js";
+export * from "./init-project/index.js";
+export * from "./links/index.js";
 export * from "./list-project-files/index.js";
 export * from "./list-projects/index.js";
 export * from "./migrate/index.js";
 export * from "./read/index.js";
+export * from "./read-many/index.js";
+export * from "./reindex/index.js";
+export * from "./rename/index.js";
+export * from "./restore/index.js";
 export * from "./search/index.js";
+export * from "./set-metadata/index.js";
 export * from "./update/index.js";
 export * from "./write/index.js";
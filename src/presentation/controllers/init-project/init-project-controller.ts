@@ -0,0 +1,46 @@
+import { badRequest, ok, serverError } from "../../helpers/index.js";
+import {
+  Controller,
+  InitProjectRequest,
+  InitProjectResponse,
+  InitProjectUseCase,
+  Request,
+  Response,
+  TemplateNotFoundError,
+  Validator,
+} from "./protocols.js";
+
+export class InitProjectController
+  implements Controller<InitProjectRequest, InitProjectResponse>
+{
+  constructor(
+    private readonly initProjectUseCase: InitProjectUseCase,
+    private readonly validator: Validator
+  ) {}
+
+  async handle(
+    request: Request<InitProjectRequest>
+  ): Promise<Response<InitProjectResponse>> {
+    try {
+      const validationError = this.validator.validate(request.body);
+      if (validationError) {
+        return badRequest(validationError);
+      }
+
+      const { projectName, template, variables } = request.body!;
+
+      const result = await this.initProjectUseCase.initProject({
+        projectName,
+        template,
+        variables,
+      });
+
+      return ok(result);
+    } catch (error) {
+      if (error instanceof TemplateNotFoundError) {
+        return badRequest(error);
+      }
+      return serverError(error as Error);
+    }
+  }
+}
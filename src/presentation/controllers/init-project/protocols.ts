@@ -0,0 +1,36 @@
+import { InitProjectUseCase } from "../../../domain/usecases/init-project.js";
+import {
+  ProjectInitResult,
+  TemplateNotFoundError,
+} from "../../../domain/entities/index.js";
+import {
+  Controller,
+  Request,
+  Response,
+  Validator,
+} from "../../protocols/index.js";
+
+export interface InitProjectRequest {
+  projectName: string;
+
+  /**
+   * Built-in or user-defined template, "default" if omitted
+   */
+  template?: string;
+
+  /**
+   * Values for the template's custom {{placeholders}}
+   */
+  variables?: Record<string, string>;
+}
+
+export type InitProjectResponse = ProjectInitResult;
+
+export {
+  Controller,
+  InitProjectUseCase,
+  Request,
+  Response,
+  TemplateNotFoundError,
+  Validator,
+};
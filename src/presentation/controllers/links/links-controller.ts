@@ -0,0 +1,50 @@
+import {
+  badRequest,
+  notFound,
+  ok,
+  serverError,
+} from "../../helpers/index.js";
+import {
+  Controller,
+  GetFileLinksUseCase,
+  LinksRequest,
+  LinksResponse,
+  Request,
+  Response,
+  Validator,
+} from "./protocols.js";
+
+export class LinksController
+  implements Controller<LinksRequest, LinksResponse>
+{
+  constructor(
+    private readonly getFileLinksUseCase: GetFileLinksUseCase,
+    private readonly validator: Validator
+  ) {}
+
+  async handle(
+    request: Request<LinksRequest>
+  ): Promise<Response<LinksResponse>> {
+    try {
+      const validationError = this.validator.validate(request.body);
+      if (validationError) {
+        return badRequest(validationError);
+      }
+
+      const { projectName, fileName } = request.body!;
+
+      const report = await this.getFileLinksUseCase.getFileLinks({
+        projectName,
+        fileName,
+      });
+
+      if (report === null) {
+        return notFound(fileName ?? projectName);
+      }
+
+      return ok(report);
+    } catch (error) {
+      return serverError(error as Error);
+    }
+  }
+}
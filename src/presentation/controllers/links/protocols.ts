@@ -0,0 +1,29 @@
+import { GetFileLinksUseCase } from "../../../domain/usecases/get-file-links.js";
+import { FileLinkReport } from "../../../domain/entities/index.js";
+import { NotFoundError } from "../../errors/index.js";
+import {
+  Controller,
+  Request,
+  Response,
+  Validator,
+} from "../../protocols/index.js";
+
+export interface LinksRequest {
+  projectName: string;
+
+  /**
+   * File to report on; the whole project if omitted
+   */
+  fileName?: string;
+}
+
+export type LinksResponse = FileLinkReport;
+
+export {
+  Controller,
+  GetFileLinksUseCase,
+  NotFoundError,
+  Request,
+  Response,
+  Validator,
+};
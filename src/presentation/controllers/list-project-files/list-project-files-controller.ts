@@ -26,11 +26,31 @@ export class ListProjectFilesController
         return badRequest(validationError);
       }
 
-      const { projectName } = request.body!;
-
-      const files = await this.listProjectFilesUseCase.listProjectFiles({
+      const {
+        projectName,
+        include,
+        exclude,
+        tags,
+        updatedSince,
+        sortBy,
+        order,
+        tree,
+      } = request.body!;
+      const params = {
         projectName,
-      });
+        include,
+        exclude,
+        tags,
+        updatedSince: updatedSince ? new Date(updatedSince) : undefined,
+        sortBy,
+        order,
+      };
+
+      if (tree) {
+        return ok(await this.listProjectFilesUseCase.listProjectFileTree(params));
+      }
+
+      const files = await this.listProjectFilesUseCase.listProjectFiles(params);
 
       return ok(files);
     } catch (error) {
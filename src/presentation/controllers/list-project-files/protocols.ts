@@ -1,4 +1,9 @@
 import { ListProjectFilesUseCase } from "../../../domain/usecases/list-project-files.js";
+import {
+  FileSortField,
+  FileTreeNode,
+  ProjectFileInfo,
+} from "../../../domain/entities/index.js";
 import {
   Controller,
   Request,
@@ -8,8 +13,23 @@ import {
 
 export interface ListProjectFilesRequest {
   projectName: string;
+  include?: string[];
+  exclude?: string[];
+  tags?: string[];
+
+  /**
+   * ISO date; only files updated at or after it are listed
+   */
+  updatedSince?: string;
+  sortBy?: FileSortField;
+  order?: "asc" | "desc";
+
+  /**
+   * Nest the files by folder instead of listing their paths
+   */
+  tree?: boolean;
 }
 
-export type ListProjectFilesResponse = string[];
+export type ListProjectFilesResponse = ProjectFileInfo[] | FileTreeNode[];
 
 export { Controller, ListProjectFilesUseCase, Request, Response, Validator };
@@ -1,19 +1,40 @@
-import { ok, serverError } from "../../helpers/index.js";
+import { badRequest, ok, serverError } from "../../helpers/index.js";
 import {
   Controller,
+  ListProjectsRequest,
   ListProjectsResponse,
   ListProjectsUseCase,
+  Request,
   Response,
+  Validator,
 } from "./protocols.js";
 
 export class ListProjectsController
-  implements Controller<void, ListProjectsResponse>
+  implements Controller<ListProjectsRequest, ListProjectsResponse>
 {
-  constructor(private readonly listProjectsUseCase: ListProjectsUseCase) {}
+  constructor(
+    private readonly listProjectsUseCase: ListProjectsUseCase,
+    private readonly validator: Validator
+  ) {}
 
-  async handle(): Promise<Response<ListProjectsResponse>> {
+  async handle(
+    request: Request<ListProjectsRequest>
+  ): Promise<Response<ListProjectsResponse>> {
     try {
-      const projects = await this.listProjectsUseCase.listProjects();
+      const validationError = this.validator.validate(request.body);
+      if (validationError) {
+        return badRequest(validationError);
+      }
+
+      const { sortBy, order, tag, cursor, limit } = request.body ?? {};
+
+      const projects = await this.listProjectsUseCase.listProjects({
+        sortBy,
+        order,
+        tag,
+        cursor,
+        limit,
+      });
       return ok(projects);
     } catch (error) {
       return serverError(error as Error);
@@ -1,6 +1,31 @@
 import { ListProjectsUseCase } from "../../../domain/usecases/list-projects.js";
-import { Controller, Response } from "../../protocols/index.js";
+import {
+  ProjectList,
+  ProjectSortField,
+} from "../../../domain/entities/index.js";
+import {
+  Controller,
+  Request,
+  Response,
+  Validator,
+} from "../../protocols/index.js";
 
-export type ListProjectsResponse = string[];
+export interface ListProjectsRequest {
+  sortBy?: ProjectSortField;
+  order?: "asc" | "desc";
 
-export { Controller, ListProjectsUseCase, Response };
+  /**
+   * Only projects whose manifest has this tag
+   */
+  tag?: string;
+
+  /**
+   * The nextCursor of the previous page
+   */
+  cursor?: string;
+  limit?: number;
+}
+
+export type ListProjectsResponse = ProjectList;
+
+export { Controller, ListProjectsUseCase, Request, Response, Validator };
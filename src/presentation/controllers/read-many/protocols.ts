@@ -0,0 +1,28 @@
+import { ReadFilesUseCase } from "../../../domain/usecases/read-files.js";
+import { FileReadResult } from "../../../domain/entities/index.js";
+import {
+  Controller,
+  Request,
+  Response,
+  Validator,
+} from "../../protocols/index.js";
+
+export interface ReadManyRequest {
+  projectName: string;
+
+  /**
+   * Every file in the project if omitted
+   */
+  fileNames?: string[];
+
+  /**
+   * Token budget for each file
+   */
+  maxTokens?: number;
+}
+
+export interface ReadManyResponse {
+  files: FileReadResult[];
+}
+
+export { Controller, ReadFilesUseCase, Request, Response, Validator };
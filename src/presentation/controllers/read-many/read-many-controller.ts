@@ -0,0 +1,46 @@
+import { badRequest, notFound, ok, serverError } from "../../helpers/index.js";
+import {
+  Controller,
+  ReadFilesUseCase,
+  ReadManyRequest,
+  ReadManyResponse,
+  Request,
+  Response,
+  Validator,
+} from "./protocols.js";
+
+export class ReadManyController
+  implements Controller<ReadManyRequest, ReadManyResponse>
+{
+  constructor(
+    private readonly readFilesUseCase: ReadFilesUseCase,
+    private readonly validator: Validator
+  ) {}
+
+  async handle(
+    request: Request<ReadManyRequest>
+  ): Promise<Response<ReadManyResponse>> {
+    try {
+      const validationError = this.validator.validate(request.body);
+      if (validationError) {
+        return badRequest(validationError);
+      }
+
+      const { projectName, fileNames, maxTokens } = request.body!;
+
+      const files = await this.readFilesUseCase.readFiles({
+        projectName,
+        fileNames,
+        maxTokens,
+      });
+
+      if (files === null) {
+        return notFound(projectName);
+      }
+
+      return ok({ files });
+    } catch (error) {
+      return serverError(error as Error);
+    }
+  }
+}
@@ -1,4 +1,5 @@
 import { ReadFileUseCase } from "../../../domain/usecases/read-file.js";
+import { FileReadError } from "../../../domain/entities/index.js";
 import { NotFoundError } from "../../errors/index.js";
 import {
   Controller,
@@ -16,12 +17,29 @@ export interface ReadRequest {
    * The name of the file to read.
    */
   fileName: string;
+
+  /**
+   * Lines to read, counted from 1; the rest of the file if endLine is omitted.
+   */
+  startLine?: number;
+  endLine?: number;
+
+  /**
+   * Read only the section under this heading path.
+   */
+  headingPath?: string[];
+
+  /**
+   * Cut the content to about this many tokens.
+   */
+  maxTokens?: number;
 }
 
 export type ReadResponse = string;
 
 export {
   Controller,
+  FileReadError,
   NotFoundError,
   ReadFileUseCase,
   Request,
@@ -1,6 +1,7 @@
 import { badRequest, notFound, ok, serverError } from "../../helpers/index.js";
 import {
   Controller,
+  FileReadError,
   ReadFileUseCase,
   ReadRequest,
   ReadResponse,
@@ -22,19 +23,35 @@ export class ReadController implements Controller<ReadRequest, ReadResponse> {
         return badRequest(validationError);
       }
 
-      const { projectName, fileName } = request.body!;
+      const { projectName, fileName, startLine, endLine, headingPath, maxTokens } =
+        request.body!;
 
-      const content = await this.readFileUseCase.readFile({
+      const file = await this.readFileUseCase.readFile({
         projectName,
         fileName,
+        startLine,
+        endLine,
+        headingPath,
+        maxTokens,
       });
 
-      if (content === null) {
+      if (file === null) {
         return notFound(fileName);
       }
 
-      return ok(content);
+      // The hash is what an update passes back as expectedHash
+      return ok(file.content, {
+        contentHash: file.contentHash,
+        ...(file.startLine !== undefined && {
+          startLine: file.startLine,
+          endLine: file.endLine!,
+          totalLines: file.totalLines!,
+        }),
+      });
     } catch (error) {
+      if (error instanceof FileReadError) {
+        return badRequest(error);
+      }
       return serverError(error as Error);
     }
   }
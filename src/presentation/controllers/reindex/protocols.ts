@@ -0,0 +1,31 @@
+import {
+  ReindexMemoryUseCase,
+  ReindexResult,
+} from "../../../domain/usecases/reindex-memory.js";
+import {
+  Controller,
+  Request,
+  Response,
+  Validator,
+} from "../../protocols/index.js";
+
+export interface ReindexRequest {
+  /**
+   * Optional project to reconcile; all projects when omitted
+   */
+  projectName?: string;
+
+  /**
+   * Only report the differences (default: false)
+   */
+  dryRun?: boolean;
+
+  /**
+   * Re-embed unchanged files as well (default: false)
+   */
+  force?: boolean;
+}
+
+export type ReindexResponse = ReindexResult;
+
+export { Controller, ReindexMemoryUseCase, Request, Response, Validator };
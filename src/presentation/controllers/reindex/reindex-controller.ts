@@ -0,0 +1,42 @@
+import { badRequest, ok, serverError } from "../../helpers/index.js";
+import {
+  Controller,
+  ReindexMemoryUseCase,
+  ReindexRequest,
+  ReindexResponse,
+  Request,
+  Response,
+  Validator,
+} from "./protocols.js";
+
+export class ReindexController
+  implements Controller<ReindexRequest, ReindexResponse>
+{
+  constructor(
+    private readonly reindexMemoryUseCase: ReindexMemoryUseCase,
+    private readonly validator: Validator
+  ) {}
+
+  async handle(
+    request: Request<ReindexRequest>
+  ): Promise<Response<ReindexResponse>> {
+    try {
+      const validationError = this.validator.validate(request.body);
+      if (validationError) {
+        return badRequest(validationError);
+      }
+
+      const { projectName, dryRun, force } = request.body ?? {};
+
+      const result = await this.reindexMemoryUseCase.reindex({
+        projectName,
+        dryRun,
+        force,
+      });
+
+      return ok(result);
+    } catch (error) {
+      return serverError(error as Error);
+    }
+  }
+}
@@ -0,0 +1,2 @@
+export * from "./protocols.js";
+export * from "./rename-controller.js";
@@ -0,0 +1,25 @@
+import { RenameFileUseCase } from "../../../domain/usecases/rename-file.js";
+import { NotFoundError } from "../../errors/index.js";
+import {
+  Controller,
+  Request,
+  Response,
+  Validator,
+} from "../../protocols/index.js";
+
+export interface RenameRequest {
+  projectName: string;
+  fileName: string;
+  newFileName: string;
+}
+
+export type RenameResponse = string;
+
+export {
+  Controller,
+  NotFoundError,
+  RenameFileUseCase,
+  Request,
+  Response,
+  Validator,
+};
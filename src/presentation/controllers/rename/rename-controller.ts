@@ -0,0 +1,54 @@
+import { badRequest, notFound, ok, serverError } from "../../helpers/index.js";
+import {
+  Controller,
+  RenameFileUseCase,
+  RenameRequest,
+  RenameResponse,
+  Request,
+  Response,
+  Validator,
+} from "./protocols.js";
+
+export class RenameController
+  implements Controller<RenameRequest, RenameResponse>
+{
+  constructor(
+    private readonly renameFileUseCase: RenameFileUseCase,
+    private readonly validator: Validator
+  ) {}
+
+  async handle(
+    request: Request<RenameRequest>
+  ): Promise<Response<RenameResponse>> {
+    try {
+      const validationError = this.validator.validate(request.body);
+      if (validationError) {
+        return badRequest(validationError);
+      }
+
+      const { projectName, fileName, newFileName } = request.body!;
+
+      const result = await this.renameFileUseCase.renameFile({
+        projectName,
+        fileName,
+        newFileName,
+      });
+
+      if (result === null) {
+        return notFound(fileName);
+      }
+
+      let message = `File ${fileName} renamed to ${newFileName} in project ${projectName}`;
+      if (result.staleSummaries.length > 0) {
+        message += `\n${result.staleSummaries.length} summaries built from it were marked stale`;
+      }
+      if (result.indexError) {
+        message += `\nWarning: the file could not be re-indexed for search: ${result.indexError}`;
+      }
+
+      return ok(message);
+    } catch (error) {
+      return serverError(error as Error);
+    }
+  }
+}
@@ -0,0 +1,2 @@
+export * from "./protocols.js";
+export * from "./restore-controller.js";
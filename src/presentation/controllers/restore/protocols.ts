@@ -0,0 +1,41 @@
+import { RestoreFileVersionUseCase } from "../../../domain/usecases/restore-file-version.js";
+import {
+  FileConflictError,
+  FrontMatterValidationError,
+} from "../../../domain/entities/index.js";
+import { NotFoundError } from "../../errors/index.js";
+import {
+  Controller,
+  Request,
+  Response,
+  Validator,
+} from "../../protocols/index.js";
+
+export interface RestoreRequest {
+  projectName: string;
+  fileName: string;
+
+  /**
+   * A version id from memory_bank_history
+   */
+  versionId: string;
+
+  /**
+   * Hash returned by memory_bank_read; the restore is rejected with a
+   * conflict if the file changed since
+   */
+  expectedHash?: string;
+}
+
+export type RestoreResponse = string;
+
+export {
+  Controller,
+  FileConflictError,
+  FrontMatterValidationError,
+  NotFoundError,
+  Request,
+  Response,
+  RestoreFileVersionUseCase,
+  Validator,
+};
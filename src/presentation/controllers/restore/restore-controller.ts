@@ -0,0 +1,69 @@
+import {
+  badRequest,
+  conflict,
+  notFound,
+  ok,
+  serverError,
+} from "../../helpers/index.js";
+import {
+  Controller,
+  FileConflictError,
+  FrontMatterValidationError,
+  Request,
+  Response,
+  RestoreFileVersionUseCase,
+  RestoreRequest,
+  RestoreResponse,
+  Validator,
+} from "./protocols.js";
+
+export class RestoreController
+  implements Controller<RestoreRequest, RestoreResponse>
+{
+  constructor(
+    private readonly restoreFileVersionUseCase: RestoreFileVersionUseCase,
+    private readonly validator: Validator
+  ) {}
+
+  async handle(
+    request: Request<RestoreRequest>
+  ): Promise<Response<RestoreResponse>> {
+    try {
+      const validationError = this.validator.validate(request.body);
+      if (validationError) {
+        return badRequest(validationError);
+      }
+
+      const { projectName, fileName, versionId, expectedHash } = request.body!;
+
+      const result = await this.restoreFileVersionUseCase.restoreVersion({
+        projectName,
+        fileName,
+        versionId,
+        expectedHash,
+      });
+
+      if (result === null) {
+        return notFound(`${fileName}@${versionId}`);
+      }
+
+      let message = `File ${fileName} restored to version ${versionId} in project ${projectName}`;
+      if (result.indexError) {
+        message += `\nWarning: the file could not be indexed for search: ${result.indexError}`;
+      }
+
+      return ok(
+        message,
+        result.contentHash ? { contentHash: result.contentHash } : undefined
+      );
+    } catch (error) {
+      if (error instanceof FrontMatterValidationError) {
+        return badRequest(error);
+      }
+      if (error instanceof FileConflictError) {
+        return conflict(error);
+      }
+      return serverError(error as Error);
+    }
+  }
+}
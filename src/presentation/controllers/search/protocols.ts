@@ -1,5 +1,9 @@
 import { SearchMemoryUseCase } from "../../../domain/usecases/search-memory.js";
-import { SearchQuery, SearchResponse } from "../../../domain/entities/index.js";
+import {
+  QueryExpansionMethod,
+  SearchQuery,
+  SearchResponse,
+} from "../../../domain/entities/index.js";
 import {
   Controller,
   Request,
@@ -33,6 +37,11 @@ export interface SearchRequest {
    */
   semanticWeight?: number;
 
+  /**
+   * Share of the BM25 keyword match in the relevance of a chunk (default: 0.3)
+   */
+  keywordWeight?: number;
+
   /**
    * Weight for recency score (default: 0.2)
    */
@@ -52,6 +61,12 @@ export interface SearchRequest {
    * Days for time decay calculation (default: 30)
    */
   timeDecayDays?: number;
+
+  /**
+   * Also search with queries expanded by HyDE, keywords or semantic variations
+   * and merge the results (default: none)
+   */
+  expansion?: 'none' | QueryExpansionMethod;
 }
 
 export type SearchControllerResponse = SearchResponse;
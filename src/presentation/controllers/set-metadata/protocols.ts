@@ -0,0 +1,37 @@
+import { SetFileMetadataUseCase } from "../../../domain/usecases/set-file-metadata.js";
+import {
+  FileConflictError,
+  FrontMatterValidationError,
+} from "../../../domain/entities/index.js";
+import { NotFoundError } from "../../errors/index.js";
+import {
+  Controller,
+  MetadataRequest,
+  Request,
+  Response,
+  Validator,
+} from "../../protocols/index.js";
+
+export interface SetMetadataRequest extends MetadataRequest {
+  projectName: string;
+  fileName: string;
+
+  /**
+   * Hash returned by memory_bank_read; the change is rejected with a
+   * conflict if the file changed since
+   */
+  expectedHash?: string;
+}
+
+export type SetMetadataResponse = string;
+
+export {
+  Controller,
+  FileConflictError,
+  FrontMatterValidationError,
+  NotFoundError,
+  Request,
+  Response,
+  SetFileMetadataUseCase,
+  Validator,
+};
@@ -0,0 +1,70 @@
+import {
+  badRequest,
+  conflict,
+  metadataUpdate,
+  notFound,
+  ok,
+  serverError,
+} from "../../helpers/index.js";
+import {
+  Controller,
+  FileConflictError,
+  FrontMatterValidationError,
+  Request,
+  Response,
+  SetFileMetadataUseCase,
+  SetMetadataRequest,
+  SetMetadataResponse,
+  Validator,
+} from "./protocols.js";
+
+export class SetMetadataController
+  implements Controller<SetMetadataRequest, SetMetadataResponse>
+{
+  constructor(
+    private readonly setFileMetadataUseCase: SetFileMetadataUseCase,
+    private readonly validator: Validator
+  ) {}
+
+  async handle(
+    request: Request<SetMetadataRequest>
+  ): Promise<Response<SetMetadataResponse>> {
+    try {
+      const validationError = this.validator.validate(request.body);
+      if (validationError) {
+        return badRequest(validationError);
+      }
+
+      const { projectName, fileName, expectedHash } = request.body!;
+
+      const result = await this.setFileMetadataUseCase.setFileMetadata({
+        projectName,
+        fileName,
+        metadata: metadataUpdate(request.body!) ?? {},
+        expectedHash,
+      });
+
+      if (result === null) {
+        return notFound(fileName);
+      }
+
+      let message = `Metadata of ${fileName} updated in project ${projectName}`;
+      if (result.indexError) {
+        message += `\nWarning: the file could not be indexed for search: ${result.indexError}`;
+      }
+
+      return ok(
+        message,
+        result.contentHash ? { contentHash: result.contentHash } : undefined
+      );
+    } catch (error) {
+      if (error instanceof FrontMatterValidationError) {
+        return badRequest(error);
+      }
+      if (error instanceof FileConflictError) {
+        return conflict(error);
+      }
+      return serverError(error as Error);
+    }
+  }
+}
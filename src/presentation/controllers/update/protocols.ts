@@ -1,19 +1,43 @@
 import { UpdateFileUseCase } from "../../../domain/usecases/update-file.js";
+import {
+  FileConflictError,
+  FrontMatterValidationError,
+} from "../../../domain/entities/index.js";
 import { NotFoundError } from "../../errors/index.js";
 import {
   Controller,
+  MetadataRequest,
   Request,
   Response,
   Validator,
 } from "../../protocols/index.js";
 
-export interface UpdateRequest {
+export interface UpdateRequest extends MetadataRequest {
   projectName: string;
   fileName: string;
   content: string;
+
+  /**
+   * Hash returned by memory_bank_read for the version the content is based
+   * on; the update is rejected with a conflict if the file changed since
+   */
+  expectedHash?: string;
+
+  /**
+   * Why the file changed, shown in its version history
+   */
+  changeNote?: string;
 }
 
 export type UpdateResponse = string;
 export type RequestValidator = Validator;
 
-export { Controller, NotFoundError, Request, Response, UpdateFileUseCase };
+export {
+  Controller,
+  FileConflictError,
+  FrontMatterValidationError,
+  NotFoundError,
+  Request,
+  Response,
+  UpdateFileUseCase,
+};
@@ -1,6 +1,15 @@
-import { badRequest, notFound, ok, serverError } from "../../helpers/index.js";
+import {
+  badRequest,
+  conflict,
+  notFound,
+  metadataUpdate,
+  ok,
+  serverError,
+} from "../../helpers/index.js";
 import {
   Controller,
+  FileConflictError,
+  FrontMatterValidationError,
   Request,
   RequestValidator,
   Response,
@@ -26,22 +35,38 @@ export class UpdateController
         return badRequest(validationError);
       }
 
-      const { projectName, fileName, content } = request.body!;
+      const { projectName, fileName, content, expectedHash, changeNote } =
+        request.body!;
 
       const result = await this.updateFileUseCase.updateFile({
         projectName,
         fileName,
         content,
+        expectedHash,
+        changeNote,
+        metadata: metadataUpdate(request.body!),
       });
 
       if (result === null) {
         return notFound(fileName);
       }
 
+      let message = `File ${fileName} updated successfully in project ${projectName}`;
+      if (result.indexError) {
+        message += `\nWarning: the file could not be indexed for search: ${result.indexError}`;
+      }
+
       return ok(
-        `File ${fileName} updated successfully in project ${projectName}`
+        message,
+        result.contentHash ? { contentHash: result.contentHash } : undefined
       );
     } catch (error) {
+      if (error instanceof FrontMatterValidationError) {
+        return badRequest(error);
+      }
+      if (error instanceof FileConflictError) {
+        return conflict(error);
+      }
       return serverError(error as Error);
     }
   }
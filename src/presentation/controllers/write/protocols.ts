@@ -1,12 +1,17 @@
 import { WriteFileUseCase } from "../../../domain/usecases/write-file.js";
+import {
+  FileExistsError,
+  FrontMatterValidationError,
+} from "../../../domain/entities/index.js";
 import {
   Controller,
+  MetadataRequest,
   Request,
   Response,
   Validator,
 } from "../../protocols/index.js";
 
-export interface WriteRequest {
+export interface WriteRequest extends MetadataRequest {
   projectName: string;
   fileName: string;
   content: string;
@@ -14,4 +19,12 @@ export interface WriteRequest {
 
 export type WriteResponse = string;
 
-export { Controller, Request, Response, Validator, WriteFileUseCase };
+export {
+  Controller,
+  FileExistsError,
+  FrontMatterValidationError,
+  Request,
+  Response,
+  Validator,
+  WriteFileUseCase,
+};
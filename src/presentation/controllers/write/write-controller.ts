@@ -1,6 +1,14 @@
-import { badRequest, ok, serverError } from "../../helpers/index.js";
+import {
+  badRequest,
+  conflict,
+  metadataUpdate,
+  ok,
+  serverError,
+} from "../../helpers/index.js";
 import {
   Controller,
+  FileExistsError,
+  FrontMatterValidationError,
   Request,
   Response,
   Validator,
@@ -28,16 +36,26 @@ export class WriteController
 
       const { projectName, fileName, content } = request.body!;
 
-      await this.writeFileUseCase.writeFile({
+      const result = await this.writeFileUseCase.writeFile({
         projectName,
         fileName,
         content,
+        metadata: metadataUpdate(request.body!),
       });
 
-      return ok(
-        `File ${fileName} written successfully to project ${projectName}`
-      );
+      let message = `File ${fileName} written successfully to project ${projectName}`;
+      if (result?.indexError) {
+        message += `\nWarning: the file could not be indexed for search: ${result.indexError}`;
+      }
+
+      return ok(message);
     } catch (error) {
+      if (error instanceof FrontMatterValidationError) {
+        return badRequest(error);
+      }
+      if (error instanceof FileExistsError) {
+        return conflict(error);
+      }
       return serverError(error as Error);
     }
   }
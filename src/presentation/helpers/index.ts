@@ -11,12 +11,23 @@ export const notFound = (resourceName: string): Response => ({
   body: new NotFoundError(resourceName),
 });
 
+export const conflict = (error: Error): Response => ({
+  statusCode: 409,
+  body: error,
+});
+
 export const serverError = (error: Error): Response => ({
   statusCode: 500,
   body: new UnexpectedError(error),
 });
 
-export const ok = (data: any): Response => ({
+export const ok = (
+  data: any,
+  metadata?: Record<string, string | number>
+): Response => ({
   statusCode: 200,
   body: data,
+  ...(metadata && { metadata }),
 });
+
+export * from "./metadata-helpers.js";
@@ -0,0 +1,23 @@
+import { FileMetadataUpdate } from "../../domain/entities/index.js";
+import { MetadataRequest } from "../protocols/index.js";
+
+/**
+ * The metadata fields of a request, or undefined when it sets none
+ */
+export const metadataUpdate = ({
+  tags,
+  salience,
+  task,
+  metadata,
+}: MetadataRequest): FileMetadataUpdate | undefined => {
+  if (
+    tags === undefined &&
+    salience === undefined &&
+    task === undefined &&
+    metadata === undefined
+  ) {
+    return undefined;
+  }
+
+  return { tags, salience, task, extra: metadata };
+};
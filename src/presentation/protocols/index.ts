@@ -2,3 +2,4 @@ export * from "./controller.js";
 export * from "./request.js";
 export * from "./response.js";
 export * from "./validator.js";
+export * from "./metadata-request.js";
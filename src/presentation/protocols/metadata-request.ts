@@ -0,0 +1,17 @@
+/**
+ * Front matter fields a tool can set without the caller writing YAML
+ */
+export interface MetadataRequest {
+  tags?: string[];
+
+  /**
+   * Ranking weight between 0 and 1
+   */
+  salience?: number;
+  task?: string;
+
+  /**
+   * Custom front matter fields
+   */
+  metadata?: Record<string, unknown>;
+}
@@ -1,4 +1,8 @@
 export interface Response<T extends any | Error | null = any | Error | null> {
   body?: T;
   statusCode: number;
+  /**
+   * Values reported alongside the body, e.g. the hash of a file's content
+   */
+  metadata?: Record<string, string | number>;
 }
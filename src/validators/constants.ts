@@ -3,3 +3,9 @@
  * Allows only alphanumeric characters, underscores, and hyphens
  */
 export const NAME_REGEX = /^[a-zA-Z0-9_.-]+$/;
+
+/**
+ * Regular expression for validating file paths relative to a project:
+ * names as above, optionally nested in folders separated by slashes
+ */
+export const PATH_REGEX = /^[a-zA-Z0-9_.-]+(\/[a-zA-Z0-9_.-]+)*$/;
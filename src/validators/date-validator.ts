@@ -0,0 +1,22 @@
+import { InvalidParamError } from "../presentation/errors/index.js";
+import { Validator } from "../presentation/protocols/validator.js";
+
+/**
+ * Checks that an optional field is a string holding a parseable date
+ */
+export class DateValidator implements Validator {
+  constructor(private readonly fieldName: string) {}
+
+  validate(input?: any): Error | null {
+    if (!input || input[this.fieldName] === undefined) {
+      return null;
+    }
+
+    const value = input[this.fieldName];
+    if (typeof value !== "string" || isNaN(Date.parse(value))) {
+      return new InvalidParamError(this.fieldName);
+    }
+
+    return null;
+  }
+}
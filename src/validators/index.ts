@@ -1,4 +1,10 @@
+export * from "./date-validator.js";
+export * from "./integer-validator.js";
+export * from "./metadata-params-validator.js";
+export * from "./one-of-validator.js";
 export * from "./param-name-validator.js";
 export * from "./path-security-validator.js";
 export * from "./required-field-validator.js";
+export * from "./string-list-validator.js";
+export * from "./string-map-validator.js";
 export * from "./validator-composite.js";
@@ -0,0 +1,26 @@
+import { InvalidParamError } from "../presentation/errors/index.js";
+import { Validator } from "../presentation/protocols/validator.js";
+
+/**
+ * Checks that an optional field is a whole number within a range
+ */
+export class IntegerValidator implements Validator {
+  constructor(
+    private readonly fieldName: string,
+    private readonly min = Number.MIN_SAFE_INTEGER,
+    private readonly max = Number.MAX_SAFE_INTEGER
+  ) {}
+
+  validate(input?: any): Error | null {
+    if (!input || input[this.fieldName] === undefined) {
+      return null;
+    }
+
+    const value = input[this.fieldName];
+    if (!Number.isInteger(value) || value < this.min || value > this.max) {
+      return new InvalidParamError(this.fieldName);
+    }
+
+    return null;
+  }
+}
@@ -0,0 +1,43 @@
+import { InvalidParamError } from "../presentation/errors/index.js";
+import { Validator } from "../presentation/protocols/validator.js";
+
+/**
+ * Checks the optional tags, salience, task and metadata fields of the tools
+ * that set front matter
+ */
+export class MetadataParamsValidator implements Validator {
+  validate(input?: any): Error | null {
+    if (!input) {
+      return null;
+    }
+
+    const { tags, salience, task, metadata } = input;
+
+    if (
+      tags !== undefined &&
+      (!Array.isArray(tags) || tags.some((tag) => typeof tag !== "string" || !tag))
+    ) {
+      return new InvalidParamError("tags");
+    }
+
+    if (
+      salience !== undefined &&
+      (typeof salience !== "number" || !(salience >= 0 && salience <= 1))
+    ) {
+      return new InvalidParamError("salience");
+    }
+
+    if (task !== undefined && typeof task !== "string") {
+      return new InvalidParamError("task");
+    }
+
+    if (
+      metadata !== undefined &&
+      (metadata === null || typeof metadata !== "object" || Array.isArray(metadata))
+    ) {
+      return new InvalidParamError("metadata");
+    }
+
+    return null;
+  }
+}
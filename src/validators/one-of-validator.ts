@@ -0,0 +1,24 @@
+import { InvalidParamError } from "../presentation/errors/index.js";
+import { Validator } from "../presentation/protocols/validator.js";
+
+/**
+ * Checks that an optional field is one of a fixed set of values
+ */
+export class OneOfValidator implements Validator {
+  constructor(
+    private readonly fieldName: string,
+    private readonly values: readonly string[]
+  ) {}
+
+  validate(input?: any): Error | null {
+    if (!input || input[this.fieldName] === undefined) {
+      return null;
+    }
+
+    if (!this.values.includes(input[this.fieldName])) {
+      return new InvalidParamError(this.fieldName);
+    }
+
+    return null;
+  }
+}
@@ -1,19 +1,27 @@
 import { InvalidParamError } from "../presentation/errors/index.js";
 import { Validator } from "../presentation/protocols/validator.js";
 
+interface PathSecurityOptions {
+  /**
+   * Accept relative paths into subfolders, such as `decisions/adr-001.md`
+   */
+  allowSubdirectories?: boolean;
+}
+
 export class PathSecurityValidator implements Validator {
-  constructor(private readonly fieldName: string) {}
+  constructor(
+    private readonly fieldName: string,
+    private readonly options: PathSecurityOptions = {}
+  ) {}
 
   validate(input?: any): Error | null {
     if (!input || !input[this.fieldName]) {
       return null;
     }
 
-    const value = input[this.fieldName];
-    if (
-      typeof value === "string" &&
-      (value.includes("..") || value.includes("/"))
-    ) {
+    // Lists of paths are checked path by path
+    const values = [input[this.fieldName]].flat();
+    if (values.some((value) => typeof value === "string" && !this.isSafe(value))) {
       return new InvalidParamError(
         `${this.fieldName} contains invalid path segments`
       );
@@ -21,4 +29,20 @@ export class PathSecurityValidator implements Validator {
 
     return null;
   }
+
+  private isSafe(value: string): boolean {
+    if (value.includes("..") || value.includes("\\")) {
+      return false;
+    }
+    if (!this.options.allowSubdirectories && value.includes("/")) {
+      return false;
+    }
+
+    // Empty segments would make the path absolute or ambiguous, and hidden
+    // names are internal data: the version history, the trash and every
+    // other reserved directory of the memory bank root
+    return value
+      .split("/")
+      .every((segment) => segment !== "" && !segment.startsWith("."));
+  }
 }
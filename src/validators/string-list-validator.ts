@@ -0,0 +1,25 @@
+import { InvalidParamError } from "../presentation/errors/index.js";
+import { Validator } from "../presentation/protocols/validator.js";
+
+/**
+ * Checks that an optional field is an array of non-empty strings
+ */
+export class StringListValidator implements Validator {
+  constructor(private readonly fieldName: string) {}
+
+  validate(input?: any): Error | null {
+    if (!input || input[this.fieldName] === undefined) {
+      return null;
+    }
+
+    const value = input[this.fieldName];
+    if (
+      !Array.isArray(value) ||
+      value.some((item) => typeof item !== "string" || item.length === 0)
+    ) {
+      return new InvalidParamError(this.fieldName);
+    }
+
+    return null;
+  }
+}
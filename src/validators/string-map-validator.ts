@@ -0,0 +1,27 @@
+import { InvalidParamError } from "../presentation/errors/index.js";
+import { Validator } from "../presentation/protocols/validator.js";
+
+/**
+ * Checks that an optional field is an object of string values
+ */
+export class StringMapValidator implements Validator {
+  constructor(private readonly fieldName: string) {}
+
+  validate(input?: any): Error | null {
+    if (!input || input[this.fieldName] === undefined) {
+      return null;
+    }
+
+    const value = input[this.fieldName];
+    if (
+      value === null ||
+      typeof value !== "object" ||
+      Array.isArray(value) ||
+      Object.values(value).some((item) => typeof item !== "string")
+    ) {
+      return new InvalidParamError(this.fieldName);
+    }
+
+    return null;
+  }
+}
@@ -1,4 +1,13 @@
+import { createHash } from "crypto";
 import { FileRepository } from "../../../src/data/protocols/file-repository.js";
+import {
+  FileConflictError,
+  FileStats,
+  FileVersion,
+} from "../../../src/domain/entities/index.js";
+
+export const mockContentHash = (content: string): string =>
+  createHash("sha256").update(content).digest("hex");
 
 export class MockFileRepository implements FileRepository {
   private projectFiles: Record<string, Record<string, string>> = {
@@ -16,6 +25,16 @@ export class MockFileRepository implements FileRepository {
     return Object.keys(this.projectFiles[projectName] || {});
   }
 
+  async listFileStats(projectName: string): Promise<FileStats[]> {
+    return Object.entries(this.projectFiles[projectName] || {}).map(
+      ([fileName, content]) => ({
+        fileName,
+        size: content.length,
+        modifiedAt: new Date("2024-01-01T00:00:00.000Z"),
+      })
+    );
+  }
+
   async loadFile(
     projectName: string,
     fileName: string
@@ -29,6 +48,17 @@ export class MockFileRepository implements FileRepository {
     return null;
   }
 
+  async loadFileVersion(
+    projectName: string,
+    fileName: string
+  ): Promise<FileVersion | null> {
+    const content = await this.loadFile(projectName, fileName);
+    if (content === null) {
+      return null;
+    }
+    return { content, contentHash: mockContentHash(content) };
+  }
+
   async writeFile(
     projectName: string,
     fileName: string,
@@ -44,15 +74,50 @@ export class MockFileRepository implements FileRepository {
   async updateFile(
     projectName: string,
     fileName: string,
-    content: string
+    content: string,
+    expectedHash?: string
   ): Promise<string | null> {
     if (
       this.projectFiles[projectName] &&
       this.projectFiles[projectName][fileName]
     ) {
+      const currentHash = mockContentHash(
+        this.projectFiles[projectName][fileName]
+      );
+      if (expectedHash !== undefined && expectedHash !== currentHash) {
+        throw new FileConflictError(fileName, currentHash, expectedHash);
+      }
       this.projectFiles[projectName][fileName] = content;
       return content;
     }
     return null;
   }
+
+  async deleteFile(
+    projectName: string,
+    fileName: string
+  ): Promise<string | null> {
+    if (
+      this.projectFiles[projectName] &&
+      this.projectFiles[projectName][fileName]
+    ) {
+      delete this.projectFiles[projectName][fileName];
+      return `.trash/${projectName}/0/${fileName}`;
+    }
+    return null;
+  }
+
+  async renameFile(
+    projectName: string,
+    fileName: string,
+    newFileName: string
+  ): Promise<boolean> {
+    const files = this.projectFiles[projectName];
+    if (!files || !files[fileName] || files[newFileName]) {
+      return false;
+    }
+    files[newFileName] = files[fileName];
+    delete files[fileName];
+    return true;
+  }
 }
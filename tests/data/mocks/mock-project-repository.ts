@@ -1,5 +1,8 @@
 import { ProjectRepository } from "../../../src/data/protocols/project-repository.js";
-import { Project } from "../../../src/domain/entities/project.js";
+import {
+  Project,
+  ProjectManifest,
+} from "../../../src/domain/entities/project.js";
 
 export class MockProjectRepository implements ProjectRepository {
   private projects = ["project-1", "project-2"];
@@ -17,4 +20,10 @@ export class MockProjectRepository implements ProjectRepository {
       this.projects.push(name);
     }
   }
+
+  async loadManifest(name: string): Promise<ProjectManifest | null> {
+    return name === "project-1"
+      ? { description: "The first project", owners: ["sam"], tags: ["core"] }
+      : null;
+  }
 }
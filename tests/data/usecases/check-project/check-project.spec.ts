@@ -0,0 +1,88 @@
+import { beforeEach, describe, expect, test, vi } from "vitest";
+import { CheckProject } from "../../../../src/data/usecases/check-project/check-project.js";
+import {
+  ProjectTemplate,
+  TemplateNotFoundError,
+} from "../../../../src/domain/entities/index.js";
+import {
+  MockFileRepository,
+  MockProjectRepository,
+} from "../../mocks/index.js";
+
+const template: ProjectTemplate = {
+  name: "default",
+  files: [],
+  coreFiles: ["file1.md", "file2.md", "missing.md"],
+};
+
+describe("CheckProject UseCase", () => {
+  let sut: CheckProject;
+  let fileRepository: MockFileRepository;
+  let templateRepository: {
+    listTemplates: ReturnType<typeof vi.fn>;
+    loadTemplate: ReturnType<typeof vi.fn>;
+  };
+
+  beforeEach(() => {
+    fileRepository = new MockFileRepository();
+    templateRepository = {
+      listTemplates: vi.fn(async () => ["default"]),
+      loadTemplate: vi.fn(async (name: string) =>
+        name === "default" ? template : null
+      ),
+    };
+    sut = new CheckProject(
+      templateRepository,
+      new MockProjectRepository(),
+      fileRepository
+    );
+  });
+
+  test("should return null if the project doesn't exist", async () => {
+    const result = await sut.checkProject({ projectName: "missing" });
+
+    expect(result).toBeNull();
+    expect(templateRepository.loadTemplate).not.toHaveBeenCalled();
+  });
+
+  test("should report missing core files", async () => {
+    const result = await sut.checkProject({ projectName: "project-1" });
+
+    expect(result).toEqual({
+      projectName: "project-1",
+      template: "default",
+      missing: ["missing.md"],
+      empty: [],
+      complete: false,
+    });
+  });
+
+  test("should count files with only front matter as empty", async () => {
+    await fileRepository.writeFile(
+      "project-1",
+      "missing.md",
+      "---\ntags: [brief]\n---\n\n"
+    );
+    await fileRepository.updateFile("project-1", "file2.md", "   \n");
+
+    const result = await sut.checkProject({ projectName: "project-1" });
+
+    expect(result?.missing).toEqual([]);
+    expect(result?.empty).toEqual(["file2.md", "missing.md"]);
+    expect(result?.complete).toBe(false);
+  });
+
+  test("should report a project with every core file filled in as complete", async () => {
+    await fileRepository.writeFile("project-1", "missing.md", "Filled in");
+
+    const result = await sut.checkProject({ projectName: "project-1" });
+
+    expect(result?.complete).toBe(true);
+  });
+
+  test("should throw TemplateNotFoundError for an unknown template", async () => {
+    await expect(
+      sut.checkProject({ projectName: "project-1", template: "missing" })
+    ).rejects.toBeInstanceOf(TemplateNotFoundError);
+  });
+});
@@ -0,0 +1,111 @@
+import { beforeEach, describe, expect, test, vi } from "vitest";
+import { CompileContext } from "../../../../src/data/usecases/compile-context/compile-context.js";
+import {
+  ContextBudget,
+  SearchResult,
+} from "../../../../src/domain/entities/index.js";
+import { MockLLMService } from "../../../../src/infra/llm/mock-llm-service.js";
+
+const budget: ContextBudget = {
+  maxTokens: 1000,
+  reservedTokens: 0,
+  availableTokens: 1000,
+  usedTokens: 0,
+  compressionTarget: 0.3,
+};
+
+const makeResult = (
+  name: string,
+  content: string,
+  chunks?: SearchResult["chunks"]
+): SearchResult => ({
+  file: {
+    name,
+    projectName: "project-1",
+    content,
+    metadata: { tags: [], updated: new Date(), created: new Date() },
+  },
+  scores: {
+    semantic: 0.9,
+    recency: 0,
+    frequency: 0,
+    salience: 0.5,
+    timeDecay: 1,
+    combined: 0.5,
+  },
+  chunks,
+});
+
+describe("CompileContext UseCase", () => {
+  let sut: CompileContext;
+  let vectorRepository: { search: ReturnType<typeof vi.fn> };
+
+  beforeEach(() => {
+    vectorRepository = { search: vi.fn() };
+    sut = new CompileContext(
+      vectorRepository as any,
+      { searchSummaries: vi.fn().mockResolvedValue([]) } as any,
+      new MockLLMService()
+    );
+  });
+
+  test("should include small files whole", async () => {
+    vectorRepository.search.mockResolvedValue([
+      makeResult("small.md", "Short note about caching", [
+        {
+          content: "Short note about caching",
+          sectionPath: [],
+          startLine: 1,
+          endLine: 1,
+          score: 0.9,
+        },
+      ]),
+    ]);
+
+    const compilation = await sut.compileContext("caching", budget, {
+      includeSummaries: false,
+    });
+
+    expect(compilation.items).toHaveLength(1);
+    expect(compilation.items[0].type).toBe("file");
+  });
+
+  test("should include only the matching chunks of large files", async () => {
+    vectorRepository.search.mockResolvedValue([
+      makeResult("progress.md", "word ".repeat(2000), [
+        {
+          content: "## Caching\nRedis sits in front of the API.",
+          sectionPath: ["Progress", "Caching"],
+          startLine: 40,
+          endLine: 41,
+          score: 0.8,
+        },
+        {
+          content: "## Notes\nUnrelated.",
+          sectionPath: ["Progress", "Notes"],
+          startLine: 90,
+          endLine: 91,
+          score: 0.2,
+        },
+      ]),
+    ]);
+
+    const compilation = await sut.compileContext("caching", budget, {
+      includeSummaries: false,
+    });
+
+    expect(compilation.items).toHaveLength(1);
+    expect(compilation.items[0]).toMatchObject({
+      id: "project-1:progress.md#L40-41",
+      type: "snippet",
+      content: "## Caching\nRedis sits in front of the API.",
+      relevanceScore: 0.8,
+      metadata: {
+        fileName: "progress.md",
+        sectionPath: ["Progress", "Caching"],
+        startLine: 40,
+        endLine: 41,
+      },
+    });
+  });
+});
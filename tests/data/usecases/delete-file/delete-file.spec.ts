@@ -0,0 +1,79 @@
+import { beforeEach, describe, expect, test, vi } from "vitest";
+import { DeleteFile } from "../../../../src/data/usecases/delete-file/delete-file.js";
+import { MockFileRepository } from "../../mocks/index.js";
+
+describe("DeleteFile UseCase", () => {
+  let sut: DeleteFile;
+  let fileRepository: MockFileRepository;
+  let syncFileChange: { sync: ReturnType<typeof vi.fn> };
+
+  beforeEach(() => {
+    fileRepository = new MockFileRepository();
+    syncFileChange = {
+      sync: vi.fn(async (change) => ({
+        ...change,
+        action: "removed",
+        staleSummaries: ["summary-1"],
+      })),
+    };
+    sut = new DeleteFile(fileRepository, syncFileChange);
+  });
+
+  test("should return null if the file doesn't exist", async () => {
+    const result = await sut.deleteFile({
+      projectName: "project-1",
+      fileName: "missing.md",
+    });
+
+    expect(result).toBeNull();
+    expect(syncFileChange.sync).not.toHaveBeenCalled();
+  });
+
+  test("should trash the file and drop it from the index", async () => {
+    const result = await sut.deleteFile({
+      projectName: "project-1",
+      fileName: "file1.md",
+    });
+
+    expect(result).toEqual({
+      trashPath: ".trash/project-1/0/file1.md",
+      staleSummaries: ["summary-1"],
+    });
+    expect(await fileRepository.loadFile("project-1", "file1.md")).toBeNull();
+    expect(syncFileChange.sync).toHaveBeenCalledWith({
+      projectName: "project-1",
+      fileName: "file1.md",
+    });
+  });
+
+  test("should report index failures without undoing the delete", async () => {
+    syncFileChange.sync.mockRejectedValue(new Error("index unavailable"));
+
+    const result = await sut.deleteFile({
+      projectName: "project-1",
+      fileName: "file1.md",
+    });
+
+    expect(result?.indexError).toBe("index unavailable");
+    expect(await fileRepository.loadFile("project-1", "file1.md")).toBeNull();
+  });
+
+  test("should clear the journal entry once the index has dropped the file", async () => {
+    const writeJournal = {
+      begin: vi.fn(async () => "entry-1"),
+      commit: vi.fn(),
+      pending: vi.fn(),
+    };
+    sut = new DeleteFile(fileRepository, syncFileChange, writeJournal);
+
+    await sut.deleteFile({ projectName: "project-1", fileName: "file1.md" });
+    await sut.deleteFile({ projectName: "project-1", fileName: "missing.md" });
+
+    expect(writeJournal.begin).toHaveBeenCalledWith({
+      operation: "delete",
+      projectName: "project-1",
+      fileNames: ["file1.md"],
+    });
+    expect(writeJournal.commit.mock.calls).toEqual([["entry-1"], ["entry-1"]]);
+  });
+});
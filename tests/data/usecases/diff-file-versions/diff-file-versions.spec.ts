@@ -0,0 +1,59 @@
+import { beforeEach, describe, expect, test, vi } from "vitest";
+import { DiffFileVersions } from "../../../../src/data/usecases/diff-file-versions/diff-file-versions.js";
+import { MockFileRepository } from "../../mocks/index.js";
+
+describe("DiffFileVersions UseCase", () => {
+  let sut: DiffFileVersions;
+  let fileHistoryRepository: {
+    listVersions: ReturnType<typeof vi.fn>;
+    loadVersion: ReturnType<typeof vi.fn>;
+  };
+  let diffGenerator: { unifiedDiff: ReturnType<typeof vi.fn> };
+
+  beforeEach(() => {
+    fileHistoryRepository = {
+      listVersions: vi.fn(),
+      loadVersion: vi.fn(async (_project, _file, versionId) =>
+        versionId === "v1" ? { versionId, content: "Old content" } : null
+      ),
+    };
+    diffGenerator = { unifiedDiff: vi.fn().mockReturnValue("the diff") };
+    sut = new DiffFileVersions(
+      new MockFileRepository(),
+      fileHistoryRepository,
+      diffGenerator
+    );
+  });
+
+  test("should diff a version against the current content by default", async () => {
+    const result = await sut.diffVersions({
+      projectName: "project-1",
+      fileName: "file1.md",
+      fromVersionId: "v1",
+    });
+
+    expect(diffGenerator.unifiedDiff).toHaveBeenCalledWith(
+      "Old content",
+      "Content of file1.md",
+      "file1.md@v1",
+      "file1.md@current"
+    );
+    expect(result).toEqual({
+      fromVersionId: "v1",
+      toVersionId: "current",
+      diff: "the diff",
+    });
+  });
+
+  test("should return null if a version doesn't exist", async () => {
+    const result = await sut.diffVersions({
+      projectName: "project-1",
+      fileName: "file1.md",
+      fromVersionId: "v1",
+      toVersionId: "v2",
+    });
+
+    expect(result).toBeNull();
+    expect(diffGenerator.unifiedDiff).not.toHaveBeenCalled();
+  });
+});
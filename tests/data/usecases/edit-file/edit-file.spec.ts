@@ -0,0 +1,86 @@
+import { beforeEach, describe, expect, test, vi } from "vitest";
+import { EditFile } from "../../../../src/data/usecases/edit-file/edit-file.js";
+import { FileEditError } from "../../../../src/domain/entities/index.js";
+import { MarkdownFileEditor } from "../../../../src/infra/parsers/markdown-file-editor.js";
+import { MockFileRepository, mockContentHash } from "../../mocks/index.js";
+
+describe("EditFile UseCase", () => {
+  let sut: EditFile;
+  let updateFile: { updateFile: ReturnType<typeof vi.fn> };
+
+  beforeEach(() => {
+    updateFile = {
+      updateFile: vi.fn(async ({ content }) => ({ content })),
+    };
+    sut = new EditFile(
+      new MockFileRepository(),
+      new MarkdownFileEditor(),
+      updateFile
+    );
+  });
+
+  test("should return null if the file doesn't exist", async () => {
+    const result = await sut.editFile({
+      projectName: "project-1",
+      fileName: "missing.md",
+      edits: [{ operation: "append", content: "more" }],
+    });
+
+    expect(result).toBeNull();
+    expect(updateFile.updateFile).not.toHaveBeenCalled();
+  });
+
+  test("should apply the edits in order and save through UpdateFile", async () => {
+    const result = await sut.editFile({
+      projectName: "project-1",
+      fileName: "file1.md",
+      edits: [
+        { operation: "append", content: "## Notes" },
+        {
+          operation: "insert_after_heading",
+          headingPath: ["Notes"],
+          content: "First note",
+        },
+      ],
+    });
+
+    expect(updateFile.updateFile).toHaveBeenCalledWith({
+      projectName: "project-1",
+      fileName: "file1.md",
+      content: "Content of file1.md\n## Notes\nFirst note\n",
+      expectedHash: mockContentHash("Content of file1.md"),
+    });
+    expect(result?.content).toBe("Content of file1.md\n## Notes\nFirst note\n");
+  });
+
+  test("should save nothing when an edit does not apply", async () => {
+    await expect(
+      sut.editFile({
+        projectName: "project-1",
+        fileName: "file1.md",
+        edits: [
+          { operation: "append", content: "more" },
+          {
+            operation: "replace_section",
+            headingPath: ["Missing"],
+            content: "x",
+          },
+        ],
+      })
+    ).rejects.toThrow(FileEditError);
+    expect(updateFile.updateFile).not.toHaveBeenCalled();
+  });
+
+  test("should base the save on the hash the caller read", async () => {
+    await sut.editFile({
+      projectName: "project-1",
+      fileName: "file1.md",
+      edits: [{ operation: "append", content: "more" }],
+      expectedHash: "hash-the-caller-read",
+    });
+
+    expect(updateFile.updateFile).toHaveBeenCalledWith(
+      expect.objectContaining({ expectedHash: "hash-the-caller-read" })
+    );
+  });
+});
@@ -0,0 +1,161 @@
+import { beforeEach, describe, expect, test, vi } from "vitest";
+import { ExportProject } from "../../../../src/data/usecases/export-project/export-project.js";
+import {
+  FileHistoryVersion,
+  ProjectBundleContents,
+  Summary,
+  SummaryLevel,
+  SummaryType,
+} from "../../../../src/domain/entities/index.js";
+import {
+  MockFileRepository,
+  MockProjectRepository,
+} from "../../mocks/index.js";
+
+const version: FileHistoryVersion = {
+  versionId: "001700000000000-abcdef12",
+  contentHash: "abcdef12",
+  replacedAt: "2023-11-14T22:13:20.000Z",
+  content: "Old content of file1.md",
+};
+
+const summary: Summary = {
+  id: "project-1:node:file1.md",
+  projectName: "project-1",
+  content: "Summary of file1.md",
+  metadata: {
+    level: SummaryLevel.NODE,
+    type: SummaryType.EXTRACTIVE,
+    sourceFiles: ["file1.md"],
+    tokens: 10,
+    compressionRatio: 0.5,
+    created: new Date(),
+    updated: new Date(),
+    childSummaryIds: [],
+  },
+};
+
+describe("ExportProject UseCase", () => {
+  let sut: ExportProject;
+  let fileHistoryRepository: {
+    listVersions: ReturnType<typeof vi.fn>;
+    loadVersion: ReturnType<typeof vi.fn>;
+    saveVersion: ReturnType<typeof vi.fn>;
+  };
+  let bundleStore: {
+    save: ReturnType<typeof vi.fn>;
+    load: ReturnType<typeof vi.fn>;
+  };
+  let summaryRepository: {
+    getSummariesByLevel: ReturnType<typeof vi.fn>;
+  };
+
+  beforeEach(() => {
+    fileHistoryRepository = {
+      listVersions: vi.fn(async (_projectName: string, fileName: string) => {
+        const { content, ...entry } = version;
+        return fileName === "file1.md" ? [entry] : [];
+      }),
+      loadVersion: vi.fn(async () => version),
+      saveVersion: vi.fn(),
+    };
+    bundleStore = {
+      save: vi.fn(async (projectName: string) => ({
+        projectName,
+        path: "/exports/project-1.json.gz",
+        manifest: {},
+      })),
+      load: vi.fn(),
+    };
+    summaryRepository = {
+      getSummariesByLevel: vi.fn(async (_projectName: string, level: SummaryLevel) =>
+        level === SummaryLevel.NODE
+          ? [{ ...summary, embedding: new Float32Array([0.1, 0.2]) }]
+          : []
+      ),
+    };
+    sut = new ExportProject(
+      new MockProjectRepository(),
+      new MockFileRepository(),
+      fileHistoryRepository,
+      bundleStore,
+      summaryRepository as any
+    );
+  });
+
+  test("should return null if the project doesn't exist", async () => {
+    const result = await sut.exportProject({ projectName: "missing" });
+
+    expect(result).toBeNull();
+    expect(bundleStore.save).not.toHaveBeenCalled();
+  });
+
+  test("should bundle files, history and summaries without embeddings", async () => {
+    const result = await sut.exportProject({
+      projectName: "project-1",
+      outputPath: "project-1.json",
+      overwrite: true,
+    });
+
+    const contents: ProjectBundleContents = {
+      files: [
+        { fileName: "file1.md", content: "Content of file1.md" },
+        { fileName: "file2.md", content: "Content of file2.md" },
+      ],
+      history: [{ fileName: "file1.md", versions: [version] }],
+      summaries: [summary],
+      episodes: [],
+    };
+    expect(result?.path).toBe("/exports/project-1.json.gz");
+    expect(bundleStore.save).toHaveBeenCalledWith(
+      "project-1",
+      contents,
+      "project-1.json",
+      true
+    );
+    expect(summaryRepository.getSummariesByLevel).toHaveBeenCalledTimes(3);
+  });
+
+  test("should bundle the project manifest with the files", async () => {
+    const fileRepository = new MockFileRepository();
+    await fileRepository.writeFile("project-1", "project.yaml", "tags: [api]");
+    vi.spyOn(fileRepository, "listFiles").mockResolvedValue(["file1.md"]);
+    sut = new ExportProject(
+      new MockProjectRepository(),
+      fileRepository,
+      fileHistoryRepository,
+      bundleStore
+    );
+
+    await sut.exportProject({ projectName: "project-1" });
+
+    const [, contents] = bundleStore.save.mock.calls[0];
+    expect(contents.files).toEqual([
+      { fileName: "file1.md", content: "Content of file1.md" },
+      { fileName: "project.yaml", content: "tags: [api]" },
+    ]);
+  });
+
+  test("should bundle episodes when an episodic memory store is given", async () => {
+    const episode = { id: "episode-1", projectName: "project-1", embedding: new Float32Array(1) };
+    const episodicRepository = {
+      getEpisodesByType: vi.fn(async (_projectName: string, type: string) =>
+        type === "insight" ? [episode] : []
+      ),
+    };
+    sut = new ExportProject(
+      new MockProjectRepository(),
+      new MockFileRepository(),
+      fileHistoryRepository,
+      bundleStore,
+      undefined,
+      episodicRepository as any
+    );
+
+    await sut.exportProject({ projectName: "project-1" });
+
+    const [, contents] = bundleStore.save.mock.calls[0];
+    expect(contents.summaries).toEqual([]);
+    expect(contents.episodes).toEqual([{ id: "episode-1", projectName: "project-1" }]);
+  });
+});
@@ -0,0 +1,134 @@
+import { beforeEach, describe, expect, test, vi } from "vitest";
+import { FederatedSearch } from "../../../../src/data/usecases/federated-search/federated-search.js";
+import { SearchResult } from "../../../../src/domain/entities/index.js";
+
+const makeFileResult = (name: string, combined: number): SearchResult => ({
+  file: {
+    name,
+    projectName: "project-1",
+    content: `content of ${name}`,
+    metadata: { tags: [], updated: new Date(), created: new Date() },
+  },
+  scores: {
+    semantic: combined,
+    recency: 0,
+    frequency: 0,
+    salience: 0.5,
+    timeDecay: 1,
+    combined,
+  },
+});
+
+const makeGlobalMemory = (id: string) => ({
+  id,
+  type: "pattern",
+  title: `Memory ${id}`,
+  content: `content of ${id}`,
+  metadata: { tags: [], source_projects: ["project-1"] },
+});
+
+describe("FederatedSearch UseCase", () => {
+  let sut: FederatedSearch;
+  let vectorRepository: { search: ReturnType<typeof vi.fn> };
+  let summaryRepository: { searchSummaries: ReturnType<typeof vi.fn> };
+  let globalMemoryRepository: { searchGlobalMemories: ReturnType<typeof vi.fn> };
+
+  beforeEach(() => {
+    vectorRepository = {
+      search: vi
+        .fn()
+        .mockResolvedValue([
+          makeFileResult("a.md", 0.5),
+          makeFileResult("b.md", 0.25),
+          makeFileResult("c.md", 0.1),
+        ]),
+    };
+    summaryRepository = { searchSummaries: vi.fn().mockResolvedValue([]) };
+    globalMemoryRepository = {
+      searchGlobalMemories: vi
+        .fn()
+        .mockResolvedValue([makeGlobalMemory("g1"), makeGlobalMemory("g2")]),
+    };
+    sut = new FederatedSearch(
+      vectorRepository as any,
+      summaryRepository as any,
+      globalMemoryRepository as any
+    );
+  });
+
+  test("should tag results with their source and normalize scores per source", async () => {
+    const response = await sut.search({
+      query: "caching",
+      sources: ["file", "global"],
+    });
+
+    const files = response.results.filter((result) => result.source === "file");
+    const memories = response.results.filter((result) => result.source === "global");
+
+    expect(files.map((result) => result.score)).toEqual([1, 0.5, 0.2]);
+    expect(files[0]).toMatchObject({ title: "a.md", projectName: "project-1" });
+    expect(memories.map((result) => result.score)).toEqual([1, 0.5]);
+    expect(response.totalFound).toBe(5);
+  });
+
+  test("should keep each source's quota before filling the limit", async () => {
+    const response = await sut.search({
+      query: "caching",
+      sources: ["file", "global"],
+      limit: 3,
+      quotas: { file: 1, global: 2 },
+    });
+
+    expect(response.results.map((result) => result.id)).toEqual([
+      "project-1:a.md",
+      "g1",
+      "g2",
+    ]);
+    expect(response.sources).toEqual([
+      { source: "file", found: 3, returned: 1 },
+      { source: "global", found: 2, returned: 2 },
+    ]);
+  });
+
+  test("should report failing sources without failing the search", async () => {
+    const response = await sut.search({ query: "caching" });
+
+    const status = Object.fromEntries(
+      response.sources.map((source) => [source.source, source])
+    );
+
+    expect(status.summary.error).toMatch(/within a project/);
+    expect(status.episode.error).toBe("Episodic memory is not configured");
+    expect(status.skill.error).toBe("Episodic memory is not configured");
+    expect(status.file.error).toBeUndefined();
+    expect(response.results.length).toBeGreaterThan(0);
+  });
+
+  test("should search summaries of the given project", async () => {
+    summaryRepository.searchSummaries.mockResolvedValue([
+      {
+        id: "project-1:project:root",
+        projectName: "project-1",
+        content: "Project overview",
+        metadata: { level: "project", sourceFiles: ["a.md"] },
+      },
+    ]);
+
+    const response = await sut.search({
+      query: "overview",
+      projectName: "project-1",
+      sources: ["summary"],
+    });
+
+    expect(summaryRepository.searchSummaries).toHaveBeenCalledWith(
+      "project-1",
+      "overview",
+      20
+    );
+    expect(response.results[0]).toMatchObject({
+      source: "summary",
+      score: 1,
+      metadata: { level: "project" },
+    });
+  });
+});
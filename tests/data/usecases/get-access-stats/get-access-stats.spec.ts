@@ -0,0 +1,42 @@
+import { beforeEach, describe, expect, test, vi } from "vitest";
+import { VectorRepository } from "../../../../src/data/protocols/vector-repository.js";
+import { GetAccessStats } from "../../../../src/data/usecases/get-access-stats/get-access-stats.js";
+import { MockProjectRepository } from "../../mocks/index.js";
+
+const stats = (fileName: string, frequency: number, lastAccessed?: string) => ({
+  projectName: "project-1",
+  fileName,
+  frequency,
+  ...(lastAccessed && { lastAccessed: new Date(lastAccessed) }),
+});
+
+describe("GetAccessStats UseCase", () => {
+  let sut: GetAccessStats;
+  let accessTracker: { recordAccess: ReturnType<typeof vi.fn>; flush: ReturnType<typeof vi.fn> };
+
+  beforeEach(() => {
+    const vectorRepository = {
+      listFileAccessStats: vi.fn().mockResolvedValue([
+        stats("warm.md", 2, "2024-05-01T00:00:00Z"),
+        stats("never.md", 0),
+        stats("hot.md", 9, "2024-05-02T00:00:00Z"),
+        stats("recent.md", 2, "2024-05-03T00:00:00Z"),
+      ]),
+    } as unknown as VectorRepository;
+    accessTracker = { recordAccess: vi.fn(), flush: vi.fn().mockResolvedValue(undefined) };
+    sut = new GetAccessStats(new MockProjectRepository(), vectorRepository, accessTracker);
+  });
+
+  test("should return null if the project doesn't exist", async () => {
+    expect(await sut.getAccessStats({ projectName: "missing" })).toBeNull();
+  });
+
+  test("should rank files by frequency, then by recency", async () => {
+    const report = await sut.getAccessStats({ projectName: "project-1", limit: 2 });
+
+    expect(accessTracker.flush).toHaveBeenCalled();
+    expect(report?.totalFiles).toBe(4);
+    expect(report?.hottest.map((file) => file.fileName)).toEqual(["hot.md", "recent.md"]);
+    expect(report?.coldest.map((file) => file.fileName)).toEqual(["never.md", "warm.md"]);
+  });
+});
@@ -0,0 +1,104 @@
+import { beforeEach, describe, expect, test } from "vitest";
+import { LinkGraph } from "../../../../src/data/protocols/index.js";
+import { GetFileLinks } from "../../../../src/data/usecases/get-file-links/get-file-links.js";
+import { FileLink } from "../../../../src/domain/entities/index.js";
+import {
+  MockFileRepository,
+  MockProjectRepository,
+} from "../../mocks/index.js";
+
+const link = (
+  projectName: string,
+  fileName: string,
+  targetProject: string,
+  targetFile: string
+): FileLink => ({
+  projectName,
+  fileName,
+  targetProject,
+  targetFile,
+  kind: "wiki",
+  text: `[[${targetProject}/${targetFile}]]`,
+  line: 1,
+});
+
+// Just the lookups GetFileLinks needs, kept in memory
+class InMemoryLinkGraph implements LinkGraph {
+  constructor(private readonly links: FileLink[]) {}
+
+  async setLinks() {}
+  async removeFile() {}
+
+  async linksFrom(projectName: string, fileName?: string) {
+    return this.links.filter(
+      (l) => l.projectName === projectName && (fileName === undefined || l.fileName === fileName)
+    );
+  }
+
+  async linksTo(projectName: string, fileName?: string) {
+    return this.links.filter(
+      (l) => l.targetProject === projectName && (fileName === undefined || l.targetFile === fileName)
+    );
+  }
+}
+
+describe("GetFileLinks UseCase", () => {
+  let sut: GetFileLinks;
+
+  const toFile2 = link("project-1", "file1.md", "project-1", "file2.md");
+  const toMissing = link("project-1", "file1.md", "project-1", "missing.md");
+  const toOtherProject = link("project-1", "file2.md", "project-2", "fileA.md");
+  const fromOtherProject = link("project-2", "fileB.md", "project-1", "file1.md");
+  const toUnknownProject = link("project-2", "fileA.md", "unknown", "x.md");
+
+  beforeEach(() => {
+    const linkGraph = new InMemoryLinkGraph([
+      toFile2,
+      toMissing,
+      toOtherProject,
+      fromOtherProject,
+      toUnknownProject,
+    ]);
+    sut = new GetFileLinks(
+      linkGraph,
+      new MockProjectRepository(),
+      new MockFileRepository()
+    );
+  });
+
+  test("should return null if the project or file doesn't exist", async () => {
+    expect(await sut.getFileLinks({ projectName: "missing" })).toBeNull();
+    expect(
+      await sut.getFileLinks({ projectName: "project-1", fileName: "missing.md" })
+    ).toBeNull();
+  });
+
+  test("should report a file's outgoing, incoming and broken links", async () => {
+    const report = await sut.getFileLinks({
+      projectName: "project-1",
+      fileName: "file1.md",
+    });
+
+    expect(report).toEqual({
+      projectName: "project-1",
+      fileName: "file1.md",
+      outgoing: [toFile2, toMissing],
+      backlinks: [fromOtherProject],
+      broken: [toMissing],
+    });
+  });
+
+  test("should count only links from other projects as a project's backlinks", async () => {
+    const report = await sut.getFileLinks({ projectName: "project-1" });
+
+    expect(report?.outgoing).toEqual([toFile2, toMissing, toOtherProject]);
+    expect(report?.backlinks).toEqual([fromOtherProject]);
+    expect(report?.broken).toEqual([toMissing]);
+  });
+
+  test("should report links to projects that don't exist as broken", async () => {
+    const report = await sut.getFileLinks({ projectName: "project-2" });
+
+    expect(report?.broken).toEqual([toUnknownProject]);
+  });
+});
@@ -0,0 +1,326 @@
+import { beforeEach, describe, expect, test, vi } from "vitest";
+import { ImportProject } from "../../../../src/data/usecases/import-project/import-project.js";
+import {
+  EpisodicMemory,
+  EpisodicType,
+  InvalidBundleError,
+  ProjectBundle,
+  Summary,
+  SummaryLevel,
+  SummaryType,
+} from "../../../../src/domain/entities/index.js";
+import {
+  MockFileRepository,
+  MockProjectRepository,
+} from "../../mocks/index.js";
+
+const makeSummary = (
+  id: string,
+  parentSummaryId?: string,
+  childSummaryIds: string[] = []
+): Summary => ({
+  id,
+  projectName: "project-1",
+  content: `Summary ${id}`,
+  metadata: {
+    level: parentSummaryId ? SummaryLevel.NODE : SummaryLevel.PROJECT,
+    type: SummaryType.EXTRACTIVE,
+    sourceFiles: ["file1.md"],
+    tokens: 10,
+    compressionRatio: 0.5,
+    created: new Date(),
+    updated: new Date(),
+    parentSummaryId,
+    childSummaryIds,
+  },
+});
+
+const makeBundle = (overrides: Partial<ProjectBundle> = {}): ProjectBundle => ({
+  manifest: {
+    format: "memory-bank-project",
+    version: 1,
+    projectName: "project-1",
+    exportedAt: "2024-01-01T00:00:00.000Z",
+    counts: { files: 2, versions: 1, summaries: 0, episodes: 0 },
+    files: {},
+    sections: { history: "", summaries: "", episodes: "" },
+  },
+  files: [
+    { fileName: "file1.md", content: "Content of file1.md" },
+    { fileName: "file2.md", content: "New content of file2.md" },
+    { fileName: "notes/file3.md", content: "Content of file3.md" },
+  ],
+  history: [
+    {
+      fileName: "file2.md",
+      versions: [
+        {
+          versionId: "001700000000000-abcdef12",
+          contentHash: "abcdef12",
+          replacedAt: "2023-11-14T22:13:20.000Z",
+          content: "Content of file2.md",
+        },
+      ],
+    },
+  ],
+  summaries: [],
+  episodes: [],
+  ...overrides,
+});
+
+describe("ImportProject UseCase", () => {
+  let sut: ImportProject;
+  let fileRepository: MockFileRepository;
+  let projectRepository: MockProjectRepository;
+  let bundleStore: {
+    save: ReturnType<typeof vi.fn>;
+    load: ReturnType<typeof vi.fn>;
+  };
+  let fileHistoryRepository: {
+    listVersions: ReturnType<typeof vi.fn>;
+    loadVersion: ReturnType<typeof vi.fn>;
+    saveVersion: ReturnType<typeof vi.fn>;
+  };
+  let fileIndexer: {
+    indexFile: ReturnType<typeof vi.fn>;
+    removeFile: ReturnType<typeof vi.fn>;
+    contentHash: ReturnType<typeof vi.fn>;
+  };
+
+  beforeEach(() => {
+    fileRepository = new MockFileRepository();
+    projectRepository = new MockProjectRepository();
+    bundleStore = {
+      save: vi.fn(),
+      load: vi.fn(async () => makeBundle()),
+    };
+    fileHistoryRepository = {
+      listVersions: vi.fn(),
+      loadVersion: vi.fn(),
+      saveVersion: vi.fn(),
+    };
+    fileIndexer = {
+      indexFile: vi.fn(),
+      removeFile: vi.fn(),
+      contentHash: vi.fn(),
+    };
+    sut = new ImportProject(
+      bundleStore,
+      projectRepository,
+      fileRepository,
+      fileHistoryRepository,
+      fileIndexer
+    );
+  });
+
+  test("should import a new project with its history and index its files", async () => {
+    const result = await sut.importProject({
+      bundlePath: "/tmp/bundle.json",
+      projectName: "project-3",
+    });
+
+    expect(result).toMatchObject({
+      projectName: "project-3",
+      sourceProjectName: "project-1",
+      status: "created",
+      created: ["file1.md", "file2.md", "notes/file3.md"],
+      versions: 1,
+      warnings: [],
+    });
+    expect(await projectRepository.projectExists("project-3")).toBe(true);
+    expect(await fileRepository.loadFile("project-3", "notes/file3.md")).toBe(
+      "Content of file3.md"
+    );
+    expect(fileHistoryRepository.saveVersion).toHaveBeenCalledWith(
+      "project-3",
+      "file2.md",
+      makeBundle().history[0].versions[0]
+    );
+    expect(fileIndexer.indexFile).toHaveBeenCalledTimes(3);
+  });
+
+  test("should import under the next free name by default", async () => {
+    await projectRepository.ensureProject("project-1-2");
+
+    const result = await sut.importProject({ bundlePath: "/tmp/bundle.json" });
+
+    expect(result.projectName).toBe("project-1-3");
+    expect(result.status).toBe("created");
+    expect(await fileRepository.listFiles("project-1-3")).toHaveLength(3);
+    expect(await fileRepository.loadFile("project-1", "file2.md")).toBe(
+      "Content of file2.md"
+    );
+  });
+
+  test("should treat a project the repository can't find as new", async () => {
+    vi.spyOn(projectRepository, "projectExists").mockRejectedValueOnce(
+      new Error("ENOENT: no such file or directory")
+    );
+
+    const result = await sut.importProject({
+      bundlePath: "/tmp/bundle.json",
+      projectName: "project-3",
+    });
+
+    expect(result.projectName).toBe("project-3");
+    expect(result.status).toBe("created");
+  });
+
+  test("should merge into an existing project, indexing only changed files", async () => {
+    const result = await sut.importProject({
+      bundlePath: "/tmp/bundle.json",
+      onConflict: "merge",
+    });
+
+    expect(result).toMatchObject({
+      projectName: "project-1",
+      status: "merged",
+      created: ["notes/file3.md"],
+      updated: ["file2.md"],
+      unchanged: ["file1.md"],
+    });
+    expect(await fileRepository.loadFile("project-1", "file2.md")).toBe(
+      "New content of file2.md"
+    );
+    expect(fileIndexer.indexFile).toHaveBeenCalledTimes(2);
+    expect(fileIndexer.indexFile).not.toHaveBeenCalledWith(
+      "project-1",
+      "file1.md",
+      expect.anything()
+    );
+  });
+
+  test("should leave an existing project alone when skipping", async () => {
+    const result = await sut.importProject({
+      bundlePath: "/tmp/bundle.json",
+      onConflict: "skip",
+    });
+
+    expect(result.status).toBe("skipped");
+    expect(result.created).toEqual([]);
+    expect(await fileRepository.loadFile("project-1", "file2.md")).toBe(
+      "Content of file2.md"
+    );
+    expect(fileHistoryRepository.saveVersion).not.toHaveBeenCalled();
+  });
+
+  test("should propagate invalid bundles without writing anything", async () => {
+    bundleStore.load.mockRejectedValueOnce(
+      new InvalidBundleError(["Checksum of file1.md does not match"])
+    );
+
+    await expect(
+      sut.importProject({ bundlePath: "/tmp/bundle.json", projectName: "project-3" })
+    ).rejects.toThrow(InvalidBundleError);
+    expect(await projectRepository.projectExists("project-3")).toBe(false);
+  });
+
+  test("should report files that could not be indexed", async () => {
+    fileIndexer.indexFile.mockRejectedValueOnce(new Error("Qdrant unavailable"));
+
+    const result = await sut.importProject({
+      bundlePath: "/tmp/bundle.json",
+      projectName: "project-3",
+    });
+
+    expect(result.created).toHaveLength(3);
+    expect(result.warnings).toEqual(["Failed to index file1.md: Qdrant unavailable"]);
+  });
+
+  test("should journal the imported files until they are indexed", async () => {
+    const writeJournal = {
+      begin: vi.fn(async () => "entry-1"),
+      commit: vi.fn(),
+      pending: vi.fn(),
+    };
+    sut = new ImportProject(
+      bundleStore,
+      projectRepository,
+      fileRepository,
+      fileHistoryRepository,
+      fileIndexer,
+      undefined,
+      undefined,
+      writeJournal
+    );
+
+    await sut.importProject({ bundlePath: "/tmp/bundle.json", projectName: "project-3" });
+    fileIndexer.indexFile.mockRejectedValueOnce(new Error("Qdrant unavailable"));
+    await sut.importProject({ bundlePath: "/tmp/bundle.json", projectName: "project-4" });
+
+    expect(writeJournal.begin).toHaveBeenCalledWith({
+      operation: "write",
+      projectName: "project-3",
+      fileNames: ["file1.md", "file2.md", "notes/file3.md"],
+    });
+    // The import that failed to index a file is left for the replay
+    expect(writeJournal.commit).toHaveBeenCalledTimes(1);
+  });
+
+  test("should move summaries and episodes to the imported project", async () => {
+    const episode = {
+      id: "episode-1",
+      projectName: "project-1",
+      type: EpisodicType.INSIGHT,
+    } as EpisodicMemory;
+    bundleStore.load.mockResolvedValueOnce(
+      makeBundle({
+        summaries: [
+          makeSummary("project-1:project:overview", undefined, ["project-1:node:file1.md"]),
+          makeSummary("project-1:node:file1.md", "project-1:project:overview"),
+        ],
+        episodes: [episode],
+      })
+    );
+    const summaryRepository = { upsertSummary: vi.fn() };
+    const episodicRepository = { storeEpisode: vi.fn() };
+    sut = new ImportProject(
+      bundleStore,
+      projectRepository,
+      fileRepository,
+      fileHistoryRepository,
+      fileIndexer,
+      summaryRepository as any,
+      episodicRepository as any
+    );
+
+    const result = await sut.importProject({
+      bundlePath: "/tmp/bundle.json",
+      projectName: "project-3",
+    });
+
+    expect(result.summaries).toBe(2);
+    expect(result.episodes).toBe(1);
+    const [overview] = summaryRepository.upsertSummary.mock.calls[0];
+    const [node] = summaryRepository.upsertSummary.mock.calls[1];
+    expect(overview).toMatchObject({
+      id: "project-3:project:overview",
+      projectName: "project-3",
+      metadata: { childSummaryIds: ["project-3:node:file1.md"] },
+    });
+    expect(node.metadata.parentSummaryId).toBe("project-3:project:overview");
+    expect(episodicRepository.storeEpisode).toHaveBeenCalledWith({
+      ...episode,
+      projectName: "project-3",
+    });
+  });
+
+  test("should warn about summaries and episodes it has no store for", async () => {
+    bundleStore.load.mockResolvedValueOnce(
+      makeBundle({
+        summaries: [makeSummary("project-1:project:overview")],
+        episodes: [{ id: "episode-1" } as EpisodicMemory],
+      })
+    );
+
+    const result = await sut.importProject({
+      bundlePath: "/tmp/bundle.json",
+      projectName: "project-3",
+    });
+
+    expect(result.warnings).toEqual([
+      "1 summaries were not imported; no summary store is configured",
+      "1 episodes were not imported; no episodic memory store is configured",
+    ]);
+  });
+});
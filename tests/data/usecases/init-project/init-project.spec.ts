@@ -0,0 +1,111 @@
+import { beforeEach, describe, expect, test, vi } from "vitest";
+import { InitProject } from "../../../../src/data/usecases/init-project/init-project.js";
+import {
+  ProjectTemplate,
+  TemplateNotFoundError,
+} from "../../../../src/domain/entities/index.js";
+import { MockProjectRepository } from "../../mocks/index.js";
+
+const template: ProjectTemplate = {
+  name: "default",
+  files: [
+    { fileName: "projectbrief.md", content: "# {{ projectName }} ({{date}})" },
+    { fileName: "notes/owner.md", content: "Owner: {{owner}}, team: {{team}}" },
+  ],
+  coreFiles: ["projectbrief.md"],
+};
+
+describe("InitProject UseCase", () => {
+  let sut: InitProject;
+  let projectRepository: MockProjectRepository;
+  let templateRepository: {
+    listTemplates: ReturnType<typeof vi.fn>;
+    loadTemplate: ReturnType<typeof vi.fn>;
+  };
+  let writeFile: { writeFile: ReturnType<typeof vi.fn> };
+
+  beforeEach(() => {
+    projectRepository = new MockProjectRepository();
+    templateRepository = {
+      listTemplates: vi.fn(async () => ["default"]),
+      loadTemplate: vi.fn(async (name: string) =>
+        name === "default" ? template : null
+      ),
+    };
+    writeFile = {
+      writeFile: vi.fn(async ({ content }) => ({ content })),
+    };
+    sut = new InitProject(templateRepository, projectRepository, writeFile);
+  });
+
+  test("should create the project and write each template file", async () => {
+    const result = await sut.initProject({
+      projectName: "new-project",
+      variables: { owner: "alice" },
+    });
+
+    expect(await projectRepository.projectExists("new-project")).toBe(true);
+    expect(result).toEqual({
+      projectName: "new-project",
+      template: "default",
+      created: ["projectbrief.md", "notes/owner.md"],
+      skipped: [],
+    });
+  });
+
+  test("should fill in placeholders and leave unknown ones as they are", async () => {
+    await sut.initProject({
+      projectName: "new-project",
+      variables: { owner: "alice" },
+    });
+
+    const today = new Date().toISOString().slice(0, 10);
+    expect(writeFile.writeFile).toHaveBeenCalledWith({
+      projectName: "new-project",
+      fileName: "projectbrief.md",
+      content: `# new-project (${today})`,
+    });
+    expect(writeFile.writeFile).toHaveBeenCalledWith({
+      projectName: "new-project",
+      fileName: "notes/owner.md",
+      content: "Owner: alice, team: {{team}}",
+    });
+  });
+
+  test("should not let variables replace the project name", async () => {
+    await sut.initProject({
+      projectName: "new-project",
+      variables: { projectName: "other" },
+    });
+
+    expect(writeFile.writeFile.mock.calls[0][0].content).toMatch(
+      /^# new-project /
+    );
+  });
+
+  test("should report files the project already has as skipped", async () => {
+    writeFile.writeFile.mockImplementation(async ({ fileName }) =>
+      fileName === "projectbrief.md" ? null : {}
+    );
+
+    const result = await sut.initProject({ projectName: "project-1" });
+
+    expect(result.created).toEqual(["notes/owner.md"]);
+    expect(result.skipped).toEqual(["projectbrief.md"]);
+  });
+
+  test("should throw TemplateNotFoundError for an unknown template", async () => {
+    const promise = sut.initProject({
+      projectName: "new-project",
+      template: "missing",
+    });
+
+    await expect(promise).rejects.toBeInstanceOf(TemplateNotFoundError);
+    await expect(promise).rejects.toMatchObject({
+      template: "missing",
+      availableTemplates: ["default"],
+    });
+    expect(await projectRepository.projectExists("new-project")).toBe(false);
+    expect(writeFile.writeFile).not.toHaveBeenCalled();
+  });
+});
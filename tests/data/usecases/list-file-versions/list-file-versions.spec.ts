@@ -0,0 +1,55 @@
+import { beforeEach, describe, expect, test, vi } from "vitest";
+import { ListFileVersions } from "../../../../src/data/usecases/list-file-versions/list-file-versions.js";
+import { FileHistoryEntry } from "../../../../src/domain/entities/index.js";
+import { MockFileRepository } from "../../mocks/index.js";
+
+const entry: FileHistoryEntry = {
+  versionId: "001700000000000-abcdef12",
+  contentHash: "abcdef12",
+  replacedAt: "2023-11-14T22:13:20.000Z",
+};
+
+describe("ListFileVersions UseCase", () => {
+  let sut: ListFileVersions;
+  let fileHistoryRepository: {
+    listVersions: ReturnType<typeof vi.fn>;
+    loadVersion: ReturnType<typeof vi.fn>;
+  };
+
+  beforeEach(() => {
+    fileHistoryRepository = {
+      listVersions: vi.fn().mockResolvedValue([]),
+      loadVersion: vi.fn(),
+    };
+    sut = new ListFileVersions(new MockFileRepository(), fileHistoryRepository);
+  });
+
+  test("should return an empty list for a file that was never updated", async () => {
+    const result = await sut.listVersions({
+      projectName: "project-1",
+      fileName: "file1.md",
+    });
+
+    expect(result).toEqual([]);
+  });
+
+  test("should return null for a file that doesn't exist", async () => {
+    const result = await sut.listVersions({
+      projectName: "project-1",
+      fileName: "missing.md",
+    });
+
+    expect(result).toBeNull();
+  });
+
+  test("should list the versions of a deleted file", async () => {
+    fileHistoryRepository.listVersions.mockResolvedValueOnce([entry]);
+
+    const result = await sut.listVersions({
+      projectName: "project-1",
+      fileName: "deleted.md",
+    });
+
+    expect(result).toEqual([entry]);
+  });
+});
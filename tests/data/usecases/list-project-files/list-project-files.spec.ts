@@ -3,11 +3,24 @@ import { FileRepository } from "../../../../src/data/protocols/file-repository.j
 import { ProjectRepository } from "../../../../src/data/protocols/project-repository.js";
 import { ListProjectFiles } from "../../../../src/data/usecases/list-project-files/list-project-files.js";
 import { ListProjectFilesParams } from "../../../../src/domain/usecases/list-project-files.js";
+import { YamlFrontMatterReader } from "../../../../src/infra/parsers/yaml-front-matter-reader.js";
+import { MinimatchPathMatcher } from "../../../../src/infra/services/minimatch-path-matcher.js";
 import {
   MockFileRepository,
   MockProjectRepository,
+  mockContentHash,
 } from "../../mocks/index.js";
 
+const tagged = `---
+tags: [api, core]
+salience: 0.8
+task: auth
+created: 2023-06-01T00:00:00.000Z
+updated: 2024-03-01T00:00:00.000Z
+---
+
+# API notes`;
+
 describe("ListProjectFiles UseCase", () => {
   let sut: ListProjectFiles;
   let fileRepositoryStub: FileRepository;
@@ -16,7 +29,13 @@ describe("ListProjectFiles UseCase", () => {
   beforeEach(() => {
     fileRepositoryStub = new MockFileRepository();
     projectRepositoryStub = new MockProjectRepository();
-    sut = new ListProjectFiles(fileRepositoryStub, projectRepositoryStub);
+    sut = new ListProjectFiles(
+      fileRepositoryStub,
+      projectRepositoryStub,
+      new YamlFrontMatterReader(),
+      new MinimatchPathMatcher(),
+      { countTokens: vi.fn(async (content: string) => content.split(" ").length) } as any
+    );
   });
 
   test("should call ProjectRepository.projectExists with correct projectName", async () => {
@@ -41,24 +60,124 @@ describe("ListProjectFiles UseCase", () => {
     expect(result).toEqual([]);
   });
 
-  test("should call FileRepository.listFiles with correct projectName if project exists", async () => {
+  test("should call FileRepository.listFileStats with correct projectName if project exists", async () => {
     vi.spyOn(projectRepositoryStub, "projectExists").mockResolvedValueOnce(
       true
     );
-    const listFilesSpy = vi.spyOn(fileRepositoryStub, "listFiles");
+    const listFileStatsSpy = vi.spyOn(fileRepositoryStub, "listFileStats");
     const params: ListProjectFilesParams = { projectName: "project-1" };
 
     await sut.listProjectFiles(params);
 
-    expect(listFilesSpy).toHaveBeenCalledWith("project-1");
+    expect(listFileStatsSpy).toHaveBeenCalledWith("project-1");
   });
 
-  test("should return files list on success", async () => {
+  test("should describe each file, falling back to its modification time", async () => {
     const params: ListProjectFilesParams = { projectName: "project-1" };
 
     const files = await sut.listProjectFiles(params);
 
-    expect(files).toEqual(["file1.md", "file2.md"]);
+    const modifiedAt = new Date("2024-01-01T00:00:00.000Z");
+    expect(files).toEqual([
+      {
+        fileName: "file1.md",
+        size: 19,
+        tokens: 3,
+        created: modifiedAt,
+        updated: modifiedAt,
+        tags: [],
+        contentHash: mockContentHash("Content of file1.md"),
+      },
+      {
+        fileName: "file2.md",
+        size: 19,
+        tokens: 3,
+        created: modifiedAt,
+        updated: modifiedAt,
+        tags: [],
+        contentHash: mockContentHash("Content of file2.md"),
+      },
+    ]);
+  });
+
+  test("should take tags, salience, task and dates from the front matter", async () => {
+    await fileRepositoryStub.writeFile("project-1", "notes/api.md", tagged);
+
+    const [file] = await sut.listProjectFiles({
+      projectName: "project-1",
+      include: ["notes/**"],
+    });
+
+    expect(file).toMatchObject({
+      fileName: "notes/api.md",
+      tags: ["api", "core"],
+      salience: 0.8,
+      task: "auth",
+      created: new Date("2023-06-01T00:00:00.000Z"),
+      updated: new Date("2024-03-01T00:00:00.000Z"),
+    });
+  });
+
+  test("should select files with include and exclude globs", async () => {
+    await fileRepositoryStub.writeFile("project-1", "notes/api.md", tagged);
+    await fileRepositoryStub.writeFile("project-1", "notes/todo.txt", "todo");
+
+    const files = await sut.listProjectFiles({
+      projectName: "project-1",
+      include: ["*.md"],
+      exclude: ["file2.md"],
+    });
+
+    expect(files.map((file) => file.fileName)).toEqual([
+      "file1.md",
+      "notes/api.md",
+    ]);
+  });
+
+  test("should filter by tags and update time", async () => {
+    await fileRepositoryStub.writeFile("project-1", "notes/api.md", tagged);
+
+    const byTags = await sut.listProjectFiles({
+      projectName: "project-1",
+      tags: ["core", "api"],
+    });
+    const byMissingTag = await sut.listProjectFiles({
+      projectName: "project-1",
+      tags: ["core", "ui"],
+    });
+    const recent = await sut.listProjectFiles({
+      projectName: "project-1",
+      updatedSince: new Date("2024-02-01T00:00:00.000Z"),
+    });
+
+    expect(byTags.map((file) => file.fileName)).toEqual(["notes/api.md"]);
+    expect(byMissingTag).toEqual([]);
+    expect(recent.map((file) => file.fileName)).toEqual(["notes/api.md"]);
+  });
+
+  test("should sort by the given field, newest or largest first by default", async () => {
+    await fileRepositoryStub.writeFile("project-1", "notes/api.md", tagged);
+
+    const updated = await sut.listProjectFiles({
+      projectName: "project-1",
+      sortBy: "updated",
+    });
+    const salience = await sut.listProjectFiles({
+      projectName: "project-1",
+      sortBy: "salience",
+      order: "asc",
+    });
+
+    expect(updated.map((file) => file.fileName)).toEqual([
+      "notes/api.md",
+      "file1.md",
+      "file2.md",
+    ]);
+    expect(salience.map((file) => file.fileName)).toEqual([
+      "file1.md",
+      "file2.md",
+      "notes/api.md",
+    ]);
   });
 
   test("should propagate errors if repository throws", async () => {
@@ -70,4 +189,45 @@ describe("ListProjectFiles UseCase", () => {
 
     await expect(sut.listProjectFiles(params)).rejects.toThrow(error);
   });
+
+  test("should nest files by folder when listing a tree", async () => {
+    vi.spyOn(fileRepositoryStub, "listFiles").mockResolvedValueOnce([
+      "projectbrief.md",
+      "decisions/adr-002.md",
+      "decisions/adr-001.md",
+    ]);
+
+    const tree = await sut.listProjectFileTree({ projectName: "project-1" });
+
+    expect(tree).toEqual([
+      {
+        name: "decisions",
+        path: "decisions",
+        type: "directory",
+        children: [
+          { name: "adr-001.md", path: "decisions/adr-001.md", type: "file" },
+          { name: "adr-002.md", path: "decisions/adr-002.md", type: "file" },
+        ],
+      },
+      { name: "projectbrief.md", path: "projectbrief.md", type: "file" },
+    ]);
+  });
+
+  test("should build the tree from the filtered files", async () => {
+    await fileRepositoryStub.writeFile("project-1", "notes/api.md", tagged);
+
+    const tree = await sut.listProjectFileTree({
+      projectName: "project-1",
+      tags: ["api"],
+    });
+
+    expect(tree).toEqual([
+      {
+        name: "notes",
+        path: "notes",
+        type: "directory",
+        children: [{ name: "api.md", path: "notes/api.md", type: "file" }],
+      },
+    ]);
+  });
 });
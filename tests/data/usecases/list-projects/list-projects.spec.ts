@@ -1,29 +1,110 @@
 import { beforeEach, describe, expect, test, vi } from "vitest";
 import { ProjectRepository } from "../../../../src/data/protocols/project-repository.js";
 import { ListProjects } from "../../../../src/data/usecases/list-projects/list-projects.js";
-import { MockProjectRepository } from "../../mocks/index.js";
+import {
+  MockFileRepository,
+  MockProjectRepository,
+} from "../../mocks/index.js";
 
 describe("ListProjects UseCase", () => {
   let sut: ListProjects;
   let projectRepositoryStub: ProjectRepository;
+  let fileRepository: MockFileRepository;
+  let vectorRepository: { listIndexedFiles: ReturnType<typeof vi.fn> };
 
-  beforeEach(() => {
+  beforeEach(async () => {
     projectRepositoryStub = new MockProjectRepository();
-    sut = new ListProjects(projectRepositoryStub);
+    fileRepository = new MockFileRepository();
+    await fileRepository.writeFile("project-2", "fileC.md", "A longer content of fileC.md");
+    vectorRepository = {
+      listIndexedFiles: vi.fn().mockResolvedValue([
+        { projectName: "project-1", fileName: "file1.md", contentHash: "a" },
+        { projectName: "project-1", fileName: "file2.md", contentHash: "b" },
+        { projectName: "project-2", fileName: "fileA.md", contentHash: "c" },
+      ]),
+    };
+    sut = new ListProjects(
+      projectRepositoryStub,
+      fileRepository,
+      vectorRepository as any
+    );
+  });
+
+  test("should describe each project with its manifest and stats", async () => {
+    const result = await sut.listProjects();
+
+    expect(result.total).toBe(2);
+    expect(result.nextCursor).toBeUndefined();
+    expect(result.projects).toEqual([
+      {
+        name: "project-1",
+        description: "The first project",
+        owners: ["sam"],
+        tags: ["core"],
+        fileCount: 2,
+        totalSize: 38,
+        lastUpdated: new Date("2024-01-01T00:00:00.000Z"),
+        indexStatus: "indexed",
+      },
+      {
+        name: "project-2",
+        fileCount: 3,
+        totalSize: 66,
+        lastUpdated: new Date("2024-01-01T00:00:00.000Z"),
+        indexStatus: "partial",
+      },
+    ]);
+  });
+
+  test("should report the index status as unknown if the index can't be read", async () => {
+    vectorRepository.listIndexedFiles.mockRejectedValueOnce(new Error("Qdrant unavailable"));
+
+    const result = await sut.listProjects();
+
+    expect(result.projects.map((project) => project.indexStatus)).toEqual([
+      "unknown",
+      "unknown",
+    ]);
   });
 
-  test("should call ProjectRepository.listProjects()", async () => {
-    const listProjectsSpy = vi.spyOn(projectRepositoryStub, "listProjects");
+  test("should report projects missing from the index", async () => {
+    vectorRepository.listIndexedFiles.mockResolvedValueOnce([]);
+
+    const result = await sut.listProjects();
+
+    expect(result.projects[0].indexStatus).toBe("not_indexed");
+  });
+
+  test("should sort by size, largest first unless asked otherwise", async () => {
+    const largest = await sut.listProjects({ sortBy: "size" });
+    const smallest = await sut.listProjects({ sortBy: "size", order: "asc" });
+
+    expect(largest.projects.map((project) => project.name)).toEqual([
+      "project-2",
+      "project-1",
+    ]);
+    expect(smallest.projects.map((project) => project.name)).toEqual([
+      "project-1",
+      "project-2",
+    ]);
+  });
 
-    await sut.listProjects();
+  test("should filter by manifest tag", async () => {
+    const result = await sut.listProjects({ tag: "core" });
 
-    expect(listProjectsSpy).toHaveBeenCalledTimes(1);
+    expect(result.total).toBe(1);
+    expect(result.projects.map((project) => project.name)).toEqual(["project-1"]);
   });
 
-  test("should return a list of projects on success", async () => {
-    const projects = await sut.listProjects();
+  test("should page through projects with a cursor", async () => {
+    const first = await sut.listProjects({ limit: 1 });
+    const second = await sut.listProjects({ limit: 1, cursor: first.nextCursor });
 
-    expect(projects).toEqual(["project-1", "project-2"]);
+    expect(first.projects.map((project) => project.name)).toEqual(["project-1"]);
+    expect(first.nextCursor).toBeDefined();
+    expect(second.projects.map((project) => project.name)).toEqual(["project-2"]);
+    expect(second.nextCursor).toBeUndefined();
+    expect(second.total).toBe(2);
   });
 
   test("should propagate errors if repository throws", async () => {
@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach, vi } from "vitest";
 import { MigrateProject } from "../../../../src/data/usecases/migrate-project/migrate-project.js";
+import { MarkdownLinkParser } from "../../../../src/infra/parsers/markdown-link-parser.js";
 
 // Mock repositories
 const mockFileRepository = {
@@ -7,6 +8,8 @@ const mockFileRepository = {
   loadFile: vi.fn(),
   writeFile: vi.fn(),
   updateFile: vi.fn(),
+  deleteFile: vi.fn(),
+  renameFile: vi.fn(),
 };
 
 const mockProjectRepository = {
@@ -22,6 +25,9 @@ describe("MigrateProject", () => {
     migrateProject = new MigrateProject(
       mockFileRepository as any,
       mockProjectRepository as any,
+      undefined,
+      undefined,
+      new MarkdownLinkParser(),
     );
 
     // Reset mocks
@@ -136,19 +142,22 @@ project: "old-project"
 
 # Documentation
 
-See [other file](old-project/other.md) for details.
+See [other file](../old-project/other.md) and [[old-project:notes/plan]].
 Path reference: old-project/assets/`;
 
       mockProjectRepository.projectExists
         .mockResolvedValueOnce(true)
         .mockResolvedValueOnce(false);
       mockFileRepository.listFiles.mockResolvedValue(["test.md"]);
-      mockFileRepository.loadFile.mockResolvedValue(contentWithReferences);
+      mockFileRepository.loadFile.mockImplementation(async (_project, file) =>
+        file === "test.md" ? contentWithReferences : null,
+      );
       mockFileRepository.writeFile.mockImplementation((proj, file, content) => {
         // Verify content was updated
         expect(content).toContain(`project: "${newProjectName}"`);
-        expect(content).toContain(`[other file](${newProjectName}/other.md)`);
-        expect(content).toContain(`${newProjectName}/assets/`);
+        expect(content).toContain(`[other file](../${newProjectName}/other.md)`);
+        expect(content).toContain(`[[${newProjectName}:notes/plan]]`);
+        expect(content).toContain(`${oldProjectName}/assets/`);
         return Promise.resolve(content);
       });
 
@@ -162,6 +171,40 @@ Path reference: old-project/assets/`;
       expect(mockFileRepository.writeFile).toHaveBeenCalled();
     });
 
+    it("should move the project manifest without indexing it", async () => {
+      const fileIndexer = { indexFile: vi.fn(), removeFile: vi.fn() };
+      migrateProject = new MigrateProject(
+        mockFileRepository as any,
+        mockProjectRepository as any,
+        fileIndexer,
+      );
+      mockProjectRepository.projectExists
+        .mockResolvedValueOnce(true)
+        .mockResolvedValueOnce(false);
+      mockFileRepository.listFiles.mockResolvedValue(["test.md"]);
+      mockFileRepository.loadFile.mockImplementation(async (_project, file) =>
+        file === "project.yaml" ? "tags: [api]" : "content",
+      );
+      mockFileRepository.writeFile.mockResolvedValue("content");
+
+      const result = await migrateProject.migrateProject(
+        "old-project",
+        "new-project",
+      );
+
+      expect(result.success).toBe(true);
+      expect(mockFileRepository.writeFile).toHaveBeenCalledWith(
+        "new-project",
+        "project.yaml",
+        "tags: [api]",
+      );
+      expect(mockFileRepository.deleteFile).toHaveBeenCalledWith(
+        "old-project",
+        "project.yaml",
+      );
+      expect(fileIndexer.indexFile).toHaveBeenCalledTimes(1);
+    });
+
     it("should not update references when disabled", async () => {
       const originalContent = "project: old-project";
 
@@ -337,6 +380,7 @@ related: ["old-project", "other"]
 Content here`;
 
       const updated = migrateProjectAny.updateProjectReferences(
+        "test.md",
         content,
         "old-project",
         "new-project",
@@ -347,29 +391,31 @@ Content here`;
 
     it("should update markdown links", () => {
       const migrateProjectAny = migrateProject as any;
-      const content = `See [documentation](old-project/docs.md) and [guide](old-project/guide.md).`;
+      const content = `See [documentation](../old-project/docs.md) and [[old-project:guide]].`;
 
       const updated = migrateProjectAny.updateProjectReferences(
+        "test.md",
         content,
         "old-project",
         "new-project",
       );
 
-      expect(updated).toContain("[documentation](new-project/docs.md)");
-      expect(updated).toContain("[guide](new-project/guide.md)");
+      expect(updated).toContain("[documentation](../new-project/docs.md)");
+      expect(updated).toContain("[[new-project:guide]]");
     });
 
-    it("should update file path references", () => {
+    it("should leave mentions outside links as written", () => {
       const migrateProjectAny = migrateProject as any;
       const content = `File is located at old-project/src/file.ts`;
 
       const updated = migrateProjectAny.updateProjectReferences(
+        "test.md",
         content,
         "old-project",
         "new-project",
       );
 
-      expect(updated).toContain("new-project/src/file.ts");
+      expect(updated).toBe(content);
     });
 
     it("should escape regex special characters", () => {
@@ -405,4 +451,190 @@ Content here`;
       ).toBe(true);
     });
   });
+  describe("search index", () => {
+    const mockFileIndexer = {
+      indexFile: vi.fn(),
+      removeFile: vi.fn(),
+    };
+
+    beforeEach(() => {
+      migrateProject = new MigrateProject(
+        mockFileRepository as any,
+        mockProjectRepository as any,
+        mockFileIndexer,
+      );
+      mockProjectRepository.projectExists
+        .mockResolvedValueOnce(true)
+        .mockResolvedValueOnce(false);
+      mockFileRepository.listFiles.mockResolvedValue(["test.md"]);
+      mockFileRepository.loadFile.mockResolvedValue("content");
+      mockFileRepository.writeFile.mockResolvedValue("content");
+    });
+
+    it("should re-key index entries when moving files", async () => {
+      await migrateProject.migrateProject("old-project", "new-project");
+
+      expect(mockFileIndexer.indexFile).toHaveBeenCalledWith(
+        "new-project",
+        "test.md",
+        "content",
+      );
+      expect(mockFileIndexer.removeFile).toHaveBeenCalledWith(
+        "old-project",
+        "test.md",
+      );
+    });
+
+    it("should move the original files to the trash when moving", async () => {
+      await migrateProject.migrateProject("old-project", "new-project");
+
+      expect(mockFileRepository.deleteFile).toHaveBeenCalledWith(
+        "old-project",
+        "test.md",
+      );
+    });
+
+    it("should keep original index entries when copying", async () => {
+      await migrateProject.migrateProject("old-project", "new-project", {
+        copyFiles: true,
+      });
+
+      expect(mockFileIndexer.indexFile).toHaveBeenCalledTimes(1);
+      expect(mockFileIndexer.removeFile).not.toHaveBeenCalled();
+    });
+
+    it("should report index failures as warnings", async () => {
+      mockFileIndexer.indexFile.mockRejectedValueOnce(new Error("index down"));
+
+      const result = await migrateProject.migrateProject(
+        "old-project",
+        "new-project",
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.warnings.some((w) => w.includes("index down"))).toBe(true);
+    });
+  });
+
+  describe("links", () => {
+    const linkParser = new MarkdownLinkParser();
+    const backlink = "Auth: [[old-project:test#Flow]]";
+    const mockLinkGraph = {
+      setLinks: vi.fn(),
+      removeFile: vi.fn(),
+      linksFrom: vi.fn(),
+      linksTo: vi.fn(),
+    };
+
+    beforeEach(() => {
+      migrateProject = new MigrateProject(
+        mockFileRepository as any,
+        mockProjectRepository as any,
+        undefined,
+        mockLinkGraph,
+        linkParser,
+      );
+      mockProjectRepository.projectExists
+        .mockResolvedValueOnce(true)
+        .mockResolvedValueOnce(false);
+      mockFileRepository.listFiles.mockResolvedValue(["test.md"]);
+      mockFileRepository.loadFile.mockImplementation(async (project) =>
+        project === "other-project" ? backlink : "content",
+      );
+      mockFileRepository.writeFile.mockResolvedValue("content");
+      mockFileRepository.updateFile.mockResolvedValue("content");
+      mockLinkGraph.linksTo.mockResolvedValue(
+        linkParser.parseLinks("other-project", "index.md", backlink),
+      );
+    });
+
+    it("should re-write links from other projects when moving", async () => {
+      const result = await migrateProject.migrateProject(
+        "old-project",
+        "new-project",
+      );
+
+      expect(mockFileRepository.updateFile).toHaveBeenCalledWith(
+        "other-project",
+        "index.md",
+        "Auth: [[new-project:test#Flow]]",
+        undefined,
+        "Links updated after project migration",
+      );
+      expect(result.updatedFiles).toEqual([
+        { projectName: "other-project", fileName: "index.md" },
+      ]);
+    });
+
+    it("should leave links from other projects alone when copying", async () => {
+      await migrateProject.migrateProject("old-project", "new-project", {
+        copyFiles: true,
+      });
+
+      expect(mockFileRepository.updateFile).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("write journal", () => {
+    const linkParser = new MarkdownLinkParser();
+    const backlink = "Auth: [[old-project:test#Flow]]";
+    const mockFileIndexer = { indexFile: vi.fn(), removeFile: vi.fn() };
+    const mockWriteJournal = {
+      begin: vi.fn(async (entry) => `${entry.operation}:${entry.projectName}`),
+      commit: vi.fn(),
+      pending: vi.fn(),
+    };
+
+    beforeEach(() => {
+      migrateProject = new MigrateProject(
+        mockFileRepository as any,
+        mockProjectRepository as any,
+        mockFileIndexer,
+        {
+          setLinks: vi.fn(),
+          removeFile: vi.fn(),
+          linksFrom: vi.fn(),
+          linksTo: vi.fn(async () =>
+            linkParser.parseLinks("other-project", "index.md", backlink),
+          ),
+        },
+        linkParser,
+        mockWriteJournal,
+      );
+      mockProjectRepository.projectExists
+        .mockResolvedValueOnce(true)
+        .mockResolvedValueOnce(false);
+      mockFileRepository.listFiles.mockResolvedValue(["test.md"]);
+      mockFileRepository.loadFile.mockImplementation(async (project, file) => {
+        if (file === "project.yaml") return null;
+        return project === "other-project" ? backlink : "content";
+      });
+      mockFileRepository.writeFile.mockResolvedValue("content");
+      mockFileRepository.updateFile.mockResolvedValue("content");
+    });
+
+    it("should journal moved files and re-written links until indexed", async () => {
+      await migrateProject.migrateProject("old-project", "new-project");
+
+      expect(mockWriteJournal.begin.mock.calls.map(([entry]) => entry)).toEqual([
+        { operation: "write", projectName: "new-project", fileNames: ["test.md"] },
+        { operation: "delete", projectName: "old-project", fileNames: ["test.md"] },
+        { operation: "update", projectName: "other-project", fileNames: ["index.md"] },
+      ]);
+      expect(mockWriteJournal.commit.mock.calls.map(([id]) => id)).toEqual([
+        "write:new-project",
+        "delete:old-project",
+        "update:other-project",
+      ]);
+    });
+
+    it("should leave the entries of a file the index missed for the replay", async () => {
+      mockFileIndexer.indexFile.mockRejectedValueOnce(new Error("index down"));
+
+      await migrateProject.migrateProject("old-project", "new-project");
+
+      expect(mockWriteJournal.commit).not.toHaveBeenCalledWith("write:new-project");
+      expect(mockWriteJournal.commit).toHaveBeenCalledWith("update:other-project");
+    });
+  });
 });
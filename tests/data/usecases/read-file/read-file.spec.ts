@@ -2,12 +2,34 @@ import { beforeEach, describe, expect, test, vi } from "vitest";
 import { FileRepository } from "../../../../src/data/protocols/file-repository.js";
 import { ProjectRepository } from "../../../../src/data/protocols/project-repository.js";
 import { ReadFile } from "../../../../src/data/usecases/read-file/read-file.js";
+import { FileReadError } from "../../../../src/domain/entities/index.js";
 import { ReadFileParams } from "../../../../src/domain/usecases/read-file.js";
+import { MarkdownFileEditor } from "../../../../src/infra/parsers/markdown-file-editor.js";
 import {
   MockFileRepository,
   MockProjectRepository,
+  mockContentHash,
 } from "../../mocks/index.js";
 
+const notes = [
+  "# Notes",
+  "",
+  "## Decisions",
+  "",
+  "use postgres for storage",
+  "use redis for caching",
+  "",
+  "## Open questions",
+  "",
+  "- hosting",
+  "",
+].join("\n");
+
+// One token per word keeps the budgets easy to follow
+const llmService = {
+  countTokens: async (content: string) => content.split(/\s+/).filter(Boolean).length,
+} as any;
+
 describe("ReadFile UseCase", () => {
   let sut: ReadFile;
   let fileRepositoryStub: FileRepository;
@@ -16,7 +38,12 @@ describe("ReadFile UseCase", () => {
   beforeEach(() => {
     fileRepositoryStub = new MockFileRepository();
     projectRepositoryStub = new MockProjectRepository();
-    sut = new ReadFile(fileRepositoryStub, projectRepositoryStub);
+    sut = new ReadFile(
+      fileRepositoryStub,
+      projectRepositoryStub,
+      new MarkdownFileEditor(),
+      llmService
+    );
   });
 
   test("should call ProjectRepository.projectExists with correct projectName", async () => {
@@ -45,8 +72,8 @@ describe("ReadFile UseCase", () => {
     expect(result).toBeNull();
   });
 
-  test("should call FileRepository.loadFile with correct params if project exists", async () => {
-    const loadFileSpy = vi.spyOn(fileRepositoryStub, "loadFile");
+  test("should call FileRepository.loadFileVersion with correct params if project exists", async () => {
+    const loadFileSpy = vi.spyOn(fileRepositoryStub, "loadFileVersion");
     const params: ReadFileParams = {
       projectName: "project-1",
       fileName: "file1.md",
@@ -57,19 +84,24 @@ describe("ReadFile UseCase", () => {
     expect(loadFileSpy).toHaveBeenCalledWith("project-1", "file1.md");
   });
 
-  test("should return file content on success", async () => {
+  test("should return file content and its hash on success", async () => {
     const params: ReadFileParams = {
       projectName: "project-1",
       fileName: "file1.md",
     };
 
-    const content = await sut.readFile(params);
+    const file = await sut.readFile(params);
 
-    expect(content).toBe("Content of file1.md");
+    expect(file).toEqual({
+      content: "Content of file1.md",
+      contentHash: mockContentHash("Content of file1.md"),
+    });
   });
 
   test("should return null if file does not exist", async () => {
-    vi.spyOn(fileRepositoryStub, "loadFile").mockResolvedValueOnce(null);
+    vi.spyOn(fileRepositoryStub, "loadFileVersion").mockResolvedValueOnce(
+      null
+    );
     const params: ReadFileParams = {
       projectName: "project-1",
       fileName: "non-existent-file.md",
@@ -80,6 +112,136 @@ describe("ReadFile UseCase", () => {
     expect(content).toBeNull();
   });
 
+  test("should record an access for files it returns", async () => {
+    const accessTracker = { recordAccess: vi.fn(), flush: vi.fn() };
+    sut = new ReadFile(
+      fileRepositoryStub,
+      projectRepositoryStub,
+      new MarkdownFileEditor(),
+      llmService,
+      accessTracker
+    );
+
+    await sut.readFile({ projectName: "project-1", fileName: "file1.md" });
+    await sut.readFile({ projectName: "project-1", fileName: "missing.md" });
+
+    expect(accessTracker.recordAccess).toHaveBeenCalledTimes(1);
+    expect(accessTracker.recordAccess).toHaveBeenCalledWith({
+      projectName: "project-1",
+      fileName: "file1.md",
+      source: "read",
+      accessedAt: expect.any(Date),
+    });
+  });
+
+  test("should read a range of lines", async () => {
+    await fileRepositoryStub.writeFile("project-1", "notes.md", notes);
+
+    const file = await sut.readFile({
+      projectName: "project-1",
+      fileName: "notes.md",
+      startLine: 5,
+      endLine: 6,
+    });
+
+    expect(file).toEqual({
+      content: "use postgres for storage\nuse redis for caching",
+      contentHash: mockContentHash(notes),
+      startLine: 5,
+      endLine: 6,
+      totalLines: 10,
+    });
+  });
+
+  test("should read to the end of the file without an endLine", async () => {
+    await fileRepositoryStub.writeFile("project-1", "notes.md", notes);
+
+    const file = await sut.readFile({
+      projectName: "project-1",
+      fileName: "notes.md",
+      startLine: 9,
+    });
+
+    expect(file?.content).toBe("\n- hosting");
+    expect(file?.endLine).toBe(10);
+  });
+
+  test("should read the section under a heading", async () => {
+    await fileRepositoryStub.writeFile("project-1", "notes.md", notes);
+
+    const file = await sut.readFile({
+      projectName: "project-1",
+      fileName: "notes.md",
+      headingPath: ["Decisions"],
+    });
+
+    expect(file).toMatchObject({
+      content: "## Decisions\n\nuse postgres for storage\nuse redis for caching",
+      startLine: 3,
+      endLine: 6,
+    });
+  });
+
+  test("should cut the content to the token budget at a line, saying where to continue", async () => {
+    await fileRepositoryStub.writeFile("project-1", "notes.md", notes);
+
+    const file = await sut.readFile({
+      projectName: "project-1",
+      fileName: "notes.md",
+      maxTokens: 10,
+    });
+
+    expect(file).toMatchObject({
+      content:
+        "# Notes\n\n## Decisions\n\nuse postgres for storage\n\n[Truncated to 10 tokens: showing lines 1-5 of 10; continue with startLine 6]",
+      startLine: 1,
+      endLine: 5,
+      truncated: true,
+    });
+  });
+
+  test("should cut a single line that is over budget", async () => {
+    await fileRepositoryStub.writeFile("project-1", "notes.md", notes);
+
+    const file = await sut.readFile({
+      projectName: "project-1",
+      fileName: "notes.md",
+      startLine: 5,
+      maxTokens: 2,
+    });
+
+    expect(file?.content).toBe(
+      "use postgres \n\n[Truncated to 2 tokens: showing the start of line 5 of 10]"
+    );
+  });
+
+  test("should return the whole file when it fits the token budget", async () => {
+    const file = await sut.readFile({
+      projectName: "project-1",
+      fileName: "file1.md",
+      maxTokens: 10,
+    });
+
+    expect(file).toEqual({
+      content: "Content of file1.md",
+      contentHash: mockContentHash("Content of file1.md"),
+    });
+  });
+
+  test("should reject lines or sections the file doesn't have", async () => {
+    await fileRepositoryStub.writeFile("project-1", "notes.md", notes);
+
+    await expect(
+      sut.readFile({ projectName: "project-1", fileName: "notes.md", startLine: 11 })
+    ).rejects.toThrow(FileReadError);
+    await expect(
+      sut.readFile({ projectName: "project-1", fileName: "notes.md", startLine: 4, endLine: 3 })
+    ).rejects.toThrow(FileReadError);
+    await expect(
+      sut.readFile({ projectName: "project-1", fileName: "notes.md", headingPath: ["Risks"] })
+    ).rejects.toThrow("Heading not found: Risks");
+  });
+
   test("should propagate errors if repository throws", async () => {
     const error = new Error("Repository error");
     vi.spyOn(projectRepositoryStub, "projectExists").mockRejectedValueOnce(
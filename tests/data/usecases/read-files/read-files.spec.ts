@@ -0,0 +1,75 @@
+import { beforeEach, describe, expect, test, vi } from "vitest";
+import { ReadFiles } from "../../../../src/data/usecases/read-files/read-files.js";
+import { FileReadError } from "../../../../src/domain/entities/index.js";
+import {
+  MockFileRepository,
+  MockProjectRepository,
+  mockContentHash,
+} from "../../mocks/index.js";
+
+describe("ReadFiles UseCase", () => {
+  let sut: ReadFiles;
+  let fileRepository: MockFileRepository;
+  let projectRepository: MockProjectRepository;
+  let readFileUseCase: { readFile: ReturnType<typeof vi.fn> };
+
+  beforeEach(() => {
+    fileRepository = new MockFileRepository();
+    projectRepository = new MockProjectRepository();
+    readFileUseCase = {
+      readFile: vi.fn(async ({ projectName, fileName }) =>
+        fileRepository.loadFileVersion(projectName, fileName)
+      ),
+    };
+    sut = new ReadFiles(readFileUseCase, fileRepository, projectRepository);
+  });
+
+  test("should return null if the project doesn't exist", async () => {
+    vi.spyOn(projectRepository, "projectExists").mockRejectedValueOnce(
+      new Error("ENOENT: no such file or directory")
+    );
+
+    const result = await sut.readFiles({ projectName: "missing" });
+
+    expect(result).toBeNull();
+  });
+
+  test("should read every file in the project when none are named", async () => {
+    const result = await sut.readFiles({ projectName: "project-1", maxTokens: 100 });
+
+    expect(result).toEqual([
+      {
+        fileName: "file1.md",
+        content: "Content of file1.md",
+        contentHash: mockContentHash("Content of file1.md"),
+      },
+      {
+        fileName: "file2.md",
+        content: "Content of file2.md",
+        contentHash: mockContentHash("Content of file2.md"),
+      },
+    ]);
+    expect(readFileUseCase.readFile).toHaveBeenCalledWith({
+      projectName: "project-1",
+      fileName: "file1.md",
+      maxTokens: 100,
+    });
+  });
+
+  test("should report files it can't read without failing the batch", async () => {
+    readFileUseCase.readFile.mockRejectedValueOnce(
+      new FileReadError("Heading not found: Decisions")
+    );
+
+    const result = await sut.readFiles({
+      projectName: "project-1",
+      fileNames: ["file1.md", "missing.md", "file2.md"],
+    });
+
+    expect(result).toEqual([
+      { fileName: "file1.md", error: "Heading not found: Decisions" },
+      { fileName: "missing.md", error: "File not found" },
+      expect.objectContaining({ fileName: "file2.md", content: "Content of file2.md" }),
+    ]);
+  });
+});
@@ -0,0 +1,196 @@
+import { beforeEach, describe, expect, test, vi } from "vitest";
+import { ReindexMemory } from "../../../../src/data/usecases/reindex-memory/reindex-memory.js";
+import {
+  MockFileRepository,
+  MockProjectRepository,
+} from "../../mocks/index.js";
+
+const hash = (content: string) => `hash:${content}`;
+
+describe("ReindexMemory UseCase", () => {
+  let sut: ReindexMemory;
+  let vectorRepository: { listIndexedFiles: ReturnType<typeof vi.fn> };
+  let fileIndexer: {
+    indexFile: ReturnType<typeof vi.fn>;
+    removeFile: ReturnType<typeof vi.fn>;
+    contentHash: (content: string) => string;
+  };
+
+  beforeEach(() => {
+    vectorRepository = {
+      listIndexedFiles: vi.fn().mockResolvedValue([
+        // Unchanged
+        {
+          projectName: "project-1",
+          fileName: "file1.md",
+          contentHash: hash("Content of file1.md"),
+        },
+        // Changed on disk
+        {
+          projectName: "project-1",
+          fileName: "file2.md",
+          contentHash: hash("old content"),
+        },
+        // File no longer exists
+        {
+          projectName: "project-1",
+          fileName: "deleted.md",
+          contentHash: hash("gone"),
+        },
+      ]),
+    };
+    fileIndexer = {
+      indexFile: vi.fn(),
+      removeFile: vi.fn(),
+      contentHash: hash,
+    };
+    sut = new ReindexMemory(
+      new MockFileRepository(),
+      new MockProjectRepository(),
+      vectorRepository as any,
+      fileIndexer
+    );
+  });
+
+  test("should add new, update changed and remove orphaned files", async () => {
+    const result = await sut.reindex();
+
+    expect(result.added).toEqual(["project-2/fileA.md", "project-2/fileB.md"]);
+    expect(result.updated).toEqual(["project-1/file2.md"]);
+    expect(result.removed).toEqual(["project-1/deleted.md"]);
+    expect(result.unchanged).toBe(1);
+    expect(result.filesScanned).toBe(4);
+    expect(fileIndexer.indexFile).toHaveBeenCalledTimes(3);
+    expect(fileIndexer.removeFile).toHaveBeenCalledWith(
+      "project-1",
+      "deleted.md"
+    );
+  });
+
+  test("should not touch the index in dry-run mode", async () => {
+    const result = await sut.reindex({ dryRun: true });
+
+    expect(result.dryRun).toBe(true);
+    expect(result.updated).toEqual(["project-1/file2.md"]);
+    expect(fileIndexer.indexFile).not.toHaveBeenCalled();
+    expect(fileIndexer.removeFile).not.toHaveBeenCalled();
+  });
+
+  test("should re-index unchanged files when forced", async () => {
+    const result = await sut.reindex({ projectName: "project-1", force: true });
+
+    expect(vectorRepository.listIndexedFiles).toHaveBeenCalledWith("project-1");
+    expect(result.updated).toEqual(["project-1/file1.md", "project-1/file2.md"]);
+    expect(result.unchanged).toBe(0);
+  });
+
+  test("should accept fully qualified project paths from the repository", async () => {
+    const projectRepository = new MockProjectRepository();
+    vi.spyOn(projectRepository, "listProjects").mockResolvedValueOnce([
+      "/root/memory-bank/project-1",
+    ]);
+    sut = new ReindexMemory(
+      new MockFileRepository(),
+      projectRepository,
+      vectorRepository as any,
+      fileIndexer
+    );
+
+    const result = await sut.reindex();
+
+    expect(result.projectsScanned).toBe(1);
+    expect(result.updated).toEqual(["project-1/file2.md"]);
+  });
+
+  test("should keep index entries of projects that cannot be listed", async () => {
+    const fileRepository = new MockFileRepository();
+    vi.spyOn(fileRepository, "listFiles").mockImplementation(
+      async (projectName) => {
+        if (projectName === "project-1") throw new Error("EACCES");
+        return [];
+      }
+    );
+    sut = new ReindexMemory(
+      fileRepository,
+      new MockProjectRepository(),
+      vectorRepository as any,
+      fileIndexer
+    );
+
+    const result = await sut.reindex();
+
+    expect(result.removed).toEqual([]);
+    expect(result.errors).toHaveLength(1);
+  });
+
+  test("should re-index files the keyword index misses or lags behind on", async () => {
+    const keywordIndex = {
+      listIndexedFiles: vi.fn().mockResolvedValue([
+        // Lags behind the vector store
+        {
+          projectName: "project-1",
+          fileName: "file1.md",
+          contentHash: hash("old content"),
+        },
+        // Only left in the keyword index
+        {
+          projectName: "project-1",
+          fileName: "stray.md",
+          contentHash: hash("gone"),
+        },
+      ]),
+    };
+    sut = new ReindexMemory(
+      new MockFileRepository(),
+      new MockProjectRepository(),
+      vectorRepository as any,
+      fileIndexer,
+      keywordIndex as any
+    );
+
+    const result = await sut.reindex({ projectName: "project-1" });
+
+    expect(keywordIndex.listIndexedFiles).toHaveBeenCalledWith("project-1");
+    expect(result.updated).toEqual(["project-1/file1.md", "project-1/file2.md"]);
+    expect(result.removed).toEqual(["project-1/deleted.md", "project-1/stray.md"]);
+    expect(result.unchanged).toBe(0);
+  });
+
+  test("should re-index files whose recorded links differ from their content", async () => {
+    const recorded = {
+      projectName: "project-1",
+      fileName: "file1.md",
+      targetProject: "project-1",
+      targetFile: "old.md",
+      kind: "wiki",
+      text: "[[old]]",
+      line: 1,
+    };
+    const linkGraph = {
+      linksFrom: vi.fn().mockResolvedValue([
+        recorded,
+        { ...recorded, fileName: "orphan.md" },
+      ]),
+    };
+    const linkParser = {
+      parseLinks: vi.fn().mockReturnValue([]),
+      rewriteLinks: vi.fn(),
+    };
+    sut = new ReindexMemory(
+      new MockFileRepository(),
+      new MockProjectRepository(),
+      vectorRepository as any,
+      fileIndexer,
+      undefined,
+      linkGraph as any,
+      linkParser
+    );
+
+    const result = await sut.reindex({ projectName: "project-1" });
+
+    expect(linkGraph.linksFrom).toHaveBeenCalledWith("project-1");
+    expect(result.updated).toEqual(["project-1/file1.md", "project-1/file2.md"]);
+    expect(result.removed).toEqual(["project-1/deleted.md", "project-1/orphan.md"]);
+    expect(fileIndexer.removeFile).toHaveBeenCalledWith("project-1", "orphan.md");
+  });
+});
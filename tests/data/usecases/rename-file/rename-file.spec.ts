@@ -0,0 +1,142 @@
+import { beforeEach, describe, expect, test, vi } from "vitest";
+import { RenameFile } from "../../../../src/data/usecases/rename-file/rename-file.js";
+import { MarkdownLinkParser } from "../../../../src/infra/parsers/markdown-link-parser.js";
+import { MockFileRepository } from "../../mocks/index.js";
+
+describe("RenameFile UseCase", () => {
+  let sut: RenameFile;
+  let fileRepository: MockFileRepository;
+  let syncFileChange: { sync: ReturnType<typeof vi.fn> };
+
+  beforeEach(() => {
+    fileRepository = new MockFileRepository();
+    syncFileChange = {
+      sync: vi.fn(async (change) => ({
+        ...change,
+        action: "indexed",
+        staleSummaries: change.fileName === "file1.md" ? ["summary-1"] : [],
+      })),
+    };
+    sut = new RenameFile(fileRepository, syncFileChange);
+  });
+
+  test("should return null if the file doesn't exist", async () => {
+    const result = await sut.renameFile({
+      projectName: "project-1",
+      fileName: "missing.md",
+      newFileName: "renamed.md",
+    });
+
+    expect(result).toBeNull();
+  });
+
+  test("should refuse to overwrite an existing file", async () => {
+    await expect(
+      sut.renameFile({
+        projectName: "project-1",
+        fileName: "file1.md",
+        newFileName: "file2.md",
+      })
+    ).rejects.toThrow("File file2.md already exists in project project-1");
+    expect(await fileRepository.loadFile("project-1", "file1.md")).not.toBeNull();
+  });
+
+  test("should move the index entries to the new name", async () => {
+    const result = await sut.renameFile({
+      projectName: "project-1",
+      fileName: "file1.md",
+      newFileName: "renamed.md",
+    });
+
+    expect(result).toEqual({ staleSummaries: ["summary-1"] });
+    expect(await fileRepository.loadFile("project-1", "renamed.md")).toBe(
+      "Content of file1.md"
+    );
+    expect(syncFileChange.sync).toHaveBeenCalledWith({
+      projectName: "project-1",
+      fileName: "file1.md",
+    });
+    expect(syncFileChange.sync).toHaveBeenCalledWith({
+      projectName: "project-1",
+      fileName: "renamed.md",
+    });
+  });
+
+  test("should re-write links to the renamed file and the file's own links", async () => {
+    const linkParser = new MarkdownLinkParser();
+    await fileRepository.writeFile("project-1", "notes/plan.md", "See [file2](../file2.md)");
+    await fileRepository.updateFile("project-1", "file2.md", "Plan: [[project-1:notes/plan]]");
+    await fileRepository.writeFile("project-2", "index.md", "[[project-1:notes/plan#Goals]]");
+    const linkGraph = {
+      setLinks: vi.fn(),
+      removeFile: vi.fn(),
+      linksFrom: vi.fn(),
+      linksTo: vi.fn(async () => [
+        ...linkParser.parseLinks("project-1", "file2.md", "Plan: [[project-1:notes/plan]]"),
+        ...linkParser.parseLinks("project-2", "index.md", "[[project-1:notes/plan#Goals]]"),
+      ]),
+    };
+    sut = new RenameFile(fileRepository, syncFileChange, linkGraph, linkParser);
+
+    const result = await sut.renameFile({
+      projectName: "project-1",
+      fileName: "notes/plan.md",
+      newFileName: "plan.md",
+    });
+
+    expect(result?.updatedFiles).toEqual([
+      { projectName: "project-1", fileName: "plan.md" },
+      { projectName: "project-1", fileName: "file2.md" },
+      { projectName: "project-2", fileName: "index.md" },
+    ]);
+    expect(await fileRepository.loadFile("project-1", "plan.md")).toBe(
+      "See [file2](file2.md)"
+    );
+    expect(await fileRepository.loadFile("project-1", "file2.md")).toBe("Plan: [[project-1:plan]]");
+    expect(await fileRepository.loadFile("project-2", "index.md")).toBe(
+      "[[project-1:plan#Goals]]"
+    );
+    expect(syncFileChange.sync).toHaveBeenCalledWith({
+      projectName: "project-2",
+      fileName: "index.md",
+    });
+  });
+  test("should journal every file whose links it re-writes", async () => {
+    const linkParser = new MarkdownLinkParser();
+    await fileRepository.writeFile("project-2", "index.md", "[[project-1:file1]]");
+    const linkGraph = {
+      setLinks: vi.fn(),
+      removeFile: vi.fn(),
+      linksFrom: vi.fn(),
+      linksTo: vi.fn(async () =>
+        linkParser.parseLinks("project-2", "index.md", "[[project-1:file1]]")
+      ),
+    };
+    const writeJournal = {
+      begin: vi.fn(async (entry) => `${entry.projectName}:${entry.operation}`),
+      commit: vi.fn(),
+      pending: vi.fn(),
+    };
+    sut = new RenameFile(
+      fileRepository,
+      syncFileChange,
+      linkGraph,
+      linkParser,
+      writeJournal
+    );
+
+    await sut.renameFile({
+      projectName: "project-1",
+      fileName: "file1.md",
+      newFileName: "renamed.md",
+    });
+
+    expect(writeJournal.begin).toHaveBeenCalledWith({
+      operation: "update",
+      projectName: "project-2",
+      fileNames: ["index.md"],
+    });
+    expect(writeJournal.commit).toHaveBeenCalledWith("project-2:update");
+    expect(writeJournal.commit).toHaveBeenCalledWith("project-1:rename");
+  });
+});
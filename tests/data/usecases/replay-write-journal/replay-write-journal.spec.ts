@@ -0,0 +1,71 @@
+import { beforeEach, describe, expect, test, vi } from "vitest";
+import { ReplayWriteJournal } from "../../../../src/data/usecases/replay-write-journal/replay-write-journal.js";
+import { JournalEntry } from "../../../../src/domain/entities/index.js";
+
+const makeEntry = (
+  id: string,
+  operation: JournalEntry["operation"],
+  fileNames: string[]
+): JournalEntry => ({
+  id,
+  operation,
+  projectName: "project-1",
+  fileNames,
+  startedAt: new Date("2024-01-01T00:00:00.000Z"),
+});
+
+describe("ReplayWriteJournal UseCase", () => {
+  let sut: ReplayWriteJournal;
+  let writeJournal: {
+    begin: ReturnType<typeof vi.fn>;
+    commit: ReturnType<typeof vi.fn>;
+    pending: ReturnType<typeof vi.fn>;
+  };
+  let syncFileChange: { sync: ReturnType<typeof vi.fn> };
+
+  beforeEach(() => {
+    writeJournal = {
+      begin: vi.fn(),
+      commit: vi.fn(),
+      pending: vi.fn(async () => [
+        makeEntry("1", "update", ["a.md"]),
+        makeEntry("2", "rename", ["a.md", "b.md"]),
+      ]),
+    };
+    syncFileChange = {
+      sync: vi.fn(async (change) => ({ ...change, action: "indexed", staleSummaries: [] })),
+    };
+    sut = new ReplayWriteJournal(writeJournal, syncFileChange);
+  });
+
+  test("should sync each file once and clear the entries", async () => {
+    const result = await sut.replay();
+
+    expect(syncFileChange.sync).toHaveBeenCalledTimes(2);
+    expect(syncFileChange.sync).toHaveBeenCalledWith({
+      projectName: "project-1",
+      fileName: "a.md",
+    });
+    expect(syncFileChange.sync).toHaveBeenCalledWith({
+      projectName: "project-1",
+      fileName: "b.md",
+    });
+    expect(writeJournal.commit.mock.calls).toEqual([["1"], ["2"]]);
+    expect(result.replayed.map((entry) => entry.id)).toEqual(["1", "2"]);
+    expect(result.failed).toEqual([]);
+  });
+
+  test("should keep entries whose files could not be synced", async () => {
+    syncFileChange.sync.mockImplementation(async ({ fileName }) => {
+      if (fileName === "b.md") throw new Error("index down");
+      return { projectName: "project-1", fileName, action: "indexed", staleSummaries: [] };
+    });
+
+    const result = await sut.replay();
+
+    expect(writeJournal.commit.mock.calls).toEqual([["1"]]);
+    expect(result.failed).toEqual([
+      { ...makeEntry("2", "rename", ["a.md", "b.md"]), error: "index down" },
+    ]);
+  });
+});
@@ -0,0 +1,53 @@
+import { beforeEach, describe, expect, test, vi } from "vitest";
+import { RestoreFileVersion } from "../../../../src/data/usecases/restore-file-version/restore-file-version.js";
+
+describe("RestoreFileVersion UseCase", () => {
+  let sut: RestoreFileVersion;
+  let fileHistoryRepository: {
+    listVersions: ReturnType<typeof vi.fn>;
+    loadVersion: ReturnType<typeof vi.fn>;
+  };
+  let updateFile: { updateFile: ReturnType<typeof vi.fn> };
+
+  beforeEach(() => {
+    fileHistoryRepository = {
+      listVersions: vi.fn(),
+      loadVersion: vi.fn(async (_project, _file, versionId) =>
+        versionId === "v1" ? { versionId, content: "Old content" } : null
+      ),
+    };
+    updateFile = {
+      updateFile: vi.fn(async ({ content }) => ({ content })),
+    };
+    sut = new RestoreFileVersion(fileHistoryRepository, updateFile);
+  });
+
+  test("should save the version's content through UpdateFile", async () => {
+    const result = await sut.restoreVersion({
+      projectName: "project-1",
+      fileName: "file1.md",
+      versionId: "v1",
+      expectedHash: "current-hash",
+    });
+
+    expect(updateFile.updateFile).toHaveBeenCalledWith({
+      projectName: "project-1",
+      fileName: "file1.md",
+      content: "Old content",
+      expectedHash: "current-hash",
+      changeNote: "Restored version v1",
+    });
+    expect(result).toEqual({ content: "Old content" });
+  });
+
+  test("should return null if the version doesn't exist", async () => {
+    const result = await sut.restoreVersion({
+      projectName: "project-1",
+      fileName: "file1.md",
+      versionId: "missing",
+    });
+
+    expect(result).toBeNull();
+    expect(updateFile.updateFile).not.toHaveBeenCalled();
+  });
+});
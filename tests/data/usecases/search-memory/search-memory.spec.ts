@@ -0,0 +1,95 @@
+import { beforeEach, describe, expect, test, vi } from "vitest";
+import { SearchMemory } from "../../../../src/data/usecases/search-memory/search-memory.js";
+import {
+  QueryExpansion,
+  SearchResult,
+} from "../../../../src/domain/entities/index.js";
+
+const makeResult = (name: string, combined: number): SearchResult => ({
+  file: {
+    name,
+    projectName: "project-1",
+    content: `content of ${name}`,
+    metadata: { tags: [], updated: new Date(), created: new Date() },
+  },
+  scores: {
+    semantic: combined,
+    recency: 0,
+    frequency: 0,
+    salience: 0.5,
+    timeDecay: 1,
+    combined,
+  },
+});
+
+const expansion: QueryExpansion = {
+  original_query: "how is caching done",
+  expanded_queries: ["Redis sits in front of the API and caches responses."],
+  hypothetical_answer: "Redis sits in front of the API and caches responses.",
+  generated_keywords: ["redis"],
+  semantic_variations: [],
+  expansion_method: "hyde",
+  confidence: 0.8,
+  created: new Date(),
+};
+
+describe("SearchMemory UseCase", () => {
+  let sut: SearchMemory;
+  let vectorRepository: { search: ReturnType<typeof vi.fn> };
+  let expansionService: { expandQuery: ReturnType<typeof vi.fn> };
+
+  beforeEach(() => {
+    vectorRepository = {
+      search: vi.fn(async ({ query }) =>
+        query === expansion.original_query
+          ? [makeResult("notes.md", 0.4), makeResult("api.md", 0.3)]
+          : [makeResult("caching.md", 0.9), makeResult("api.md", 0.45)]
+      ),
+    };
+    expansionService = { expandQuery: vi.fn().mockResolvedValue(expansion) };
+    sut = new SearchMemory(vectorRepository as any, expansionService as any);
+  });
+
+  test("should search only the original query without expansion", async () => {
+    const response = await sut.search({ query: expansion.original_query });
+
+    expect(expansionService.expandQuery).not.toHaveBeenCalled();
+    expect(vectorRepository.search).toHaveBeenCalledTimes(1);
+    expect(response.expansion).toBeUndefined();
+    expect(response.results.map((result) => result.file.name)).toEqual([
+      "notes.md",
+      "api.md",
+    ]);
+  });
+
+  test("should merge the results of the expanded queries", async () => {
+    const response = await sut.search({
+      query: expansion.original_query,
+      expansion: "hyde",
+    });
+
+    expect(expansionService.expandQuery).toHaveBeenCalledWith(
+      expansion.original_query,
+      "hyde",
+      expect.any(Object)
+    );
+    expect(vectorRepository.search).toHaveBeenCalledWith(
+      expect.objectContaining({ query: expansion.hypothetical_answer })
+    );
+    expect(response.expansion).toBe(expansion);
+    expect(response.results.map((result) => result.file.name)).toEqual([
+      "caching.md",
+      "notes.md",
+      "api.md",
+    ]);
+    expect(response.results[0].scores.combined).toBeCloseTo(0.72);
+  });
+
+  test("should fail when expansion is requested but not configured", async () => {
+    sut = new SearchMemory(vectorRepository as any);
+
+    await expect(
+      sut.search({ query: expansion.original_query, expansion: "keyword" })
+    ).rejects.toThrow("Query expansion is not configured");
+  });
+});
@@ -0,0 +1,56 @@
+import { beforeEach, describe, expect, test, vi } from "vitest";
+import { SetFileMetadata } from "../../../../src/data/usecases/set-file-metadata/set-file-metadata.js";
+import { MockFileRepository, mockContentHash } from "../../mocks/index.js";
+
+describe("SetFileMetadata UseCase", () => {
+  let sut: SetFileMetadata;
+  let updateFile: { updateFile: ReturnType<typeof vi.fn> };
+
+  beforeEach(() => {
+    updateFile = {
+      updateFile: vi.fn(async ({ content }) => ({ content })),
+    };
+    sut = new SetFileMetadata(new MockFileRepository(), updateFile);
+  });
+
+  test("should return null if the file doesn't exist", async () => {
+    const result = await sut.setFileMetadata({
+      projectName: "project-1",
+      fileName: "missing.md",
+      metadata: { tags: ["adr"] },
+    });
+
+    expect(result).toBeNull();
+    expect(updateFile.updateFile).not.toHaveBeenCalled();
+  });
+
+  test("should save the current content with the metadata through UpdateFile", async () => {
+    await sut.setFileMetadata({
+      projectName: "project-1",
+      fileName: "file1.md",
+      metadata: { tags: ["adr"], salience: 0.8 },
+    });
+
+    expect(updateFile.updateFile).toHaveBeenCalledWith({
+      projectName: "project-1",
+      fileName: "file1.md",
+      content: "Content of file1.md",
+      metadata: { tags: ["adr"], salience: 0.8 },
+      expectedHash: mockContentHash("Content of file1.md"),
+      changeNote: "Metadata updated",
+    });
+  });
+
+  test("should pass the caller's expected hash on", async () => {
+    await sut.setFileMetadata({
+      projectName: "project-1",
+      fileName: "file1.md",
+      metadata: { task: "auth" },
+      expectedHash: "caller_hash",
+    });
+
+    expect(updateFile.updateFile).toHaveBeenCalledWith(
+      expect.objectContaining({ expectedHash: "caller_hash" })
+    );
+  });
+});
@@ -0,0 +1,127 @@
+import { beforeEach, describe, expect, test, vi } from "vitest";
+import { SyncFileChange } from "../../../../src/data/usecases/sync-file-change/sync-file-change.js";
+import {
+  Summary,
+  SummaryLevel,
+  SummaryType,
+} from "../../../../src/domain/entities/index.js";
+import { MockFileRepository } from "../../mocks/index.js";
+
+const makeSummary = (id: string, stale?: boolean): Summary => ({
+  id,
+  projectName: "project-1",
+  content: `Summary ${id}`,
+  metadata: {
+    level: SummaryLevel.NODE,
+    type: SummaryType.EXTRACTIVE,
+    sourceFiles: ["file1.md"],
+    tokens: 10,
+    compressionRatio: 0.5,
+    created: new Date(),
+    updated: new Date(),
+    childSummaryIds: [],
+    stale,
+  },
+});
+
+describe("SyncFileChange UseCase", () => {
+  let sut: SyncFileChange;
+  let fileIndexer: {
+    indexFile: ReturnType<typeof vi.fn>;
+    removeFile: ReturnType<typeof vi.fn>;
+    contentHash: ReturnType<typeof vi.fn>;
+  };
+  let summaryRepository: {
+    findStalesSummaries: ReturnType<typeof vi.fn>;
+    upsertSummary: ReturnType<typeof vi.fn>;
+  };
+
+  beforeEach(() => {
+    fileIndexer = {
+      indexFile: vi.fn(),
+      removeFile: vi.fn(),
+      contentHash: vi.fn(),
+    };
+    summaryRepository = {
+      findStalesSummaries: vi.fn().mockResolvedValue([]),
+      upsertSummary: vi.fn(),
+    };
+    sut = new SyncFileChange(
+      new MockFileRepository(),
+      fileIndexer,
+      summaryRepository as any
+    );
+  });
+
+  test("should index a file that exists on disk", async () => {
+    const result = await sut.sync({
+      projectName: "project-1",
+      fileName: "file1.md",
+    });
+
+    expect(result.action).toBe("indexed");
+    expect(fileIndexer.indexFile).toHaveBeenCalledWith(
+      "project-1",
+      "file1.md",
+      "Content of file1.md"
+    );
+    expect(fileIndexer.removeFile).not.toHaveBeenCalled();
+  });
+
+  test("should remove a file that no longer exists", async () => {
+    const result = await sut.sync({
+      projectName: "project-1",
+      fileName: "deleted.md",
+    });
+
+    expect(result.action).toBe("removed");
+    expect(fileIndexer.removeFile).toHaveBeenCalledWith(
+      "project-1",
+      "deleted.md"
+    );
+    expect(fileIndexer.indexFile).not.toHaveBeenCalled();
+  });
+
+  test("should mark summaries built from the file as stale", async () => {
+    summaryRepository.findStalesSummaries.mockResolvedValue([
+      makeSummary("summary-1"),
+      makeSummary("summary-2", true),
+    ]);
+
+    const result = await sut.sync({
+      projectName: "project-1",
+      fileName: "file1.md",
+    });
+
+    expect(summaryRepository.findStalesSummaries).toHaveBeenCalledWith(
+      "project-1",
+      ["file1.md"]
+    );
+    expect(result.staleSummaries).toEqual(["summary-1", "summary-2"]);
+    // Summaries already flagged are not rewritten
+    expect(summaryRepository.upsertSummary).toHaveBeenCalledTimes(1);
+    expect(summaryRepository.upsertSummary.mock.calls[0][0].metadata.stale).toBe(
+      true
+    );
+  });
+
+  test("should propagate indexing errors", async () => {
+    fileIndexer.indexFile.mockRejectedValue(new Error("index unavailable"));
+
+    await expect(
+      sut.sync({ projectName: "project-1", fileName: "file1.md" })
+    ).rejects.toThrow("index unavailable");
+    expect(summaryRepository.findStalesSummaries).not.toHaveBeenCalled();
+  });
+
+  test("should keep the project manifest out of the index", async () => {
+    const result = await sut.sync({
+      projectName: "project-1",
+      fileName: "project.yaml",
+    });
+
+    expect(result.action).toBe("removed");
+    expect(fileIndexer.indexFile).not.toHaveBeenCalled();
+    expect(fileIndexer.removeFile).toHaveBeenCalledWith("project-1", "project.yaml");
+  });
+});
@@ -1,11 +1,22 @@
-import { beforeEach, describe, expect, test, vi } from "vitest";
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
 import { FileRepository } from "../../../../src/data/protocols/file-repository.js";
 import { ProjectRepository } from "../../../../src/data/protocols/project-repository.js";
 import { UpdateFile } from "../../../../src/data/usecases/update-file/update-file.js";
+import {
+  FileConflictError,
+  FrontMatterValidationError,
+} from "../../../../src/domain/entities/index.js";
 import { UpdateFileParams } from "../../../../src/domain/usecases/update-file.js";
+import { LexicalEmbeddingProvider } from "../../../../src/infra/embeddings/lexical-embedding-provider.js";
+import { VectorFileIndexer } from "../../../../src/infra/services/vector-file-indexer.js";
+import { LocalVectorRepository } from "../../../../src/infra/vector/local-vector-repository.js";
 import {
   MockFileRepository,
   MockProjectRepository,
+  mockContentHash,
 } from "../../mocks/index.js";
 
 describe("UpdateFile UseCase", () => {
@@ -84,10 +95,129 @@ describe("UpdateFile UseCase", () => {
     await sut.updateFile(params);
 
     expect(updateFileSpy).toHaveBeenCalledWith(
+      "project-1",
+      "file1.md",
+      "Updated content",
+      undefined,
+      undefined
+    );
+  });
+
+  test("should pass the expected hash on to the repository", async () => {
+    const updateFileSpy = vi.spyOn(fileRepositoryStub, "updateFile");
+    const params: UpdateFileParams = {
+      projectName: "project-1",
+      fileName: "file1.md",
+      content: "Updated content",
+      expectedHash: mockContentHash("Content of file1.md"),
+    };
+
+    await sut.updateFile(params);
+
+    expect(updateFileSpy).toHaveBeenCalledWith(
+      "project-1",
+      "file1.md",
+      "Updated content",
+      mockContentHash("Content of file1.md"),
+      undefined
+    );
+  });
+
+  test("should pass the change note on to the repository", async () => {
+    const updateFileSpy = vi.spyOn(fileRepositoryStub, "updateFile");
+    const params: UpdateFileParams = {
+      projectName: "project-1",
+      fileName: "file1.md",
+      content: "Updated content",
+      changeNote: "Record the new caching decision",
+    };
+
+    await sut.updateFile(params);
+
+    expect(updateFileSpy).toHaveBeenCalledWith(
+      "project-1",
+      "file1.md",
+      "Updated content",
+      undefined,
+      "Record the new caching decision"
+    );
+  });
+
+  test("should reject with a conflict when the file changed since it was read", async () => {
+    const params: UpdateFileParams = {
+      projectName: "project-1",
+      fileName: "file1.md",
+      content: "Updated content",
+      expectedHash: mockContentHash("An older version"),
+    };
+
+    await expect(sut.updateFile(params)).rejects.toBeInstanceOf(
+      FileConflictError
+    );
+  });
+
+  test("should merge the metadata into the content's front matter", async () => {
+    const frontMatterEditor = {
+      setMetadata: vi.fn(() => "---\ntags:\n  - adr\n---\nUpdated content"),
+    };
+    sut = new UpdateFile(
+      fileRepositoryStub,
+      projectRepositoryStub,
+      undefined,
+      undefined,
+      frontMatterEditor
+    );
+    const updateFileSpy = vi.spyOn(fileRepositoryStub, "updateFile");
+
+    await sut.updateFile({
+      projectName: "project-1",
+      fileName: "file1.md",
+      content: "Updated content",
+      metadata: { tags: ["adr"] },
+    });
+
+    expect(frontMatterEditor.setMetadata).toHaveBeenCalledWith(
+      "Updated content",
+      { tags: ["adr"] },
+      "Content of file1.md"
+    );
+    expect(updateFileSpy).toHaveBeenCalledWith(
+      "project-1",
+      "file1.md",
+      "---\ntags:\n  - adr\n---\nUpdated content",
+      undefined,
+      undefined
+    );
+  });
+
+  test("should not update the file when its front matter is invalid", async () => {
+    const frontMatterValidator = {
+      validate: vi
+        .fn()
+        .mockRejectedValue(
+          new FrontMatterValidationError("file1.md", ["status is required"])
+        ),
+    };
+    sut = new UpdateFile(
+      fileRepositoryStub,
+      projectRepositoryStub,
+      undefined,
+      frontMatterValidator
+    );
+    const updateFileSpy = vi.spyOn(fileRepositoryStub, "updateFile");
+    const params: UpdateFileParams = {
+      projectName: "project-1",
+      fileName: "file1.md",
+      content: "Updated content",
+    };
+
+    await expect(sut.updateFile(params)).rejects.toThrow("status is required");
+    expect(frontMatterValidator.validate).toHaveBeenCalledWith(
       "project-1",
       "file1.md",
       "Updated content"
     );
+    expect(updateFileSpy).not.toHaveBeenCalled();
   });
 
   test("should return file content on successful file update", async () => {
@@ -99,7 +229,49 @@ describe("UpdateFile UseCase", () => {
 
     const result = await sut.updateFile(params);
 
-    expect(result).toBe("Updated content");
+    expect(result).toEqual({
+      content: "Updated content",
+      contentHash: mockContentHash("Updated content"),
+    });
+  });
+
+  test("should index the updated file when an indexer is provided", async () => {
+    const fileIndexer = { indexFile: vi.fn(), removeFile: vi.fn() };
+    sut = new UpdateFile(fileRepositoryStub, projectRepositoryStub, fileIndexer);
+    const params: UpdateFileParams = {
+      projectName: "project-1",
+      fileName: "file1.md",
+      content: "Updated content",
+    };
+
+    await sut.updateFile(params);
+
+    expect(fileIndexer.indexFile).toHaveBeenCalledWith(
+      "project-1",
+      "file1.md",
+      "Updated content"
+    );
+  });
+
+  test("should report indexing failures without failing the update", async () => {
+    const fileIndexer = {
+      indexFile: vi.fn().mockRejectedValueOnce(new Error("index down")),
+      removeFile: vi.fn(),
+    };
+    sut = new UpdateFile(fileRepositoryStub, projectRepositoryStub, fileIndexer);
+    const params: UpdateFileParams = {
+      projectName: "project-1",
+      fileName: "file1.md",
+      content: "Updated content",
+    };
+
+    const result = await sut.updateFile(params);
+
+    expect(result).toEqual({
+      content: "Updated content",
+      indexError: "index down",
+      contentHash: mockContentHash("Updated content"),
+    });
   });
 
   test("should propagate errors if repository throws", async () => {
@@ -115,4 +287,41 @@ describe("UpdateFile UseCase", () => {
 
     await expect(sut.updateFile(params)).rejects.toThrow(error);
   });
+
+  describe("project manifest", () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "memory-bank-manifest-"));
+    });
+
+    afterEach(() => {
+      fs.removeSync(tempDir);
+    });
+
+    test("should update the manifest without validating or indexing it", async () => {
+      const vectorRepository = new LocalVectorRepository(
+        { storagePath: tempDir },
+        new LexicalEmbeddingProvider()
+      );
+      const frontMatterValidator = { validate: vi.fn() };
+      sut = new UpdateFile(
+        fileRepositoryStub,
+        projectRepositoryStub,
+        new VectorFileIndexer(vectorRepository),
+        frontMatterValidator
+      );
+      await fileRepositoryStub.writeFile("project-1", "project.yaml", "description: Old");
+
+      const result = await sut.updateFile({
+        projectName: "project-1",
+        fileName: "project.yaml",
+        content: "description: Billing service",
+      });
+
+      expect(result?.content).toBe("description: Billing service");
+      expect(await vectorRepository.listIndexedFiles("project-1")).toEqual([]);
+      expect(frontMatterValidator.validate).not.toHaveBeenCalled();
+    });
+  });
 });
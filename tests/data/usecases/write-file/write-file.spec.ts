@@ -1,8 +1,15 @@
-import { beforeEach, describe, expect, test, vi } from "vitest";
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
 import { FileRepository } from "../../../../src/data/protocols/file-repository.js";
 import { ProjectRepository } from "../../../../src/data/protocols/project-repository.js";
 import { WriteFile } from "../../../../src/data/usecases/write-file/write-file.js";
+import { FileExistsError } from "../../../../src/domain/entities/index.js";
 import { WriteFileParams } from "../../../../src/domain/usecases/write-file.js";
+import { LexicalEmbeddingProvider } from "../../../../src/infra/embeddings/lexical-embedding-provider.js";
+import { VectorFileIndexer } from "../../../../src/infra/services/vector-file-indexer.js";
+import { LocalVectorRepository } from "../../../../src/infra/vector/local-vector-repository.js";
 import {
   MockFileRepository,
   MockProjectRepository,
@@ -95,7 +102,86 @@ describe("WriteFile UseCase", () => {
 
     const result = await sut.writeFile(params);
 
-    expect(result).toBe("New content");
+    expect(result).toEqual({ content: "New content" });
+  });
+
+  test("should report indexing failures without failing the write", async () => {
+    const fileIndexer = {
+      indexFile: vi.fn().mockRejectedValueOnce(new Error("index down")),
+      removeFile: vi.fn(),
+    };
+    sut = new WriteFile(fileRepositoryStub, projectRepositoryStub, fileIndexer);
+    const params: WriteFileParams = {
+      projectName: "project-1",
+      fileName: "new-file.md",
+      content: "New content",
+    };
+
+    vi.spyOn(fileRepositoryStub, "loadFile")
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce("New content");
+
+    const result = await sut.writeFile(params);
+
+    expect(fileIndexer.indexFile).toHaveBeenCalledWith(
+      "project-1",
+      "new-file.md",
+      "New content"
+    );
+    expect(result).toEqual({ content: "New content", indexError: "index down" });
+  });
+
+  test("should journal the write until the file is indexed", async () => {
+    const fileIndexer = {
+      indexFile: vi.fn().mockRejectedValueOnce(new Error("index down")),
+      removeFile: vi.fn(),
+    };
+    const writeJournal = {
+      begin: vi.fn(async () => "entry-1"),
+      commit: vi.fn(),
+      pending: vi.fn(),
+    };
+    sut = new WriteFile(
+      fileRepositoryStub,
+      projectRepositoryStub,
+      fileIndexer,
+      undefined,
+      undefined,
+      writeJournal
+    );
+
+    await sut.writeFile({ projectName: "project-1", fileName: "a.md", content: "A" });
+    await sut.writeFile({ projectName: "project-1", fileName: "b.md", content: "B" });
+
+    expect(writeJournal.begin).toHaveBeenCalledWith({
+      operation: "write",
+      projectName: "project-1",
+      fileNames: ["a.md"],
+    });
+    // The failed indexing of a.md is left for the replay on the next start
+    expect(writeJournal.commit).toHaveBeenCalledTimes(1);
+  });
+
+  test("should fail when someone else creates the file first", async () => {
+    const writeJournal = {
+      begin: vi.fn(async () => "entry-1"),
+      commit: vi.fn(),
+      pending: vi.fn(),
+    };
+    sut = new WriteFile(
+      fileRepositoryStub,
+      projectRepositoryStub,
+      undefined,
+      undefined,
+      undefined,
+      writeJournal
+    );
+    vi.spyOn(fileRepositoryStub, "writeFile").mockResolvedValueOnce(null);
+
+    await expect(
+      sut.writeFile({ projectName: "project-1", fileName: "a.md", content: "A" })
+    ).rejects.toThrow(FileExistsError);
+    expect(writeJournal.commit).toHaveBeenCalledWith("entry-1");
   });
 
   test("should propagate errors if repository throws", async () => {
@@ -111,4 +197,51 @@ describe("WriteFile UseCase", () => {
 
     await expect(sut.writeFile(params)).rejects.toThrow(error);
   });
+
+  describe("project manifest", () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "memory-bank-manifest-"));
+    });
+
+    afterEach(() => {
+      fs.removeSync(tempDir);
+    });
+
+    test("should write the manifest without validating, journaling or indexing it", async () => {
+      const vectorRepository = new LocalVectorRepository(
+        { storagePath: tempDir },
+        new LexicalEmbeddingProvider()
+      );
+      const frontMatterValidator = { validate: vi.fn() };
+      const writeJournal = {
+        begin: vi.fn(async () => "entry-1"),
+        commit: vi.fn(),
+        pending: vi.fn(),
+      };
+      sut = new WriteFile(
+        fileRepositoryStub,
+        projectRepositoryStub,
+        new VectorFileIndexer(vectorRepository),
+        frontMatterValidator,
+        undefined,
+        writeJournal
+      );
+
+      const result = await sut.writeFile({
+        projectName: "project-1",
+        fileName: "project.yaml",
+        content: "description: Billing service",
+      });
+      await sut.writeFile({ projectName: "project-1", fileName: "notes.md", content: "Notes" });
+
+      expect(result).toEqual({ content: "description: Billing service" });
+      expect(
+        (await vectorRepository.listIndexedFiles("project-1")).map((ref) => ref.fileName)
+      ).toEqual(["notes.md"]);
+      expect(frontMatterValidator.validate).toHaveBeenCalledTimes(1);
+      expect(writeJournal.begin).toHaveBeenCalledTimes(1);
+    });
+  });
 });
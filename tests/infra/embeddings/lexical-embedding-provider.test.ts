@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { LexicalEmbeddingProvider } from "../../../src/infra/embeddings/lexical-embedding-provider.js";
+
+const cosine = (a: Float32Array, b: Float32Array) =>
+  a.reduce((sum, value, i) => sum + value * b[i], 0);
+
+describe("LexicalEmbeddingProvider", () => {
+  const provider = new LexicalEmbeddingProvider();
+
+  it("should produce normalized vectors of the configured dimension", async () => {
+    const custom = new LexicalEmbeddingProvider({ dimension: 64, model: "custom" });
+    const embedding = await custom.embed("Caching strategy for the API layer");
+
+    expect(custom.model).toBe("custom");
+    expect(embedding).toHaveLength(64);
+    expect(cosine(embedding, embedding)).toBeCloseTo(1, 5);
+  });
+
+  it("should be deterministic", async () => {
+    const [first, second] = await provider.embedBatch([
+      "deterministic output",
+      "deterministic output",
+    ]);
+
+    expect(Array.from(first)).toEqual(Array.from(second));
+  });
+
+  it("should score texts sharing terms above unrelated texts", async () => {
+    const [query, related, unrelated] = await provider.embedBatch([
+      "redis cache invalidation",
+      "We invalidate the Redis cache whenever a user profile changes",
+      "Quarterly roadmap and hiring plan",
+    ]);
+
+    expect(cosine(query, related)).toBeGreaterThan(cosine(query, unrelated));
+    expect(cosine(query, unrelated)).toBeCloseTo(0, 1);
+  });
+
+  it("should weight rare terms above terms most documents contain", async () => {
+    const [common] = provider.documentTerms("deploy");
+    const [rare] = provider.documentTerms("kafka");
+    const frequencies = { documentCount: 10, terms: { [common]: 10, [rare]: 1 } };
+
+    const unweighted = await provider.embed("deploy kafka");
+    const weighted = await provider.embed("deploy kafka", frequencies);
+
+    expect(Math.abs(unweighted[Number(rare)])).toBeCloseTo(
+      Math.abs(unweighted[Number(common)]),
+      5
+    );
+    expect(Math.abs(weighted[Number(rare)])).toBeGreaterThan(
+      Math.abs(weighted[Number(common)])
+    );
+  });
+
+  it("should count each document term once", () => {
+    const terms = provider.documentTerms("cache the cache");
+
+    expect(terms).toHaveLength(new Set(terms).size);
+    expect(terms).toEqual(expect.arrayContaining(provider.documentTerms("cache")));
+  });
+
+  it("should return a zero vector for text without terms", async () => {
+    const embedding = await provider.embed("the and of");
+
+    expect(embedding.every((value) => value === 0)).toBe(true);
+  });
+
+  it("should reject invalid dimensions", () => {
+    expect(() => new LexicalEmbeddingProvider({ dimension: -1 })).toThrow();
+  });
+});
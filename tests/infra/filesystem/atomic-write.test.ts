@@ -0,0 +1,40 @@
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { writeFileAtomic } from "../../../src/infra/filesystem/atomic-write.js";
+
+describe("writeFileAtomic", () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "memory-bank-atomic-test-"));
+  });
+
+  afterEach(() => {
+    fs.removeSync(tempDir);
+  });
+
+  it("should write and replace a file without leaving temporary files", async () => {
+    const filePath = path.join(tempDir, "notes.md");
+
+    await writeFileAtomic(filePath, "first");
+    await writeFileAtomic(filePath, "second");
+
+    expect(fs.readFileSync(filePath, "utf-8")).toBe("second");
+    expect(fs.readdirSync(tempDir)).toEqual(["notes.md"]);
+  });
+
+  it("should leave the file as it was when the write fails", async () => {
+    const filePath = path.join(tempDir, "notes.md");
+    fs.writeFileSync(filePath, "original");
+    // Renaming a file over a directory fails after the content is written
+    const directoryPath = path.join(tempDir, "folder");
+    fs.mkdirSync(path.join(directoryPath, "child"), { recursive: true });
+
+    await expect(writeFileAtomic(directoryPath, "new")).rejects.toThrow();
+
+    expect(fs.readFileSync(filePath, "utf-8")).toBe("original");
+    expect(fs.readdirSync(tempDir).sort()).toEqual(["folder", "notes.md"]);
+  });
+});
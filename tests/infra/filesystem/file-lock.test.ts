@@ -0,0 +1,158 @@
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { FileLock } from "../../../src/infra/filesystem/file-lock.js";
+
+describe("FileLock", () => {
+  let tempDir: string;
+  let lockDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "memory-bank-lock-test-"));
+    lockDir = path.join(tempDir, ".locks");
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    fs.removeSync(tempDir);
+  });
+
+  it("should run operations on the same file one at a time", async () => {
+    const lock = new FileLock(lockDir);
+    const events: string[] = [];
+    const operation = (name: string) => async () => {
+      events.push(`${name} start`);
+      await new Promise((resolve) => setTimeout(resolve, 30));
+      events.push(`${name} end`);
+    };
+
+    await Promise.all([
+      lock.withLock(path.join(tempDir, "a.md"), operation("first")),
+      lock.withLock(path.join(tempDir, "a.md"), operation("second")),
+    ]);
+
+    expect(events).toEqual(["first start", "first end", "second start", "second end"]);
+    expect(await fs.readdir(lockDir)).toEqual([]);
+  });
+
+  it("should release the lock when the operation fails", async () => {
+    const lock = new FileLock(lockDir);
+
+    await expect(
+      lock.withLock(path.join(tempDir, "a.md"), async () => {
+        throw new Error("boom");
+      })
+    ).rejects.toThrow("boom");
+    expect(await fs.readdir(lockDir)).toEqual([]);
+  });
+
+  it("should time out while another holder keeps the lock", async () => {
+    const holder = new FileLock(lockDir);
+    const waiter = new FileLock(lockDir, { timeoutMs: 50 });
+    let release!: () => void;
+    const held = holder.withLock(
+      path.join(tempDir, "a.md"),
+      () => new Promise<void>((resolve) => (release = resolve))
+    );
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    await expect(
+      waiter.withLock(path.join(tempDir, "a.md"), async () => "never")
+    ).rejects.toThrow(/Timed out waiting for the lock/);
+
+    release();
+    await held;
+  });
+
+  it("should take over a lock left behind by a crashed process", async () => {
+    const lock = new FileLock(lockDir, { timeoutMs: 50, staleMs: 1000 });
+    const filePath = path.join(tempDir, "a.md");
+    const [lockFile] = await lock.withLock(filePath, () => fs.readdir(lockDir));
+    const lockPath = path.join(lockDir, lockFile);
+    await fs.writeFile(lockPath, "12345");
+    const longAgo = new Date(Date.now() - 60_000);
+    await fs.utimes(lockPath, longAgo, longAgo);
+
+    const result = await lock.withLock(filePath, async () => "done");
+
+    expect(result).toBe("done");
+    expect(await fs.pathExists(lockPath)).toBe(false);
+  });
+
+  it("should give back a lock its holder refreshed during the takeover", async () => {
+    const filePath = path.join(tempDir, "a.md");
+    const [lockFile] = await new FileLock(lockDir).withLock(filePath, () =>
+      fs.readdir(lockDir)
+    );
+    const lockPath = path.join(lockDir, lockFile);
+    await fs.writeFile(lockPath, "holder");
+    const longAgo = new Date(Date.now() - 60_000);
+    await fs.utimes(lockPath, longAgo, longAgo);
+
+    // The holder refreshes its lock just before the waiter moves it away
+    const rename = fs.rename.bind(fs);
+    vi.spyOn(fs, "rename").mockImplementation((async (from: string, to: string) => {
+      if (from === lockPath) {
+        const now = new Date();
+        await fs.utimes(lockPath, now, now);
+      }
+      return rename(from, to);
+    }) as any);
+
+    await expect(
+      new FileLock(lockDir, { timeoutMs: 100, staleMs: 1000 }).withLock(
+        filePath,
+        async () => "never"
+      )
+    ).rejects.toThrow(/Timed out waiting for the lock/);
+    expect(await fs.readFile(lockPath, "utf-8")).toBe("holder");
+    expect(await fs.readdir(lockDir)).toEqual([lockFile]);
+  });
+
+  it("should let only one waiter take over a stale lock", async () => {
+    const filePath = path.join(tempDir, "a.md");
+    const [lockFile] = await new FileLock(lockDir).withLock(filePath, () =>
+      fs.readdir(lockDir)
+    );
+    const lockPath = path.join(lockDir, lockFile);
+    await fs.writeFile(lockPath, "12345");
+    const longAgo = new Date(Date.now() - 60_000);
+    await fs.utimes(lockPath, longAgo, longAgo);
+    const events: string[] = [];
+    const operation = (name: string) => async () => {
+      events.push(`${name} start`);
+      await new Promise((resolve) => setTimeout(resolve, 30));
+      events.push(`${name} end`);
+    };
+
+    await Promise.all(
+      ["first", "second", "third"].map((name) =>
+        new FileLock(lockDir, { staleMs: 1000 }).withLock(filePath, operation(name))
+      )
+    );
+
+    for (let i = 0; i < events.length; i += 2) {
+      expect(events[i].replace("start", "end")).toBe(events[i + 1]);
+    }
+    expect(await fs.readdir(lockDir)).toEqual([]);
+  });
+
+  it("should keep a lock fresh while it is held", async () => {
+    const holder = new FileLock(lockDir, { staleMs: 100 });
+    const waiter = new FileLock(lockDir, { staleMs: 100, timeoutMs: 300 });
+    let release!: () => void;
+    const held = holder.withLock(
+      path.join(tempDir, "a.md"),
+      () => new Promise<void>((resolve) => (release = resolve))
+    );
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    await expect(
+      waiter.withLock(path.join(tempDir, "a.md"), async () => "never")
+    ).rejects.toThrow(/Timed out waiting for the lock/);
+
+    release();
+    await held;
+  });
+});
@@ -0,0 +1,187 @@
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+import zlib from "zlib";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  BundleExistsError,
+  InvalidBundleError,
+  ProjectBundleContents,
+  SummaryLevel,
+  SummaryType,
+} from "../../../src/domain/entities/index.js";
+import { FsProjectBundleStore } from "../../../src/infra/filesystem/fs-project-bundle-store.js";
+
+const contents: ProjectBundleContents = {
+  files: [
+    { fileName: "projectbrief.md", content: "---\ntags: [brief]\n---\n# Brief" },
+    { fileName: "decisions/adr-001.md", content: "# ADR" },
+  ],
+  history: [
+    {
+      fileName: "projectbrief.md",
+      versions: [
+        {
+          versionId: "001700000000000-abcdef12",
+          contentHash: "abcdef12",
+          replacedAt: "2023-11-14T22:13:20.000Z",
+          content: "# Old brief",
+        },
+      ],
+    },
+  ],
+  summaries: [
+    {
+      id: "my-project:project:overview",
+      projectName: "my-project",
+      content: "Overview",
+      metadata: {
+        level: SummaryLevel.PROJECT,
+        type: SummaryType.ABSTRACTIVE,
+        sourceFiles: ["projectbrief.md"],
+        tokens: 1,
+        compressionRatio: 0.5,
+        created: new Date("2024-01-01T00:00:00.000Z"),
+        updated: new Date("2024-01-02T00:00:00.000Z"),
+        childSummaryIds: [],
+      },
+    },
+  ],
+  episodes: [],
+};
+
+describe("FsProjectBundleStore", () => {
+  let tempDir: string;
+  let store: FsProjectBundleStore;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "memory-bank-bundles-"));
+    store = new FsProjectBundleStore(path.join(tempDir, ".exports"));
+  });
+
+  afterEach(() => {
+    fs.removeSync(tempDir);
+  });
+
+  it("should write a compressed bundle to the exports folder by default", async () => {
+    const result = await store.save("my-project", contents);
+
+    expect(path.dirname(result.path)).toBe(path.join(tempDir, ".exports"));
+    expect(path.basename(result.path)).toMatch(/^my-project-\d{8}T\d{6}Z\.json\.gz$/);
+    expect(result.manifest).toMatchObject({
+      format: "memory-bank-project",
+      version: 1,
+      projectName: "my-project",
+      counts: { files: 2, versions: 1, summaries: 1, episodes: 0 },
+    });
+    expect(Object.keys(result.manifest.files)).toEqual([
+      "projectbrief.md",
+      "decisions/adr-001.md",
+    ]);
+
+    const json = zlib.gunzipSync(await fs.readFile(result.path)).toString("utf-8");
+    expect(JSON.parse(json).manifest).toEqual(result.manifest);
+  });
+
+  it("should read back what it wrote, dates included", async () => {
+    const { path: bundlePath } = await store.save(
+      "my-project",
+      contents,
+      "bundle.json"
+    );
+
+    const bundle = await store.load(bundlePath);
+
+    expect(bundle.files).toEqual(contents.files);
+    expect(bundle.history).toEqual(contents.history);
+    expect(bundle.summaries).toEqual(contents.summaries);
+    expect(bundle.summaries[0].metadata.created).toBeInstanceOf(Date);
+  });
+
+  it("should reject a bundle whose content does not match the manifest", async () => {
+    const bundlePath = path.join(tempDir, ".exports", "bundle.json");
+    await store.save("my-project", contents, "bundle.json");
+    const bundle = await fs.readJson(bundlePath);
+    bundle.files[0].content = "# Tampered";
+    bundle.files.pop();
+    bundle.history[0].versions[0].content = "# Tampered";
+    await fs.writeJson(bundlePath, bundle);
+
+    const error = await store.load(bundlePath).catch((e) => e);
+
+    expect(error).toBeInstanceOf(InvalidBundleError);
+    expect(error.problems).toEqual([
+      "Checksum of projectbrief.md does not match",
+      "decisions/adr-001.md is missing from the bundle",
+      "Checksum of the history does not match",
+    ]);
+  });
+
+  it("should reject files that are not project bundles", async () => {
+    await fs.outputFile(path.join(tempDir, ".exports", "notes.md"), "# Notes");
+    await fs.outputJson(path.join(tempDir, ".exports", "package.json"), {
+      name: "package",
+    });
+
+    await expect(store.load("notes.md")).rejects.toThrow(InvalidBundleError);
+    await expect(store.load("package.json")).rejects.toThrow("is not a project bundle");
+    await expect(store.load("missing.json")).rejects.toThrow("does not exist");
+  });
+
+  it("should reject bundles naming an unsafe project", async () => {
+    await store.save("../outside", contents, "bundle.json");
+
+    await expect(store.load("bundle.json")).rejects.toThrow(
+      "../outside is not a valid project name"
+    );
+  });
+
+  it("should reject bundles naming hidden or unsafe files", async () => {
+    await store.save(
+      "my-project",
+      {
+        ...contents,
+        files: [
+          ...contents.files,
+          { fileName: ".history/projectbrief.md/1.json", content: "{}" },
+          { fileName: "../outside.md", content: "# Outside" },
+          { fileName: "/etc/passwd", content: "root" },
+          { fileName: "decisions/.hidden.md", content: "# Hidden" },
+        ],
+      },
+      "bundle.json"
+    );
+
+    const error = await store.load("bundle.json").catch((e) => e);
+
+    expect(error).toBeInstanceOf(InvalidBundleError);
+    expect(error.problems).toEqual([
+      ".history/projectbrief.md/1.json is not a valid file name",
+      "../outside.md is not a valid file name",
+      "/etc/passwd is not a valid file name",
+      "decisions/.hidden.md is not a valid file name",
+    ]);
+  });
+
+  it("should keep bundles inside the exports folder", async () => {
+    await fs.outputJson(path.join(tempDir, "bundle.json"), {});
+
+    await expect(
+      store.save("my-project", contents, path.join(tempDir, "bundle.json"))
+    ).rejects.toThrow("is outside the exports folder");
+    await expect(store.load("../bundle.json")).rejects.toThrow(InvalidBundleError);
+    expect(await fs.readJson(path.join(tempDir, "bundle.json"))).toEqual({});
+  });
+
+  it("should only replace an existing bundle when asked to", async () => {
+    await store.save("my-project", contents, "bundle.json");
+
+    await expect(store.save("other-project", contents, "bundle.json")).rejects.toThrow(
+      BundleExistsError
+    );
+    expect((await store.load("bundle.json")).manifest.projectName).toBe("my-project");
+
+    await store.save("other-project", contents, "bundle.json", true);
+    expect((await store.load("bundle.json")).manifest.projectName).toBe("other-project");
+  });
+});
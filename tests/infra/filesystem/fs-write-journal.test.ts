@@ -0,0 +1,67 @@
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { FsWriteJournal } from "../../../src/infra/filesystem/fs-write-journal.js";
+
+describe("FsWriteJournal", () => {
+  let tempDir: string;
+  let journal: FsWriteJournal;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "memory-bank-journal-test-"));
+    journal = new FsWriteJournal(tempDir);
+  });
+
+  afterEach(() => {
+    fs.removeSync(tempDir);
+  });
+
+  it("should have nothing pending before anything is written", async () => {
+    expect(await journal.pending()).toEqual([]);
+  });
+
+  it("should keep entries until they are committed, oldest first", async () => {
+    const first = await journal.begin({
+      operation: "write",
+      projectName: "project-1",
+      fileNames: ["a.md"],
+    });
+    const second = await journal.begin({
+      operation: "rename",
+      projectName: "project-1",
+      fileNames: ["b.md", "c.md"],
+    });
+
+    const pending = await journal.pending();
+    expect(pending).toEqual([
+      {
+        id: first,
+        operation: "write",
+        projectName: "project-1",
+        fileNames: ["a.md"],
+        startedAt: expect.any(Date),
+      },
+      {
+        id: second,
+        operation: "rename",
+        projectName: "project-1",
+        fileNames: ["b.md", "c.md"],
+        startedAt: expect.any(Date),
+      },
+    ]);
+
+    await journal.commit(first);
+
+    expect((await journal.pending()).map((entry) => entry.id)).toEqual([second]);
+  });
+
+  it("should find entries another process left behind", async () => {
+    await journal.begin({ operation: "delete", projectName: "project-1", fileNames: ["a.md"] });
+
+    const pending = await new FsWriteJournal(tempDir).pending();
+
+    expect(pending).toHaveLength(1);
+    expect(fs.readdirSync(path.join(tempDir, ".journal"))).toHaveLength(1);
+  });
+});
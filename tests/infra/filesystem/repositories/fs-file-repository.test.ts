@@ -48,6 +48,29 @@ describe("FsFileRepository", () => {
       expect(result).toHaveLength(2);
       expect(result).toEqual(expect.arrayContaining(["file1.md", "file2.txt"]));
     });
+
+    it("should leave out the project manifest", async () => {
+      await fs.writeFile(path.join(tempDir, projectName, "project.yaml"), "tags: [a]");
+      await fs.writeFile(path.join(tempDir, projectName, "file1.md"), "test");
+      await fs.outputFile(path.join(tempDir, projectName, "notes", "project.yaml"), "test");
+
+      const result = await repository.listFiles(projectName);
+
+      expect(result.sort()).toEqual(["file1.md", "notes/project.yaml"]);
+      expect(await repository.listFileStats(projectName)).toHaveLength(2);
+    });
+  });
+
+  describe("listFileStats", () => {
+    it("should return the size and modification time of each file", async () => {
+      const modifiedAt = new Date("2024-03-01T12:00:00.000Z");
+      await fs.outputFile(path.join(tempDir, projectName, "notes", "a.md"), "four");
+      await fs.utimes(path.join(tempDir, projectName, "notes", "a.md"), modifiedAt, modifiedAt);
+
+      const result = await repository.listFileStats(projectName);
+
+      expect(result).toEqual([{ fileName: "notes/a.md", size: 4, modifiedAt }]);
+    });
   });
 
   describe("loadFile", () => {
@@ -191,5 +214,242 @@ describe("FsFileRepository", () => {
 
       expect(result).toBe(updatedContent);
     });
+
+    it("should update when the expected hash matches the current content", async () => {
+      await fs.writeFile(path.join(tempDir, projectName, fileName), "Original content");
+      const version = await repository.loadFileVersion(projectName, fileName);
+
+      const result = await repository.updateFile(
+        projectName,
+        fileName,
+        "Updated content",
+        version!.contentHash
+      );
+
+      expect(result).toBe("Updated content");
+      expect(await fs.readdir(path.join(tempDir, ".locks"))).toEqual([]);
+    });
+
+    it("should reject a stale expected hash with the current one", async () => {
+      await fs.writeFile(path.join(tempDir, projectName, fileName), "Original content");
+      const version = await repository.loadFileVersion(projectName, fileName);
+      await repository.updateFile(projectName, fileName, "Someone else's change");
+      const current = await repository.loadFileVersion(projectName, fileName);
+
+      await expect(
+        repository.updateFile(projectName, fileName, "My change", version!.contentHash)
+      ).rejects.toMatchObject({
+        code: "CONFLICT",
+        currentHash: current!.contentHash,
+        expectedHash: version!.contentHash,
+      });
+      expect(await repository.loadFile(projectName, fileName)).toBe("Someone else's change");
+    });
+  });
+
+  describe("nested folders", () => {
+    it("should write, read and list files in subfolders", async () => {
+      await repository.writeFile(projectName, "decisions/adr-001.md", "Use MCP");
+      await repository.writeFile(projectName, "runbooks/deploy/prod.md", "Deploy");
+      await repository.writeFile(projectName, fileName, fileContent);
+      await repository.updateFile(projectName, "decisions/adr-001.md", "Use MCP v2");
+
+      const files = await repository.listFiles(projectName);
+
+      expect(files.sort()).toEqual(
+        ["decisions/adr-001.md", "runbooks/deploy/prod.md", fileName].sort()
+      );
+      expect(await repository.loadFile(projectName, "decisions/adr-001.md")).toBe(
+        "Use MCP v2"
+      );
+    });
+
+    it("should reject paths that leave the project", async () => {
+      await expect(
+        repository.loadFile(projectName, "../other-project/secret.md")
+      ).rejects.toThrow(/outside project/);
+    });
+
+    it("should reject paths through links that leave the project", async () => {
+      const outside = fs.mkdtempSync(path.join(os.tmpdir(), "memory-bank-outside-"));
+      await fs.writeFile(path.join(outside, "secret.md"), "Secret");
+      await fs.symlink(outside, path.join(tempDir, projectName, "linked"), "dir");
+
+      try {
+        await expect(
+          repository.loadFile(projectName, "linked/secret.md")
+        ).rejects.toThrow(/links outside project/);
+        await expect(
+          repository.writeFile(projectName, "linked/new.md", "x")
+        ).rejects.toThrow(/links outside project/);
+        expect(await repository.listFiles(projectName)).toEqual([]);
+      } finally {
+        fs.removeSync(outside);
+      }
+    });
+  });
+
+  describe("history", () => {
+    const filePath = () => path.join(tempDir, projectName, fileName);
+
+    it("should keep the replaced version with the change note", async () => {
+      await fs.writeFile(filePath(), "First");
+      const first = await repository.loadFileVersion(projectName, fileName);
+
+      await repository.updateFile(projectName, fileName, "Second", undefined, "Rewrite");
+      const versions = await repository.listVersions(projectName, fileName);
+      const version = await repository.loadVersion(
+        projectName,
+        fileName,
+        versions[0].versionId
+      );
+
+      expect(versions).toHaveLength(1);
+      expect(versions[0]).toMatchObject({
+        contentHash: first!.contentHash,
+        changeNote: "Rewrite",
+      });
+      expect(version?.content).toBe("First");
+      expect(await repository.listFiles(projectName)).toEqual([fileName]);
+    });
+
+    it("should not save a version when the content is unchanged", async () => {
+      await fs.writeFile(filePath(), "Same");
+
+      await repository.updateFile(projectName, fileName, "Same");
+
+      expect(await repository.listVersions(projectName, fileName)).toEqual([]);
+    });
+
+    it("should keep only the newest versions", async () => {
+      repository = new FsFileRepository(tempDir, undefined, { maxVersions: 2 });
+      await fs.writeFile(filePath(), "v1");
+
+      for (const content of ["v2", "v3", "v4"]) {
+        await repository.updateFile(projectName, fileName, content);
+      }
+      const versions = await repository.listVersions(projectName, fileName);
+      const contents = await Promise.all(
+        versions.map(async ({ versionId }) =>
+          (await repository.loadVersion(projectName, fileName, versionId))?.content
+        )
+      );
+
+      expect(contents).toEqual(["v3", "v2"]);
+    });
+
+    it("should move the history with a renamed file", async () => {
+      await fs.writeFile(filePath(), "First");
+      await repository.updateFile(projectName, fileName, "Second");
+
+      await repository.renameFile(projectName, fileName, "renamed.md");
+
+      expect(await repository.listVersions(projectName, fileName)).toEqual([]);
+      expect(await repository.listVersions(projectName, "renamed.md")).toHaveLength(1);
+    });
+
+    it("should save versions from elsewhere under their own id", async () => {
+      await fs.writeFile(filePath(), "Current");
+      const version = {
+        versionId: `${String(Date.now()).padStart(15, "0")}-abcdef12`,
+        contentHash: "abcdef12",
+        replacedAt: new Date().toISOString(),
+        content: "Imported",
+      };
+
+      await repository.saveVersion(projectName, fileName, version);
+      await repository.saveVersion(projectName, fileName, { ...version, content: "Again" });
+
+      expect(await repository.listVersions(projectName, fileName)).toHaveLength(1);
+      expect(
+        await repository.loadVersion(projectName, fileName, version.versionId)
+      ).toEqual(version);
+    });
+
+    it("should not load versions outside the file's history", async () => {
+      const result = await repository.loadVersion(projectName, fileName, "../../secret");
+      expect(result).toBeNull();
+    });
+  });
+
+  describe("loadFileVersion", () => {
+    it("should return null when the file doesn't exist", async () => {
+      const result = await repository.loadFileVersion(projectName, "missing.md");
+      expect(result).toBeNull();
+    });
+
+    it("should return the content with a hash that changes with it", async () => {
+      await fs.writeFile(path.join(tempDir, projectName, fileName), fileContent);
+      const before = await repository.loadFileVersion(projectName, fileName);
+
+      await fs.writeFile(path.join(tempDir, projectName, fileName), "Changed");
+      const after = await repository.loadFileVersion(projectName, fileName);
+
+      expect(before).toMatchObject({ content: fileContent });
+      expect(before!.contentHash).toMatch(/^[0-9a-f]{64}$/);
+      expect(after!.contentHash).not.toBe(before!.contentHash);
+    });
+  });
+
+  describe("deleteFile", () => {
+    it("should return null if the file doesn't exist", async () => {
+      const result = await repository.deleteFile(projectName, "missing.md");
+      expect(result).toBeNull();
+    });
+
+    it("should move the file to the trash", async () => {
+      await fs.writeFile(path.join(tempDir, projectName, fileName), fileContent);
+
+      const trashPath = await repository.deleteFile(projectName, fileName);
+
+      expect(trashPath).toMatch(/^\.trash[\\/]test-project[\\/]\d+[\\/]test\.md$/);
+      expect(await fs.pathExists(path.join(tempDir, projectName, fileName))).toBe(false);
+      expect(await fs.readFile(path.join(tempDir, trashPath!), "utf-8")).toBe(fileContent);
+    });
+
+    it("should purge trash entries past the retention window", async () => {
+      const expired = path.join(tempDir, ".trash", projectName, "1000", "old.md");
+      await fs.outputFile(expired, "Old content");
+      await fs.writeFile(path.join(tempDir, projectName, fileName), fileContent);
+
+      const trashPath = await repository.deleteFile(projectName, fileName);
+
+      expect(await fs.pathExists(path.dirname(expired))).toBe(false);
+      expect(await fs.pathExists(path.join(tempDir, trashPath!))).toBe(true);
+    });
+  });
+
+  describe("renameFile", () => {
+    it("should move the file to its new name", async () => {
+      await fs.writeFile(path.join(tempDir, projectName, fileName), fileContent);
+
+      const result = await repository.renameFile(projectName, fileName, "renamed.md");
+
+      expect(result).toBe(true);
+      expect(await repository.loadFile(projectName, fileName)).toBeNull();
+      expect(await repository.loadFile(projectName, "renamed.md")).toBe(fileContent);
+    });
+
+    it("should not overwrite an existing file", async () => {
+      await fs.writeFile(path.join(tempDir, projectName, fileName), fileContent);
+      await fs.writeFile(path.join(tempDir, projectName, "taken.md"), "Taken");
+
+      const result = await repository.renameFile(projectName, fileName, "taken.md");
+
+      expect(result).toBe(false);
+      expect(await repository.loadFile(projectName, "taken.md")).toBe("Taken");
+      expect(await repository.loadFile(projectName, fileName)).toBe(fileContent);
+    });
+
+    it("should refuse to rename a file to its own name without waiting", async () => {
+      await fs.writeFile(path.join(tempDir, projectName, fileName), fileContent);
+      const startedAt = Date.now();
+
+      const result = await repository.renameFile(projectName, fileName, fileName);
+
+      expect(result).toBe(false);
+      expect(Date.now() - startedAt).toBeLessThan(1000);
+      expect(await repository.loadFile(projectName, fileName)).toBe(fileContent);
+    });
   });
 });
@@ -37,6 +37,15 @@ describe("FsProjectRepository", () => {
       expect(result).toHaveLength(2);
       expect(result).toEqual(expect.arrayContaining(["project1", "project2"]));
     });
+
+    it("should not list the embedded vector store as a project", async () => {
+      await fs.mkdir(path.join(tempDir, "project1"));
+      await fs.mkdir(path.join(tempDir, ".vector_store"));
+
+      const result = await repository.listProjects();
+
+      expect(result).toEqual(["project1"]);
+    });
   });
 
   describe("projectExists", () => {
@@ -58,6 +67,41 @@ describe("FsProjectRepository", () => {
     });
   });
 
+  describe("loadManifest", () => {
+    it("should return null when the project has no project.yaml", async () => {
+      await fs.mkdir(path.join(tempDir, "project1"));
+
+      expect(await repository.loadManifest("project1")).toBeNull();
+    });
+
+    it("should read the manifest, leaving out fields of the wrong type", async () => {
+      await fs.outputFile(
+        path.join(tempDir, "project1", "project.yaml"),
+        [
+          "description: Payments service",
+          "owners: sam",
+          "tags: [backend, 42, payments]",
+          "repository: { path: ~/src/payments }",
+        ].join("\n")
+      );
+
+      expect(await repository.loadManifest("project1")).toEqual({
+        description: "Payments service",
+        owners: ["sam"],
+        tags: ["backend", "payments"],
+      });
+    });
+
+    it("should return null for a manifest that isn't YAML", async () => {
+      await fs.outputFile(
+        path.join(tempDir, "project1", "project.yaml"),
+        "description: [unclosed"
+      );
+
+      expect(await repository.loadManifest("project1")).toBeNull();
+    });
+  });
+
   describe("ensureProject", () => {
     it("should create project directory if it does not exist", async () => {
       await repository.ensureProject("new-project");
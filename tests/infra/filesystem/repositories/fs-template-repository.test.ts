@@ -0,0 +1,86 @@
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { BUILT_IN_TEMPLATES } from "../../../../src/infra/filesystem/built-in-templates.js";
+import { FsTemplateRepository } from "../../../../src/infra/filesystem/repositories/fs-template-repository.js";
+
+describe("FsTemplateRepository", () => {
+  let tempDir: string;
+  let repository: FsTemplateRepository;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "memory-bank-templates-"));
+    repository = new FsTemplateRepository(tempDir);
+  });
+
+  afterEach(() => {
+    fs.removeSync(tempDir);
+  });
+
+  it("should offer the built-in templates without a templates directory", async () => {
+    repository = new FsTemplateRepository(path.join(tempDir, "missing"));
+
+    expect(await repository.listTemplates()).toEqual(["default"]);
+    const template = await repository.loadTemplate("default");
+    expect(template?.coreFiles).toContain("projectbrief.md");
+    expect(template?.files).toHaveLength(BUILT_IN_TEMPLATES[0].files.length);
+  });
+
+  it("should load user templates with nested files, skipping hidden ones", async () => {
+    await fs.outputFile(path.join(tempDir, "service", "overview.md"), "# {{projectName}}");
+    await fs.outputFile(path.join(tempDir, "service", "adr", "0001.md"), "ADR");
+    await fs.outputFile(path.join(tempDir, "service", ".draft.md"), "hidden");
+
+    const template = await repository.loadTemplate("service");
+
+    expect(await repository.listTemplates()).toEqual(["default", "service"]);
+    expect(template).toEqual({
+      name: "service",
+      files: [
+        { fileName: "adr/0001.md", content: "ADR" },
+        { fileName: "overview.md", content: "# {{projectName}}" },
+      ],
+      coreFiles: ["adr/0001.md", "overview.md"],
+    });
+  });
+
+  it("should read the description and core files from template.json", async () => {
+    await fs.outputFile(path.join(tempDir, "service", "overview.md"), "Overview");
+    await fs.outputFile(path.join(tempDir, "service", "notes.md"), "Notes");
+    await fs.outputJson(path.join(tempDir, "service", "template.json"), {
+      description: "A backend service",
+      coreFiles: ["overview.md"],
+    });
+
+    const template = await repository.loadTemplate("service");
+
+    expect(template?.description).toBe("A backend service");
+    expect(template?.coreFiles).toEqual(["overview.md"]);
+    expect(template?.files.map((file) => file.fileName)).toEqual([
+      "notes.md",
+      "overview.md",
+    ]);
+  });
+
+  it("should let a user template replace a built-in one", async () => {
+    await fs.outputFile(path.join(tempDir, "default", "brief.md"), "Brief");
+
+    const template = await repository.loadTemplate("default");
+
+    expect(await repository.listTemplates()).toEqual(["default"]);
+    expect(template?.files).toEqual([{ fileName: "brief.md", content: "Brief" }]);
+  });
+
+  it("should return null for an unknown template", async () => {
+    expect(await repository.loadTemplate("missing")).toBeNull();
+  });
+
+  it("should reject a malformed template.json", async () => {
+    await fs.outputFile(path.join(tempDir, "broken", "template.json"), "{");
+
+    await expect(repository.loadTemplate("broken")).rejects.toThrow(
+      /Invalid template.json in template broken/
+    );
+  });
+});
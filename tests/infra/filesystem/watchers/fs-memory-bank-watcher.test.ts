@@ -0,0 +1,205 @@
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { SyncFileChange } from "../../../../src/data/usecases/sync-file-change/sync-file-change.js";
+import { WriteFile } from "../../../../src/data/usecases/write-file/write-file.js";
+import { LexicalEmbeddingProvider } from "../../../../src/infra/embeddings/lexical-embedding-provider.js";
+import { FsFileRepository } from "../../../../src/infra/filesystem/repositories/fs-file-repository.js";
+import { FsProjectRepository } from "../../../../src/infra/filesystem/repositories/fs-project-repository.js";
+import { FsMemoryBankWatcher } from "../../../../src/infra/filesystem/watchers/fs-memory-bank-watcher.js";
+import { VectorFileIndexer } from "../../../../src/infra/services/vector-file-indexer.js";
+import { LocalVectorRepository } from "../../../../src/infra/vector/local-vector-repository.js";
+
+describe("FsMemoryBankWatcher", () => {
+  let tempDir: string;
+  let watcher: FsMemoryBankWatcher;
+  let syncFileChange: { sync: ReturnType<typeof vi.fn> };
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "memory-bank-watch-"));
+    await fs.mkdir(path.join(tempDir, "project-1"));
+
+    syncFileChange = { sync: vi.fn().mockResolvedValue(undefined) };
+    watcher = new FsMemoryBankWatcher(tempDir, syncFileChange, {
+      debounceMs: 50,
+    });
+    await watcher.start();
+  });
+
+  afterEach(async () => {
+    await watcher.stop();
+    fs.removeSync(tempDir);
+  });
+
+  it("should sync a burst of writes to a file once", async () => {
+    const filePath = path.join(tempDir, "project-1", "notes.md");
+    await fs.writeFile(filePath, "first");
+    await fs.appendFile(filePath, " second");
+    await fs.appendFile(filePath, " third");
+
+    await vi.waitFor(() => expect(syncFileChange.sync).toHaveBeenCalled(), {
+      timeout: 2000,
+    });
+    await new Promise((resolve) => setTimeout(resolve, 150));
+
+    expect(syncFileChange.sync).toHaveBeenCalledTimes(1);
+    expect(syncFileChange.sync).toHaveBeenCalledWith({
+      projectName: "project-1",
+      fileName: "notes.md",
+    });
+  });
+
+  it("should sync deleted files", async () => {
+    const filePath = path.join(tempDir, "project-1", "notes.md");
+    await fs.writeFile(filePath, "content");
+    await vi.waitFor(() => expect(syncFileChange.sync).toHaveBeenCalled(), {
+      timeout: 2000,
+    });
+    syncFileChange.sync.mockClear();
+
+    await fs.remove(filePath);
+
+    await vi.waitFor(
+      () =>
+        expect(syncFileChange.sync).toHaveBeenCalledWith({
+          projectName: "project-1",
+          fileName: "notes.md",
+        }),
+      { timeout: 2000 }
+    );
+  });
+
+  it("should sync away every indexed file of a deleted folder or project", async () => {
+    const vectorRepository = {
+      listIndexedFiles: vi.fn().mockResolvedValue([
+        { projectName: "project-1", fileName: "decisions/adr-001.md", contentHash: "a" },
+        { projectName: "project-1", fileName: "decisions/old/adr-000.md", contentHash: "b" },
+        { projectName: "project-1", fileName: "decisions-log.md", contentHash: "c" },
+      ]),
+    };
+    await watcher.stop();
+    watcher = new FsMemoryBankWatcher(
+      tempDir,
+      syncFileChange,
+      { debounceMs: 50 },
+      vectorRepository as any
+    );
+    await fs.ensureDir(path.join(tempDir, "project-1", "decisions"));
+    await watcher.start();
+
+    await fs.remove(path.join(tempDir, "project-1", "decisions"));
+
+    await vi.waitFor(
+      () =>
+        expect(syncFileChange.sync).toHaveBeenCalledWith({
+          projectName: "project-1",
+          fileName: "decisions/old/adr-000.md",
+        }),
+      { timeout: 2000 }
+    );
+    expect(syncFileChange.sync).toHaveBeenCalledWith({
+      projectName: "project-1",
+      fileName: "decisions/adr-001.md",
+    });
+    expect(syncFileChange.sync).not.toHaveBeenCalledWith({
+      projectName: "project-1",
+      fileName: "decisions-log.md",
+    });
+
+    await fs.remove(path.join(tempDir, "project-1"));
+
+    await vi.waitFor(
+      () =>
+        expect(syncFileChange.sync).toHaveBeenCalledWith({
+          projectName: "project-1",
+          fileName: "decisions-log.md",
+        }),
+      { timeout: 2000 }
+    );
+  });
+
+  it("should not index a file written through the tools a second time", async () => {
+    const fileRepository = new FsFileRepository(tempDir);
+    const vectorRepository = new LocalVectorRepository(
+      { storagePath: path.join(tempDir, ".vector_store") },
+      new LexicalEmbeddingProvider()
+    );
+    const fileIndexer = new VectorFileIndexer(vectorRepository);
+    const indexFile = vi.spyOn(fileIndexer, "indexFile");
+    const summaryRepository = {
+      findStalesSummaries: vi.fn().mockResolvedValue([]),
+      upsertSummary: vi.fn(),
+    };
+    await watcher.stop();
+    watcher = new FsMemoryBankWatcher(
+      tempDir,
+      new SyncFileChange(fileRepository, fileIndexer, summaryRepository as any),
+      { debounceMs: 50 },
+      vectorRepository,
+      fileIndexer
+    );
+    await watcher.start();
+    const writeFile = new WriteFile(
+      fileRepository,
+      new FsProjectRepository(tempDir),
+      fileIndexer
+    );
+
+    await writeFile.writeFile({
+      projectName: "project-1",
+      fileName: "notes.md",
+      content: "Written through the tools",
+    });
+    await new Promise((resolve) => setTimeout(resolve, 300));
+
+    expect(indexFile).toHaveBeenCalledTimes(1);
+
+    await fs.writeFile(path.join(tempDir, "project-1", "notes.md"), "Edited outside");
+
+    await vi.waitFor(() => expect(indexFile).toHaveBeenCalledTimes(2), {
+      timeout: 2000,
+    });
+  });
+
+  it("should sync files in project subfolders but not the folders", async () => {
+    await fs.ensureDir(path.join(tempDir, "project-1", "decisions"));
+    await fs.writeFile(path.join(tempDir, "project-1", "decisions", "adr-001.md"), "x");
+    await fs.ensureDir(path.join(tempDir, "project-1", ".history", "notes.md"));
+    await fs.writeFile(path.join(tempDir, "project-1", ".history", "notes.md", "1.json"), "{}");
+
+    await vi.waitFor(
+      () =>
+        expect(syncFileChange.sync).toHaveBeenCalledWith({
+          projectName: "project-1",
+          fileName: "decisions/adr-001.md",
+        }),
+      { timeout: 2000 }
+    );
+    await new Promise((resolve) => setTimeout(resolve, 150));
+
+    expect(syncFileChange.sync).toHaveBeenCalledTimes(1);
+  });
+
+  it("should ignore internal, hidden, temporary and manifest files", async () => {
+    await fs.ensureDir(path.join(tempDir, ".vector_store"));
+    await fs.writeFile(path.join(tempDir, ".vector_store", "files.json"), "{}");
+    await fs.writeFile(path.join(tempDir, "project-1", ".hidden.md"), "x");
+    await fs.writeFile(path.join(tempDir, "project-1", "notes.md~"), "x");
+    await fs.writeFile(path.join(tempDir, "project-1", "project.yaml"), "tags: [a]");
+    await fs.writeFile(path.join(tempDir, "root-file.md"), "x");
+
+    await new Promise((resolve) => setTimeout(resolve, 300));
+
+    expect(syncFileChange.sync).not.toHaveBeenCalled();
+  });
+
+  it("should stop syncing once stopped", async () => {
+    await watcher.stop();
+
+    await fs.writeFile(path.join(tempDir, "project-1", "notes.md"), "content");
+    await new Promise((resolve) => setTimeout(resolve, 300));
+
+    expect(syncFileChange.sync).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,113 @@
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { Bm25KeywordIndex } from "../../../src/infra/keyword/bm25-keyword-index.js";
+import { TextAnalyzer } from "../../../src/infra/keyword/text-analyzer.js";
+
+describe("TextAnalyzer", () => {
+  const analyzer = new TextAnalyzer();
+
+  it("should drop stopwords and stem inflected words", () => {
+    expect(analyzer.analyze("The services are running")).toEqual(["servic", "run"]);
+    expect(analyzer.analyze("caching cached")).toEqual(["cach", "cach"]);
+  });
+
+  it("should keep whole identifiers alongside their parts", () => {
+    const terms = analyzer.analyze("Fails with ERR_CONN_RESET in fetchUserProfile");
+
+    expect(terms).toContain("err_conn_reset");
+    expect(terms).toContain("conn");
+    expect(terms).toContain("fetchuserprofile");
+    expect(terms).toContain("profil");
+  });
+
+  it("should keep ticket ids and codes mixing letters and digits", () => {
+    expect(analyzer.analyze("See JIRA-1234")).toContain("jira-1234");
+    expect(analyzer.analyze("Error E1234")).toContain("e1234");
+  });
+});
+
+describe("Bm25KeywordIndex", () => {
+  let tempDir: string;
+  let filePath: string;
+  let index: Bm25KeywordIndex;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "memory-bank-keyword-"));
+    filePath = path.join(tempDir, "index.json");
+    index = new Bm25KeywordIndex(filePath);
+  });
+
+  afterEach(() => {
+    fs.removeSync(tempDir);
+  });
+
+  it("should rank chunks mentioning rarer terms first", async () => {
+    await index.indexFile("project-1", "a.md", [
+      "Connection handling for the API client",
+      "Retries on ERR_CONN_RESET from the upstream proxy",
+    ]);
+    await index.indexFile("project-1", "b.md", ["Connection pooling settings"]);
+
+    const hits = await index.search("ERR_CONN_RESET connection");
+
+    expect(hits[0]).toMatchObject({
+      projectName: "project-1",
+      fileName: "a.md",
+      chunkIndex: 1,
+    });
+    expect(hits).toHaveLength(3);
+  });
+
+  it("should scope search to a project and honor the limit", async () => {
+    await index.indexFile("project-1", "a.md", ["redis cache"]);
+    await index.indexFile("project-2", "b.md", ["redis cluster"]);
+    await index.indexFile("project-2", "c.md", ["redis sentinel"]);
+
+    const scoped = await index.search("redis", { projectName: "project-2" });
+    const limited = await index.search("redis", { limit: 1 });
+
+    expect(scoped.map((hit) => hit.fileName).sort()).toEqual(["b.md", "c.md"]);
+    expect(limited).toHaveLength(1);
+  });
+
+  it("should replace and remove the chunks of a file", async () => {
+    await index.indexFile("project-1", "a.md", ["old wording", "more old wording"]);
+    await index.indexFile("project-1", "a.md", ["new wording"]);
+
+    expect(await index.search("old")).toEqual([]);
+    expect(await index.search("new")).toHaveLength(1);
+
+    await index.removeFile("project-1", "a.md");
+
+    expect(await index.search("wording")).toEqual([]);
+  });
+
+  it("should persist documents across instances", async () => {
+    await index.indexFile("project-1", "a.md", ["TICKET-42 rollout plan"]);
+
+    const reopened = new Bm25KeywordIndex(filePath);
+    const hits = await reopened.search("ticket-42");
+
+    expect(hits).toHaveLength(1);
+    expect(hits[0].fileName).toBe("a.md");
+  });
+
+  it("should keep the files other instances saved to the same file", async () => {
+    const other = new Bm25KeywordIndex(filePath);
+    await index.load();
+    await other.load();
+
+    await index.indexFile("project-1", "a.md", ["alpha rollout"], "hash-a");
+    await other.indexFile("project-1", "b.md", ["beta rollout"], "hash-b");
+    await index.removeFile("project-1", "a.md");
+
+    const reopened = new Bm25KeywordIndex(filePath);
+
+    expect(await reopened.listIndexedFiles()).toEqual([
+      { projectName: "project-1", fileName: "b.md", contentHash: "hash-b" },
+    ]);
+    expect(fs.readdirSync(tempDir).filter((name) => name.endsWith(".tmp"))).toEqual([]);
+  });
+});
@@ -0,0 +1,99 @@
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { FileLink } from "../../../src/domain/entities/index.js";
+import { JsonLinkGraph } from "../../../src/infra/links/json-link-graph.js";
+
+const link = (
+  projectName: string,
+  fileName: string,
+  targetProject: string,
+  targetFile: string
+): FileLink => ({
+  projectName,
+  fileName,
+  targetProject,
+  targetFile,
+  kind: "wiki",
+  text: `[[${targetProject}/${targetFile}]]`,
+  line: 1,
+});
+
+describe("JsonLinkGraph", () => {
+  let tempDir: string;
+  let filePath: string;
+  let graph: JsonLinkGraph;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "memory-bank-links-"));
+    filePath = path.join(tempDir, "links.json");
+    graph = new JsonLinkGraph(filePath);
+  });
+
+  afterEach(() => {
+    fs.removeSync(tempDir);
+  });
+
+  it("should return the links from and to a file", async () => {
+    const toBrief = link("project-1", "a.md", "project-1", "brief.md");
+    const toOther = link("project-1", "a.md", "project-2", "auth.md");
+    await graph.setLinks("project-1", "a.md", [toBrief, toOther]);
+
+    expect(await graph.linksFrom("project-1", "a.md")).toEqual([toBrief, toOther]);
+    expect(await graph.linksTo("project-1", "brief.md")).toEqual([toBrief]);
+    expect(await graph.linksTo("project-2", "auth.md")).toEqual([toOther]);
+    expect(await graph.linksTo("project-1", "a.md")).toEqual([]);
+  });
+
+  it("should return the links from and to every file of a project", async () => {
+    await graph.setLinks("project-1", "a.md", [link("project-1", "a.md", "project-2", "x.md")]);
+    await graph.setLinks("project-1", "b.md", [link("project-1", "b.md", "project-2", "y.md")]);
+    await graph.setLinks("project-2", "x.md", [link("project-2", "x.md", "project-1", "a.md")]);
+
+    expect(await graph.linksFrom("project-1")).toHaveLength(2);
+    expect((await graph.linksTo("project-2")).map((l) => l.targetFile).sort()).toEqual([
+      "x.md",
+      "y.md",
+    ]);
+    expect(await graph.linksTo("project-1")).toHaveLength(1);
+  });
+
+  it("should replace and remove a file's links", async () => {
+    await graph.setLinks("project-1", "a.md", [link("project-1", "a.md", "project-1", "old.md")]);
+    await graph.setLinks("project-1", "a.md", [link("project-1", "a.md", "project-1", "new.md")]);
+
+    expect(await graph.linksTo("project-1", "old.md")).toEqual([]);
+    expect(await graph.linksTo("project-1", "new.md")).toHaveLength(1);
+
+    await graph.removeFile("project-1", "a.md");
+
+    expect(await graph.linksFrom("project-1", "a.md")).toEqual([]);
+    expect(await graph.linksTo("project-1", "new.md")).toEqual([]);
+  });
+
+  it("should persist the graph across instances", async () => {
+    const toBrief = link("project-1", "a.md", "project-1", "brief.md");
+    await graph.setLinks("project-1", "a.md", [toBrief]);
+
+    const reloaded = new JsonLinkGraph(filePath);
+
+    expect(await reloaded.linksTo("project-1", "brief.md")).toEqual([toBrief]);
+  });
+
+  it("should keep the links other instances saved to the same file", async () => {
+    const other = new JsonLinkGraph(filePath);
+    await graph.load();
+    await other.load();
+
+    const fromA = link("project-1", "a.md", "project-1", "brief.md");
+    const fromB = link("project-1", "b.md", "project-1", "brief.md");
+    await graph.setLinks("project-1", "a.md", [fromA]);
+    await other.setLinks("project-1", "b.md", [fromB]);
+
+    const reloaded = new JsonLinkGraph(filePath);
+
+    expect(await reloaded.linksTo("project-1", "brief.md")).toEqual([fromA, fromB]);
+    expect(await other.linksTo("project-1", "brief.md")).toEqual([fromA, fromB]);
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import { MarkdownChunker } from "../../../src/infra/parsers/markdown-chunker.js";
+
+const paragraph = (word: string, words: number) =>
+  Array.from({ length: words }, () => word).join(" ");
+
+describe("MarkdownChunker", () => {
+  it("should split content on headings and record section paths", () => {
+    const chunker = new MarkdownChunker();
+    const content = [
+      "# Project",
+      "Intro text.",
+      "",
+      "## Setup",
+      "Install things.",
+      "",
+      "### Database",
+      "Run migrations.",
+      "",
+      "## Usage",
+      "Call the API.",
+    ].join("\n");
+
+    const chunks = chunker.chunk(content);
+
+    expect(chunks.map((chunk) => chunk.sectionPath)).toEqual([
+      ["Project"],
+      ["Project", "Setup"],
+      ["Project", "Setup", "Database"],
+      ["Project", "Usage"],
+    ]);
+    expect(chunks[2]).toMatchObject({
+      index: 2,
+      content: "### Database\nRun migrations.",
+      startLine: 7,
+      endLine: 8,
+    });
+  });
+
+  it("should fold headings without a body into the next section", () => {
+    const chunks = new MarkdownChunker().chunk("# Title\n\n## Details\nBody");
+
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].sectionPath).toEqual(["Title", "Details"]);
+    expect(chunks[0].startLine).toBe(1);
+  });
+
+  it("should not treat headings inside code fences as sections", () => {
+    const content = "# Notes\n```bash\n# not a heading\necho hi\n```";
+
+    const chunks = new MarkdownChunker().chunk(content);
+
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].sectionPath).toEqual(["Notes"]);
+  });
+
+  it("should cap chunk size on paragraph boundaries with overlap", () => {
+    const chunker = new MarkdownChunker({ maxTokens: 40, overlapTokens: 10 });
+    const content = [
+      "# Log",
+      paragraph("alpha", 20),
+      "",
+      ...Array.from({ length: 12 }, (_, i) => `entry ${i} done`),
+    ].join("\n");
+
+    const chunks = chunker.chunk(content);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.tokens).toBeLessThanOrEqual(40);
+      expect(chunk.sectionPath).toEqual(["Log"]);
+    }
+    // The closing lines of a chunk are repeated at the start of the next one
+    expect(chunks[2].startLine).toBeLessThanOrEqual(chunks[1].endLine);
+    expect(chunks[chunks.length - 1].content).toContain("entry 11 done");
+  });
+
+  it("should offset line numbers by the front matter length", () => {
+    const [chunk] = new MarkdownChunker().chunk("Body", 4);
+
+    expect(chunk.startLine).toBe(5);
+    expect(chunk.endLine).toBe(5);
+  });
+
+  it("should return no chunks for blank content", () => {
+    expect(new MarkdownChunker().chunk("\n\n  \n")).toEqual([]);
+  });
+});
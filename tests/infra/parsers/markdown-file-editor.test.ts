@@ -0,0 +1,136 @@
+import { describe, expect, it } from "vitest";
+import {
+  FileEditError,
+  FileReadError,
+} from "../../../src/domain/entities/index.js";
+import { MarkdownFileEditor } from "../../../src/infra/parsers/markdown-file-editor.js";
+
+const frontMatter = ["---", "tags:", "  - progress", "---", ""].join("\n");
+
+const body = [
+  "# Progress",
+  "",
+  "## Done",
+  "",
+  "- Setup",
+  "",
+  "## Next",
+  "",
+  "- Caching",
+  "",
+  "```",
+  "## Not a heading",
+  "```",
+  "",
+].join("\n");
+
+describe("MarkdownFileEditor", () => {
+  const editor = new MarkdownFileEditor();
+
+  it("should append and prepend around the front matter", () => {
+    const content = frontMatter + body;
+
+    const appended = editor.applyEdit(content, { operation: "append", content: "- Deploy" });
+    const prepended = editor.applyEdit(content, { operation: "prepend", content: "> Draft" });
+
+    expect(appended).toBe(`${content}- Deploy\n`);
+    expect(prepended).toBe(`${frontMatter}> Draft\n${body}`);
+  });
+
+  it("should replace a section by its heading path", () => {
+    const edited = editor.applyEdit(frontMatter + body, {
+      operation: "replace_section",
+      headingPath: ["Progress", "Done"],
+      content: "- Setup\n- Search\n",
+    });
+
+    expect(edited).toBe(
+      frontMatter + body.replace("## Done\n\n- Setup\n", "## Done\n\n- Setup\n- Search\n")
+    );
+  });
+
+  it("should replace the last section up to the end of the file", () => {
+    const edited = editor.applyEdit("# A\n\nold\n\n## B\n\nold\n", {
+      operation: "replace_section",
+      headingPath: ["B"],
+      content: "new",
+    });
+
+    expect(edited).toBe("# A\n\nold\n\n## B\n\nnew\n");
+  });
+
+  it("should insert after a heading", () => {
+    const edited = editor.applyEdit(body, {
+      operation: "insert_after_heading",
+      headingPath: ["Next"],
+      content: "Ordered by priority:",
+    });
+
+    expect(edited).toContain("## Next\nOrdered by priority:\n\n- Caching");
+  });
+
+  it("should fail clearly when a heading is missing or ambiguous", () => {
+    expect(() =>
+      editor.applyEdit(body, {
+        operation: "insert_after_heading",
+        headingPath: ["Not a heading"],
+        content: "x",
+      })
+    ).toThrow(new FileEditError("Heading not found: Not a heading"));
+
+    expect(() =>
+      editor.applyEdit("## Notes\n\n# Other\n\n## Notes\n", {
+        operation: "replace_section",
+        headingPath: ["Notes"],
+        content: "x",
+      })
+    ).toThrow(/ambiguous/);
+  });
+
+  it("should find the lines of a section, counting the front matter", () => {
+    expect(editor.findSection(frontMatter + body, ["Done"])).toEqual({ start: 7, end: 9 });
+    expect(editor.findSection(frontMatter + body, ["Progress", "Next"])).toEqual({
+      start: 11,
+      end: 17,
+    });
+    expect(editor.findSection(body, ["Done"])).toEqual({ start: 3, end: 5 });
+  });
+
+  it("should fail to find a section with a read error", () => {
+    expect(() => editor.findSection(body, ["Missing"])).toThrow(
+      new FileReadError("Heading not found: Missing")
+    );
+  });
+
+  it("should apply a unified diff", () => {
+    const patch = [
+      "--- a/progress.md",
+      "+++ b/progress.md",
+      "@@ -12,3 +12,4 @@",
+      " ",
+      " - Caching",
+      "+- Metrics",
+      " ",
+    ].join("\n");
+
+    const edited = editor.applyEdit(frontMatter + body, { operation: "apply_patch", patch });
+
+    expect(edited).toBe(frontMatter + body.replace("- Caching\n", "- Caching\n- Metrics\n"));
+  });
+
+  it("should apply a hunk whose line numbers are off", () => {
+    const patch = "@@ -1,1 +1,1 @@\n-- Caching\n+- Caching layer\n";
+
+    const edited = editor.applyEdit(body, { operation: "apply_patch", patch });
+
+    expect(edited).toContain("- Caching layer");
+  });
+
+  it("should reject a patch whose context is not in the file", () => {
+    const patch = "@@ -1,2 +1,2 @@\n # Progress\n-- Missing\n+- Found\n";
+
+    expect(() => editor.applyEdit(body, { operation: "apply_patch", patch })).toThrow(
+      FileEditError
+    );
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, expect, it } from "vitest";
+import { MarkdownLinkParser } from "../../../src/infra/parsers/markdown-link-parser.js";
+
+const content = [
+  "---",
+  "related: [[not-a-link]]",
+  "---",
+  "# Notes",
+  "",
+  "See [[techContext]] and [[other-project:decisions/adr-001#Context|the ADR]].",
+  "Also [the brief](../projectbrief.md#goals) and [site](https://example.com/a.md).",
+  "![diagram](diagram.png) and `[[in-code]]`",
+  "```",
+  "[[in-fence]]",
+  "```",
+].join("\n");
+
+describe("MarkdownLinkParser", () => {
+  const parser = new MarkdownLinkParser();
+
+  it("should find wiki and relative markdown links outside front matter and code", () => {
+    const links = parser.parseLinks("project-1", "notes/today.md", content);
+
+    expect(links).toEqual([
+      {
+        projectName: "project-1",
+        fileName: "notes/today.md",
+        targetProject: "project-1",
+        targetFile: "techContext.md",
+        kind: "wiki",
+        text: "[[techContext]]",
+        line: 6,
+      },
+      {
+        projectName: "project-1",
+        fileName: "notes/today.md",
+        targetProject: "other-project",
+        targetFile: "decisions/adr-001.md",
+        heading: "Context",
+        kind: "wiki",
+        text: "[[other-project:decisions/adr-001#Context|the ADR]]",
+        line: 6,
+      },
+      {
+        projectName: "project-1",
+        fileName: "notes/today.md",
+        targetProject: "project-1",
+        targetFile: "projectbrief.md",
+        heading: "goals",
+        kind: "markdown",
+        text: "[the brief](../projectbrief.md#goals)",
+        line: 7,
+      },
+    ]);
+  });
+
+  it("should read wiki links with folders as files of the same project", () => {
+    const links = parser.parseLinks(
+      "project-1",
+      "index.md",
+      "[[notes/plan]], [[project-2:notes/plan]] and [[notes/10:30 standup]]"
+    );
+
+    expect(links.map(({ targetProject, targetFile }) => ({ targetProject, targetFile }))).toEqual([
+      { targetProject: "project-1", targetFile: "notes/plan.md" },
+      { targetProject: "project-2", targetFile: "notes/plan.md" },
+      { targetProject: "project-1", targetFile: "notes/10:30 standup.md" },
+    ]);
+  });
+
+  it("should resolve markdown links leaving the project to other projects", () => {
+    const [link] = parser.parseLinks(
+      "project-1",
+      "brief.md",
+      "[auth](../project-2/auth%20flow.md)"
+    );
+
+    expect(link).toMatchObject({ targetProject: "project-2", targetFile: "auth flow.md" });
+    expect(parser.parseLinks("project-1", "brief.md", "[up](../../outside.md)")).toEqual([]);
+  });
+
+  it("should re-write links to a renamed target in the style they were written", () => {
+    const rewritten = parser.rewriteLinks(
+      "[[brief]], [[project-1:brief#Goals]] and [brief](./brief.md)",
+      { projectName: "project-1", fileName: "index.md" },
+      { projectName: "project-1", fileName: "index.md" },
+      (target) =>
+        target.fileName === "brief.md"
+          ? { projectName: "project-1", fileName: "docs/project brief.md" }
+          : null
+    );
+
+    expect(rewritten).toBe(
+      "[[docs/project brief]], [[project-1:docs/project brief#Goals]] and [brief](./docs/project%20brief.md)"
+    );
+  });
+
+  it("should keep relative links of a moved file pointing to their targets", () => {
+    const rewritten = parser.rewriteLinks(
+      "[[techContext]] and [brief](../brief.md)",
+      { projectName: "project-1", fileName: "notes/today.md" },
+      { projectName: "project-1", fileName: "today.md" }
+    );
+
+    expect(rewritten).toBe("[[techContext]] and [brief](brief.md)");
+  });
+
+  it("should qualify wiki links that now cross projects", () => {
+    const rewritten = parser.rewriteLinks(
+      "[[techContext]] and [[project-2:brief]]",
+      { projectName: "project-1", fileName: "index.md" },
+      { projectName: "project-2", fileName: "index.md" },
+      (target) =>
+        target.projectName === "project-1"
+          ? { projectName: "project-3", fileName: target.fileName }
+          : null
+    );
+
+    expect(rewritten).toBe("[[project-3:techContext]] and [[project-2:brief]]");
+  });
+
+  it("should leave content without affected links untouched", () => {
+    const location = { projectName: "project-1", fileName: "notes/today.md" };
+
+    expect(parser.rewriteLinks(content, location, location, () => null)).toBe(content);
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { MarkdownFileEditor } from "../../../src/infra/parsers/markdown-file-editor.js";
+import { UnifiedDiffGenerator } from "../../../src/infra/parsers/unified-diff-generator.js";
+
+const numbered = (count: number) =>
+  Array.from({ length: count }, (_, i) => `line ${i + 1}`);
+
+describe("UnifiedDiffGenerator", () => {
+  const generator = new UnifiedDiffGenerator();
+
+  it("should return an empty diff for identical content", () => {
+    expect(generator.unifiedDiff("same\n", "same\n", "a", "b")).toBe("");
+  });
+
+  it("should print each change with three lines of context", () => {
+    const oldLines = numbered(20);
+    const newLines = [...oldLines];
+    newLines[4] = "line five";
+    newLines.splice(16, 1);
+
+    const diff = generator.unifiedDiff(
+      `${oldLines.join("\n")}\n`,
+      `${newLines.join("\n")}\n`,
+      "notes.md@v1",
+      "notes.md@current"
+    );
+
+    expect(diff).toBe(
+      [
+        "--- notes.md@v1",
+        "+++ notes.md@current",
+        "@@ -2,7 +2,7 @@",
+        " line 2",
+        " line 3",
+        " line 4",
+        "-line 5",
+        "+line five",
+        " line 6",
+        " line 7",
+        " line 8",
+        "@@ -14,7 +14,6 @@",
+        " line 14",
+        " line 15",
+        " line 16",
+        "-line 17",
+        " line 18",
+        " line 19",
+        " line 20",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("should mark a last line without a newline", () => {
+    const diff = generator.unifiedDiff("a\nb\n", "a\nb", "old", "new");
+
+    expect(diff).toContain(["-b", "+b", "\\ No newline at end of file"].join("\n"));
+  });
+
+  it("should produce patches the apply_patch edit accepts", () => {
+    const oldContent = "# Patterns\n\n- Repository\n- Factory\n";
+    const newContent = "# Patterns\n\n- Repository\n- Adapter\n- Factory\n";
+
+    const patch = generator.unifiedDiff(oldContent, newContent, "old", "new");
+    const patched = new MarkdownFileEditor().applyEdit(oldContent, {
+      operation: "apply_patch",
+      patch,
+    });
+
+    expect(patched).toBe(newContent);
+  });
+});
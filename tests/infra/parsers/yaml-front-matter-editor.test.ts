@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { YamlFrontMatterEditor } from "../../../src/infra/parsers/yaml-front-matter-editor.js";
+import { YamlFrontMatterParser } from "../../../src/infra/parsers/yaml-front-matter-parser.js";
+
+const existing = [
+  "---",
+  "tags:",
+  "  - auth",
+  "created: 2024-01-02T00:00:00.000Z",
+  "status: draft",
+  "---",
+  "# Login flow",
+  "",
+].join("\n");
+
+describe("YamlFrontMatterEditor", () => {
+  const editor = new YamlFrontMatterEditor();
+
+  it("should add front matter to content without any", () => {
+    const edited = editor.setMetadata("# Notes\n", { tags: ["notes"], salience: 0.7 });
+    const { frontMatter, content } = YamlFrontMatterParser.parse(edited);
+
+    expect(content.trim()).toBe("# Notes");
+    expect(frontMatter).toMatchObject({ tags: ["notes"], salience: 0.7 });
+    expect(frontMatter?.created.getTime()).toBe(frontMatter?.updated.getTime());
+  });
+
+  it("should keep fields that are not set and the body", () => {
+    const edited = editor.setMetadata(existing, { salience: 0.9, extra: { owner: "sam" } });
+    const { frontMatter, content } = YamlFrontMatterParser.parse(edited);
+
+    expect(content.trim()).toBe("# Login flow");
+    expect(frontMatter).toMatchObject({
+      tags: ["auth"],
+      salience: 0.9,
+      extra: { status: "draft", owner: "sam" },
+    });
+    expect(frontMatter?.created.toISOString()).toBe("2024-01-02T00:00:00.000Z");
+    expect(frontMatter?.updated.getTime()).toBeGreaterThan(frontMatter!.created.getTime());
+  });
+
+  it("should keep the creation date of the version being replaced", () => {
+    const edited = editor.setMetadata("# Rewritten\n", { task: "auth" }, existing);
+    const { frontMatter } = YamlFrontMatterParser.parse(edited);
+
+    expect(frontMatter?.created.toISOString()).toBe("2024-01-02T00:00:00.000Z");
+    expect(frontMatter?.task).toBe("auth");
+  });
+});
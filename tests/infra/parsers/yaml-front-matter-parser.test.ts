@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { YamlFrontMatterParser } from "../../../src/infra/parsers/yaml-front-matter-parser.js";
+
+const content = [
+  "---",
+  "tags:",
+  "  - decision",
+  "status: accepted",
+  "owner:",
+  "  team: platform",
+  "---",
+  "# ADR 1",
+  "",
+].join("\n");
+
+describe("YamlFrontMatterParser", () => {
+  it("should keep unknown fields as extra metadata", () => {
+    const { frontMatter } = YamlFrontMatterParser.parse(content);
+
+    expect(frontMatter?.tags).toEqual(["decision"]);
+    expect(frontMatter?.extra).toEqual({
+      status: "accepted",
+      owner: { team: "platform" },
+    });
+  });
+
+  it("should write extra fields back when serializing", () => {
+    const parsed = YamlFrontMatterParser.parse(content);
+    const reparsed = YamlFrontMatterParser.parse(
+      YamlFrontMatterParser.serialize(parsed)
+    );
+
+    expect(reparsed.frontMatter?.extra).toEqual(parsed.frontMatter?.extra);
+    expect(reparsed.content).toBe(parsed.content);
+  });
+
+  it("should keep extra fields when updating metadata", () => {
+    const updated = YamlFrontMatterParser.updateMetadata(content, {
+      salience: 0.9,
+      extra: { reviewer: "sam" },
+    });
+
+    expect(YamlFrontMatterParser.parseFields(updated)).toMatchObject({
+      status: "accepted",
+      owner: { team: "platform" },
+      reviewer: "sam",
+      salience: 0.9,
+    });
+  });
+});
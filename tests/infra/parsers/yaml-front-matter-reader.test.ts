@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { YamlFrontMatterReader } from "../../../src/infra/parsers/yaml-front-matter-reader.js";
+
+describe("YamlFrontMatterReader", () => {
+  const reader = new YamlFrontMatterReader();
+
+  it("should return only the fields the front matter sets", () => {
+    const metadata = reader.readMetadata(
+      ["---", "tags: [api]", "salience: 0.5", "---", "# Notes"].join("\n")
+    );
+
+    expect(metadata).toEqual({ tags: ["api"], salience: 0.5 });
+  });
+
+  it("should drop dates it can't parse", () => {
+    const metadata = reader.readMetadata(
+      ["---", "created: someday", "updated: 2024-03-01", "---", ""].join("\n")
+    );
+
+    expect(metadata.created).toBeUndefined();
+    expect(metadata.updated).toEqual(new Date("2024-03-01T00:00:00.000Z"));
+  });
+
+  it("should return nothing for files without front matter", () => {
+    expect(reader.readMetadata("# Notes")).toEqual({});
+  });
+});
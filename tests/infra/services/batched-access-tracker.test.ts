@@ -0,0 +1,74 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { VectorRepository } from "../../../src/data/protocols/vector-repository.js";
+import { BatchedAccessTracker } from "../../../src/infra/services/batched-access-tracker.js";
+
+const access = (fileName: string, accessedAt: string) => ({
+  projectName: "project-1",
+  fileName,
+  source: "read" as const,
+  accessedAt: new Date(accessedAt),
+});
+
+describe("BatchedAccessTracker", () => {
+  let updateFileAccess: ReturnType<typeof vi.fn>;
+  let vectorRepository: VectorRepository;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    updateFileAccess = vi.fn().mockResolvedValue(undefined);
+    vectorRepository = { updateFileAccess } as unknown as VectorRepository;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should write one update per file after the flush interval", async () => {
+    const sut = new BatchedAccessTracker(vectorRepository, { flushIntervalMs: 1000 });
+
+    sut.recordAccess(access("a.md", "2024-05-01T10:00:00Z"));
+    sut.recordAccess(access("a.md", "2024-05-01T12:00:00Z"));
+    sut.recordAccess(access("b.md", "2024-05-01T11:00:00Z"));
+    expect(updateFileAccess).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(updateFileAccess).toHaveBeenCalledTimes(2);
+    expect(updateFileAccess).toHaveBeenCalledWith(
+      "project-1",
+      "a.md",
+      2,
+      new Date("2024-05-01T12:00:00Z")
+    );
+    expect(updateFileAccess).toHaveBeenCalledWith(
+      "project-1",
+      "b.md",
+      1,
+      new Date("2024-05-01T11:00:00Z")
+    );
+  });
+
+  it("should flush early once enough files are queued", async () => {
+    const sut = new BatchedAccessTracker(vectorRepository, { maxPendingFiles: 2 });
+
+    sut.recordAccess(access("a.md", "2024-05-01T10:00:00Z"));
+    sut.recordAccess(access("b.md", "2024-05-01T10:00:00Z"));
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(updateFileAccess).toHaveBeenCalledTimes(2);
+  });
+
+  it("should write queued accesses when stopped and survive index errors", async () => {
+    updateFileAccess.mockRejectedValueOnce(new Error("index unavailable"));
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const sut = new BatchedAccessTracker(vectorRepository);
+
+    sut.recordAccess(access("a.md", "2024-05-01T10:00:00Z"));
+    sut.recordAccess(access("b.md", "2024-05-01T10:00:00Z"));
+    await sut.stop();
+
+    expect(updateFileAccess).toHaveBeenCalledTimes(2);
+    expect(warn).toHaveBeenCalledTimes(1);
+    warn.mockRestore();
+  });
+});
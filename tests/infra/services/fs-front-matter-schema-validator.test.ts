@@ -0,0 +1,93 @@
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { FrontMatterValidationError } from "../../../src/domain/entities/index.js";
+import { FRONT_MATTER_SCHEMA_FILE } from "../../../src/infra/filesystem/constants.js";
+import { FsFrontMatterSchemaValidator } from "../../../src/infra/services/fs-front-matter-schema-validator.js";
+
+const withFrontMatter = (...lines: string[]) =>
+  ["---", ...lines, "---", "# Notes", ""].join("\n");
+
+describe("FsFrontMatterSchemaValidator", () => {
+  let tempDir: string;
+  let sut: FsFrontMatterSchemaValidator;
+
+  const writeSchema = (schema: unknown) =>
+    fs.outputJson(path.join(tempDir, "project-1", FRONT_MATTER_SCHEMA_FILE), schema);
+
+  const issuesOf = async (content: string): Promise<string[]> => {
+    try {
+      await sut.validate("project-1", "adr.md", content);
+      return [];
+    } catch (error) {
+      expect(error).toBeInstanceOf(FrontMatterValidationError);
+      return (error as FrontMatterValidationError).issues;
+    }
+  };
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "memory-bank-schema-"));
+    sut = new FsFrontMatterSchemaValidator(tempDir);
+  });
+
+  afterEach(() => {
+    fs.removeSync(tempDir);
+  });
+
+  it("should accept any front matter when the project has no schema", async () => {
+    await expect(
+      sut.validate("project-1", "adr.md", withFrontMatter("anything: goes"))
+    ).resolves.toBeUndefined();
+  });
+
+  it("should report missing required fields and enum violations", async () => {
+    await writeSchema({
+      fields: {
+        status: { type: "string", required: true, enum: ["draft", "accepted"] },
+        owner: { required: true },
+      },
+    });
+
+    expect(await issuesOf(withFrontMatter("status: rejected"))).toEqual([
+      "status must be one of draft, accepted (got rejected)",
+      "owner is required",
+    ]);
+    expect(await issuesOf(withFrontMatter("status: draft", "owner: sam"))).toEqual([]);
+  });
+
+  it("should check field types", async () => {
+    await writeSchema({
+      fields: {
+        priority: { type: "number" },
+        decided: { type: "date" },
+        areas: { type: "list", enum: ["api", "ui"] },
+      },
+    });
+
+    expect(
+      await issuesOf(
+        withFrontMatter("priority: high", "decided: 2024-05-01", "areas:", "  - api", "  - db")
+      )
+    ).toEqual([
+      "priority must be a number",
+      "areas must be one of api, ui (got db)",
+    ]);
+  });
+
+  it("should reject unknown fields only when the schema says so", async () => {
+    await writeSchema({ fields: { status: {} }, allowUnknownFields: false });
+
+    expect(
+      await issuesOf(withFrontMatter("status: draft", "tags:", "  - adr", "team: core"))
+    ).toEqual(["team is not a field of this project"]);
+  });
+
+  it("should report malformed YAML", async () => {
+    await writeSchema({ fields: {} });
+
+    const [issue] = await issuesOf(withFrontMatter("status: [draft"));
+
+    expect(issue).toMatch(/YAML is malformed/);
+  });
+});
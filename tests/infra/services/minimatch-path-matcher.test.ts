@@ -0,0 +1,20 @@
+import { describe, expect, it } from "vitest";
+import { MinimatchPathMatcher } from "../../../src/infra/services/minimatch-path-matcher.js";
+
+describe("MinimatchPathMatcher", () => {
+  const matcher = new MinimatchPathMatcher();
+
+  it("should match patterns with a folder against the whole path", () => {
+    expect(matcher.matches("decisions/adr-001.md", ["decisions/**"])).toBe(true);
+    expect(matcher.matches("notes/decisions/adr-001.md", ["decisions/**"])).toBe(false);
+  });
+
+  it("should match patterns without a folder against the name at any depth", () => {
+    expect(matcher.matches("notes/today.md", ["*.md"])).toBe(true);
+    expect(matcher.matches("notes/today.txt", ["*.md"])).toBe(false);
+  });
+
+  it("should match if any pattern matches", () => {
+    expect(matcher.matches("todo.txt", ["*.md", "todo.*"])).toBe(true);
+  });
+});
@@ -0,0 +1,355 @@
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { EnhancedFile } from "../../../src/domain/entities/index.js";
+import { LexicalEmbeddingProvider } from "../../../src/infra/embeddings/lexical-embedding-provider.js";
+import { Bm25KeywordIndex } from "../../../src/infra/keyword/bm25-keyword-index.js";
+import { MarkdownChunker } from "../../../src/infra/parsers/markdown-chunker.js";
+import { chunkPointId } from "../../../src/infra/vector/file-chunk-points.js";
+import { LocalCollection } from "../../../src/infra/vector/local-collection.js";
+import { LocalVectorRepository } from "../../../src/infra/vector/local-vector-repository.js";
+
+const makeFile = (
+  projectName: string,
+  name: string,
+  content: string,
+  tags: string[] = [],
+  updated = new Date(),
+): EnhancedFile => ({
+  name,
+  projectName,
+  content,
+  contentHash: `hash-${name}`,
+  metadata: {
+    tags,
+    created: updated,
+    updated,
+  },
+});
+
+describe("LocalVectorRepository", () => {
+  let tempDir: string;
+  let repository: LocalVectorRepository;
+  const embeddingProvider = new LexicalEmbeddingProvider();
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "memory-bank-vector-"));
+    repository = new LocalVectorRepository({ storagePath: tempDir }, embeddingProvider);
+  });
+
+  afterEach(() => {
+    fs.removeSync(tempDir);
+  });
+
+  it("should persist upserted files across instances", async () => {
+    await repository.upsertFile(makeFile("project-1", "a.md", "alpha"));
+
+    const reopened = new LocalVectorRepository({ storagePath: tempDir }, embeddingProvider);
+    const stats = await reopened.getProjectStats("project-1");
+
+    expect(stats.totalFiles).toBe(1);
+  });
+
+  it("should filter search results by project and tags", async () => {
+    await repository.upsertFile(makeFile("project-1", "a.md", "alpha", ["api"]));
+    await repository.upsertFile(makeFile("project-1", "b.md", "beta", ["db"]));
+    await repository.upsertFile(makeFile("project-2", "c.md", "gamma", ["api"]));
+
+    const results = await repository.search({
+      query: "alpha",
+      projectName: "project-1",
+      tags: ["api"],
+    });
+
+    expect(results).toHaveLength(1);
+    expect(results[0].file.name).toBe("a.md");
+  });
+
+  it("should remove deleted files from the index", async () => {
+    await repository.upsertFile(makeFile("project-1", "a.md", "alpha"));
+    await repository.deleteFile("project-1", "a.md");
+
+    const results = await repository.search({ query: "alpha" });
+
+    expect(results).toHaveLength(0);
+  });
+
+  it("should track access frequency", async () => {
+    await repository.upsertFile(makeFile("project-1", "a.md", "alpha"));
+    await repository.updateFileAccess("project-1", "a.md");
+    await repository.updateFileAccess("project-1", "a.md");
+
+    const [result] = await repository.search({ query: "alpha" });
+
+    expect(result.file.metadata.frequency).toBe(2);
+    expect(result.file.metadata.lastAccessed).toBeInstanceOf(Date);
+  });
+
+  it("should quietly skip accesses to files removed since they were queued", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    await repository.upsertFile(makeFile("project-1", "a.md", "alpha"));
+    await repository.deleteFile("project-1", "a.md");
+
+    await repository.updateFileAccess("project-1", "a.md", 2);
+
+    expect(await repository.listFileAccessStats("project-1")).toEqual([]);
+    expect(warn).not.toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  it("should add batched accesses and keep them when a file is re-indexed", async () => {
+    await repository.upsertFile(makeFile("project-1", "a.md", "alpha"));
+    await repository.upsertFile(makeFile("project-1", "b.md", "beta"));
+    await repository.updateFileAccess(
+      "project-1",
+      "a.md",
+      3,
+      new Date("2024-05-01T00:00:00.000Z")
+    );
+    await repository.upsertFile(makeFile("project-1", "a.md", "alpha, edited"));
+
+    const stats = await repository.listFileAccessStats("project-1");
+
+    expect(stats).toHaveLength(2);
+    expect(stats.find((file) => file.fileName === "a.md")).toEqual({
+      projectName: "project-1",
+      fileName: "a.md",
+      frequency: 3,
+      lastAccessed: new Date("2024-05-01T00:00:00.000Z"),
+    });
+    expect(stats.find((file) => file.fileName === "b.md")?.frequency).toBe(0);
+  });
+
+  it("should rank semantically related files first", async () => {
+    await repository.upsertFile(
+      makeFile("project-1", "auth.md", "JWT authentication tokens and password hashing"),
+    );
+    await repository.upsertFile(
+      makeFile("project-1", "db.md", "Postgres schema migrations and indexes"),
+    );
+
+    const [best] = await repository.search({ query: "password authentication" });
+
+    expect(best.file.name).toBe("auth.md");
+    expect(best.scores.semantic).toBeGreaterThan(0);
+  });
+
+  it("should keep the document frequencies of the collection up to date", async () => {
+    const [shared] = embeddingProvider.documentTerms("alpha");
+    const [removed] = embeddingProvider.documentTerms("gamma");
+    const frequencies = async () => {
+      const collection = new LocalCollection<Record<string, any>>(
+        path.join(tempDir, "memory_bank_files.json"),
+      );
+      const info = await collection.getInfo<Record<string, any>>();
+      return info?.documentFrequencies;
+    };
+
+    await repository.upsertFile(makeFile("project-1", "a.md", "alpha beta"));
+    await repository.upsertFile(makeFile("project-1", "b.md", "alpha gamma"));
+    expect(await frequencies()).toMatchObject({
+      documentCount: 2,
+      terms: { [shared]: 2, [removed]: 1 },
+    });
+
+    await repository.upsertFile(makeFile("project-1", "a.md", "alpha delta"));
+    await repository.deleteFile("project-1", "b.md");
+    const after = await frequencies();
+
+    expect(after).toMatchObject({ documentCount: 1, terms: { [shared]: 1 } });
+    expect(after.terms[removed]).toBeUndefined();
+  });
+
+  it("should rank a file by its rare terms over terms every file shares", async () => {
+    for (let i = 0; i < 6; i++) {
+      await repository.upsertFile(
+        makeFile("project-1", `release-${i}.md`, `release pipeline deploy checklist ${i}`),
+      );
+    }
+    await repository.upsertFile(
+      makeFile("project-1", "kafka.md", "kafka consumer lag alerts"),
+    );
+
+    const [best] = await repository.search({ query: "release pipeline kafka" });
+
+    expect(best.file.name).toBe("kafka.md");
+  });
+
+  it("should index chunks and group search results per file", async () => {
+    const content = [
+      "# Architecture",
+      "Services talk over HTTP.",
+      "",
+      "## Database",
+      "Postgres schema migrations run on deploy.",
+      "",
+      "## Auth",
+      "JWT tokens are refreshed hourly.",
+    ].join("\n");
+    await repository.upsertFile({
+      ...makeFile("project-1", "system.md", content),
+      chunks: new MarkdownChunker().chunk(content),
+    });
+
+    const results = await repository.search({ query: "postgres migrations" });
+
+    expect(results).toHaveLength(1);
+    const [result] = results;
+    expect(result.file.content).toBe(content);
+    expect(result.chunks![0]).toMatchObject({
+      sectionPath: ["Architecture", "Database"],
+      startLine: 4,
+      endLine: 5,
+    });
+    expect(result.snippet).toBe(result.chunks![0].content);
+  });
+
+  it("should drop the chunks of a previous version of a file", async () => {
+    const content = "# A\nalpha\n\n# B\nbeta\n\n# C\ngamma";
+    await repository.upsertFile({
+      ...makeFile("project-1", "a.md", content),
+      chunks: new MarkdownChunker().chunk(content),
+    });
+    await repository.upsertFile(makeFile("project-1", "a.md", "alpha"));
+
+    const stats = await repository.getProjectStats("project-1");
+    const indexed = await repository.listIndexedFiles("project-1");
+
+    expect(stats.totalFiles).toBe(1);
+    expect(stats.totalEmbeddings).toBe(1);
+    expect(indexed).toHaveLength(1);
+  });
+
+  it("should fuse keyword matches into the ranking", async () => {
+    const hybrid = new LocalVectorRepository(
+      { storagePath: tempDir },
+      embeddingProvider,
+      new Bm25KeywordIndex(path.join(tempDir, "keywords.json")),
+    );
+    for (let i = 0; i < 6; i++) {
+      await hybrid.upsertFile(
+        makeFile("project-1", `notes-${i}.md`, `connection reset error handling notes ${i}`),
+      );
+    }
+    await hybrid.upsertFile(
+      makeFile("project-1", "incident.md", "Upstream proxy answered with ERR_CONN_RESET"),
+    );
+
+    const results = await hybrid.search({
+      query: "connection reset ERR_CONN_RESET",
+      projectName: "project-1",
+      limit: 1,
+    });
+
+    expect(results[0].file.name).toBe("incident.md");
+    expect(results[0].scores.keyword).toBe(1);
+
+    await hybrid.deleteFile("project-1", "incident.md");
+    const [afterDelete] = await hybrid.search({ query: "ERR_CONN_RESET", limit: 1 });
+
+    expect(afterDelete.file.name).not.toBe("incident.md");
+  });
+
+  it("should re-key points written with readable ids", async () => {
+    const legacy = new LocalCollection<Record<string, any>>(
+      path.join(tempDir, "memory_bank_files.json"),
+    );
+    await legacy.setInfo({ model: embeddingProvider.model, dimension: embeddingProvider.dimension });
+    await legacy.upsert([
+      {
+        id: "project-1:a.md",
+        vector: Array.from(await embeddingProvider.embed("alpha")),
+        payload: { projectName: "project-1", fileName: "a.md", content: "alpha" },
+      },
+    ]);
+
+    await repository.initialize();
+    const reopened = new LocalCollection<Record<string, any>>(
+      path.join(tempDir, "memory_bank_files.json"),
+    );
+    const points = await reopened.scroll();
+
+    expect(points.map((point) => point.id)).toEqual([chunkPointId("project-1", "a.md", 0)]);
+    expect(await reopened.getInfo()).toMatchObject({ schemaVersion: 2 });
+  });
+
+  it("should refuse a collection built with a different dimension", async () => {
+    await repository.upsertFile(makeFile("project-1", "a.md", "alpha"));
+
+    const mismatched = new LocalVectorRepository(
+      { storagePath: tempDir },
+      new LexicalEmbeddingProvider({ dimension: 128 }),
+    );
+
+    await expect(mismatched.initialize()).rejects.toThrow(/128/);
+  });
+});
+
+describe("LocalCollection", () => {
+  let tempDir: string;
+  let collection: LocalCollection<{ updated: string; tags: string[] }>;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "memory-bank-vector-"));
+    collection = new LocalCollection(path.join(tempDir, "points.json"));
+  });
+
+  afterEach(() => {
+    fs.removeSync(tempDir);
+  });
+
+  it("should rank points by cosine similarity", async () => {
+    await collection.upsert([
+      { id: "x", vector: [1, 0], payload: { updated: "", tags: [] } },
+      { id: "y", vector: [0, 1], payload: { updated: "", tags: [] } },
+    ]);
+
+    const results = await collection.search([0.9, 0.1]);
+
+    expect(results.map((point) => point.id)).toEqual(["x", "y"]);
+    expect(results[0].score).toBeGreaterThan(results[1].score);
+  });
+
+  it("should support datetime range and must_not filters", async () => {
+    await collection.upsert([
+      {
+        id: "old",
+        vector: [1],
+        payload: { updated: "2020-01-01T00:00:00.000Z", tags: ["a"] },
+      },
+      {
+        id: "new",
+        vector: [1],
+        payload: { updated: "2024-01-01T00:00:00.000Z", tags: ["b"] },
+      },
+    ]);
+
+    const recent = await collection.scroll({
+      must: [{ key: "updated", range: { gte: "2023-01-01T00:00:00.000Z" } }],
+    });
+    const withoutB = await collection.scroll({
+      must_not: [{ key: "tags", match: { any: ["b"] } }],
+    });
+
+    expect(recent.map((point) => point.id)).toEqual(["new"]);
+    expect(withoutB.map((point) => point.id)).toEqual(["old"]);
+  });
+
+  it("should keep the points other instances saved to the same file", async () => {
+    const filePath = path.join(tempDir, "points.json");
+    const other = new LocalCollection<{ updated: string; tags: string[] }>(filePath);
+    await collection.load();
+    await other.load();
+
+    await collection.upsert([{ id: "x", vector: [1], payload: { updated: "", tags: [] } }]);
+    await other.upsert([{ id: "y", vector: [1], payload: { updated: "", tags: [] } }]);
+    await other.setInfo({ model: "lexical" });
+    await collection.delete(["x"]);
+
+    const reopened = new LocalCollection(filePath);
+
+    expect((await reopened.scroll()).map((point) => point.id)).toEqual(["y"]);
+    expect(await reopened.getInfo()).toEqual({ model: "lexical" });
+  });
+});
@@ -0,0 +1,208 @@
+import { QdrantClient } from "@qdrant/js-client-rest";
+import { describe, expect, it } from "vitest";
+import { LexicalEmbeddingProvider } from "../../../src/infra/embeddings/lexical-embedding-provider.js";
+import { chunkPointId } from "../../../src/infra/vector/file-chunk-points.js";
+import { uuidV5 } from "../../../src/infra/vector/point-ids.js";
+import { QdrantCollectionRegistry } from "../../../src/infra/vector/qdrant-collection-registry.js";
+import {
+  FILES_COLLECTION_SCHEMA,
+  SUMMARIES_COLLECTION_SCHEMA,
+  summaryPointId,
+} from "../../../src/infra/vector/qdrant-collection-schemas.js";
+import {
+  MigrationProgress,
+  QdrantSchemaMigrator,
+} from "../../../src/infra/vector/qdrant-schema-migrator.js";
+
+interface FakePoint {
+  id: string;
+  vector: number[];
+  payload: Record<string, any>;
+}
+
+// Just enough of the Qdrant REST client for the migrator and the registry
+class FakeQdrantClient {
+  collections = new Map<string, { size: number; points: Map<string, FakePoint> }>();
+  payloadIndexes: string[] = [];
+
+  async getCollections() {
+    return {
+      collections: Array.from(this.collections.keys()).map((name) => ({ name })),
+    };
+  }
+
+  async collectionExists(name: string) {
+    return { exists: this.collections.has(name) };
+  }
+
+  async getCollection(name: string) {
+    return { config: { params: { vectors: { size: this.collections.get(name)!.size } } } };
+  }
+
+  async createCollection(name: string, options: { vectors: { size: number } }) {
+    this.collections.set(name, { size: options.vectors.size, points: new Map() });
+    return true;
+  }
+
+  async deleteCollection(name: string) {
+    return this.collections.delete(name);
+  }
+
+  async createPayloadIndex(name: string, index: { field_name: string }) {
+    this.payloadIndexes.push(`${name}.${index.field_name}`);
+  }
+
+  async upsert(name: string, { points }: { points: FakePoint[] }) {
+    const collection = this.collections.get(name)!;
+    for (const point of points) {
+      if (point.vector.length !== collection.size) throw new Error("Wrong vector size");
+      collection.points.set(String(point.id), { ...point, id: String(point.id) });
+    }
+  }
+
+  async delete(name: string, { points }: { points: string[] }) {
+    for (const id of points) this.collections.get(name)!.points.delete(String(id));
+  }
+
+  async retrieve(name: string, { ids }: { ids: string[] }) {
+    return ids
+      .map((id) => this.collections.get(name)?.points.get(id))
+      .filter((point): point is FakePoint => point !== undefined);
+  }
+
+  async count(name: string) {
+    return { count: this.collections.get(name)!.points.size };
+  }
+
+  async scroll(name: string, { limit, offset }: { limit: number; offset?: string }) {
+    const points = Array.from(this.collections.get(name)!.points.values()).sort((a, b) =>
+      a.id.localeCompare(b.id)
+    );
+    const start = offset ? points.findIndex((point) => point.id >= offset) : 0;
+    const page = points.slice(start, start + limit);
+    return { points: page, next_page_offset: points[start + limit]?.id ?? null };
+  }
+}
+
+const filePayload = (fileName: string, chunkIndex?: number) => ({
+  projectName: "project-1",
+  fileName,
+  content: `content of ${fileName}`,
+  ...(chunkIndex !== undefined && { chunkIndex }),
+});
+
+describe("uuidV5", () => {
+  it("should match the RFC 4122 reference output", () => {
+    const dnsNamespace = "6ba7b810-9dad-11d1-80b4-00c04fd430c8";
+
+    expect(uuidV5("www.example.com", dnsNamespace)).toBe(
+      "2ed6657d-e927-568b-95e1-2665a8aea6a2"
+    );
+  });
+
+  it("should derive the same chunk id for the same key", () => {
+    const id = chunkPointId("project-1", "a.md", 0);
+
+    expect(id).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-5[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+    expect(chunkPointId("project-1", "a.md", 0)).toBe(id);
+    expect(chunkPointId("project-1", "a.md", 1)).not.toBe(id);
+  });
+});
+
+describe("QdrantSchemaMigrator", () => {
+  const provider = new LexicalEmbeddingProvider({ dimension: 8 });
+
+  const setup = () => {
+    const fake = new FakeQdrantClient();
+    const client = fake as unknown as QdrantClient;
+    const progress: MigrationProgress[] = [];
+    const migrator = new QdrantSchemaMigrator(client, (event) => progress.push(event));
+    return { fake, client, progress, migrator };
+  };
+
+  // A version 1 collection: readable ids and no schema version recorded
+  const seedLegacyFiles = async (fake: FakeQdrantClient, client: QdrantClient) => {
+    await fake.createCollection("memory_bank_files", { vectors: { size: 8 } });
+    await fake.upsert("memory_bank_files", {
+      points: [
+        { id: "project-1:a.md", vector: new Array(8).fill(1), payload: filePayload("a.md") },
+        { id: "project-1:b.md#1", vector: new Array(8).fill(1), payload: filePayload("b.md", 1) },
+      ],
+    });
+    await new QdrantCollectionRegistry(client).register(
+      "memory_bank_files",
+      provider,
+      ["memory_bank_files"],
+      1
+    );
+  };
+
+  it("should create missing collections at the current schema version", async () => {
+    const { fake, client, migrator } = setup();
+
+    const report = await migrator.migrate(FILES_COLLECTION_SCHEMA, provider);
+    const record = await new QdrantCollectionRegistry(client).get("memory_bank_files");
+
+    expect(report).toMatchObject({ created: true, toVersion: 3, applied: [] });
+    expect(record).toMatchObject({ model: provider.model, dimension: 8, schemaVersion: 3 });
+    expect(fake.payloadIndexes).toContain("memory_bank_files.chunkIndex");
+  });
+
+  it("should re-key legacy points and record the new version", async () => {
+    const { fake, client, progress, migrator } = setup();
+    await seedLegacyFiles(fake, client);
+
+    const report = await migrator.migrate(FILES_COLLECTION_SCHEMA, provider);
+    const ids = Array.from(fake.collections.get("memory_bank_files")!.points.keys());
+
+    expect(report).toMatchObject({ fromVersion: 1, toVersion: 3 });
+    expect(report.applied).toHaveLength(2);
+    expect(ids.sort()).toEqual(
+      [chunkPointId("project-1", "a.md", 0), chunkPointId("project-1", "b.md", 1)].sort()
+    );
+    expect(progress.at(-1)).toMatchObject({ processed: 2, total: 2 });
+
+    const again = await migrator.migrate(FILES_COLLECTION_SCHEMA, provider);
+    expect(again.applied).toEqual([]);
+  });
+
+  it("should keep the domain id of re-keyed summaries in their payload", async () => {
+    const { fake, client, migrator } = setup();
+    await fake.createCollection("memory_bank_summaries", { vectors: { size: 8 } });
+    await fake.upsert("memory_bank_summaries", {
+      points: [{ id: "project-1:node:a.md:1700000000000", vector: new Array(8).fill(1), payload: { content: "a" } }],
+    });
+    await new QdrantCollectionRegistry(client).register(
+      "memory_bank_summaries",
+      provider,
+      ["memory_bank_summaries"],
+      1
+    );
+
+    await migrator.migrate(SUMMARIES_COLLECTION_SCHEMA, provider);
+    const [point] = await fake.retrieve("memory_bank_summaries", {
+      ids: [summaryPointId("project-1:node:a.md:1700000000000")],
+    });
+
+    expect(point.payload.summaryId).toBe("project-1:node:a.md:1700000000000");
+  });
+
+  it("should refuse a different dimension unless re-embedding", async () => {
+    const { fake, client, migrator } = setup();
+    await seedLegacyFiles(fake, client);
+    const larger = new LexicalEmbeddingProvider({ dimension: 16 });
+
+    await expect(migrator.migrate(FILES_COLLECTION_SCHEMA, larger)).rejects.toThrow(/16/);
+
+    const report = await migrator.migrate(FILES_COLLECTION_SCHEMA, larger, { reembed: true });
+    const collection = fake.collections.get("memory_bank_files")!;
+    const record = await new QdrantCollectionRegistry(client).get("memory_bank_files");
+
+    expect(report.reembedded).toBe(2);
+    expect(collection.size).toBe(16);
+    expect(collection.points.size).toBe(2);
+    expect(record).toMatchObject({ dimension: 16, schemaVersion: 3 });
+    expect(record?.documentFrequencies?.documentCount).toBe(2);
+    expect(fake.collections.has("memory_bank_files__reembed")).toBe(false);
+  });
+});
@@ -5,6 +5,7 @@ import { MockLLMService } from '../../src/infra/llm/mock-llm-service.js';
 import { SearchMemory } from '../../src/data/usecases/search-memory/search-memory.js';
 import { CompileContext } from '../../src/data/usecases/compile-context/compile-context.js';
 import { QdrantSummaryRepository } from '../../src/infra/vector/qdrant-summary-repository.js';
+import { LexicalEmbeddingProvider } from '../../src/infra/embeddings/lexical-embedding-provider.js';
 import { EnhancedFile, SearchQuery } from '../../src/domain/entities/index.js';
 
 describe('Performance Tests', () => {
@@ -13,10 +14,11 @@ describe('Performance Tests', () => {
   let llmService: MockLLMService;
   let searchMemory: SearchMemory;
   let compileContext: CompileContext;
+  const embeddingProvider = new LexicalEmbeddingProvider();
 
   beforeEach(() => {
-    vectorRepo = new QdrantVectorRepository({ host: 'localhost', port: 6333 });
-    summaryRepo = new QdrantSummaryRepository({ host: 'localhost', port: 6333 });
+    vectorRepo = new QdrantVectorRepository({ host: 'localhost', port: 6333 }, embeddingProvider);
+    summaryRepo = new QdrantSummaryRepository({ host: 'localhost', port: 6333 }, embeddingProvider);
     llmService = new MockLLMService();
     searchMemory = new SearchMemory(vectorRepo);
     compileContext = new CompileContext(vectorRepo, summaryRepo, llmService);
@@ -26,6 +28,9 @@ describe('Performance Tests', () => {
     vi.spyOn(QdrantClient.prototype, 'createCollection').mockResolvedValue({} as any);
     vi.spyOn(QdrantClient.prototype, 'createPayloadIndex').mockResolvedValue({} as any);
     vi.spyOn(QdrantClient.prototype, 'upsert').mockResolvedValue({} as any);
+    vi.spyOn(QdrantClient.prototype, 'delete').mockResolvedValue({} as any);
+    vi.spyOn(QdrantClient.prototype, 'retrieve').mockResolvedValue([]);
+    vi.spyOn(QdrantClient.prototype, 'scroll').mockResolvedValue({ points: [], next_page_offset: null } as any);
     vi.spyOn(QdrantClient.prototype, 'search').mockImplementation(async () => {
       // Simulate realistic search latency
       await new Promise(resolve => setTimeout(resolve, 50 + Math.random() * 100));
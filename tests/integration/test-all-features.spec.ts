@@ -2,6 +2,7 @@ import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { QdrantClient } from '@qdrant/js-client-rest';
 import { QdrantVectorRepository } from '../../src/infra/vector/qdrant-vector-repository.js';
 import { QdrantSummaryRepository } from '../../src/infra/vector/qdrant-summary-repository.js';
+import { LexicalEmbeddingProvider } from '../../src/infra/embeddings/lexical-embedding-provider.js';
 import { MockLLMService } from '../../src/infra/llm/mock-llm-service.js';
 import { HyDEQueryExpansionService } from '../../src/infra/services/hyde-query-expansion-service.js';
 import { AdaptivePolicyServiceImpl } from '../../src/infra/services/adaptive-policy-service.js';
@@ -40,11 +41,12 @@ describe('Comprehensive Feature Testing', () => {
     host: 'localhost',
     port: 6333,
   };
+  const embeddingProvider = new LexicalEmbeddingProvider();
 
   beforeEach(async () => {
     // Initialize all services
-    vectorRepo = new QdrantVectorRepository(mockQdrantConfig);
-    summaryRepo = new QdrantSummaryRepository(mockQdrantConfig);
+    vectorRepo = new QdrantVectorRepository(mockQdrantConfig, embeddingProvider);
+    summaryRepo = new QdrantSummaryRepository(mockQdrantConfig, embeddingProvider);
     llmService = new MockLLMService();
     queryExpansion = new HyDEQueryExpansionService(llmService);
     policyService = new AdaptivePolicyServiceImpl();
@@ -107,6 +109,7 @@ describe('Comprehensive Feature Testing', () => {
     ]);
     vi.spyOn(QdrantClient.prototype, 'count').mockResolvedValue({ count: 1 });
     vi.spyOn(QdrantClient.prototype, 'delete').mockResolvedValue({} as any);
+    vi.spyOn(QdrantClient.prototype, 'setPayload').mockResolvedValue({} as any);
     vi.spyOn(QdrantClient.prototype, 'scroll').mockResolvedValue({ points: [] } as any);
   });
 
@@ -713,7 +716,7 @@ Content`;
       // Mock connection failure
       vi.spyOn(QdrantClient.prototype, 'getCollections').mockRejectedValue(new Error('Connection failed'));
 
-      const failingRepo = new QdrantVectorRepository(mockQdrantConfig);
+      const failingRepo = new QdrantVectorRepository(mockQdrantConfig, embeddingProvider);
       
       await expect(failingRepo.initialize()).rejects.toThrow();
     });
@@ -0,0 +1,55 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { VectorRepository } from "../../../../../src/data/protocols/vector-repository.js";
+import { BatchedAccessTracker } from "../../../../../src/infra/services/batched-access-tracker.js";
+import { McpRouterAdapter } from "../../../../../src/main/protocols/mcp/adapters/mcp-router-adapter.js";
+import { McpServerAdapter } from "../../../../../src/main/protocols/mcp/adapters/mcp-server-adapter.js";
+
+describe("McpServerAdapter", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const makeSut = () => {
+    const updateFileAccess = vi.fn().mockResolvedValue(undefined);
+    const tracker = new BatchedAccessTracker({
+      updateFileAccess,
+    } as unknown as VectorRepository);
+    const sut = new McpServerAdapter(new McpRouterAdapter(), [tracker]);
+    sut.register({ name: "memory-bank", version: "1.0.0" });
+    tracker.recordAccess({
+      projectName: "project-1",
+      fileName: "a.md",
+      source: "read",
+      accessedAt: new Date("2024-05-01T10:00:00Z"),
+    });
+
+    return { sut, updateFileAccess };
+  };
+
+  it("should write pending accesses when stopped", async () => {
+    const { sut, updateFileAccess } = makeSut();
+
+    await sut.stop();
+
+    expect(updateFileAccess).toHaveBeenCalledWith(
+      "project-1",
+      "a.md",
+      1,
+      new Date("2024-05-01T10:00:00Z")
+    );
+  });
+
+  it("should stop and write pending accesses once the client closes stdin", async () => {
+    const exit = vi
+      .spyOn(process, "exit")
+      .mockImplementation((() => undefined) as never);
+    const { sut, updateFileAccess } = makeSut();
+    sut.stopOnExit();
+
+    process.stdin.emit("close");
+
+    await vi.waitFor(() => expect(exit).toHaveBeenCalledWith(0));
+    expect(updateFileAccess).toHaveBeenCalledTimes(1);
+    expect(process.stdin.listenerCount("close")).toBe(0);
+  });
+});
@@ -3,6 +3,7 @@ import { ListProjectFilesController } from "../../../../src/presentation/control
 import { ListProjectFilesRequest } from "../../../../src/presentation/controllers/list-project-files/protocols.js";
 import { UnexpectedError } from "../../../../src/presentation/errors/index.js";
 import {
+  makeFileInfo,
   makeListProjectFilesUseCase,
   makeValidator,
 } from "../../mocks/index.js";
@@ -68,6 +69,35 @@ describe("ListProjectFilesController", () => {
     });
   });
 
+  it("should pass the filters on, reading updatedSince as a date", async () => {
+    const { sut, listProjectFilesUseCaseStub } = makeSut();
+    const listProjectFileTreeSpy = vi.spyOn(
+      listProjectFilesUseCaseStub,
+      "listProjectFileTree"
+    );
+    await sut.handle({
+      body: {
+        projectName: "any_project",
+        include: ["decisions/**"],
+        exclude: ["*.txt"],
+        tags: ["core"],
+        updatedSince: "2024-01-01",
+        sortBy: "updated",
+        order: "asc",
+        tree: true,
+      },
+    });
+    expect(listProjectFileTreeSpy).toHaveBeenCalledWith({
+      projectName: "any_project",
+      include: ["decisions/**"],
+      exclude: ["*.txt"],
+      tags: ["core"],
+      updatedSince: new Date("2024-01-01T00:00:00.000Z"),
+      sortBy: "updated",
+      order: "asc",
+    });
+  });
+
   it("should return 500 if ListProjectFilesUseCase throws", async () => {
     const { sut, listProjectFilesUseCaseStub } = makeSut();
     vi.spyOn(
@@ -96,7 +126,22 @@ describe("ListProjectFilesController", () => {
     const response = await sut.handle(request);
     expect(response).toEqual({
       statusCode: 200,
-      body: ["file1.txt", "file2.txt"],
+      body: [makeFileInfo("file1.txt"), makeFileInfo("file2.txt")],
+    });
+  });
+
+  it("should return 200 with the directory tree when requested", async () => {
+    const { sut } = makeSut();
+    const request = {
+      body: {
+        projectName: "any_project",
+        tree: true,
+      },
+    };
+    const response = await sut.handle(request);
+    expect(response).toEqual({
+      statusCode: 200,
+      body: [{ name: "file1.txt", path: "file1.txt", type: "file" }],
     });
   });
 });
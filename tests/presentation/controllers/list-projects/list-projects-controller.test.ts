@@ -1,23 +1,51 @@
 import { describe, expect, it, vi } from "vitest";
 import { ListProjectsController } from "../../../../src/presentation/controllers/list-projects/list-projects-controller.js";
+import { ListProjectsRequest } from "../../../../src/presentation/controllers/list-projects/protocols.js";
 import { UnexpectedError } from "../../../../src/presentation/errors/index.js";
-import { makeListProjectsUseCase } from "../../mocks/index.js";
+import { makeListProjectsUseCase, makeValidator } from "../../mocks/index.js";
 
 const makeSut = () => {
+  const validatorStub = makeValidator<ListProjectsRequest>();
   const listProjectsUseCaseStub = makeListProjectsUseCase();
-  const sut = new ListProjectsController(listProjectsUseCaseStub);
+  const sut = new ListProjectsController(listProjectsUseCaseStub, validatorStub);
   return {
     sut,
+    validatorStub,
     listProjectsUseCaseStub,
   };
 };
 
 describe("ListProjectsController", () => {
-  it("should call ListProjectsUseCase", async () => {
+  it("should call ListProjectsUseCase with the options", async () => {
     const { sut, listProjectsUseCaseStub } = makeSut();
     const listProjectsSpy = vi.spyOn(listProjectsUseCaseStub, "listProjects");
-    await sut.handle();
-    expect(listProjectsSpy).toHaveBeenCalled();
+    await sut.handle({ body: { sortBy: "updated", tag: "core", limit: 10 } });
+    expect(listProjectsSpy).toHaveBeenCalledWith({
+      sortBy: "updated",
+      order: undefined,
+      tag: "core",
+      cursor: undefined,
+      limit: 10,
+    });
+  });
+
+  it("should list all projects without a request body", async () => {
+    const { sut, listProjectsUseCaseStub } = makeSut();
+    const listProjectsSpy = vi.spyOn(listProjectsUseCaseStub, "listProjects");
+    await sut.handle({});
+    expect(listProjectsSpy).toHaveBeenCalledWith({});
+  });
+
+  it("should return 400 if validator returns an error", async () => {
+    const { sut, validatorStub } = makeSut();
+    vi.spyOn(validatorStub, "validate").mockReturnValueOnce(
+      new Error("any_error")
+    );
+    const response = await sut.handle({ body: { limit: 0 } });
+    expect(response).toEqual({
+      statusCode: 400,
+      body: new Error("any_error"),
+    });
   });
 
   it("should return 500 if ListProjectsUseCase throws", async () => {
@@ -25,7 +53,7 @@ describe("ListProjectsController", () => {
     vi.spyOn(listProjectsUseCaseStub, "listProjects").mockRejectedValueOnce(
       new Error("any_error")
     );
-    const response = await sut.handle();
+    const response = await sut.handle({});
     expect(response).toEqual({
       statusCode: 500,
       body: new UnexpectedError(new Error("any_error")),
@@ -34,10 +62,11 @@ describe("ListProjectsController", () => {
 
   it("should return 200 with projects on success", async () => {
     const { sut } = makeSut();
-    const response = await sut.handle();
-    expect(response).toEqual({
-      statusCode: 200,
-      body: ["project1", "project2"],
+    const response = await sut.handle({});
+    expect(response.statusCode).toBe(200);
+    expect(response.body).toMatchObject({
+      projects: [{ name: "project1" }, { name: "project2" }],
+      total: 2,
     });
   });
 });
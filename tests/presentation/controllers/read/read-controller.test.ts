@@ -1,4 +1,5 @@
 import { describe, expect, it, vi } from "vitest";
+import { FileReadError } from "../../../../src/domain/entities/index.js";
 import { ReadRequest } from "../../../../src/presentation/controllers/read/protocols.js";
 import { ReadController } from "../../../../src/presentation/controllers/read/read-controller.js";
 import {
@@ -66,6 +67,60 @@ describe("ReadController", () => {
     });
   });
 
+  it("should pass the part of the file to read on", async () => {
+    const { sut, readFileUseCaseStub } = makeSut();
+    const readFileSpy = vi.spyOn(readFileUseCaseStub, "readFile");
+    await sut.handle({
+      body: {
+        projectName: "any_project",
+        fileName: "any_file",
+        headingPath: ["Decisions"],
+        maxTokens: 100,
+      },
+    });
+    expect(readFileSpy).toHaveBeenCalledWith({
+      projectName: "any_project",
+      fileName: "any_file",
+      startLine: undefined,
+      endLine: undefined,
+      headingPath: ["Decisions"],
+      maxTokens: 100,
+    });
+  });
+
+  it("should return the lines read along with the hash", async () => {
+    const { sut, readFileUseCaseStub } = makeSut();
+    vi.spyOn(readFileUseCaseStub, "readFile").mockResolvedValueOnce({
+      content: "line 2",
+      contentHash: "any_hash",
+      startLine: 2,
+      endLine: 2,
+      totalLines: 5,
+    });
+    const response = await sut.handle({
+      body: { projectName: "any_project", fileName: "any_file", startLine: 2, endLine: 2 },
+    });
+    expect(response).toEqual({
+      statusCode: 200,
+      body: "line 2",
+      metadata: { contentHash: "any_hash", startLine: 2, endLine: 2, totalLines: 5 },
+    });
+  });
+
+  it("should return 400 if the file has no such lines or section", async () => {
+    const { sut, readFileUseCaseStub } = makeSut();
+    vi.spyOn(readFileUseCaseStub, "readFile").mockRejectedValueOnce(
+      new FileReadError("Heading not found: Decisions")
+    );
+    const response = await sut.handle({
+      body: { projectName: "any_project", fileName: "any_file", headingPath: ["Decisions"] },
+    });
+    expect(response).toEqual({
+      statusCode: 400,
+      body: new FileReadError("Heading not found: Decisions"),
+    });
+  });
+
   it("should return 404 if ReadFileUseCase returns null", async () => {
     const { sut, readFileUseCaseStub } = makeSut();
     vi.spyOn(readFileUseCaseStub, "readFile").mockResolvedValueOnce(null);
@@ -112,6 +167,7 @@ describe("ReadController", () => {
     expect(response).toEqual({
       statusCode: 200,
       body: "file content",
+      metadata: { contentHash: "any_hash" },
     });
   });
 });
@@ -121,4 +121,26 @@ describe("UpdateController", () => {
       body: "File any_file updated successfully in project any_project",
     });
   });
+
+  it("should include indexing failures in the response", async () => {
+    const { sut, updateFileUseCaseStub } = makeSut();
+    vi.spyOn(updateFileUseCaseStub, "updateFile").mockResolvedValueOnce({
+      content: "any_content",
+      indexError: "index down",
+    });
+    const request = {
+      body: {
+        projectName: "any_project",
+        fileName: "any_file",
+        content: "any_content",
+      },
+    };
+    const response = await sut.handle(request);
+    expect(response).toEqual({
+      statusCode: 200,
+      body:
+        "File any_file updated successfully in project any_project\n" +
+        "Warning: the file could not be indexed for search: index down",
+    });
+  });
 });
@@ -1,6 +1,7 @@
 import { describe, expect, it, vi } from "vitest";
 import { WriteRequest } from "../../../../src/presentation/controllers/write/protocols.js";
 import { WriteController } from "../../../../src/presentation/controllers/write/write-controller.js";
+import { FileExistsError } from "../../../../src/domain/entities/index.js";
 import { UnexpectedError } from "../../../../src/presentation/errors/index.js";
 import { makeValidator, makeWriteFileUseCase } from "../../mocks/index.js";
 
@@ -86,6 +87,21 @@ describe("WriteController", () => {
     });
   });
 
+  it("should return 409 if someone else created the file first", async () => {
+    const { sut, writeFileUseCaseStub } = makeSut();
+    const error = new FileExistsError("any_project", "any_file");
+    vi.spyOn(writeFileUseCaseStub, "writeFile").mockRejectedValueOnce(error);
+    const request = {
+      body: {
+        projectName: "any_project",
+        fileName: "any_file",
+        content: "any_content",
+      },
+    };
+    const response = await sut.handle(request);
+    expect(response).toEqual({ statusCode: 409, body: error });
+  });
+
   it("should return 200 if valid data is provided", async () => {
     const { sut } = makeSut();
     const request = {
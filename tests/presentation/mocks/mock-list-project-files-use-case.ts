@@ -1,9 +1,30 @@
-import { ListProjectFilesUseCase } from "../../../src/domain/usecases/list-project-files.js";
-import { ListProjectFilesRequest } from "../../../src/presentation/controllers/list-project-files/protocols.js";
+import { FileTreeNode, ProjectFileInfo } from "../../../src/domain/entities/index.js";
+import {
+  ListProjectFilesParams,
+  ListProjectFilesUseCase,
+} from "../../../src/domain/usecases/list-project-files.js";
+
+export const makeFileInfo = (fileName: string): ProjectFileInfo => ({
+  fileName,
+  size: 10,
+  tokens: 3,
+  created: new Date("2024-01-01T00:00:00.000Z"),
+  updated: new Date("2024-01-01T00:00:00.000Z"),
+  tags: [],
+  contentHash: "any_hash",
+});
 
 export class MockListProjectFilesUseCase implements ListProjectFilesUseCase {
-  async listProjectFiles(params: ListProjectFilesRequest): Promise<string[]> {
-    return ["file1.txt", "file2.txt"];
+  async listProjectFiles(
+    params: ListProjectFilesParams
+  ): Promise<ProjectFileInfo[]> {
+    return [makeFileInfo("file1.txt"), makeFileInfo("file2.txt")];
+  }
+
+  async listProjectFileTree(
+    params: ListProjectFilesParams
+  ): Promise<FileTreeNode[]> {
+    return [{ name: "file1.txt", path: "file1.txt", type: "file" }];
   }
 }
 
@@ -1,8 +1,27 @@
+import { ProjectList } from "../../../src/domain/entities/index.js";
 import { ListProjectsUseCase } from "../../../src/domain/usecases/list-projects.js";
 
 export class MockListProjectsUseCase implements ListProjectsUseCase {
-  async listProjects(): Promise<string[]> {
-    return ["project1", "project2"];
+  async listProjects(): Promise<ProjectList> {
+    return {
+      projects: [
+        {
+          name: "project1",
+          fileCount: 2,
+          totalSize: 40,
+          lastUpdated: null,
+          indexStatus: "indexed",
+        },
+        {
+          name: "project2",
+          fileCount: 0,
+          totalSize: 0,
+          lastUpdated: null,
+          indexStatus: "indexed",
+        },
+      ],
+      total: 2,
+    };
   }
 }
 
@@ -1,9 +1,12 @@
-import { ReadFileUseCase } from "../../../src/domain/usecases/read-file.js";
-import { ReadRequest } from "../../../src/presentation/controllers/read/protocols.js";
+import { FileExcerpt } from "../../../src/domain/entities/index.js";
+import {
+  ReadFileParams,
+  ReadFileUseCase,
+} from "../../../src/domain/usecases/read-file.js";
 
 export class MockReadFileUseCase implements ReadFileUseCase {
-  async readFile(params: ReadRequest): Promise<string | null> {
-    return "file content";
+  async readFile(params: ReadFileParams): Promise<FileExcerpt | null> {
+    return { content: "file content", contentHash: "any_hash" };
   }
 }
 
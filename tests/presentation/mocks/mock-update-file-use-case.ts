@@ -1,9 +1,10 @@
+import { FileWriteResult } from "../../../src/domain/entities/index.js";
 import { UpdateFileUseCase } from "../../../src/domain/usecases/update-file.js";
 import { UpdateRequest } from "../../../src/presentation/controllers/update/protocols.js";
 
 export class MockUpdateFileUseCase implements UpdateFileUseCase {
-  async updateFile(params: UpdateRequest): Promise<string | null> {
-    return "updated content";
+  async updateFile(params: UpdateRequest): Promise<FileWriteResult | null> {
+    return { content: "updated content" };
   }
 }
 
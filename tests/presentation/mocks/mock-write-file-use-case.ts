@@ -1,8 +1,9 @@
+import { FileWriteResult } from "../../../src/domain/entities/index.js";
 import { WriteFileUseCase } from "../../../src/domain/usecases/write-file.js";
 import { WriteRequest } from "../../../src/presentation/controllers/write/protocols.js";
 
 export class MockWriteFileUseCase implements WriteFileUseCase {
-  async writeFile(params: WriteRequest): Promise<string | null> {
+  async writeFile(params: WriteRequest): Promise<FileWriteResult | null> {
     return null;
   }
 }
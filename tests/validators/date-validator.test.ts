@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest";
+import { InvalidParamError } from "../../src/presentation/errors/index.js";
+import { DateValidator } from "../../src/validators/date-validator.js";
+
+describe("DateValidator", () => {
+  const sut = new DateValidator("updatedSince");
+
+  it("should return null if field is not provided", () => {
+    expect(sut.validate({})).toBeNull();
+    expect(sut.validate(undefined)).toBeNull();
+  });
+
+  it("should return null for a date string", () => {
+    expect(sut.validate({ updatedSince: "2024-01-01" })).toBeNull();
+    expect(sut.validate({ updatedSince: "2024-01-01T12:00:00Z" })).toBeNull();
+  });
+
+  it("should return InvalidParamError for anything else", () => {
+    expect(sut.validate({ updatedSince: "yesterday" })).toEqual(
+      new InvalidParamError("updatedSince")
+    );
+    expect(sut.validate({ updatedSince: 1704067200000 })).toEqual(
+      new InvalidParamError("updatedSince")
+    );
+  });
+});
@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+import { InvalidParamError } from "../../src/presentation/errors/index.js";
+import { IntegerValidator } from "../../src/validators/integer-validator.js";
+
+describe("IntegerValidator", () => {
+  const sut = new IntegerValidator("limit", 1, 200);
+
+  it("should return null if field is not provided", () => {
+    expect(sut.validate({})).toBeNull();
+    expect(sut.validate(undefined)).toBeNull();
+  });
+
+  it("should return null for a whole number within the range", () => {
+    expect(sut.validate({ limit: 1 })).toBeNull();
+    expect(sut.validate({ limit: 200 })).toBeNull();
+  });
+
+  it("should return InvalidParamError for anything else", () => {
+    expect(sut.validate({ limit: 0 })).toEqual(new InvalidParamError("limit"));
+    expect(sut.validate({ limit: 201 })).toEqual(new InvalidParamError("limit"));
+    expect(sut.validate({ limit: 2.5 })).toEqual(new InvalidParamError("limit"));
+    expect(sut.validate({ limit: "10" })).toEqual(new InvalidParamError("limit"));
+  });
+});
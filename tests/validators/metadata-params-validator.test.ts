@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { InvalidParamError } from "../../src/presentation/errors/index.js";
+import { MetadataParamsValidator } from "../../src/validators/metadata-params-validator.js";
+
+describe("MetadataParamsValidator", () => {
+  const sut = new MetadataParamsValidator();
+
+  it("should return null when no metadata is given", () => {
+    expect(sut.validate({ projectName: "project-1" })).toBeNull();
+    expect(sut.validate(undefined)).toBeNull();
+  });
+
+  it("should return null for valid metadata", () => {
+    expect(
+      sut.validate({
+        tags: ["adr", "auth"],
+        salience: 0,
+        task: "login",
+        metadata: { status: "draft" },
+      })
+    ).toBeNull();
+  });
+
+  it("should return InvalidParamError for tags that are not a list of names", () => {
+    expect(sut.validate({ tags: "adr" })).toEqual(new InvalidParamError("tags"));
+    expect(sut.validate({ tags: ["adr", 1] })).toEqual(new InvalidParamError("tags"));
+  });
+
+  it("should return InvalidParamError for salience outside 0 to 1", () => {
+    expect(sut.validate({ salience: 1.5 })).toEqual(new InvalidParamError("salience"));
+    expect(sut.validate({ salience: "high" })).toEqual(new InvalidParamError("salience"));
+  });
+
+  it("should return InvalidParamError for metadata that is not an object", () => {
+    expect(sut.validate({ metadata: ["a"] })).toEqual(new InvalidParamError("metadata"));
+    expect(sut.validate({ metadata: null })).toEqual(new InvalidParamError("metadata"));
+  });
+});
@@ -0,0 +1,21 @@
+import { describe, expect, it } from "vitest";
+import { InvalidParamError } from "../../src/presentation/errors/index.js";
+import { OneOfValidator } from "../../src/validators/one-of-validator.js";
+
+describe("OneOfValidator", () => {
+  const sut = new OneOfValidator("onConflict", ["rename", "merge", "skip"]);
+
+  it("should return null if field is not provided", () => {
+    expect(sut.validate({})).toBeNull();
+    expect(sut.validate(undefined)).toBeNull();
+  });
+
+  it("should return null for an allowed value", () => {
+    expect(sut.validate({ onConflict: "merge" })).toBeNull();
+  });
+
+  it("should return InvalidParamError for anything else", () => {
+    expect(sut.validate({ onConflict: "overwrite" })).toEqual(new InvalidParamError("onConflict"));
+    expect(sut.validate({ onConflict: null })).toEqual(new InvalidParamError("onConflict"));
+  });
+});
@@ -1,5 +1,6 @@
 import { describe, expect, it } from "vitest";
 import { InvalidParamError } from "../../src/presentation/errors/index.js";
+import { PATH_REGEX } from "../../src/validators/constants.js";
 import { ParamNameValidator } from "../../src/validators/param-name-validator.js";
 
 describe("ParamNameValidator", () => {
@@ -80,4 +81,14 @@ describe("ParamNameValidator", () => {
     const invalidError = sut.validate(invalidInput);
     expect(invalidError).toBeInstanceOf(InvalidParamError);
   });
+
+  it("should accept nested file paths with PATH_REGEX", () => {
+    const sut = new ParamNameValidator("field", PATH_REGEX);
+
+    expect(sut.validate({ field: "runbooks/deploy.md" })).toBeNull();
+    expect(sut.validate({ field: "runbooks/" })).toBeInstanceOf(InvalidParamError);
+    expect(sut.validate({ field: "/runbooks/deploy.md" })).toBeInstanceOf(
+      InvalidParamError
+    );
+  });
 });
@@ -1,4 +1,5 @@
 import { describe, expect, it } from "vitest";
+import { RESERVED_DIRECTORIES } from "../../src/infra/filesystem/constants.js";
 import { InvalidParamError } from "../../src/presentation/errors/index.js";
 import { PathSecurityValidator } from "../../src/validators/path-security-validator.js";
 
@@ -74,6 +75,23 @@ describe("PathSecurityValidator", () => {
     expect(error).toBeNull();
   });
 
+  it("should return InvalidParamError for a hidden name", () => {
+    const sut = new PathSecurityValidator("field");
+    const error = sut.validate({ field: ".hidden" });
+
+    expect(error).toBeInstanceOf(InvalidParamError);
+  });
+
+  it.each(RESERVED_DIRECTORIES)(
+    "should return InvalidParamError for the reserved name %s",
+    (name) => {
+      const sut = new PathSecurityValidator("field");
+      const error = sut.validate({ field: name });
+
+      expect(error).toBeInstanceOf(InvalidParamError);
+    }
+  );
+
   it("should ignore non-string fields", () => {
     const sut = new PathSecurityValidator("field");
     const input = { field: 123 as any };
@@ -81,4 +99,35 @@ describe("PathSecurityValidator", () => {
 
     expect(error).toBeNull();
   });
+
+  describe("with subdirectories allowed", () => {
+    const sut = new PathSecurityValidator("field", { allowSubdirectories: true });
+
+    it("should return null for a relative path into subfolders", () => {
+      expect(sut.validate({ field: "decisions/2024/adr-001.md" })).toBeNull();
+    });
+
+    it("should check every path of a list", () => {
+      expect(sut.validate({ field: ["projectbrief.md", "decisions/adr-001.md"] })).toBeNull();
+      expect(sut.validate({ field: ["projectbrief.md", "../secret.md"] })).toBeInstanceOf(
+        InvalidParamError
+      );
+    });
+
+    it.each([
+      ["an absolute path", "/etc/passwd"],
+      ["directory traversal", "decisions/../../secret.md"],
+      ["an empty segment", "decisions//adr.md"],
+      ["a current directory segment", "./adr.md"],
+      ["a trailing slash", "decisions/"],
+      ["a hidden folder", ".history/adr.md"],
+      ["a hidden file", "decisions/.adr.md"],
+      ["a hidden file at the top level", ".frontmatter-schema.json"],
+      ["a backslash", "decisions\\adr.md"],
+    ])("should return InvalidParamError for %s", (_case, value) => {
+      const error = sut.validate({ field: value });
+
+      expect(error).toBeInstanceOf(InvalidParamError);
+    });
+  });
 });
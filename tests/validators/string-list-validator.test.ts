@@ -0,0 +1,23 @@
+import { describe, expect, it } from "vitest";
+import { InvalidParamError } from "../../src/presentation/errors/index.js";
+import { StringListValidator } from "../../src/validators/string-list-validator.js";
+
+describe("StringListValidator", () => {
+  const sut = new StringListValidator("tags");
+
+  it("should return null if field is not provided", () => {
+    expect(sut.validate({})).toBeNull();
+    expect(sut.validate(undefined)).toBeNull();
+  });
+
+  it("should return null for a list of strings", () => {
+    expect(sut.validate({ tags: [] })).toBeNull();
+    expect(sut.validate({ tags: ["core", "api"] })).toBeNull();
+  });
+
+  it("should return InvalidParamError for anything else", () => {
+    expect(sut.validate({ tags: "core" })).toEqual(new InvalidParamError("tags"));
+    expect(sut.validate({ tags: ["core", 1] })).toEqual(new InvalidParamError("tags"));
+    expect(sut.validate({ tags: [""] })).toEqual(new InvalidParamError("tags"));
+  });
+});
@@ -0,0 +1,22 @@
+import { describe, expect, it } from "vitest";
+import { InvalidParamError } from "../../src/presentation/errors/index.js";
+import { StringMapValidator } from "../../src/validators/string-map-validator.js";
+
+describe("StringMapValidator", () => {
+  const sut = new StringMapValidator("variables");
+
+  it("should return null if field is not provided", () => {
+    expect(sut.validate({})).toBeNull();
+    expect(sut.validate(undefined)).toBeNull();
+  });
+
+  it("should return null for an object of strings", () => {
+    expect(sut.validate({ variables: { owner: "sam", team: "core" } })).toBeNull();
+  });
+
+  it("should return InvalidParamError for anything else", () => {
+    expect(sut.validate({ variables: ["sam"] })).toEqual(new InvalidParamError("variables"));
+    expect(sut.validate({ variables: { owner: 1 } })).toEqual(new InvalidParamError("variables"));
+    expect(sut.validate({ variables: "owner=sam" })).toEqual(new InvalidParamError("variables"));
+  });
+});